@@ -15,7 +15,12 @@ import BrandIntelligencePage from './pages/BrandIntelligencePage';
 import ClientProfilesPage from './pages/ClientProfilesPage';
 import PrivateDMsPage from './pages/PrivateDMsPage';
 import ProgressionPage from './pages/ProgressionPage';
+import RoundTablePage from './pages/RoundTablePage';
 import { ToastContainer, useToast } from './components/Toast';
+import { startMemoryConsolidationScheduler } from './services/memoryConsolidation';
+import { startRelationshipSimulationScheduler } from './services/relationshipSimulation';
+import { startFollowUpSlaScheduler } from './services/followUps';
+import { startAutonomousDmScheduler } from './services/autonomousDms';
 
 const PageTransition: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const location = useLocation();
@@ -41,6 +46,11 @@ const PageTransition: React.FC<{ children: React.ReactNode }> = ({ children }) =
 const AppContent: React.FC = () => {
     const { toasts, dismiss } = useToast();
 
+    React.useEffect(() => startMemoryConsolidationScheduler(), []);
+    React.useEffect(() => startRelationshipSimulationScheduler(), []);
+    React.useEffect(() => startFollowUpSlaScheduler(), []);
+    React.useEffect(() => startAutonomousDmScheduler(), []);
+
     return (
         <>
             <Sidebar />
@@ -55,6 +65,7 @@ const AppContent: React.FC = () => {
                         <Route path="/hrmr" element={<HrmrPage />} />
                         <Route path="/performers" element={<PerformersPage />} />
                         <Route path="/team" element={<TeamInteractionsPage />} />
+                        <Route path="/round-table" element={<RoundTablePage />} />
                         <Route path="/memory-onboarding" element={<MemoryOnboardingPage />} />
                         <Route path="/brand" element={<BrandIntelligencePage />} />
                         <Route path="/clients" element={<ClientProfilesPage />} />
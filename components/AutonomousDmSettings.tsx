@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import {
+    AutonomousDmSettings as AutonomousDmSettingsValue,
+    getAutonomousDmLastRun,
+    loadAutonomousDmSettings,
+    runAutonomousDmTick,
+    saveAutonomousDmSettings
+} from '../services/autonomousDms';
+import { showToast } from './Toast';
+
+const NUMBER_FIELDS: Array<{ key: Exclude<keyof AutonomousDmSettingsValue, 'enabled'>; label: string; min: number; max: number }> = [
+    { key: 'intervalMinutes', label: 'Minutes between runs', min: 5, max: 1440 },
+    { key: 'conversationsPerTick', label: 'Backchannels per run', min: 1, max: 5 },
+    { key: 'turnsPerConversation', label: 'Messages per backchannel', min: 1, max: 6 },
+    { key: 'schemingThreshold', label: 'Scheming threshold (cunning + ambition)', min: 0, max: 100 }
+];
+
+const inputClass = 'w-full bg-[#2a2b2c] text-gray-300 rounded-lg p-2 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm';
+
+const AutonomousDmSettings: React.FC = () => {
+    const [settings, setSettings] = useState<AutonomousDmSettingsValue>(() => loadAutonomousDmSettings());
+    const [lastRun, setLastRun] = useState(() => getAutonomousDmLastRun());
+    const [isRunning, setIsRunning] = useState(false);
+
+    useEffect(() => {
+        const handleUpdate = () => setLastRun(getAutonomousDmLastRun());
+        window.addEventListener('autonomous-dms-updated', handleUpdate);
+        return () => window.removeEventListener('autonomous-dms-updated', handleUpdate);
+    }, []);
+
+    const update = (patch: Partial<AutonomousDmSettingsValue>) => {
+        const next = { ...settings, ...patch };
+        setSettings(next);
+        saveAutonomousDmSettings(next);
+    };
+
+    const handleRunNow = async () => {
+        setIsRunning(true);
+        try {
+            const result = await runAutonomousDmTick({ settings });
+            const sent = result.backchannels.reduce((acc, entry) => acc + entry.messages.length, 0);
+            if (!result.backchannels.length) {
+                showToast('No performer had a reason to open a backchannel.', 'info');
+            } else {
+                showToast(`${sent} backchannel message${sent === 1 ? '' : 's'} sent${result.halted ? '; the Watcher stopped the rest' : ''}.`, result.halted ? 'warning' : 'success');
+            }
+        } catch (error) {
+            console.error('Failed to run autonomous DMs:', error);
+            showToast('Autonomous DM run failed.', 'error');
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    return (
+        <div className="bg-[#1e1f20] p-6 rounded-lg border border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-200">Autonomous Backchannels</h3>
+            <p className="text-sm text-gray-400 mt-1 mb-4">
+                Performers with active coordination plans, or enough cunning and ambition, message each other on their own.
+                Budgets and rate limits come from the Watcher rules for autonomous direct messages.
+            </p>
+            <label className="flex items-center gap-2 text-sm text-gray-300 mb-4">
+                <input type="checkbox" checked={settings.enabled} onChange={(event) => update({ enabled: event.target.checked })} />
+                Run in the background
+            </label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {NUMBER_FIELDS.map(field => (
+                    <label key={field.key} className="text-xs text-gray-400 space-y-1">
+                        <span>{field.label}</span>
+                        <input
+                            type="number"
+                            min={field.min}
+                            max={field.max}
+                            value={settings[field.key]}
+                            onChange={(event) => {
+                                const value = Number(event.target.value);
+                                if (Number.isFinite(value)) update({ [field.key]: Math.max(field.min, Math.min(field.max, Math.round(value))) });
+                            }}
+                            className={inputClass}
+                        />
+                    </label>
+                ))}
+            </div>
+            <div className="mt-4 flex flex-wrap items-center gap-3">
+                <button
+                    onClick={handleRunNow}
+                    disabled={isRunning}
+                    className="px-3 py-1.5 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 disabled:opacity-60"
+                >
+                    {isRunning ? 'Running…' : 'Run now'}
+                </button>
+                <span className="text-xs text-gray-500">
+                    {lastRun ? `Last run ${new Date(lastRun).toLocaleString()}` : 'Never run'}
+                </span>
+            </div>
+        </div>
+    );
+};
+
+export default AutonomousDmSettings;
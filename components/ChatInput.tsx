@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import {
   SendIcon,
+  StopIcon,
   PreflectionIcon,
   MemoryIcon,
   TaskListIcon,
@@ -37,6 +38,8 @@ interface ChatInputProps {
     speakerPersonaId: string | null
   ) => void;
   isLoading: boolean;
+  // When provided, the send button turns into a stop button while a reply is generating.
+  onStop?: () => void;
   performers: PerformerProfile[];
   activePerformerIds: string[];
   onTogglePerformer: (id: string) => void;
@@ -57,7 +60,7 @@ const performerIconMap: Record<string, React.FC<React.SVGProps<SVGSVGElement>>>
   evaluator: GradeIcon
 };
 
-const defaultFeatures: ActiveFeatures = {
+export const defaultFeatures: ActiveFeatures = {
   usePreflection: false,
   useMemory: true,
   useTaskList: false,
@@ -106,6 +109,7 @@ const ToolbarButton: React.FC<{
 const ChatInput: React.FC<ChatInputProps> = ({
   onSendMessage,
   isLoading,
+  onStop,
   performers,
   activePerformerIds,
   onTogglePerformer,
@@ -354,18 +358,29 @@ const ChatInput: React.FC<ChatInputProps> = ({
           rows={1}
           disabled={isLoading}
         />
-        <button
-          onClick={handleSend}
-          disabled={isLoading || (!input.trim() && !image)}
-          className="absolute right-3 top-1/2 -translate-y-1/2 p-2 rounded-lg text-gray-400 hover:text-white hover:bg-blue-600/20 disabled:text-gray-600 disabled:cursor-not-allowed disabled:hover:bg-transparent transition-all duration-200 transform hover:scale-110 active:scale-95"
-          aria-label="Send message"
-        >
-          {isLoading ? (
-            <div className="w-5 h-5 border-2 border-blue-400 border-t-transparent rounded-full animate-spin" />
-          ) : (
-            <SendIcon />
-          )}
-        </button>
+        {isLoading && onStop ? (
+          <button
+            onClick={onStop}
+            className="absolute right-3 top-1/2 -translate-y-1/2 p-2 rounded-lg text-red-300 hover:text-white hover:bg-red-600/30 transition-all duration-200 transform hover:scale-110 active:scale-95"
+            aria-label="Stop generating"
+            title="Stop generating"
+          >
+            <StopIcon className="h-5 w-5" />
+          </button>
+        ) : (
+          <button
+            onClick={handleSend}
+            disabled={isLoading || (!input.trim() && !image)}
+            className="absolute right-3 top-1/2 -translate-y-1/2 p-2 rounded-lg text-gray-400 hover:text-white hover:bg-blue-600/20 disabled:text-gray-600 disabled:cursor-not-allowed disabled:hover:bg-transparent transition-all duration-200 transform hover:scale-110 active:scale-95"
+            aria-label="Send message"
+          >
+            {isLoading ? (
+              <div className="w-5 h-5 border-2 border-blue-400 border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <SendIcon />
+            )}
+          </button>
+        )}
       </div>
     </div>
   );
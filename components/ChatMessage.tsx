@@ -2,18 +2,22 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { ChatMessage as ChatMessageType, HRMR_GRADE_SCALE, HrmrGrade, HrmrRating } from '../types';
-import { UserIcon, AgentIcon } from './icons/Icons';
+import { ChatMessage as ChatMessageType, CalendarEvent, CustomLens, HRMR_GRADE_SCALE, HrmrGrade, HrmrRating } from '../types';
+import { UserIcon, AgentIcon, SparklesIcon } from './icons/Icons';
 import PreflectionPanel from './PreflectionPanel';
 import MemorySavedPanel from './MemorySavedPanel';
 import TaskListPanel from './TaskListPanel';
 import AuditPanel from './AuditPanel';
+import ToolCallsPanel from './ToolCallsPanel';
 import StageDirectionsPanel from './StageDirectionsPanel';
 import MonologuePanel from './MonologuePanel';
 import EscortPanel from './EscortPanel';
+import EscortPipelinePanel from './EscortPipelinePanel';
 import PostProcessingToolbar, { POST_PROCESSING_ACTIONS } from './PostProcessingToolbar';
 import { runPostProcessing, PostProcessingAction, POST_PROCESSING_DETAILS, loadAiSettings } from '../services/aiService';
-import { getHrmrRatingByMessageId, upsertHrmrRating, deleteHrmrRating } from '../services/db';
+import { getHrmrRatingByMessageId, upsertHrmrRating, deleteHrmrRating, getCustomLenses } from '../services/db';
+import { runCustomLens, CustomLensResult } from '../services/customLenses';
+import { scheduleEventsFromMessage } from '../services/calendarEvents';
 import MissionProgressInline from './MissionProgressInline';
 
 const stripMarkdown = (value: string): string => {
@@ -36,6 +40,10 @@ const ChatMessage: React.FC<{ message: ChatMessageType }> = ({ message }) => {
     const [postError, setPostError] = useState<string | null>(null);
     const [processingAction, setProcessingAction] = useState<PostProcessingAction | null>(null);
     const [postResults, setPostResults] = useState<Partial<Record<PostProcessingAction, string>>>({});
+    const [customLenses, setCustomLenses] = useState<CustomLens[]>([]);
+    const [processingLensId, setProcessingLensId] = useState<string | null>(null);
+    const [lensResults, setLensResults] = useState<Record<string, CustomLensResult>>({});
+    const [scheduledEvents, setScheduledEvents] = useState<CalendarEvent[] | null>(null);
     const [isSpeaking, setIsSpeaking] = useState(false);
     const [isRatingOpen, setIsRatingOpen] = useState(false);
     const [currentGrade, setCurrentGrade] = useState<HrmrGrade | null>(null);
@@ -51,6 +59,17 @@ const ChatMessage: React.FC<{ message: ChatMessageType }> = ({ message }) => {
         return () => window.removeEventListener('ai-settings-updated', handler);
     }, []);
 
+    useEffect(() => {
+        const loadLenses = () => {
+            getCustomLenses()
+                .then(setCustomLenses)
+                .catch(error => console.error('Failed to load custom lenses:', error));
+        };
+        loadLenses();
+        window.addEventListener('custom-lenses-updated', loadLenses);
+        return () => window.removeEventListener('custom-lenses-updated', loadLenses);
+    }, []);
+
     const hasTextContent = useMemo(() => Boolean(message.content?.trim().length), [message.content]);
 
     useEffect(() => {
@@ -119,8 +138,17 @@ const ChatMessage: React.FC<{ message: ChatMessageType }> = ({ message }) => {
         setPostError(null);
         setProcessingAction(action);
         try {
-            const result = await runPostProcessing(action, message.content, message.role);
+            const [result, events] = await Promise.all([
+                runPostProcessing(action, message.content, message.role),
+                action === 'calendar'
+                    ? scheduleEventsFromMessage(message).catch(error => {
+                        console.error('Failed to schedule calendar events:', error);
+                        return null;
+                    })
+                    : Promise.resolve(null)
+            ]);
             setPostResults(prev => ({ ...prev, [action]: result }));
+            if (events) setScheduledEvents(events);
         } catch (error) {
             console.error(`Post-processing (${action}) failed:`, error);
             setPostError('Unable to run post-processing. Double-check AI settings and try again.');
@@ -130,6 +158,22 @@ const ChatMessage: React.FC<{ message: ChatMessageType }> = ({ message }) => {
         }
     };
 
+    const handleCustomLens = async (lens: CustomLens) => {
+        if (!hasTextContent || processingLensId === lens.id) return;
+        setPostError(null);
+        setProcessingLensId(lens.id);
+        try {
+            const result = await runCustomLens(lens, message.content, message.role, message.id);
+            setLensResults(prev => ({ ...prev, [lens.id]: result }));
+        } catch (error) {
+            console.error(`Custom lens (${lens.label}) failed:`, error);
+            setPostError(`Unable to run ${lens.label}. Check the lens instructions and AI settings.`);
+            setTimeout(() => setPostError(null), 5000);
+        } finally {
+            setProcessingLensId(null);
+        }
+    };
+
     useEffect(() => {
         if (message.role !== 'agent') return;
         (async () => {
@@ -153,13 +197,17 @@ const ChatMessage: React.FC<{ message: ChatMessageType }> = ({ message }) => {
                 info.relatedModules.forEach(m => moduleSet.add(m));
             }
         });
+        customLenses
+            .filter(lens => lensResults[lens.id])
+            .forEach(lens => lens.relatedModules.forEach(m => moduleSet.add(m)));
         if (message.agentResponseParts?.internalMonologue) moduleSet.add('Monologue');
         if (message.agentResponseParts?.stageDirections) moduleSet.add('Stage');
         if (message.agentResponseParts?.preflection) moduleSet.add('Preflection');
         if (message.agentResponseParts?.memory) moduleSet.add('Memory');
         if (message.agentResponseParts?.tasks?.length) moduleSet.add('Tasking');
+        if (message.agentResponseParts?.toolCalls?.length) moduleSet.add('Tools');
         return Array.from(moduleSet);
-    }, [postResults, message.agentResponseParts]);
+    }, [postResults, lensResults, customLenses, message.agentResponseParts]);
 
     const handleGradeSelect = async (grade: HrmrGrade) => {
         if (message.role !== 'agent' || !message.agentResponseParts) return;
@@ -238,6 +286,16 @@ const ChatMessage: React.FC<{ message: ChatMessageType }> = ({ message }) => {
                             In Character
                         </span>
                     )}
+                    {message.streaming && (
+                        <span className="px-2 py-0.5 text-[10px] uppercase tracking-wide bg-blue-500/20 border border-blue-400/40 text-blue-200 rounded-full animate-pulse">
+                            Streaming
+                        </span>
+                    )}
+                    {parts?.interrupted && !message.streaming && (
+                        <span className="px-2 py-0.5 text-[10px] uppercase tracking-wide bg-red-500/20 border border-red-400/40 text-red-200 rounded-full">
+                            Stopped
+                        </span>
+                    )}
                     {message.rewriteStatus === 'rewritten' && (
                         <span className="px-2 py-0.5 text-[10px] uppercase tracking-wide bg-emerald-500/20 border border-emerald-400/40 text-emerald-200 rounded-full">
                             Prompt Rewrite
@@ -264,6 +322,9 @@ const ChatMessage: React.FC<{ message: ChatMessageType }> = ({ message }) => {
                         <ReactMarkdown remarkPlugins={[remarkGfm]}>
                             {message.content}
                         </ReactMarkdown>
+                        {message.streaming && (
+                            <span className="inline-block w-2 h-4 align-middle bg-blue-300/80 animate-pulse" aria-hidden="true" />
+                        )}
                     </div>
                     {message.metadata?.mission && (
                         <MissionProgressInline missionMetadata={message.metadata.mission} />
@@ -274,6 +335,9 @@ const ChatMessage: React.FC<{ message: ChatMessageType }> = ({ message }) => {
                             escortName={message.metadata.escortName}
                         />
                     )}
+                    {message.metadata?.escortPipeline && (
+                        <EscortPipelinePanel run={message.metadata.escortPipeline} />
+                    )}
                     {message.rewrittenContent && message.rewrittenContent.trim().length > 0 && message.rewrittenContent !== message.content && (
                         <div className="text-xs text-blue-300 bg-blue-900/20 border border-blue-600/30 rounded-md px-3 py-2">
                             <span className="uppercase tracking-wider font-semibold text-blue-200 mr-2">Rewritten</span>
@@ -290,13 +354,16 @@ const ChatMessage: React.FC<{ message: ChatMessageType }> = ({ message }) => {
                     isSpeaking={isSpeaking}
                     onAction={handlePostAction}
                     inFlightAction={processingAction}
-                    disabled={!hasTextContent}
+                    customLenses={customLenses}
+                    onCustomLens={handleCustomLens}
+                    inFlightLensId={processingLensId}
+                    disabled={!hasTextContent || Boolean(message.streaming)}
                     onOpenRating={() => {
                         if (isUser) return;
                         setIsRatingOpen(prev => !prev);
                     }}
                     currentGrade={isUser ? null : currentGrade}
-                    showRating={!isUser}
+                    showRating={!isUser && !message.streaming}
                 />
 
                 <div className="mt-2 text-xs min-h-[18px]">
@@ -342,6 +409,7 @@ const ChatMessage: React.FC<{ message: ChatMessageType }> = ({ message }) => {
 
                 {parts && (
                     <div className="mt-4 space-y-3">
+                        {parts.toolCalls && parts.toolCalls.length > 0 && admonitions.toolCalls && <ToolCallsPanel toolCalls={parts.toolCalls} />}
                         {parts.preflection && admonitions.preflection && <PreflectionPanel instruction={parts.preflection} />}
                         {parts.internalMonologue && admonitions.monologue && <MonologuePanel monologue={parts.internalMonologue} />}
                         {parts.stageDirections && admonitions.stageDirections && <StageDirectionsPanel directions={parts.stageDirections} />}
@@ -361,6 +429,13 @@ const ChatMessage: React.FC<{ message: ChatMessageType }> = ({ message }) => {
                                 <div className="flex items-center gap-2 text-sm font-semibold text-gray-100">
                                     <def.Icon className="w-4 h-4 text-blue-300" />
                                     <span>{def.label}</span>
+                                    {def.id === 'calendar' && scheduledEvents && (
+                                        <span className="ml-auto text-[10px] uppercase tracking-wider text-emerald-300">
+                                            {scheduledEvents.length
+                                                ? `Scheduled ${scheduledEvents.length} event${scheduledEvents.length === 1 ? '' : 's'}`
+                                                : 'No events to schedule'}
+                                        </span>
+                                    )}
                                 </div>
                                 <div className="mt-2 flex flex-wrap gap-2">
                                     {POST_PROCESSING_DETAILS[def.id].relatedModules.map(module => (
@@ -378,6 +453,30 @@ const ChatMessage: React.FC<{ message: ChatMessageType }> = ({ message }) => {
                         ))}
                     </div>
                 )}
+
+                {admonitions.postProcessing && customLenses.some(lens => lensResults[lens.id]) && (
+                    <div className="mt-4 space-y-3">
+                        {customLenses.filter(lens => lensResults[lens.id]).map(lens => (
+                            <div
+                                key={lens.id}
+                                className="border border-purple-700/40 rounded-lg bg-[#1d1f22] p-4 shadow-inner"
+                            >
+                                <div className="flex items-center gap-2 text-sm font-semibold text-gray-100">
+                                    <SparklesIcon className="w-4 h-4 text-purple-300" />
+                                    <span>{lens.label}</span>
+                                    {lensResults[lens.id].applied && (
+                                        <span className="ml-auto text-[10px] uppercase tracking-wider text-emerald-300">{lensResults[lens.id].applied}</span>
+                                    )}
+                                </div>
+                                <div className="mt-2 prose prose-invert prose-sm max-w-none text-gray-300">
+                                    <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                                        {lensResults[lens.id].markdown}
+                                    </ReactMarkdown>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react';
+import { ModelProvider, StoredCredential } from '../types';
+import { getAllCredentials } from '../services/db';
+
+interface CredentialSelectProps {
+    provider: ModelProvider;
+    value?: string;
+    onChange: (credentialId: string | undefined) => void;
+    emptyLabel: string;
+    className?: string;
+}
+
+const HEALTH_MARKS: Record<StoredCredential['health']['status'], string> = {
+    unknown: '',
+    healthy: ' ✓',
+    failing: ' ⚠'
+};
+
+/** Picks a vault credential for one provider; the key itself never leaves the vault. */
+const CredentialSelect: React.FC<CredentialSelectProps> = ({ provider, value, onChange, emptyLabel, className }) => {
+    const [credentials, setCredentials] = useState<StoredCredential[]>([]);
+
+    useEffect(() => {
+        const load = () => {
+            getAllCredentials()
+                .then(setCredentials)
+                .catch(error => console.error('Failed to load credentials:', error));
+        };
+        load();
+        window.addEventListener('credentials-updated', load);
+        return () => window.removeEventListener('credentials-updated', load);
+    }, []);
+
+    const options = credentials.filter(credential => credential.provider === provider);
+    const missing = value && !credentials.some(credential => credential.id === value);
+
+    return (
+        <select
+            value={value ?? ''}
+            onChange={(event) => onChange(event.target.value || undefined)}
+            className={className ?? 'w-full bg-[#2a2b2c] text-gray-300 rounded-lg p-3 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500'}
+        >
+            <option value="">{emptyLabel}</option>
+            {missing && <option value={value}>Missing credential</option>}
+            {options.map(credential => (
+                <option key={credential.id} value={credential.id}>
+                    {credential.label} ({credential.hint}){HEALTH_MARKS[credential.health.status]}
+                </option>
+            ))}
+        </select>
+    );
+};
+
+export default CredentialSelect;
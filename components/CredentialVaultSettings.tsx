@@ -0,0 +1,245 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ModelProvider, PerformerProfile, StoredCredential } from '../types';
+import { getAllCredentials, getAllPerformers } from '../services/db';
+import { PROVIDERS } from '../services/aiService';
+import {
+    addCredential,
+    changeVaultPassphrase,
+    createVault,
+    hasLegacyKeys,
+    isVaultInitialized,
+    isVaultUnlocked,
+    lockVault,
+    migrateLegacyKeys,
+    removeCredential,
+    unlockVault,
+    updateCredential
+} from '../services/credentialVault';
+import { showToast } from './Toast';
+import { TrashIcon } from './icons/Icons';
+
+const HEALTH_STYLES: Record<StoredCredential['health']['status'], string> = {
+    unknown: 'bg-gray-700 text-gray-300',
+    healthy: 'bg-green-500/20 text-green-300',
+    failing: 'bg-red-500/20 text-red-300'
+};
+
+const inputClass = 'w-full bg-[#2a2b2c] text-gray-300 rounded-lg p-2 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm';
+const buttonClass = 'px-3 py-1.5 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 disabled:opacity-60';
+
+const CredentialVaultSettings: React.FC = () => {
+    const [initialized, setInitialized] = useState(() => isVaultInitialized());
+    const [unlocked, setUnlocked] = useState(() => isVaultUnlocked());
+    const [credentials, setCredentials] = useState<StoredCredential[]>([]);
+    const [performers, setPerformers] = useState<PerformerProfile[]>([]);
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [nextPassphrase, setNextPassphrase] = useState('');
+    const [draft, setDraft] = useState<{ label: string; provider: ModelProvider; secret: string }>({ label: '', provider: 'google', secret: '' });
+    const [replacing, setReplacing] = useState<{ id: string; secret: string } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const refresh = useCallback(() => {
+        setInitialized(isVaultInitialized());
+        setUnlocked(isVaultUnlocked());
+        getAllCredentials()
+            .then(setCredentials)
+            .catch(loadError => console.error('Failed to load credentials:', loadError));
+        getAllPerformers()
+            .then(setPerformers)
+            .catch(loadError => console.error('Failed to load performers:', loadError));
+    }, []);
+
+    useEffect(() => {
+        refresh();
+        window.addEventListener('credentials-updated', refresh);
+        window.addEventListener('ai-settings-updated', refresh);
+        window.addEventListener('performers-updated', refresh);
+        return () => {
+            window.removeEventListener('credentials-updated', refresh);
+            window.removeEventListener('ai-settings-updated', refresh);
+            window.removeEventListener('performers-updated', refresh);
+        };
+    }, [refresh]);
+
+    const run = async (action: () => Promise<void>) => {
+        setError(null);
+        setIsBusy(true);
+        try {
+            await action();
+        } catch (actionError) {
+            setError(actionError instanceof Error ? actionError.message : String(actionError));
+        } finally {
+            setIsBusy(false);
+            refresh();
+        }
+    };
+
+    const handleCreate = () => run(async () => {
+        if (passphrase !== confirmation) throw new Error('Passphrases do not match.');
+        const migrated = await createVault(passphrase);
+        setPassphrase('');
+        setConfirmation('');
+        showToast(migrated ? `Vault created; moved ${migrated} saved key${migrated === 1 ? '' : 's'} into it.` : 'Vault created.', 'success');
+    });
+
+    const handleUnlock = () => run(async () => {
+        await unlockVault(passphrase);
+        setPassphrase('');
+    });
+
+    const handleChangePassphrase = () => run(async () => {
+        await changeVaultPassphrase(passphrase, nextPassphrase);
+        setPassphrase('');
+        setNextPassphrase('');
+        showToast('Vault passphrase changed.', 'success');
+    });
+
+    const handleAdd = () => run(async () => {
+        const record = await addCredential(draft);
+        setDraft(prev => ({ ...prev, label: '', secret: '' }));
+        showToast(`Saved ${record.label}`, 'success');
+    });
+
+    const handleReplace = () => run(async () => {
+        if (!replacing) return;
+        await updateCredential(replacing.id, { secret: replacing.secret });
+        setReplacing(null);
+    });
+
+    const handleRemove = (credential: StoredCredential) => run(async () => {
+        if (!window.confirm(`Delete ${credential.label}? Performers and settings that use it will have no key for ${credential.provider}.`)) return;
+        await removeCredential(credential.id);
+    });
+
+    const handleMigrate = () => run(async () => {
+        const migrated = await migrateLegacyKeys();
+        showToast(`Moved saved keys into the vault (${migrated} new).`, 'success');
+    });
+
+    return (
+        <div className="bg-[#1e1f20] p-6 rounded-lg border border-gray-700">
+            <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-200">Credential Vault</h3>
+                {initialized && (
+                    <span className={`text-xs uppercase tracking-wide font-semibold ${unlocked ? 'text-green-300' : 'text-amber-300'}`}>
+                        {unlocked ? 'Unlocked' : 'Locked'}
+                    </span>
+                )}
+            </div>
+            <p className="text-sm text-gray-400 mt-1 mb-4">
+                API keys are encrypted in this browser with your passphrase and referenced by Settings and performers. The passphrase is never stored; unlock the vault once per session.
+            </p>
+
+            {!initialized && (
+                <div className="space-y-2">
+                    <input type="password" value={passphrase} onChange={(event) => setPassphrase(event.target.value)} placeholder="New passphrase" className={inputClass} />
+                    <input type="password" value={confirmation} onChange={(event) => setConfirmation(event.target.value)} placeholder="Confirm passphrase" className={inputClass} />
+                    <button onClick={handleCreate} disabled={isBusy || !passphrase} className={buttonClass}>Create vault</button>
+                    <p className="text-xs text-gray-500">Keys already saved in Settings or on performers are moved into the vault when it is created.</p>
+                </div>
+            )}
+
+            {initialized && !unlocked && (
+                <div className="flex gap-2">
+                    <input
+                        type="password"
+                        value={passphrase}
+                        onChange={(event) => setPassphrase(event.target.value)}
+                        onKeyDown={(event) => {
+                            if (event.key === 'Enter' && passphrase) handleUnlock();
+                        }}
+                        placeholder="Passphrase"
+                        className={inputClass}
+                    />
+                    <button onClick={handleUnlock} disabled={isBusy || !passphrase} className={buttonClass}>Unlock</button>
+                </div>
+            )}
+
+            {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+
+            {initialized && (
+                <div className="mt-4 space-y-2">
+                    {credentials.length === 0 && <p className="text-sm text-gray-500">No credentials yet.</p>}
+                    {credentials.map(credential => (
+                        <div key={credential.id} className="bg-[#161719] border border-gray-700 rounded-lg p-3">
+                            <div className="flex items-center gap-3">
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm font-semibold text-gray-200">
+                                        {credential.label}
+                                        <span className="ml-2 font-mono text-xs text-gray-500">{credential.hint}</span>
+                                    </div>
+                                    <div className="text-xs text-gray-500">
+                                        {credential.provider}
+                                        {credential.health.lastCheckedAt && ` · checked ${formatDistanceToNow(credential.health.lastCheckedAt, { addSuffix: true })}`}
+                                        {credential.health.consecutiveFailures > 1 && ` · ${credential.health.consecutiveFailures} failures in a row`}
+                                    </div>
+                                    {credential.health.status === 'failing' && credential.health.lastError && (
+                                        <div className="text-xs text-red-300 truncate">{credential.health.lastError}</div>
+                                    )}
+                                </div>
+                                <span className={`text-[10px] uppercase tracking-wide rounded-full px-2 py-0.5 ${HEALTH_STYLES[credential.health.status]}`}>
+                                    {credential.health.status}
+                                </span>
+                                {unlocked && (
+                                    <>
+                                        <button onClick={() => setReplacing({ id: credential.id, secret: '' })} className="text-xs text-gray-400 hover:text-gray-200">Replace key</button>
+                                        <button onClick={() => handleRemove(credential)} className="text-gray-500 hover:text-red-400" title="Delete credential">
+                                            <TrashIcon className="w-4 h-4" />
+                                        </button>
+                                    </>
+                                )}
+                            </div>
+                            {replacing?.id === credential.id && (
+                                <div className="mt-2 flex gap-2">
+                                    <input
+                                        type="password"
+                                        value={replacing.secret}
+                                        onChange={(event) => setReplacing({ id: credential.id, secret: event.target.value })}
+                                        placeholder="New API key"
+                                        className={inputClass}
+                                    />
+                                    <button onClick={handleReplace} disabled={isBusy || !replacing.secret.trim()} className={buttonClass}>Save</button>
+                                    <button onClick={() => setReplacing(null)} className={buttonClass}>Cancel</button>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {unlocked && (
+                <>
+                    <div className="mt-4 grid grid-cols-1 md:grid-cols-4 gap-2">
+                        <input value={draft.label} onChange={(event) => setDraft(prev => ({ ...prev, label: event.target.value }))} placeholder="Label" className={inputClass} />
+                        <select value={draft.provider} onChange={(event) => setDraft(prev => ({ ...prev, provider: event.target.value as ModelProvider }))} className={inputClass}>
+                            {PROVIDERS.map(provider => (
+                                <option key={provider} value={provider}>{provider}</option>
+                            ))}
+                        </select>
+                        <input type="password" value={draft.secret} onChange={(event) => setDraft(prev => ({ ...prev, secret: event.target.value }))} placeholder="API key" className={inputClass} />
+                        <button onClick={handleAdd} disabled={isBusy || !draft.secret.trim()} className={buttonClass}>Add credential</button>
+                    </div>
+
+                    {hasLegacyKeys(performers) && (
+                        <div className="mt-3 flex items-center gap-3 text-xs text-amber-200">
+                            <span>Some keys are still stored as plaintext.</span>
+                            <button onClick={handleMigrate} disabled={isBusy} className={buttonClass}>Move them into the vault</button>
+                        </div>
+                    )}
+
+                    <div className="mt-4 flex flex-wrap items-center gap-2">
+                        <input type="password" value={passphrase} onChange={(event) => setPassphrase(event.target.value)} placeholder="Current passphrase" className={`${inputClass} md:w-48`} />
+                        <input type="password" value={nextPassphrase} onChange={(event) => setNextPassphrase(event.target.value)} placeholder="New passphrase" className={`${inputClass} md:w-48`} />
+                        <button onClick={handleChangePassphrase} disabled={isBusy || !passphrase || !nextPassphrase} className={buttonClass}>Change passphrase</button>
+                        <button onClick={() => lockVault()} className={buttonClass}>Lock</button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default CredentialVaultSettings;
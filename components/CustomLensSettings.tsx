@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import { CustomLens, LensOutputTarget } from '../types';
+import { deleteCustomLens, getCustomLenses, saveCustomLens } from '../services/db';
+import { LENS_OUTPUT_TARGETS, LENS_SCHEMA_TEMPLATES, parseLensSchema } from '../services/customLenses';
+import { showToast } from './Toast';
+import { EditIcon, PlusIcon, TrashIcon } from './icons/Icons';
+
+interface LensDraft {
+    id: string | null;
+    label: string;
+    tagline: string;
+    instructions: string;
+    formatHint: string;
+    outputTarget: LensOutputTarget;
+    schemaText: string;
+    relatedModules: string;
+}
+
+const EMPTY_DRAFT: LensDraft = {
+    id: null,
+    label: '',
+    tagline: '',
+    instructions: '',
+    formatHint: '',
+    outputTarget: 'none',
+    schemaText: '',
+    relatedModules: ''
+};
+
+const toDraft = (lens: CustomLens): LensDraft => ({
+    id: lens.id,
+    label: lens.label,
+    tagline: lens.tagline,
+    instructions: lens.instructions,
+    formatHint: lens.formatHint,
+    outputTarget: lens.outputTarget,
+    schemaText: lens.outputSchema ? JSON.stringify(lens.outputSchema, null, 2) : '',
+    relatedModules: lens.relatedModules.join(', ')
+});
+
+const inputClass = 'w-full bg-[#2a2b2c] text-gray-300 rounded-lg p-2 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm';
+
+const CustomLensSettings: React.FC = () => {
+    const [lenses, setLenses] = useState<CustomLens[]>([]);
+    const [draft, setDraft] = useState<LensDraft | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const load = () => {
+            getCustomLenses()
+                .then(setLenses)
+                .catch(loadError => console.error('Failed to load custom lenses:', loadError));
+        };
+        load();
+        window.addEventListener('custom-lenses-updated', load);
+        return () => window.removeEventListener('custom-lenses-updated', load);
+    }, []);
+
+    const update = (patch: Partial<LensDraft>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+
+    const handleSave = async () => {
+        if (!draft) return;
+        if (!draft.label.trim() || !draft.instructions.trim()) {
+            setError('A lens needs a label and instructions.');
+            return;
+        }
+        let outputSchema: Record<string, unknown> | null;
+        try {
+            outputSchema = parseLensSchema(draft.schemaText, draft.outputTarget);
+        } catch (schemaError) {
+            setError(schemaError instanceof Error ? schemaError.message : 'Invalid output schema.');
+            return;
+        }
+
+        const now = Date.now();
+        const existing = lenses.find(lens => lens.id === draft.id);
+        await saveCustomLens({
+            id: draft.id ?? `lens-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+            label: draft.label.trim(),
+            tagline: draft.tagline.trim(),
+            instructions: draft.instructions.trim(),
+            formatHint: draft.formatHint.trim(),
+            outputSchema,
+            outputTarget: draft.outputTarget,
+            relatedModules: draft.relatedModules.split(',').map(module => module.trim()).filter(Boolean),
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now
+        });
+        showToast(`Saved ${draft.label.trim()}`, 'success');
+        setDraft(null);
+        setError(null);
+    };
+
+    const handleDelete = async (lens: CustomLens) => {
+        if (!window.confirm(`Delete the "${lens.label}" lens?`)) return;
+        await deleteCustomLens(lens.id);
+        if (draft?.id === lens.id) setDraft(null);
+    };
+
+    const targetInfo = draft ? LENS_OUTPUT_TARGETS.find(option => option.value === draft.outputTarget) : null;
+
+    return (
+        <div className="bg-[#1e1f20] p-6 rounded-lg border border-gray-700">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-200">Custom Lenses</h3>
+                    <p className="text-sm text-gray-400 mt-1">Post-processing lenses that appear next to the built-in ones under every message. Give a lens an output schema to get JSON back, and a destination to write it into the journal, follow-ups or knowledge graph.</p>
+                </div>
+                {!draft && (
+                    <button
+                        onClick={() => {
+                            setDraft(EMPTY_DRAFT);
+                            setError(null);
+                        }}
+                        className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-gray-600 text-sm text-gray-300 hover:bg-gray-700 flex-shrink-0"
+                    >
+                        <PlusIcon className="w-4 h-4" /> New Lens
+                    </button>
+                )}
+            </div>
+
+            {lenses.length > 0 && (
+                <ul className="mt-4 space-y-2">
+                    {lenses.map(lens => (
+                        <li key={lens.id} className="flex items-center justify-between gap-3 bg-[#161719] border border-gray-700 rounded-lg p-3">
+                            <div className="min-w-0">
+                                <div className="text-sm font-semibold text-gray-200">{lens.label}</div>
+                                <p className="text-xs text-gray-500 truncate">
+                                    {lens.tagline || 'No tagline'} · {lens.outputSchema ? `JSON → ${LENS_OUTPUT_TARGETS.find(option => option.value === lens.outputTarget)?.label}` : 'Markdown'}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-1 flex-shrink-0">
+                                <button
+                                    onClick={() => {
+                                        setDraft(toDraft(lens));
+                                        setError(null);
+                                    }}
+                                    aria-label={`Edit ${lens.label}`}
+                                    className="p-1.5 text-gray-400 hover:text-gray-200"
+                                >
+                                    <EditIcon className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={() => handleDelete(lens)}
+                                    aria-label={`Delete ${lens.label}`}
+                                    className="p-1.5 text-gray-400 hover:text-red-400"
+                                >
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {draft && (
+                <div className="mt-4 space-y-3 bg-[#161719] border border-gray-700 rounded-lg p-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <input value={draft.label} onChange={event => update({ label: event.target.value })} placeholder="Label, e.g. Risk Scanner" className={inputClass} />
+                        <input value={draft.tagline} onChange={event => update({ tagline: event.target.value })} placeholder="Tagline shown on hover" className={inputClass} />
+                    </div>
+                    <textarea
+                        value={draft.instructions}
+                        onChange={event => update({ instructions: event.target.value })}
+                        placeholder="What should the lens look for?"
+                        className={`${inputClass} h-24 resize-y`}
+                    />
+                    <textarea
+                        value={draft.formatHint}
+                        onChange={event => update({ formatHint: event.target.value })}
+                        placeholder="Formatting requirements"
+                        className={`${inputClass} h-16 resize-y`}
+                    />
+                    <input
+                        value={draft.relatedModules}
+                        onChange={event => update({ relatedModules: event.target.value })}
+                        placeholder="Related modules, comma separated (recorded with HRMR grades)"
+                        className={inputClass}
+                    />
+                    <div className="flex flex-wrap items-center gap-3">
+                        <label className="text-xs text-gray-400">
+                            Destination
+                            <select
+                                value={draft.outputTarget}
+                                onChange={event => update({ outputTarget: event.target.value as LensOutputTarget })}
+                                className={`${inputClass} mt-1`}
+                            >
+                                {LENS_OUTPUT_TARGETS.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                        </label>
+                        {draft.outputTarget !== 'none' && (
+                            <button
+                                onClick={() => update({ schemaText: JSON.stringify(LENS_SCHEMA_TEMPLATES[draft.outputTarget as Exclude<LensOutputTarget, 'none'>], null, 2) })}
+                                className="mt-4 px-3 py-1.5 rounded-lg border border-gray-600 text-xs text-gray-300 hover:bg-gray-700"
+                            >
+                                Insert schema template
+                            </button>
+                        )}
+                    </div>
+                    {targetInfo && <p className="text-xs text-gray-500">{targetInfo.description}</p>}
+                    <textarea
+                        value={draft.schemaText}
+                        onChange={event => update({ schemaText: event.target.value })}
+                        placeholder='Optional JSON Schema, e.g. {"type": "object", "properties": {...}}'
+                        className={`${inputClass} h-40 resize-y font-mono text-xs`}
+                        spellCheck={false}
+                    />
+                    {error && <p className="text-sm text-red-400">{error}</p>}
+                    <div className="flex justify-end gap-2">
+                        <button
+                            onClick={() => {
+                                setDraft(null);
+                                setError(null);
+                            }}
+                            className="px-4 py-2 rounded-lg border border-gray-600 text-sm text-gray-300 hover:bg-gray-700"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            className="px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700 transition-colors"
+                        >
+                            Save Lens
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CustomLensSettings;
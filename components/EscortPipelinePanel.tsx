@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { ChevronDownIcon } from './icons/Icons';
+import { EscortPipelineRun, EscortPipelineStatus } from '../types';
+import { EscortId, getEscortDefinition } from '../services/escorts';
+import { replayEscortPipeline, saveRunAsRecipe } from '../services/escortPipeline';
+import { showToast } from './Toast';
+
+interface EscortPipelinePanelProps {
+    run: EscortPipelineRun;
+}
+
+const STATUS_STYLES: Record<EscortPipelineStatus, string> = {
+    pending: 'border-gray-600 text-gray-400',
+    running: 'border-blue-500/50 text-blue-300',
+    completed: 'border-emerald-500/50 text-emerald-300',
+    failed: 'border-red-500/50 text-red-300'
+};
+
+const StatusBadge: React.FC<{ status: EscortPipelineStatus }> = ({ status }) => (
+    <span className={`px-2 py-0.5 rounded-full border text-[10px] uppercase tracking-wider ${STATUS_STYLES[status]}`}>
+        {status === 'running' ? (
+            <span className="flex items-center gap-1">
+                <span className="w-2 h-2 border border-blue-300 border-t-transparent rounded-full animate-spin" />
+                running
+            </span>
+        ) : status}
+    </span>
+);
+
+const EscortPipelinePanel: React.FC<EscortPipelinePanelProps> = ({ run }) => {
+    const [current, setCurrent] = useState<EscortPipelineRun>(run);
+    const [expandedStage, setExpandedStage] = useState<number | null>(null);
+    const [isReplaying, setIsReplaying] = useState(false);
+
+    useEffect(() => {
+        setCurrent(prev => (prev.id === run.id || prev.replayOf !== run.id ? run : prev));
+    }, [run]);
+
+    useEffect(() => {
+        if (current.status !== 'completed') return;
+        setExpandedStage(prev => prev ?? current.stages.length - 1);
+    }, [current.status, current.stages.length]);
+
+    const handleReplay = async (fromStage: number) => {
+        setIsReplaying(true);
+        try {
+            await replayEscortPipeline(current.id, { fromStage, onUpdate: setCurrent });
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Pipeline replay failed.', 'error');
+        } finally {
+            setIsReplaying(false);
+        }
+    };
+
+    const handleSaveRecipe = async () => {
+        const name = window.prompt('Recipe name', current.name);
+        if (name === null) return;
+        try {
+            const recipe = await saveRunAsRecipe(current, name);
+            showToast(`Saved recipe "${recipe.name}"`, 'success');
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Failed to save recipe.', 'error');
+        }
+    };
+
+    const isBusy = isReplaying || current.status === 'running';
+
+    return (
+        <div className="border-l-4 border-purple-400 bg-purple-400/10 rounded-r-lg mt-3 p-4">
+            <div className="flex items-start justify-between gap-3 mb-3">
+                <div>
+                    <h3 className="font-semibold text-purple-300">{current.name}</h3>
+                    <p className="text-xs text-purple-200/70 mt-0.5">
+                        {current.plannedBy === 'planner' ? 'Planned by the Orchestrator' : 'Composed manually'}
+                        {current.replayOf ? ' • replay' : ''}
+                        {' • '}
+                        {new Date(current.createdAt).toLocaleTimeString()}
+                    </p>
+                    {current.rationale && (
+                        <p className="text-xs text-gray-400 mt-1 italic">{current.rationale}</p>
+                    )}
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                    <StatusBadge status={current.status} />
+                    <button
+                        onClick={handleSaveRecipe}
+                        className="px-2 py-1 rounded-md border border-purple-500/40 text-[11px] text-purple-200 hover:bg-purple-500/20"
+                    >
+                        Save recipe
+                    </button>
+                </div>
+            </div>
+
+            <ol className="space-y-2">
+                {current.stages.map((stage, index) => {
+                    const name = getEscortDefinition(stage.escortId as EscortId)?.name ?? stage.escortId;
+                    const isExpanded = expandedStage === index;
+                    const hasOutput = Boolean(stage.result || stage.error);
+                    return (
+                        <li key={`${stage.escortId}-${index}`} className="bg-[#1a1b1f] border border-gray-700 rounded-lg">
+                            <div className="flex items-center justify-between gap-2 px-3 py-2">
+                                <button
+                                    onClick={() => setExpandedStage(isExpanded ? null : index)}
+                                    disabled={!hasOutput}
+                                    className="flex items-center gap-2 text-left text-sm text-gray-200 disabled:cursor-default"
+                                    aria-expanded={isExpanded}
+                                >
+                                    <span className="text-xs text-gray-500">{index + 1}.</span>
+                                    <span className="font-medium">{name}</span>
+                                    {hasOutput && (
+                                        <ChevronDownIcon className={`w-4 h-4 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+                                    )}
+                                </button>
+                                <div className="flex items-center gap-2">
+                                    <StatusBadge status={stage.status} />
+                                    <button
+                                        onClick={() => handleReplay(index)}
+                                        disabled={isBusy || current.stages.slice(0, index).some(s => s.status !== 'completed')}
+                                        className="text-[11px] text-purple-300 hover:text-purple-200 disabled:opacity-40 disabled:cursor-not-allowed"
+                                        title="Re-run the pipeline from this stage, reusing earlier results"
+                                    >
+                                        Replay from here
+                                    </button>
+                                </div>
+                            </div>
+                            {isExpanded && (
+                                <div className="px-3 pb-3 border-t border-gray-700/60">
+                                    {stage.error ? (
+                                        <p className="text-xs text-red-300 mt-2">{stage.error}</p>
+                                    ) : (
+                                        <div className="prose prose-invert prose-sm max-w-none mt-2">
+                                            <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                                                {stage.result ?? ''}
+                                            </ReactMarkdown>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+};
+
+export default EscortPipelinePanel;
@@ -1,18 +1,26 @@
 import React, { useState, useEffect } from 'react';
-import { getAllEscortDefinitions, EscortId, executeEscort, EscortResult } from '../services/escorts';
-import { getPlayerProgress } from '../services/db';
+import { getAllEscortDefinitions, EscortId, executeEscort, EscortResult, canRunInPipeline } from '../services/escorts';
+import { getPlayerProgress, getEscortRecipes, deleteEscortRecipe, saveEscortRecipe } from '../services/db';
 import { EscortDefinition } from '../services/escorts';
-import { ChatMessage } from '../types';
+import { runEscortPipeline, planEscortPipeline, describePipeline, MAX_PIPELINE_STAGES } from '../services/escortPipeline';
+import { ChatMessage, EscortPipelineRun, EscortRecipe } from '../types';
 
 interface EscortToolbarProps {
     messages: ChatMessage[];
     onEscortResult: (result: EscortResult, escortName: string) => void;
+    onPipelineUpdate?: (run: EscortPipelineRun) => void;
 }
 
-const EscortToolbar: React.FC<EscortToolbarProps> = ({ messages, onEscortResult }) => {
+const EscortToolbar: React.FC<EscortToolbarProps> = ({ messages, onEscortResult, onPipelineUpdate }) => {
     const [unlockedEscorts, setUnlockedEscorts] = useState<Set<EscortId>>(new Set());
     const [loadingEscort, setLoadingEscort] = useState<EscortId | null>(null);
     const [escorts, setEscorts] = useState<EscortDefinition[]>([]);
+    const [isComposerOpen, setIsComposerOpen] = useState(false);
+    const [pipelineStages, setPipelineStages] = useState<EscortId[]>([]);
+    const [pipelinePlan, setPipelinePlan] = useState<{ name: string; rationale: string; recipeId: string | null; plannedBy: EscortPipelineRun['plannedBy'] } | null>(null);
+    const [recipes, setRecipes] = useState<EscortRecipe[]>([]);
+    const [isPlanning, setIsPlanning] = useState(false);
+    const [isRunningPipeline, setIsRunningPipeline] = useState(false);
 
     useEffect(() => {
         const loadEscorts = async () => {
@@ -34,6 +42,85 @@ const EscortToolbar: React.FC<EscortToolbarProps> = ({ messages, onEscortResult
         loadEscorts();
     }, []);
 
+    useEffect(() => {
+        if (!isComposerOpen) return;
+        const loadRecipes = async () => setRecipes(await getEscortRecipes());
+        loadRecipes();
+        window.addEventListener('escort-recipes-updated', loadRecipes);
+        return () => window.removeEventListener('escort-recipes-updated', loadRecipes);
+    }, [isComposerOpen]);
+
+    const getLatestUserInput = () => {
+        const lastUserMessage = [...messages].reverse().find(m => m.role === 'user');
+        return lastUserMessage?.content || '';
+    };
+
+    const pipelineCandidates = escorts.filter(escort => unlockedEscorts.has(escort.id) && canRunInPipeline(escort.id));
+
+    const handleAddStage = (escortId: EscortId) => {
+        setPipelineStages(prev => (prev.length >= MAX_PIPELINE_STAGES ? prev : [...prev, escortId]));
+        setPipelinePlan(null);
+    };
+
+    const handleRemoveStage = (index: number) => {
+        setPipelineStages(prev => prev.filter((_, i) => i !== index));
+        setPipelinePlan(null);
+    };
+
+    const handleLoadRecipe = (recipe: EscortRecipe) => {
+        const stages = recipe.escortIds.filter(id => unlockedEscorts.has(id as EscortId)) as EscortId[];
+        if (stages.length < recipe.escortIds.length) {
+            alert('Some escorts in this recipe are still locked and were skipped.');
+        }
+        setPipelineStages(stages);
+        setPipelinePlan({ name: recipe.name, rationale: recipe.description ?? '', recipeId: recipe.id, plannedBy: 'user' });
+    };
+
+    const handleSaveRecipe = async () => {
+        if (pipelineStages.length === 0) return;
+        const name = window.prompt('Recipe name', pipelinePlan?.name || describePipeline(pipelineStages));
+        if (!name) return;
+        const recipe = await saveEscortRecipe({ name, description: pipelinePlan?.rationale, escortIds: pipelineStages });
+        setPipelinePlan(prev => ({ name: recipe.name, rationale: prev?.rationale ?? '', recipeId: recipe.id, plannedBy: prev?.plannedBy ?? 'user' }));
+    };
+
+    const handlePlanPipeline = async () => {
+        setIsPlanning(true);
+        try {
+            const plan = await planEscortPipeline(getLatestUserInput(), Array.from(unlockedEscorts));
+            setPipelineStages(plan.escortIds);
+            setPipelinePlan({ name: plan.name, rationale: plan.rationale, recipeId: null, plannedBy: 'planner' });
+        } catch (error) {
+            console.error('Failed to plan pipeline:', error);
+            alert(`Failed to plan pipeline: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            setIsPlanning(false);
+        }
+    };
+
+    const handleRunPipeline = async () => {
+        if (pipelineStages.length === 0) return;
+        setIsRunningPipeline(true);
+        try {
+            await runEscortPipeline({
+                escortIds: pipelineStages,
+                input: getLatestUserInput(),
+                name: pipelinePlan?.name,
+                rationale: pipelinePlan?.rationale,
+                recipeId: pipelinePlan?.recipeId,
+                plannedBy: pipelinePlan?.plannedBy,
+                conversationId: messages[messages.length - 1]?.conversationId ?? null,
+                messages,
+                onUpdate: onPipelineUpdate
+            });
+        } catch (error) {
+            console.error('Failed to run pipeline:', error);
+            alert(`Failed to run pipeline: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            setIsRunningPipeline(false);
+        }
+    };
+
     const handleEscortClick = async (escort: EscortDefinition) => {
         if (!unlockedEscorts.has(escort.id)) return;
         
@@ -62,7 +149,99 @@ const EscortToolbar: React.FC<EscortToolbarProps> = ({ messages, onEscortResult
             <div className="flex items-center gap-2 mb-2">
                 <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Escorts</span>
                 <span className="text-xs text-gray-500">({unlockedEscorts.size} unlocked)</span>
+                {onPipelineUpdate && pipelineCandidates.length > 0 && (
+                    <button
+                        onClick={() => setIsComposerOpen(prev => !prev)}
+                        className={`ml-auto px-2 py-1 rounded-md border text-[11px] font-medium transition-colors ${isComposerOpen ? 'border-purple-400 bg-purple-500/20 text-purple-100' : 'border-gray-600 text-gray-400 hover:text-purple-200 hover:border-purple-500/40'}`}
+                    >
+                        Pipeline
+                    </button>
+                )}
             </div>
+            {isComposerOpen && (
+                <div className="mb-3 p-3 bg-[#131417] border border-purple-500/30 rounded-lg space-y-3">
+                    <div className="flex flex-wrap items-center gap-2 min-h-[28px]">
+                        {pipelineStages.length === 0 ? (
+                            <span className="text-xs text-gray-500">Add escorts below or let the Orchestrator plan a pipeline.</span>
+                        ) : (
+                            pipelineStages.map((id, index) => (
+                                <React.Fragment key={`${id}-${index}`}>
+                                    {index > 0 && <span className="text-gray-500 text-xs">→</span>}
+                                    <button
+                                        onClick={() => handleRemoveStage(index)}
+                                        className="px-2 py-1 rounded-md bg-purple-500/20 border border-purple-500/40 text-xs text-purple-100 hover:bg-red-500/20 hover:border-red-500/40"
+                                        title="Remove stage"
+                                    >
+                                        {escorts.find(escort => escort.id === id)?.name ?? id} ×
+                                    </button>
+                                </React.Fragment>
+                            ))
+                        )}
+                    </div>
+                    {pipelinePlan?.rationale && (
+                        <p className="text-xs text-gray-400 italic">{pipelinePlan.rationale}</p>
+                    )}
+                    <div className="flex flex-wrap gap-1.5">
+                        {pipelineCandidates.map(escort => (
+                            <button
+                                key={escort.id}
+                                onClick={() => handleAddStage(escort.id)}
+                                disabled={pipelineStages.length >= MAX_PIPELINE_STAGES}
+                                className="px-2 py-1 rounded border border-gray-600 text-[11px] text-gray-300 hover:border-purple-500/40 hover:text-purple-200 disabled:opacity-40"
+                                title={escort.description}
+                            >
+                                + {escort.name}
+                            </button>
+                        ))}
+                    </div>
+                    {recipes.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-1.5">
+                            <span className="text-[11px] uppercase tracking-wider text-gray-500">Recipes</span>
+                            {recipes.map(recipe => (
+                                <span key={recipe.id} className="flex items-center rounded border border-gray-700 text-[11px]">
+                                    <button
+                                        onClick={() => handleLoadRecipe(recipe)}
+                                        className="px-2 py-1 text-gray-300 hover:text-purple-200"
+                                        title={describePipeline(recipe.escortIds)}
+                                    >
+                                        {recipe.name}
+                                    </button>
+                                    <button
+                                        onClick={() => deleteEscortRecipe(recipe.id)}
+                                        className="px-1.5 py-1 text-gray-500 hover:text-red-300 border-l border-gray-700"
+                                        title="Delete recipe"
+                                    >
+                                        ×
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                        <button
+                            onClick={handlePlanPipeline}
+                            disabled={isPlanning || isRunningPipeline}
+                            className="px-3 py-1.5 rounded-md border border-gray-600 text-xs text-gray-300 hover:border-purple-500/40 disabled:opacity-50"
+                        >
+                            {isPlanning ? 'Planning...' : 'Plan with Orchestrator'}
+                        </button>
+                        <button
+                            onClick={handleSaveRecipe}
+                            disabled={pipelineStages.length === 0}
+                            className="px-3 py-1.5 rounded-md border border-gray-600 text-xs text-gray-300 hover:border-purple-500/40 disabled:opacity-50"
+                        >
+                            Save as recipe
+                        </button>
+                        <button
+                            onClick={handleRunPipeline}
+                            disabled={pipelineStages.length === 0 || isRunningPipeline || isPlanning}
+                            className="ml-auto px-3 py-1.5 rounded-md bg-purple-600 text-xs font-semibold text-white hover:bg-purple-700 disabled:opacity-50"
+                        >
+                            {isRunningPipeline ? 'Running...' : 'Run pipeline'}
+                        </button>
+                    </div>
+                </div>
+            )}
             <div className="flex flex-wrap gap-2">
                 {escorts.map(escort => {
                     const isUnlocked = unlockedEscorts.has(escort.id);
@@ -31,13 +31,13 @@ const CATEGORY_BADGES: Record<string, string> = {
 
 const FollowUpPanel: React.FC<FollowUpPanelProps> = ({ followUps, onClose, onUpdateStatus }) => {
   const sorted = useMemo(() => {
-    const priorityOrder: Record<string, number> = { high: 0, medium: 1, low: 2 };
+    const priorityOrder: Record<string, number> = { urgent: 0, high: 1, medium: 2, low: 3 };
     const statusOrder: Record<FollowUpStatus, number> = { pending: 0, in_progress: 1, completed: 2 };
     return [...followUps].sort((a, b) => {
       const statusComparison = statusOrder[a.status] - statusOrder[b.status];
       if (statusComparison !== 0) return statusComparison;
       const priorityComparison =
-        (priorityOrder[a.priority ?? 'medium'] ?? 1) - (priorityOrder[b.priority ?? 'medium'] ?? 1);
+        (priorityOrder[a.priority ?? 'medium'] ?? 2) - (priorityOrder[b.priority ?? 'medium'] ?? 2);
       if (priorityComparison !== 0) return priorityComparison;
       return (a.dueAt ?? Infinity) - (b.dueAt ?? Infinity);
     });
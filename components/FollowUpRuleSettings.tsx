@@ -0,0 +1,330 @@
+import React, { useEffect, useState } from 'react';
+import { FollowUpPriority, FollowUpRule, FollowUpTemplatePreset, IntelligenceCategory, MissionMetricPredicate, MissionPredicateOperator, PerformerProfile } from '../types';
+import { deleteFollowUpRule, getAllPerformers, getFollowUpRules, saveFollowUpRule } from '../services/db';
+import { FOLLOW_UP_PRESETS, FOLLOW_UP_PRIORITIES, validateFollowUpRule } from '../services/followUpRules';
+import { showToast } from './Toast';
+import { EditIcon, PlusIcon, TrashIcon } from './icons/Icons';
+
+const CATEGORIES: Array<IntelligenceCategory | 'any'> = ['any', 'brand', 'client', 'mission', 'operations', 'social'];
+
+const OPERATORS: Array<{ value: MissionPredicateOperator; label: string }> = [
+    { value: 'equals', label: '=' },
+    { value: 'not_equals', label: '≠' },
+    { value: 'contains', label: 'contains' },
+    { value: 'gte', label: '≥' },
+    { value: 'lte', label: '≤' },
+    { value: 'exists', label: 'exists' }
+];
+
+const createDraft = (): FollowUpRule => ({
+    id: `followup-rule-${Date.now().toString(36)}`,
+    label: '',
+    enabled: true,
+    category: 'any',
+    conditions: [],
+    match: 'all',
+    template: { title: '', priority: 'medium', dueInHours: 12 }
+});
+
+const parseConditionValue = (raw: string): string | number | boolean => {
+    if (raw === 'true') return true;
+    if (raw === 'false') return false;
+    return raw.trim() !== '' && !Number.isNaN(Number(raw)) ? Number(raw) : raw;
+};
+
+const inputClass = 'w-full bg-[#2a2b2c] text-gray-300 rounded-lg p-2 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm';
+
+const FollowUpRuleSettings: React.FC = () => {
+    const [rules, setRules] = useState<FollowUpRule[]>([]);
+    const [performers, setPerformers] = useState<PerformerProfile[]>([]);
+    const [draft, setDraft] = useState<FollowUpRule | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const load = () => {
+            getFollowUpRules()
+                .then(setRules)
+                .catch(loadError => console.error('Failed to load follow-up rules:', loadError));
+        };
+        load();
+        getAllPerformers()
+            .then(setPerformers)
+            .catch(loadError => console.error('Failed to load performers:', loadError));
+        window.addEventListener('follow-up-rules-updated', load);
+        return () => window.removeEventListener('follow-up-rules-updated', load);
+    }, []);
+
+    const update = (patch: Partial<FollowUpRule>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+    const updateTemplate = (patch: Partial<FollowUpRule['template']>) =>
+        setDraft(prev => (prev ? { ...prev, template: { ...prev.template, ...patch } } : prev));
+    const updateCondition = (index: number, patch: Partial<MissionMetricPredicate>) => {
+        if (!draft) return;
+        const conditions = [...draft.conditions];
+        conditions[index] = { ...conditions[index], ...patch };
+        update({ conditions });
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        const rule: FollowUpRule = {
+            ...draft,
+            label: draft.label.trim(),
+            template: { ...draft.template, title: draft.template.title?.trim() || undefined, description: draft.template.description?.trim() || undefined }
+        };
+        const problem = validateFollowUpRule(rule);
+        if (problem) {
+            setError(problem);
+            return;
+        }
+        await saveFollowUpRule(rule);
+        showToast(`Saved ${rule.label}`, 'success');
+        setDraft(null);
+        setError(null);
+    };
+
+    const handleDelete = async (rule: FollowUpRule) => {
+        if (!window.confirm(`Delete the "${rule.label}" rule?`)) return;
+        await deleteFollowUpRule(rule.id);
+        if (draft?.id === rule.id) setDraft(null);
+    };
+
+    return (
+        <div className="bg-[#1e1f20] p-6 rounded-lg border border-gray-700">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-200">Follow-Up Rules</h3>
+                    <p className="text-sm text-gray-400 mt-1">Turn incoming intelligence into follow-ups. Every matching rule creates its tasks; overdue tasks climb one priority level per missed SLA window.</p>
+                </div>
+                {!draft && (
+                    <button
+                        onClick={() => {
+                            setDraft(createDraft());
+                            setError(null);
+                        }}
+                        className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-gray-600 text-sm text-gray-300 hover:bg-gray-700 flex-shrink-0"
+                    >
+                        <PlusIcon className="w-4 h-4" /> New Rule
+                    </button>
+                )}
+            </div>
+
+            {rules.length > 0 && (
+                <ul className="mt-4 space-y-2">
+                    {rules.map(rule => (
+                        <li key={rule.id} className={`flex items-center justify-between gap-3 bg-[#161719] border border-gray-700 rounded-lg p-3 ${rule.enabled ? '' : 'opacity-60'}`}>
+                            <div className="min-w-0">
+                                <div className="text-sm font-semibold text-gray-200">{rule.label}</div>
+                                <p className="text-xs text-gray-500 truncate">
+                                    {rule.category === 'any' ? 'Any category' : rule.category}
+                                    {rule.conditions.length > 0 && ` · ${rule.conditions.length} condition${rule.conditions.length === 1 ? '' : 's'}`}
+                                    {' · '}{rule.template.priority} · due in {rule.template.dueInHours}h
+                                    {rule.template.recurrence && ` · repeats every ${rule.template.recurrence.intervalHours}h`}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-1 flex-shrink-0">
+                                <label className="flex items-center gap-1 text-xs text-gray-400 mr-2">
+                                    <input
+                                        type="checkbox"
+                                        checked={rule.enabled}
+                                        onChange={event => saveFollowUpRule({ ...rule, enabled: event.target.checked })}
+                                    />
+                                    On
+                                </label>
+                                <button
+                                    onClick={() => {
+                                        setDraft(rule);
+                                        setError(null);
+                                    }}
+                                    aria-label={`Edit ${rule.label}`}
+                                    className="p-1.5 text-gray-400 hover:text-gray-200"
+                                >
+                                    <EditIcon className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={() => handleDelete(rule)}
+                                    aria-label={`Delete ${rule.label}`}
+                                    className="p-1.5 text-gray-400 hover:text-red-400"
+                                >
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {draft && (
+                <div className="mt-4 space-y-3 bg-[#161719] border border-gray-700 rounded-lg p-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <input value={draft.label} onChange={event => update({ label: event.target.value })} placeholder="Label, e.g. VIP client escalations" className={inputClass} />
+                        <select
+                            value={draft.category}
+                            onChange={event => update({ category: event.target.value as FollowUpRule['category'] })}
+                            className={inputClass}
+                        >
+                            {CATEGORIES.map(category => (
+                                <option key={category} value={category}>{category === 'any' ? 'Any category' : category}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                        <span className="text-xs text-gray-400">Conditions on the intelligence record</span>
+                        <select
+                            value={draft.match}
+                            onChange={event => update({ match: event.target.value as FollowUpRule['match'] })}
+                            className="bg-[#2a2b2c] text-gray-300 rounded-md px-2 py-1 border border-gray-600 text-xs"
+                        >
+                            <option value="all">Match all</option>
+                            <option value="any">Match any</option>
+                        </select>
+                    </div>
+                    {draft.conditions.map((condition, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                            <input
+                                value={condition.field}
+                                onChange={event => updateCondition(index, { field: event.target.value })}
+                                placeholder="field.path, e.g. requestPayload.clientId"
+                                className={`${inputClass} font-mono`}
+                            />
+                            <select
+                                value={condition.operator}
+                                onChange={event => updateCondition(index, { operator: event.target.value as MissionPredicateOperator })}
+                                className="bg-[#2a2b2c] text-gray-300 rounded-lg p-2 border border-gray-600 text-sm"
+                            >
+                                {OPERATORS.map(operator => (
+                                    <option key={operator.value} value={operator.value}>{operator.label}</option>
+                                ))}
+                            </select>
+                            {condition.operator !== 'exists' && (
+                                <input
+                                    value={condition.value === undefined ? '' : String(condition.value)}
+                                    onChange={event => updateCondition(index, { value: parseConditionValue(event.target.value) })}
+                                    placeholder="value"
+                                    className={inputClass}
+                                />
+                            )}
+                            <button
+                                onClick={() => update({ conditions: draft.conditions.filter((_, i) => i !== index) })}
+                                className="px-2 text-gray-500 hover:text-red-400"
+                                aria-label="Remove condition"
+                            >
+                                ×
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={() => update({ conditions: [...draft.conditions, { field: '', operator: 'equals', value: '' }] })}
+                        className="px-3 py-1.5 rounded-lg border border-gray-600 text-xs text-gray-300 hover:bg-gray-700"
+                    >
+                        Add condition
+                    </button>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <label className="text-xs text-gray-400">
+                            Preset
+                            <select
+                                value={draft.template.preset ?? ''}
+                                onChange={event => updateTemplate({ preset: (event.target.value || undefined) as FollowUpTemplatePreset | undefined })}
+                                className={`${inputClass} mt-1`}
+                            >
+                                <option value="">None, use the title below</option>
+                                {FOLLOW_UP_PRESETS.map(preset => (
+                                    <option key={preset.value} value={preset.value}>{preset.label}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="text-xs text-gray-400">
+                            Assign to
+                            <select
+                                value={draft.template.assigneeId ?? ''}
+                                onChange={event => updateTemplate({ assigneeId: event.target.value || undefined })}
+                                className={`${inputClass} mt-1`}
+                            >
+                                <option value="">Unassigned</option>
+                                {performers.map(performer => (
+                                    <option key={performer.id} value={performer.id}>{performer.name}</option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+                    {draft.template.preset && (
+                        <p className="text-xs text-gray-500">{FOLLOW_UP_PRESETS.find(preset => preset.value === draft.template.preset)?.description} Title and description below override it.</p>
+                    )}
+                    <input
+                        value={draft.template.title ?? ''}
+                        onChange={event => updateTemplate({ title: event.target.value })}
+                        placeholder="Title, e.g. Call {client} about {summary}"
+                        className={inputClass}
+                    />
+                    <textarea
+                        value={draft.template.description ?? ''}
+                        onChange={event => updateTemplate({ description: event.target.value })}
+                        placeholder="Description; {summary}, {category}, {source}, {mission} and record paths are filled in"
+                        className={`${inputClass} h-16 resize-y`}
+                    />
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <label className="text-xs text-gray-400">
+                            Priority
+                            <select
+                                value={draft.template.priority}
+                                onChange={event => updateTemplate({ priority: event.target.value as FollowUpPriority })}
+                                className={`${inputClass} mt-1`}
+                            >
+                                {FOLLOW_UP_PRIORITIES.map(priority => (
+                                    <option key={priority} value={priority}>{priority}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="text-xs text-gray-400">
+                            Due in (hours, also the SLA window)
+                            <input
+                                type="number"
+                                min={1}
+                                value={draft.template.dueInHours}
+                                onChange={event => updateTemplate({ dueInHours: Number(event.target.value) })}
+                                className={`${inputClass} mt-1`}
+                            />
+                        </label>
+                        <label className="text-xs text-gray-400">
+                            Repeat every (hours, blank for once)
+                            <input
+                                type="number"
+                                min={1}
+                                value={draft.template.recurrence?.intervalHours ?? ''}
+                                onChange={event => updateTemplate({
+                                    recurrence: event.target.value ? { ...draft.template.recurrence, intervalHours: Number(event.target.value) } : undefined
+                                })}
+                                className={`${inputClass} mt-1`}
+                            />
+                        </label>
+                    </div>
+                    <label className="flex items-center gap-2 text-xs text-gray-400">
+                        <input type="checkbox" checked={draft.enabled} onChange={event => update({ enabled: event.target.checked })} />
+                        Enabled
+                    </label>
+                    {error && <p className="text-sm text-red-400">{error}</p>}
+                    <div className="flex justify-end gap-2">
+                        <button
+                            onClick={() => {
+                                setDraft(null);
+                                setError(null);
+                            }}
+                            className="px-4 py-2 rounded-lg border border-gray-600 text-sm text-gray-300 hover:bg-gray-700"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            className="px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700 transition-colors"
+                        >
+                            Save Rule
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FollowUpRuleSettings;
@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    HrmrDatasetFormat,
+    HrmrExample,
+    HRMR_GRADE_SCORES,
+    SFT_DEFAULT_MIN_SCORE,
+    buildHrmrExamples,
+    buildPreferencePairs,
+    downloadHrmrDataset
+} from '../services/hrmrDataset';
+import {
+    PromptOptimizerSegment,
+    PromptRevisionProposal,
+    applyPromptRevision,
+    buildOptimizerSegments,
+    diffLines,
+    proposePromptRevision
+} from '../services/promptOptimizer';
+import { HRMR_GRADE_SCALE, HrmrGrade } from '../types';
+import { showToast } from './Toast';
+
+const EXPORT_FORMATS: Array<{ format: HrmrDatasetFormat; label: string; description: string }> = [
+    { format: 'sft-jsonl', label: 'Chat SFT (JSONL)', description: 'User/assistant message pairs at or above the minimum grade.' },
+    { format: 'dpo-jsonl', label: 'DPO Pairs (JSONL)', description: 'Chosen/rejected replies to the same prompt, two or more grade points apart.' },
+    { format: 'csv', label: 'CSV', description: 'Every graded reply with prompt, grade, performer and modules.' }
+];
+
+const HrmrDatasetPanel: React.FC = () => {
+    const [examples, setExamples] = useState<HrmrExample[]>([]);
+    const [segments, setSegments] = useState<PromptOptimizerSegment[]>([]);
+    const [minGrade, setMinGrade] = useState<HrmrGrade>('B+');
+    const [selectedSegmentKey, setSelectedSegmentKey] = useState<string>('');
+    const [proposal, setProposal] = useState<PromptRevisionProposal | null>(null);
+    const [isProposing, setIsProposing] = useState(false);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const load = async () => {
+        setIsLoading(true);
+        try {
+            const built = await buildHrmrExamples();
+            const optimizerSegments = await buildOptimizerSegments(built);
+            setExamples(built);
+            setSegments(optimizerSegments);
+            setSelectedSegmentKey(prev => prev && optimizerSegments.some(segment => segment.key === prev) ? prev : optimizerSegments[0]?.key ?? '');
+        } catch (error) {
+            console.error('Failed to build HRMR dataset:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        load();
+    }, []);
+
+    const minScore = HRMR_GRADE_SCORES[minGrade] ?? SFT_DEFAULT_MIN_SCORE;
+    const counts = useMemo(() => ({
+        'sft-jsonl': examples.filter(example => example.prompt && example.score >= minScore).length,
+        'dpo-jsonl': buildPreferencePairs(examples).length,
+        csv: examples.length
+    }), [examples, minScore]);
+    const unlinked = examples.filter(example => !example.prompt).length;
+
+    const selectedSegment = segments.find(segment => segment.key === selectedSegmentKey) ?? null;
+    const diff = useMemo(() => (proposal ? diffLines(proposal.before, proposal.after) : []), [proposal]);
+
+    const handleExport = async (format: HrmrDatasetFormat) => {
+        try {
+            const count = await downloadHrmrDataset(format, { minScore });
+            showToast(count > 0 ? `Exported ${count} row${count === 1 ? '' : 's'}` : 'Nothing to export for this format yet.', count > 0 ? 'success' : 'info');
+        } catch (error) {
+            console.error('Failed to export HRMR dataset:', error);
+            showToast('Export failed.', 'error');
+        }
+    };
+
+    const handlePropose = async () => {
+        if (!selectedSegment) return;
+        setIsProposing(true);
+        setProposal(null);
+        try {
+            setProposal(await proposePromptRevision(selectedSegment));
+        } catch (error) {
+            console.error('Prompt optimizer failed:', error);
+            showToast(error instanceof Error ? error.message : 'Prompt optimizer failed.', 'error');
+        } finally {
+            setIsProposing(false);
+        }
+    };
+
+    const handleApply = async () => {
+        if (!proposal) return;
+        try {
+            await applyPromptRevision(proposal);
+            showToast(`Updated ${proposal.kind === 'system' ? 'system instruction' : `${proposal.label}'s prompt`}`, 'success');
+            setProposal(null);
+            await load();
+        } catch (error) {
+            console.error('Failed to apply prompt revision:', error);
+            showToast(error instanceof Error ? error.message : 'Could not apply revision.', 'error');
+        }
+    };
+
+    return (
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-6">
+            <div className="bg-[#1e1f20] border border-gray-700 rounded-lg p-5">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                    <div>
+                        <h2 className="text-lg font-semibold text-gray-100">Dataset Export</h2>
+                        <p className="text-xs text-gray-500">
+                            {isLoading ? 'Collecting graded replies…' : `${examples.length} graded replies`}
+                            {unlinked > 0 && ` · ${unlinked} without a recoverable prompt (CSV only)`}
+                        </p>
+                    </div>
+                    <label className="flex items-center gap-2 text-xs text-gray-400">
+                        SFT minimum grade
+                        <select
+                            value={minGrade}
+                            onChange={event => setMinGrade(event.target.value as HrmrGrade)}
+                            className="bg-[#2a2b2c] text-gray-300 rounded-md px-2 py-1 border border-gray-600 text-xs"
+                        >
+                            {HRMR_GRADE_SCALE.map(grade => (
+                                <option key={grade} value={grade}>{grade}</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {EXPORT_FORMATS.map(({ format, label, description }) => (
+                        <div key={format} className="border border-gray-700 rounded-lg p-4 bg-[#141517] flex flex-col gap-3">
+                            <div>
+                                <h3 className="text-sm font-semibold text-gray-200">{label}</h3>
+                                <p className="text-xs text-gray-500 mt-1">{description}</p>
+                            </div>
+                            <div className="mt-auto flex items-center justify-between">
+                                <span className="text-xs text-gray-400">{counts[format]} rows</span>
+                                <button
+                                    onClick={() => handleExport(format)}
+                                    disabled={isLoading || counts[format] === 0}
+                                    className="px-3 py-1.5 rounded-md text-xs font-semibold bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                                >
+                                    Download
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div className="bg-[#1e1f20] border border-gray-700 rounded-lg p-5 space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                        <h2 className="text-lg font-semibold text-gray-100">Prompt Optimizer</h2>
+                        <p className="text-xs text-gray-500">Contrasts high- and low-graded replies to propose a revised instruction. Nothing changes until you apply it.</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <select
+                            value={selectedSegmentKey}
+                            onChange={event => {
+                                setSelectedSegmentKey(event.target.value);
+                                setProposal(null);
+                            }}
+                            disabled={segments.length === 0}
+                            aria-label="Prompt to optimize"
+                            className="bg-[#2a2b2c] text-gray-300 rounded-md px-3 py-2 border border-gray-600 text-sm"
+                        >
+                            {segments.length === 0 && <option value="">No eligible prompts</option>}
+                            {segments.map(segment => (
+                                <option key={segment.key} value={segment.key}>
+                                    {segment.label} ({segment.high.length} high / {segment.low.length} low)
+                                </option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={handlePropose}
+                            disabled={!selectedSegment || isProposing}
+                            className="px-4 py-2 rounded-md text-sm font-semibold bg-purple-600 hover:bg-purple-500 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                            {isProposing ? 'Analyzing…' : 'Propose Revision'}
+                        </button>
+                    </div>
+                </div>
+
+                {segments.length === 0 && !isLoading && (
+                    <p className="text-sm text-gray-500">
+                        Grade at least one reply B+ or better and one C or worse from the same agent or performer to unlock suggestions.
+                    </p>
+                )}
+
+                {selectedSegment && selectedSegment.moduleStats.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                        {selectedSegment.moduleStats.map(stat => (
+                            <span key={stat.module} className="text-[10px] uppercase tracking-wider bg-blue-900/30 text-blue-200 px-2 py-0.5 rounded-full border border-blue-600/30">
+                                {stat.module} · {stat.averageScore}/10 · {stat.count}
+                            </span>
+                        ))}
+                    </div>
+                )}
+
+                {proposal && (
+                    <div className="space-y-4">
+                        {proposal.rationale && <p className="text-sm text-gray-300">{proposal.rationale}</p>}
+                        {proposal.changes.length > 0 && (
+                            <ul className="text-sm text-gray-400 list-disc list-inside space-y-1">
+                                {proposal.changes.map((change, index) => <li key={index}>{change}</li>)}
+                            </ul>
+                        )}
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="border border-gray-700 rounded-lg bg-[#141517]">
+                                <h3 className="px-4 py-2 border-b border-gray-700 text-xs font-semibold uppercase tracking-wider text-gray-400">A · Current</h3>
+                                <pre className="p-4 text-xs whitespace-pre-wrap break-words font-mono">
+                                    {diff.filter(line => line.type !== 'added').map((line, index) => (
+                                        <div key={index} className={line.type === 'removed' ? 'bg-red-900/30 text-red-200' : 'text-gray-400'}>
+                                            {line.type === 'removed' ? '− ' : '  '}{line.text || ' '}
+                                        </div>
+                                    ))}
+                                </pre>
+                            </div>
+                            <div className="border border-gray-700 rounded-lg bg-[#141517]">
+                                <h3 className="px-4 py-2 border-b border-gray-700 text-xs font-semibold uppercase tracking-wider text-gray-400">B · Proposed</h3>
+                                <pre className="p-4 text-xs whitespace-pre-wrap break-words font-mono">
+                                    {diff.filter(line => line.type !== 'removed').map((line, index) => (
+                                        <div key={index} className={line.type === 'added' ? 'bg-emerald-900/30 text-emerald-200' : 'text-gray-400'}>
+                                            {line.type === 'added' ? '+ ' : '  '}{line.text || ' '}
+                                        </div>
+                                    ))}
+                                </pre>
+                            </div>
+                        </div>
+                        <div className="flex justify-end gap-2">
+                            <button
+                                onClick={() => setProposal(null)}
+                                className="px-4 py-2 rounded-md text-sm border border-gray-600 text-gray-300 hover:bg-gray-700"
+                            >
+                                Keep A
+                            </button>
+                            <button
+                                onClick={handleApply}
+                                className="px-4 py-2 rounded-md text-sm font-semibold bg-emerald-600 hover:bg-emerald-500 text-white"
+                            >
+                                Apply B
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default HrmrDatasetPanel;
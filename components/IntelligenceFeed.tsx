@@ -1,12 +1,15 @@
-import React, { useMemo } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { formatDistanceToNow } from 'date-fns';
-import { IntelligenceRecord } from '../services/intelligenceLog';
+import { IntelligenceRecord, queryIntelligenceLog } from '../services/intelligenceLog';
+import { IntelligenceCategory } from '../types';
 
 interface IntelligenceFeedProps {
-  records: IntelligenceRecord[];
   onClose: () => void;
 }
 
+const PAGE_SIZE = 15;
+const CATEGORY_FILTERS: Array<IntelligenceCategory | 'all'> = ['all', 'mission', 'social', 'brand', 'client', 'operations'];
+
 const CATEGORY_STYLES: Record<string, { border: string; bg: string; tag: string }> = {
   mission: { border: 'border-blue-500/40', bg: 'bg-blue-500/10', tag: 'text-blue-300' },
   social: { border: 'border-purple-500/40', bg: 'bg-purple-500/10', tag: 'text-purple-300' },
@@ -20,8 +23,35 @@ const formatCategoryLabel = (category?: string): string => {
   return category.replace('_', ' ');
 };
 
-const IntelligenceFeed: React.FC<IntelligenceFeedProps> = ({ records, onClose }) => {
-  const latest = useMemo(() => records.slice(-15).reverse(), [records]);
+const IntelligenceFeed: React.FC<IntelligenceFeedProps> = ({ onClose }) => {
+  const [category, setCategory] = useState<IntelligenceCategory | 'all'>('all');
+  const [latest, setLatest] = useState<IntelligenceRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pageCount, setPageCount] = useState(1);
+
+  const loadRecords = useCallback(async () => {
+    try {
+      const page = await queryIntelligenceLog({
+        categories: category === 'all' ? undefined : [category],
+        limit: PAGE_SIZE * pageCount
+      });
+      setLatest(page.records);
+      setTotal(page.total);
+    } catch (error) {
+      console.error('Failed to load intelligence feed:', error);
+    }
+  }, [category, pageCount]);
+
+  useEffect(() => {
+    loadRecords();
+    window.addEventListener('intelligence-log-updated', loadRecords);
+    return () => window.removeEventListener('intelligence-log-updated', loadRecords);
+  }, [loadRecords]);
+
+  const handleCategoryChange = (next: IntelligenceCategory | 'all') => {
+    setCategory(next);
+    setPageCount(1);
+  };
 
   return (
     <div className="fixed right-4 bottom-4 z-40 w-96 max-w-full rounded-2xl border border-gray-800 bg-[#111315] shadow-xl shadow-blue-500/10">
@@ -37,6 +67,17 @@ const IntelligenceFeed: React.FC<IntelligenceFeedProps> = ({ records, onClose })
           Close
         </button>
       </div>
+      <div className="flex flex-wrap gap-1.5 border-b border-gray-800 px-4 py-2">
+        {CATEGORY_FILTERS.map(option => (
+          <button
+            key={option}
+            onClick={() => handleCategoryChange(option)}
+            className={`rounded-full px-2 py-0.5 text-[11px] uppercase tracking-wider ${category === option ? 'bg-blue-500/20 text-blue-200' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
       <div className="max-h-[24rem] overflow-y-auto px-4 py-3 space-y-3 text-sm text-gray-200">
         {latest.length === 0 && <p className="text-xs text-gray-500">No intelligence captured yet. Generate conversation or updates to populate this feed.</p>}
         {latest.map(record => {
@@ -75,6 +116,14 @@ const IntelligenceFeed: React.FC<IntelligenceFeedProps> = ({ records, onClose })
             </article>
           );
         })}
+        {latest.length < total && (
+          <button
+            onClick={() => setPageCount(prev => prev + 1)}
+            className="w-full rounded-lg border border-gray-800 py-1.5 text-xs text-gray-400 hover:text-gray-200"
+          >
+            Load older ({total - latest.length} more)
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,228 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ArchivedMemory, MemoryConsolidationRun } from '../types';
+import { getArchivedMemories, restoreArchivedMemory } from '../services/db';
+import {
+    applyConsolidationRun,
+    buildConsolidationPlan,
+    discardConsolidationRun,
+    getPendingConsolidationRun
+} from '../services/memoryConsolidation';
+import { showToast } from './Toast';
+import { ChevronDownIcon, RefreshIcon } from './icons/Icons';
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+
+const ChangeRow: React.FC<{ checked: boolean; onToggle: () => void; children: React.ReactNode }> = ({ checked, onToggle, children }) => (
+    <label className="flex items-start gap-3 p-2 rounded-md hover:bg-gray-800/60 cursor-pointer">
+        <input type="checkbox" checked={checked} onChange={onToggle} className="mt-1 accent-teal-500" />
+        <div className="flex-1 min-w-0 text-sm text-gray-300">{children}</div>
+    </label>
+);
+
+const MemoryConsolidationPanel: React.FC = () => {
+    const [run, setRun] = useState<MemoryConsolidationRun | null>(null);
+    const [archived, setArchived] = useState<ArchivedMemory[]>([]);
+    const [skipped, setSkipped] = useState<Set<string>>(new Set());
+    const [isPlanning, setIsPlanning] = useState(false);
+    const [isApplying, setIsApplying] = useState(false);
+    const [showColdTier, setShowColdTier] = useState(false);
+
+    const load = useCallback(async () => {
+        try {
+            const [pending, coldTier] = await Promise.all([getPendingConsolidationRun(), getArchivedMemories()]);
+            setRun(pending ?? null);
+            setArchived(coldTier);
+            setSkipped(new Set(pending?.skippedKeys ?? []));
+        } catch (error) {
+            console.error('Failed to load memory consolidation state:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        load();
+        const handleUpdate = () => load();
+        window.addEventListener('memory-consolidation-updated', handleUpdate);
+        window.addEventListener('memories-updated', handleUpdate);
+        return () => {
+            window.removeEventListener('memory-consolidation-updated', handleUpdate);
+            window.removeEventListener('memories-updated', handleUpdate);
+        };
+    }, [load]);
+
+    const toggle = (key: string) => {
+        setSkipped(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) {
+                next.delete(key);
+            } else {
+                next.add(key);
+            }
+            return next;
+        });
+    };
+
+    const handlePlan = async () => {
+        setIsPlanning(true);
+        try {
+            const planned = await buildConsolidationPlan('manual');
+            const total = planned.decay.length + planned.merges.length + planned.archives.length;
+            showToast(total > 0 ? `Consolidation planned: ${total} change${total === 1 ? '' : 's'} to review` : 'Nothing to consolidate right now', 'info');
+        } catch (error) {
+            console.error('Failed to plan consolidation:', error);
+            showToast('Could not plan memory consolidation.', 'error');
+        } finally {
+            setIsPlanning(false);
+        }
+    };
+
+    const handleApply = async () => {
+        if (!run) return;
+        setIsApplying(true);
+        try {
+            const result = await applyConsolidationRun(run.id, Array.from(skipped));
+            const stale = result.stale ? `; ${result.stale} left alone because the memory changed since planning` : '';
+            showToast(`Applied: ${result.updated} decayed, ${result.merged} merged, ${result.archived} archived${stale}`, 'success');
+        } catch (error) {
+            console.error('Failed to apply consolidation:', error);
+            showToast(error instanceof Error ? error.message : 'Could not apply consolidation.', 'error');
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    const handleDiscard = async () => {
+        if (!run) return;
+        try {
+            await discardConsolidationRun(run.id);
+        } catch (error) {
+            console.error('Failed to discard consolidation:', error);
+        }
+    };
+
+    const handleRestore = async (id: number) => {
+        try {
+            await restoreArchivedMemory(id);
+            showToast('Memory restored', 'success');
+        } catch (error) {
+            console.error('Failed to restore memory:', error);
+            showToast('Could not restore memory.', 'error');
+        }
+    };
+
+    const totalChanges = run ? run.decay.length + run.merges.length + run.archives.length : 0;
+
+    return (
+        <div className="mb-8 bg-[#1e1f20] border border-gray-700 rounded-lg p-5">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <h2 className="text-lg font-semibold text-gray-200">Consolidation</h2>
+                    <p className="text-xs text-gray-500">
+                        {run
+                            ? `${run.trigger === 'scheduled' ? 'Scheduled' : 'Manual'} run from ${formatDate(run.createdAt)} · ${totalChanges} proposed change${totalChanges === 1 ? '' : 's'}`
+                            : 'Decay, merge and archive proposals appear here for review before anything changes.'}
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={handlePlan}
+                        disabled={isPlanning || isApplying}
+                        className="flex items-center gap-2 px-3 py-2 rounded-md border border-gray-600 bg-[#2a2b2c] text-gray-300 hover:bg-gray-700 text-sm disabled:opacity-50"
+                    >
+                        <RefreshIcon className="h-4 w-4" /> {isPlanning ? 'Planning...' : 'Run Consolidation'}
+                    </button>
+                    {run && (
+                        <>
+                            <button
+                                onClick={handleDiscard}
+                                disabled={isApplying}
+                                className="px-3 py-2 rounded-md border border-gray-600 text-gray-300 hover:bg-gray-700 text-sm disabled:opacity-50"
+                            >
+                                Discard
+                            </button>
+                            <button
+                                onClick={handleApply}
+                                disabled={isApplying || totalChanges === 0}
+                                className="px-3 py-2 rounded-md bg-teal-600 hover:bg-teal-500 text-white text-sm disabled:opacity-50"
+                            >
+                                {isApplying ? 'Applying...' : `Apply ${totalChanges - skipped.size} Selected`}
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            {run && totalChanges > 0 && (
+                <div className="mt-4 grid grid-cols-1 lg:grid-cols-3 gap-4">
+                    <div>
+                        <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Merges ({run.merges.length})</h3>
+                        {run.merges.map(merge => (
+                            <ChangeRow key={merge.key} checked={!skipped.has(merge.key)} onToggle={() => toggle(merge.key)}>
+                                <p className="text-teal-200">{merge.summary}</p>
+                                <ul className="mt-1 space-y-0.5 text-xs text-gray-500 line-through">
+                                    {merge.sourceSummaries.map((summary, index) => (
+                                        <li key={merge.sourceIds[index]} className="truncate">#{merge.sourceIds[index]} {summary}</li>
+                                    ))}
+                                </ul>
+                                <p className="mt-1 text-xs text-gray-500">Overlap {Math.round(merge.similarity * 100)}% · relevance {merge.relevance.toFixed(1)}</p>
+                            </ChangeRow>
+                        ))}
+                    </div>
+                    <div>
+                        <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Decay ({run.decay.length})</h3>
+                        {run.decay.map(change => (
+                            <ChangeRow key={change.key} checked={!skipped.has(change.key)} onToggle={() => toggle(change.key)}>
+                                <p className="truncate">{change.summary}</p>
+                                <p className="text-xs text-gray-500">
+                                    {change.before.toFixed(1)} → <span className="text-amber-300">{change.after.toFixed(1)}</span> · half-life {change.halfLifeDays}d
+                                </p>
+                            </ChangeRow>
+                        ))}
+                    </div>
+                    <div>
+                        <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Archive ({run.archives.length})</h3>
+                        {run.archives.map(change => (
+                            <ChangeRow key={change.key} checked={!skipped.has(change.key)} onToggle={() => toggle(change.key)}>
+                                <p className="truncate">{change.summary}</p>
+                                <p className="text-xs text-gray-500">{change.reason}</p>
+                            </ChangeRow>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="mt-4 border-t border-gray-700 pt-3">
+                <button
+                    onClick={() => setShowColdTier(!showColdTier)}
+                    className="flex items-center gap-2 text-sm text-gray-400 hover:text-gray-200"
+                    aria-expanded={showColdTier}
+                >
+                    <ChevronDownIcon className={`w-4 h-4 transition-transform ${showColdTier ? 'rotate-180' : ''}`} />
+                    Cold tier ({archived.length})
+                </button>
+                {showColdTier && (
+                    <ul className="mt-3 space-y-2 max-h-72 overflow-y-auto">
+                        {archived.length === 0 && <li className="text-sm text-gray-500">No archived memories.</li>}
+                        {archived.map(memory => (
+                            <li key={memory.id} className="flex items-start justify-between gap-3 text-sm">
+                                <div className="min-w-0">
+                                    <p className="text-gray-300 truncate">{memory.summary}</p>
+                                    <p className="text-xs text-gray-500">
+                                        {memory.archiveReason === 'consolidated' ? `Merged into #${memory.consolidatedInto}` : 'Low value'} · archived {formatDate(memory.archivedAt)}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => handleRestore(memory.id)}
+                                    className="flex-shrink-0 px-2 py-1 rounded-md border border-gray-600 text-xs text-gray-300 hover:bg-gray-700"
+                                >
+                                    Restore
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default MemoryConsolidationPanel;
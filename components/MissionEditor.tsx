@@ -0,0 +1,436 @@
+import React, { useMemo, useState } from 'react';
+import {
+  CustomMissionMetric,
+  ExperienceEventType,
+  IntelligenceCategory,
+  MissionDefinition,
+  MissionMetric,
+  MissionMetricPredicate,
+  MissionPredicateOperator,
+  SkillBranchId
+} from '../types';
+import { deleteMissionDefinition, saveMissionDefinition } from '../services/db';
+import { loadMissionRotationSettings, saveMissionRotationSettings, validateMissionDefinition } from '../services/missionDefinitions';
+import { SKILL_BRANCHES } from '../services/skills';
+
+const BUILT_IN_METRICS: Array<{ value: MissionMetric; label: string }> = [
+  { value: 'pressure_diffused', label: 'Pressure diffused' },
+  { value: 'pressure_created', label: 'Pressure created' },
+  { value: 'secret_shared', label: 'Secrets shared' },
+  { value: 'brand_update', label: 'Brand updates' },
+  { value: 'memory_capture', label: 'Memories captured' },
+  { value: 'client_success', label: 'Client successes' },
+  { value: 'drama_event', label: 'Dramatic events' }
+];
+
+const EXPERIENCE_TYPES: ExperienceEventType[] = [
+  'pressure_diffused',
+  'pressure_created',
+  'secret_shared',
+  'secret_uncovered',
+  'brand_update',
+  'client_success',
+  'plan_execution',
+  'innovation_push',
+  'memory_capture',
+  'dramatic_event'
+];
+
+const INTELLIGENCE_CATEGORIES: IntelligenceCategory[] = ['brand', 'client', 'social', 'operations', 'mission'];
+
+const OPERATORS: Array<{ value: MissionPredicateOperator; label: string }> = [
+  { value: 'equals', label: '=' },
+  { value: 'not_equals', label: '≠' },
+  { value: 'contains', label: 'contains' },
+  { value: 'gte', label: '≥' },
+  { value: 'lte', label: '≤' },
+  { value: 'exists', label: 'exists' }
+];
+
+const EMPTY_CUSTOM_METRIC: CustomMissionMetric = { source: 'experience', eventTypes: [], categories: [], predicates: [], match: 'all' };
+
+const createDraft = (): MissionDefinition => ({
+  id: `mission_custom_${Date.now().toString(36)}`,
+  branch: 'social_engineering',
+  title: '',
+  description: '',
+  target: 3,
+  metric: 'pressure_diffused',
+  rewardXp: 100,
+  expiresInHours: 24,
+  weight: 1,
+  prerequisiteIds: [],
+  repeatable: true,
+  enabled: true
+});
+
+// Predicate values are typed so numeric comparisons and boolean metadata behave.
+const parsePredicateValue = (raw: string): string | number | boolean => {
+  if (raw === 'true' || raw === 'false') return raw === 'true';
+  const numeric = Number(raw);
+  return raw.trim() !== '' && Number.isFinite(numeric) ? numeric : raw;
+};
+
+const describeMetric = (definition: MissionDefinition): string => {
+  if (definition.metric !== 'custom') {
+    return BUILT_IN_METRICS.find(metric => metric.value === definition.metric)?.label ?? definition.metric;
+  }
+  const metric = definition.customMetric;
+  if (!metric) return 'Custom';
+  const scope = metric.source === 'experience'
+    ? metric.eventTypes?.length ? metric.eventTypes.join(', ') : 'any XP event'
+    : metric.categories?.length ? `${metric.categories.join(', ')} intel` : 'any intel';
+  return metric.predicates.length ? `${scope} where ${metric.predicates.length} condition${metric.predicates.length === 1 ? '' : 's'} (${metric.match})` : scope;
+};
+
+interface MissionEditorProps {
+  definitions: MissionDefinition[];
+}
+
+const inputClass = 'w-full rounded-md border border-gray-700 bg-[#16181d] px-2 py-1.5 text-sm text-gray-200 focus:border-blue-500 focus:outline-none';
+
+const MissionEditor: React.FC<MissionEditorProps> = ({ definitions }) => {
+  const [draft, setDraft] = useState<MissionDefinition | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [dailyCount, setDailyCount] = useState(() => loadMissionRotationSettings().dailyMissionCount);
+
+  const titleOf = useMemo(() => {
+    const map = new Map(definitions.map(def => [def.id, def.title]));
+    return (id: string) => map.get(id) ?? id;
+  }, [definitions]);
+
+  const grouped = useMemo(() => {
+    const byBranch = new Map<SkillBranchId, MissionDefinition[]>();
+    definitions.forEach(def => byBranch.set(def.branch, [...(byBranch.get(def.branch) ?? []), def]));
+    return Array.from(byBranch.entries());
+  }, [definitions]);
+
+  const update = (patch: Partial<MissionDefinition>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+  const updateMetric = (patch: Partial<CustomMissionMetric>) =>
+    setDraft(prev => (prev ? { ...prev, customMetric: { ...(prev.customMetric ?? EMPTY_CUSTOM_METRIC), ...patch } } : prev));
+
+  const updatePredicate = (index: number, patch: Partial<MissionMetricPredicate>) => {
+    const predicates = [...(draft?.customMetric?.predicates ?? [])];
+    predicates[index] = { ...predicates[index], ...patch };
+    updateMetric({ predicates });
+  };
+
+  const toggleInList = <T,>(list: T[] | undefined, value: T): T[] =>
+    (list ?? []).includes(value) ? (list ?? []).filter(item => item !== value) : [...(list ?? []), value];
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const mission: MissionDefinition = {
+      ...draft,
+      title: draft.title.trim(),
+      description: draft.description.trim(),
+      customMetric: draft.metric === 'custom' ? draft.customMetric ?? EMPTY_CUSTOM_METRIC : undefined
+    };
+    try {
+      validateMissionDefinition(mission, definitions.filter(def => def.id !== mission.id));
+    } catch (validationError) {
+      setError(validationError instanceof Error ? validationError.message : 'Mission is invalid.');
+      return;
+    }
+    await saveMissionDefinition(mission);
+    setDraft(null);
+    setError(null);
+  };
+
+  const handleDelete = async (definition: MissionDefinition) => {
+    const dependents = definitions.filter(def => def.prerequisiteIds?.includes(definition.id));
+    const warning = dependents.length ? ` ${dependents.map(def => def.title).join(', ')} will no longer require it.` : '';
+    if (!window.confirm(`Delete "${definition.title}"?${warning}`)) return;
+    await deleteMissionDefinition(definition.id);
+  };
+
+  const handleDailyCountChange = (value: number) => {
+    setDailyCount(value);
+    saveMissionRotationSettings({ dailyMissionCount: value });
+  };
+
+  return (
+    <section className="rounded-xl border border-gray-800 bg-[#1B1C1F] p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-blue-300">Mission Catalog</h2>
+          <p className="text-xs text-gray-500">Missions rotate in by branch and weight. Prerequisites chain missions into campaigns.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            Active slots
+            <input
+              type="number"
+              min={1}
+              max={12}
+              value={dailyCount}
+              onChange={event => handleDailyCountChange(Math.max(1, Number(event.target.value) || 1))}
+              className="w-16 rounded-md border border-gray-700 bg-[#16181d] px-2 py-1 text-sm text-gray-200"
+            />
+          </label>
+          {!draft && (
+            <button
+              onClick={() => {
+                setDraft(createDraft());
+                setError(null);
+              }}
+              className="rounded-lg border border-blue-500/40 bg-blue-500/10 px-3 py-1.5 text-sm font-semibold text-blue-200 hover:bg-blue-500/20"
+            >
+              New Mission
+            </button>
+          )}
+        </div>
+      </div>
+
+      {draft && (
+        <div className="mt-4 space-y-3 rounded-lg border border-blue-500/30 bg-[#111315] p-4">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+            <input value={draft.title} onChange={event => update({ title: event.target.value })} placeholder="Title" className={inputClass} />
+            <select value={draft.branch} onChange={event => update({ branch: event.target.value as SkillBranchId })} className={inputClass}>
+              {Object.entries(SKILL_BRANCHES).map(([id, branch]) => (
+                <option key={id} value={id}>{branch.title}</option>
+              ))}
+            </select>
+          </div>
+          <textarea
+            value={draft.description}
+            onChange={event => update({ description: event.target.value })}
+            placeholder="Description shown on the mission card"
+            className={`${inputClass} h-16 resize-y`}
+          />
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+            <label className="text-[11px] text-gray-500">
+              Target
+              <input type="number" min={1} value={draft.target} onChange={event => update({ target: Number(event.target.value) || 1 })} className={inputClass} />
+            </label>
+            <label className="text-[11px] text-gray-500">
+              Reward XP
+              <input type="number" min={0} value={draft.rewardXp} onChange={event => update({ rewardXp: Number(event.target.value) || 0 })} className={inputClass} />
+            </label>
+            <label className="text-[11px] text-gray-500">
+              Expires (hours, blank = never)
+              <input
+                type="number"
+                min={1}
+                value={draft.expiresInHours ?? ''}
+                onChange={event => update({ expiresInHours: event.target.value ? Number(event.target.value) : undefined })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-[11px] text-gray-500">
+              Rotation weight
+              <input type="number" min={0} step={0.5} value={draft.weight ?? 1} onChange={event => update({ weight: Math.max(0, Number(event.target.value) || 0) })} className={inputClass} />
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-xs text-gray-400">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={draft.enabled !== false} onChange={event => update({ enabled: event.target.checked })} />
+              In rotation
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={draft.repeatable !== false} onChange={event => update({ repeatable: event.target.checked })} />
+              Repeatable after completion
+            </label>
+          </div>
+
+          <div>
+            <div className="text-[11px] uppercase tracking-wider text-gray-500">Prerequisites</div>
+            <div className="mt-1 flex flex-wrap gap-2">
+              {definitions.filter(def => def.id !== draft.id).map(def => {
+                const selected = draft.prerequisiteIds?.includes(def.id);
+                return (
+                  <button
+                    key={def.id}
+                    onClick={() => update({ prerequisiteIds: toggleInList(draft.prerequisiteIds, def.id) })}
+                    className={`rounded-full border px-2 py-0.5 text-[11px] ${selected ? 'border-blue-500 bg-blue-500/20 text-blue-200' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`}
+                  >
+                    {def.title}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-[11px] uppercase tracking-wider text-gray-500">Counts</div>
+            <select
+              value={draft.metric}
+              onChange={event => {
+                const metric = event.target.value as MissionDefinition['metric'];
+                update({ metric, customMetric: metric === 'custom' ? draft.customMetric ?? EMPTY_CUSTOM_METRIC : draft.customMetric });
+              }}
+              className={`${inputClass} mt-1`}
+            >
+              {BUILT_IN_METRICS.map(metric => (
+                <option key={metric.value} value={metric.value}>{metric.label}</option>
+              ))}
+              <option value="custom">Custom metric…</option>
+            </select>
+          </div>
+
+          {draft.metric === 'custom' && (
+            <div className="space-y-3 rounded-md border border-gray-700 bg-[#16181d] p-3">
+              <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+                <label className="flex items-center gap-1">
+                  <input
+                    type="radio"
+                    checked={(draft.customMetric ?? EMPTY_CUSTOM_METRIC).source === 'experience'}
+                    onChange={() => updateMetric({ source: 'experience' })}
+                  />
+                  XP events
+                </label>
+                <label className="flex items-center gap-1">
+                  <input
+                    type="radio"
+                    checked={draft.customMetric?.source === 'intelligence'}
+                    onChange={() => updateMetric({ source: 'intelligence' })}
+                  />
+                  Intelligence records
+                </label>
+                <select
+                  value={draft.customMetric?.match ?? 'all'}
+                  onChange={event => updateMetric({ match: event.target.value as CustomMissionMetric['match'] })}
+                  className="ml-auto rounded-md border border-gray-700 bg-[#111315] px-2 py-1 text-xs text-gray-300"
+                >
+                  <option value="all">Match all conditions</option>
+                  <option value="any">Match any condition</option>
+                </select>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {(draft.customMetric?.source === 'intelligence' ? INTELLIGENCE_CATEGORIES : EXPERIENCE_TYPES).map(option => {
+                  const isIntel = draft.customMetric?.source === 'intelligence';
+                  const selected = isIntel
+                    ? draft.customMetric?.categories?.includes(option as IntelligenceCategory)
+                    : draft.customMetric?.eventTypes?.includes(option as ExperienceEventType);
+                  return (
+                    <button
+                      key={option}
+                      onClick={() =>
+                        isIntel
+                          ? updateMetric({ categories: toggleInList(draft.customMetric?.categories, option as IntelligenceCategory) })
+                          : updateMetric({ eventTypes: toggleInList(draft.customMetric?.eventTypes, option as ExperienceEventType) })
+                      }
+                      className={`rounded-full border px-2 py-0.5 text-[11px] ${selected ? 'border-emerald-500 bg-emerald-500/20 text-emerald-200' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`}
+                    >
+                      {option.replace(/_/g, ' ')}
+                    </button>
+                  );
+                })}
+              </div>
+              <p className="text-[11px] text-gray-500">
+                {draft.customMetric?.source === 'intelligence'
+                  ? 'Fields are read from the record, e.g. source, summary or requestPayload.type. No categories selected counts every record.'
+                  : 'Fields are read from the event metadata, e.g. secretId or leakProbability. No types selected counts every XP event.'}
+              </p>
+
+              {(draft.customMetric?.predicates ?? []).map((predicate, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    value={predicate.field}
+                    onChange={event => updatePredicate(index, { field: event.target.value })}
+                    placeholder="field.path"
+                    className={`${inputClass} font-mono`}
+                  />
+                  <select
+                    value={predicate.operator}
+                    onChange={event => updatePredicate(index, { operator: event.target.value as MissionPredicateOperator })}
+                    className="rounded-md border border-gray-700 bg-[#111315] px-2 py-1.5 text-sm text-gray-300"
+                  >
+                    {OPERATORS.map(operator => (
+                      <option key={operator.value} value={operator.value}>{operator.label}</option>
+                    ))}
+                  </select>
+                  {predicate.operator !== 'exists' && (
+                    <input
+                      value={predicate.value === undefined ? '' : String(predicate.value)}
+                      onChange={event => updatePredicate(index, { value: parsePredicateValue(event.target.value) })}
+                      placeholder="value"
+                      className={inputClass}
+                    />
+                  )}
+                  <button
+                    onClick={() => updateMetric({ predicates: (draft.customMetric?.predicates ?? []).filter((_, i) => i !== index) })}
+                    className="px-2 text-gray-500 hover:text-red-400"
+                    aria-label="Remove condition"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => updateMetric({ predicates: [...(draft.customMetric?.predicates ?? []), { field: '', operator: 'equals', value: '' }] })}
+                className="rounded-md border border-gray-700 px-2 py-1 text-xs text-gray-300 hover:border-gray-500"
+              >
+                Add condition
+              </button>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => {
+                setDraft(null);
+                setError(null);
+              }}
+              className="rounded-lg border border-gray-700 px-3 py-1.5 text-sm text-gray-300 hover:border-gray-500"
+            >
+              Cancel
+            </button>
+            <button onClick={handleSave} className="rounded-lg bg-blue-600 px-4 py-1.5 text-sm font-semibold text-white hover:bg-blue-500">
+              Save Mission
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-4 grid grid-cols-1 gap-4 lg:grid-cols-2">
+        {grouped.map(([branch, missions]) => (
+          <div key={branch} className="rounded-lg border border-gray-800 bg-[#111315] p-4">
+            <h3 className="text-sm font-semibold text-gray-100">{SKILL_BRANCHES[branch].title}</h3>
+            <ul className="mt-3 space-y-2">
+              {missions.map(mission => (
+                <li
+                  key={mission.id}
+                  className={`rounded-md border px-3 py-2 ${mission.enabled === false ? 'border-gray-800 opacity-50' : 'border-gray-700'}`}
+                >
+                  <div className="flex items-center justify-between gap-2 text-sm text-gray-100">
+                    <span className="font-semibold">{mission.title}</span>
+                    <div className="flex items-center gap-2 text-xs">
+                      <button onClick={() => { setDraft({ ...mission }); setError(null); }} className="text-gray-400 hover:text-blue-300">
+                        Edit
+                      </button>
+                      {mission.builtIn ? (
+                        <button
+                          onClick={() => saveMissionDefinition({ ...mission, enabled: mission.enabled === false })}
+                          className="text-gray-400 hover:text-amber-300"
+                        >
+                          {mission.enabled === false ? 'Enable' : 'Disable'}
+                        </button>
+                      ) : (
+                        <button onClick={() => handleDelete(mission)} className="text-gray-400 hover:text-red-400">
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="mt-1 text-[11px] text-gray-500">
+                    {mission.target}× {describeMetric(mission)} · {mission.rewardXp} XP · weight {mission.weight ?? 1}
+                    {mission.repeatable === false && ' · one-off'}
+                  </div>
+                  {mission.prerequisiteIds && mission.prerequisiteIds.length > 0 && (
+                    <div className="mt-1 text-[11px] text-blue-300/80">After: {mission.prerequisiteIds.map(titleOf).join(', ')}</div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default MissionEditor;
@@ -10,9 +10,11 @@ import {
     TemporalIcon,
     BiasIcon,
     HistoryIcon,
-    GradeIcon
+    GradeIcon,
+    SparklesIcon
 } from './icons/Icons';
 import { PostProcessingAction, POST_PROCESSING_DETAILS } from '../services/aiService';
+import { CustomLens } from '../types';
 
 export interface PostProcessingActionDefinition {
     id: PostProcessingAction;
@@ -127,6 +129,9 @@ interface PostProcessingToolbarProps {
     isSpeaking: boolean;
     onAction: (action: PostProcessingAction) => void;
     inFlightAction: PostProcessingAction | null;
+    customLenses?: CustomLens[];
+    onCustomLens?: (lens: CustomLens) => void;
+    inFlightLensId?: string | null;
     disabled?: boolean;
     onOpenRating: () => void;
     currentGrade?: string | null;
@@ -139,6 +144,9 @@ const PostProcessingToolbar: React.FC<PostProcessingToolbarProps> = ({
     isSpeaking,
     onAction,
     inFlightAction,
+    customLenses = [],
+    onCustomLens,
+    inFlightLensId = null,
     disabled = false,
     onOpenRating,
     currentGrade,
@@ -188,6 +196,19 @@ const PostProcessingToolbar: React.FC<PostProcessingToolbarProps> = ({
                     <Icon className="w-4 h-4" />
                 </MessageActionButton>
             ))}
+
+            {onCustomLens && customLenses.map(lens => (
+                <MessageActionButton
+                    key={lens.id}
+                    onClick={() => onCustomLens(lens)}
+                    label={lens.label}
+                    tooltip={lens.tagline || lens.label}
+                    isActive={inFlightLensId === lens.id}
+                    disabled={disabled}
+                >
+                    <SparklesIcon className="w-4 h-4 text-purple-300" />
+                </MessageActionButton>
+            ))}
         </div>
     );
 };
@@ -0,0 +1,88 @@
+import React, { useMemo, useState } from 'react';
+import { PerformerSecret } from '../types';
+import {
+  GossipNetwork,
+  PREDICTED_LEAK_THRESHOLD,
+  computeBlastRadius,
+  predictLeaks,
+  simulateSecretSpread
+} from '../services/gossipNetwork';
+
+interface SecretBlastRadiusProps {
+  secret: PerformerSecret;
+  network: GossipNetwork;
+  getPerformerName: (id: string) => string;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const SecretBlastRadius: React.FC<SecretBlastRadiusProps> = ({ secret, network, getPerformerName }) => {
+  const [seed, setSeed] = useState<string | null>(null);
+
+  const predictions = useMemo(() => predictLeaks(secret, network, 3), [secret, network]);
+  const radius = useMemo(() => computeBlastRadius(secret, network), [secret, network]);
+  const simulation = useMemo(() => (seed ? simulateSecretSpread(secret, network, seed) : null), [secret, network, seed]);
+
+  if (radius.length === 0) {
+    return <p className="mt-3 text-[11px] text-gray-500">Contained: nobody else is likely to hear about this.</p>;
+  }
+
+  return (
+    <div className="mt-3 space-y-3 rounded-lg border border-gray-800 bg-[#0c0d0f] p-3 text-[11px]">
+      <div>
+        <div className="uppercase tracking-wider text-gray-500">Likely next leaks</div>
+        <ul className="mt-1 space-y-1">
+          {predictions.map(prediction => (
+            <li key={`${prediction.tellerId}-${prediction.listenerId}`} className="flex justify-between gap-2 text-gray-300">
+              <span>{getPerformerName(prediction.tellerId)} → {getPerformerName(prediction.listenerId)}</span>
+              <span className={prediction.probability >= PREDICTED_LEAK_THRESHOLD ? 'text-amber-300' : 'text-gray-500'}>
+                {formatPercent(prediction.probability)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <div className="uppercase tracking-wider text-gray-500">Blast radius</div>
+        <ul className="mt-1 space-y-1.5">
+          {radius.map(entry => (
+            <li key={entry.performerId}>
+              <div className="flex justify-between gap-2 text-gray-300">
+                <span>
+                  {getPerformerName(entry.performerId)}
+                  <span className="text-gray-500"> · {entry.hops} hop{entry.hops === 1 ? '' : 's'} via {getPerformerName(entry.viaId)}</span>
+                </span>
+                <span>{formatPercent(entry.probability)}</span>
+              </div>
+              <div className="mt-0.5 h-1 rounded-full bg-gray-800">
+                <div className="h-1 rounded-full bg-gradient-to-r from-purple-500 to-red-500" style={{ width: formatPercent(entry.probability) }} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <button
+          onClick={() => setSeed(`${secret.id}-${Date.now()}`)}
+          className="rounded-full border border-gray-700 px-2 py-1 text-gray-300 hover:bg-gray-800"
+        >
+          Simulate spread
+        </button>
+        {simulation && (
+          <ol className="mt-2 space-y-1 text-gray-400">
+            {simulation.length === 0 && <li>It stayed quiet this time.</li>}
+            {simulation.map(leak => (
+              <li key={`${leak.hop}-${leak.listenerId}`}>
+                Hop {leak.hop}: {getPerformerName(leak.tellerId)} tells {getPerformerName(leak.listenerId)}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SecretBlastRadius;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { SentimentAnalyzerId } from '../services/aiService';
+import { listTextAnalyzers } from '../services/textAnalysis';
+import { AnalyzerEvaluation, compareTextAnalyzers, LABELED_TEXT_FIXTURES } from '../services/textAnalysisBenchmark';
+
+interface SentimentAnalyzerSettingsProps {
+    value: SentimentAnalyzerId;
+    onChange: (value: SentimentAnalyzerId) => void;
+}
+
+const ANALYZER_DESCRIPTIONS: Record<SentimentAnalyzerId, string> = {
+    lexicon: 'The original positive/negative word count. Kept for comparison.',
+    local: 'Offline weighted lexicons with negation, intensifiers, emoji and social, business and mission vocabularies.',
+    llm: 'Asks the configured provider to score each message. One extra request per chat or DM message; falls back to the local classifier on errors.'
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const SentimentAnalyzerSettings: React.FC<SentimentAnalyzerSettingsProps> = ({ value, onChange }) => {
+    const [evaluations, setEvaluations] = useState<AnalyzerEvaluation[]>([]);
+    const [includeLlm, setIncludeLlm] = useState(false);
+    const [isRunning, setIsRunning] = useState(false);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const analyzers = listTextAnalyzers();
+
+    const handleRunBenchmark = async () => {
+        setIsRunning(true);
+        try {
+            const selected = analyzers.filter(analyzer => analyzer.offline || includeLlm);
+            setEvaluations(await compareTextAnalyzers(selected));
+        } catch (error) {
+            console.error('Failed to benchmark sentiment analyzers:', error);
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    return (
+        <div className="bg-[#1e1f20] p-6 rounded-lg border border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-200">Sentiment Analysis</h3>
+            <p className="text-sm text-gray-400 mt-1 mb-4">Scores and narrative tags from this analyzer feed social signals, pressure scores and XP for chat, DMs and round tables.</p>
+            <select
+                value={value}
+                onChange={(event) => onChange(event.target.value as SentimentAnalyzerId)}
+                className="w-full bg-[#2a2b2c] text-gray-300 rounded-lg p-3 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+                {analyzers.map(analyzer => (
+                    <option key={analyzer.id} value={analyzer.id}>{analyzer.label}</option>
+                ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-2">{ANALYZER_DESCRIPTIONS[value]}</p>
+
+            <div className="mt-4 flex flex-wrap items-center gap-3">
+                <button
+                    onClick={handleRunBenchmark}
+                    disabled={isRunning}
+                    className="px-3 py-1.5 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 disabled:opacity-60"
+                >
+                    {isRunning ? 'Evaluating…' : `Evaluate on ${LABELED_TEXT_FIXTURES.length} labeled samples`}
+                </button>
+                <label className="flex items-center gap-2 text-xs text-gray-400">
+                    <input type="checkbox" checked={includeLlm} onChange={(event) => setIncludeLlm(event.target.checked)} />
+                    Include LLM analyzer (one request per sample)
+                </label>
+            </div>
+
+            {evaluations.length > 0 && (
+                <table className="mt-4 w-full text-xs text-gray-300">
+                    <thead className="text-gray-500">
+                        <tr className="text-left">
+                            <th className="py-1">Analyzer</th>
+                            <th>Accuracy</th>
+                            <th>Mean error</th>
+                            <th>Calibration gap</th>
+                            <th>Tag precision</th>
+                            <th>Tag recall</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {evaluations.map(evaluation => (
+                            <React.Fragment key={evaluation.analyzerId}>
+                                <tr
+                                    className="border-t border-gray-800 cursor-pointer hover:bg-[#161719]"
+                                    onClick={() => setExpandedId(prev => (prev === evaluation.analyzerId ? null : evaluation.analyzerId))}
+                                >
+                                    <td className="py-1 font-semibold">{evaluation.analyzerId}</td>
+                                    <td>{percent(evaluation.accuracy)}</td>
+                                    <td>{evaluation.meanAbsoluteError.toFixed(2)}</td>
+                                    <td>{evaluation.calibrationError.toFixed(2)}</td>
+                                    <td>{percent(evaluation.tagPrecision)}</td>
+                                    <td>{percent(evaluation.tagRecall)}</td>
+                                </tr>
+                                {expandedId === evaluation.analyzerId && (
+                                    <tr>
+                                        <td colSpan={6} className="pb-2">
+                                            <ul className="space-y-0.5 text-gray-500">
+                                                {evaluation.results
+                                                    .filter(result => result.expected !== result.predicted || result.missingTags.length || result.extraTags.length)
+                                                    .map(result => (
+                                                        <li key={result.fixtureId}>
+                                                            <span className="font-mono text-gray-400">{result.fixtureId}</span>
+                                                            {result.expected !== result.predicted && ` · expected ${result.expected}, got ${result.predicted} (${result.sentiment.toFixed(2)})`}
+                                                            {result.missingTags.length > 0 && ` · missed ${result.missingTags.join(', ')}`}
+                                                            {result.extraTags.length > 0 && ` · extra ${result.extraTags.join(', ')}`}
+                                                        </li>
+                                                    ))}
+                                            </ul>
+                                        </td>
+                                    </tr>
+                                )}
+                            </React.Fragment>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default SentimentAnalyzerSettings;
@@ -58,6 +58,10 @@ const Sidebar: React.FC = () => {
           <TeamIcon className="h-6 w-6" />
           <span>Team Interactions</span>
         </NavLink>
+        <NavLink to="/round-table" className={navLinkClass}>
+          <ChatIcon />
+          <span>Round Table</span>
+        </NavLink>
         <NavLink to="/private-dms" className={navLinkClass}>
           <PrivateDMIcon className="h-6 w-6" />
           <span>Private DMs</span>
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { AgentToolCallTrace } from '../types';
+import { TraceIcon, CheckIcon, XIcon, ChevronDownIcon } from './icons/Icons';
+
+interface ToolCallsPanelProps {
+    toolCalls: AgentToolCallTrace[];
+}
+
+const ToolCallsPanel: React.FC<ToolCallsPanelProps> = ({ toolCalls }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const failedCount = toolCalls.filter(call => call.error).length;
+
+    return (
+        <div className="border-l-4 border-cyan-400 bg-cyan-400/10 rounded-r-lg">
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="w-full flex items-center justify-between p-4 text-left"
+                aria-expanded={isExpanded}
+            >
+                <div className="flex items-center gap-3">
+                    <div className="flex-shrink-0 text-cyan-400 pt-0.5">
+                        <TraceIcon className="w-5 h-5" />
+                    </div>
+                    <div className="text-left">
+                        <h3 className="font-semibold text-cyan-300">Tool Calls</h3>
+                        {!isExpanded && (
+                            <p className="text-xs text-gray-500">
+                                {toolCalls.map(call => call.name).join(', ')}
+                                {failedCount > 0 && <span className="text-red-400"> · {failedCount} failed</span>}
+                            </p>
+                        )}
+                    </div>
+                </div>
+                <ChevronDownIcon className={`w-5 h-5 text-cyan-300 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+            </button>
+            {isExpanded && (
+                <div className="px-4 pb-4">
+                    <ul className="pl-9 space-y-2">
+                        {toolCalls.map(call => (
+                            <li key={call.id} className="text-sm text-gray-400">
+                                <div className="flex items-center gap-2">
+                                    {call.error
+                                        ? <XIcon className="w-4 h-4 text-red-400 flex-shrink-0" />
+                                        : <CheckIcon className="w-4 h-4 text-green-500 flex-shrink-0" />}
+                                    <span className="font-mono text-cyan-200">{call.name}</span>
+                                    <span className="text-xs text-gray-500">{call.durationMs}ms</span>
+                                </div>
+                                <pre className="mt-1 ml-6 text-xs text-gray-500 whitespace-pre-wrap break-words">
+                                    {JSON.stringify(call.arguments)}
+                                </pre>
+                                {call.error && <p className="ml-6 text-xs text-red-300">{call.error}</p>}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ToolCallsPanel;
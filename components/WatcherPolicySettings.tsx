@@ -0,0 +1,326 @@
+import React, { useEffect, useState } from 'react';
+import { WatcherCondition, WatcherObservation, WatcherRule, WatcherSubject } from '../types';
+import { getWatcherObservations, getWatcherRules, resetWatcherRules, saveWatcherRules } from '../services/db';
+import { WATCHER_SUBJECTS, WatcherDryRunReport, dryRunWatcherPolicy, validateWatcherRule } from '../services/watcherRules';
+import { showToast } from './Toast';
+import { EditIcon, PlusIcon, TrashIcon } from './icons/Icons';
+
+interface RuleDraft {
+    rule: WatcherRule;
+    conditionText: string;
+}
+
+const NEW_RULE_CONDITION: WatcherCondition = { type: 'compare', field: 'length', operator: 'gt', value: 1000 };
+
+const inputClass = 'w-full bg-[#2a2b2c] text-gray-300 rounded-lg p-2 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm';
+
+const describeWhere = (condition: WatcherCondition): string =>
+    'where' in condition && condition.where ? ` where ${condition.where.field} = ${String(condition.where.equals)}` : '';
+
+const describeCondition = (condition: WatcherCondition): string => {
+    switch (condition.type) {
+        case 'compare':
+            return `${condition.field} ${condition.operator} ${String(condition.value)}`;
+        case 'empty':
+            return `${condition.field} is empty`;
+        case 'pattern':
+            return `${condition.field} matches /${condition.pattern}/${condition.flags ?? ''}`;
+        case 'has_duplicates':
+            return `${condition.field} has duplicates`;
+        case 'fields_equal':
+            return `${condition.field} = ${condition.otherField}`;
+        case 'window_sum':
+            return `sum of ${condition.field} > ${condition.limit} per ${condition.windowMs / 1000}s${condition.groupBy ? ` by ${condition.groupBy}` : ''}${describeWhere(condition)}`;
+        case 'window_count':
+            return `more than ${condition.limit} per ${condition.windowMs / 1000}s${condition.groupBy ? ` by ${condition.groupBy}` : ''}${describeWhere(condition)}`;
+        case 'recent_duplicate':
+            return `repeats ${condition.field} within ${condition.windowMs / 1000}s${condition.groupBy ? ` by ${condition.groupBy}` : ''}${describeWhere(condition)}`;
+        default:
+            return 'unknown condition';
+    }
+};
+
+const observationLabel = (observation: WatcherObservation): string => {
+    const payload = observation.payload;
+    const text = payload.message ?? payload.text ?? payload.summary;
+    if (typeof text === 'string' && text) return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+    if (observation.subject === 'experience_award') return `${String(payload.baseXp)} XP · ${String(payload.type).replace(/_/g, ' ')}`;
+    return observation.subject.replace(/_/g, ' ');
+};
+
+const WatcherPolicySettings: React.FC = () => {
+    const [rules, setRules] = useState<WatcherRule[]>([]);
+    const [dirty, setDirty] = useState(false);
+    const [editing, setEditing] = useState<RuleDraft | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [report, setReport] = useState<WatcherDryRunReport | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+
+    useEffect(() => {
+        const load = () => {
+            getWatcherRules()
+                .then(loaded => {
+                    setRules(loaded);
+                    setDirty(false);
+                })
+                .catch(loadError => console.error('Failed to load watcher rules:', loadError));
+        };
+        load();
+        window.addEventListener('watcher-rules-updated', load);
+        return () => window.removeEventListener('watcher-rules-updated', load);
+    }, []);
+
+    const updateRules = (next: WatcherRule[]) => {
+        setRules(next);
+        setDirty(true);
+        setReport(null);
+    };
+
+    const patchRule = (id: string, patch: Partial<WatcherRule>) =>
+        updateRules(rules.map(rule => (rule.id === id ? { ...rule, ...patch, updatedAt: Date.now() } : rule)));
+
+    const startNewRule = (subject: WatcherSubject) => {
+        const rule: WatcherRule = {
+            id: `${subject}-${Date.now().toString(36)}`,
+            subject,
+            label: '',
+            enabled: true,
+            severity: 'warn',
+            condition: NEW_RULE_CONDITION,
+            message: '',
+            remediation: ''
+        };
+        setEditing({ rule, conditionText: JSON.stringify(rule.condition, null, 2) });
+        setError(null);
+    };
+
+    const applyEdit = () => {
+        if (!editing) return;
+        let condition: WatcherCondition;
+        try {
+            condition = JSON.parse(editing.conditionText);
+        } catch {
+            setError('Condition must be valid JSON.');
+            return;
+        }
+        const rule = { ...editing.rule, condition, updatedAt: Date.now() };
+        const problem = validateWatcherRule(rule);
+        if (problem) {
+            setError(problem);
+            return;
+        }
+        const exists = rules.some(existing => existing.id === rule.id);
+        updateRules(exists ? rules.map(existing => (existing.id === rule.id ? rule : existing)) : [...rules, rule]);
+        setEditing(null);
+        setError(null);
+    };
+
+    const handleDryRun = async () => {
+        setIsRunning(true);
+        try {
+            const observations = await getWatcherObservations();
+            setReport(dryRunWatcherPolicy(rules, observations));
+        } catch (runError) {
+            console.error('Watcher dry run failed:', runError);
+            showToast('Dry run failed.', 'error');
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const handleSave = async () => {
+        const problem = rules.map(validateWatcherRule).find(Boolean);
+        if (problem) {
+            setError(problem);
+            return;
+        }
+        await saveWatcherRules(rules);
+        showToast('Watcher policy saved', 'success');
+        setReport(null);
+    };
+
+    const handleReset = async () => {
+        if (!window.confirm('Replace the current policy with the default rules?')) return;
+        await resetWatcherRules();
+        setReport(null);
+    };
+
+    return (
+        <div className="bg-[#1e1f20] p-6 rounded-lg border border-gray-700">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-200">Watcher Policy</h3>
+                    <p className="text-sm text-gray-400 mt-1">Rules the Watcher checks before XP awards, DMs, performer responses and memory writes. Block rules stop the action; warn rules let it through and record the flag. Dry-run a change against recorded history before saving it.</p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                    <button
+                        onClick={handleReset}
+                        className="px-3 py-1.5 rounded-lg border border-gray-600 text-sm text-gray-300 hover:bg-gray-700"
+                    >
+                        Restore defaults
+                    </button>
+                    <button
+                        onClick={handleDryRun}
+                        disabled={isRunning}
+                        className="px-3 py-1.5 rounded-lg border border-gray-600 text-sm text-gray-300 hover:bg-gray-700 disabled:opacity-60"
+                    >
+                        {isRunning ? 'Running…' : 'Dry run'}
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!dirty}
+                        className="px-3 py-1.5 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                        Save policy
+                    </button>
+                </div>
+            </div>
+
+            {error && !editing && <p className="mt-3 text-sm text-red-400">{error}</p>}
+
+            {report && (
+                <div className="mt-4 bg-[#161719] border border-gray-700 rounded-lg p-4 text-sm">
+                    <p className="text-gray-300">
+                        Re-evaluated {report.evaluated} recorded events: {report.before.block} → {report.after.block} blocked, {report.before.warn} → {report.after.warn} warned.
+                        {report.changes.length === 0 ? ' No verdicts change.' : ` ${report.changes.length} would change.`}
+                    </p>
+                    {report.changes.length > 0 && (
+                        <ul className="mt-2 space-y-1 text-xs text-gray-400 max-h-48 overflow-y-auto">
+                            {report.changes.slice(0, 50).map(change => (
+                                <li key={change.observation.id} className="flex items-start justify-between gap-3">
+                                    <span className="truncate">{observationLabel(change.observation)}</span>
+                                    <span className="flex-shrink-0 uppercase">{change.before} → {change.after.status}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            <div className="mt-4 space-y-5">
+                {WATCHER_SUBJECTS.map(subject => {
+                    const subjectRules = rules.filter(rule => rule.subject === subject.value);
+                    return (
+                        <div key={subject.value}>
+                            <div className="flex items-center justify-between">
+                                <h4 className="text-sm font-semibold text-gray-300">{subject.label}</h4>
+                                <button
+                                    onClick={() => startNewRule(subject.value)}
+                                    className="flex items-center gap-1 text-xs text-gray-400 hover:text-gray-200"
+                                >
+                                    <PlusIcon className="w-3 h-3" /> Add rule
+                                </button>
+                            </div>
+                            <p className="text-[11px] text-gray-500">Fields: {subject.fields.join(', ')}</p>
+                            <ul className="mt-2 space-y-2">
+                                {subjectRules.map(rule => (
+                                    <li key={rule.id} className={`flex items-center justify-between gap-3 bg-[#161719] border border-gray-700 rounded-lg p-3 ${rule.enabled ? '' : 'opacity-60'}`}>
+                                        <div className="min-w-0">
+                                            <div className="text-sm font-semibold text-gray-200">{rule.label}</div>
+                                            <p className="text-xs text-gray-500 truncate">{describeCondition(rule.condition)}</p>
+                                        </div>
+                                        <div className="flex items-center gap-2 flex-shrink-0">
+                                            <select
+                                                value={rule.severity}
+                                                onChange={event => patchRule(rule.id, { severity: event.target.value as WatcherRule['severity'] })}
+                                                className="bg-[#2a2b2c] text-gray-300 rounded-md px-2 py-1 border border-gray-600 text-xs"
+                                            >
+                                                <option value="warn">Warn</option>
+                                                <option value="block">Block</option>
+                                            </select>
+                                            <label className="flex items-center gap-1 text-xs text-gray-400">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={rule.enabled}
+                                                    onChange={event => patchRule(rule.id, { enabled: event.target.checked })}
+                                                />
+                                                On
+                                            </label>
+                                            <button
+                                                onClick={() => {
+                                                    setEditing({ rule, conditionText: JSON.stringify(rule.condition, null, 2) });
+                                                    setError(null);
+                                                }}
+                                                aria-label={`Edit ${rule.label}`}
+                                                className="p-1.5 text-gray-400 hover:text-gray-200"
+                                            >
+                                                <EditIcon className="w-4 h-4" />
+                                            </button>
+                                            <button
+                                                onClick={() => updateRules(rules.filter(existing => existing.id !== rule.id))}
+                                                aria-label={`Delete ${rule.label}`}
+                                                className="p-1.5 text-gray-400 hover:text-red-400"
+                                            >
+                                                <TrashIcon className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {editing && (
+                <div className="mt-4 space-y-3 bg-[#161719] border border-gray-700 rounded-lg p-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <input
+                            value={editing.rule.label}
+                            onChange={event => setEditing({ ...editing, rule: { ...editing.rule, label: event.target.value } })}
+                            placeholder="Label"
+                            className={inputClass}
+                        />
+                        <input
+                            value={editing.rule.id}
+                            disabled={rules.some(rule => rule.id === editing.rule.id)}
+                            onChange={event => setEditing({ ...editing, rule: { ...editing.rule, id: event.target.value } })}
+                            placeholder="Rule id"
+                            className={`${inputClass} disabled:opacity-60`}
+                        />
+                    </div>
+                    <input
+                        value={editing.rule.message}
+                        onChange={event => setEditing({ ...editing, rule: { ...editing.rule, message: event.target.value } })}
+                        placeholder="Message, e.g. Response length {value} exceeds {limit}."
+                        className={inputClass}
+                    />
+                    <input
+                        value={editing.rule.remediation}
+                        onChange={event => setEditing({ ...editing, rule: { ...editing.rule, remediation: event.target.value } })}
+                        placeholder="Remediation shown alongside the flag"
+                        className={inputClass}
+                    />
+                    <textarea
+                        value={editing.conditionText}
+                        onChange={event => setEditing({ ...editing, conditionText: event.target.value })}
+                        placeholder='{"type": "compare", "field": "length", "operator": "gt", "value": 1000}'
+                        className={`${inputClass} h-32 resize-y font-mono text-xs`}
+                        spellCheck={false}
+                    />
+                    <p className="text-xs text-gray-500">Condition types: compare, empty, pattern, has_duplicates, fields_equal, window_sum, window_count, recent_duplicate. Window conditions take an optional where filter, e.g. {'"where": {"field": "origin", "equals": "autonomous"}'}.</p>
+                    {error && <p className="text-sm text-red-400">{error}</p>}
+                    <div className="flex justify-end gap-2">
+                        <button
+                            onClick={() => {
+                                setEditing(null);
+                                setError(null);
+                            }}
+                            className="px-4 py-2 rounded-lg border border-gray-600 text-sm text-gray-300 hover:bg-gray-700"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={applyEdit}
+                            className="px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700 transition-colors"
+                        >
+                            Apply
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default WatcherPolicySettings;
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { MissionDefinition, XpTransaction, XpTransactionKind } from '../types';
+import { getRecentXpTransactions } from '../services/db';
+import { rederivePlayerProgress, voidXpTransaction } from '../services/progressionEngine';
+import { SKILL_BRANCHES } from '../services/skills';
+
+interface XpLedgerPanelProps {
+  definitions: MissionDefinition[];
+  onProgressChange: () => void;
+}
+
+const KIND_LABELS: Record<XpTransactionKind, string> = {
+  award: 'Award',
+  mission_reward: 'Mission reward',
+  grant: 'Grant',
+  opening_balance: 'Opening balance',
+  reversal: 'Reversal'
+};
+
+const VERDICT_STYLES: Record<string, string> = {
+  ok: 'border-emerald-500/40 bg-emerald-500/10 text-emerald-200',
+  warn: 'border-amber-500/40 bg-amber-500/10 text-amber-200',
+  block: 'border-red-500/40 bg-red-500/10 text-red-200'
+};
+
+const XpLedgerPanel: React.FC<XpLedgerPanelProps> = ({ definitions, onProgressChange }) => {
+  const [transactions, setTransactions] = useState<XpTransaction[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = () => {
+      getRecentXpTransactions(60)
+        .then(setTransactions)
+        .catch(error => console.error('Failed to load XP ledger:', error));
+    };
+    load();
+    window.addEventListener('xp-ledger-updated', load);
+    return () => window.removeEventListener('xp-ledger-updated', load);
+  }, []);
+
+  const missionTitle = (missionId: string) => definitions.find(def => def.id === missionId)?.title ?? missionId;
+
+  const handleVoid = async (transaction: XpTransaction) => {
+    const reason = window.prompt(`Why void this ${KIND_LABELS[transaction.kind].toLowerCase()} of ${transaction.xp} XP?`);
+    if (!reason?.trim()) return;
+    setBusyId(transaction.id);
+    try {
+      const { voided } = await voidXpTransaction(transaction.id, reason.trim());
+      setMessage(voided.length > 1 ? `Voided ${voided.length} transactions, including triggered mission rewards.` : 'Transaction voided.');
+      onProgressChange();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Could not void transaction.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRederive = async () => {
+    setBusyId('rederive');
+    try {
+      const progress = await rederivePlayerProgress();
+      setMessage(`Re-derived ${progress.totalXp} XP from the ledger.`);
+      onProgressChange();
+    } catch (error) {
+      console.error('Failed to re-derive progress:', error);
+      setMessage('Could not re-derive progress.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <section className="rounded-xl border border-gray-800 bg-[#1B1C1F] p-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-blue-300">XP Ledger</h2>
+          <p className="mt-1 text-xs text-gray-500">Every award, grant and reversal. Voiding posts a reversal and re-derives rank and unlocked skills.</p>
+        </div>
+        <button
+          onClick={handleRederive}
+          disabled={busyId !== null}
+          className="rounded-lg border border-gray-700 px-3 py-1.5 text-xs text-gray-300 hover:bg-gray-800 disabled:opacity-60"
+        >
+          {busyId === 'rederive' ? 'Re-deriving…' : 'Re-derive from ledger'}
+        </button>
+      </div>
+      {message && <p className="mt-3 text-xs text-gray-400">{message}</p>}
+      {transactions.length === 0 ? (
+        <p className="mt-3 text-sm text-gray-500">No ledger entries yet.</p>
+      ) : (
+        <ul className="mt-4 space-y-2 text-sm">
+          {transactions.map(transaction => {
+            const inactive = transaction.status !== 'posted';
+            return (
+              <li
+                key={transaction.id}
+                className={`rounded-md border border-gray-800 bg-[#111315] p-3 ${inactive ? 'opacity-60' : ''}`}
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-500">
+                  <span className="uppercase tracking-wider">
+                    {KIND_LABELS[transaction.kind]}
+                    {transaction.branch && ` · ${SKILL_BRANCHES[transaction.branch].title}`}
+                  </span>
+                  <span>{formatDistanceToNow(transaction.timestamp, { addSuffix: true })}</span>
+                </div>
+                <div className="mt-1 flex flex-wrap items-center justify-between gap-2">
+                  <span className={`font-semibold ${transaction.xp < 0 ? 'text-red-300' : 'text-gray-200'} ${inactive ? 'line-through' : ''}`}>
+                    {transaction.xp >= 0 ? '+' : ''}{transaction.xp} XP
+                  </span>
+                  <div className="flex items-center gap-2">
+                    {transaction.watcherVerdict && (
+                      <span
+                        title={transaction.watcherVerdict.reasons.join('\n')}
+                        className={`rounded-full border px-2 py-0.5 text-[10px] uppercase ${VERDICT_STYLES[transaction.watcherVerdict.status] ?? ''}`}
+                      >
+                        Watcher: {transaction.watcherVerdict.status}
+                      </span>
+                    )}
+                    {inactive && (
+                      <span className="rounded-full border border-gray-700 px-2 py-0.5 text-[10px] uppercase text-gray-400">{transaction.status}</span>
+                    )}
+                    {transaction.status === 'posted' && transaction.kind !== 'reversal' && (
+                      <button
+                        onClick={() => handleVoid(transaction)}
+                        disabled={busyId !== null}
+                        className="rounded-md border border-red-500/40 px-2 py-0.5 text-[11px] text-red-300 hover:bg-red-500/10 disabled:opacity-60"
+                      >
+                        {busyId === transaction.id ? 'Voiding…' : 'Void'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <p className="mt-1 text-xs text-gray-400">{transaction.reason}</p>
+                {transaction.missionId && (
+                  <p className="mt-1 text-[11px] text-emerald-300">Mission: {missionTitle(transaction.missionId)}</p>
+                )}
+                {transaction.voidReason && (
+                  <p className="mt-1 text-[11px] text-gray-500">Voided: {transaction.voidReason}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default XpLedgerPanel;
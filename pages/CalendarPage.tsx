@@ -1,8 +1,9 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { JournalEntry, PerformerProfile, PerformerMemory } from '../types';
-import { getAllJournalEntries, getAllPerformers, getPerformerMemories, upsertJournalEntry } from '../services/db';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { CalendarEvent, JournalEntry, PerformerProfile, PerformerMemory } from '../types';
+import { deleteCalendarEvent, getAllJournalEntries, getAllPerformers, getCalendarEvents, getPerformerMemories, upsertJournalEntry } from '../services/db';
+import { CalendarOccurrence, downloadCalendarIcs, expandAllOccurrences, importIcsCalendar } from '../services/calendarEvents';
 import JournalModal from '../components/JournalModal';
-import { ChevronLeftIcon, ChevronRightIcon } from '../components/icons/Icons';
+import { ChevronLeftIcon, ChevronRightIcon, TrashIcon } from '../components/icons/Icons';
 import { 
     format, 
     startOfMonth, 
@@ -15,15 +16,20 @@ import {
     isSameDay, 
     isToday,
     parseISO,
-    differenceInDays
+    differenceInDays,
+    addDays
 } from 'date-fns';
 
 type ViewMode = 'calendar' | 'timeline';
 
+// Recurring events are expanded this far around the visible month for the timeline.
+const TIMELINE_LOOKBACK_DAYS = 365;
+const TIMELINE_LOOKAHEAD_DAYS = 90;
+
 interface TimelineEvent {
     date: Date;
-    type: 'journal' | 'memory';
-    data: JournalEntry | PerformerMemory;
+    type: 'journal' | 'memory' | 'event';
+    data: JournalEntry | PerformerMemory | CalendarOccurrence;
     performerId?: string;
 }
 
@@ -36,18 +42,23 @@ const CalendarPage: React.FC = () => {
     const [selectedDate, setSelectedDate] = useState<Date | null>(null);
     const [viewMode, setViewMode] = useState<ViewMode>('calendar');
     const [isLoading, setIsLoading] = useState(true);
+    const [calendarEvents, setCalendarEvents] = useState<CalendarEvent[]>([]);
+    const [icsStatus, setIcsStatus] = useState<{ tone: 'success' | 'error'; message: string } | null>(null);
+    const icsInputRef = useRef<HTMLInputElement>(null);
     
     const fetchData = async () => {
         setIsLoading(true);
         try {
-            const [allEntries, allPerformers] = await Promise.all([
+            const [allEntries, allPerformers, allEvents] = await Promise.all([
                 getAllJournalEntries(),
-                getAllPerformers()
+                getAllPerformers(),
+                getCalendarEvents()
             ]);
             
             const entriesMap = new Map<string, JournalEntry>(allEntries.map(entry => [entry.date, entry]));
             setEntries(entriesMap);
             setPerformers(allPerformers);
+            setCalendarEvents(allEvents);
 
             // Fetch memories for each performer
             const memoriesMap = new Map<string, PerformerMemory[]>();
@@ -68,9 +79,11 @@ const CalendarPage: React.FC = () => {
         const listener = () => fetchData();
         window.addEventListener('memories-updated', listener);
         window.addEventListener('performer-interactions-updated', listener as EventListener);
+        window.addEventListener('calendar-events-updated', listener);
         return () => {
             window.removeEventListener('memories-updated', listener);
             window.removeEventListener('performer-interactions-updated', listener as EventListener);
+            window.removeEventListener('calendar-events-updated', listener);
         };
     }, []);
 
@@ -121,8 +134,22 @@ const CalendarPage: React.FC = () => {
             });
         }
 
+        // Add scheduled events, expanding recurrences; a performer filter keeps events they attend
+        const rangeStart = Math.min(startOfWeek(firstDayOfMonth).getTime(), addDays(new Date(), -TIMELINE_LOOKBACK_DAYS).getTime());
+        const rangeEnd = Math.max(endOfWeek(lastDayOfMonth).getTime(), addDays(new Date(), TIMELINE_LOOKAHEAD_DAYS).getTime());
+        const visibleEvents = selectedPerformer === 'all'
+            ? calendarEvents
+            : calendarEvents.filter(event => event.attendees.some(attendee => attendee.refId === selectedPerformer));
+        expandAllOccurrences(visibleEvents, rangeStart, rangeEnd).forEach((occurrence) => {
+            events.push({
+                date: new Date(occurrence.start),
+                type: 'event',
+                data: occurrence
+            });
+        });
+
         return events.sort((a, b) => a.date.getTime() - b.date.getTime());
-    }, [entries, performerMemories, selectedPerformer]);
+    }, [entries, performerMemories, selectedPerformer, calendarEvents, firstDayOfMonth, lastDayOfMonth]);
 
     const getEventsForDate = (date: Date): TimelineEvent[] => {
         return timelineEvents.filter(event => isSameDay(event.date, date));
@@ -141,6 +168,32 @@ const CalendarPage: React.FC = () => {
         setSelectedDate(null);
     };
 
+    const handleIcsImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const summary = await importIcsCalendar(await file.text());
+            setIcsStatus({
+                tone: 'success',
+                message: `Imported ${summary.added} new, updated ${summary.updated}, ${summary.skipped} unchanged.`
+            });
+        } catch (error) {
+            setIcsStatus({ tone: 'error', message: error instanceof Error ? error.message : 'Import failed.' });
+        }
+    };
+
+    const handleDeleteEvent = async (calendarEvent: CalendarEvent) => {
+        const label = calendarEvent.recurrence ? `every occurrence of "${calendarEvent.title}"` : `"${calendarEvent.title}"`;
+        if (!window.confirm(`Delete ${label}?`)) return;
+        await deleteCalendarEvent(calendarEvent.id);
+    };
+
+    const formatEventTime = (occurrence: CalendarOccurrence): string => {
+        if (occurrence.event.allDay) return 'All day';
+        return `${format(occurrence.start, 'h:mm a')} – ${format(occurrence.end, 'h:mm a')}`;
+    };
+
     const getPerformerName = (performerId: string): string => {
         return performers.find(p => p.id === performerId)?.name || 'Unknown';
     };
@@ -197,8 +250,31 @@ const CalendarPage: React.FC = () => {
                     >
                         📜 Timeline
                     </button>
+                    <button
+                        onClick={() => icsInputRef.current?.click()}
+                        className="px-4 py-2 rounded-lg text-sm font-medium bg-[#1e1f20] text-gray-400 hover:text-gray-200 border border-gray-700 hover:border-gray-600 transition-all duration-200"
+                    >
+                        Import .ics
+                    </button>
+                    <button
+                        onClick={() => downloadCalendarIcs(calendarEvents)}
+                        disabled={calendarEvents.length === 0}
+                        className="px-4 py-2 rounded-lg text-sm font-medium bg-[#1e1f20] text-gray-400 hover:text-gray-200 border border-gray-700 hover:border-gray-600 transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        Export .ics
+                    </button>
+                    <input
+                        ref={icsInputRef}
+                        type="file"
+                        accept="text/calendar,.ics"
+                        className="hidden"
+                        onChange={handleIcsImport}
+                    />
                 </div>
             </div>
+            {icsStatus && (
+                <p className={`-mt-3 text-sm ${icsStatus.tone === 'success' ? 'text-green-400' : 'text-red-400'}`}>{icsStatus.message}</p>
+            )}
 
             {/* Performer Filter */}
             <div className="flex items-center gap-2 flex-wrap">
@@ -273,6 +349,7 @@ const CalendarPage: React.FC = () => {
                             const isCurrentMonth = day.getMonth() === currentDate.getMonth();
                             const dayEvents = getEventsForDate(day);
                             const hasPerformerMemory = dayEvents.some(e => e.type === 'memory' && (selectedPerformer === 'all' || e.performerId === selectedPerformer));
+                            const dayOccurrences = dayEvents.filter(e => e.type === 'event').map(e => e.data as CalendarOccurrence);
                             const isTodayDate = isToday(day);
 
                             return (
@@ -295,6 +372,19 @@ const CalendarPage: React.FC = () => {
                                         {hasJournalEntry && (
                                             <div className="w-full h-1.5 bg-gradient-to-r from-blue-500 to-purple-500 rounded-full shadow-sm" title="Journal entry"></div>
                                         )}
+                                        {dayOccurrences.slice(0, 2).map(occurrence => (
+                                            <div
+                                                key={`${occurrence.event.id}-${occurrence.start}`}
+                                                className="truncate rounded px-1.5 py-0.5 text-[10px] bg-emerald-900/40 text-emerald-200 border border-emerald-600/30"
+                                                title={`${occurrence.event.title} · ${formatEventTime(occurrence)}`}
+                                            >
+                                                {!occurrence.event.allDay && <span className="text-emerald-400">{format(occurrence.start, 'HH:mm')} </span>}
+                                                {occurrence.event.title}
+                                            </div>
+                                        ))}
+                                        {dayOccurrences.length > 2 && (
+                                            <span className="text-[10px] text-gray-500">+{dayOccurrences.length - 2} more</span>
+                                        )}
                                         {hasPerformerMemory && (
                                             <div className="flex gap-1 flex-wrap">
                                                 {dayEvents
@@ -340,6 +430,68 @@ const CalendarPage: React.FC = () => {
                             
                             <div className="space-y-6 pb-8">
                                 {timelineEvents.map((event, index) => {
+                                    if (event.type === 'event') {
+                                        const occurrence = event.data as CalendarOccurrence;
+                                        const scheduled = occurrence.event;
+                                        return (
+                                            <div key={`event-${scheduled.id}-${occurrence.start}`} className="relative pl-20 animate-in fade-in slide-in-from-left-2">
+                                                <div className="absolute left-6 w-4 h-4 rounded-full border-4 border-[#0a0b0c] bg-gradient-to-r from-emerald-500 to-teal-500 shadow-lg"></div>
+                                                <div className="bg-gradient-to-br from-[#1e1f20] to-[#141517] rounded-lg border border-emerald-500/30 shadow-lg shadow-emerald-500/10 p-5">
+                                                    <div className="flex items-start justify-between gap-4 mb-3">
+                                                        <div className="flex items-center gap-3">
+                                                            <div className="text-2xl text-emerald-400">🗓️</div>
+                                                            <div>
+                                                                <div className="flex items-center gap-2">
+                                                                    <h3 className="font-semibold text-gray-200">{scheduled.title}</h3>
+                                                                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-900/30 text-emerald-200 border border-emerald-600/30">
+                                                                        Event
+                                                                    </span>
+                                                                    {scheduled.recurrence && (
+                                                                        <span className="px-2 py-0.5 rounded-full text-xs text-gray-400 border border-gray-700">
+                                                                            Repeats {scheduled.recurrence.interval > 1 ? `every ${scheduled.recurrence.interval} ` : ''}{scheduled.recurrence.frequency}
+                                                                        </span>
+                                                                    )}
+                                                                </div>
+                                                                <p className="text-xs text-gray-500 mt-1">
+                                                                    {format(occurrence.start, 'MMMM d, yyyy')} • {formatEventTime(occurrence)}
+                                                                    {scheduled.location ? ` • ${scheduled.location}` : ''}
+                                                                </p>
+                                                            </div>
+                                                        </div>
+                                                        <button
+                                                            onClick={() => handleDeleteEvent(scheduled)}
+                                                            aria-label={`Delete ${scheduled.title}`}
+                                                            className="p-1.5 text-gray-500 hover:text-red-400"
+                                                        >
+                                                            <TrashIcon className="w-4 h-4" />
+                                                        </button>
+                                                    </div>
+                                                    {scheduled.description && (
+                                                        <p className="text-gray-300 text-sm leading-relaxed whitespace-pre-wrap">{scheduled.description}</p>
+                                                    )}
+                                                    {scheduled.attendees.length > 0 && (
+                                                        <div className="mt-3 flex flex-wrap gap-2">
+                                                            {scheduled.attendees.map(attendee => (
+                                                                <span
+                                                                    key={attendee.name}
+                                                                    className={`px-2 py-1 rounded-md text-xs border ${
+                                                                        attendee.kind === 'performer'
+                                                                            ? 'bg-pink-900/20 text-pink-300 border-pink-600/30'
+                                                                            : attendee.kind === 'client'
+                                                                                ? 'bg-blue-900/20 text-blue-300 border-blue-600/30'
+                                                                                : 'bg-gray-800 text-gray-400 border-gray-700'
+                                                                    }`}
+                                                                >
+                                                                    {attendee.kind === 'performer' && attendee.refId ? `${getPerformerIcon(attendee.refId)} ` : ''}{attendee.name}
+                                                                </span>
+                                                            ))}
+                                                        </div>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        );
+                                    }
+
                                     const isJournal = event.type === 'journal';
                                     const memory = isJournal ? null : event.data as PerformerMemory;
                                     const journal = isJournal ? event.data as JournalEntry : null;
@@ -1,27 +1,33 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import ChatInput, { ActiveFeatures } from '../components/ChatInput';
+import ChatInput, { ActiveFeatures, defaultFeatures } from '../components/ChatInput';
 import ChatMessage from '../components/ChatMessage';
 import EscortToolbar from '../components/EscortToolbar';
-import { EscortResult } from '../services/escorts';
+import { EscortResult, continueClarifier, getClarifierSession, ClarifierSession } from '../services/escorts';
 import SuggestionChip from '../components/SuggestionChip';
-import { ChatMessage as ChatMessageType, ConversationThread, PerformerProfile, PerformerInteractionEvent, Memory, DramaEvent, SkillBranchId, ExperienceEventType, PlayerProgress, SkillReward, MissionSummary, IntelligenceFollowUp, FollowUpStatus } from '../types';
+import { ChatMessage as ChatMessageType, ConversationThread, PerformerProfile, PerformerInteractionEvent, Memory, DramaEvent, SkillBranchId, ExperienceEventType, PlayerProgress, SkillReward, MissionSummary, IntelligenceFollowUp, FollowUpStatus, EscortPipelineRun } from '../types';
 import { generateAgentResponse, summarizeConversationForThread, generatePerformerResponse, rewriteUserPrompt } from '../services/aiService';
-import { addMemory, addPerformerMemory, addPerformerInteractionEvents, getAllJournalEntries, saveThread, getJournalEntry, upsertJournalEntry, getAllPerformers, getAllThreads, getAllMemories, getTagScores, getPlayerProgress, getFollowUps, updateFollowUp } from '../services/db';
+import { addMemory, addPerformerMemory, addPerformerInteractionEvents, getAllJournalEntries, saveThread, getJournalEntry, upsertJournalEntry, getAllPerformers, getAllThreads, getAllMemories, getTagScores, getPlayerProgress, getFollowUps } from '../services/db';
 import { processMemory, applyProcessingResult } from '../services/memoryProcessor';
 import { showToast } from '../components/Toast';
 import { analyzeRelationshipDynamics, applyRelationshipAnalysis } from '../services/relationshipEngine';
+import { recordSecretLeaksFromMessage } from '../services/gossipNetwork';
 import DramaNotification from '../components/DramaNotification';
 import SocialAlert from '../components/SocialAlert';
 import { BirdIcon } from '../components/icons/Icons';
 import { format } from 'date-fns';
-import { calculateSentimentScore, detectNarrativeTags, collectIntrigueTags, buildKeywordSet, generateSocialSignals, SocialSignal, HIGH_INTRIGUE_THRESHOLD, addKeywordsFromText } from '../services/socialSignals';
+import { collectIntrigueTags, buildKeywordSet, generateSocialSignals, SocialSignal, HIGH_INTRIGUE_THRESHOLD, addKeywordsFromText } from '../services/socialSignals';
+import { analyzeText } from '../services/textAnalysis';
 import MissionSidebar from '../components/MissionSidebar';
 import IntelligenceFeed from '../components/IntelligenceFeed';
 import FollowUpPanel from '../components/FollowUpPanel';
 import { awardExperience, getMissionSummary } from '../services/progressionEngine';
+import { auditMemoryWrite, auditPerformerResponse, noteWatcherVerdict } from '../services/watcher';
+import { setFollowUpStatus } from '../services/followUps';
 import { getRankForXp, SKILL_BRANCHES } from '../services/skills';
-import { getIntelligenceLog, IntelligenceRecord } from '../services/intelligenceLog';
+import { countIntelligenceLog } from '../services/intelligenceLog';
+import { findSimilar, hybridRank, similarityMap } from '../services/embeddings';
+import { reinforceRecalledMemories } from '../services/memoryConsolidation';
 
 declare global {
     interface Window {
@@ -31,6 +37,8 @@ declare global {
 
 const CHAT_CACHE_KEY = '__sylviaChatCache';
 const CHAT_HISTORY_STORAGE_KEY = 'chatHistory';
+// Below this cosine similarity a memory with no lexical overlap is treated as unrelated.
+const MIN_CONTEXT_SIMILARITY = 0.35;
 const sortThreadsByRecency = (threads: ConversationThread[]) =>
     [...threads].sort(
         (a, b) => (b.updatedAt ?? b.createdAt ?? 0) - (a.updatedAt ?? a.createdAt ?? 0)
@@ -243,19 +251,23 @@ const ChatPage: React.FC = () => {
     const [socialSignals, setSocialSignals] = useState<SocialSignal[]>([]);
     const [playerProgress, setPlayerProgress] = useState<PlayerProgress | null>(null);
     const [missionSummary, setMissionSummary] = useState<MissionSummary | null>(null);
-    const [intelligenceRecords, setIntelligenceRecords] = useState<IntelligenceRecord[]>([]);
+    const [intelligenceCount, setIntelligenceCount] = useState(0);
     const [followUps, setFollowUps] = useState<IntelligenceFollowUp[]>([]);
     const [xpToasts, setXpToasts] = useState<Array<{ id: string; branch: SkillBranchId; xp: number; type: ExperienceEventType }>>([]);
     const [followUpToasts, setFollowUpToasts] = useState<Array<{ id: string; title: string; category: string }>>([]);
     const [rankCelebration, setRankCelebration] = useState<{ title: string; xp: number } | null>(null);
     const [isContextPanelOpen, setIsContextPanelOpen] = useState(false);
     const [escortResults, setEscortResults] = useState<Map<string, { result: EscortResult; escortName: string }>>(new Map());
+    const [dismissedClarifierIds, setDismissedClarifierIds] = useState<Set<string>>(new Set());
     const [isMissionSidebarOpen, setIsMissionSidebarOpen] = useState(false);
     const [isIntelligenceFeedOpen, setIsIntelligenceFeedOpen] = useState(false);
     const [isFollowUpPanelOpen, setIsFollowUpPanelOpen] = useState(false);
     const [dramaNotifications, setDramaNotifications] = useState<DramaEvent[]>([]);
     const chatEndRef = useRef<HTMLDivElement>(null);
     const followUpsLoadedRef = useRef(false);
+    const generationAbortRef = useRef<AbortController | null>(null);
+    // Toggles from the last send, reused when sending on the user's behalf
+    const lastFeaturesRef = useRef<ActiveFeatures>(defaultFeatures);
 
     const unlockedToggleFeatures = useMemo(() => {
         if (!playerProgress) return new Set<string>();
@@ -365,7 +377,7 @@ const ChatPage: React.FC = () => {
         getMissionSummary()
             .then(summary => setMissionSummary(summary))
             .catch(error => console.error('Failed to load mission summary:', error));
-        setIntelligenceRecords(getIntelligenceLog());
+        countIntelligenceLog().then(setIntelligenceCount).catch(console.error);
         getFollowUps()
             .then(tasks => {
                 setFollowUps(tasks);
@@ -379,7 +391,7 @@ const ChatPage: React.FC = () => {
         };
 
         const handleIntelUpdate = () => {
-            setIntelligenceRecords(getIntelligenceLog());
+            countIntelligenceLog().then(setIntelligenceCount).catch(console.error);
         };
 
         const handleFollowUpsUpdated = () => {
@@ -389,7 +401,7 @@ const ChatPage: React.FC = () => {
                         const previousIds = new Set(prev.map(task => task.id));
                         const newTasks = latest.filter(task => !previousIds.has(task.id));
                         if (followUpsLoadedRef.current && newTasks.length > 0) {
-                            const highPriority = newTasks.filter(task => task.priority === 'high');
+                            const highPriority = newTasks.filter(task => task.priority === 'high' || task.priority === 'urgent');
                             // Removed automatic panel opening - user can open manually via button
                             highPriority.forEach(task => pushFollowUpToast(task.title, task.category));
                         }
@@ -415,8 +427,12 @@ const ChatPage: React.FC = () => {
         chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [messages]);
 
+    useEffect(() => () => generationAbortRef.current?.abort(), []);
+
     useEffect(() => {
         if (typeof window === 'undefined') return;
+        // Streamed replies change on every chunk; persist once they settle.
+        if (messages.some(msg => msg.streaming)) return;
         window[CHAT_CACHE_KEY] = messages;
         try {
             window.localStorage.setItem(CHAT_HISTORY_STORAGE_KEY, JSON.stringify(messages));
@@ -535,7 +551,9 @@ const ChatPage: React.FC = () => {
 
     const handleUpdateFollowUpStatus = async (id: string, status: FollowUpStatus) => {
         try {
-            await updateFollowUp(id, { status });
+            const task = followUps.find(item => item.id === id);
+            if (!task) return;
+            await setFollowUpStatus(task, status);
             setFollowUps(prev =>
                 prev.map(task =>
                     task.id === id ? { ...task, status, updatedAt: Date.now() } : task
@@ -546,10 +564,105 @@ const ChatPage: React.FC = () => {
         }
     };
 
+    const activeClarifier = useMemo<{ messageId: string; session: ClarifierSession } | null>(() => {
+        for (let i = messages.length - 1; i >= 0; i--) {
+            const msg = messages[i];
+            const session = getClarifierSession(msg.metadata?.escortResult as EscortResult | undefined);
+            if (!session) continue;
+            if (session.status !== 'awaiting_input' || dismissedClarifierIds.has(msg.id)) return null;
+            return { messageId: msg.id, session };
+        }
+        return null;
+    }, [messages, dismissedClarifierIds]);
+
+    // The latest Clarifier session once it has resolved, until its prompt is sent or dismissed.
+    const resolvedClarifier = useMemo<{ messageId: string; prompt: string } | null>(() => {
+        for (let i = messages.length - 1; i >= 0; i--) {
+            const msg = messages[i];
+            const session = getClarifierSession(msg.metadata?.escortResult as EscortResult | undefined);
+            if (!session) continue;
+            if (session.status !== 'resolved' || dismissedClarifierIds.has(msg.id)) return null;
+            return { messageId: msg.id, prompt: session.clarifiedPrompt ?? session.originalPrompt };
+        }
+        return null;
+    }, [messages, dismissedClarifierIds]);
+
+    const appendEscortResult = (result: EscortResult, escortName: string) => {
+        const resultId = `escort_${result.timestamp}`;
+        setEscortResults(prev => new Map(prev).set(resultId, { result, escortName }));
+        // Add as a system message for display
+        const escortMessage: ChatMessageType = {
+            id: resultId,
+            role: 'agent',
+            content: `**${escortName} Analysis**\n\n${result.result}`,
+            timestamp: result.timestamp,
+            metadata: { escortResult: result, escortName }
+        };
+        setMessages(prev => [...prev, escortMessage]);
+    };
+
+    const upsertMessage = (message: ChatMessageType) => {
+        setMessages(prev => {
+            const index = prev.findIndex(msg => msg.id === message.id);
+            if (index === -1) return [...prev, message];
+            const next = [...prev];
+            next[index] = message;
+            return next;
+        });
+    };
+
+    const removeMessage = (messageId: string) => {
+        setMessages(prev => prev.filter(msg => msg.id !== messageId));
+    };
+
+    const upsertPipelineMessage = (run: EscortPipelineRun) => {
+        upsertMessage({
+            id: `pipeline_${run.id}`,
+            role: 'agent',
+            content: `**Escort Pipeline** · ${run.name}`,
+            timestamp: run.createdAt,
+            conversationId: run.conversationId ?? undefined,
+            metadata: { escortPipeline: run }
+        });
+    };
+
+    const handleStopGeneration = () => {
+        generationAbortRef.current?.abort();
+    };
+
+    const handleClarifierReply = async (answer: string, session: ClarifierSession) => {
+        setIsLoading(true);
+        const now = Date.now();
+        setMessages(prev => [...prev, {
+            id: now.toString(),
+            role: 'user',
+            content: answer,
+            timestamp: now,
+            conversationId: activeThreadMeta?.id ?? sessionId
+        }]);
+        try {
+            const result = await continueClarifier(session, answer);
+            appendEscortResult(result, 'The Clarifier');
+        } catch (error) {
+            console.error('Clarifier follow-up failed:', error);
+            showToast(error instanceof Error ? error.message : 'Clarifier failed to respond.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
     const handleSendMessage = async (message: string, features: ActiveFeatures, image: File | null, speakerPersonaId: string | null) => {
         if (!message && !image) return;
+        lastFeaturesRef.current = features;
+
+        if (activeClarifier && message && !image) {
+            await handleClarifierReply(message, activeClarifier.session);
+            return;
+        }
 
         setIsLoading(true);
+        const controller = new AbortController();
+        generationAbortRef.current = controller;
 
         const now = Date.now();
         const userMessageId = now.toString();
@@ -643,14 +756,24 @@ const ChatPage: React.FC = () => {
             const prioritizedTagSet = new Set(prioritizedTags);
             setContextTags(prioritizedTags.map(tag => ({ tag, weight: tagWeightMap.get(tag) ?? 0 })));
 
-            // Score all memories
-            const scoredMemories = allMemories
-                .map(memory => ({
-                    memory,
-                    score: scoreMemoryForContext(memory, keywordSet, tagWeightMap, prioritizedTagSet)
-                }))
-                .filter(item => item.score > 0)
-                .sort((a, b) => b.score - a.score);
+            // Score all memories: lexical/tag signals blended with embedding similarity
+            let memorySimilarity = new Map<string, number>();
+            try {
+                const hits = await findSimilar(processedMessage, { sourceTypes: ['memory'], limit: allMemories.length });
+                memorySimilarity = similarityMap(hits, 'memory');
+            } catch (error) {
+                console.warn('Vector retrieval unavailable, falling back to lexical ranking:', error);
+            }
+            const scoredMemories = hybridRank(
+                allMemories.map(memory => ({
+                    item: memory,
+                    key: String(memory.id ?? ''),
+                    lexicalScore: scoreMemoryForContext(memory, keywordSet, tagWeightMap, prioritizedTagSet)
+                })),
+                memorySimilarity
+            )
+                .filter(item => item.lexicalScore > 0 || item.similarity >= MIN_CONTEXT_SIMILARITY)
+                .map(item => ({ memory: item.item, score: item.score }));
 
             // Separate memories: those with matching tags vs others
             const taggedPriorityMemories = scoredMemories.filter(item =>
@@ -674,6 +797,9 @@ const ChatPage: React.FC = () => {
             // No hard limit - include all unique matching memories
             const contextForPrompt = uniqueContext;
             setContextMemories(contextForPrompt);
+            reinforceRecalledMemories(contextForPrompt).catch(error =>
+                console.error('Failed to record memory recall:', error)
+            );
 
             const performerMessages: ChatMessageType[] = [];
             const interactionEvents: PerformerInteractionEvent[] = [];
@@ -768,8 +894,9 @@ const ChatPage: React.FC = () => {
             }
             userTargets.delete(userSpeakerId);
 
-            const userSentiment = calculateSentimentScore(processedMessage);
-            const userNarrativeTags = detectNarrativeTags(processedMessage);
+            const userAnalysis = await analyzeText(processedMessage);
+            const userSentiment = userAnalysis.sentiment;
+            const userNarrativeTags = [...userAnalysis.narrativeTags];
             if (speakerPersonaId) {
                 userNarrativeTags.push('roleplay');
             }
@@ -796,7 +923,9 @@ const ChatPage: React.FC = () => {
             });
 
             for (const performer of engagedPerformers) {
+                if (controller.signal.aborted) break;
                 const performerFeatures = applyPerformerOverrides(features, performer);
+                const performerMessageId = `${Date.now()}-performer-${performer.id}`;
                 let performerParts: ChatMessageType['agentResponseParts'] | null = null;
                 try {
                     performerParts = await generatePerformerResponse(
@@ -807,18 +936,52 @@ const ChatPage: React.FC = () => {
                         imageBase64,
                         {
                             temporalEntries: latestEntries,
-                            contextMemories: contextForPrompt
+                            contextMemories: contextForPrompt,
+                            signal: controller.signal,
+                            onPartial: parts => upsertMessage({
+                                id: performerMessageId,
+                                role: 'agent',
+                                content: parts.response || '',
+                                agentResponseParts: parts,
+                                streaming: true,
+                                performerId: performer.id,
+                                performerName: performer.name,
+                                performerIcon: performer.icon,
+                                conversationId
+                            })
                         }
                     );
                 } catch (performerError) {
                     console.error('Performer response failed:', performerError);
                 }
 
-                if (!performerParts) continue;
+                if (!performerParts || (performerParts.interrupted && !performerParts.response)) {
+                    removeMessage(performerMessageId);
+                    continue;
+                }
+
+                const responseVerdict = await auditPerformerResponse({
+                    performerId: performer.id,
+                    conversationId,
+                    origin: 'chat',
+                    text: performerParts.response || '',
+                    timestamp: Date.now()
+                }).catch(auditError => {
+                    console.error('Watcher could not audit performer response:', auditError);
+                    return null;
+                });
+                if (responseVerdict?.status === 'block') {
+                    removeMessage(performerMessageId);
+                    showToast(`Watcher held back ${performer.name}: ${responseVerdict.reasons.join(' ')}`, 'warning', 5000);
+                    continue;
+                }
+                if (responseVerdict?.status === 'warn') {
+                    console.warn(`Watcher flagged ${performer.name}'s response:`, responseVerdict.reasons);
+                }
 
                 const performerTimestamp = Date.now();
                 const performerMessage: ChatMessageType = {
-                    id: `${performerTimestamp}-performer-${performer.id}`,
+                    id: performerMessageId,
                     role: 'agent',
                     content: performerParts.response || `${performer.name} is still formulating ideas.`,
                     agentResponseParts: performerParts,
@@ -831,23 +994,37 @@ const ChatPage: React.FC = () => {
                 };
 
                 performerMessages.push(performerMessage);
-                setMessages(prev => [...prev, performerMessage]);
+                upsertMessage(performerMessage);
                 historyForModel.push(performerMessage);
 
                 if (performerParts.memory && performer.memoryEnabled !== false && performerFeatures.useMemory) {
                     try {
-                        await addPerformerMemory({
+                        const transcriptSnippet = [
+                            speakerPersonaNameOrYou(speakerPersona, deliveredUserContent),
+                            `${performer.name}: ${performerParts.response || ''}`
+                        ].join('\n\n');
+                        const memoryVerdict = await auditMemoryWrite({
+                            scope: 'performer',
                             performerId: performer.id,
-                            timestamp: performerTimestamp,
                             summary: performerParts.memory.summary,
+                            content: transcriptSnippet,
                             tags: performerParts.memory.tags,
-                            transcriptSnippet: [
-                                speakerPersonaNameOrYou(speakerPersona, deliveredUserContent),
-                                `${performer.name}: ${performerParts.response || ''}`
-                            ].join('\n\n'),
-                            relevance: 5,
-                            conversationId
+                            timestamp: performerTimestamp
                         });
+                        if (memoryVerdict.status === 'block') {
+                            console.warn(`Watcher blocked ${performer.name}'s memory:`, memoryVerdict.reasons);
+                        } else {
+                            await addPerformerMemory({
+                                performerId: performer.id,
+                                timestamp: performerTimestamp,
+                                summary: performerParts.memory.summary,
+                                tags: performerParts.memory.tags,
+                                transcriptSnippet,
+                                relevance: 5,
+                                conversationId
+                            });
+                            await noteWatcherVerdict(memoryVerdict);
+                        }
                     } catch (memoryError) {
                         console.error('Failed to capture performer memory:', memoryError);
                     }
@@ -862,7 +1039,8 @@ const ChatPage: React.FC = () => {
                     performerTargets.add(SYLVIA_PARTICIPANT_ID);
                 }
                 const performerContent = performerParts.response || '';
-                const performerNarrativeTags = detectNarrativeTags(performerContent);
+                const performerAnalysis = await analyzeText(performerContent);
+                const performerNarrativeTags = [...performerAnalysis.narrativeTags];
                 const performerIntrigueTags = collectIntrigueTags(performer, Array.from(performerTargets), performerMap);
                 if (performerIntrigueTags.length) {
                     performerNarrativeTags.push('intrigue');
@@ -877,7 +1055,7 @@ const ChatPage: React.FC = () => {
                     targetNames: Array.from(performerTargets).map(getParticipantName),
                     timestamp: performerTimestamp,
                     messageId: performerMessage.id,
-                    sentiment: calculateSentimentScore(performerContent),
+                    sentiment: performerAnalysis.sentiment,
                     narrativeTags: Array.from(new Set(performerNarrativeTags)),
                     intrigueTags: performerIntrigueTags,
                     context: 'public',
@@ -886,11 +1064,27 @@ const ChatPage: React.FC = () => {
             }
 
             let agentResponseParts: ChatMessageType['agentResponseParts'] | null = null;
-            if (!isCoreAgentMuted) {
+            const agentMessageId = `${Date.now()}-agent`;
+            if (!isCoreAgentMuted && !controller.signal.aborted) {
                 agentResponseParts = await generateAgentResponse(processedMessage, historyForModel, features, imageBase64, {
                     temporalEntries: latestEntries,
-                    contextMemories: contextForPrompt
+                    contextMemories: contextForPrompt,
+                    signal: controller.signal,
+                    onPartial: parts => upsertMessage({
+                        id: agentMessageId,
+                        role: 'agent',
+                        content: parts.response || '',
+                        agentResponseParts: parts,
+                        streaming: true,
+                        performerId: null,
+                        performerName: 'Seasuite',
+                        conversationId
+                    })
                 });
+                if (agentResponseParts.interrupted && !agentResponseParts.response) {
+                    removeMessage(agentMessageId);
+                    agentResponseParts = null;
+                }
             }
 
             const agentTimestamp = Date.now();
@@ -901,6 +1095,16 @@ const ChatPage: React.FC = () => {
                         conversationSlices.push(`${resp.performerName || 'Performer'}: ${resp.content}`);
                     });
                     conversationSlices.push(`Seasuite: ${agentResponseParts.response || ''}`);
+                    const memoryVerdict = await auditMemoryWrite({
+                        scope: 'agent',
+                        summary: agentResponseParts.memory.summary,
+                        content: conversationSlices.join('\n\n'),
+                        tags: agentResponseParts.memory.tags,
+                        timestamp: agentTimestamp
+                    });
+                    if (memoryVerdict.status === 'block') {
+                        throw new Error(`Watcher blocked memory: ${memoryVerdict.reasons.join(' ')}`);
+                    }
                     const memoryId = await addMemory({
                         timestamp: agentTimestamp,
                         relevance: 5,
@@ -910,6 +1114,7 @@ const ChatPage: React.FC = () => {
                         knowledgeRefs: performerMessages.map(resp => resp.performerId).filter((id): id is string => Boolean(id)),
                         metaTags: buildMemoryMetaTags(conversationId, performerMessages[0]?.performerId ?? null, features)
                     });
+                    await noteWatcherVerdict(memoryVerdict);
 
                     // Automatically process memory in the background to extract intelligence
                     if (memoryId) {
@@ -930,7 +1135,7 @@ const ChatPage: React.FC = () => {
             let agentMessage: ChatMessageType | null = null;
             if (agentResponseParts) {
                 agentMessage = {
-                    id: agentTimestamp.toString(),
+                    id: agentMessageId,
                     role: 'agent',
                     content: agentResponseParts.response || "I don't have a response for that.",
                     agentResponseParts,
@@ -940,14 +1145,15 @@ const ChatPage: React.FC = () => {
                     collaborators: performerMessages.length ? performerMessages.map(msg => msg.performerName || 'Performer') : undefined,
                     conversationId
                 };
-                setMessages(prev => [...prev, agentMessage]);
+                upsertMessage(agentMessage);
 
                 const sylviaTargets = new Set<string>([USER_PARTICIPANT_ID, ...engagedPerformers.map(p => p.id)]);
                 if (speakerPersona) {
                     sylviaTargets.add(speakerPersona.id);
                 }
                 const sylviaContent = agentResponseParts.response || '';
-                const sylviaNarrativeTags = detectNarrativeTags(sylviaContent);
+                const sylviaAnalysis = await analyzeText(sylviaContent);
+                const sylviaNarrativeTags = [...sylviaAnalysis.narrativeTags];
                 const sylviaIntrigueTags = collectIntrigueTags(null, Array.from(sylviaTargets), performerMap);
                 if (sylviaIntrigueTags.length) {
                     sylviaNarrativeTags.push('intrigue');
@@ -962,7 +1168,7 @@ const ChatPage: React.FC = () => {
                     targetNames: Array.from(sylviaTargets).map(getParticipantName),
                     timestamp: agentTimestamp,
                     messageId: agentMessage.id,
-                    sentiment: calculateSentimentScore(sylviaContent),
+                    sentiment: sylviaAnalysis.sentiment,
                     narrativeTags: Array.from(new Set(sylviaNarrativeTags)),
                     intrigueTags: sylviaIntrigueTags,
                     context: 'public',
@@ -1051,6 +1257,22 @@ const ChatPage: React.FC = () => {
                     } catch (relationshipError) {
                         console.error('Failed to analyze performer relationships:', relationshipError);
                     }
+
+                    try {
+                        const listenerIds = Array.from(new Set([
+                            ...engagedPerformers.map(p => p.id),
+                            ...(perfMsg.collaborators ?? []).map(name => performers.find(p => p.name === name)?.id || '')
+                        ])).filter(id => id && id !== perfMsg.performerId);
+                        const { awards } = await recordSecretLeaksFromMessage({
+                            speakerId: perfMsg.performerId,
+                            listenerIds,
+                            content: perfMsg.content,
+                            messageId: perfMsg.id
+                        });
+                        awards.forEach(award => pushXpToast(award.branch, award.xp, award.type));
+                    } catch (leakError) {
+                        console.error('Failed to check performer message for secret leaks:', leakError);
+                    }
                 }
             }
 
@@ -1063,8 +1285,11 @@ const ChatPage: React.FC = () => {
                 timestamp: Date.now(),
                 conversationId
             };
-            setMessages(prev => [...prev, errorMessage]);
+            setMessages(prev => [...prev.filter(msg => !msg.streaming), errorMessage]);
         } finally {
+            if (generationAbortRef.current === controller) {
+                generationAbortRef.current = null;
+            }
             setIsLoading(false);
         }
     };
@@ -1131,7 +1356,6 @@ const ChatPage: React.FC = () => {
     };
 
     const missionCount = missionSummary?.active.length ?? 0;
-    const intelligenceCount = intelligenceRecords.length;
     const activeFollowUps = followUps.filter(task => task.status !== 'completed').length;
 
     return (
@@ -1145,7 +1369,6 @@ const ChatPage: React.FC = () => {
             )}
             {isIntelligenceFeedOpen && (
                 <IntelligenceFeed
-                    records={intelligenceRecords}
                     onClose={() => setIsIntelligenceFeedOpen(false)}
                 />
             )}
@@ -1433,7 +1656,7 @@ const ChatPage: React.FC = () => {
                     </div>
                 )}
 
-                {isLoading && messages.length > 0 && (
+                {isLoading && messages.length > 0 && !messages.some(msg => msg.streaming) && (
                     <div className="flex items-center gap-4 p-4 animate-in fade-in">
                         <div className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center bg-gradient-to-r from-blue-600 to-purple-600 animate-pulse shadow-lg shadow-blue-500/30">
                             <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
@@ -1447,25 +1670,50 @@ const ChatPage: React.FC = () => {
                 <div ref={chatEndRef} />
             </div>
             <div className="flex-shrink-0">
+                {activeClarifier && (
+                    <div className="mx-4 mb-2 flex items-center justify-between gap-3 rounded-lg border border-purple-500/40 bg-purple-900/20 px-4 py-2 text-sm text-purple-200">
+                        <span>The Clarifier is waiting for your answers — your next message goes to it.</span>
+                        <button
+                            onClick={() => setDismissedClarifierIds(prev => new Set(prev).add(activeClarifier.messageId))}
+                            className="rounded-md border border-purple-500/40 px-2 py-1 text-xs text-purple-200 hover:bg-purple-800/40"
+                        >
+                            End session
+                        </button>
+                    </div>
+                )}
+                {resolvedClarifier && !activeClarifier && (
+                    <div className="mx-4 mb-2 flex items-center justify-between gap-3 rounded-lg border border-purple-500/40 bg-purple-900/20 px-4 py-2 text-sm text-purple-200">
+                        <span className="truncate">The Clarifier resolved your request: "{resolvedClarifier.prompt}"</span>
+                        <div className="flex flex-shrink-0 gap-2">
+                            <button
+                                onClick={() => {
+                                    setDismissedClarifierIds(prev => new Set(prev).add(resolvedClarifier.messageId));
+                                    // Already clarified, so skip the prompt rewrite
+                                    handleSendMessage(resolvedClarifier.prompt, { ...lastFeaturesRef.current, usePromptRewrite: false }, null, null);
+                                }}
+                                disabled={isLoading}
+                                className="rounded-md bg-purple-600 px-2 py-1 text-xs text-white hover:bg-purple-500 disabled:opacity-60"
+                            >
+                                Send clarified request
+                            </button>
+                            <button
+                                onClick={() => setDismissedClarifierIds(prev => new Set(prev).add(resolvedClarifier.messageId))}
+                                className="rounded-md border border-purple-500/40 px-2 py-1 text-xs text-purple-200 hover:bg-purple-800/40"
+                            >
+                                Dismiss
+                            </button>
+                        </div>
+                    </div>
+                )}
                 <EscortToolbar
                     messages={messages}
-                    onEscortResult={(result, escortName) => {
-                        const resultId = `escort_${result.timestamp}`;
-                        setEscortResults(prev => new Map(prev).set(resultId, { result, escortName }));
-                        // Add as a system message for display
-                        const escortMessage: ChatMessageType = {
-                            id: resultId,
-                            role: 'agent',
-                            content: `**${escortName} Analysis**\n\n${result.result}`,
-                            timestamp: result.timestamp,
-                            metadata: { escortResult: result, escortName }
-                        };
-                        setMessages(prev => [...prev, escortMessage]);
-                    }}
+                    onEscortResult={appendEscortResult}
+                    onPipelineUpdate={upsertPipelineMessage}
                 />
                 <ChatInput
                     onSendMessage={handleSendMessage}
                     isLoading={isLoading}
+                    onStop={handleStopGeneration}
                     performers={performers}
                     activePerformerIds={activePerformerIds}
                     onTogglePerformer={togglePerformerEngagement}
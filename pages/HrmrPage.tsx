@@ -7,25 +7,11 @@ import { getAllHrmrRatings, upsertHrmrRating, deleteHrmrRating } from '../servic
 import { searchKnowledge, LibrarianResult } from '../services/librarian';
 import { HrmrRating, HRMR_GRADE_SCALE, HrmrGrade, ChatMessage } from '../types';
 import { StageIcon, RefreshIcon, SearchIcon, GradeIcon, InsightIcon } from '../components/icons/Icons';
+import HrmrDatasetPanel from '../components/HrmrDatasetPanel';
+import { HRMR_GRADE_SCORES } from '../services/hrmrDataset';
 
 const CHAT_HISTORY_STORAGE_KEY = 'chatHistory';
 
-const gradeToScore: Record<string, number> = {
-  'A+': 10,
-  'A': 9,
-  'A-': 8,
-  'B+': 7,
-  'B': 6,
-  'B-': 5,
-  'C+': 4.5,
-  'C': 4,
-  'C-': 3.5,
-  'D+': 3,
-  'D': 2,
-  'D-': 1.5,
-  'F': 0
-};
-
 const gradeColor = (grade: HrmrGrade) => {
     if (grade.startsWith('A')) return 'bg-emerald-600/20 text-emerald-300 border-emerald-500/40';
     if (grade.startsWith('B')) return 'bg-blue-600/20 text-blue-300 border-blue-500/40';
@@ -45,6 +31,8 @@ const formatTypeLabel = (type: LibrarianResult['type']): string => {
   switch (type) {
     case 'memory':
       return 'Memory';
+    case 'thread':
+      return 'Thread';
     case 'followup':
       return 'Follow-Up';
     case 'intelligence':
@@ -53,7 +41,7 @@ const formatTypeLabel = (type: LibrarianResult['type']): string => {
   }
 };
 
-type TabType = 'corpus' | 'timeline' | 'knowledge';
+type TabType = 'corpus' | 'timeline' | 'knowledge' | 'datasets';
 
 const HrmrPage: React.FC = () => {
     const [activeTab, setActiveTab] = useState<TabType>('corpus');
@@ -160,7 +148,7 @@ const HrmrPage: React.FC = () => {
 
     const agentRatings = ratings.filter(r => !!r.grade);
     const averageScore = agentRatings.length
-        ? agentRatings.reduce((acc, rating) => acc + (gradeToScore[rating.grade] ?? 0), 0) / agentRatings.length
+        ? agentRatings.reduce((acc, rating) => acc + (HRMR_GRADE_SCORES[rating.grade] ?? 0), 0) / agentRatings.length
         : 0;
 
     const topModules = useMemo(() => {
@@ -300,6 +288,16 @@ const HrmrPage: React.FC = () => {
                 >
                     Knowledge Search
                 </button>
+                <button
+                    onClick={() => setActiveTab('datasets')}
+                    className={`px-4 py-2 text-sm font-semibold transition-colors border-b-2 ${
+                        activeTab === 'datasets'
+                            ? 'border-blue-500 text-blue-300'
+                            : 'border-transparent text-gray-400 hover:text-gray-200'
+                    }`}
+                >
+                    Datasets &amp; Optimizer
+                </button>
             </div>
 
             {/* Graded Corpus Tab */}
@@ -448,6 +446,9 @@ const HrmrPage: React.FC = () => {
                 </div>
             )}
 
+            {/* Datasets & Optimizer Tab */}
+            {activeTab === 'datasets' && <HrmrDatasetPanel />}
+
             {/* Performance Timeline Tab */}
             {activeTab === 'timeline' && (
                 <div className="flex flex-col gap-6 flex-1 min-h-0 overflow-hidden">
@@ -1,9 +1,10 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { KnowledgeEntity, TagScore, Memory } from '../types';
-import { getAllMemories, getAllEntities, clearKnowledge, getTagScores } from '../services/db';
+import { KnowledgeEntity, KnowledgeEdge, TagScore, Memory } from '../types';
+import { getAllMemories, getAllEntities, getAllKnowledgeEdges, clearKnowledge, getTagScores } from '../services/db';
 import { processAndStoreEntities } from '../services/aiService';
+import { MIN_SUPPORTED_CONFIDENCE, edgeSupportScore, isWellSupported, retractKnowledgeEdge } from '../services/knowledgeGraph';
 import { SearchIcon, RefreshIcon, TrashIcon, InsightIcon } from '../components/icons/Icons';
 import KnowledgeGraphVisualization from '../components/KnowledgeGraphVisualization';
 
@@ -57,6 +58,25 @@ const buildGraphFromMemories = (memories: Memory[]): KnowledgeEntity[] => {
     return [...Array.from(tagMap.values()), ...memoryNodes];
 };
 
+// Stored entities keep every non-retracted edge; the page only draws the ones above the confidence filter.
+const withSupportedRelationships = (entities: KnowledgeEntity[], edges: KnowledgeEdge[], minConfidence: number): KnowledgeEntity[] => {
+    const relationships = new Map<string, Record<string, string[]>>();
+    edges.forEach(edge => {
+        if (!isWellSupported(edge, minConfidence)) return;
+        const rels = relationships.get(edge.source) ?? {};
+        rels[edge.predicate] = Array.from(new Set([...(rels[edge.predicate] ?? []), edge.target]));
+        relationships.set(edge.source, rels);
+    });
+    const names = new Set(entities.map(entity => entity.name));
+    const derived = entities.map(entity => ({ ...entity, relationships: relationships.get(entity.name) ?? {} }));
+    relationships.forEach((rels, name) => {
+        if (!names.has(name)) derived.push({ name, relationships: rels });
+    });
+    return derived;
+};
+
+const formatDay = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+
 const KnowledgeGraphPage: React.FC = () => {
     const [entities, setEntities] = useState<KnowledgeEntity[]>([]);
     const [tagScores, setTagScores] = useState<TagScore[]>([]);
@@ -66,13 +86,21 @@ const KnowledgeGraphPage: React.FC = () => {
     const [viewMode, setViewMode] = useState<'list' | 'graph'>('graph');
     const [insights, setInsights] = useState<string | null>(null);
     const [relatedEntities, setRelatedEntities] = useState<KnowledgeEntity[]>([]);
+    const [edges, setEdges] = useState<KnowledgeEdge[]>([]);
+    const [minConfidence, setMinConfidence] = useState(MIN_SUPPORTED_CONFIDENCE);
 
     const loadGraph = async () => {
         setIsLoading(true);
         try {
-            const [memories, knowledge, tags] = await Promise.all([getAllMemories(), getAllEntities(), getTagScores()]);
+            const [memories, knowledge, knowledgeEdges, tags] = await Promise.all([
+                getAllMemories(),
+                getAllEntities(),
+                getAllKnowledgeEdges(),
+                getTagScores()
+            ]);
             const graph = buildGraphFromMemories(memories);
-            const combined = [...graph, ...knowledge].reduce((acc, entity) => {
+            const supported = withSupportedRelationships(knowledge, knowledgeEdges, minConfidence);
+            const combined = [...graph, ...supported].reduce((acc, entity) => {
                 const existing = acc.get(entity.name);
                 if (!existing) {
                     acc.set(entity.name, entity);
@@ -88,6 +116,7 @@ const KnowledgeGraphPage: React.FC = () => {
             }, new Map<string, KnowledgeEntity>());
             const sorted = Array.from(combined.values()).sort((a, b) => a.name.localeCompare(b.name));
             setEntities(sorted);
+            setEdges(knowledgeEdges);
             setTagScores(tags);
         } catch (error) {
             console.error('Failed to build knowledge graph from memories:', error);
@@ -100,12 +129,14 @@ const KnowledgeGraphPage: React.FC = () => {
         loadGraph();
         const listener = () => loadGraph();
         window.addEventListener('memories-updated', listener);
+        window.addEventListener('knowledge-updated', listener);
         window.addEventListener('performer-interactions-updated', listener as EventListener);
         return () => {
             window.removeEventListener('memories-updated', listener);
+            window.removeEventListener('knowledge-updated', listener);
             window.removeEventListener('performer-interactions-updated', listener as EventListener);
         };
-    }, []);
+    }, [minConfidence]);
 
     const handleClearKnowledge = async () => {
         const confirmation = window.confirm('Clear all knowledge graph nodes? This will remove stored relationships.');
@@ -128,7 +159,9 @@ const KnowledgeGraphPage: React.FC = () => {
                     await processAndStoreEntities(memory.conversation, {
                         conversationId: `memory-${memory.id ?? memory.timestamp}`,
                         timestamp: memory.timestamp,
-                        tags: memory.tags
+                        tags: memory.tags,
+                        sourceType: 'memory',
+                        sourceId: String(memory.id ?? memory.timestamp)
                     });
                 } catch (error) {
                     console.warn('Failed to enrich knowledge graph for memory', memory.id, error);
@@ -163,6 +196,24 @@ const KnowledgeGraphPage: React.FC = () => {
         }
     }, [filteredEntities]);
 
+    const selectedFacts = useMemo(() => {
+        if (!selectedEntity) return [];
+        const now = Date.now();
+        return edges
+            .filter(edge => edge.source === selectedEntity.name || edge.target === selectedEntity.name)
+            .sort((a, b) => edgeSupportScore(b, now) - edgeSupportScore(a, now));
+    }, [edges, selectedEntity]);
+
+    const handleRetractEdge = async (edge: KnowledgeEdge) => {
+        const confirmation = window.confirm(`Retract "${edge.source} ${edge.predicate.replace(/_/g, ' ')} ${edge.target}"?`);
+        if (!confirmation) return;
+        try {
+            await retractKnowledgeEdge(edge);
+        } catch (error) {
+            console.error('Failed to retract knowledge edge:', error);
+        }
+    };
+
     const handleEntityClick = (entity: KnowledgeEntity) => {
         setSelectedEntity(entity);
     };
@@ -308,6 +359,19 @@ ${selectedEntity ? `\n**Currently Exploring: ${selectedEntity.name}**\n\nThis en
                     <InsightIcon className="h-4 w-4" />
                     Generate Insights
                 </button>
+                <label className="ml-auto flex items-center gap-2 text-xs text-gray-400">
+                    Min confidence
+                    <input
+                        type="range"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={minConfidence}
+                        onChange={e => setMinConfidence(Number(e.target.value))}
+                        className="accent-purple-500"
+                    />
+                    <span className="w-8 text-gray-300">{minConfidence.toFixed(2)}</span>
+                </label>
             </div>
 
             {insights && (
@@ -449,6 +513,54 @@ ${selectedEntity ? `\n**Currently Exploring: ${selectedEntity.name}**\n\nThis en
                                         })}
                                     </div>
 
+                                    {selectedFacts.length > 0 && (
+                                        <div className="bg-gradient-to-r from-[#141517] to-[#1a1517] border border-gray-800 rounded-lg p-4 shadow-md">
+                                            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+                                                Facts
+                                                <span className="text-xs text-gray-500 normal-case font-normal">({selectedFacts.length})</span>
+                                            </h3>
+                                            <ul className="space-y-3">
+                                                {selectedFacts.map(edge => {
+                                                    const supported = isWellSupported(edge, minConfidence);
+                                                    return (
+                                                        <li key={edge.id} className={`text-sm ${supported ? 'text-gray-300' : 'text-gray-500'}`}>
+                                                            <div className="flex items-start justify-between gap-3">
+                                                                <div className="min-w-0">
+                                                                    <p className={edge.retracted ? 'line-through' : ''}>
+                                                                        {edge.source} <span className="text-purple-300">{edge.predicate.replace(/_/g, ' ')}</span> {edge.target}
+                                                                    </p>
+                                                                    <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                                                                        <span className="inline-block w-16 h-1.5 rounded-full bg-gray-700 overflow-hidden">
+                                                                            <span className="block h-full bg-purple-400" style={{ width: `${Math.round(edge.confidence * 100)}%` }} />
+                                                                        </span>
+                                                                        <span>{Math.round(edge.confidence * 100)}%</span>
+                                                                        <span>· {edge.supportCount} sighting{edge.supportCount === 1 ? '' : 's'}</span>
+                                                                        <span>· {formatDay(edge.firstSeenAt)} – {formatDay(edge.lastSeenAt)}</span>
+                                                                        {edge.contradicted && !edge.retracted && <span className="text-amber-300">disputed</span>}
+                                                                        {edge.retracted && <span className="text-red-400">retracted</span>}
+                                                                    </div>
+                                                                    {edge.evidence.length > 0 && (
+                                                                        <p className="mt-1 text-xs text-gray-600 truncate">
+                                                                            Sources: {edge.evidence.slice(0, 4).map(item => `${item.polarity === 'retract' ? '−' : '+'}${item.sourceType} ${item.sourceId}`).join(', ')}
+                                                                        </p>
+                                                                    )}
+                                                                </div>
+                                                                {!edge.retracted && (
+                                                                    <button
+                                                                        onClick={() => handleRetractEdge(edge)}
+                                                                        className="flex-shrink-0 px-2 py-1 rounded-md border border-gray-700 text-xs text-gray-400 hover:border-red-500 hover:text-red-300"
+                                                                    >
+                                                                        Retract
+                                                                    </button>
+                                                                )}
+                                                            </div>
+                                                        </li>
+                                                    );
+                                                })}
+                                            </ul>
+                                        </div>
+                                    )}
+
                                     {relatedEntities.length > 0 && (
                                         <div className="bg-gradient-to-r from-purple-900/20 to-pink-900/20 border border-purple-600/40 rounded-lg p-4 shadow-md">
                                             <h3 className="text-sm font-semibold text-purple-300 uppercase tracking-wider mb-3 flex items-center gap-2">
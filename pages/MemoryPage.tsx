@@ -4,6 +4,7 @@ import { Memory } from '../types';
 import { getAllMemories, updateMemory, deleteMemoryById, clearMemories } from '../services/db';
 import { processMemory, applyProcessingResult } from '../services/memoryProcessor';
 import MemoryCard from '../components/MemoryCard';
+import MemoryConsolidationPanel from '../components/MemoryConsolidationPanel';
 import { SearchIcon, TrashIcon, RefreshIcon } from '../components/icons/Icons';
 import { CardSkeleton } from '../components/SkeletonLoader';
 import { showToast } from '../components/Toast';
@@ -286,6 +287,8 @@ const MemoryPage: React.FC = () => {
         </div>
       </div>
 
+      <MemoryConsolidationPanel />
+
       {isLoading ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {Array.from({ length: 6 }).map((_, i) => (
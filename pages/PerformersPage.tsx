@@ -1,10 +1,11 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { formatDistanceToNow } from 'date-fns';
-import { ChatMessage, PerformerProfile, PerformerMemory, PerformerTraits, HRMR_GRADE_SCALE } from '../types';
+import { ChatMessage, ModelProvider, ModelRoute, PerformerProfile, PerformerMemory, PerformerTraits, HRMR_GRADE_SCALE } from '../types';
 import { getAllPerformers, savePerformer, deletePerformer, getPerformerMemories, clearPerformerMemories, getPerformerInteractions, getAllHrmrRatings } from '../services/db';
 import { PROVIDERS, GOOGLE_MODELS, OPENAI_MODELS, OPENROUTER_MODELS } from '../services/aiService';
 import { StageIcon, MonologueIcon, SpatialIcon, TemporalIcon, BiasIcon, HistoryIcon, GradeIcon, InsightIcon, TraceIcon } from '../components/icons/Icons';
 import { TRAIT_DEFINITIONS, withDefaultTraits } from '../services/socialModel';
+import CredentialSelect from '../components/CredentialSelect';
 
 const providerModels: Record<string, readonly string[]> = {
     google: GOOGLE_MODELS,
@@ -28,7 +29,10 @@ type PerformerFormState = {
     icon: string;
     provider: string;
     model: string;
-    apiKey: string;
+    credentialId?: string;
+    fallbackRoutes: ModelRoute[];
+    // Plaintext key from before the vault; kept as-is until it is moved into the vault
+    apiKey?: string;
     prompt: string;
     memoryEnabled: boolean;
     usePreflection: boolean;
@@ -99,7 +103,7 @@ const emptyForm: PerformerFormState = {
     icon: 'stage',
     provider: 'google',
     model: GOOGLE_MODELS[0],
-    apiKey: '',
+    fallbackRoutes: [],
     prompt: '',
     memoryEnabled: true,
     ...defaultPerformerFeatures,
@@ -363,6 +367,8 @@ const PerformersPage: React.FC = () => {
                         icon: existing.icon || 'stage',
                         provider: existing.provider,
                         model: existing.model,
+                        credentialId: existing.credentialId,
+                        fallbackRoutes: existing.fallbackRoutes ?? [],
                         apiKey: existing.apiKey,
                         prompt: existing.prompt,
                         memoryEnabled: existing.memoryEnabled !== false,
@@ -456,6 +462,8 @@ const PerformersPage: React.FC = () => {
             icon: performer.icon || 'stage',
             provider: performer.provider,
             model: performer.model,
+            credentialId: performer.credentialId,
+            fallbackRoutes: performer.fallbackRoutes ?? [],
             apiKey: performer.apiKey,
             prompt: performer.prompt,
             memoryEnabled: performer.memoryEnabled !== false,
@@ -480,6 +488,7 @@ const PerformersPage: React.FC = () => {
                 if (models && models.length > 0) {
                     next.model = models[0];
                 }
+                next.credentialId = undefined;
             }
             if (key === 'useTaskList' && value === false) {
                 next.useAudit = false;
@@ -498,6 +507,30 @@ const PerformersPage: React.FC = () => {
         }));
     };
 
+    const updateFallbackRoute = (index: number, patch: Partial<ModelRoute>) => {
+        setFormState(prev => ({
+            ...prev,
+            fallbackRoutes: prev.fallbackRoutes.map((route, routeIndex) => {
+                if (routeIndex !== index) return route;
+                // Credentials and models belong to one provider, so switching providers clears them.
+                return patch.provider && patch.provider !== route.provider
+                    ? { provider: patch.provider, model: '', credentialId: undefined }
+                    : { ...route, ...patch };
+            })
+        }));
+    };
+
+    const addFallbackRoute = () => {
+        setFormState(prev => ({
+            ...prev,
+            fallbackRoutes: [...prev.fallbackRoutes, { provider: (PROVIDERS.find(provider => provider !== prev.provider) ?? prev.provider) as ModelProvider, model: '' }]
+        }));
+    };
+
+    const removeFallbackRoute = (index: number) => {
+        setFormState(prev => ({ ...prev, fallbackRoutes: prev.fallbackRoutes.filter((_, routeIndex) => routeIndex !== index) }));
+    };
+
     const handleSave = async () => {
         if (!formState.name.trim()) {
             setStatus('Name is required.');
@@ -513,7 +546,9 @@ const PerformersPage: React.FC = () => {
                 icon: formState.icon,
                 provider: formState.provider as PerformerProfile['provider'],
                 model: formState.model,
-                apiKey: formState.apiKey.trim(),
+                credentialId: formState.credentialId,
+                fallbackRoutes: formState.fallbackRoutes,
+                apiKey: formState.apiKey || undefined,
                 prompt: formState.prompt,
                 memoryEnabled: formState.memoryEnabled,
                 featureOverrides: {
@@ -804,16 +839,58 @@ const PerformersPage: React.FC = () => {
                             </select>
                         </div>
                         <div>
-                            <label className="block text-xs font-semibold text-gray-400 uppercase mb-1">API Key</label>
-                            <input
-                                type="password"
-                                value={formState.apiKey}
-                                onChange={e => handleChange('apiKey', e.target.value)}
-                                placeholder={`Override ${formState.provider.toUpperCase()} key`}
+                            <label className="block text-xs font-semibold text-gray-400 uppercase mb-1">Credential</label>
+                            <CredentialSelect
+                                provider={formState.provider as ModelProvider}
+                                value={formState.credentialId}
+                                onChange={credentialId => handleChange('credentialId', credentialId)}
+                                emptyLabel={`Default ${formState.provider.toUpperCase()} credential`}
                                 className="w-full bg-[#2a2b2c] text-gray-200 rounded-lg px-3 py-2 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
                             />
                             <p className="text-[11px] text-gray-500 mt-1">
-                                Stored locally only. Leave blank to reuse the global {formState.provider.toUpperCase()} key from Settings.
+                                {formState.apiKey
+                                    ? 'This performer still has a plaintext key; move it into the vault from Settings.'
+                                    : 'Keys live in the credential vault in Settings.'}
+                            </p>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-semibold text-gray-400 uppercase mb-1">Fallback Routes</label>
+                            <div className="space-y-2">
+                                {formState.fallbackRoutes.map((route, index) => (
+                                    <div key={index} className="flex gap-2">
+                                        <select
+                                            value={route.provider}
+                                            onChange={e => updateFallbackRoute(index, { provider: e.target.value as ModelProvider })}
+                                            className="bg-[#2a2b2c] text-gray-200 text-sm rounded-lg px-2 py-2 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        >
+                                            {PROVIDERS.map(provider => (
+                                                <option key={provider} value={provider}>{provider.toUpperCase()}</option>
+                                            ))}
+                                        </select>
+                                        <select
+                                            value={route.model}
+                                            onChange={e => updateFallbackRoute(index, { model: e.target.value })}
+                                            className="min-w-0 flex-1 bg-[#2a2b2c] text-gray-200 text-sm rounded-lg px-2 py-2 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        >
+                                            <option value="">Default model</option>
+                                            {providerModels[route.provider]?.map(model => (
+                                                <option key={model} value={model}>{model}</option>
+                                            ))}
+                                        </select>
+                                        <CredentialSelect
+                                            provider={route.provider}
+                                            value={route.credentialId}
+                                            onChange={credentialId => updateFallbackRoute(index, { credentialId })}
+                                            emptyLabel="Default key"
+                                            className="min-w-0 flex-1 bg-[#2a2b2c] text-gray-200 text-sm rounded-lg px-2 py-2 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        />
+                                        <button onClick={() => removeFallbackRoute(index)} className="px-2 text-gray-500 hover:text-red-400" title="Remove fallback">×</button>
+                                    </div>
+                                ))}
+                                <button onClick={addFallbackRoute} className="text-xs text-blue-300 hover:text-blue-200">+ Add fallback</button>
+                            </div>
+                            <p className="text-[11px] text-gray-500 mt-1">
+                                Tried in order when the primary route fails. Credentials that failed in the last few minutes are tried last.
                             </p>
                         </div>
                         <div className="md:col-span-2">
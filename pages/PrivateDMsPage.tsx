@@ -6,38 +6,74 @@ import {
   getPrivateConversation,
   savePrivateConversation,
   getAllPerformers,
-  addPerformerInteractionEvents
+  getAllSecrets,
+  saveSecret,
+  addPerformerInteractionEvents,
+  getWatcherObservations
 } from '../services/db';
-import { PrivateConversation, PrivateMessage, PerformerProfile, PerformerInteractionEvent, ExperienceEventType } from '../types';
+import { PrivateConversation, PrivateMessage, PerformerProfile, PerformerSecret, ExperienceEventType } from '../types';
 import { generatePerformerResponse } from '../services/aiService';
-import { calculateSentimentScore, detectNarrativeTags, collectIntrigueTags } from '../services/socialSignals';
+import { collectIntrigueTags } from '../services/socialSignals';
+import { analyzeText } from '../services/textAnalysis';
 import { awardExperience } from '../services/progressionEngine';
-import { auditDirectMessage, noteDirectMessage } from '../services/watcher';
-
-const buildConversationLabel = (performerA: string, performerB: string, lookup: Map<string, PerformerProfile>) => {
-  const left = lookup.get(performerA)?.name ?? 'Unknown';
-  const right = lookup.get(performerB)?.name ?? 'Unknown';
-  return `${left} ↔ ${right}`;
-};
+import { auditDirectMessage, auditPerformerResponse, noteWatcherVerdict } from '../services/watcher';
+import {
+  addConversationMember,
+  buildDmInteractionEvents,
+  conversationLabel,
+  createPrivateConversation,
+  isMessageVisibleTo,
+  isSecretVisibleTo,
+  markConversationRead,
+  pickResponderId,
+  removeConversationMember,
+  shareSecretInConversation,
+  unreadCount
+} from '../services/privateConversations';
+import {
+  AutonomousDmDigest,
+  buildAutonomousDmDigest,
+  buildResponderHistory,
+  getAutonomousDigestSeenAt,
+  markAutonomousDigestSeen
+} from '../services/autonomousDms';
 
 const PrivateDMsPage: React.FC = () => {
   const [conversations, setConversations] = useState<PrivateConversation[]>([]);
   const [performers, setPerformers] = useState<PerformerProfile[]>([]);
   const [selectedConv, setSelectedConv] = useState<PrivateConversation | null>(null);
   const [asPerformerId, setAsPerformerId] = useState<string>('');
-  const [toPerformerId, setToPerformerId] = useState<string>('');
+  const [recipientIds, setRecipientIds] = useState<string[]>([]);
+  const [groupTitle, setGroupTitle] = useState('');
+  const [addMemberId, setAddMemberId] = useState('');
+  const [shareSecretId, setShareSecretId] = useState('');
+  const [secrets, setSecrets] = useState<PerformerSecret[]>([]);
   const [message, setMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [digest, setDigest] = useState<AutonomousDmDigest | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const performerLookup = useMemo(
     () => new Map(performers.map(performer => [performer.id, performer])),
     [performers]
   );
+  const secretLookup = useMemo(() => new Map(secrets.map(secret => [secret.id, secret])), [secrets]);
+
+  const shareableSecrets = useMemo(
+    () => secrets.filter(secret => !secret.revealedAt && isSecretVisibleTo(secret, asPerformerId)),
+    [secrets, asPerformerId]
+  );
 
   useEffect(() => {
     loadData();
+    const handleUpdate = () => loadData();
+    window.addEventListener('private-conversations-updated', handleUpdate);
+    window.addEventListener('autonomous-dms-updated', handleUpdate);
+    return () => {
+      window.removeEventListener('private-conversations-updated', handleUpdate);
+      window.removeEventListener('autonomous-dms-updated', handleUpdate);
+    };
   }, []);
 
   useEffect(() => {
@@ -46,58 +82,109 @@ const PrivateDMsPage: React.FC = () => {
 
   useEffect(() => {
     if (!selectedConv) return;
-    if (selectedConv.participant1Id === asPerformerId || selectedConv.participant2Id === asPerformerId) return;
-    setAsPerformerId(selectedConv.participant1Id);
+    if (selectedConv.memberIds.includes(asPerformerId)) return;
+    setAsPerformerId(selectedConv.memberIds[0] ?? '');
+  }, [selectedConv, asPerformerId]);
+
+  // Viewing a thread as a member moves that member's read cursor.
+  useEffect(() => {
+    if (!selectedConv || !asPerformerId) return;
+    const read = markConversationRead(selectedConv, asPerformerId);
+    if (read === selectedConv) return;
+    setSelectedConv(read);
+    savePrivateConversation(read).catch(error => console.error('Failed to update read cursor:', error));
   }, [selectedConv, asPerformerId]);
 
   const loadData = async () => {
-    const [convs, perfs] = await Promise.all([
+    const seenAt = getAutonomousDigestSeenAt();
+    const [convs, perfs, secretList, observations] = await Promise.all([
       getAllPrivateConversations(),
-      getAllPerformers()
+      getAllPerformers(),
+      getAllSecrets(),
+      getWatcherObservations({ subject: 'direct_message', since: seenAt })
     ]);
 
     const ordered = convs.sort((a, b) => (b.updatedAt ?? b.createdAt) - (a.updatedAt ?? a.createdAt));
     setConversations(ordered);
     setPerformers(perfs);
+    setSecrets(secretList);
+    setDigest(buildAutonomousDmDigest(ordered, observations, seenAt));
 
-    if (!selectedConv && ordered.length > 0) {
-      setSelectedConv(ordered[0]);
-      setAsPerformerId(ordered[0].participant1Id);
-    }
+    setSelectedConv(prev => {
+      if (prev) return ordered.find(conversation => conversation.id === prev.id) ?? prev;
+      return ordered[0] ?? null;
+    });
   };
 
   const getPerformerName = (id: string) => performerLookup.get(id)?.name ?? 'Unknown';
 
-  const getOtherParticipant = (conversation: PrivateConversation, currentId: string): string => {
-    return conversation.participant1Id === currentId ? conversation.participant2Id : conversation.participant1Id;
+  const toggleRecipient = (performerId: string) => {
+    setRecipientIds(prev => (prev.includes(performerId) ? prev.filter(id => id !== performerId) : [...prev, performerId]));
   };
 
   const handleStartConversation = async () => {
-    if (!asPerformerId || !toPerformerId || asPerformerId === toPerformerId) return;
+    const recipients = recipientIds.filter(id => id !== asPerformerId);
+    if (!asPerformerId || recipients.length === 0) return;
 
-    const existing = await getPrivateConversation(asPerformerId, toPerformerId);
+    const existing = recipients.length === 1 ? await getPrivateConversation(asPerformerId, recipients[0]) : undefined;
     if (existing) {
       setSelectedConv(existing);
-      setToPerformerId('');
+      setRecipientIds([]);
       return;
     }
 
-    const timestamp = Date.now();
-    const newConv: PrivateConversation = {
-      id: `dm_${asPerformerId}_${toPerformerId}_${timestamp}`,
-      participant1Id: asPerformerId,
-      participant2Id: toPerformerId,
-      messages: [],
-      createdAt: timestamp,
-      updatedAt: timestamp
-    };
-
+    const newConv = createPrivateConversation(asPerformerId, recipients, { title: recipients.length > 1 ? groupTitle : undefined });
     await savePrivateConversation(newConv);
     setSelectedConv(newConv);
-    setToPerformerId('');
+    setRecipientIds([]);
+    setGroupTitle('');
     await loadData();
   };
 
+  const handleAddMember = async () => {
+    if (!selectedConv || !addMemberId) return;
+    const updated = addConversationMember(selectedConv, addMemberId, getPerformerName(addMemberId));
+    setSelectedConv(updated);
+    setAddMemberId('');
+    await savePrivateConversation(updated);
+  };
+
+  const handleLeave = async () => {
+    if (!selectedConv || !asPerformerId) return;
+    const updated = removeConversationMember(selectedConv, asPerformerId, getPerformerName(asPerformerId));
+    setSelectedConv(updated);
+    await savePrivateConversation(updated);
+  };
+
+  const handleShareSecret = async () => {
+    const secret = secretLookup.get(shareSecretId);
+    if (!selectedConv || !secret || !asPerformerId) return;
+    const shared = shareSecretInConversation(selectedConv, secret, asPerformerId);
+    setSelectedConv(shared.conversation);
+    setShareSecretId('');
+    await saveSecret(shared.secret);
+    await savePrivateConversation(shared.conversation);
+    const targets = shared.conversation.memberIds.filter(id => id !== asPerformerId);
+    const sharedMessage = shared.conversation.messages[shared.conversation.messages.length - 1];
+    try {
+      await addPerformerInteractionEvents(buildDmInteractionEvents(shared.conversation, sharedMessage, targets, getPerformerName, {
+        sentiment: 0,
+        narrativeTags: ['secret'],
+        intrigueTags: ['secret-shared']
+      }));
+      await awardExperience({
+        branch: 'diplomacy',
+        type: 'secret_shared',
+        baseXp: 60,
+        actorIds: shared.conversation.memberIds,
+        context: 'private',
+        metadata: { conversationId: shared.conversation.id, secretId: secret.id }
+      }).catch(error => console.error('Failed to award secret-sharing experience:', error));
+    } catch (interactionError) {
+      console.error('Failed to log shared secret:', interactionError);
+    }
+  };
+
   const handleSendMessage = async () => {
     if (!selectedConv || !message.trim() || !asPerformerId) return;
 
@@ -105,10 +192,11 @@ const PrivateDMsPage: React.FC = () => {
     setIsLoading(true);
     const now = Date.now();
 
-    const recipientId = getOtherParticipant(selectedConv, asPerformerId);
-    const auditVerdict = auditDirectMessage({
+    const targetIds = selectedConv.memberIds.filter(id => id !== asPerformerId);
+    const auditVerdict = await auditDirectMessage({
       senderId: asPerformerId,
-      recipientId,
+      recipientId: targetIds[0] ?? asPerformerId,
+      recipientIds: targetIds,
       conversationId: selectedConv.id,
       message,
       timestamp: now
@@ -126,6 +214,7 @@ const PrivateDMsPage: React.FC = () => {
 
     const newMessage: PrivateMessage = {
       id: `msg_${now}`,
+      kind: 'message',
       senderId: asPerformerId,
       content: message.trim(),
       timestamp: now
@@ -141,42 +230,22 @@ const PrivateDMsPage: React.FC = () => {
     setMessage('');
     await savePrivateConversation(updatedConversation);
 
-    const otherPerformerId = recipientId;
-    const userNarrativeTags = detectNarrativeTags(message.trim());
-    const userIntrigueTags = collectIntrigueTags(performerLookup.get(asPerformerId) || null, [otherPerformerId], performerLookup);
-    noteDirectMessage({
-      senderId: asPerformerId,
-      recipientId: otherPerformerId,
-      conversationId: updatedConversation.id,
-      message,
-      timestamp: now
-    });
+    const userAnalysis = await analyzeText(message.trim());
+    const userIntrigueTags = collectIntrigueTags(performerLookup.get(asPerformerId) || null, targetIds, performerLookup);
+    noteWatcherVerdict(auditVerdict).catch(error => console.error('Failed to note DM with the Watcher:', error));
 
     try {
-      await addPerformerInteractionEvents([
-        {
-          id: `dm-${updatedConversation.id}-${newMessage.id}`,
-          conversationId: updatedConversation.id,
-          speakerId: asPerformerId,
-          speakerName: getPerformerName(asPerformerId),
-          speakerType: 'performer',
-          targetIds: [otherPerformerId],
-          targetNames: [getPerformerName(otherPerformerId)],
-          timestamp: now,
-          messageId: newMessage.id,
-          intrigueTags: userIntrigueTags,
-          sentiment: calculateSentimentScore(message.trim()),
-          narrativeTags: userNarrativeTags,
-          context: 'private',
-          origin: 'dm'
-        }
-      ]);
+      await addPerformerInteractionEvents(buildDmInteractionEvents(updatedConversation, newMessage, targetIds, getPerformerName, {
+        intrigueTags: userIntrigueTags,
+        sentiment: userAnalysis.sentiment,
+        narrativeTags: userAnalysis.narrativeTags
+      }));
       const xpType: ExperienceEventType = userIntrigueTags.length ? 'secret_shared' : 'secret_uncovered';
       await awardExperience({
         branch: 'diplomacy',
         type: xpType,
         baseXp: userIntrigueTags.length ? 60 : 35,
-        actorIds: [asPerformerId, otherPerformerId],
+        actorIds: [asPerformerId, ...targetIds],
         context: 'private',
         metadata: { conversationId: updatedConversation.id }
       }).catch(error => console.error('Failed to award DM experience:', error));
@@ -184,16 +253,13 @@ const PrivateDMsPage: React.FC = () => {
       console.error('Failed to log DM interaction:', interactionError);
     }
 
-    const otherPerformer = performerLookup.get(otherPerformerId);
+    const otherPerformerId = pickResponderId(updatedConversation, asPerformerId, message, performerLookup);
+    const otherPerformer = otherPerformerId ? performerLookup.get(otherPerformerId) : undefined;
 
-    if (otherPerformer) {
+    if (otherPerformerId && otherPerformer) {
       try {
-        const chatHistory = updatedConversation.messages.map(msg => ({
-          id: msg.id,
-          role: msg.senderId === otherPerformerId ? 'agent' : 'user',
-          content: msg.content,
-          timestamp: msg.timestamp
-        }));
+        const chatHistory = buildResponderHistory(updatedConversation, otherPerformerId, secretLookup, getPerformerName);
+        const responseTargets = updatedConversation.memberIds.filter(id => id !== otherPerformerId);
 
         const response = await generatePerformerResponse(
           otherPerformer,
@@ -211,10 +277,24 @@ const PrivateDMsPage: React.FC = () => {
           null
         );
 
-        if (response.response) {
+        const responseVerdict = response.response
+          ? await auditPerformerResponse({
+            performerId: otherPerformerId,
+            conversationId: updatedConversation.id,
+            origin: 'dm',
+            text: response.response,
+            timestamp: Date.now()
+          })
+          : null;
+        if (responseVerdict && responseVerdict.status !== 'ok') {
+          setStatusMessage(`Watcher: ${responseVerdict.reasons.join(' ')}`);
+        }
+
+        if (response.response && responseVerdict?.status !== 'block') {
           const aiTimestamp = Date.now();
           const aiMessage: PrivateMessage = {
             id: `msg_${aiTimestamp}`,
+            kind: 'message',
             senderId: otherPerformerId,
             content: response.response,
             timestamp: aiTimestamp
@@ -230,29 +310,18 @@ const PrivateDMsPage: React.FC = () => {
           await savePrivateConversation(finalConversation);
 
           try {
-            await addPerformerInteractionEvents([
-              {
-                id: `dm-${finalConversation.id}-${aiMessage.id}`,
-                conversationId: finalConversation.id,
-                speakerId: otherPerformerId,
-                speakerName: getPerformerName(otherPerformerId),
-                speakerType: 'performer',
-                targetIds: [asPerformerId],
-                targetNames: [getPerformerName(asPerformerId)],
-                timestamp: aiTimestamp,
-                messageId: aiMessage.id,
-                intrigueTags: collectIntrigueTags(otherPerformer, [asPerformerId], performerLookup),
-                sentiment: calculateSentimentScore(response.response),
-                narrativeTags: detectNarrativeTags(response.response),
-                context: 'private',
-                origin: 'dm'
-              }
-            ]);
+            const responseAnalysis = await analyzeText(response.response);
+            const responseIntrigueTags = collectIntrigueTags(otherPerformer, responseTargets, performerLookup);
+            await addPerformerInteractionEvents(buildDmInteractionEvents(finalConversation, aiMessage, responseTargets, getPerformerName, {
+              intrigueTags: responseIntrigueTags,
+              sentiment: responseAnalysis.sentiment,
+              narrativeTags: responseAnalysis.narrativeTags
+            }));
             await awardExperience({
               branch: 'diplomacy',
               type: 'secret_uncovered',
-              baseXp: collectIntrigueTags(otherPerformer, [asPerformerId], performerLookup).length ? 55 : 30,
-              actorIds: [otherPerformerId, asPerformerId],
+              baseXp: responseIntrigueTags.length ? 55 : 30,
+              actorIds: [otherPerformerId, ...responseTargets],
               context: 'private',
               metadata: { conversationId: finalConversation.id }
             }).catch(error => console.error('Failed to award performer DM experience:', error));
@@ -290,29 +359,84 @@ const PrivateDMsPage: React.FC = () => {
                 <option key={performer.id} value={performer.id}>{performer.name}</option>
               ))}
             </select>
-            <select
-              value={toPerformerId}
-              onChange={(e) => setToPerformerId(e.target.value)}
-              className="w-full rounded-lg border border-gray-800 bg-[#111217] px-3 py-2 text-sm text-gray-200 focus:border-blue-500 focus:outline-none"
-            >
-              <option value="">Recipient</option>
+            <div className="max-h-32 space-y-1 overflow-y-auto rounded-lg border border-gray-800 bg-[#111217] px-3 py-2">
               {performers
                 .filter(performer => performer.id !== asPerformerId)
                 .map(performer => (
-                  <option key={performer.id} value={performer.id}>{performer.name}</option>
+                  <label key={performer.id} className="flex items-center gap-2 text-sm text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={recipientIds.includes(performer.id)}
+                      onChange={() => toggleRecipient(performer.id)}
+                    />
+                    {performer.name}
+                  </label>
                 ))}
-            </select>
+            </div>
+            {recipientIds.filter(id => id !== asPerformerId).length > 1 && (
+              <input
+                value={groupTitle}
+                onChange={(e) => setGroupTitle(e.target.value)}
+                placeholder="Group name (optional)"
+                className="w-full rounded-lg border border-gray-800 bg-[#111217] px-3 py-2 text-sm text-gray-200 focus:border-blue-500 focus:outline-none"
+              />
+            )}
             <button
               onClick={handleStartConversation}
-              disabled={!asPerformerId || !toPerformerId}
+              disabled={!asPerformerId || recipientIds.filter(id => id !== asPerformerId).length === 0}
               className="w-full rounded-lg bg-blue-600 px-3 py-2 text-sm font-semibold transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-40"
             >
-              Open Thread
+              {recipientIds.filter(id => id !== asPerformerId).length > 1 ? 'Open Group Thread' : 'Open Thread'}
             </button>
           </div>
         </div>
 
         <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          {digest && (digest.messageCount > 0 || digest.blocked.length > 0) && (
+            <div className="space-y-2 rounded-xl border border-purple-500/30 bg-purple-500/10 p-3 text-xs text-gray-300">
+              <div className="flex items-center justify-between">
+                <span className="text-[11px] font-semibold uppercase tracking-wide text-purple-200">While you were away</span>
+                <button
+                  onClick={() => markAutonomousDigestSeen()}
+                  className="rounded-lg border border-purple-500/40 px-2 py-0.5 text-[11px] text-purple-200 hover:bg-purple-500/20"
+                >
+                  Mark seen
+                </button>
+              </div>
+              <div className="text-gray-400">
+                {digest.messageCount} backchannel message{digest.messageCount === 1 ? '' : 's'} in {digest.threads.length} thread{digest.threads.length === 1 ? '' : 's'}
+                {digest.blocked.length > 0 && ` · ${digest.blocked.length} blocked by the Watcher`}
+              </div>
+              {digest.threads.map(thread => {
+                const conversation = conversations.find(entry => entry.id === thread.conversationId);
+                const latest = thread.messages[thread.messages.length - 1];
+                return (
+                  <button
+                    key={thread.conversationId}
+                    onClick={() => {
+                      if (!conversation) return;
+                      setSelectedConv(conversation);
+                      setAsPerformerId(conversation.memberIds[0] ?? '');
+                    }}
+                    className="block w-full rounded-lg bg-[#18191D] px-3 py-2 text-left hover:bg-[#202226]"
+                  >
+                    <div className="font-semibold text-gray-200">
+                      {conversation ? conversationLabel(conversation, performerLookup) : thread.memberIds.map(getPerformerName).join(', ')}
+                      <span className="ml-2 font-normal text-gray-500">{thread.messages.length} new</span>
+                    </div>
+                    <div className="mt-0.5 text-gray-400">
+                      {getPerformerName(latest.senderId)}: {latest.content.slice(0, 80)}{latest.content.length > 80 ? '…' : ''}
+                    </div>
+                  </button>
+                );
+              })}
+              {digest.blocked.map(block => (
+                <div key={block.observationId} className="rounded-lg bg-[#18191D] px-3 py-2 text-amber-200">
+                  {getPerformerName(block.senderId)} was stopped at {new Date(block.timestamp).toLocaleTimeString()}: {block.reasons.join(' ')}
+                </div>
+              ))}
+            </div>
+          )}
           {conversations.length === 0 ? (
             <div className="rounded-xl border border-dashed border-gray-800 bg-[#18191D] p-6 text-center text-sm text-gray-500">
               No private threads yet. Pair performers to spin up covert strategy.
@@ -321,13 +445,14 @@ const PrivateDMsPage: React.FC = () => {
             conversations.map(conversation => {
               const isActive = selectedConv?.id === conversation.id;
               const latest = conversation.messages[conversation.messages.length - 1];
-              const label = buildConversationLabel(conversation.participant1Id, conversation.participant2Id, performerLookup);
+              const label = conversationLabel(conversation, performerLookup);
+              const unread = conversation.memberIds.reduce((acc, id) => acc + unreadCount(conversation, id), 0);
               return (
                 <button
                   key={conversation.id}
                   onClick={() => {
                     setSelectedConv(conversation);
-                    setAsPerformerId(conversation.participant1Id);
+                    setAsPerformerId(conversation.memberIds[0] ?? '');
                   }}
                   className={`w-full rounded-xl border px-4 py-3 text-left transition-colors ${
                     isActive
@@ -344,10 +469,22 @@ const PrivateDMsPage: React.FC = () => {
                     )}
                   </div>
                   <div className="mt-1 text-xs text-gray-400">
-                    {latest ? `${getPerformerName(latest.senderId)}: ${latest.content.slice(0, 64)}${latest.content.length > 64 ? '…' : ''}` : 'No messages yet'}
+                    {!latest
+                      ? 'No messages yet'
+                      : latest.kind === 'join' || latest.kind === 'leave'
+                        ? latest.content
+                        : latest.kind === 'secret'
+                          ? `${getPerformerName(latest.senderId)} shared a secret`
+                          : `${getPerformerName(latest.senderId)}: ${latest.content.slice(0, 64)}${latest.content.length > 64 ? '…' : ''}`}
                   </div>
                   <div className="mt-2 flex items-center gap-2 text-[10px] uppercase tracking-wide text-gray-500">
                     <span className="rounded-full bg-[#121317] px-2 py-1">{conversation.messages.length} msgs</span>
+                    {conversation.kind === 'group' && (
+                      <span className="rounded-full bg-[#121317] px-2 py-1">{conversation.memberIds.length} members</span>
+                    )}
+                    {unread > 0 && (
+                      <span className="rounded-full bg-blue-500/20 px-2 py-1 text-blue-200">{unread} unread</span>
+                    )}
                   </div>
                 </button>
               );
@@ -363,15 +500,53 @@ const PrivateDMsPage: React.FC = () => {
             <header className="border-b border-gray-900 bg-[#1A1C1F] p-6">
               <div className="flex flex-wrap items-center gap-3">
                 <h1 className="text-2xl font-semibold tracking-tight">
-                  {buildConversationLabel(selectedConv.participant1Id, selectedConv.participant2Id, performerLookup)}
+                  {conversationLabel(selectedConv, performerLookup)}
                 </h1>
                 <span className="rounded-full border border-blue-500/30 bg-blue-500/10 px-3 py-1 text-xs font-semibold text-blue-300">
-                  Private Channel
+                  {selectedConv.kind === 'group' ? 'Backroom Group' : 'Private Channel'}
                 </span>
               </div>
               <p className="mt-2 text-xs text-gray-500">
                 Discrete back-channel for performers. Messages stay off the public billet.
               </p>
+              <div className="mt-3 flex flex-wrap items-center gap-2 text-[11px] text-gray-400">
+                {selectedConv.memberIds.map(id => {
+                  const unread = unreadCount(selectedConv, id);
+                  return (
+                    <span key={id} className="rounded-full border border-gray-800 bg-[#121317] px-2 py-1">
+                      {getPerformerName(id)}
+                      {unread > 0 && <span className="ml-1 text-blue-300">· {unread} unread</span>}
+                    </span>
+                  );
+                })}
+                <select
+                  value={addMemberId}
+                  onChange={(e) => setAddMemberId(e.target.value)}
+                  className="rounded-lg border border-gray-800 bg-[#121317] px-2 py-1 text-[11px] text-gray-200 focus:border-blue-500 focus:outline-none"
+                >
+                  <option value="">Add member…</option>
+                  {performers
+                    .filter(performer => !selectedConv.memberIds.includes(performer.id))
+                    .map(performer => (
+                      <option key={performer.id} value={performer.id}>{performer.name}</option>
+                    ))}
+                </select>
+                <button
+                  onClick={handleAddMember}
+                  disabled={!addMemberId}
+                  className="rounded-lg border border-gray-700 px-2 py-1 text-gray-300 hover:bg-gray-800 disabled:opacity-40"
+                >
+                  Add
+                </button>
+                {selectedConv.kind === 'group' && asPerformerId && selectedConv.memberIds.includes(asPerformerId) && (
+                  <button
+                    onClick={handleLeave}
+                    className="rounded-lg border border-red-500/30 px-2 py-1 text-red-300 hover:bg-red-500/10"
+                  >
+                    {getPerformerName(asPerformerId)} leaves
+                  </button>
+                )}
+              </div>
             </header>
 
             <div className="flex-1 space-y-4 overflow-y-auto bg-[#18191D] p-6">
@@ -381,7 +556,15 @@ const PrivateDMsPage: React.FC = () => {
                 </div>
               ) : (
                 selectedConv.messages.map(chat => {
+                  if (chat.kind === 'join' || chat.kind === 'leave') {
+                    return (
+                      <div key={chat.id} className="text-center text-[11px] uppercase tracking-wide text-gray-500">
+                        {chat.content} · {new Date(chat.timestamp).toLocaleTimeString()}
+                      </div>
+                    );
+                  }
                   const isSender = chat.senderId === asPerformerId;
+                  const isHiddenSecret = !isMessageVisibleTo(chat, asPerformerId, secretLookup);
                   return (
                     <div key={chat.id} className={`flex ${isSender ? 'justify-end' : 'justify-start'}`}>
                       <div className={`max-w-[70%] rounded-2xl border px-4 py-3 text-sm shadow-lg ${
@@ -393,12 +576,24 @@ const PrivateDMsPage: React.FC = () => {
                           <span>{getPerformerName(chat.senderId)}</span>
                           <span className="text-gray-600">•</span>
                           <span>{new Date(chat.timestamp).toLocaleTimeString()}</span>
+                          {chat.origin === 'autonomous' && (
+                            <span className="rounded-full bg-purple-500/20 px-2 py-0.5 text-[10px] text-purple-200">Autonomous</span>
+                          )}
                         </div>
-                        <div className="mt-2 leading-relaxed prose prose-invert prose-sm max-w-none text-gray-200">
-                          <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                            {chat.content}
-                          </ReactMarkdown>
-                        </div>
+                        {chat.kind === 'secret' && (
+                          <div className="mt-1 text-[10px] font-semibold uppercase tracking-wide text-amber-300">Secret</div>
+                        )}
+                        {isHiddenSecret ? (
+                          <div className="mt-2 text-sm italic text-gray-500">
+                            A secret was shared here before {getPerformerName(asPerformerId)} was in on it.
+                          </div>
+                        ) : (
+                          <div className="mt-2 leading-relaxed prose prose-invert prose-sm max-w-none text-gray-200">
+                            <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                              {chat.content}
+                            </ReactMarkdown>
+                          </div>
+                        )}
                       </div>
                     </div>
                   );
@@ -416,9 +611,33 @@ const PrivateDMsPage: React.FC = () => {
                   className="rounded-lg border border-gray-800 bg-[#121317] px-3 py-2 text-sm text-gray-200 focus:border-blue-500 focus:outline-none"
                 >
                   <option value="">Select performer</option>
-                  <option value={selectedConv.participant1Id}>{getPerformerName(selectedConv.participant1Id)}</option>
-                  <option value={selectedConv.participant2Id}>{getPerformerName(selectedConv.participant2Id)}</option>
+                  {selectedConv.memberIds.map(id => (
+                    <option key={id} value={id}>{getPerformerName(id)}</option>
+                  ))}
                 </select>
+                {shareableSecrets.length > 0 && (
+                  <>
+                    <select
+                      value={shareSecretId}
+                      onChange={(e) => setShareSecretId(e.target.value)}
+                      className="max-w-xs rounded-lg border border-gray-800 bg-[#121317] px-3 py-2 text-sm text-gray-200 focus:border-blue-500 focus:outline-none"
+                    >
+                      <option value="">Share a secret…</option>
+                      {shareableSecrets.map(secret => (
+                        <option key={secret.id} value={secret.id}>
+                          {getPerformerName(secret.performerId)}: {secret.content.slice(0, 48)}{secret.content.length > 48 ? '…' : ''}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleShareSecret}
+                      disabled={!shareSecretId || isLoading}
+                      className="rounded-lg border border-amber-500/40 px-3 py-2 text-sm text-amber-200 hover:bg-amber-500/10 disabled:opacity-40"
+                    >
+                      Share
+                    </button>
+                  </>
+                )}
               </div>
               {statusMessage && (
                 <div className="mb-3 rounded-lg border border-amber-500/30 bg-amber-500/10 px-4 py-2 text-xs text-amber-200">
@@ -1,9 +1,10 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { PlayerProgress, SkillDefinition, ExperienceEvent } from '../types';
-import { getPlayerProgress, getRecentExperienceEvents } from '../services/db';
+import { PlayerProgress, SkillDefinition, ExperienceEvent, MissionDefinition } from '../types';
+import { getMissionDefinitions, getPlayerProgress, getRecentExperienceEvents } from '../services/db';
 import { computeSkillAvailability, unlockSkill, unlockAllSkillsForTesting } from '../services/progressionEngine';
 import { SKILL_BRANCHES, RANKS } from '../services/skills';
-import { MISSION_DEFINITIONS } from '../services/missionDefinitions';
+import MissionEditor from '../components/MissionEditor';
+import XpLedgerPanel from '../components/XpLedgerPanel';
 import { formatDistanceToNow } from 'date-fns';
 
 interface SkillAvailability {
@@ -18,6 +19,7 @@ const ProgressionPage: React.FC = () => {
   const [events, setEvents] = useState<ExperienceEvent[]>([]);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [isUnlocking, setIsUnlocking] = useState<string | null>(null);
+  const [missionDefinitions, setMissionDefinitions] = useState<MissionDefinition[]>([]);
 
   const loadProgress = async () => {
     try {
@@ -40,9 +42,23 @@ const ProgressionPage: React.FC = () => {
     }
   };
 
+  const loadMissions = async () => {
+    try {
+      setMissionDefinitions(await getMissionDefinitions());
+    } catch (error) {
+      console.error('Failed to load missions:', error);
+    }
+  };
+
   useEffect(() => {
     loadProgress();
     loadEvents();
+    loadMissions();
+    const handleMissionsUpdate = () => {
+      loadMissions();
+    };
+    window.addEventListener('missions-updated', handleMissionsUpdate);
+    return () => window.removeEventListener('missions-updated', handleMissionsUpdate);
   }, []);
 
   useEffect(() => {
@@ -69,7 +85,7 @@ const ProgressionPage: React.FC = () => {
     return grouped;
   }, [skillAvailability]);
 
-  const missionDefinitionMap = useMemo(() => new Map(MISSION_DEFINITIONS.map(def => [def.id, def])), []);
+  const missionDefinitionMap = useMemo(() => new Map(missionDefinitions.map(def => [def.id, def])), [missionDefinitions]);
   const activeMissions = progress?.activeMissions ?? [];
   const recentCompletedMissions = (progress?.completedMissions ?? []).filter(mission => mission.status === 'completed').slice(-5).reverse();
 
@@ -100,7 +116,7 @@ const ProgressionPage: React.FC = () => {
       setProgress(updated);
       const availability = await computeSkillAvailability();
       setSkillAvailability(availability);
-      setStatusMessage('All skills unlocked for testing.');
+      setStatusMessage('Test-mode XP granted and all skills unlocked.');
       await loadEvents();
     } catch (error) {
       console.error('Failed to unlock all skills:', error);
@@ -267,6 +283,11 @@ const ProgressionPage: React.FC = () => {
                   {definition.expiresInHours && (
                     <div className="text-[11px] text-gray-500">Expires in {definition.expiresInHours}h</div>
                   )}
+                  {definition.prerequisiteIds && definition.prerequisiteIds.length > 0 && (
+                    <div className="text-[11px] text-gray-500">
+                      Campaign step after {definition.prerequisiteIds.map(id => missionDefinitionMap.get(id)?.title ?? id).join(', ')}
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -291,6 +312,16 @@ const ProgressionPage: React.FC = () => {
           )}
         </section>
 
+        <MissionEditor definitions={missionDefinitions} />
+
+        <XpLedgerPanel
+          definitions={missionDefinitions}
+          onProgressChange={() => {
+            loadProgress();
+            loadEvents();
+          }}
+        />
+
         <section className="rounded-xl border border-gray-800 bg-[#1B1C1F] p-6">
           <h2 className="text-lg font-semibold text-blue-300">Recent Experience</h2>
           {events.length === 0 ? (
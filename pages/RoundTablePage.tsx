@@ -0,0 +1,283 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PerformerProfile, RoundTableSession, RoundTableStance, RoundTableStopCondition } from '../types';
+import { deleteRoundTableSession, getAllPerformers, getRoundTableSessions } from '../services/db';
+import { ROUND_TABLE_MAX_ROUNDS, runRoundTable } from '../services/roundTable';
+import { showToast } from '../components/Toast';
+import { StopIcon, TeamIcon, TrashIcon } from '../components/icons/Icons';
+
+const STOP_CONDITIONS: Array<{ value: RoundTableStopCondition; label: string }> = [
+    { value: 'max_rounds', label: 'Run all rounds' },
+    { value: 'consensus', label: 'Stop on consensus' },
+    { value: 'stalemate', label: 'Stop on stalemate' }
+];
+
+const STANCE_STYLES: Record<RoundTableStance, string> = {
+    agree: 'bg-emerald-900/40 text-emerald-200 border-emerald-600/40',
+    disagree: 'bg-red-900/40 text-red-200 border-red-600/40',
+    undecided: 'bg-gray-800 text-gray-300 border-gray-600'
+};
+
+const STATUS_LABELS: Record<RoundTableSession['status'], string> = {
+    running: 'In session',
+    completed: 'Closed',
+    stopped: 'Stopped',
+    error: 'Failed'
+};
+
+const RoundTablePage: React.FC = () => {
+    const [performers, setPerformers] = useState<PerformerProfile[]>([]);
+    const [sessions, setSessions] = useState<RoundTableSession[]>([]);
+    const [topic, setTopic] = useState('');
+    const [rosterIds, setRosterIds] = useState<string[]>([]);
+    const [maxRounds, setMaxRounds] = useState(3);
+    const [stopCondition, setStopCondition] = useState<RoundTableStopCondition>('consensus');
+    const [activeSession, setActiveSession] = useState<RoundTableSession | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        const loadPerformers = async () => setPerformers(await getAllPerformers());
+        const loadSessions = async () => setSessions(await getRoundTableSessions());
+        loadPerformers();
+        loadSessions();
+        window.addEventListener('performers-updated', loadPerformers);
+        window.addEventListener('round-tables-updated', loadSessions);
+        return () => {
+            window.removeEventListener('performers-updated', loadPerformers);
+            window.removeEventListener('round-tables-updated', loadSessions);
+            abortRef.current?.abort();
+        };
+    }, []);
+
+    const toggleRoster = (id: string) => {
+        setRosterIds(prev => (prev.includes(id) ? prev.filter(existing => existing !== id) : [...prev, id]));
+    };
+
+    const handleStart = async () => {
+        const roster = performers.filter(performer => rosterIds.includes(performer.id));
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setIsRunning(true);
+        try {
+            const session = await runRoundTable(
+                { topic, performers: roster, maxRounds, stopCondition },
+                { signal: controller.signal, onUpdate: setActiveSession }
+            );
+            setActiveSession(session);
+            if (session.status === 'error') {
+                showToast(session.error || 'Round table failed.', 'error');
+            }
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Could not start the round table.', 'error');
+        } finally {
+            abortRef.current = null;
+            setIsRunning(false);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        await deleteRoundTableSession(id);
+        if (activeSession?.id === id) setActiveSession(null);
+    };
+
+    const performerName = (id: string) => performers.find(performer => performer.id === id)?.name ?? 'Former performer';
+    const canStart = !isRunning && topic.trim().length > 0 && rosterIds.length >= 2;
+
+    return (
+        <div className="flex-1 flex flex-col h-full bg-[#131314] p-6 overflow-hidden">
+            <div className="flex items-center gap-3 mb-6">
+                <TeamIcon className="w-7 h-7 text-blue-400" />
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-100">Round Table</h1>
+                    <p className="text-sm text-gray-500">Performers debate a topic in moderated rounds; the moderator picks who speaks next.</p>
+                </div>
+            </div>
+
+            <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="space-y-6 overflow-y-auto">
+                    <div className="bg-[#1e1f20] border border-gray-700 rounded-lg p-5 space-y-4">
+                        <label className="block text-sm text-gray-300">
+                            Topic
+                            <textarea
+                                value={topic}
+                                onChange={event => setTopic(event.target.value)}
+                                rows={3}
+                                disabled={isRunning}
+                                placeholder="What should the table discuss?"
+                                className="mt-1 w-full bg-[#2a2b2c] text-gray-200 rounded-md px-3 py-2 border border-gray-600 text-sm"
+                            />
+                        </label>
+                        <div>
+                            <p className="text-sm text-gray-300 mb-2">Roster ({rosterIds.length} seated)</p>
+                            {performers.length === 0 && <p className="text-xs text-gray-500">Create performers first.</p>}
+                            <div className="space-y-1 max-h-56 overflow-y-auto">
+                                {performers.map(performer => (
+                                    <label key={performer.id} className="flex items-center gap-2 text-sm text-gray-300 p-1 rounded hover:bg-gray-800/60 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={rosterIds.includes(performer.id)}
+                                            onChange={() => toggleRoster(performer.id)}
+                                            disabled={isRunning}
+                                            className="accent-blue-500"
+                                        />
+                                        <span>{performer.icon}</span>
+                                        <span className="truncate">{performer.name}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <label className="text-xs text-gray-400">
+                                Max rounds
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={ROUND_TABLE_MAX_ROUNDS}
+                                    value={maxRounds}
+                                    onChange={event => setMaxRounds(Math.max(1, Math.min(ROUND_TABLE_MAX_ROUNDS, Number(event.target.value) || 1)))}
+                                    disabled={isRunning}
+                                    className="mt-1 w-full bg-[#2a2b2c] text-gray-200 rounded-md px-2 py-1.5 border border-gray-600 text-sm"
+                                />
+                            </label>
+                            <label className="text-xs text-gray-400">
+                                Stop condition
+                                <select
+                                    value={stopCondition}
+                                    onChange={event => setStopCondition(event.target.value as RoundTableStopCondition)}
+                                    disabled={isRunning}
+                                    className="mt-1 w-full bg-[#2a2b2c] text-gray-200 rounded-md px-2 py-1.5 border border-gray-600 text-sm"
+                                >
+                                    {STOP_CONDITIONS.map(option => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        </div>
+                        {isRunning ? (
+                            <button
+                                onClick={() => abortRef.current?.abort()}
+                                className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-md text-sm font-semibold bg-red-600 hover:bg-red-500 text-white"
+                            >
+                                <StopIcon className="w-4 h-4" /> Stop
+                            </button>
+                        ) : (
+                            <button
+                                onClick={handleStart}
+                                disabled={!canStart}
+                                className="w-full px-4 py-2 rounded-md text-sm font-semibold bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                            >
+                                Convene
+                            </button>
+                        )}
+                    </div>
+
+                    <div className="bg-[#1e1f20] border border-gray-700 rounded-lg p-5">
+                        <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-400 mb-3">Past sessions</h2>
+                        {sessions.length === 0 && <p className="text-xs text-gray-500">No round tables yet.</p>}
+                        <ul className="space-y-2">
+                            {sessions.map(session => (
+                                <li key={session.id} className="flex items-start justify-between gap-2">
+                                    <button
+                                        onClick={() => setActiveSession(session)}
+                                        className={`flex-1 min-w-0 text-left text-sm ${activeSession?.id === session.id ? 'text-blue-300' : 'text-gray-300 hover:text-white'}`}
+                                    >
+                                        <p className="truncate">{session.topic}</p>
+                                        <p className="text-xs text-gray-500">
+                                            {new Date(session.createdAt).toLocaleString()} · {STATUS_LABELS[session.status]} · {session.turns.length} turns
+                                        </p>
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(session.id)}
+                                        disabled={isRunning && activeSession?.id === session.id}
+                                        aria-label="Delete session"
+                                        className="p-1 text-gray-500 hover:text-red-400 disabled:opacity-40"
+                                    >
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                </div>
+
+                <div className="lg:col-span-2 flex flex-col min-h-0 bg-[#1e1f20] border border-gray-700 rounded-lg">
+                    {!activeSession ? (
+                        <div className="flex-1 flex items-center justify-center text-sm text-gray-500 p-6">
+                            Seat at least two performers and give them a topic to begin.
+                        </div>
+                    ) : (
+                        <>
+                            <div className="px-5 py-4 border-b border-gray-700">
+                                <h2 className="text-lg font-semibold text-gray-100">{activeSession.topic}</h2>
+                                <p className="text-xs text-gray-500">
+                                    {STATUS_LABELS[activeSession.status]}
+                                    {activeSession.stopReason && ` · ${activeSession.stopReason}`}
+                                    {' · '}{activeSession.performerIds.map(performerName).join(', ')}
+                                </p>
+                                {activeSession.error && <p className="text-xs text-red-400 mt-1">{activeSession.error}</p>}
+                            </div>
+                            <div className="flex-1 min-h-0 overflow-y-auto p-5 space-y-4">
+                                {activeSession.turns.map((turn, index) => (
+                                    <React.Fragment key={turn.id}>
+                                        {(index === 0 || activeSession.turns[index - 1].round !== turn.round) && (
+                                            <div className="text-[10px] uppercase tracking-widest text-gray-500 text-center">Round {turn.round}</div>
+                                        )}
+                                        <div className="border border-gray-700 rounded-lg p-4 bg-[#141517]">
+                                            <div className="flex items-center justify-between gap-2 mb-2">
+                                                <span className="text-sm font-semibold text-gray-200">{turn.speakerName}</span>
+                                                <div className="flex items-center gap-2">
+                                                    <span className="text-[10px] text-gray-500" title="Moderator selection score">floor {turn.selectionScore.toFixed(2)}</span>
+                                                    <span className={`text-[10px] uppercase tracking-wider px-2 py-0.5 rounded-full border ${STANCE_STYLES[turn.stance]}`}>
+                                                        {turn.stance}
+                                                    </span>
+                                                </div>
+                                            </div>
+                                            <p className="text-sm text-gray-300 whitespace-pre-wrap">{turn.content}</p>
+                                        </div>
+                                    </React.Fragment>
+                                ))}
+                                {activeSession.status === 'running' && (
+                                    <p className="text-xs text-gray-500 animate-pulse">The moderator is choosing the next speaker…</p>
+                                )}
+                                {activeSession.summary && (
+                                    <div className="border border-blue-600/40 rounded-lg p-4 bg-blue-900/10 space-y-3">
+                                        <h3 className="text-sm font-semibold text-blue-200">Moderator summary</h3>
+                                        {activeSession.summary.summary && <p className="text-sm text-gray-300">{activeSession.summary.summary}</p>}
+                                        {activeSession.summary.consensus.length > 0 && (
+                                            <div>
+                                                <h4 className="text-xs font-semibold uppercase tracking-wide text-emerald-300 mb-1">Consensus</h4>
+                                                <ul className="list-disc list-inside text-sm text-gray-300 space-y-1">
+                                                    {activeSession.summary.consensus.map((point, index) => <li key={index}>{point}</li>)}
+                                                </ul>
+                                            </div>
+                                        )}
+                                        {activeSession.summary.dissent.length > 0 && (
+                                            <div>
+                                                <h4 className="text-xs font-semibold uppercase tracking-wide text-red-300 mb-1">Dissent</h4>
+                                                <ul className="text-sm text-gray-300 space-y-1">
+                                                    {activeSession.summary.dissent.map((entry, index) => (
+                                                        <li key={index}><span className="font-semibold">{entry.performerName}:</span> {entry.position}</li>
+                                                    ))}
+                                                </ul>
+                                            </div>
+                                        )}
+                                        {activeSession.summary.openQuestions.length > 0 && (
+                                            <div>
+                                                <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-1">Open questions</h4>
+                                                <ul className="list-disc list-inside text-sm text-gray-300 space-y-1">
+                                                    {activeSession.summary.openQuestions.map((question, index) => <li key={index}>{question}</li>)}
+                                                </ul>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RoundTablePage;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
     loadAiSettings,
     saveAiSettings,
@@ -7,14 +7,35 @@ import {
     GOOGLE_MODELS,
     OPENAI_MODELS,
     OPENROUTER_MODELS,
-    AIProvider
+    AIProvider,
+    EmbeddingProviderId
 } from '../services/aiService';
+import { getAllEscortDefinitions } from '../services/escorts';
+import { getAgentTools, MAX_TOOL_ITERATIONS } from '../services/agentTools';
+import {
+    loadIntelligenceLogSettings,
+    saveIntelligenceLogSettings,
+    pruneIntelligenceLog,
+    IntelligenceLogSettings
+} from '../services/intelligenceLog';
+import {
+    downloadWorkspaceBundle,
+    parseWorkspaceBundle,
+    importWorkspace,
+    WorkspaceImportMode
+} from '../services/workspaceBundle';
+import CustomLensSettings from '../components/CustomLensSettings';
+import WatcherPolicySettings from '../components/WatcherPolicySettings';
+import FollowUpRuleSettings from '../components/FollowUpRuleSettings';
+import SentimentAnalyzerSettings from '../components/SentimentAnalyzerSettings';
+import AutonomousDmSettings from '../components/AutonomousDmSettings';
+import CredentialVaultSettings from '../components/CredentialVaultSettings';
+import CredentialSelect from '../components/CredentialSelect';
 
 interface ProviderConfig {
     id: AIProvider;
     title: string;
     description: string;
-    apiKeyField: keyof Pick<AiSettings, 'googleApiKey' | 'openaiApiKey' | 'openRouterApiKey'>;
     modelField: keyof Pick<AiSettings, 'googleModel' | 'openaiModel' | 'openRouterModel'>;
     models: readonly string[];
     helperText: string;
@@ -27,6 +48,7 @@ const ADMONITION_OPTIONS: Array<{ key: keyof AdmonitionVisibility; label: string
   { key: 'memory', label: 'Memory', description: 'Reveal saved memory summaries and tags.' },
   { key: 'tasks', label: 'Task List', description: 'Show generated task lists for the response.' },
   { key: 'audit', label: 'Task Audit', description: 'Show completion audit for generated tasks.' },
+  { key: 'toolCalls', label: 'Tool Calls', description: 'List the tools the agent called and their arguments.' },
   { key: 'postProcessing', label: 'Post-processing', description: 'Expose sentiment, subtext, and other post-processing callouts.' }
 ];
 
@@ -35,16 +57,14 @@ const PROVIDER_CONFIGS: ProviderConfig[] = [
         id: 'google',
         title: 'Google Gemini',
         description: 'Use Gemini via Google AI Studio.',
-        apiKeyField: 'googleApiKey',
         modelField: 'googleModel',
         models: GOOGLE_MODELS,
-        helperText: 'Create a Gemini API key in Google AI Studio and paste it here.'
+        helperText: 'Create a Gemini API key in Google AI Studio and add it to the vault.'
     },
     {
         id: 'openai',
         title: 'OpenAI',
         description: 'Use OpenAI chat completions.',
-        apiKeyField: 'openaiApiKey',
         modelField: 'openaiModel',
         models: OPENAI_MODELS,
         helperText: 'Use a standard OpenAI API key with access to the selected model.'
@@ -53,13 +73,21 @@ const PROVIDER_CONFIGS: ProviderConfig[] = [
         id: 'openrouter',
         title: 'OpenRouter',
         description: 'Route through OpenRouter.io.',
-        apiKeyField: 'openRouterApiKey',
         modelField: 'openRouterModel',
         models: OPENROUTER_MODELS,
         helperText: 'Generate an OpenRouter API key and select any supported upstream model.'
     }
 ];
 
+const ESCORT_DEFINITIONS = getAllEscortDefinitions();
+const AGENT_TOOLS = getAgentTools();
+
+const LOG_SETTING_FIELDS: Array<{ key: keyof IntelligenceLogSettings; label: string; description: string }> = [
+  { key: 'retentionDays', label: 'Retention (days)', description: 'Records older than this are pruned.' },
+  { key: 'maxEntries', label: 'Max records', description: 'Oldest records are pruned beyond this count.' },
+  { key: 'maxPayloadChars', label: 'Payload cap (chars)', description: 'Request and response payloads are truncated past this size.' }
+];
+
 const SettingsPage: React.FC = () => {
   const [systemInstruction, setSystemInstruction] = useState(
     () => localStorage.getItem('systemInstruction') || ''
@@ -67,6 +95,13 @@ const SettingsPage: React.FC = () => {
   const [aiSettings, setAiSettings] = useState<AiSettings>(() => loadAiSettings());
   const [instructionSaved, setInstructionSaved] = useState(false);
   const [aiSettingsSaved, setAiSettingsSaved] = useState(false);
+  const [logSettings, setLogSettings] = useState<IntelligenceLogSettings>(() => loadIntelligenceLogSettings());
+  const [logStatus, setLogStatus] = useState<string | null>(null);
+  const [stripApiKeysOnExport, setStripApiKeysOnExport] = useState(true);
+  const [importMode, setImportMode] = useState<WorkspaceImportMode>('merge');
+  const [backupStatus, setBackupStatus] = useState<{ tone: 'success' | 'error'; message: string; details?: string[] } | null>(null);
+  const [isBackupBusy, setIsBackupBusy] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const handleSaveInstruction = () => {
     localStorage.setItem('systemInstruction', systemInstruction);
@@ -85,13 +120,41 @@ const SettingsPage: React.FC = () => {
     setAiSettings(prev => ({ ...prev, [field]: value } as AiSettings));
   };
 
-  const handleApiKeyChange = (
-    field: ProviderConfig['apiKeyField'],
-    value: string
-  ) => {
-    setAiSettings(prev => ({ ...prev, [field]: value } as AiSettings));
+  const handleCredentialChange = (provider: AIProvider, credentialId: string | undefined) => {
+    setAiSettings(prev => ({ ...prev, credentialIds: { ...prev.credentialIds, [provider]: credentialId } }));
   };
 
+  // Moving keys into the vault rewrites credential references; keep any other unsaved edits.
+  useEffect(() => {
+    const handleSettingsUpdated = () => {
+      const stored = loadAiSettings();
+      setAiSettings(prev => ({ ...prev, credentialIds: stored.credentialIds, legacyApiKeys: stored.legacyApiKeys }));
+    };
+    window.addEventListener('ai-settings-updated', handleSettingsUpdated);
+    return () => window.removeEventListener('ai-settings-updated', handleSettingsUpdated);
+  }, []);
+
+
+  const handleEscortProviderChange = (escortId: string, provider: AIProvider | '') => {
+    setAiSettings(prev => {
+      const escortModels = { ...prev.escortModels };
+      if (!provider) {
+        delete escortModels[escortId];
+      } else {
+        const config = PROVIDER_CONFIGS.find(item => item.id === provider);
+        escortModels[escortId] = { provider, model: prev[config!.modelField] };
+      }
+      return { ...prev, escortModels };
+    });
+  };
+
+  const handleEscortModelChange = (escortId: string, model: string) => {
+    setAiSettings(prev => {
+      const current = prev.escortModels[escortId];
+      if (!current) return prev;
+      return { ...prev, escortModels: { ...prev.escortModels, [escortId]: { ...current, model } } };
+    });
+  };
 
   const handleToggleAdmonition = (key: keyof AdmonitionVisibility) => {
     setAiSettings(prev => ({
@@ -103,6 +166,52 @@ const SettingsPage: React.FC = () => {
     }));
   };
 
+  const handleSaveLogSettings = async () => {
+    saveIntelligenceLogSettings(logSettings);
+    const removed = await pruneIntelligenceLog();
+    setLogStatus(removed > 0 ? `Log settings saved. Pruned ${removed} record${removed === 1 ? '' : 's'}.` : 'Log settings saved.');
+    setTimeout(() => setLogStatus(null), 3000);
+  };
+
+  const handleExportWorkspace = async () => {
+    setIsBackupBusy(true);
+    try {
+      await downloadWorkspaceBundle({ stripApiKeys: stripApiKeysOnExport });
+      setBackupStatus({ tone: 'success', message: 'Workspace bundle exported.' });
+    } catch (error) {
+      setBackupStatus({ tone: 'error', message: error instanceof Error ? error.message : 'Export failed.' });
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
+  const handleImportWorkspace = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (importMode === 'replace' && !window.confirm('Replace will erase all current workspace data before importing. Continue?')) {
+      return;
+    }
+    setIsBackupBusy(true);
+    try {
+      const bundle = parseWorkspaceBundle(await file.text());
+      const summary = await importWorkspace(bundle, { mode: importMode });
+      const imported = Object.values(summary.tables).reduce((acc, count) => acc + count, 0);
+      setBackupStatus({
+        tone: 'success',
+        message: `Imported ${imported} record${imported === 1 ? '' : 's'} (${summary.mode}).`,
+        details: summary.warnings
+      });
+      setAiSettings(loadAiSettings());
+      setLogSettings(loadIntelligenceLogSettings());
+      setSystemInstruction(localStorage.getItem('systemInstruction') || '');
+    } catch (error) {
+      setBackupStatus({ tone: 'error', message: error instanceof Error ? error.message : 'Import failed.' });
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
   const handleSaveAiSettings = () => {
     saveAiSettings(aiSettings);
     setAiSettingsSaved(true);
@@ -139,12 +248,104 @@ const SettingsPage: React.FC = () => {
             )}
         </div>
 
+        <div className="bg-[#1e1f20] p-6 rounded-lg border border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-200">
+                Workspace Backup
+            </h3>
+            <p className="text-sm text-gray-400 mt-1 mb-4">
+                Export every table and setting into a single versioned bundle, or restore one from another machine. Merge keeps existing records and overwrites matching ones; replace starts from a clean slate.
+            </p>
+            <label className="flex items-center gap-2 text-sm text-gray-300 mb-4">
+                <input
+                    type="checkbox"
+                    className="h-4 w-4 text-blue-500 focus:ring-blue-500"
+                    checked={stripApiKeysOnExport}
+                    onChange={() => setStripApiKeysOnExport(prev => !prev)}
+                />
+                Strip API keys from settings and performers
+            </label>
+            <div className="flex flex-wrap items-center gap-3">
+                <button
+                    onClick={handleExportWorkspace}
+                    disabled={isBackupBusy}
+                    className="px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                    Export Workspace
+                </button>
+                <select
+                    value={importMode}
+                    onChange={(event) => setImportMode(event.target.value as WorkspaceImportMode)}
+                    className="bg-[#2a2b2c] text-gray-300 rounded-lg p-2 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    <option value="merge">Merge into current</option>
+                    <option value="replace">Replace current</option>
+                </select>
+                <button
+                    onClick={() => importInputRef.current?.click()}
+                    disabled={isBackupBusy}
+                    className="px-4 py-2 border border-gray-600 text-gray-200 font-semibold rounded-lg hover:border-blue-500 transition-colors disabled:opacity-50"
+                >
+                    Import Bundle
+                </button>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={handleImportWorkspace}
+                />
+            </div>
+            {backupStatus && (
+                <div className={`mt-3 text-sm ${backupStatus.tone === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+                    <p>{backupStatus.message}</p>
+                    {backupStatus.details?.map(detail => (
+                        <p key={detail} className="text-xs text-gray-400">{detail}</p>
+                    ))}
+                </div>
+            )}
+        </div>
+
+        <div className="bg-[#1e1f20] p-6 rounded-lg border border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-200">
+                Intelligence Log
+            </h3>
+            <p className="text-sm text-gray-400 mt-1 mb-4">
+                Every generation and update is recorded in IndexedDB. Control how long records are kept and how much payload detail is stored.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                {LOG_SETTING_FIELDS.map(field => (
+                    <label key={field.key} className="block">
+                        <span className="block text-xs font-medium text-gray-400 uppercase mb-1">{field.label}</span>
+                        <input
+                            type="number"
+                            min={1}
+                            value={logSettings[field.key]}
+                            onChange={(event) => setLogSettings(prev => ({ ...prev, [field.key]: Math.max(1, Number(event.target.value) || 1) }))}
+                            className="w-full bg-[#2a2b2c] text-gray-300 rounded-lg p-2 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <span className="block text-xs text-gray-500 mt-1">{field.description}</span>
+                    </label>
+                ))}
+            </div>
+            <button
+                onClick={handleSaveLogSettings}
+                className="mt-4 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors"
+            >
+                Save Log Settings
+            </button>
+            {logStatus && (
+                <p className="mt-2 text-sm text-green-400">{logStatus}</p>
+            )}
+        </div>
+
+        <CredentialVaultSettings />
+
         <div className="bg-[#1e1f20] p-6 rounded-lg border border-gray-700">
             <h3 className="text-lg font-semibold text-gray-200">
                 AI Provider Configuration
             </h3>
             <p className="text-sm text-gray-400 mt-1 mb-4">
-                Choose which provider to use at runtime and configure API keys and default models. All keys are stored locally in your browser so you can bring your own credentials.
+                Choose which provider to use at runtime and pick each provider's credential and default model. Keys are managed in the credential vault above.
             </p>
 
             <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -165,7 +366,7 @@ const SettingsPage: React.FC = () => {
             <div className="space-y-6">
                 {PROVIDER_CONFIGS.map(config => {
                     const isActive = aiSettings.provider === config.id;
-                    const apiKeyValue = aiSettings[config.apiKeyField];
+                    const hasLegacyKey = !!aiSettings.legacyApiKeys[config.id];
                     const modelValue = aiSettings[config.modelField];
 
                     return (
@@ -186,13 +387,13 @@ const SettingsPage: React.FC = () => {
                             </div>
 
                             <label className="block text-xs font-medium text-gray-400 uppercase mb-1">
-                                API Key
+                                Credential
                             </label>
-                            <input
-                                type="password"
-                                value={apiKeyValue}
-                                onChange={(event) => handleApiKeyChange(config.apiKeyField, event.target.value)}
-                                placeholder="Enter API key"
+                            <CredentialSelect
+                                provider={config.id}
+                                value={aiSettings.credentialIds[config.id]}
+                                onChange={(credentialId) => handleCredentialChange(config.id, credentialId)}
+                                emptyLabel={hasLegacyKey ? 'Saved plaintext key (move it into the vault)' : 'No credential'}
                                 className="w-full bg-[#2a2b2c] text-gray-300 rounded-lg p-3 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 mb-3"
                             />
                             <p className="text-xs text-gray-500 mb-4">{config.helperText}</p>
@@ -216,6 +417,94 @@ const SettingsPage: React.FC = () => {
                 })}
             </div>
 
+        <div className="bg-[#1e1f20] p-6 rounded-lg border border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-200">Escort Models</h3>
+            <p className="text-sm text-gray-400 mt-1 mb-4">Escorts follow the active provider by default. Pin an escort to a specific provider and model to trade speed for depth where it matters. The pinned provider still uses the credential configured above.</p>
+            <div className="space-y-2">
+                {ESCORT_DEFINITIONS.map(escort => {
+                    const override = aiSettings.escortModels[escort.id];
+                    const providerConfig = override ? PROVIDER_CONFIGS.find(config => config.id === override.provider) : null;
+                    return (
+                        <div key={escort.id} className="flex items-center gap-3 bg-[#161719] border border-gray-700 rounded-lg p-3">
+                            <div className="flex-1 min-w-0">
+                                <div className="text-sm font-semibold text-gray-200">{escort.name}</div>
+                                <p className="text-xs text-gray-500 truncate">{escort.description}</p>
+                            </div>
+                            <select
+                                value={override?.provider ?? ''}
+                                onChange={(event) => handleEscortProviderChange(escort.id, event.target.value as AIProvider | '')}
+                                className="bg-[#2a2b2c] text-gray-300 text-sm rounded-lg p-2 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                <option value="">Active provider</option>
+                                {PROVIDER_CONFIGS.map(config => (
+                                    <option key={config.id} value={config.id}>
+                                        {config.title}
+                                    </option>
+                                ))}
+                            </select>
+                            <select
+                                value={override?.model ?? ''}
+                                disabled={!providerConfig}
+                                onChange={(event) => handleEscortModelChange(escort.id, event.target.value)}
+                                className="bg-[#2a2b2c] text-gray-300 text-sm rounded-lg p-2 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                            >
+                                {!providerConfig && <option value="">Default model</option>}
+                                {providerConfig?.models.map(model => (
+                                    <option key={model} value={model}>
+                                        {model}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+
+        <div className="bg-[#1e1f20] p-6 rounded-lg border border-gray-700">
+            <label className="flex items-start justify-between gap-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-200">Agent Tools</h3>
+                    <p className="text-sm text-gray-400 mt-1">Let Seasuite look up and update workspace data mid-turn, up to {MAX_TOOL_ITERATIONS} rounds of calls per reply. Each round is an extra model request; on Gemini the lookup runs as a separate pass before the answer.</p>
+                </div>
+                <input
+                    type="checkbox"
+                    className="mt-1 h-4 w-4 text-blue-500 focus:ring-blue-500"
+                    checked={aiSettings.agentToolsEnabled}
+                    onChange={() => setAiSettings(prev => ({ ...prev, agentToolsEnabled: !prev.agentToolsEnabled }))}
+                />
+            </label>
+            <div className="flex flex-wrap gap-2 mt-3">
+                {AGENT_TOOLS.map(tool => (
+                    <span
+                        key={tool.name}
+                        title={tool.description}
+                        className={`px-2 py-0.5 rounded-full border text-xs font-mono ${aiSettings.agentToolsEnabled ? 'border-cyan-500/40 text-cyan-200' : 'border-gray-700 text-gray-500'}`}
+                    >
+                        {tool.name}
+                    </span>
+                ))}
+            </div>
+        </div>
+
+        <div className="bg-[#1e1f20] p-6 rounded-lg border border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-200">Memory Retrieval</h3>
+            <p className="text-sm text-gray-400 mt-1 mb-4">Chat context and the Librarian blend keyword matches with embedding similarity. The local embedder runs offline; OpenAI embeddings understand paraphrases better but send memory text to OpenAI and use the OpenAI key above. Each embedder keeps its own index, built lazily on the next search.</p>
+            <select
+                value={aiSettings.embeddingProvider}
+                onChange={(event) => setAiSettings(prev => ({ ...prev, embeddingProvider: event.target.value as EmbeddingProviderId }))}
+                className="w-full bg-[#2a2b2c] text-gray-300 rounded-lg p-3 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+                <option value="local-hash">Local hashing embedder (offline)</option>
+                <option value="openai">OpenAI text-embedding-3-small</option>
+            </select>
+        </div>
+
+        <SentimentAnalyzerSettings
+            value={aiSettings.sentimentAnalyzer}
+            onChange={(sentimentAnalyzer) => setAiSettings(prev => ({ ...prev, sentimentAnalyzer }))}
+        />
+
         <div className="bg-[#1e1f20] p-6 rounded-lg border border-gray-700">
             <h3 className="text-lg font-semibold text-gray-200">Transparency Controls</h3>
             <p className="text-sm text-gray-400 mt-1 mb-4">Choose which markdown callouts (admonitions) appear in the chat transcript when the agent responds.</p>
@@ -247,6 +536,14 @@ const SettingsPage: React.FC = () => {
             {aiSettingsSaved && (
                 <p className="mt-2 text-sm text-green-400">AI settings saved.</p>
             )}
+
+        <CustomLensSettings />
+
+        <WatcherPolicySettings />
+
+        <AutonomousDmSettings />
+
+        <FollowUpRuleSettings />
         </div>
       </div>
     </div>
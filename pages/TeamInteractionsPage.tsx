@@ -1,23 +1,28 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { formatDistanceToNow } from 'date-fns';
+import { formatDistanceToNow, startOfWeek, subWeeks } from 'date-fns';
 import {
   getAllPerformers,
   getPerformerInteractions,
   getInteractionSummaries,
+  getInteractionRollups,
+  rebuildInteractionSummaries,
+  verifyInteractionSummaries,
   getAllSecrets,
   getDramaEvents,
   getActiveCoordinationPlans,
   revealSecret,
   getPlayerProgress,
   getFollowUps,
-  updateFollowUp,
-  getAllRelationships
+  getAllRelationships,
+  getAllPrivateConversations,
+  getMissionDefinitions
 } from '../services/db';
 import {
   PerformerProfile,
   PerformerInteractionEvent,
   PerformerInteractionSummary,
+  PerformerInteractionRollup,
   PerformerSecret,
   DramaEvent,
   CoordinationPlan,
@@ -28,20 +33,36 @@ import {
   SkillBranchId,
   IntelligenceFollowUp,
   FollowUpStatus,
-  PerformerRelationship
+  PerformerRelationship,
+  PrivateConversation
 } from '../types';
 import { generateSocialSignals, SocialSignal } from '../services/socialSignals';
 import { TRAIT_DEFINITIONS, withDefaultTraits } from '../services/socialModel';
 import { computeSkillAvailability } from '../services/progressionEngine';
 import { SKILL_BRANCHES } from '../services/skills';
-import { MISSION_DEFINITIONS } from '../services/missionDefinitions';
-import { getIntelligenceLog, IntelligenceRecord } from '../services/intelligenceLog';
+import { getRecentIntelligence, countIntelligenceLog, IntelligenceRecord } from '../services/intelligenceLog';
 import RelationshipGraph from '../components/RelationshipGraph';
 import RomanceTimeline from '../components/RomanceTimeline';
 import DramaIntensityTimeline from '../components/DramaIntensityTimeline';
+import SecretBlastRadius from '../components/SecretBlastRadius';
+import { buildGossipNetwork } from '../services/gossipNetwork';
+import { assignFollowUp, buildFollowUpAgingReport, isFollowUpSnoozed, setFollowUpStatus, snoozeFollowUp } from '../services/followUps';
 
 const MAX_SIGNAL_FEED = 12;
+const INTELLIGENCE_HIGHLIGHT_COUNT = 8;
 const TEAM_FOCUS_BRANCHES: SkillBranchId[] = ['social_engineering', 'diplomacy', 'intelligence'];
+const PULSE_WEEKS = 8;
+const SNOOZE_OPTIONS: Array<{ label: string; hours: number }> = [
+  { label: '4h', hours: 4 },
+  { label: '1d', hours: 24 },
+  { label: '1w', hours: 168 }
+];
+const PRIORITY_BADGES: Record<string, string> = {
+  urgent: 'border-red-500/50 bg-red-500/15 text-red-200',
+  high: 'border-amber-400/50 bg-amber-400/15 text-amber-100',
+  medium: 'border-blue-400/40 bg-blue-400/10 text-blue-100',
+  low: 'border-gray-600 bg-gray-700/30 text-gray-300'
+};
 
 interface SkillAvailability {
   skill: SkillDefinition;
@@ -53,23 +74,46 @@ const TeamInteractionsPage: React.FC = () => {
   const [performers, setPerformers] = useState<PerformerProfile[]>([]);
   const [interactions, setInteractions] = useState<PerformerInteractionEvent[]>([]);
   const [summaries, setSummaries] = useState<PerformerInteractionSummary[]>([]);
+  const [weeklyRollups, setWeeklyRollups] = useState<PerformerInteractionRollup[]>([]);
+  const [summaryCheck, setSummaryCheck] = useState<string | null>(null);
+  const [isCheckingSummaries, setIsCheckingSummaries] = useState(false);
   const [secrets, setSecrets] = useState<PerformerSecret[]>([]);
   const [dramaEvents, setDramaEvents] = useState<DramaEvent[]>([]);
   const [plans, setPlans] = useState<CoordinationPlan[]>([]);
   const [relationships, setRelationships] = useState<PerformerRelationship[]>([]);
+  const [privateConversations, setPrivateConversations] = useState<PrivateConversation[]>([]);
+  const [blastRadiusSecretId, setBlastRadiusSecretId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedPerformer, setSelectedPerformer] = useState<'all' | string>('all');
   const [playerProgress, setPlayerProgress] = useState<PlayerProgress | null>(null);
   const [skillAvailability, setSkillAvailability] = useState<SkillAvailability[]>([]);
   const [intelligenceRecords, setIntelligenceRecords] = useState<IntelligenceRecord[]>([]);
+  const [intelligenceTotal, setIntelligenceTotal] = useState(0);
   const [followUps, setFollowUps] = useState<IntelligenceFollowUp[]>([]);
+  const [missionDefinitions, setMissionDefinitions] = useState<MissionDefinition[]>([]);
 
   useEffect(() => {
     loadData();
+    const handleRelationshipsUpdate = () => {
+      loadData().catch(error => console.error('Failed to refresh relationships:', error));
+    };
+    window.addEventListener('relationships-updated', handleRelationshipsUpdate);
+    const handleMissionsUpdate = () => {
+      getMissionDefinitions()
+        .then(setMissionDefinitions)
+        .catch(error => console.error('Failed to refresh missions:', error));
+    };
+    window.addEventListener('missions-updated', handleMissionsUpdate);
+    return () => {
+      window.removeEventListener('relationships-updated', handleRelationshipsUpdate);
+      window.removeEventListener('missions-updated', handleMissionsUpdate);
+    };
   }, []);
 
 useEffect(() => {
-  const handleIntelUpdate = () => setIntelligenceRecords(getIntelligenceLog());
+  const handleIntelUpdate = () => {
+    loadIntelligence().catch(error => console.error('Failed to refresh intelligence:', error));
+  };
   const handleFollowUpsUpdate = () => {
     getFollowUps()
       .then(tasks =>
@@ -87,31 +131,43 @@ useEffect(() => {
   };
 }, []);
 
+  const loadIntelligence = async () => {
+    const [recent, total] = await Promise.all([getRecentIntelligence(INTELLIGENCE_HIGHLIGHT_COUNT), countIntelligenceLog()]);
+    setIntelligenceRecords(recent);
+    setIntelligenceTotal(total);
+  };
+
   const loadData = async () => {
     setIsLoading(true);
     try {
-      const [team, events, summaryList, secretList, dramaList, planList, relationshipList, progressData, availability, followUpTasks] = await Promise.all([
+      const [team, events, summaryList, rollupList, secretList, dramaList, planList, relationshipList, progressData, availability, followUpTasks, dmList, missionList] = await Promise.all([
         getAllPerformers(),
         getPerformerInteractions(),
         getInteractionSummaries(),
+        getInteractionRollups('week', { since: startOfWeek(subWeeks(Date.now(), PULSE_WEEKS - 1)).getTime() }),
         getAllSecrets(),
         getDramaEvents(75),
         getActiveCoordinationPlans(),
         getAllRelationships(),
         getPlayerProgress(),
         computeSkillAvailability(),
-        getFollowUps()
+        getFollowUps(),
+        getAllPrivateConversations(),
+        getMissionDefinitions()
       ]);
       setPerformers(team);
       setInteractions(events);
       setSummaries(summaryList);
+      setWeeklyRollups(rollupList);
       setSecrets(secretList);
       setDramaEvents(dramaList);
       setPlans(planList);
       setRelationships(relationshipList);
+      setPrivateConversations(dmList);
+      setMissionDefinitions(missionList);
       setPlayerProgress(progressData);
       setSkillAvailability(availability);
-      setIntelligenceRecords(getIntelligenceLog());
+      await loadIntelligence();
       setFollowUps(followUpTasks);
     } finally {
       setIsLoading(false);
@@ -120,7 +176,9 @@ useEffect(() => {
 
   const handleUpdateFollowUpStatus = async (id: string, status: FollowUpStatus) => {
     try {
-      await updateFollowUp(id, { status });
+      const task = followUps.find(item => item.id === id);
+      if (!task) return;
+      await setFollowUpStatus(task, status);
       setFollowUps(prev =>
         prev.map(task => (task.id === id ? { ...task, status, updatedAt: Date.now() } : task))
       );
@@ -130,7 +188,7 @@ useEffect(() => {
   };
 
   const performerMap = useMemo(() => new Map(performers.map(p => [p.id, p])), [performers]);
-  const missionDefinitionMap = useMemo(() => new Map(MISSION_DEFINITIONS.map(mission => [mission.id, mission])), []);
+  const missionDefinitionMap = useMemo(() => new Map(missionDefinitions.map(mission => [mission.id, mission])), [missionDefinitions]);
   const branchXp = useMemo<Record<SkillBranchId, number>>(() => {
     const defaults: Record<SkillBranchId, number> = {
       social_engineering: 0,
@@ -171,7 +229,54 @@ useEffect(() => {
       .filter((item): item is { mission: MissionProgress; definition: MissionDefinition } => Boolean(item && TEAM_FOCUS_BRANCHES.includes(item.definition.branch)))
       .slice(0, 3);
   }, [playerProgress, missionDefinitionMap]);
-  const intelligenceHighlights = useMemo(() => intelligenceRecords.slice(-8).reverse(), [intelligenceRecords]);
+  const intelligenceHighlights = useMemo(() => [...intelligenceRecords].reverse(), [intelligenceRecords]);
+  const handleVerifySummaries = async () => {
+    setIsCheckingSummaries(true);
+    try {
+      const drift = await verifyInteractionSummaries();
+      const problems = drift.missing.length + drift.stale.length + drift.mismatched.length;
+      setSummaryCheck(problems === 0
+        ? `In sync across ${drift.pairsChecked} pairs and ${drift.rollupsChecked} rollups.`
+        : `Drift found: ${drift.missing.length} missing, ${drift.stale.length} stale, ${drift.mismatched.length} mismatched values. Rebuild to fix.`);
+    } catch (error) {
+      console.error('Failed to verify interaction summaries:', error);
+      setSummaryCheck('Could not verify summaries.');
+    } finally {
+      setIsCheckingSummaries(false);
+    }
+  };
+
+  const handleRebuildSummaries = async () => {
+    setIsCheckingSummaries(true);
+    try {
+      const result = await rebuildInteractionSummaries();
+      setSummaryCheck(`Rebuilt ${result.pairs} pairs and ${result.rollups} rollups from raw interactions.`);
+      await loadData();
+    } catch (error) {
+      console.error('Failed to rebuild interaction summaries:', error);
+      setSummaryCheck('Could not rebuild summaries.');
+    } finally {
+      setIsCheckingSummaries(false);
+    }
+  };
+
+  const handleSnoozeFollowUp = async (task: IntelligenceFollowUp, hours: number) => {
+    try {
+      await snoozeFollowUp(task, Date.now() + hours * 60 * 60 * 1000);
+    } catch (error) {
+      console.error('Failed to snooze follow-up:', error);
+    }
+  };
+
+  const handleAssignFollowUp = async (id: string, performerId: string) => {
+    try {
+      await assignFollowUp(id, performerId || null);
+    } catch (error) {
+      console.error('Failed to assign follow-up:', error);
+    }
+  };
+
+  const followUpAging = useMemo(() => buildFollowUpAgingReport(followUps), [followUps]);
   const followUpPipeline = useMemo(() => {
     const pending = followUps.filter(task => task.status === 'pending');
     const inProgress = followUps.filter(task => task.status === 'in_progress');
@@ -188,7 +293,7 @@ useEffect(() => {
       pending: sortByDue(pending),
       inProgress: sortByDue(inProgress),
       completed: [...completed].sort((a, b) => (b.updatedAt ?? 0) - (a.updatedAt ?? 0)),
-      next: sortByDue([...pending, ...inProgress]).slice(0, 4)
+      next: sortByDue([...pending, ...inProgress].filter(task => !isFollowUpSnoozed(task))).slice(0, 4)
     };
   }, [followUps]);
 
@@ -243,6 +348,11 @@ useEffect(() => {
     return performerMap.get(id)?.name || 'Unknown';
   };
 
+  const gossipNetwork = useMemo(
+    () => buildGossipNetwork(performers, relationships, privateConversations),
+    [performers, relationships, privateConversations]
+  );
+
   const handleRevealSecret = async (secretId: string, revealTo: string) => {
     await revealSecret(secretId, revealTo);
     await loadData();
@@ -250,6 +360,20 @@ useEffect(() => {
 
   const displaySignals = filteredSignals.slice(0, MAX_SIGNAL_FEED);
   const highlightSummaries = [...filteredSummaries].sort((a, b) => (b.pressureScore ?? 0) - (a.pressureScore ?? 0)).slice(0, 6);
+  const weeklyTrendByPair = useMemo(() => {
+    const firstWeek = startOfWeek(subWeeks(Date.now(), PULSE_WEEKS - 1)).getTime();
+    const weekStarts = Array.from({ length: PULSE_WEEKS }, (_, index) => startOfWeek(subWeeks(Date.now(), PULSE_WEEKS - 1 - index)).getTime());
+    const byPair = new Map<string, Array<PerformerInteractionRollup | null>>();
+    weeklyRollups
+      .filter(rollup => rollup.bucketStart >= firstWeek)
+      .forEach(rollup => {
+        const row = byPair.get(rollup.pairKey) ?? weekStarts.map(() => null);
+        const index = weekStarts.indexOf(rollup.bucketStart);
+        if (index !== -1) row[index] = rollup;
+        byPair.set(rollup.pairKey, row);
+      });
+    return byPair;
+  }, [weeklyRollups]);
 
   const traitPerformers = selectedPerformer === 'all'
     ? performers
@@ -457,8 +581,16 @@ useEffect(() => {
                 {followUpPipeline.next.map(task => (
                   <div key={task.id} className="rounded-lg border border-amber-500/30 bg-amber-500/10 p-3 text-sm text-amber-100">
                     <div className="flex items-center justify-between text-xs">
-                      <span className="font-semibold uppercase tracking-wider">{task.category}</span>
-                      <span className="text-[11px] text-amber-200/80">
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold uppercase tracking-wider">{task.category}</span>
+                        <span className={`rounded-full border px-2 py-0.5 text-[10px] uppercase ${PRIORITY_BADGES[task.priority ?? 'medium']}`}>
+                          {task.priority ?? 'medium'}
+                        </span>
+                        {(task.escalationLevel ?? 0) > 0 && (
+                          <span className="text-[10px] uppercase text-red-300">Escalated ×{task.escalationLevel}</span>
+                        )}
+                      </div>
+                      <span className={`text-[11px] ${task.dueAt && task.dueAt < Date.now() ? 'text-red-300' : 'text-amber-200/80'}`}>
                         {task.dueAt ? formatDistanceToNow(task.dueAt, { addSuffix: true }) : 'No due date'}
                       </span>
                     </div>
@@ -479,6 +611,33 @@ useEffect(() => {
                         )}
                       </div>
                     )}
+                    <div className="mt-2 flex flex-wrap items-center gap-2 text-[11px]">
+                      <select
+                        value={task.assigneeId ?? ''}
+                        onChange={event => handleAssignFollowUp(task.id, event.target.value)}
+                        className="rounded-md border border-amber-500/30 bg-[#111315] px-2 py-1 text-amber-100"
+                      >
+                        <option value="">Unassigned</option>
+                        {performers.map(performer => (
+                          <option key={performer.id} value={performer.id}>{performer.name}</option>
+                        ))}
+                      </select>
+                      {task.recurrence && (
+                        <span className="text-amber-200/70">Repeats every {task.recurrence.intervalHours}h</span>
+                      )}
+                    </div>
+                    <div className="mt-2 flex flex-wrap items-center gap-2 text-[11px]">
+                      <span className="text-amber-200/70">Snooze</span>
+                      {SNOOZE_OPTIONS.map(option => (
+                        <button
+                          key={option.label}
+                          onClick={() => handleSnoozeFollowUp(task, option.hours)}
+                          className="rounded-md border border-gray-600 px-2 py-1 text-gray-300 hover:bg-gray-700/40"
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
                     <div className="mt-2 flex items-center gap-2 text-[11px]">
                       {task.status !== 'in_progress' && (
                         <button
@@ -576,6 +735,96 @@ useEffect(() => {
           </div>
         </section>
 
+        <section className="rounded-xl border border-gray-800 bg-[#1B1C1F] p-6">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <h2 className="text-lg font-semibold text-red-300">Follow-Up Aging</h2>
+              <p className="text-xs text-gray-500">How long open follow-ups have been waiting and where the overdue work sits.</p>
+            </div>
+            <div className="flex items-center gap-2 text-[11px] uppercase tracking-wider text-gray-500">
+              <span className="rounded-full border border-red-500/30 bg-red-500/10 px-2 py-0.5 text-red-200">
+                Overdue {followUpAging.overdue}
+              </span>
+              <span className="rounded-full border border-amber-500/30 bg-amber-500/10 px-2 py-0.5 text-amber-200">
+                Escalated {followUpAging.escalated}
+              </span>
+              <span className="rounded-full border border-gray-600 bg-gray-700/30 px-2 py-0.5 text-gray-300">
+                Snoozed {followUpAging.snoozed}
+              </span>
+            </div>
+          </div>
+          {followUpAging.open === 0 ? (
+            <p className="mt-4 text-xs text-gray-500">No open follow-ups.</p>
+          ) : (
+            <div className="mt-4 grid grid-cols-1 gap-4 lg:grid-cols-3">
+              <div className="rounded-lg border border-gray-800 bg-[#111315] p-4">
+                <h3 className="text-sm font-semibold text-gray-200">By Age</h3>
+                <ul className="mt-3 space-y-2 text-xs">
+                  {followUpAging.buckets.map(bucket => (
+                    <li key={bucket.label}>
+                      <div className="flex items-center justify-between text-gray-300">
+                        <span>{bucket.label}</span>
+                        <span>
+                          {bucket.count}
+                          {bucket.overdue > 0 && <span className="ml-1 text-red-300">({bucket.overdue} overdue)</span>}
+                        </span>
+                      </div>
+                      <div className="mt-1 h-1.5 rounded-full bg-gray-800">
+                        <div
+                          className="h-1.5 rounded-full bg-red-400/70"
+                          style={{ width: `${Math.round((bucket.count / followUpAging.open) * 100)}%` }}
+                        />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+                {followUpAging.oldest && (
+                  <p className="mt-3 text-[11px] text-gray-500">
+                    Oldest: {followUpAging.oldest.title} · opened {formatDistanceToNow(followUpAging.oldest.createdAt, { addSuffix: true })}
+                  </p>
+                )}
+              </div>
+              <div className="rounded-lg border border-gray-800 bg-[#111315] p-4">
+                <h3 className="text-sm font-semibold text-gray-200">By Category</h3>
+                <ul className="mt-3 space-y-1 text-xs text-gray-300">
+                  {followUpAging.byCategory.map(entry => (
+                    <li key={entry.category} className="flex items-center justify-between">
+                      <span className="uppercase tracking-wider">{entry.category}</span>
+                      <span>
+                        {entry.open} open
+                        {entry.overdue > 0 && <span className="ml-1 text-red-300">· {entry.overdue} overdue</span>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <div className="mt-3 flex flex-wrap gap-1 text-[10px] uppercase">
+                  {(Object.entries(followUpAging.byPriority) as Array<[string, number]>)
+                    .filter(([, count]) => count > 0)
+                    .map(([priority, count]) => (
+                      <span key={priority} className={`rounded-full border px-2 py-0.5 ${PRIORITY_BADGES[priority]}`}>
+                        {priority} {count}
+                      </span>
+                    ))}
+                </div>
+              </div>
+              <div className="rounded-lg border border-gray-800 bg-[#111315] p-4">
+                <h3 className="text-sm font-semibold text-gray-200">By Assignee</h3>
+                <ul className="mt-3 space-y-1 text-xs text-gray-300">
+                  {followUpAging.byAssignee.map(entry => (
+                    <li key={entry.assigneeId ?? 'unassigned'} className="flex items-center justify-between">
+                      <span>{entry.assigneeId ? performerMap.get(entry.assigneeId)?.name ?? 'Unknown performer' : 'Unassigned'}</span>
+                      <span>
+                        {entry.open} open
+                        {entry.overdue > 0 && <span className="ml-1 text-red-300">· {entry.overdue} overdue</span>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+        </section>
+
         <section className="rounded-xl border border-gray-800 bg-[#1B1C1F] p-6">
           <div className="flex flex-wrap items-center justify-between gap-2">
             <div>
@@ -583,7 +832,7 @@ useEffect(() => {
               <p className="text-xs text-gray-500">Live capture of brand, client, mission, and social signals.</p>
             </div>
             <span className="rounded-full border border-purple-500/30 bg-purple-500/10 px-3 py-1 text-xs text-purple-200">
-              {intelligenceRecords.length} total
+              {intelligenceTotal} total
             </span>
           </div>
           <div className="mt-4 space-y-3">
@@ -645,8 +894,29 @@ useEffect(() => {
 
           <div className="space-y-4">
             <div className="rounded-xl border border-gray-800 bg-[#1B1C1F] p-5">
-              <h2 className="text-lg font-semibold text-blue-300">Relationship Pulse</h2>
-              <p className="text-xs text-gray-500">Average sentiment {(averageSentiment * 100).toFixed(0)}%</p>
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <h2 className="text-lg font-semibold text-blue-300">Relationship Pulse</h2>
+                  <p className="text-xs text-gray-500">Average sentiment {(averageSentiment * 100).toFixed(0)}%</p>
+                </div>
+                <div className="flex items-center gap-1 text-[11px]">
+                  <button
+                    onClick={handleVerifySummaries}
+                    disabled={isCheckingSummaries}
+                    className="rounded-md border border-gray-700 px-2 py-1 text-gray-300 hover:bg-gray-800 disabled:opacity-60"
+                  >
+                    Verify
+                  </button>
+                  <button
+                    onClick={handleRebuildSummaries}
+                    disabled={isCheckingSummaries}
+                    className="rounded-md border border-gray-700 px-2 py-1 text-gray-300 hover:bg-gray-800 disabled:opacity-60"
+                  >
+                    Rebuild
+                  </button>
+                </div>
+              </div>
+              {summaryCheck && <p className="mt-2 text-[11px] text-gray-400">{summaryCheck}</p>}
               <div className="mt-4 space-y-3">
                 {highlightSummaries.length === 0 ? (
                   <p className="text-sm text-gray-500">No recorded interactions yet.</p>
@@ -673,6 +943,26 @@ useEffect(() => {
                             <div className="text-red-200">{pressure.toFixed(1)}</div>
                           </div>
                         </div>
+                        {weeklyTrendByPair.has(summary.pairKey) && (
+                          <div className="mt-3">
+                            <div className="text-[10px] uppercase tracking-wide text-gray-500">Weekly sentiment · last {PULSE_WEEKS} weeks</div>
+                            <div className="mt-1 flex h-8 items-end gap-1">
+                              {weeklyTrendByPair.get(summary.pairKey)!.map((week, index) => {
+                                const weekSentiment = week && week.sentimentCount ? week.sentimentSum / week.sentimentCount : 0;
+                                return (
+                                  <div
+                                    key={index}
+                                    title={week
+                                      ? `${week.interactions} interactions · sentiment ${(weekSentiment * 100).toFixed(0)}% · pressure ${week.pressureScore.toFixed(1)} · intrigue ${week.intrigueCount}`
+                                      : 'No interactions'}
+                                    className={`flex-1 rounded-sm ${!week ? 'bg-gray-800' : weekSentiment >= 0 ? 'bg-emerald-400/70' : 'bg-red-400/70'}`}
+                                    style={{ height: week ? `${Math.max(15, Math.min(100, Math.abs(weekSentiment) * 100))}%` : '10%' }}
+                                  />
+                                );
+                              })}
+                            </div>
+                          </div>
+                        )}
                         {summary.tags.length > 0 && (
                           <div className="mt-3 flex flex-wrap gap-1 text-[10px] uppercase tracking-wide text-gray-500">
                             {summary.tags.slice(0, 6).map(tag => (
@@ -763,7 +1053,20 @@ useEffect(() => {
                     <li key={secret.id} className="rounded-lg border border-gray-800 bg-[#111315] p-3">
                       <div className="text-xs uppercase tracking-wider text-gray-500">{secret.type.toUpperCase()} • Held by {holder}</div>
                       <p className="mt-2 text-sm text-gray-200 leading-relaxed">{secret.content}</p>
-                      <div className="mt-3 text-[11px] text-gray-500">Known by: {secret.knownBy.length ? secret.knownBy.map(getPerformerName).join(', ') : 'Nobody yet'}</div>
+                      <div className="mt-3 flex items-center justify-between gap-2 text-[11px] text-gray-500">
+                        <span>Known by: {secret.knownBy.length ? secret.knownBy.map(getPerformerName).join(', ') : 'Nobody yet'}</span>
+                        {unrevealed.length > 0 && (
+                          <button
+                            onClick={() => setBlastRadiusSecretId(blastRadiusSecretId === secret.id ? null : secret.id)}
+                            className="text-amber-300 hover:text-amber-200"
+                          >
+                            {blastRadiusSecretId === secret.id ? 'Hide blast radius' : 'Blast radius'}
+                          </button>
+                        )}
+                      </div>
+                      {blastRadiusSecretId === secret.id && (
+                        <SecretBlastRadius secret={secret} network={gossipNetwork} getPerformerName={getPerformerName} />
+                      )}
                       {unrevealed.length > 0 && (
                         <div className="mt-3 flex flex-wrap gap-2 text-[11px]">
                           {unrevealed.map(option => (
@@ -0,0 +1,286 @@
+import { AgentToolCallTrace, IntelligenceCategory } from '../types';
+import {
+  addFollowUp,
+  getAllClientProfiles,
+  getAllEntities,
+  getJournalEntry,
+  getPlayerProgress,
+  upsertJournalEntry
+} from './db';
+import { searchKnowledge } from './librarian';
+import { EscortId, canRunInPipeline, executeEscort, getAllEscortDefinitions } from './escorts';
+
+type ToolParameterType = 'string' | 'number' | 'boolean';
+
+export interface AgentToolParameters {
+  type: 'object';
+  properties: Record<string, { type: ToolParameterType; description: string; enum?: string[] }>;
+  required?: string[];
+}
+
+export interface AgentTool {
+  name: string;
+  description: string;
+  parameters: AgentToolParameters;
+  execute: (args: Record<string, unknown>) => Promise<unknown>;
+}
+
+// Upper bound on model ↔ tool round trips in a single turn.
+export const MAX_TOOL_ITERATIONS = 4;
+const MAX_TOOL_RESULT_CHARS = 4000;
+const MAX_LIST_RESULTS = 10;
+
+const FOLLOW_UP_CATEGORIES: IntelligenceCategory[] = ['brand', 'client', 'social', 'operations', 'mission'];
+
+const stringArg = (args: Record<string, unknown>, key: string): string => {
+  const value = args[key];
+  return typeof value === 'string' ? value.trim() : '';
+};
+
+const requireString = (args: Record<string, unknown>, key: string): string => {
+  const value = stringArg(args, key);
+  if (!value) {
+    throw new Error(`Missing required argument "${key}".`);
+  }
+  return value;
+};
+
+const clampLimit = (value: unknown): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(1, Math.min(MAX_LIST_RESULTS, Math.floor(value))) : 5;
+
+const getUnlockedEscortIds = async (): Promise<Set<EscortId>> => {
+  const progress = await getPlayerProgress();
+  return new Set(
+    progress.earnedRewards.flatMap(reward => (reward.type === 'escort' ? [reward.escortId as EscortId] : []))
+  );
+};
+
+const registry = new Map<string, AgentTool>();
+
+export const registerAgentTool = (tool: AgentTool): void => {
+  registry.set(tool.name, tool);
+};
+
+// Built lazily: escorts imports aiService, which imports this module, so the
+// escort roster is not safe to read while modules are still initializing.
+const createBuiltinTools = (): AgentTool[] => [
+  {
+    name: 'searchKnowledge',
+    description: 'Search stored memories, archived threads, intelligence records and follow-ups. Use before answering questions about past conversations or prior decisions.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Keywords or a natural-language question.' },
+        limit: { type: 'number', description: 'Maximum results (1-10, default 5).' }
+      },
+      required: ['query']
+    },
+    execute: async args => {
+      const results = await searchKnowledge(requireString(args, 'query'));
+      return results.slice(0, clampLimit(args.limit)).map(result => ({
+        type: result.type,
+        title: result.title,
+        snippet: result.snippet,
+        date: new Date(result.timestamp).toISOString().split('T')[0]
+      }));
+    }
+  },
+  {
+    name: 'getClientProfile',
+    description: 'Look up a client profile by name, company or id. Returns the closest match with goals, pain points, objections and history.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Client name, company or profile id.' }
+      },
+      required: ['query']
+    },
+    execute: async args => {
+      const query = requireString(args, 'query').toLowerCase();
+      const profiles = await getAllClientProfiles();
+      const match = profiles.find(profile => profile.id === query)
+        ?? profiles.find(profile => profile.name.toLowerCase() === query)
+        ?? profiles.find(profile =>
+          profile.name.toLowerCase().includes(query) || profile.company?.toLowerCase().includes(query)
+        );
+      if (!match) {
+        return { found: false, knownClients: profiles.slice(0, MAX_LIST_RESULTS).map(profile => profile.name) };
+      }
+      const { createdAt: _createdAt, ...profile } = match;
+      return { found: true, profile };
+    }
+  },
+  {
+    name: 'getAllEntities',
+    description: 'List knowledge-graph entities and their relationships, optionally filtered by a name fragment.',
+    parameters: {
+      type: 'object',
+      properties: {
+        filter: { type: 'string', description: 'Only return entities whose name contains this text.' },
+        limit: { type: 'number', description: 'Maximum entities (1-10, default 5).' }
+      }
+    },
+    execute: async args => {
+      const filter = stringArg(args, 'filter').toLowerCase();
+      const entities = await getAllEntities();
+      return entities
+        .filter(entity => !filter || entity.name.toLowerCase().includes(filter))
+        .sort((a, b) => (b.updatedAt ?? 0) - (a.updatedAt ?? 0))
+        .slice(0, clampLimit(args.limit))
+        .map(entity => ({ name: entity.name, relationships: entity.relationships }));
+    }
+  },
+  {
+    name: 'addFollowUp',
+    description: 'Create a follow-up task for the user. Only use when the user asks for a reminder or clearly commits to a next step.',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', description: 'Short imperative task title.' },
+        description: { type: 'string', description: 'Optional detail or context.' },
+        category: { type: 'string', description: 'Task category.', enum: FOLLOW_UP_CATEGORIES },
+        priority: { type: 'string', description: 'Task priority.', enum: ['low', 'medium', 'high'] },
+        dueDate: { type: 'string', description: 'Optional due date as YYYY-MM-DD.' }
+      },
+      required: ['title']
+    },
+    execute: async args => {
+      const category = stringArg(args, 'category') as IntelligenceCategory;
+      const priority = stringArg(args, 'priority');
+      const dueDate = stringArg(args, 'dueDate');
+      const dueAt = dueDate ? Date.parse(dueDate) : NaN;
+      const followUp = await addFollowUp({
+        title: requireString(args, 'title'),
+        description: stringArg(args, 'description') || undefined,
+        category: FOLLOW_UP_CATEGORIES.includes(category) ? category : 'operations',
+        status: 'pending',
+        sourceRecordId: 'agent-tool',
+        priority: priority === 'low' || priority === 'high' ? priority : 'medium',
+        dueAt: Number.isNaN(dueAt) ? undefined : dueAt,
+        autoGenerated: true
+      });
+      return { created: true, id: followUp.id, title: followUp.title };
+    }
+  },
+  {
+    name: 'upsertJournalEntry',
+    description: "Write to the user's daily journal. Appends to the entry for that date unless mode is \"replace\".",
+    parameters: {
+      type: 'object',
+      properties: {
+        date: { type: 'string', description: 'Entry date as YYYY-MM-DD. Defaults to today.' },
+        content: { type: 'string', description: 'Markdown text to write.' },
+        mode: { type: 'string', description: 'append (default) or replace.', enum: ['append', 'replace'] }
+      },
+      required: ['content']
+    },
+    execute: async args => {
+      const date = stringArg(args, 'date') || new Date().toISOString().split('T')[0];
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        throw new Error('date must be formatted as YYYY-MM-DD.');
+      }
+      const content = requireString(args, 'content');
+      const existing = stringArg(args, 'mode') === 'replace' ? undefined : await getJournalEntry(date);
+      await upsertJournalEntry({
+        date,
+        content: existing?.content ? `${existing.content}\n\n${content}` : content
+      });
+      return { saved: true, date, appended: Boolean(existing?.content) };
+    }
+  },
+  {
+    name: 'executeEscort',
+    description: 'Run one of the unlocked specialist escorts on a focused question and return its analysis. Escorts are slower than other tools; call at most one per turn.',
+    parameters: {
+      type: 'object',
+      properties: {
+        escortId: {
+          type: 'string',
+          description: 'Escort to run.',
+          enum: getAllEscortDefinitions().filter(escort => canRunInPipeline(escort.id)).map(escort => escort.id)
+        },
+        input: { type: 'string', description: 'The question or problem for the escort.' }
+      },
+      required: ['escortId']
+    },
+    execute: async args => {
+      const escortId = requireString(args, 'escortId') as EscortId;
+      if (!canRunInPipeline(escortId)) {
+        throw new Error(`Escort "${escortId}" cannot be run as a tool.`);
+      }
+      const unlocked = await getUnlockedEscortIds();
+      if (!unlocked.has(escortId)) {
+        throw new Error(`Escort "${escortId}" has not been unlocked yet.`);
+      }
+      const result = await executeEscort(escortId, stringArg(args, 'input') || undefined);
+      return { escortId, analysis: result.result };
+    }
+  }
+];
+
+let builtinsRegistered = false;
+
+const ensureBuiltinTools = () => {
+  if (builtinsRegistered) return;
+  builtinsRegistered = true;
+  createBuiltinTools().forEach(tool => {
+    if (!registry.has(tool.name)) registry.set(tool.name, tool);
+  });
+};
+
+export const getAgentTools = (): AgentTool[] => {
+  ensureBuiltinTools();
+  return Array.from(registry.values());
+};
+
+export const getAgentTool = (name: string): AgentTool | undefined => {
+  ensureBuiltinTools();
+  return registry.get(name);
+};
+
+const serializeToolResult = (value: unknown): string => {
+  const json = JSON.stringify(value ?? null) ?? 'null';
+  return json.length > MAX_TOOL_RESULT_CHARS ? `${json.slice(0, MAX_TOOL_RESULT_CHARS)}…(truncated)` : json;
+};
+
+/**
+ * Runs a tool call requested by the model. Failures are captured in the trace
+ * and reported back to the model as an error payload rather than thrown, so a
+ * bad argument does not abort the whole turn.
+ */
+export const runAgentTool = async (
+  call: { id: string; name: string; arguments: Record<string, unknown> },
+  iteration: number
+): Promise<AgentToolCallTrace> => {
+  const startedAt = Date.now();
+  const tool = getAgentTool(call.name);
+  try {
+    if (!tool) {
+      throw new Error(`Unknown tool "${call.name}".`);
+    }
+    const result = serializeToolResult(await tool.execute(call.arguments));
+    return { ...call, iteration, result, durationMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      ...call,
+      iteration,
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startedAt
+    };
+  }
+};
+
+export const toolTraceToModelContent = (trace: AgentToolCallTrace): string =>
+  trace.error ? JSON.stringify({ error: trace.error }) : trace.result ?? 'null';
+
+/** Tool call arguments arrive as a JSON string from OpenAI-compatible APIs. */
+export const parseToolArguments = (raw: unknown): Record<string, unknown> => {
+  if (raw && typeof raw === 'object' && !Array.isArray(raw)) return raw as Record<string, unknown>;
+  if (typeof raw !== 'string' || !raw.trim()) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
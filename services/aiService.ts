@@ -1,8 +1,12 @@
-import { GoogleGenAI, Type, Part } from "@google/genai";
-import { KnowledgeEntity, ChatMessage, AgentResponseParts, Task, AuditResult, JournalEntry, ThreadSummaryResult, PerformerProfile, MemoryGenerationResult, MemoryEvaluationBreakdown, Memory } from '../types';
-import { upsertEntities, getAllJournalEntries, getAllEntities, getPerformerMemories, addPerformerMemory } from './db';
+import { GoogleGenAI, Type, Part, Content } from "@google/genai";
+import { KnowledgeEdge, KnowledgeEvidenceSourceType, KnowledgeObservation, ChatMessage, AgentResponseParts, AgentToolCallTrace, Task, AuditResult, JournalEntry, ThreadSummaryResult, PerformerProfile, ModelRoute, MemoryGenerationResult, MemoryEvaluationBreakdown, Memory } from '../types';
+import { getAllJournalEntries, getAllKnowledgeEdges, getPerformerMemories, addPerformerMemory } from './db';
+import { rankSupportedEdges, recordKnowledgeObservations } from './knowledgeGraph';
 import { logIntelligence } from './intelligenceLog';
+import { createPartialJsonFieldParser, PartialJsonFieldParser } from './partialJson';
+import { AgentTool, MAX_TOOL_ITERATIONS, getAgentTools, parseToolArguments, runAgentTool, toolTraceToModelContent } from './agentTools';
 import { ActiveFeatures } from "../components/ChatInput";
+import { isVaultInitialized, isVaultUnlocked, orderRoutesByHealth, recordCredentialHealth, resolveCredentialSecret } from './credentialVault';
 
 export const PROVIDERS = ['google', 'openai', 'openrouter'] as const;
 export type AIProvider = typeof PROVIDERS[number];
@@ -23,9 +27,15 @@ export const OPENROUTER_MODELS = [
   'anthropic/claude-haiku-4.5'
 ] as const;
 
+export const EMBEDDING_PROVIDERS = ['local-hash', 'openai'] as const;
+export type EmbeddingProviderId = typeof EMBEDDING_PROVIDERS[number];
+
+export const SENTIMENT_ANALYZERS = ['lexicon', 'local', 'llm'] as const;
+export type SentimentAnalyzerId = typeof SENTIMENT_ANALYZERS[number];
+
 export type PostProcessingAction = 'sentiment' | 'subtext' | 'reverse' | 'calendar' | 'spatial' | 'temporal' | 'bias' | 'history';
 
-interface PostProcessingDetail {
+export interface PostProcessingDetail {
     label: string;
     tagline: string;
     instructions: string;
@@ -101,28 +111,38 @@ export interface AdmonitionVisibility {
     memory: boolean;
     tasks: boolean;
     audit: boolean;
+    toolCalls: boolean;
     postProcessing: boolean;
 }
 
+export interface ModelOverride {
+    provider: AIProvider;
+    model: string;
+}
+
 export interface AiSettings {
     provider: AIProvider;
-    googleApiKey: string;
+    // Vault entries used for each provider; the keys themselves live in the credential vault
+    credentialIds: Partial<Record<AIProvider, string>>;
+    // Plaintext keys saved before the vault existed; moved into it when the vault is created
+    legacyApiKeys: Partial<Record<AIProvider, string>>;
     googleModel: typeof GOOGLE_MODELS[number];
-    openaiApiKey: string;
     openaiModel: typeof OPENAI_MODELS[number];
-    openRouterApiKey: string;
     openRouterModel: typeof OPENROUTER_MODELS[number];
     admonitionVisibility: AdmonitionVisibility;
     maxOutputTokens: number;
+    escortModels: Record<string, ModelOverride>;
+    embeddingProvider: EmbeddingProviderId;
+    sentimentAnalyzer: SentimentAnalyzerId;
+    agentToolsEnabled: boolean;
 }
 
 const DEFAULT_AI_SETTINGS: AiSettings = {
     provider: 'google',
-    googleApiKey: '',
+    credentialIds: {},
+    legacyApiKeys: {},
     googleModel: 'gemini-2.5-flash',
-    openaiApiKey: '',
     openaiModel: 'gpt-5-mini-2025-08-07',
-    openRouterApiKey: '',
     openRouterModel: 'openai/gpt-5-nano',
     admonitionVisibility: {
         preflection: true,
@@ -131,9 +151,14 @@ const DEFAULT_AI_SETTINGS: AiSettings = {
         memory: true,
         tasks: true,
         audit: true,
+        toolCalls: true,
         postProcessing: true
     },
-    maxOutputTokens: MAX_OUTPUT_TOKENS_DEFAULT
+    maxOutputTokens: MAX_OUTPUT_TOKENS_DEFAULT,
+    escortModels: {},
+    embeddingProvider: 'local-hash',
+    sentimentAnalyzer: 'local',
+    agentToolsEnabled: true
 };
 
 const SETTINGS_STORAGE_KEY = 'aiSettings';
@@ -141,6 +166,38 @@ const SYSTEM_INSTRUCTION_KEY = 'systemInstruction';
 
 const getLocalStorage = () => (typeof window !== 'undefined' ? window.localStorage : null);
 
+const sanitizeProviderStrings = (raw: unknown): Partial<Record<AIProvider, string>> => {
+    if (!raw || typeof raw !== 'object') return {};
+    return PROVIDERS.reduce<Partial<Record<AIProvider, string>>>((acc, provider) => {
+        const value = (raw as Record<string, unknown>)[provider];
+        if (typeof value === 'string' && value.trim().length > 0) acc[provider] = value.trim();
+        return acc;
+    }, {});
+};
+
+// Settings written before the vault kept keys in `googleApiKey`, `openaiApiKey` and `openRouterApiKey`.
+const readLegacyApiKeys = (parsed: Record<string, unknown>): Partial<Record<AIProvider, string>> =>
+    sanitizeProviderStrings(parsed.legacyApiKeys ?? {
+        google: parsed.googleApiKey,
+        openai: parsed.openaiApiKey,
+        openrouter: parsed.openRouterApiKey
+    });
+
+const sanitizeModelOverrides = (raw: unknown): Record<string, ModelOverride> => {
+    if (!raw || typeof raw !== 'object') return {};
+    return Object.entries(raw as Record<string, any>).reduce<Record<string, ModelOverride>>((acc, [key, value]) => {
+        if (
+            value &&
+            PROVIDERS.includes(value.provider as AIProvider) &&
+            typeof value.model === 'string' &&
+            value.model.trim().length > 0
+        ) {
+            acc[key] = { provider: value.provider as AIProvider, model: value.model.trim() };
+        }
+        return acc;
+    }, {});
+};
+
 export const loadAiSettings = (): AiSettings => {
     const storage = getLocalStorage();
     if (!storage) return DEFAULT_AI_SETTINGS;
@@ -152,11 +209,10 @@ export const loadAiSettings = (): AiSettings => {
 
         return {
             provider: PROVIDERS.includes(parsed.provider as AIProvider) ? (parsed.provider as AIProvider) : DEFAULT_AI_SETTINGS.provider,
-            googleApiKey: typeof parsed.googleApiKey === 'string' ? parsed.googleApiKey : DEFAULT_AI_SETTINGS.googleApiKey,
+            credentialIds: sanitizeProviderStrings(parsed.credentialIds),
+            legacyApiKeys: readLegacyApiKeys(parsed as Record<string, unknown>),
             googleModel: GOOGLE_MODELS.includes(parsed.googleModel as typeof GOOGLE_MODELS[number]) ? (parsed.googleModel as typeof GOOGLE_MODELS[number]) : DEFAULT_AI_SETTINGS.googleModel,
-            openaiApiKey: typeof parsed.openaiApiKey === 'string' ? parsed.openaiApiKey : DEFAULT_AI_SETTINGS.openaiApiKey,
             openaiModel: OPENAI_MODELS.includes(parsed.openaiModel as typeof OPENAI_MODELS[number]) ? (parsed.openaiModel as typeof OPENAI_MODELS[number]) : DEFAULT_AI_SETTINGS.openaiModel,
-            openRouterApiKey: typeof parsed.openRouterApiKey === 'string' ? parsed.openRouterApiKey : DEFAULT_AI_SETTINGS.openRouterApiKey,
             openRouterModel: OPENROUTER_MODELS.includes(parsed.openRouterModel as typeof OPENROUTER_MODELS[number]) ? (parsed.openRouterModel as typeof OPENROUTER_MODELS[number]) : DEFAULT_AI_SETTINGS.openRouterModel,
             admonitionVisibility: {
                 preflection: parsed.admonitionVisibility?.preflection ?? DEFAULT_AI_SETTINGS.admonitionVisibility.preflection,
@@ -165,9 +221,14 @@ export const loadAiSettings = (): AiSettings => {
                 memory: parsed.admonitionVisibility?.memory ?? DEFAULT_AI_SETTINGS.admonitionVisibility.memory,
                 tasks: parsed.admonitionVisibility?.tasks ?? DEFAULT_AI_SETTINGS.admonitionVisibility.tasks,
                 audit: parsed.admonitionVisibility?.audit ?? DEFAULT_AI_SETTINGS.admonitionVisibility.audit,
+                toolCalls: parsed.admonitionVisibility?.toolCalls ?? DEFAULT_AI_SETTINGS.admonitionVisibility.toolCalls,
                 postProcessing: parsed.admonitionVisibility?.postProcessing ?? DEFAULT_AI_SETTINGS.admonitionVisibility.postProcessing
             },
-            maxOutputTokens: typeof parsed.maxOutputTokens === 'number' && parsed.maxOutputTokens > 0 ? parsed.maxOutputTokens : DEFAULT_AI_SETTINGS.maxOutputTokens
+            maxOutputTokens: typeof parsed.maxOutputTokens === 'number' && parsed.maxOutputTokens > 0 ? parsed.maxOutputTokens : DEFAULT_AI_SETTINGS.maxOutputTokens,
+            escortModels: sanitizeModelOverrides(parsed.escortModels),
+            embeddingProvider: EMBEDDING_PROVIDERS.includes(parsed.embeddingProvider as EmbeddingProviderId) ? (parsed.embeddingProvider as EmbeddingProviderId) : DEFAULT_AI_SETTINGS.embeddingProvider,
+            sentimentAnalyzer: SENTIMENT_ANALYZERS.includes(parsed.sentimentAnalyzer as SentimentAnalyzerId) ? (parsed.sentimentAnalyzer as SentimentAnalyzerId) : DEFAULT_AI_SETTINGS.sentimentAnalyzer,
+            agentToolsEnabled: typeof parsed.agentToolsEnabled === 'boolean' ? parsed.agentToolsEnabled : DEFAULT_AI_SETTINGS.agentToolsEnabled
         };
     } catch (error) {
         console.warn('Failed to load AI settings from storage, falling back to defaults.', error);
@@ -186,12 +247,21 @@ export const saveAiSettings = (settings: AiSettings) => {
     }
 };
 
-const getStoredSystemInstruction = (): string | null => {
+export const getStoredSystemInstruction = (): string | null => {
     const storage = getLocalStorage();
     if (!storage) return null;
     return storage.getItem(SYSTEM_INSTRUCTION_KEY);
 };
 
+export const saveSystemInstruction = (instruction: string): void => {
+    const storage = getLocalStorage();
+    if (!storage) return;
+    storage.setItem(SYSTEM_INSTRUCTION_KEY, instruction);
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new Event('ai-settings-updated'));
+    }
+};
+
 const agentResponseJsonSchema = {
     type: 'object',
     properties: {
@@ -303,9 +373,13 @@ const entityExtractionJsonSchema = {
                 properties: {
                     source: { type: 'string', description: 'Source entity name.' },
                     type: { type: 'string', description: 'Relationship verb or phrase.' },
-                    target: { type: 'string', description: 'Target entity name.' }
+                    target: { type: 'string', description: 'Target entity name.' },
+                    confidence: { type: 'number', description: 'How clearly the text states this, from 0 to 1.' },
+                    negated: { type: 'boolean', description: 'True if the text says this relationship is false or no longer holds.' },
+                    exclusive: { type: 'boolean', description: 'True if the source can only have one target for this relationship (e.g. works_at, reports_to).' }
                 },
-                required: ['source', 'type', 'target']
+                required: ['source', 'type', 'target', 'confidence', 'negated', 'exclusive'],
+                additionalProperties: false
             }
         }
     },
@@ -324,7 +398,10 @@ const entityExtractionSchemaGoogle = {
                 properties: {
                     source: { type: Type.STRING, description: "Source entity name." },
                     type: { type: Type.STRING, description: "Relationship verb or phrase." },
-                    target: { type: Type.STRING, description: "Target entity name." }
+                    target: { type: Type.STRING, description: "Target entity name." },
+                    confidence: { type: Type.NUMBER, description: "How clearly the text states this, from 0 to 1." },
+                    negated: { type: Type.BOOLEAN, description: "True if the text says this relationship is false or no longer holds." },
+                    exclusive: { type: Type.BOOLEAN, description: "True if the source can only have one target for this relationship (e.g. works_at, reports_to)." }
                 },
                 required: ["source", "type", "target"]
             }
@@ -764,9 +841,15 @@ const buildConversationTranscript = (messages: ChatMessage[], limit = 14): strin
         .join('\n');
 };
 
+/** The provider's key from the vault, or its pre-vault plaintext key. Empty when neither is available. */
+const resolveApiKey = (settings: AiSettings, provider: AIProvider, credentialId?: string): string =>
+    resolveCredentialSecret(credentialId || settings.credentialIds[provider]) ?? settings.legacyApiKeys[provider] ?? '';
+
 const ensureApiKey = (key: string, provider: AIProvider) => {
     if (!key || key.trim().length === 0) {
-        throw new Error(`No API key configured for ${provider}. Please provide one in Settings.`);
+        throw new Error(isVaultInitialized() && !isVaultUnlocked()
+            ? `The credential vault is locked. Unlock it in Settings to use ${provider}.`
+            : `No API key configured for ${provider}. Add one to the credential vault in Settings.`);
     }
 };
 
@@ -794,6 +877,307 @@ const callOpenAICompatibleApi = async ({ url, headers, body }: OpenAICompatibleR
     return response.json();
 };
 
+interface OpenAIToolCall {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+}
+
+/**
+ * Yields content deltas from an OpenAI-compatible server-sent event stream.
+ * Tool call fragments are stitched together into `toolCalls` when provided.
+ */
+async function* readOpenAICompatibleStream(
+    { url, headers, body }: OpenAICompatibleRequest,
+    signal?: AbortSignal,
+    toolCalls?: OpenAIToolCall[]
+): AsyncGenerator<string> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...headers
+        },
+        body: JSON.stringify({ ...body, stream: true }),
+        signal
+    });
+
+    if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`API request failed with status ${response.status}: ${text}`);
+    }
+    if (!response.body) {
+        throw new Error('Streaming responses are not supported in this browser.');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let pending = '';
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) return;
+            pending += decoder.decode(value, { stream: true });
+            const lines = pending.split('\n');
+            pending = lines.pop() ?? '';
+            for (const line of lines) {
+                const trimmed = line.trim();
+                // Blank separators and SSE comments such as keep-alives carry no data.
+                if (!trimmed.startsWith('data:')) continue;
+                const payload = trimmed.slice(5).trim();
+                if (payload === '[DONE]') return;
+                const chunk = JSON.parse(payload);
+                if (chunk?.error) {
+                    throw new Error(chunk.error.message || 'Stream reported an error.');
+                }
+                const toolDeltas = chunk?.choices?.[0]?.delta?.tool_calls;
+                if (toolCalls && Array.isArray(toolDeltas)) {
+                    toolDeltas.forEach((fragment: any) => {
+                        const index = typeof fragment?.index === 'number' ? fragment.index : toolCalls.length;
+                        const call = toolCalls[index] ?? (toolCalls[index] = { id: '', type: 'function', function: { name: '', arguments: '' } });
+                        if (fragment?.id) call.id = fragment.id;
+                        if (fragment?.function?.name) call.function.name += fragment.function.name;
+                        if (fragment?.function?.arguments) call.function.arguments += fragment.function.arguments;
+                    });
+                }
+                const delta = chunk?.choices?.[0]?.delta?.content;
+                if (typeof delta === 'string' && delta) yield delta;
+            }
+        }
+    } finally {
+        reader.cancel().catch(() => undefined);
+    }
+}
+
+export interface AgentStreamOptions {
+    onPartial?: (parts: AgentResponseParts) => void;
+    signal?: AbortSignal;
+}
+
+const STREAMED_AGENT_FIELDS = ['preflection', 'internalMonologue', 'stageDirections', 'response'] as const;
+
+const isAbortError = (error: unknown, signal?: AbortSignal) =>
+    Boolean(signal?.aborted) || (error instanceof DOMException && error.name === 'AbortError');
+
+type AgentStreamParser = PartialJsonFieldParser<typeof STREAMED_AGENT_FIELDS[number]>;
+
+const streamIntoParser = async (
+    openStream: () => Promise<AsyncIterable<string>>,
+    stream: AgentStreamOptions
+): Promise<AgentStreamParser> => {
+    const parser = createPartialJsonFieldParser(STREAMED_AGENT_FIELDS);
+    try {
+        for await (const delta of await openStream()) {
+            stream.onPartial?.(parser.push(delta));
+        }
+    } catch (error) {
+        if (!isAbortError(error, stream.signal)) throw error;
+    }
+    return parser;
+};
+
+const finalizeStreamedParts = (parser: AgentStreamParser, signal?: AbortSignal): AgentResponseParts => {
+    const partial = parser.snapshot();
+    if (signal?.aborted) {
+        return {
+            ...normalizeAgentResponse(partial),
+            response: partial.response?.trim() ? partial.response : undefined,
+            interrupted: true
+        };
+    }
+
+    try {
+        return normalizeAgentResponse(parseJsonContent(parser.text()));
+    } catch (error) {
+        // A truncated tail (e.g. hitting maxOutputTokens) still leaves usable fields.
+        if (!partial.response?.trim()) throw error;
+        return normalizeAgentResponse(partial);
+    }
+};
+
+/**
+ * Feeds streamed deltas through the partial parser so callers can render fields
+ * as they arrive. Stopping keeps whatever text had already been received and
+ * flags the result as interrupted instead of failing the turn.
+ */
+const collectAgentStream = async (
+    openStream: () => Promise<AsyncIterable<string>>,
+    stream: AgentStreamOptions
+): Promise<AgentResponseParts> =>
+    finalizeStreamedParts(await streamIntoParser(openStream, stream), stream.signal);
+
+const withToolCalls = (parts: AgentResponseParts, traces: AgentToolCallTrace[]): AgentResponseParts =>
+    traces.length > 0 ? { ...parts, toolCalls: [...traces] } : parts;
+
+type ErrorWithToolCalls = { toolCalls?: AgentToolCallTrace[] };
+
+/** Tags an error raised after tools ran, so the failure log still shows what they did. */
+const withToolCallsOnError = (error: unknown, traces: AgentToolCallTrace[]): unknown => {
+    if (traces.length > 0 && error && typeof error === 'object') {
+        (error as ErrorWithToolCalls).toolCalls = [...traces];
+    }
+    return error;
+};
+
+const toolCallsFromError = (error: unknown): AgentToolCallTrace[] | undefined =>
+    error && typeof error === 'object' ? (error as ErrorWithToolCalls).toolCalls : undefined;
+
+const TOOL_GATHERING_DIRECTIVE = `Before answering, decide whether you need any of Seasuite's own data or actions. If so, call the available tools; you may call several. Once you have what you need, or if no tool is needed, reply with the single word READY and nothing else.`;
+
+const formatToolResultsPrimer = (traces: AgentToolCallTrace[]): string | null => {
+    if (traces.length === 0) return null;
+    const lines = traces.map(trace =>
+        `- ${trace.name}(${JSON.stringify(trace.arguments)}) → ${toolTraceToModelContent(trace)}`
+    );
+    return `Tool Results (gathered this turn; prefer these over assumptions):\n${lines.join('\n')}`;
+};
+
+/**
+ * Gemini cannot combine function calling with a JSON response schema, so tools
+ * run in a separate gathering pass whose results are handed to the structured
+ * call as context.
+ */
+const gatherGoogleToolResults = async (
+    ai: GoogleGenAI,
+    model: string,
+    systemInstruction: string,
+    parts: Part[],
+    tools: AgentTool[],
+    stream?: AgentStreamOptions
+): Promise<AgentToolCallTrace[]> => {
+    const contents: Content[] = [{ role: 'user', parts }];
+    const traces: AgentToolCallTrace[] = [];
+    const functionDeclarations = tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        parametersJsonSchema: tool.parameters
+    }));
+
+    try {
+        for (let iteration = 0; iteration < MAX_TOOL_ITERATIONS; iteration++) {
+            const response = await ai.models.generateContent({
+                model,
+                contents,
+                config: {
+                    systemInstruction: `${systemInstruction}\n\n${TOOL_GATHERING_DIRECTIVE}`,
+                    tools: [{ functionDeclarations }],
+                    abortSignal: stream?.signal
+                }
+            });
+            const calls = response.functionCalls ?? [];
+            if (calls.length === 0) break;
+
+            const modelContent = response.candidates?.[0]?.content;
+            if (modelContent) contents.push(modelContent);
+
+            const responseParts: Part[] = [];
+            for (const [index, call] of calls.entries()) {
+                if (stream?.signal?.aborted) return traces;
+                const trace = await runAgentTool({
+                    id: call.id || `call_${iteration}_${index}`,
+                    name: call.name ?? '',
+                    arguments: parseToolArguments(call.args)
+                }, iteration);
+                traces.push(trace);
+                stream?.onPartial?.(withToolCalls({}, traces));
+                responseParts.push({
+                    functionResponse: {
+                        id: call.id,
+                        name: call.name,
+                        response: trace.error ? { error: trace.error } : { output: trace.result }
+                    }
+                });
+            }
+            contents.push({ role: 'user', parts: responseParts });
+        }
+    } catch (error) {
+        if (!isAbortError(error, stream?.signal)) throw error;
+    }
+    return traces;
+};
+
+const toOpenAITool = (tool: AgentTool) => ({
+    type: 'function',
+    function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters
+    }
+});
+
+/**
+ * Native tool calling: while the model asks for tools, results are appended as
+ * `tool` messages and the request is repeated. The last round forbids further
+ * calls so the turn always ends in a structured answer.
+ */
+const runOpenAICompatibleToolLoop = async (
+    request: OpenAICompatibleRequest,
+    tools: AgentTool[],
+    stream?: AgentStreamOptions
+): Promise<AgentResponseParts> => {
+    const messages = [...(request.body.messages as unknown[])];
+    const traces: AgentToolCallTrace[] = [];
+
+    try {
+        for (let iteration = 0; iteration <= MAX_TOOL_ITERATIONS; iteration++) {
+            const body = {
+                ...request.body,
+                messages,
+                tools: tools.map(toOpenAITool),
+                tool_choice: iteration < MAX_TOOL_ITERATIONS ? 'auto' : 'none'
+            };
+            const toolCalls: OpenAIToolCall[] = [];
+
+            if (stream?.onPartial) {
+                const parser = await streamIntoParser(
+                    async () => readOpenAICompatibleStream({ ...request, body }, stream.signal, toolCalls),
+                    { signal: stream.signal, onPartial: parts => stream.onPartial?.(withToolCalls(parts, traces)) }
+                );
+                if (stream.signal?.aborted || toolCalls.length === 0) {
+                    return withToolCalls(finalizeStreamedParts(parser, stream.signal), traces);
+                }
+            } else {
+                const data = await callOpenAICompatibleApi({ ...request, body });
+                const message = data?.choices?.[0]?.message;
+                if (!message) {
+                    throw new Error('Model did not return a message.');
+                }
+                if (!Array.isArray(message.tool_calls) || message.tool_calls.length === 0) {
+                    return withToolCalls(normalizeAgentResponse(parseJsonContent(message.content)), traces);
+                }
+                toolCalls.push(...message.tool_calls);
+            }
+
+            const calls = toolCalls.map((call, index) => ({ ...call, id: call.id || `call_${iteration}_${index}` }));
+            messages.push({ role: 'assistant', content: null, tool_calls: calls });
+            for (const call of calls) {
+                if (stream?.signal?.aborted) {
+                    return withToolCalls({ interrupted: true }, traces);
+                }
+                const trace = await runAgentTool({
+                    id: call.id,
+                    name: call.function.name,
+                    arguments: parseToolArguments(call.function.arguments)
+                }, iteration);
+                traces.push(trace);
+                stream?.onPartial?.(withToolCalls({}, traces));
+                messages.push({ role: 'tool', tool_call_id: call.id, content: toolTraceToModelContent(trace) });
+            }
+        }
+
+        throw new Error(`Model kept requesting tools after ${MAX_TOOL_ITERATIONS} rounds.`);
+    } catch (error) {
+        throw withToolCallsOnError(error, traces);
+    }
+};
+
+async function* textDeltas<T>(source: AsyncIterable<T>, pick: (chunk: T) => string | undefined): AsyncGenerator<string> {
+    for await (const chunk of source) {
+        const text = pick(chunk);
+        if (text) yield text;
+    }
+}
+
 const generateWithGoogle = async (
     prompt: string,
     features: ActiveFeatures,
@@ -804,56 +1188,93 @@ const generateWithGoogle = async (
     modelOverride?: string,
     apiKeyOverride?: string,
     knowledgePrimer?: string | null,
-    memoryPrimer?: string | null
+    memoryPrimer?: string | null,
+    stream?: AgentStreamOptions,
+    tools?: AgentTool[]
 ): Promise<AgentResponseParts> => {
-    const apiKey = apiKeyOverride || settings.googleApiKey;
+    const apiKey = apiKeyOverride || resolveApiKey(settings, 'google');
     ensureApiKey(apiKey, 'google');
     const ai = new GoogleGenAI({ apiKey });
 
-    const parts: Part[] = [{ text: prompt }];
-    if (imageBase64) {
-        parts.unshift({
-            inlineData: {
-                mimeType: 'image/jpeg',
-                data: imageBase64
-            }
-        });
+    const buildParts = (text: string): Part[] => {
+        const parts: Part[] = [{ text }];
+        if (imageBase64) {
+            parts.unshift({
+                inlineData: {
+                    mimeType: 'image/jpeg',
+                    data: imageBase64
+                }
+            });
+        }
+        return parts;
+    };
+
+    const model = modelOverride || settings.googleModel;
+    const systemInstruction = systemOverride || buildSystemInstruction(features, temporalPrimer, knowledgePrimer, memoryPrimer);
+    const traces = tools?.length
+        ? await gatherGoogleToolResults(ai, model, systemInstruction, buildParts(prompt), tools, stream)
+        : [];
+    if (stream?.signal?.aborted) {
+        return withToolCalls({ interrupted: true }, traces);
     }
+    try {
+        const toolPrimer = formatToolResultsPrimer(traces);
 
-    const result = await ai.models.generateContent({
-        model: modelOverride || settings.googleModel,
-        contents: { role: 'user', parts },
-        config: {
-            systemInstruction: systemOverride || buildSystemInstruction(features, temporalPrimer, knowledgePrimer, memoryPrimer),
-            responseMimeType: "application/json",
-            responseSchema: agentResponseSchemaGoogle,
-            maxOutputTokens: settings.maxOutputTokens || MAX_OUTPUT_TOKENS_DEFAULT
+        const request = {
+            model,
+            contents: { role: 'user', parts: buildParts(toolPrimer ? `${prompt}\n\n${toolPrimer}` : prompt) },
+            config: {
+                systemInstruction,
+                responseMimeType: "application/json",
+                responseSchema: agentResponseSchemaGoogle,
+                maxOutputTokens: settings.maxOutputTokens || MAX_OUTPUT_TOKENS_DEFAULT,
+                abortSignal: stream?.signal
+            }
+        };
+
+        if (stream?.onPartial) {
+            const parts = await collectAgentStream(
+                async () => textDeltas(await ai.models.generateContentStream(request), chunk => chunk.text),
+                { signal: stream.signal, onPartial: partial => stream.onPartial?.(withToolCalls(partial, traces)) }
+            );
+            return withToolCalls(parts, traces);
         }
-    });
 
-    const jsonText = result.text?.trim();
-    if (!jsonText) {
-        throw new Error('Google response did not include text content.');
-    }
+        const result = await ai.models.generateContent(request);
 
-    return normalizeAgentResponse(JSON.parse(jsonText));
+        const jsonText = result.text?.trim();
+        if (!jsonText) {
+            throw new Error('Google response did not include text content.');
+        }
+
+        return withToolCalls(normalizeAgentResponse(JSON.parse(jsonText)), traces);
+    } catch (error) {
+        throw withToolCallsOnError(error, traces);
+    }
 };
 
+interface PlainTextOptions {
+    modelOverride?: string;
+    json?: boolean;
+}
+
 const generatePlainTextWithGoogle = async (
     prompt: string,
     settings: AiSettings,
     temperature = 0.3,
-    systemInstruction?: string
+    systemInstruction?: string,
+    options: PlainTextOptions = {}
 ): Promise<string> => {
-    ensureApiKey(settings.googleApiKey, 'google');
-    const ai = new GoogleGenAI({ apiKey: settings.googleApiKey });
+    const apiKey = resolveApiKey(settings, 'google');
+    ensureApiKey(apiKey, 'google');
+    const ai = new GoogleGenAI({ apiKey });
 
     const response = await ai.models.generateContent({
-        model: settings.googleModel,
+        model: options.modelOverride || settings.googleModel,
         contents: [{ role: 'user', parts: [{ text: prompt }] }],
         config: {
             systemInstruction,
-            responseMimeType: "text/plain",
+            responseMimeType: options.json ? "application/json" : "text/plain",
             temperature
         }
     });
@@ -906,10 +1327,12 @@ const generateWithOpenAICompatible = async (
     modelOverride?: string,
     apiKeyOverride?: string,
     knowledgePrimer?: string | null,
-    memoryPrimer?: string | null
+    memoryPrimer?: string | null,
+    stream?: AgentStreamOptions,
+    tools?: AgentTool[]
 ): Promise<AgentResponseParts> => {
     const isOpenAI = provider === 'openai';
-    const apiKey = apiKeyOverride || (isOpenAI ? settings.openaiApiKey : settings.openRouterApiKey);
+    const apiKey = apiKeyOverride || resolveApiKey(settings, provider);
     ensureApiKey(apiKey, provider);
 
     const model = modelOverride || (isOpenAI ? settings.openaiModel : settings.openRouterModel);
@@ -950,6 +1373,14 @@ const generateWithOpenAICompatible = async (
         }
     };
 
+    if (tools?.length) {
+        return runOpenAICompatibleToolLoop({ url, headers, body }, tools, stream);
+    }
+
+    if (stream?.onPartial) {
+        return collectAgentStream(async () => readOpenAICompatibleStream({ url, headers, body }, stream.signal), stream);
+    }
+
     const data = await callOpenAICompatibleApi({ url, headers, body });
     const message = data?.choices?.[0]?.message;
     if (!message) {
@@ -965,13 +1396,14 @@ const generatePlainTextWithOpenAICompatible = async (
     prompt: string,
     settings: AiSettings,
     temperature = 0.3,
-    systemInstruction?: string
+    systemInstruction?: string,
+    options: PlainTextOptions = {}
 ): Promise<string> => {
     const isOpenAI = provider === 'openai';
-    const apiKey = isOpenAI ? settings.openaiApiKey : settings.openRouterApiKey;
+    const apiKey = resolveApiKey(settings, provider);
     ensureApiKey(apiKey, provider);
 
-    const model = isOpenAI ? settings.openaiModel : settings.openRouterModel;
+    const model = options.modelOverride || (isOpenAI ? settings.openaiModel : settings.openRouterModel);
     const url = isOpenAI
         ? 'https://api.openai.com/v1/chat/completions'
         : 'https://openrouter.ai/api/v1/chat/completions';
@@ -998,11 +1430,14 @@ const generatePlainTextWithOpenAICompatible = async (
         }
     ];
 
-    const body = {
+    const body: Record<string, unknown> = {
         model,
         temperature,
         messages
     };
+    if (options.json) {
+        body.response_format = { type: 'json_object' };
+    }
 
     const data = await callOpenAICompatibleApi({ url, headers, body });
     const message = data?.choices?.[0]?.message;
@@ -1017,7 +1452,59 @@ const generatePlainTextWithOpenAICompatible = async (
     return text;
 };
 
-interface GenerateAgentResponseOptions {
+export const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+export const OPENAI_EMBEDDING_DIMENSIONS = 1536;
+
+export const embedTextsWithOpenAI = async (texts: string[]): Promise<number[][]> => {
+    const settings = loadAiSettings();
+    const apiKey = resolveApiKey(settings, 'openai');
+    ensureApiKey(apiKey, 'openai');
+    const data = await callOpenAICompatibleApi({
+        url: 'https://api.openai.com/v1/embeddings',
+        headers: { Authorization: `Bearer ${apiKey}` },
+        body: { model: OPENAI_EMBEDDING_MODEL, input: texts }
+    });
+    if (!Array.isArray(data?.data)) {
+        throw new Error('Embedding response did not include vectors.');
+    }
+    return [...data.data]
+        .sort((a: any, b: any) => a.index - b.index)
+        .map((item: any) => item.embedding as number[]);
+};
+
+export interface TextCompletionOptions {
+    systemInstruction?: string;
+    temperature?: number;
+    json?: boolean;
+    override?: ModelOverride | null;
+}
+
+/**
+ * Single-turn text completion routed through the configured provider. An
+ * override swaps both provider and model, e.g. for a per-escort model choice.
+ */
+export const generateTextCompletion = async (prompt: string, options: TextCompletionOptions = {}): Promise<string> => {
+    const settings = loadAiSettings();
+    const provider = options.override?.provider ?? settings.provider;
+    const temperature = options.temperature ?? 0.3;
+    const plainTextOptions: PlainTextOptions = {
+        modelOverride: options.override?.model,
+        json: options.json
+    };
+
+    if (provider === 'google') {
+        return generatePlainTextWithGoogle(prompt, settings, temperature, options.systemInstruction, plainTextOptions);
+    }
+    return generatePlainTextWithOpenAICompatible(provider, prompt, settings, temperature, options.systemInstruction, plainTextOptions);
+};
+
+export const generateJsonCompletion = async <T = any>(prompt: string, options: Omit<TextCompletionOptions, 'json'> = {}): Promise<T> => {
+    const text = await generateTextCompletion(prompt, { ...options, json: true });
+    const cleaned = text.replace(/^```(?:json)?\s*/i, '').replace(/```\s*$/, '').trim();
+    return JSON.parse(cleaned) as T;
+};
+
+interface GenerateAgentResponseOptions extends AgentStreamOptions {
     temporalEntries?: JournalEntry[];
     contextMemories?: Memory[];
 }
@@ -1040,29 +1527,32 @@ export const generateAgentResponse = async (
     
     let knowledgePrimer: string | null = null;
     try {
-        const entities = await getAllEntities();
-        knowledgePrimer = formatKnowledgePrimer(entities, knowledgeTags);
+        const edges = await getAllKnowledgeEdges();
+        knowledgePrimer = formatKnowledgePrimer(edges, knowledgeTags, prompt.toLowerCase());
     } catch (error) {
         console.warn('Unable to load knowledge graph for primer:', error);
     }
     const memoryPrimer = formatContextMemories(options.contextMemories);
+    const stream: AgentStreamOptions = { onPartial: options.onPartial, signal: options.signal };
+    const tools = settings.agentToolsEnabled ? getAgentTools() : undefined;
 
     try {
         let response: AgentResponseParts;
         switch (settings.provider) {
             case 'google':
-                response = await generateWithGoogle(prompt, features, imageBase64, settings, temporalPrimer, undefined, undefined, undefined, knowledgePrimer, memoryPrimer);
+                response = await generateWithGoogle(prompt, features, imageBase64, settings, temporalPrimer, undefined, undefined, undefined, knowledgePrimer, memoryPrimer, stream, tools);
                 break;
             case 'openai':
-                response = await generateWithOpenAICompatible('openai', prompt, chatHistory, features, imageBase64, settings, temporalPrimer, undefined, undefined, undefined, knowledgePrimer, memoryPrimer);
+                response = await generateWithOpenAICompatible('openai', prompt, chatHistory, features, imageBase64, settings, temporalPrimer, undefined, undefined, undefined, knowledgePrimer, memoryPrimer, stream, tools);
                 break;
             case 'openrouter':
-                response = await generateWithOpenAICompatible('openrouter', prompt, chatHistory, features, imageBase64, settings, temporalPrimer, undefined, undefined, undefined, knowledgePrimer, memoryPrimer);
+                response = await generateWithOpenAICompatible('openrouter', prompt, chatHistory, features, imageBase64, settings, temporalPrimer, undefined, undefined, undefined, knowledgePrimer, memoryPrimer, stream, tools);
                 break;
             default:
                 throw new Error(`Unsupported provider: ${settings.provider}`);
         }
 
+        const { toolCalls, ...responseWithoutTraces } = response;
         logIntelligence({
             source: 'chat_generate',
             requestPayload: {
@@ -1072,7 +1562,8 @@ export const generateAgentResponse = async (
                 knowledgePrimer,
                 memoryPrimer
             },
-            responsePayload: response as unknown as Record<string, unknown>,
+            responsePayload: responseWithoutTraces as unknown as Record<string, unknown>,
+            toolCalls,
             category: 'social'
         });
         return response;
@@ -1090,6 +1581,7 @@ export const generateAgentResponse = async (
             responsePayload: {
                 error: error instanceof Error ? error.message : String(error)
             },
+            toolCalls: toolCallsFromError(error),
             category: 'social'
         });
         return {
@@ -1116,6 +1608,64 @@ const buildPerformerMemoryPrimer = async (performerId: string, limit = 5): Promi
     }
 };
 
+interface PerformerRouteAttempt extends ModelRoute {
+    legacyApiKey?: string;
+}
+
+interface PerformerRouteRequest {
+    prompt: string;
+    chatHistory: ChatMessage[];
+    features: ActiveFeatures;
+    imageBase64: string | null;
+    settings: AiSettings;
+    temporalPrimer: string | null;
+    systemInstruction: string;
+    knowledgePrimer: string | null;
+    stream: AgentStreamOptions;
+}
+
+const generateWithPerformerRoute = (
+    route: ModelRoute,
+    apiKey: string,
+    request: PerformerRouteRequest
+): Promise<AgentResponseParts> => {
+    switch (route.provider) {
+        case 'google':
+            return generateWithGoogle(
+                request.prompt,
+                request.features,
+                request.imageBase64,
+                request.settings,
+                request.temporalPrimer,
+                request.systemInstruction,
+                route.model,
+                apiKey,
+                request.knowledgePrimer,
+                undefined,
+                request.stream
+            );
+        case 'openai':
+        case 'openrouter':
+            return generateWithOpenAICompatible(
+                route.provider,
+                request.prompt,
+                request.chatHistory,
+                request.features,
+                request.imageBase64,
+                request.settings,
+                request.temporalPrimer,
+                request.systemInstruction,
+                route.model,
+                apiKey,
+                request.knowledgePrimer,
+                undefined,
+                request.stream
+            );
+        default:
+            throw new Error(`Unsupported performer provider: ${route.provider}`);
+    }
+};
+
 export const generatePerformerResponse = async (
     performer: PerformerProfile,
     prompt: string,
@@ -1143,66 +1693,52 @@ export const generatePerformerResponse = async (
     }
     let knowledgePrimer: string | null = null;
     try {
-        const entities = await getAllEntities();
-        knowledgePrimer = formatKnowledgePrimer(entities, tagCandidates, prompt.toLowerCase());
+        const edges = await getAllKnowledgeEdges();
+        knowledgePrimer = formatKnowledgePrimer(edges, tagCandidates, prompt.toLowerCase());
     } catch (error) {
         console.warn('Unable to load knowledge graph for performer:', error);
     }
 
     const systemInstruction = buildPerformerInstruction(performer, features, temporalPrimer, knowledgePrimer, memoryPrimer);
+    const stream: AgentStreamOptions = { onPartial: options.onPartial, signal: options.signal };
 
     try {
-        let response: AgentResponseParts;
-        switch (performer.provider) {
-            case 'google':
-                response = await generateWithGoogle(
+        // The primary route, then the performer's fallbacks; each failure marks its credential and moves on.
+        const routes = orderRoutesByHealth<PerformerRouteAttempt>([
+            { provider: performer.provider, model: performer.model, credentialId: performer.credentialId, legacyApiKey: performer.apiKey },
+            ...(performer.fallbackRoutes ?? [])
+        ].map(route => ({ ...route, credentialId: route.credentialId || settings.credentialIds[route.provider] })));
+
+        let response: AgentResponseParts | null = null;
+        let routeError: unknown = null;
+        for (const route of routes) {
+            const apiKey = resolveCredentialSecret(route.credentialId) || route.legacyApiKey || settings.legacyApiKeys[route.provider] || '';
+            try {
+                response = await generateWithPerformerRoute(route, apiKey, {
                     prompt,
+                    chatHistory,
                     features,
                     imageBase64,
                     settings,
                     temporalPrimer,
                     systemInstruction,
-                    performer.model,
-                    performer.apiKey || settings.googleApiKey,
-                    knowledgePrimer,
-                    undefined
-                );
-                break;
-            case 'openai':
-                response = await generateWithOpenAICompatible(
-                    'openai',
-                    prompt,
-                    chatHistory,
-                    features,
-                    imageBase64,
-                settings,
-                temporalPrimer,
-                systemInstruction,
-                    performer.model,
-                    performer.apiKey || settings.openaiApiKey,
                     knowledgePrimer,
-                    undefined
-                );
-                break;
-            case 'openrouter':
-                response = await generateWithOpenAICompatible(
-                    'openrouter',
-                    prompt,
-                    chatHistory,
-                    features,
-                    imageBase64,
-                settings,
-                temporalPrimer,
-                systemInstruction,
-                    performer.model,
-                    performer.apiKey || settings.openRouterApiKey,
-                    knowledgePrimer,
-                    undefined
-                );
+                    stream
+                });
+                if (route.credentialId) {
+                    recordCredentialHealth(route.credentialId).catch(error => console.warn('Failed to record credential health:', error));
+                }
                 break;
-            default:
-                throw new Error(`Unsupported performer provider: ${performer.provider}`);
+            } catch (error) {
+                routeError = error;
+                if (route.credentialId && apiKey) {
+                    recordCredentialHealth(route.credentialId, error).catch(healthError => console.warn('Failed to record credential health:', healthError));
+                }
+                if (options.signal?.aborted) break;
+                console.warn(`Performer route ${route.provider}/${route.model || 'default'} failed for ${performer.name}.`, error);
+            }
         }
+        if (!response) throw routeError ?? new Error(`No model route configured for ${performer.name}.`);
 
         logIntelligence({
             source: 'performer_response',
@@ -1253,7 +1789,7 @@ export const generateMemoryFromChunk = async (
 
     switch (options.provider) {
         case 'google': {
-            const apiKey = options.apiKey || settings.googleApiKey;
+            const apiKey = options.apiKey || resolveApiKey(settings, 'google');
             ensureApiKey(apiKey, 'google');
             const ai = new GoogleGenAI({ apiKey });
             const response = await ai.models.generateContent({
@@ -1281,7 +1817,7 @@ export const generateMemoryFromChunk = async (
         case 'openrouter': {
             const provider = options.provider;
             const isOpenAI = provider === 'openai';
-            const apiKey = options.apiKey || (isOpenAI ? settings.openaiApiKey : settings.openRouterApiKey);
+            const apiKey = options.apiKey || resolveApiKey(settings, provider);
             ensureApiKey(apiKey, provider);
 
             const model = options.model || (isOpenAI ? settings.openaiModel : settings.openRouterModel);
@@ -1349,7 +1885,7 @@ export const evaluateMemoryRelevance = async (
 
     switch (options.provider) {
         case 'google': {
-            const apiKey = options.apiKey || settings.googleApiKey;
+            const apiKey = options.apiKey || resolveApiKey(settings, 'google');
             ensureApiKey(apiKey, 'google');
             const ai = new GoogleGenAI({ apiKey });
             const response = await ai.models.generateContent({
@@ -1370,7 +1906,7 @@ export const evaluateMemoryRelevance = async (
         case 'openrouter': {
             const provider = options.provider;
             const isOpenAI = provider === 'openai';
-            const apiKey = options.apiKey || (isOpenAI ? settings.openaiApiKey : settings.openRouterApiKey);
+            const apiKey = options.apiKey || resolveApiKey(settings, provider);
             ensureApiKey(apiKey, provider);
 
             const model = options.model || (isOpenAI ? settings.openaiModel : settings.openRouterModel);
@@ -1426,7 +1962,7 @@ const rewriteWithProvider = async (provider: AIProvider, prompt: string, setting
     try {
         switch (provider) {
             case 'google': {
-                const apiKey = settings.googleApiKey;
+                const apiKey = resolveApiKey(settings, 'google');
                 if (!apiKey) return null;
                 const ai = new GoogleGenAI({ apiKey });
                 const response = await ai.models.generateContent({
@@ -1444,7 +1980,7 @@ const rewriteWithProvider = async (provider: AIProvider, prompt: string, setting
             case 'openai':
             case 'openrouter': {
                 const isOpenAI = provider === 'openai';
-                const apiKey = isOpenAI ? settings.openaiApiKey : settings.openRouterApiKey;
+                const apiKey = resolveApiKey(settings, provider);
                 if (!apiKey) return null;
                 const model = isOpenAI ? settings.openaiModel : settings.openRouterModel;
                 const url = isOpenAI
@@ -1518,29 +2054,31 @@ const POST_PROCESSING_SYSTEM_PROMPT = `You are Seasuite's post-processing specia
 
 const THREAD_SUMMARY_SYSTEM_PROMPT = `You are Seasuite's conversation archivist. Given a chat transcript, produce a crisp record that leadership can skim quickly. Return valid JSON with keys: title (<= 8 words), summary (<= 120 words), tags (3-5 topical single-word or hyphenated strings), and journalNote (two sentences linking to upcoming follow-ups or timing cues). Use factual, chronological language and avoid markdown or filler.`;
 
-const formatKnowledgePrimer = (entities: KnowledgeEntity[], tags: string[], promptText: string): string | null => {
-    if (!entities.length || !tags?.length) return null;
+const formatKnowledgePrimer = (edges: KnowledgeEdge[], tags: string[], promptText: string): string | null => {
+    if (!edges.length || !tags?.length) return null;
     const loweredTags = new Set(tags.map(tag => tag.toLowerCase()));
+    const mentions = (name: string) => {
+        const lowered = name.toLowerCase();
+        return loweredTags.has(lowered) || promptText.includes(lowered);
+    };
 
-    const matched: KnowledgeEntity[] = entities.filter(entity => {
-        const lowerName = entity.name.toLowerCase();
-        if (loweredTags.has(lowerName) || promptText.includes(lowerName)) return true;
-        return Object.entries(entity.relationships || {}).some(([relType, targets]) => {
-            if (loweredTags.has(relType.replace(/_/g, ' ').toLowerCase())) return true;
-            return (targets || []).some(target => loweredTags.has(target.toLowerCase()));
-        });
-    });
+    const ranked = rankSupportedEdges(
+        edges,
+        edge => mentions(edge.source) || mentions(edge.target) || loweredTags.has(edge.predicate.replace(/_/g, ' ')),
+        24
+    );
+    if (!ranked.length) return null;
 
-    if (!matched.length) return null;
+    const bySource = new Map<string, KnowledgeEdge[]>();
+    ranked.forEach(edge => bySource.set(edge.source, [...(bySource.get(edge.source) ?? []), edge]));
 
     const lines: string[] = [];
-    matched.slice(0, 8).forEach(entity => {
-        lines.push(`• ${entity.name}`);
-        Object.entries(entity.relationships || {}).slice(0, 6).forEach(([relType, targets]) => {
-            if (!targets?.length) return;
-            const label = relType.replace(/_/g, ' ');
-            const joined = targets.slice(0, 6).join(', ');
-            lines.push(`   - ${label}: ${joined}`);
+    Array.from(bySource.entries()).slice(0, 8).forEach(([source, sourceEdges]) => {
+        lines.push(`• ${source}`);
+        sourceEdges.slice(0, 6).forEach(edge => {
+            const label = edge.predicate.replace(/_/g, ' ');
+            const disputed = edge.contradicted ? ', disputed' : '';
+            lines.push(`   - ${label}: ${edge.target} (confidence ${edge.confidence.toFixed(2)}, ${edge.supportCount} source${edge.supportCount === 1 ? '' : 's'}${disputed})`);
         });
     });
 
@@ -1590,13 +2128,12 @@ const getISOWeekNumber = (date: Date): number => {
     return Math.ceil((((target.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
 };
 
-const buildPostProcessingPrompt = (
-    action: PostProcessingAction,
+export const buildPostProcessingPrompt = (
+    detail: Pick<PostProcessingDetail, 'label' | 'instructions' | 'formatHint'>,
     messageContent: string,
     role: ChatMessage['role'],
     temporalPrimer?: string | null
 ) => {
-    const detail = POST_PROCESSING_DETAILS[action];
     const speaker = role === 'user' ? 'user' : 'agent';
     const sanitized = messageContent?.trim() || '[No textual content provided.]';
 
@@ -1628,7 +2165,6 @@ export const runPostProcessing = async (
     messageContent: string,
     role: ChatMessage['role']
 ): Promise<string> => {
-    const settings = loadAiSettings();
     let temporalPrimer: string | null = null;
 
     if (action === 'calendar') {
@@ -1640,8 +2176,12 @@ export const runPostProcessing = async (
         }
     }
 
-    const prompt = buildPostProcessingPrompt(action, messageContent, role, temporalPrimer);
+    return runPostProcessingPrompt(buildPostProcessingPrompt(POST_PROCESSING_DETAILS[action], messageContent, role, temporalPrimer));
+};
 
+/** Runs an already-built lens prompt on the active provider and returns Markdown. */
+export const runPostProcessingPrompt = async (prompt: string): Promise<string> => {
+    const settings = loadAiSettings();
     switch (settings.provider) {
         case 'google':
             return generatePlainTextWithGoogle(prompt, settings, 0.4, POST_PROCESSING_SYSTEM_PROMPT);
@@ -1666,8 +2206,9 @@ export const summarizeConversationForThread = async (messages: ChatMessage[]): P
 
     switch (settings.provider) {
         case 'google': {
-            ensureApiKey(settings.googleApiKey, 'google');
-            const ai = new GoogleGenAI({ apiKey: settings.googleApiKey });
+            const apiKey = resolveApiKey(settings, 'google');
+            ensureApiKey(apiKey, 'google');
+            const ai = new GoogleGenAI({ apiKey });
             const response = await ai.models.generateContent({
                 model: settings.googleModel,
                 contents: [{ role: 'user', parts: [{ text: prompt }] }],
@@ -1695,7 +2236,7 @@ export const summarizeConversationForThread = async (messages: ChatMessage[]): P
         case 'openrouter': {
             const provider = settings.provider;
             const isOpenAI = provider === 'openai';
-            const apiKey = isOpenAI ? settings.openaiApiKey : settings.openRouterApiKey;
+            const apiKey = resolveApiKey(settings, provider);
             ensureApiKey(apiKey, provider);
 
             const model = isOpenAI ? settings.openaiModel : settings.openRouterModel;
@@ -1755,7 +2296,16 @@ export const summarizeConversationForThread = async (messages: ChatMessage[]): P
     }
 };
 
-const parseRelationships = (raw: any) => {
+interface ExtractedRelationship {
+    source: string;
+    type: string;
+    target: string;
+    confidence?: number;
+    negated?: boolean;
+    exclusive?: boolean;
+}
+
+const parseRelationships = (raw: any): ExtractedRelationship[] => {
     if (!raw || !Array.isArray(raw.relationships)) {
         return [];
     }
@@ -1764,56 +2314,43 @@ const parseRelationships = (raw: any) => {
         .map((rel: any) => ({
             source: rel.source,
             type: rel.type,
-            target: rel.target
+            target: rel.target,
+            confidence: typeof rel.confidence === 'number' ? rel.confidence : undefined,
+            negated: rel.negated === true,
+            exclusive: rel.exclusive === true
         }));
 };
 
 const storeRelationships = async (
-    relationships: { source: string; type: string; target: string; }[],
-    context?: { conversationId?: string | null; additionalTags?: string[]; timestamp?: number }
+    relationships: ExtractedRelationship[],
+    context: { evidence: KnowledgeObservation['evidence']; conversationId?: string | null; additionalTags?: string[] }
 ) => {
     if (!relationships.length) {
         console.log("No relationships to store.");
         return;
     }
 
-    const entityMap = new Map<string, KnowledgeEntity>();
-    const timestamp = context?.timestamp ?? Date.now();
-    const temporalTags = buildTemporalTagSet(timestamp);
-    const contextTags = Array.from(new Set([...(context?.additionalTags ?? []), ...temporalTags]));
+    const temporalTags = buildTemporalTagSet(context.evidence.observedAt ?? Date.now());
+    const tags = Array.from(new Set([...(context.additionalTags ?? []), ...temporalTags]));
 
-    for (const rel of relationships) {
-        if (!entityMap.has(rel.source)) {
-            entityMap.set(rel.source, { name: rel.source, relationships: {}, sourceTags: [], lastSeenConversationId: context?.conversationId ?? null });
-        }
-        if (!entityMap.has(rel.target)) {
-            entityMap.set(rel.target, { name: rel.target, relationships: {}, sourceTags: [], lastSeenConversationId: context?.conversationId ?? null });
-        }
-
-        const sourceEntity = entityMap.get(rel.source)!;
-        const targetEntity = entityMap.get(rel.target)!;
-        const relKey = rel.type.replace(/ /g, '_').toLowerCase();
-
-        if (!sourceEntity.relationships[relKey]) {
-            sourceEntity.relationships[relKey] = [];
-        }
-
-        if (!sourceEntity.relationships[relKey].includes(rel.target)) {
-            sourceEntity.relationships[relKey].push(rel.target);
-        }
-
-        sourceEntity.sourceTags = Array.from(new Set([...(sourceEntity.sourceTags ?? []), ...contextTags, `relation:${relKey}`]));
-        targetEntity.sourceTags = Array.from(new Set([...(targetEntity.sourceTags ?? []), ...contextTags, `relationship:${relKey}`]));
-        targetEntity.lastSeenConversationId = context?.conversationId ?? targetEntity.lastSeenConversationId ?? null;
-        sourceEntity.lastSeenConversationId = context?.conversationId ?? sourceEntity.lastSeenConversationId ?? null;
-    }
-
-    await upsertEntities(Array.from(entityMap.values()));
+    await recordKnowledgeObservations(
+        relationships.map(rel => ({
+            source: rel.source,
+            target: rel.target,
+            predicate: rel.type,
+            confidence: rel.confidence,
+            negated: rel.negated,
+            exclusive: rel.exclusive,
+            evidence: context.evidence
+        })),
+        { tags, lastSeenConversationId: context.conversationId ?? null }
+    );
 };
 
 const extractEntitiesWithGoogle = async (text: string, settings: AiSettings) => {
-    ensureApiKey(settings.googleApiKey, 'google');
-    const ai = new GoogleGenAI({ apiKey: settings.googleApiKey });
+    const apiKey = resolveApiKey(settings, 'google');
+    ensureApiKey(apiKey, 'google');
+    const ai = new GoogleGenAI({ apiKey });
 
     const response = await ai.models.generateContent({
         model: settings.googleModel,
@@ -1837,7 +2374,7 @@ const extractEntitiesWithOpenAICompatible = async (
     settings: AiSettings
 ) => {
     const isOpenAI = provider === 'openai';
-    const apiKey = isOpenAI ? settings.openaiApiKey : settings.openRouterApiKey;
+    const apiKey = resolveApiKey(settings, provider);
     ensureApiKey(apiKey, provider);
 
     const model = isOpenAI ? settings.openaiModel : settings.openRouterModel;
@@ -1890,11 +2427,21 @@ const extractEntitiesWithOpenAICompatible = async (
     return parseRelationships(parsed);
 };
 
-export const processAndStoreEntities = async (text: string, context?: { conversationId?: string | null; timestamp?: number; tags?: string[] }): Promise<void> => {
+export const processAndStoreEntities = async (
+    text: string,
+    context?: {
+        conversationId?: string | null;
+        timestamp?: number;
+        tags?: string[];
+        // Provenance recorded on each edge; falls back to the conversation id.
+        sourceType?: KnowledgeEvidenceSourceType;
+        sourceId?: string;
+    }
+): Promise<void> => {
     const settings = loadAiSettings();
 
     try {
-        let relationships: { source: string; type: string; target: string; }[] = [];
+        let relationships: ExtractedRelationship[] = [];
 
         switch (settings.provider) {
             case 'google':
@@ -1913,8 +2460,12 @@ export const processAndStoreEntities = async (text: string, context?: { conversa
         const timestamp = context?.timestamp ?? Date.now();
         const additionalTags = Array.from(new Set([...(context?.tags ?? []), ...collectPromptCandidates(text)]));
         await storeRelationships(relationships, {
+            evidence: {
+                sourceType: context?.sourceType ?? 'conversation',
+                sourceId: context?.sourceId ?? context?.conversationId ?? `extraction-${timestamp}`,
+                observedAt: timestamp
+            },
             conversationId: context?.conversationId,
-            timestamp,
             additionalTags
         });
     } catch (error) {
@@ -0,0 +1,463 @@
+import {
+  ChatMessage,
+  CoordinationPlan,
+  PerformerProfile,
+  PerformerRelationship,
+  PerformerSecret,
+  PrivateConversation,
+  PrivateMessage,
+  WatcherObservation
+} from '../types';
+import {
+  addPerformerInteractionEvents,
+  getActiveCoordinationPlans,
+  getAllPerformers,
+  getAllPrivateConversations,
+  getAllRelationships,
+  getAllSecrets,
+  savePrivateConversation
+} from './db';
+import { generatePerformerResponse } from './aiService';
+import { collectIntrigueTags } from './socialSignals';
+import { getPerformerTraits } from './socialModel';
+import { analyzeText } from './textAnalysis';
+import { auditDirectMessage, auditPerformerResponse, noteWatcherVerdict, precheckDirectMessage } from './watcher';
+import { createSeededRandom } from './relationshipSimulation';
+import { buildDmInteractionEvents, createPrivateConversation, isMessageVisibleTo, pickResponderId } from './privateConversations';
+
+const SETTINGS_KEY = 'autonomous-dm-settings';
+const LAST_RUN_KEY = 'autonomous-dm-last-run';
+const DIGEST_SEEN_KEY = 'autonomous-dm-digest-seen';
+const UPDATED_EVENT = 'autonomous-dms-updated';
+
+const MINUTE_MS = 60 * 1000;
+const SCHEDULER_POLL_MS = MINUTE_MS;
+
+// Plans are deliberate, so they outweigh opportunistic scheming.
+const PLAN_WEIGHT_BONUS = 1;
+
+export interface AutonomousDmSettings {
+  enabled: boolean;
+  intervalMinutes: number;
+  conversationsPerTick: number;
+  // Messages per backchannel, including the opener
+  turnsPerConversation: number;
+  // Average of cunning and ambition a performer needs to scheme without a plan
+  schemingThreshold: number;
+}
+
+export const DEFAULT_AUTONOMOUS_DM_SETTINGS: AutonomousDmSettings = {
+  enabled: false,
+  intervalMinutes: 30,
+  conversationsPerTick: 1,
+  turnsPerConversation: 2,
+  schemingThreshold: 65
+};
+
+const clampInt = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(min, Math.min(max, Math.round(value))) : fallback;
+
+export const loadAutonomousDmSettings = (): AutonomousDmSettings => {
+  if (typeof window === 'undefined') return { ...DEFAULT_AUTONOMOUS_DM_SETTINGS };
+  try {
+    const raw = window.localStorage.getItem(SETTINGS_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Partial<AutonomousDmSettings>) : {};
+    const defaults = DEFAULT_AUTONOMOUS_DM_SETTINGS;
+    return {
+      enabled: typeof parsed.enabled === 'boolean' ? parsed.enabled : defaults.enabled,
+      intervalMinutes: clampInt(parsed.intervalMinutes, 5, 24 * 60, defaults.intervalMinutes),
+      conversationsPerTick: clampInt(parsed.conversationsPerTick, 1, 5, defaults.conversationsPerTick),
+      turnsPerConversation: clampInt(parsed.turnsPerConversation, 1, 6, defaults.turnsPerConversation),
+      schemingThreshold: clampInt(parsed.schemingThreshold, 0, 100, defaults.schemingThreshold)
+    };
+  } catch (error) {
+    console.warn('Failed to load autonomous DM settings, falling back to defaults.', error);
+    return { ...DEFAULT_AUTONOMOUS_DM_SETTINGS };
+  }
+};
+
+export const saveAutonomousDmSettings = (settings: AutonomousDmSettings): void => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  window.dispatchEvent(new Event(UPDATED_EVENT));
+};
+
+const readTimestamp = (key: string): number => {
+  if (typeof window === 'undefined') return 0;
+  const value = Number(window.localStorage.getItem(key));
+  return Number.isFinite(value) ? value : 0;
+};
+
+export const getAutonomousDmLastRun = (): number => readTimestamp(LAST_RUN_KEY);
+
+export const getAutonomousDigestSeenAt = (): number => readTimestamp(DIGEST_SEEN_KEY);
+
+export const markAutonomousDigestSeen = (timestamp = Date.now()): void => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(DIGEST_SEEN_KEY, String(timestamp));
+  window.dispatchEvent(new Event(UPDATED_EVENT));
+};
+
+export const schemingScore = (performer?: PerformerProfile | null): number => {
+  const traits = getPerformerTraits(performer);
+  return (traits.cunning + traits.ambition) / 2;
+};
+
+export interface AutonomousBackchannel {
+  initiatorId: string;
+  // Everyone else in the thread
+  memberIds: string[];
+  reason: 'coordination' | 'scheming';
+  planId?: string;
+  // Who the schemer wants to talk about
+  subjectId?: string;
+  topic: string;
+  weight: number;
+}
+
+export interface BackchannelPlanningInput {
+  performers: PerformerProfile[];
+  relationships: PerformerRelationship[];
+  plans: CoordinationPlan[];
+  schemingThreshold: number;
+}
+
+/**
+ * Lists every backchannel worth opening: one per active coordination plan,
+ * plus one per schemer at or above the threshold, who reaches out to the
+ * performer they trust most about the one they are most tense with.
+ */
+export const planBackchannels = ({ performers, relationships, plans, schemingThreshold }: BackchannelPlanningInput): AutonomousBackchannel[] => {
+  const lookup = new Map(performers.map(performer => [performer.id, performer]));
+  const candidates: AutonomousBackchannel[] = [];
+
+  plans.forEach(plan => {
+    if (plan.status !== 'active' || !lookup.has(plan.initiatorId)) return;
+    const memberIds = Array.from(new Set(plan.participants)).filter(id => id !== plan.initiatorId && lookup.has(id));
+    if (!memberIds.length) return;
+    candidates.push({
+      initiatorId: plan.initiatorId,
+      memberIds,
+      reason: 'coordination',
+      planId: plan.id,
+      topic: plan.goal,
+      weight: PLAN_WEIGHT_BONUS + schemingScore(lookup.get(plan.initiatorId)) / 100
+    });
+  });
+
+  performers.forEach(performer => {
+    const score = schemingScore(performer);
+    if (score < schemingThreshold) return;
+    const outgoing = relationships.filter(rel => rel.performerId === performer.id && rel.targetId !== performer.id && lookup.has(rel.targetId));
+    if (!outgoing.length) return;
+    const confidant = outgoing.reduce((best, rel) => (rel.trust > best.trust ? rel : best), outgoing[0]);
+    const rivals = outgoing.filter(rel => rel.targetId !== confidant.targetId);
+    const rival = rivals.length ? rivals.reduce((worst, rel) => (rel.tension > worst.tension ? rel : worst), rivals[0]) : undefined;
+    const rivalName = rival ? lookup.get(rival.targetId)?.name : undefined;
+    candidates.push({
+      initiatorId: performer.id,
+      memberIds: [confidant.targetId],
+      reason: 'scheming',
+      subjectId: rival?.targetId,
+      topic: rivalName ? `what to do about ${rivalName}` : 'how to get ahead of everyone else',
+      weight: score / 100
+    });
+  });
+
+  return candidates;
+};
+
+/** Weighted draw without replacement; each performer initiates at most one backchannel per tick. */
+export const selectBackchannels = (
+  candidates: AutonomousBackchannel[],
+  count: number,
+  random: () => number
+): AutonomousBackchannel[] => {
+  const pool = [...candidates];
+  const selected: AutonomousBackchannel[] = [];
+  while (selected.length < count && pool.length) {
+    const total = pool.reduce((acc, candidate) => acc + Math.max(0, candidate.weight), 0);
+    let roll = random() * total;
+    let index = pool.findIndex(candidate => {
+      roll -= Math.max(0, candidate.weight);
+      return roll < 0;
+    });
+    if (index === -1) index = pool.length - 1;
+    const [choice] = pool.splice(index, 1);
+    selected.push(choice);
+    for (let i = pool.length - 1; i >= 0; i--) {
+      if (pool[i].initiatorId === choice.initiatorId) pool.splice(i, 1);
+    }
+  }
+  return selected;
+};
+
+const sameMembers = (conversation: PrivateConversation, ids: string[]) =>
+  conversation.memberIds.length === ids.length && ids.every(id => conversation.memberIds.includes(id));
+
+/**
+ * What a performer sees before speaking in a thread: chat lines and the
+ * secrets it knows, with the speaker's name on group lines.
+ */
+export const buildResponderHistory = (
+  conversation: PrivateConversation,
+  responderId: string,
+  secrets: Map<string, PerformerSecret>,
+  nameOf: (performerId: string) => string
+): ChatMessage[] =>
+  conversation.messages
+    .filter(msg => msg.kind !== 'join' && msg.kind !== 'leave' && isMessageVisibleTo(msg, responderId, secrets))
+    .map(msg => {
+      const content = msg.kind === 'secret' ? `(shares a secret) ${msg.content}` : msg.content;
+      return {
+        id: msg.id,
+        role: msg.senderId === responderId ? 'agent' : 'user',
+        content: conversation.kind === 'group' && msg.senderId !== responderId
+          ? `${nameOf(msg.senderId)}: ${content}`
+          : content,
+        timestamp: msg.timestamp
+      };
+    });
+
+const openerPrompt = (backchannel: AutonomousBackchannel, nameOf: (performerId: string) => string) => {
+  const names = backchannel.memberIds.map(nameOf).join(', ');
+  return backchannel.reason === 'coordination'
+    ? `Send a private message to ${names} to move your plan forward: ${backchannel.topic}. Stay in character and keep it short.`
+    : `Send a private message to ${names}, someone you trust, about ${backchannel.topic}. Nobody else can read it. Stay in character and keep it short.`;
+};
+
+export interface AutonomousBackchannelResult {
+  backchannel: AutonomousBackchannel;
+  conversationId: string;
+  messages: PrivateMessage[];
+  blocked?: string[];
+}
+
+export interface AutonomousDmTickResult {
+  ranAt: number;
+  backchannels: AutonomousBackchannelResult[];
+  // True when the Watcher blocked a message; the rest of the tick is skipped
+  halted: boolean;
+}
+
+/**
+ * Opens or continues the selected backchannels, one generated message per
+ * turn. The Watcher's budget and rate rules are checked before each
+ * generation, and every reply is audited as a performer response and as an
+ * autonomous DM; a budget or DM block ends the tick, a response block ends
+ * that backchannel.
+ */
+export const runAutonomousDmTick = async (
+  options: { now?: number; seed?: string; settings?: AutonomousDmSettings } = {}
+): Promise<AutonomousDmTickResult> => {
+  const now = options.now ?? Date.now();
+  const settings = options.settings ?? loadAutonomousDmSettings();
+  const [performers, relationships, plans, conversations, secrets] = await Promise.all([
+    getAllPerformers(),
+    getAllRelationships(),
+    getActiveCoordinationPlans(),
+    getAllPrivateConversations(),
+    getAllSecrets()
+  ]);
+  const lookup = new Map(performers.map(performer => [performer.id, performer]));
+  const secretLookup = new Map(secrets.map(secret => [secret.id, secret]));
+  const nameOf = (id: string) => lookup.get(id)?.name ?? 'Unknown';
+
+  const candidates = planBackchannels({ performers, relationships, plans, schemingThreshold: settings.schemingThreshold });
+  const selected = selectBackchannels(candidates, settings.conversationsPerTick, createSeededRandom(options.seed ?? `dm-${now}`));
+  const result: AutonomousDmTickResult = { ranAt: now, backchannels: [], halted: false };
+
+  for (const backchannel of selected) {
+    const ids = [backchannel.initiatorId, ...backchannel.memberIds];
+    let conversation = conversations.find(conv => sameMembers(conv, ids))
+      ?? createPrivateConversation(backchannel.initiatorId, backchannel.memberIds, { timestamp: now });
+    const outcome: AutonomousBackchannelResult = { backchannel, conversationId: conversation.id, messages: [] };
+    result.backchannels.push(outcome);
+
+    let speakerId = backchannel.initiatorId;
+    for (let turn = 0; turn < settings.turnsPerConversation; turn++) {
+      const speaker = lookup.get(speakerId);
+      if (!speaker) break;
+      const previous = turn > 0 ? outcome.messages[outcome.messages.length - 1] : undefined;
+      const prompt = previous ? previous.content : openerPrompt(backchannel, nameOf);
+      const targetIds = conversation.memberIds.filter(id => id !== speakerId);
+      const dmAudit = {
+        senderId: speakerId,
+        recipientId: targetIds[0] ?? speakerId,
+        recipientIds: targetIds,
+        conversationId: conversation.id,
+        origin: 'autonomous' as const
+      };
+
+      // Spent budgets block every message, so do not pay for a generation first.
+      const precheck = await precheckDirectMessage({ ...dmAudit, timestamp: Math.max(Date.now(), now + turn) });
+      if (precheck.status === 'block') {
+        outcome.blocked = precheck.reasons;
+        result.halted = true;
+        break;
+      }
+
+      let text: string | undefined;
+      try {
+        const response = await generatePerformerResponse(
+          speaker,
+          prompt,
+          buildResponderHistory(conversation, speakerId, secretLookup, nameOf),
+          {
+            usePreflection: false,
+            useMemory: true,
+            useTaskList: false,
+            useAudit: false,
+            useStageDirections: false,
+            useMonologue: false,
+            usePromptRewrite: false
+          },
+          null
+        );
+        text = response.response?.trim();
+      } catch (error) {
+        console.error('Failed to generate autonomous DM:', error);
+      }
+      if (!text) break;
+
+      const timestamp = Math.max(Date.now(), now + turn);
+      const responseVerdict = await auditPerformerResponse({
+        performerId: speakerId,
+        conversationId: conversation.id,
+        origin: 'dm',
+        text,
+        timestamp
+      });
+      if (responseVerdict.status === 'block') {
+        outcome.blocked = responseVerdict.reasons;
+        break;
+      }
+
+      const verdict = await auditDirectMessage({ ...dmAudit, message: text, timestamp });
+      if (verdict.status === 'block') {
+        outcome.blocked = verdict.reasons;
+        result.halted = true;
+        break;
+      }
+
+      const message: PrivateMessage = {
+        id: `msg_${timestamp}_${speakerId}`,
+        kind: 'message',
+        origin: 'autonomous',
+        senderId: speakerId,
+        content: text,
+        timestamp
+      };
+      conversation = { ...conversation, messages: [...conversation.messages, message], updatedAt: timestamp };
+      outcome.conversationId = conversation.id;
+      outcome.messages.push(message);
+      await savePrivateConversation(conversation);
+      noteWatcherVerdict(verdict).catch(error => console.error('Failed to note autonomous DM with the Watcher:', error));
+
+      // Simulated chatter shapes relationships but never earns XP.
+      try {
+        const analysis = await analyzeText(text);
+        await addPerformerInteractionEvents(buildDmInteractionEvents(conversation, message, targetIds, nameOf, {
+          intrigueTags: collectIntrigueTags(speaker, targetIds, lookup),
+          sentiment: analysis.sentiment,
+          narrativeTags: analysis.narrativeTags
+        }));
+      } catch (error) {
+        console.error('Failed to log autonomous DM interaction:', error);
+      }
+
+      const nextSpeaker = pickResponderId(conversation, speakerId, text, lookup);
+      if (!nextSpeaker) break;
+      speakerId = nextSpeaker;
+    }
+
+    const index = conversations.findIndex(conv => conv.id === conversation.id);
+    if (index === -1) conversations.push(conversation);
+    else conversations[index] = conversation;
+    if (result.halted) break;
+  }
+
+  if (typeof window !== 'undefined') {
+    window.localStorage.setItem(LAST_RUN_KEY, String(now));
+    window.dispatchEvent(new Event(UPDATED_EVENT));
+  }
+  return result;
+};
+
+/** Polls every minute and runs a tick once the configured interval has passed. Returns a stop function. */
+export const startAutonomousDmScheduler = (): (() => void) => {
+  let running = false;
+  const tick = () => {
+    if (running) return;
+    const settings = loadAutonomousDmSettings();
+    if (!settings.enabled || Date.now() - getAutonomousDmLastRun() < settings.intervalMinutes * MINUTE_MS) return;
+    running = true;
+    runAutonomousDmTick({ settings })
+      .catch(error => console.error('Autonomous DM tick failed:', error))
+      .finally(() => {
+        running = false;
+      });
+  };
+  tick();
+  const handle = window.setInterval(tick, SCHEDULER_POLL_MS);
+  return () => window.clearInterval(handle);
+};
+
+export interface AutonomousDigestThread {
+  conversationId: string;
+  memberIds: string[];
+  messages: PrivateMessage[];
+}
+
+export interface AutonomousDigestBlock {
+  observationId: string;
+  senderId: string;
+  conversationId: string;
+  reasons: string[];
+  timestamp: number;
+}
+
+export interface AutonomousDmDigest {
+  since: number;
+  threads: AutonomousDigestThread[];
+  blocked: AutonomousDigestBlock[];
+  messageCount: number;
+}
+
+/** Autonomous messages and Watcher blocks since `since`, busiest thread first. */
+export const buildAutonomousDmDigest = (
+  conversations: PrivateConversation[],
+  observations: WatcherObservation[],
+  since: number
+): AutonomousDmDigest => {
+  const threads = conversations
+    .map(conversation => ({
+      conversationId: conversation.id,
+      memberIds: conversation.memberIds,
+      messages: conversation.messages.filter(message => message.origin === 'autonomous' && message.timestamp > since)
+    }))
+    .filter(thread => thread.messages.length > 0)
+    .sort((a, b) => b.messages.length - a.messages.length);
+
+  const blocked = observations
+    .filter(observation =>
+      observation.subject === 'direct_message'
+      && observation.status === 'block'
+      && observation.payload.origin === 'autonomous'
+      && observation.timestamp > since
+    )
+    .map(observation => ({
+      observationId: observation.id,
+      senderId: String(observation.payload.senderId ?? ''),
+      conversationId: String(observation.payload.conversationId ?? ''),
+      reasons: observation.reasons,
+      timestamp: observation.timestamp
+    }));
+
+  return {
+    since,
+    threads,
+    blocked,
+    messageCount: threads.reduce((acc, thread) => acc + thread.messages.length, 0)
+  };
+};
@@ -0,0 +1,526 @@
+import { addDays, addMonths, addWeeks, addYears } from 'date-fns';
+import {
+  CalendarAttendee,
+  CalendarEvent,
+  CalendarEventOrigin,
+  CalendarRecurrence,
+  CalendarRecurrenceFrequency,
+  ChatMessage,
+  ClientProfile,
+  PerformerProfile
+} from '../types';
+import { getAllClientProfiles, getAllPerformers, getCalendarEvents, replaceMessageCalendarEvents, saveCalendarEvents } from './db';
+import { generateJsonCompletion } from './aiService';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_DURATION_MS = HOUR_MS;
+// Guards expansion of open-ended recurrences.
+const MAX_OCCURRENCES = 1000;
+const ICS_PRODUCT_ID = '-//SeaSuite//Temporal Journal//EN';
+const UID_DOMAIN = 'seasuite.local';
+
+const FREQUENCIES: CalendarRecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+/** Event shape the extraction prompts ask the model for. */
+export interface ExtractedCalendarEvent {
+  title?: string;
+  date?: string;
+  startTime?: string | null;
+  endTime?: string | null;
+  allDay?: boolean;
+  attendees?: string[];
+  location?: string | null;
+  description?: string | null;
+  recurrence?: { frequency?: string; interval?: number; count?: number; until?: string } | null;
+}
+
+export interface CalendarOccurrence {
+  event: CalendarEvent;
+  start: number;
+  end: number;
+}
+
+export interface CalendarImportSummary {
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+export const EXTRACTED_EVENT_FORMAT = `{"title": "short title", "date": "YYYY-MM-DD", "startTime": "HH:mm" or null, "endTime": "HH:mm" or null, "allDay": boolean, "attendees": ["name"], "location": "text" or null, "description": "text" or null, "recurrence": {"frequency": "daily|weekly|monthly|yearly", "interval": 1, "count": number or null, "until": "YYYY-MM-DD" or null} or null}`;
+
+export const buildCalendarEventUid = (id: string) => `${id}@${UID_DOMAIN}`;
+
+/** Maps free-text attendee names onto known performers and clients. */
+export const resolveAttendees = (
+  names: string[],
+  performers: PerformerProfile[],
+  clients: ClientProfile[]
+): CalendarAttendee[] => {
+  const seen = new Set<string>();
+  return names
+    .map(name => name.trim())
+    .filter(name => {
+      const key = name.toLowerCase();
+      if (!name || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(name => {
+      const lower = name.toLowerCase();
+      const performer = performers.find(candidate => candidate.name.toLowerCase() === lower)
+        ?? performers.find(candidate => lower.includes(candidate.name.toLowerCase()));
+      if (performer) return { name: performer.name, kind: 'performer' as const, refId: performer.id };
+      const client = clients.find(candidate => candidate.name.toLowerCase() === lower)
+        ?? clients.find(candidate => lower.includes(candidate.name.toLowerCase()));
+      if (client) return { name: client.name, kind: 'client' as const, refId: client.id };
+      return { name, kind: 'external' as const };
+    });
+};
+
+const parseLocalDateTime = (date: string, time?: string | null): number | null => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  const clock = time && /^\d{1,2}:\d{2}$/.test(time) ? time.padStart(5, '0') : '00:00';
+  const parsed = new Date(`${date}T${clock}:00`).getTime();
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+const normalizeRecurrence = (raw: ExtractedCalendarEvent['recurrence']): CalendarRecurrence | null => {
+  if (!raw || !FREQUENCIES.includes(raw.frequency as CalendarRecurrenceFrequency)) return null;
+  const until = raw.until ? parseLocalDateTime(raw.until, '23:59') : null;
+  return {
+    frequency: raw.frequency as CalendarRecurrenceFrequency,
+    interval: Math.max(1, Math.round(raw.interval ?? 1)),
+    count: raw.count && raw.count > 0 ? Math.round(raw.count) : undefined,
+    until: until ?? undefined
+  };
+};
+
+/** Turns one model-extracted event into a stored event, or null when it has no usable date. */
+export const normalizeExtractedEvent = (
+  raw: ExtractedCalendarEvent,
+  context: {
+    id: string;
+    origin: CalendarEventOrigin;
+    performers: PerformerProfile[];
+    clients: ClientProfile[];
+    fallbackTitle?: string;
+    sourceMessageId?: string;
+    sourceConversationId?: string;
+    now?: number;
+  }
+): CalendarEvent | null => {
+  const title = raw.title?.trim() || context.fallbackTitle?.trim();
+  if (!title || !raw.date) return null;
+  const allDay = raw.allDay === true || !raw.startTime;
+  const start = parseLocalDateTime(raw.date, allDay ? null : raw.startTime);
+  if (start === null) return null;
+
+  let end = allDay ? addDays(start, 1).getTime() : parseLocalDateTime(raw.date, raw.endTime) ?? start + DEFAULT_DURATION_MS;
+  if (end <= start) end = allDay ? addDays(start, 1).getTime() : start + DEFAULT_DURATION_MS;
+
+  const now = context.now ?? Date.now();
+  return {
+    id: context.id,
+    uid: buildCalendarEventUid(context.id),
+    title,
+    description: raw.description?.trim() || undefined,
+    location: raw.location?.trim() || undefined,
+    start,
+    end,
+    allDay,
+    attendees: resolveAttendees(Array.isArray(raw.attendees) ? raw.attendees : [], context.performers, context.clients),
+    recurrence: normalizeRecurrence(raw.recurrence),
+    origin: context.origin,
+    sourceMessageId: context.sourceMessageId,
+    sourceConversationId: context.sourceConversationId,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+const advance = (time: number, recurrence: CalendarRecurrence, steps: number): number => {
+  const amount = recurrence.interval * steps;
+  switch (recurrence.frequency) {
+    case 'daily':
+      return addDays(time, amount).getTime();
+    case 'weekly':
+      return addWeeks(time, amount).getTime();
+    case 'monthly':
+      return addMonths(time, amount).getTime();
+    case 'yearly':
+      return addYears(time, amount).getTime();
+  }
+};
+
+/**
+ * Occurrences of an event that overlap [rangeStart, rangeEnd). Cancelled
+ * starts and those in `overridden` (replaced by a changed occurrence) are skipped.
+ */
+export const expandOccurrences = (
+  event: CalendarEvent,
+  rangeStart: number,
+  rangeEnd: number,
+  overridden: Set<number> = new Set()
+): CalendarOccurrence[] => {
+  const duration = event.end - event.start;
+  if (!event.recurrence) {
+    return event.start < rangeEnd && event.end > rangeStart ? [{ event, start: event.start, end: event.end }] : [];
+  }
+
+  const { count, until } = event.recurrence;
+  const excluded = new Set([...(event.exdates ?? []), ...overridden]);
+  const occurrences: CalendarOccurrence[] = [];
+  for (let index = 0; index < MAX_OCCURRENCES; index++) {
+    if (count !== undefined && index >= count) break;
+    const start = advance(event.start, event.recurrence, index);
+    if (start >= rangeEnd || (until !== undefined && start > until)) break;
+    if (start + duration > rangeStart && !excluded.has(start)) occurrences.push({ event, start, end: start + duration });
+  }
+  return occurrences;
+};
+
+export const expandAllOccurrences = (events: CalendarEvent[], rangeStart: number, rangeEnd: number): CalendarOccurrence[] => {
+  const overridesByUid = new Map<string, Set<number>>();
+  events.forEach(event => {
+    if (event.recurrenceId === undefined) return;
+    const starts = overridesByUid.get(event.uid) ?? new Set<number>();
+    starts.add(event.recurrenceId);
+    overridesByUid.set(event.uid, starts);
+  });
+  return events
+    .flatMap(event => expandOccurrences(event, rangeStart, rangeEnd, event.recurrenceId === undefined ? overridesByUid.get(event.uid) : undefined))
+    .sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Extracts scheduled events from a chat message and stores them in place of
+ * any the calendar lens extracted from that message before.
+ */
+export const scheduleEventsFromMessage = async (message: ChatMessage): Promise<CalendarEvent[]> => {
+  const [performers, clients, existing] = await Promise.all([getAllPerformers(), getAllClientProfiles(), getCalendarEvents()]);
+  const today = new Date().toISOString().split('T')[0];
+  const prompt = [
+    `Today is ${today}. Extract every concrete scheduled event, meeting, deadline or commitment from the message below.`,
+    'Resolve relative dates ("next Tuesday", "tomorrow") against today. Skip vague intentions with no date.',
+    `Known performers: ${performers.map(performer => performer.name).join(', ') || 'none'}`,
+    `Known clients: ${clients.map(client => client.name).join(', ') || 'none'}`,
+    '',
+    `Message (${message.role === 'user' ? 'user' : 'agent'}):`,
+    '"""',
+    message.content,
+    '"""',
+    '',
+    `Respond in JSON: {"events": [${EXTRACTED_EVENT_FORMAT}]}`
+  ].join('\n');
+
+  const json = await generateJsonCompletion<{ events?: ExtractedCalendarEvent[] }>(prompt, { temperature: 0.2 });
+  const now = Date.now();
+  const events = (Array.isArray(json.events) ? json.events : [])
+    .map((raw, index) => {
+      const id = `evt-${message.id}-${index}`;
+      return normalizeExtractedEvent(raw, {
+        id,
+        origin: 'calendar_lens',
+        performers,
+        clients,
+        sourceMessageId: message.id,
+        sourceConversationId: message.conversationId,
+        now
+      });
+    })
+    .filter((event): event is CalendarEvent => event !== null)
+    .map(event => {
+      const previous = existing.find(candidate => candidate.id === event.id);
+      return previous ? { ...event, createdAt: previous.createdAt } : event;
+    });
+
+  await replaceMessageCalendarEvents(message.id, events);
+  return events;
+};
+
+// iCalendar (RFC 5545)
+
+const escapeIcsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeIcsText = (value: string) =>
+  value.replace(/\\([nN;,\\])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+// Lines longer than 75 characters continue on the next line after a single space.
+const foldIcsLine = (line: string) => {
+  if (line.length <= 75) return line;
+  const chunks = [line.slice(0, 75)];
+  for (let index = 75; index < line.length; index += 74) chunks.push(` ${line.slice(index, index + 74)}`);
+  return chunks.join('\r\n');
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatIcsDate = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+};
+
+const formatIcsDateTime = (time: number) => {
+  const date = new Date(time);
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+const formatRecurrence = (recurrence: CalendarRecurrence) => {
+  const parts = [`FREQ=${recurrence.frequency.toUpperCase()}`, `INTERVAL=${recurrence.interval}`];
+  if (recurrence.count) parts.push(`COUNT=${recurrence.count}`);
+  if (recurrence.until) parts.push(`UNTIL=${formatIcsDateTime(recurrence.until)}`);
+  return `RRULE:${parts.join(';')}`;
+};
+
+export const exportCalendarToIcs = (events: CalendarEvent[]): string => {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${ICS_PRODUCT_ID}`, 'CALSCALE:GREGORIAN'];
+  events.forEach(event => {
+    const formatTime = (time: number) => (event.allDay ? `;VALUE=DATE:${formatIcsDate(time)}` : `:${formatIcsDateTime(time)}`);
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${formatIcsDateTime(event.updatedAt)}`);
+    if (event.recurrenceId !== undefined) lines.push(`RECURRENCE-ID${formatTime(event.recurrenceId)}`);
+    lines.push(`DTSTART${formatTime(event.start)}`, `DTEND${formatTime(event.end)}`);
+    lines.push(`SUMMARY:${escapeIcsText(event.title)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+    if (event.recurrence) lines.push(formatRecurrence(event.recurrence));
+    (event.exdates ?? []).forEach(exdate => lines.push(`EXDATE${formatTime(exdate)}`));
+    event.attendees.forEach(attendee => {
+      const name = attendee.name.replace(/"/g, "'");
+      lines.push(`ATTENDEE;CN="${name}":${attendee.email ? `mailto:${attendee.email}` : 'invalid:nomail'}`);
+    });
+    lines.push('END:VEVENT');
+  });
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+};
+
+export const downloadCalendarIcs = (events: CalendarEvent[]): void => {
+  const blob = new Blob([exportCalendarToIcs(events)], { type: 'text/calendar' });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = `seasuite-calendar-${new Date().toISOString().slice(0, 10)}.ics`;
+  anchor.click();
+  URL.revokeObjectURL(url);
+};
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const parseIcsProperty = (line: string): IcsProperty | null => {
+  // The value starts at the first colon outside a quoted parameter.
+  let inQuotes = false;
+  let split = -1;
+  for (let index = 0; index < line.length; index++) {
+    if (line[index] === '"') inQuotes = !inQuotes;
+    else if (line[index] === ':' && !inQuotes) {
+      split = index;
+      break;
+    }
+  }
+  if (split < 0) return null;
+  const [name, ...rawParams] = line.slice(0, split).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(split + 1) };
+};
+
+/** Parses DATE and DATE-TIME values. Floating and TZID times are read as local time. */
+const parseIcsTime = (property: IcsProperty): { time: number; allDay: boolean } | null => {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (!hours) return { time: new Date(Number(year), Number(month) - 1, Number(day)).getTime(), allDay: true };
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)] as const;
+  return { time: utc ? Date.UTC(...parts) : new Date(...parts).getTime(), allDay: false };
+};
+
+const parseIcsDuration = (value: string): number | null => {
+  const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, weeks, days, hours, minutes, seconds] = match.map(part => Number(part ?? 0));
+  return ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+};
+
+const parseIcsRecurrence = (value: string): CalendarRecurrence | null => {
+  const rule = Object.fromEntries(value.split(';').map(part => part.split('=') as [string, string]));
+  const frequency = rule.FREQ?.toLowerCase() as CalendarRecurrenceFrequency;
+  if (!FREQUENCIES.includes(frequency)) return null;
+  const until = rule.UNTIL ? parseIcsTime({ name: 'UNTIL', params: {}, value: rule.UNTIL }) : null;
+  return {
+    frequency,
+    interval: Math.max(1, Number(rule.INTERVAL) || 1),
+    count: rule.COUNT ? Number(rule.COUNT) : undefined,
+    until: until ? (until.allDay ? addDays(until.time, 1).getTime() - 1 : until.time) : undefined
+  };
+};
+
+/** Identifies a stored event: the series, or one changed occurrence of it. */
+const calendarEventKey = (event: Pick<CalendarEvent, 'uid' | 'recurrenceId'>) =>
+  event.recurrenceId === undefined ? event.uid : `${event.uid}#${event.recurrenceId}`;
+
+/**
+ * Parses the VEVENTs of an .ics file. Properties this model has no place for
+ * are ignored, as is everything inside nested components such as VALARM.
+ * A UID repeated in one file keeps the copy with the highest SEQUENCE.
+ */
+export const parseIcsCalendar = (
+  text: string,
+  performers: PerformerProfile[],
+  clients: ClientProfile[],
+  now = Date.now()
+): CalendarEvent[] => {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events = new Map<string, { event: CalendarEvent; sequence: number }>();
+  let current: IcsProperty[] | null = null;
+  // Components opened inside the current VEVENT
+  let nestedDepth = 0;
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT' && !current) {
+      current = [];
+      nestedDepth = 0;
+      return;
+    }
+    if (!current) return;
+    if (/^BEGIN:/i.test(line)) {
+      nestedDepth += 1;
+      return;
+    }
+    if (/^END:/i.test(line) && nestedDepth > 0) {
+      nestedDepth -= 1;
+      return;
+    }
+    if (line === 'END:VEVENT') {
+      const properties: IcsProperty[] = current;
+      current = null;
+      const find = (name: string) => properties.find(property => property.name === name);
+      const startProperty = find('DTSTART');
+      const start = startProperty ? parseIcsTime(startProperty) : null;
+      if (!start) return;
+
+      const endProperty = find('DTEND');
+      const durationProperty = find('DURATION');
+      const parsedEnd = endProperty ? parseIcsTime(endProperty)?.time : undefined;
+      const duration = durationProperty ? parseIcsDuration(durationProperty.value) : null;
+      const end = parsedEnd ?? (duration !== null ? start.time + duration : start.allDay ? addDays(start.time, 1).getTime() : start.time + DEFAULT_DURATION_MS);
+
+      const uid = find('UID')?.value || `${formatIcsDateTime(start.time)}-${events.size}@import`;
+      const recurrenceIdProperty = find('RECURRENCE-ID');
+      const recurrenceId = recurrenceIdProperty ? parseIcsTime(recurrenceIdProperty)?.time : undefined;
+      const rrule = find('RRULE');
+      const exdates = properties
+        .filter(property => property.name === 'EXDATE')
+        .flatMap(property => property.value.split(',').map(value => parseIcsTime({ ...property, value })?.time))
+        .filter((time): time is number => time !== undefined);
+      const attendees = properties
+        .filter(property => property.name === 'ATTENDEE')
+        .flatMap(property => {
+          const email = /^mailto:/i.test(property.value) ? property.value.replace(/^mailto:/i, '') : undefined;
+          return resolveAttendees([property.params.CN || email || ''], performers, clients).map(attendee => ({ ...attendee, email }));
+        })
+        .filter((attendee, index, all) => all.findIndex(other => other.name === attendee.name) === index);
+      const description = find('DESCRIPTION');
+      const location = find('LOCATION');
+      const idSuffix = recurrenceId === undefined ? '' : `-${formatIcsDateTime(recurrenceId)}`;
+
+      const event: CalendarEvent = {
+        id: `evt-ics-${uid.replace(/[^a-zA-Z0-9_-]/g, '_')}${idSuffix}`,
+        uid,
+        title: unescapeIcsText(find('SUMMARY')?.value ?? '') || 'Untitled event',
+        description: description ? unescapeIcsText(description.value) : undefined,
+        location: location ? unescapeIcsText(location.value) : undefined,
+        start: start.time,
+        end: Math.max(end, start.time),
+        allDay: start.allDay,
+        attendees,
+        recurrence: rrule && recurrenceId === undefined ? parseIcsRecurrence(rrule.value) : null,
+        exdates: exdates.length ? exdates : undefined,
+        recurrenceId,
+        origin: 'ics_import',
+        createdAt: now,
+        updatedAt: now
+      };
+      const sequence = Number(find('SEQUENCE')?.value) || 0;
+      const key = calendarEventKey(event);
+      const previous = events.get(key);
+      if (!previous || sequence >= previous.sequence) events.set(key, { event, sequence });
+      return;
+    }
+    if (nestedDepth === 0) {
+      const property = parseIcsProperty(line);
+      if (property) current.push(property);
+    }
+  });
+
+  return Array.from(events.values(), entry => entry.event);
+};
+
+const sameNumbers = (a: number[] = [], b: number[] = []) =>
+  a.length === b.length && a.every(value => b.includes(value));
+
+const sameRecurrence = (a: CalendarRecurrence | null, b: CalendarRecurrence | null) =>
+  a === b || (!!a && !!b && a.frequency === b.frequency && a.interval === b.interval && a.count === b.count && a.until === b.until);
+
+const sameAttendees = (a: CalendarAttendee[], b: CalendarAttendee[]) =>
+  a.length === b.length && a.every((attendee, index) => attendee.name === b[index].name && attendee.email === b[index].email && attendee.refId === b[index].refId);
+
+/** Imports an .ics file, updating events whose UID (and RECURRENCE-ID) is already known instead of duplicating them. */
+export const importIcsCalendar = async (text: string): Promise<CalendarImportSummary> => {
+  const [performers, clients, existing] = await Promise.all([getAllPerformers(), getAllClientProfiles(), getCalendarEvents()]);
+  const parsed = parseIcsCalendar(text, performers, clients);
+  if (parsed.length === 0 && !/BEGIN:VCALENDAR/.test(text)) {
+    throw new Error('File is not an iCalendar (.ics) file.');
+  }
+
+  const byKey = new Map(existing.map(event => [calendarEventKey(event), event]));
+  const summary: CalendarImportSummary = { added: 0, updated: 0, skipped: 0 };
+  const toSave: CalendarEvent[] = [];
+  parsed.forEach(event => {
+    const previous = byKey.get(calendarEventKey(event));
+    if (!previous) {
+      summary.added += 1;
+      toSave.push(event);
+      return;
+    }
+    const unchanged = previous.title === event.title
+      && previous.start === event.start
+      && previous.end === event.end
+      && previous.description === event.description
+      && previous.location === event.location
+      && previous.allDay === event.allDay
+      && sameRecurrence(previous.recurrence, event.recurrence)
+      && sameNumbers(previous.exdates, event.exdates)
+      && (!event.attendees.length || sameAttendees(previous.attendees, event.attendees));
+    if (unchanged) {
+      summary.skipped += 1;
+      return;
+    }
+    summary.updated += 1;
+    // Keep our id, origin and source links; take the calendar's schedule and details.
+    toSave.push({
+      ...previous,
+      title: event.title,
+      description: event.description,
+      location: event.location,
+      start: event.start,
+      end: event.end,
+      allDay: event.allDay,
+      recurrence: event.recurrence,
+      exdates: event.exdates,
+      attendees: event.attendees.length ? event.attendees : previous.attendees,
+      updatedAt: event.updatedAt
+    });
+  });
+
+  await saveCalendarEvents(toSave);
+  return summary;
+};
+
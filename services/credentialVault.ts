@@ -0,0 +1,331 @@
+import { CredentialHealth, ModelProvider, PerformerProfile, StoredCredential } from '../types';
+import { deleteCredential, getAllCredentials, getAllPerformers, saveCredentials, savePerformer } from './db';
+import { loadAiSettings, PROVIDERS, saveAiSettings } from './aiService';
+
+const VAULT_STORAGE_KEY = 'credential-vault';
+const VERIFIER_PLAINTEXT = 'seasuite-credential-vault';
+const PBKDF2_ITERATIONS = 310000;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// A failing credential is tried last until this long after its latest failure.
+const FAILURE_COOLDOWN_MS = 5 * 60 * 1000;
+// Successful calls only rewrite health this often, so a busy chat does not thrash the table.
+const HEALTHY_RECHECK_MS = 60 * 1000;
+const MAX_ERROR_LENGTH = 200;
+
+const PROVIDER_LABELS: Record<ModelProvider, string> = {
+  google: 'Google',
+  openai: 'OpenAI',
+  openrouter: 'OpenRouter'
+};
+
+interface EncryptedValue {
+  iv: string;
+  cipherText: string;
+}
+
+interface VaultMeta {
+  version: 1;
+  salt: string;
+  iterations: number;
+  // Known plaintext encrypted with the vault key; decrypting it proves the passphrase
+  verifier: EncryptedValue;
+}
+
+// Decrypted keys only ever live in memory, and only while the vault is unlocked.
+let vaultKey: CryptoKey | null = null;
+const secrets = new Map<string, string>();
+const records = new Map<string, StoredCredential>();
+
+const dispatchVaultUpdated = () => {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event('credentials-updated'));
+  }
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const deriveVaultKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encryptValue = async (key: CryptoKey, plaintext: string): Promise<EncryptedValue> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return { iv: toBase64(iv), cipherText: toBase64(new Uint8Array(data)) };
+};
+
+// Throws when the key is wrong or the ciphertext was tampered with.
+const decryptValue = async (key: CryptoKey, value: EncryptedValue): Promise<string> => {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(value.iv) }, key, fromBase64(value.cipherText));
+  return new TextDecoder().decode(data);
+};
+
+const readVaultMeta = (): VaultMeta | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = window.localStorage.getItem(VAULT_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && typeof parsed.salt === 'string' && parsed.verifier ? (parsed as VaultMeta) : null;
+  } catch (error) {
+    console.warn('Failed to read credential vault settings.', error);
+    return null;
+  }
+};
+
+const writeVaultMeta = (meta: VaultMeta) => {
+  window.localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(meta));
+};
+
+const createVaultMeta = async (passphrase: string): Promise<{ meta: VaultMeta; key: CryptoKey }> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveVaultKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const verifier = await encryptValue(key, VERIFIER_PLAINTEXT);
+  return { meta: { version: 1, salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, verifier }, key };
+};
+
+const openVaultKey = async (meta: VaultMeta, passphrase: string): Promise<CryptoKey> => {
+  const key = await deriveVaultKey(passphrase, fromBase64(meta.salt), meta.iterations);
+  try {
+    if (await decryptValue(key, meta.verifier) === VERIFIER_PLAINTEXT) return key;
+  } catch {
+    // Wrong key; reported below.
+  }
+  throw new Error('Incorrect passphrase.');
+};
+
+const requireVaultKey = (): CryptoKey => {
+  if (!vaultKey) throw new Error('Unlock the credential vault first.');
+  return vaultKey;
+};
+
+const hintFor = (secret: string) => (secret.length > 8 ? `…${secret.slice(-4)}` : '…');
+
+const loadRecords = async (key: CryptoKey | null) => {
+  const rows = await getAllCredentials();
+  records.clear();
+  secrets.clear();
+  for (const row of rows) {
+    records.set(row.id, row);
+    if (!key) continue;
+    try {
+      secrets.set(row.id, await decryptValue(key, row));
+    } catch (error) {
+      console.warn(`Credential ${row.label} could not be decrypted with this vault.`, error);
+    }
+  }
+};
+
+/** The salt and verifier identify a vault; bundles encrypted under another vault cannot be merged into this one. */
+export const getVaultFingerprint = (): string | null => readVaultMeta()?.salt ?? null;
+
+export const isVaultInitialized = (): boolean => readVaultMeta() !== null;
+
+export const isVaultUnlocked = (): boolean => vaultKey !== null;
+
+/** Sets up the vault and moves any plaintext keys into it. Returns how many credentials were created. */
+export const createVault = async (passphrase: string): Promise<number> => {
+  if (isVaultInitialized()) throw new Error('A credential vault already exists.');
+  const { meta, key } = await createVaultMeta(passphrase);
+  writeVaultMeta(meta);
+  vaultKey = key;
+  await loadRecords(key);
+  const migrated = await migrateLegacyKeys();
+  dispatchVaultUpdated();
+  return migrated;
+};
+
+export const unlockVault = async (passphrase: string): Promise<void> => {
+  const meta = readVaultMeta();
+  if (!meta) throw new Error('No credential vault has been set up yet.');
+  const key = await openVaultKey(meta, passphrase);
+  vaultKey = key;
+  await loadRecords(key);
+  dispatchVaultUpdated();
+};
+
+export const lockVault = (): void => {
+  vaultKey = null;
+  secrets.clear();
+  records.clear();
+  dispatchVaultUpdated();
+};
+
+/** Re-encrypts every credential under a new passphrase. */
+export const changeVaultPassphrase = async (current: string, next: string): Promise<void> => {
+  const meta = readVaultMeta();
+  if (!meta) throw new Error('No credential vault has been set up yet.');
+  await openVaultKey(meta, current);
+  const { meta: nextMeta, key } = await createVaultMeta(next);
+  const now = Date.now();
+  const reencrypted: StoredCredential[] = [];
+  for (const record of records.values()) {
+    const secret = secrets.get(record.id);
+    if (secret === undefined) continue;
+    reencrypted.push({ ...record, ...(await encryptValue(key, secret)), updatedAt: now });
+  }
+  await saveCredentials(reencrypted);
+  writeVaultMeta(nextMeta);
+  vaultKey = key;
+  await loadRecords(key);
+  dispatchVaultUpdated();
+};
+
+export interface CredentialInput {
+  label: string;
+  provider: ModelProvider;
+  secret: string;
+}
+
+export const addCredential = async (input: CredentialInput): Promise<StoredCredential> => {
+  const key = requireVaultKey();
+  const secret = input.secret.trim();
+  if (!secret) throw new Error('Enter the API key.');
+  const now = Date.now();
+  const record: StoredCredential = {
+    id: `cred_${now.toString(36)}_${Math.random().toString(36).slice(2, 7)}`,
+    label: input.label.trim() || `${PROVIDER_LABELS[input.provider]} key`,
+    provider: input.provider,
+    ...(await encryptValue(key, secret)),
+    hint: hintFor(secret),
+    health: { status: 'unknown', consecutiveFailures: 0 },
+    createdAt: now,
+    updatedAt: now
+  };
+  await saveCredentials([record]);
+  records.set(record.id, record);
+  secrets.set(record.id, secret);
+  return record;
+};
+
+/** Renames a credential or, when `secret` is given, replaces its key and resets its health. */
+export const updateCredential = async (id: string, patch: Partial<CredentialInput>): Promise<StoredCredential> => {
+  const key = requireVaultKey();
+  const existing = records.get(id);
+  if (!existing) throw new Error('Credential not found.');
+  const secret = patch.secret?.trim();
+  const record: StoredCredential = {
+    ...existing,
+    label: patch.label?.trim() || existing.label,
+    provider: patch.provider ?? existing.provider,
+    ...(secret ? { ...(await encryptValue(key, secret)), hint: hintFor(secret), health: { status: 'unknown', consecutiveFailures: 0 } } : {}),
+    updatedAt: Date.now()
+  };
+  await saveCredentials([record]);
+  records.set(id, record);
+  if (secret) secrets.set(id, secret);
+  return record;
+};
+
+export const removeCredential = async (id: string): Promise<void> => {
+  requireVaultKey();
+  await deleteCredential(id);
+  records.delete(id);
+  secrets.delete(id);
+};
+
+/** The decrypted key, or undefined when the vault is locked or the id is unknown. */
+export const resolveCredentialSecret = (id?: string): string | undefined => (id ? secrets.get(id) : undefined);
+
+export const getCredentialHealth = (id?: string): CredentialHealth | undefined => (id ? records.get(id)?.health : undefined);
+
+/** Records the outcome of a call made with a credential; pass the error for failures. */
+export const recordCredentialHealth = async (id: string, error?: unknown, now = Date.now()): Promise<void> => {
+  const record = records.get(id);
+  if (!record) return;
+  const previous = record.health;
+  let health: CredentialHealth;
+  if (error === undefined) {
+    if (previous.status === 'healthy' && previous.lastCheckedAt && now - previous.lastCheckedAt < HEALTHY_RECHECK_MS) return;
+    health = { status: 'healthy', lastCheckedAt: now, consecutiveFailures: 0 };
+  } else {
+    const message = error instanceof Error ? error.message : String(error);
+    health = {
+      status: 'failing',
+      lastCheckedAt: now,
+      lastError: message.slice(0, MAX_ERROR_LENGTH),
+      consecutiveFailures: previous.consecutiveFailures + 1
+    };
+  }
+  const next = { ...record, health };
+  records.set(id, next);
+  await saveCredentials([next]);
+};
+
+/**
+ * Keeps the configured order but moves routes whose credential failed within
+ * the cooldown to the back, so a dead key is not retried first on every call.
+ */
+export const orderRoutesByHealth = <T extends { credentialId?: string }>(routes: T[], now = Date.now()): T[] => {
+  const coolingDown = (route: T) => {
+    const health = getCredentialHealth(route.credentialId);
+    return health?.status === 'failing' && !!health.lastCheckedAt && now - health.lastCheckedAt < FAILURE_COOLDOWN_MS;
+  };
+  return [...routes.filter(route => !coolingDown(route)), ...routes.filter(coolingDown)];
+};
+
+export const hasLegacyKeys = (performers: PerformerProfile[]): boolean => {
+  const settings = loadAiSettings();
+  return Object.values(settings.legacyApiKeys).some(key => !!key?.trim()) || performers.some(performer => !!performer.apiKey?.trim());
+};
+
+/**
+ * Moves plaintext keys from AI settings and performer profiles into the vault.
+ * The same key pasted in several places becomes one credential, and every
+ * place that held it now references that credential instead.
+ */
+export const migrateLegacyKeys = async (): Promise<number> => {
+  requireVaultKey();
+  const byValue = new Map<string, string>();
+  records.forEach(record => {
+    const secret = secrets.get(record.id);
+    if (secret) byValue.set(`${record.provider}:${secret}`, record.id);
+  });
+  let created = 0;
+  const credentialFor = async (provider: ModelProvider, secret: string, label: string): Promise<string> => {
+    const existing = byValue.get(`${provider}:${secret}`);
+    if (existing) return existing;
+    const record = await addCredential({ label, provider, secret });
+    byValue.set(`${provider}:${secret}`, record.id);
+    created += 1;
+    return record.id;
+  };
+
+  const settings = loadAiSettings();
+  const credentialIds = { ...settings.credentialIds };
+  for (const provider of PROVIDERS) {
+    const secret = settings.legacyApiKeys[provider]?.trim();
+    if (!secret) continue;
+    const id = await credentialFor(provider, secret, `${PROVIDER_LABELS[provider]} (Settings)`);
+    credentialIds[provider] = credentialIds[provider] ?? id;
+  }
+  saveAiSettings({ ...settings, credentialIds, legacyApiKeys: {} });
+
+  const performers = await getAllPerformers();
+  for (const performer of performers) {
+    const secret = performer.apiKey?.trim();
+    if (!secret) continue;
+    const id = await credentialFor(performer.provider, secret, `${performer.name} (${PROVIDER_LABELS[performer.provider]})`);
+    const { apiKey: _plaintext, ...rest } = performer;
+    await savePerformer({ ...rest, credentialId: performer.credentialId ?? id });
+  }
+  return created;
+};
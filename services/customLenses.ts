@@ -0,0 +1,206 @@
+import { ChatMessage, CustomLens, FollowUpPriority, LensOutputTarget } from '../types';
+import { addFollowUp, getFollowUpBySourceRecord, getJournalEntry, upsertJournalEntry } from './db';
+import { buildPostProcessingPrompt, generateJsonCompletion, runPostProcessingPrompt } from './aiService';
+import { recordKnowledgeObservations } from './knowledgeGraph';
+import { FOLLOW_UP_PRIORITIES } from './followUpRules';
+
+export const LENS_OUTPUT_TARGETS: Array<{ value: LensOutputTarget; label: string; description: string }> = [
+  { value: 'none', label: 'Display only', description: 'Show the result under the message.' },
+  { value: 'journal', label: 'Journal', description: 'Append `entry` to the journal day in `date` (defaults to today).' },
+  { value: 'follow_ups', label: 'Follow-ups', description: 'Create a follow-up for each item in `followUps`.' },
+  { value: 'knowledge', label: 'Knowledge graph', description: 'Record each item in `facts` as a knowledge edge.' }
+];
+
+// The top-level property each writable target reads from.
+const TARGET_ROOT_PROPERTY: Record<Exclude<LensOutputTarget, 'none'>, string> = {
+  journal: 'entry',
+  follow_ups: 'followUps',
+  knowledge: 'facts'
+};
+
+export const LENS_SCHEMA_TEMPLATES: Record<Exclude<LensOutputTarget, 'none'>, Record<string, unknown>> = {
+  journal: {
+    type: 'object',
+    properties: {
+      date: { type: 'string', description: 'YYYY-MM-DD the entry belongs to' },
+      entry: { type: 'string', description: 'Journal text' }
+    },
+    required: ['entry']
+  },
+  follow_ups: {
+    type: 'object',
+    properties: {
+      followUps: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            description: { type: 'string' },
+            priority: { type: 'string', enum: FOLLOW_UP_PRIORITIES },
+            dueDate: { type: 'string', description: 'YYYY-MM-DD' }
+          },
+          required: ['title']
+        }
+      }
+    },
+    required: ['followUps']
+  },
+  knowledge: {
+    type: 'object',
+    properties: {
+      facts: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            source: { type: 'string' },
+            predicate: { type: 'string', description: 'snake_case relation, e.g. works_at' },
+            target: { type: 'string' },
+            confidence: { type: 'number', description: '0-1' }
+          },
+          required: ['source', 'predicate', 'target']
+        }
+      }
+    },
+    required: ['facts']
+  }
+};
+
+export interface CustomLensResult {
+  markdown: string;
+  data: unknown | null;
+  // Where structured output was written, for display.
+  applied: string | null;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Parses schema text from the lens editor. Empty text means a free-form lens.
+ * Writable targets need their root property declared so results can be routed.
+ */
+export const parseLensSchema = (text: string, target: LensOutputTarget): Record<string, unknown> | null => {
+  if (!text.trim()) {
+    if (target !== 'none') throw new Error('Writing to a destination requires an output schema.');
+    return null;
+  }
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch {
+    throw new Error('Output schema is not valid JSON.');
+  }
+  if (!isRecord(schema) || schema.type !== 'object' || !isRecord(schema.properties)) {
+    throw new Error('Output schema must be an object schema with "properties".');
+  }
+  if (target !== 'none' && !(TARGET_ROOT_PROPERTY[target] in schema.properties)) {
+    throw new Error(`This destination reads the "${TARGET_ROOT_PROPERTY[target]}" property; add it to the schema.`);
+  }
+  return schema;
+};
+
+const todayKey = () => new Date().toISOString().split('T')[0];
+
+const parseDueDate = (value: unknown): number | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+const isFollowUpPriority = (value: unknown): value is FollowUpPriority =>
+  FOLLOW_UP_PRIORITIES.includes(value as FollowUpPriority);
+
+// Running a lens again on the same message must not write its output twice.
+const applyLensOutput = async (lens: CustomLens, data: unknown, messageId: string): Promise<string | null> => {
+  if (!isRecord(data)) return null;
+
+  switch (lens.outputTarget) {
+    case 'journal': {
+      const entry = typeof data.entry === 'string' ? data.entry.trim() : '';
+      if (!entry) return null;
+      const date = typeof data.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(data.date) ? data.date : todayKey();
+      const existing = await getJournalEntry(date);
+      if (existing?.content.includes(entry)) return `Already in journal for ${date}`;
+      await upsertJournalEntry({ date, content: existing ? `${existing.content}\n\n${entry}` : entry });
+      return `Added to journal for ${date}`;
+    }
+    case 'follow_ups': {
+      const items = (Array.isArray(data.followUps) ? data.followUps : []).filter(
+        (item): item is Record<string, unknown> => isRecord(item) && typeof item.title === 'string' && item.title.trim().length > 0
+      );
+      const sourceRecordId = `lens:${lens.id}:${messageId}`;
+      let created = 0;
+      for (const item of items) {
+        const title = (item.title as string).trim();
+        if (await getFollowUpBySourceRecord(sourceRecordId, title)) continue;
+        await addFollowUp({
+          title,
+          description: typeof item.description === 'string' ? item.description : undefined,
+          category: 'operations',
+          status: 'pending',
+          sourceRecordId,
+          sourceSummary: lens.label,
+          priority: isFollowUpPriority(item.priority) ? item.priority : undefined,
+          dueAt: parseDueDate(item.dueDate),
+          autoGenerated: true,
+          metadata: { lensId: lens.id, messageId }
+        });
+        created += 1;
+      }
+      if (!items.length) return null;
+      return created ? `Created ${created} follow-up${created === 1 ? '' : 's'}` : 'Follow-ups already created';
+    }
+    case 'knowledge': {
+      const facts = (Array.isArray(data.facts) ? data.facts : []).filter(
+        (fact): fact is Record<string, unknown> =>
+          isRecord(fact) && typeof fact.source === 'string' && typeof fact.predicate === 'string' && typeof fact.target === 'string'
+      );
+      const edges = await recordKnowledgeObservations(
+        facts.map(fact => ({
+          source: fact.source as string,
+          target: fact.target as string,
+          predicate: fact.predicate as string,
+          confidence: typeof fact.confidence === 'number' ? fact.confidence : undefined,
+          evidence: { sourceType: 'message', sourceId: messageId }
+        })),
+        { tags: [`lens:${lens.label}`] }
+      );
+      if (!facts.length) return null;
+      return edges.length ? `Recorded ${edges.length} knowledge edge${edges.length === 1 ? '' : 's'}` : 'Knowledge already recorded';
+    }
+    default:
+      return null;
+  }
+};
+
+/** Runs a user-defined lens; structured lenses also write to their destination. */
+export const runCustomLens = async (
+  lens: CustomLens,
+  messageContent: string,
+  role: ChatMessage['role'],
+  messageId: string
+): Promise<CustomLensResult> => {
+  if (!lens.outputSchema) {
+    const markdown = await runPostProcessingPrompt(buildPostProcessingPrompt(lens, messageContent, role));
+    return { markdown, data: null, applied: null };
+  }
+
+  const prompt = buildPostProcessingPrompt(
+    {
+      label: lens.label,
+      instructions: lens.instructions,
+      formatHint: `${lens.formatHint ? `${lens.formatHint}\n\n` : ''}Respond with JSON only, matching this JSON Schema:\n${JSON.stringify(lens.outputSchema, null, 2)}`
+    },
+    messageContent,
+    role
+  );
+  const data = await generateJsonCompletion<unknown>(prompt, { temperature: 0.3 });
+  const applied = await applyLensOutput(lens, data, messageId);
+  return {
+    markdown: `\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``,
+    data,
+    applied
+  };
+};
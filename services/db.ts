@@ -1,7 +1,15 @@
 
 import Dexie, { Table } from 'dexie';
-import { Memory, JournalEntry, KnowledgeEntity, ConversationThread, HrmrRating, PerformerProfile, PerformerMemory, PerformerInteractionEvent, PerformerInteractionSummary, TagScore, BrandIntelligence, ClientProfile, PerformerRelationship, PerformerSecret, DramaEvent, CoordinationPlan, PrivateConversation, PlayerProgress, ExperienceEvent, IntelligenceFollowUp } from '../types';
+import { Memory, JournalEntry, KnowledgeEntity, ConversationThread, HrmrRating, PerformerProfile, PerformerMemory, PerformerInteractionEvent, PerformerInteractionSummary, TagScore, BrandIntelligence, ClientProfile, PerformerRelationship, PerformerSecret, DramaEvent, CoordinationPlan, PrivateConversation, PlayerProgress, ExperienceEvent, IntelligenceFollowUp, EscortPipelineRun, EscortRecipe, IntelligenceRecord, IntelligenceLogQuery, IntelligenceLogPage, EmbeddingRecord, EmbeddingSourceType, ArchivedMemory, MemoryArchiveReason, MemoryChangeBasis, MemoryConsolidationRun, KnowledgeEdge, RoundTableSession, CustomLens, CalendarEvent, MissionDefinition, XpTransaction, WatcherObservation, WatcherRule, WatcherSubject, FollowUpRule, PerformerInteractionRollup, InteractionRollupGranularity, StoredCredential } from '../types';
+import { builtInMissionDefinitions } from './missionDefinitions';
+import { createOpeningBalance } from './xpLedger';
+import { builtInWatcherRules, missingAutonomousDmRules } from './watcherRules';
+import { builtInFollowUpRules } from './followUpRules';
+import { InteractionSummaryDrift, affectedAggregateKeys, aggregateInteractions, diffInteractionAggregates } from './interactionSummaries';
 import { withDefaultTraits } from './socialModel';
+import { upgradeLegacyConversation } from './privateConversations';
+
+const LEGACY_INTELLIGENCE_LOG_KEY = 'intelligence-log';
 
 export class JITAgentDB extends Dexie {
     memories!: Table<Memory, number>;
@@ -23,6 +31,24 @@ export class JITAgentDB extends Dexie {
     playerProgress!: Table<PlayerProgress, string>;
     experienceEvents!: Table<ExperienceEvent, string>;
     followUps!: Table<IntelligenceFollowUp, string>;
+    escortPipelines!: Table<EscortPipelineRun, string>;
+    escortRecipes!: Table<EscortRecipe, string>;
+    intelligenceLog!: Table<IntelligenceRecord, string>;
+    embeddings!: Table<EmbeddingRecord, string>;
+    archivedMemories!: Table<ArchivedMemory, number>;
+    memoryConsolidationRuns!: Table<MemoryConsolidationRun, string>;
+    knowledgeEdges!: Table<KnowledgeEdge, string>;
+    roundTables!: Table<RoundTableSession, string>;
+    customLenses!: Table<CustomLens, string>;
+    calendarEvents!: Table<CalendarEvent, string>;
+    missions!: Table<MissionDefinition, string>;
+    xpLedger!: Table<XpTransaction, string>;
+    watcherRules!: Table<WatcherRule, string>;
+    watcherObservations!: Table<WatcherObservation, string>;
+    followUpRules!: Table<FollowUpRule, string>;
+    interactionSummaries!: Table<PerformerInteractionSummary, string>;
+    interactionRollups!: Table<PerformerInteractionRollup, string>;
+    credentials!: Table<StoredCredential, string>;
 
     constructor() {
         super('JITAgentDB');
@@ -298,10 +324,592 @@ export class JITAgentDB extends Dexie {
             secrets: 'id, performerId, type, createdAt',
             dramaEvents: 'id, timestamp, conversationId',
             coordinationPlans: 'id, initiatorId, status, updatedAt',
-            privateConversations: 'id, [participant1Id+participant2Id], participant1Id, participant2Id, updatedAt',
-            playerProgress: 'id',
-            experienceEvents: 'id, timestamp',
-            followUps: 'id, sourceRecordId, status, category, dueAt, createdAt'
+            privateConversations: 'id, [participant1Id+participant2Id], participant1Id, participant2Id, updatedAt',
+            playerProgress: 'id',
+            experienceEvents: 'id, timestamp',
+            followUps: 'id, sourceRecordId, status, category, dueAt, createdAt'
+        });
+
+        (this as Dexie).version(13).stores({
+            memories: '++id, timestamp, relevance',
+            journal: 'date',
+            knowledge: 'name, updatedAt, createdAt',
+            threads: 'id, updatedAt, createdAt',
+            hrmr: 'id, messageId, grade, updatedAt',
+            performers: 'id, name',
+            performerMemories: '++id, performerId, timestamp',
+            performerInteractions: 'id, conversationId, speakerId, timestamp, context, type',
+            tagScores: 'tag',
+            brandIntelligence: '++id',
+            clientProfiles: 'id, name, updatedAt',
+            relationships: 'id, performerId, targetId, type, updatedAt',
+            secrets: 'id, performerId, type, createdAt',
+            dramaEvents: 'id, timestamp, conversationId',
+            coordinationPlans: 'id, initiatorId, status, updatedAt',
+            privateConversations: 'id, [participant1Id+participant2Id], participant1Id, participant2Id, updatedAt',
+            playerProgress: 'id, rankId, updatedAt',
+            experienceEvents: 'id, branch, type, timestamp',
+            followUps: 'id, sourceRecordId, status, category, dueAt, createdAt',
+            escortPipelines: 'id, recipeId, status, createdAt, updatedAt',
+            escortRecipes: 'id, name, updatedAt'
+        });
+
+        (this as Dexie).version(14).stores({
+            memories: '++id, timestamp, relevance',
+            journal: 'date',
+            knowledge: 'name, updatedAt, createdAt',
+            threads: 'id, updatedAt, createdAt',
+            hrmr: 'id, messageId, grade, updatedAt',
+            performers: 'id, name',
+            performerMemories: '++id, performerId, timestamp',
+            performerInteractions: 'id, conversationId, speakerId, timestamp, context, type',
+            tagScores: 'tag',
+            brandIntelligence: '++id',
+            clientProfiles: 'id, name, updatedAt',
+            relationships: 'id, performerId, targetId, type, updatedAt',
+            secrets: 'id, performerId, type, createdAt',
+            dramaEvents: 'id, timestamp, conversationId',
+            coordinationPlans: 'id, initiatorId, status, updatedAt',
+            privateConversations: 'id, [participant1Id+participant2Id], participant1Id, participant2Id, updatedAt',
+            playerProgress: 'id, rankId, updatedAt',
+            experienceEvents: 'id, branch, type, timestamp',
+            followUps: 'id, sourceRecordId, status, category, dueAt, createdAt',
+            escortPipelines: 'id, recipeId, status, createdAt, updatedAt',
+            escortRecipes: 'id, name, updatedAt',
+            intelligenceLog: 'id, source, category, timestamp, [source+timestamp], [category+timestamp]'
+        }).upgrade(async transaction => {
+            // Carry over the capped log that used to live in localStorage.
+            if (typeof window === 'undefined') return;
+            const raw = window.localStorage.getItem(LEGACY_INTELLIGENCE_LOG_KEY);
+            if (!raw) return;
+            try {
+                const legacy = JSON.parse(raw);
+                if (Array.isArray(legacy) && legacy.length > 0) {
+                    await transaction.table('intelligenceLog').bulkPut(
+                        legacy.filter((record: any) => record && typeof record.id === 'string' && typeof record.timestamp === 'number')
+                    );
+                }
+                window.localStorage.removeItem(LEGACY_INTELLIGENCE_LOG_KEY);
+            } catch (error) {
+                console.error('Failed to migrate legacy intelligence log:', error);
+            }
+        });
+
+        (this as Dexie).version(15).stores({
+            memories: '++id, timestamp, relevance',
+            journal: 'date',
+            knowledge: 'name, updatedAt, createdAt',
+            threads: 'id, updatedAt, createdAt',
+            hrmr: 'id, messageId, grade, updatedAt',
+            performers: 'id, name',
+            performerMemories: '++id, performerId, timestamp',
+            performerInteractions: 'id, conversationId, speakerId, timestamp, context, type',
+            tagScores: 'tag',
+            brandIntelligence: '++id',
+            clientProfiles: 'id, name, updatedAt',
+            relationships: 'id, performerId, targetId, type, updatedAt',
+            secrets: 'id, performerId, type, createdAt',
+            dramaEvents: 'id, timestamp, conversationId',
+            coordinationPlans: 'id, initiatorId, status, updatedAt',
+            privateConversations: 'id, [participant1Id+participant2Id], participant1Id, participant2Id, updatedAt',
+            playerProgress: 'id, rankId, updatedAt',
+            experienceEvents: 'id, branch, type, timestamp',
+            followUps: 'id, sourceRecordId, status, category, dueAt, createdAt',
+            escortPipelines: 'id, recipeId, status, createdAt, updatedAt',
+            escortRecipes: 'id, name, updatedAt',
+            intelligenceLog: 'id, source, category, timestamp, [source+timestamp], [category+timestamp]',
+            embeddings: 'id, sourceType, sourceId, providerId, updatedAt'
+        });
+
+        (this as Dexie).version(16).stores({
+            memories: '++id, timestamp, relevance',
+            journal: 'date',
+            knowledge: 'name, updatedAt, createdAt',
+            threads: 'id, updatedAt, createdAt',
+            hrmr: 'id, messageId, grade, updatedAt',
+            performers: 'id, name',
+            performerMemories: '++id, performerId, timestamp',
+            performerInteractions: 'id, conversationId, speakerId, timestamp, context, type',
+            tagScores: 'tag',
+            brandIntelligence: '++id',
+            clientProfiles: 'id, name, updatedAt',
+            relationships: 'id, performerId, targetId, type, updatedAt',
+            secrets: 'id, performerId, type, createdAt',
+            dramaEvents: 'id, timestamp, conversationId',
+            coordinationPlans: 'id, initiatorId, status, updatedAt',
+            privateConversations: 'id, [participant1Id+participant2Id], participant1Id, participant2Id, updatedAt',
+            playerProgress: 'id, rankId, updatedAt',
+            experienceEvents: 'id, branch, type, timestamp',
+            followUps: 'id, sourceRecordId, status, category, dueAt, createdAt',
+            escortPipelines: 'id, recipeId, status, createdAt, updatedAt',
+            escortRecipes: 'id, name, updatedAt',
+            intelligenceLog: 'id, source, category, timestamp, [source+timestamp], [category+timestamp]',
+            embeddings: 'id, sourceType, sourceId, providerId, updatedAt',
+            archivedMemories: 'id, timestamp, archivedAt, archiveReason, consolidatedInto',
+            memoryConsolidationRuns: 'id, status, createdAt'
+        });
+
+        (this as Dexie).version(17).stores({
+            memories: '++id, timestamp, relevance',
+            journal: 'date',
+            knowledge: 'name, updatedAt, createdAt',
+            threads: 'id, updatedAt, createdAt',
+            hrmr: 'id, messageId, grade, updatedAt',
+            performers: 'id, name',
+            performerMemories: '++id, performerId, timestamp',
+            performerInteractions: 'id, conversationId, speakerId, timestamp, context, type',
+            tagScores: 'tag',
+            brandIntelligence: '++id',
+            clientProfiles: 'id, name, updatedAt',
+            relationships: 'id, performerId, targetId, type, updatedAt',
+            secrets: 'id, performerId, type, createdAt',
+            dramaEvents: 'id, timestamp, conversationId',
+            coordinationPlans: 'id, initiatorId, status, updatedAt',
+            privateConversations: 'id, [participant1Id+participant2Id], participant1Id, participant2Id, updatedAt',
+            playerProgress: 'id, rankId, updatedAt',
+            experienceEvents: 'id, branch, type, timestamp',
+            followUps: 'id, sourceRecordId, status, category, dueAt, createdAt',
+            escortPipelines: 'id, recipeId, status, createdAt, updatedAt',
+            escortRecipes: 'id, name, updatedAt',
+            intelligenceLog: 'id, source, category, timestamp, [source+timestamp], [category+timestamp]',
+            embeddings: 'id, sourceType, sourceId, providerId, updatedAt',
+            archivedMemories: 'id, timestamp, archivedAt, archiveReason, consolidatedInto',
+            memoryConsolidationRuns: 'id, status, createdAt',
+            knowledgeEdges: 'id, source, target, predicate, confidence, lastSeenAt'
+        }).upgrade(async (transaction) => {
+            const edges = edgesFromLegacyRelationships(await transaction.table('knowledge').toArray());
+            if (edges.length > 0) {
+                await transaction.table('knowledgeEdges').bulkPut(edges);
+            }
+        });
+
+        (this as Dexie).version(18).stores({
+            memories: '++id, timestamp, relevance',
+            journal: 'date',
+            knowledge: 'name, updatedAt, createdAt',
+            threads: 'id, updatedAt, createdAt',
+            hrmr: 'id, messageId, grade, updatedAt',
+            performers: 'id, name',
+            performerMemories: '++id, performerId, timestamp',
+            performerInteractions: 'id, conversationId, speakerId, timestamp, context, type',
+            tagScores: 'tag',
+            brandIntelligence: '++id',
+            clientProfiles: 'id, name, updatedAt',
+            relationships: 'id, performerId, targetId, type, updatedAt',
+            secrets: 'id, performerId, type, createdAt',
+            dramaEvents: 'id, timestamp, conversationId',
+            coordinationPlans: 'id, initiatorId, status, updatedAt',
+            privateConversations: 'id, [participant1Id+participant2Id], participant1Id, participant2Id, updatedAt',
+            playerProgress: 'id, rankId, updatedAt',
+            experienceEvents: 'id, branch, type, timestamp',
+            followUps: 'id, sourceRecordId, status, category, dueAt, createdAt',
+            escortPipelines: 'id, recipeId, status, createdAt, updatedAt',
+            escortRecipes: 'id, name, updatedAt',
+            intelligenceLog: 'id, source, category, timestamp, [source+timestamp], [category+timestamp]',
+            embeddings: 'id, sourceType, sourceId, providerId, updatedAt',
+            archivedMemories: 'id, timestamp, archivedAt, archiveReason, consolidatedInto',
+            memoryConsolidationRuns: 'id, status, createdAt',
+            knowledgeEdges: 'id, source, target, predicate, confidence, lastSeenAt',
+            roundTables: 'id, status, createdAt, updatedAt'
+        });
+
+        (this as Dexie).version(19).stores({
+            memories: '++id, timestamp, relevance',
+            journal: 'date',
+            knowledge: 'name, updatedAt, createdAt',
+            threads: 'id, updatedAt, createdAt',
+            hrmr: 'id, messageId, grade, updatedAt',
+            performers: 'id, name',
+            performerMemories: '++id, performerId, timestamp',
+            performerInteractions: 'id, conversationId, speakerId, timestamp, context, type',
+            tagScores: 'tag',
+            brandIntelligence: '++id',
+            clientProfiles: 'id, name, updatedAt',
+            relationships: 'id, performerId, targetId, type, updatedAt',
+            secrets: 'id, performerId, type, createdAt',
+            dramaEvents: 'id, timestamp, conversationId',
+            coordinationPlans: 'id, initiatorId, status, updatedAt',
+            privateConversations: 'id, [participant1Id+participant2Id], participant1Id, participant2Id, updatedAt',
+            playerProgress: 'id, rankId, updatedAt',
+            experienceEvents: 'id, branch, type, timestamp',
+            followUps: 'id, sourceRecordId, status, category, dueAt, createdAt',
+            escortPipelines: 'id, recipeId, status, createdAt, updatedAt',
+            escortRecipes: 'id, name, updatedAt',
+            intelligenceLog: 'id, source, category, timestamp, [source+timestamp], [category+timestamp]',
+            embeddings: 'id, sourceType, sourceId, providerId, updatedAt',
+            archivedMemories: 'id, timestamp, archivedAt, archiveReason, consolidatedInto',
+            memoryConsolidationRuns: 'id, status, createdAt',
+            knowledgeEdges: 'id, source, target, predicate, confidence, lastSeenAt',
+            roundTables: 'id, status, createdAt, updatedAt',
+            customLenses: 'id, label, updatedAt'
+        });
+
+        (this as Dexie).version(20).stores({
+            memories: '++id, timestamp, relevance',
+            journal: 'date',
+            knowledge: 'name, updatedAt, createdAt',
+            threads: 'id, updatedAt, createdAt',
+            hrmr: 'id, messageId, grade, updatedAt',
+            performers: 'id, name',
+            performerMemories: '++id, performerId, timestamp',
+            performerInteractions: 'id, conversationId, speakerId, timestamp, context, type',
+            tagScores: 'tag',
+            brandIntelligence: '++id',
+            clientProfiles: 'id, name, updatedAt',
+            relationships: 'id, performerId, targetId, type, updatedAt',
+            secrets: 'id, performerId, type, createdAt',
+            dramaEvents: 'id, timestamp, conversationId',
+            coordinationPlans: 'id, initiatorId, status, updatedAt',
+            privateConversations: 'id, [participant1Id+participant2Id], participant1Id, participant2Id, updatedAt',
+            playerProgress: 'id, rankId, updatedAt',
+            experienceEvents: 'id, branch, type, timestamp',
+            followUps: 'id, sourceRecordId, status, category, dueAt, createdAt',
+            escortPipelines: 'id, recipeId, status, createdAt, updatedAt',
+            escortRecipes: 'id, name, updatedAt',
+            intelligenceLog: 'id, source, category, timestamp, [source+timestamp], [category+timestamp]',
+            embeddings: 'id, sourceType, sourceId, providerId, updatedAt',
+            archivedMemories: 'id, timestamp, archivedAt, archiveReason, consolidatedInto',
+            memoryConsolidationRuns: 'id, status, createdAt',
+            knowledgeEdges: 'id, source, target, predicate, confidence, lastSeenAt',
+            roundTables: 'id, status, createdAt, updatedAt',
+            customLenses: 'id, label, updatedAt',
+            calendarEvents: 'id, uid, start, end, origin, updatedAt'
+        });
+
+        (this as Dexie).version(21).stores({
+            memories: '++id, timestamp, relevance',
+            journal: 'date',
+            knowledge: 'name, updatedAt, createdAt',
+            threads: 'id, updatedAt, createdAt',
+            hrmr: 'id, messageId, grade, updatedAt',
+            performers: 'id, name',
+            performerMemories: '++id, performerId, timestamp',
+            performerInteractions: 'id, conversationId, speakerId, timestamp, context, type',
+            tagScores: 'tag',
+            brandIntelligence: '++id',
+            clientProfiles: 'id, name, updatedAt',
+            relationships: 'id, performerId, targetId, type, updatedAt',
+            secrets: 'id, performerId, type, createdAt',
+            dramaEvents: 'id, timestamp, conversationId',
+            coordinationPlans: 'id, initiatorId, status, updatedAt',
+            privateConversations: 'id, [participant1Id+participant2Id], participant1Id, participant2Id, updatedAt',
+            playerProgress: 'id, rankId, updatedAt',
+            experienceEvents: 'id, branch, type, timestamp',
+            followUps: 'id, sourceRecordId, status, category, dueAt, createdAt',
+            escortPipelines: 'id, recipeId, status, createdAt, updatedAt',
+            escortRecipes: 'id, name, updatedAt',
+            intelligenceLog: 'id, source, category, timestamp, [source+timestamp], [category+timestamp]',
+            embeddings: 'id, sourceType, sourceId, providerId, updatedAt',
+            archivedMemories: 'id, timestamp, archivedAt, archiveReason, consolidatedInto',
+            memoryConsolidationRuns: 'id, status, createdAt',
+            knowledgeEdges: 'id, source, target, predicate, confidence, lastSeenAt',
+            roundTables: 'id, status, createdAt, updatedAt',
+            customLenses: 'id, label, updatedAt',
+            calendarEvents: 'id, uid, start, end, origin, updatedAt',
+            missions: 'id, branch, updatedAt'
+        }).upgrade(async transaction => {
+            // The built-in catalog is seeded once; a catalog emptied in the editor stays empty.
+            await transaction.table('missions').bulkPut(builtInMissionDefinitions());
+        });
+
+        (this as Dexie).version(22).stores({
+            memories: '++id, timestamp, relevance',
+            journal: 'date',
+            knowledge: 'name, updatedAt, createdAt',
+            threads: 'id, updatedAt, createdAt',
+            hrmr: 'id, messageId, grade, updatedAt',
+            performers: 'id, name',
+            performerMemories: '++id, performerId, timestamp',
+            performerInteractions: 'id, conversationId, speakerId, timestamp, context, type',
+            tagScores: 'tag',
+            brandIntelligence: '++id',
+            clientProfiles: 'id, name, updatedAt',
+            relationships: 'id, performerId, targetId, type, updatedAt',
+            secrets: 'id, performerId, type, createdAt',
+            dramaEvents: 'id, timestamp, conversationId',
+            coordinationPlans: 'id, initiatorId, status, updatedAt',
+            privateConversations: 'id, [participant1Id+participant2Id], participant1Id, participant2Id, updatedAt',
+            playerProgress: 'id, rankId, updatedAt',
+            experienceEvents: 'id, branch, type, timestamp',
+            followUps: 'id, sourceRecordId, status, category, dueAt, createdAt',
+            escortPipelines: 'id, recipeId, status, createdAt, updatedAt',
+            escortRecipes: 'id, name, updatedAt',
+            intelligenceLog: 'id, source, category, timestamp, [source+timestamp], [category+timestamp]',
+            embeddings: 'id, sourceType, sourceId, providerId, updatedAt',
+            archivedMemories: 'id, timestamp, archivedAt, archiveReason, consolidatedInto',
+            memoryConsolidationRuns: 'id, status, createdAt',
+            knowledgeEdges: 'id, source, target, predicate, confidence, lastSeenAt',
+            roundTables: 'id, status, createdAt, updatedAt',
+            customLenses: 'id, label, updatedAt',
+            calendarEvents: 'id, uid, start, end, origin, updatedAt',
+            missions: 'id, branch, updatedAt',
+            xpLedger: 'id, kind, status, timestamp, parentId, experienceEventId'
+        }).upgrade(async transaction => {
+            // Open the ledger with the XP already earned so replaying it reproduces current totals.
+            const progress = await transaction.table('playerProgress').get('player::main');
+            const opening = progress ? createOpeningBalance(progress) : null;
+            if (opening) {
+                await transaction.table('xpLedger').add(opening);
+            }
+        });
+
+        (this as Dexie).version(23).stores({
+            memories: '++id, timestamp, relevance',
+            journal: 'date',
+            knowledge: 'name, updatedAt, createdAt',
+            threads: 'id, updatedAt, createdAt',
+            hrmr: 'id, messageId, grade, updatedAt',
+            performers: 'id, name',
+            performerMemories: '++id, performerId, timestamp',
+            performerInteractions: 'id, conversationId, speakerId, timestamp, context, type',
+            tagScores: 'tag',
+            brandIntelligence: '++id',
+            clientProfiles: 'id, name, updatedAt',
+            relationships: 'id, performerId, targetId, type, updatedAt',
+            secrets: 'id, performerId, type, createdAt',
+            dramaEvents: 'id, timestamp, conversationId',
+            coordinationPlans: 'id, initiatorId, status, updatedAt',
+            privateConversations: 'id, [participant1Id+participant2Id], participant1Id, participant2Id, updatedAt',
+            playerProgress: 'id, rankId, updatedAt',
+            experienceEvents: 'id, branch, type, timestamp',
+            followUps: 'id, sourceRecordId, status, category, dueAt, createdAt',
+            escortPipelines: 'id, recipeId, status, createdAt, updatedAt',
+            escortRecipes: 'id, name, updatedAt',
+            intelligenceLog: 'id, source, category, timestamp, [source+timestamp], [category+timestamp]',
+            embeddings: 'id, sourceType, sourceId, providerId, updatedAt',
+            archivedMemories: 'id, timestamp, archivedAt, archiveReason, consolidatedInto',
+            memoryConsolidationRuns: 'id, status, createdAt',
+            knowledgeEdges: 'id, source, target, predicate, confidence, lastSeenAt',
+            roundTables: 'id, status, createdAt, updatedAt',
+            customLenses: 'id, label, updatedAt',
+            calendarEvents: 'id, uid, start, end, origin, updatedAt',
+            missions: 'id, branch, updatedAt',
+            xpLedger: 'id, kind, status, timestamp, parentId, experienceEventId',
+            watcherRules: 'id, subject, updatedAt',
+            watcherObservations: 'id, subject, status, timestamp'
+        }).upgrade(async transaction => {
+            // The default policy is seeded once; an emptied policy stays empty.
+            await transaction.table('watcherRules').bulkPut(builtInWatcherRules());
+        });
+
+        (this as Dexie).version(24).stores({
+            memories: '++id, timestamp, relevance',
+            journal: 'date',
+            knowledge: 'name, updatedAt, createdAt',
+            threads: 'id, updatedAt, createdAt',
+            hrmr: 'id, messageId, grade, updatedAt',
+            performers: 'id, name',
+            performerMemories: '++id, performerId, timestamp',
+            performerInteractions: 'id, conversationId, speakerId, timestamp, context, type',
+            tagScores: 'tag',
+            brandIntelligence: '++id',
+            clientProfiles: 'id, name, updatedAt',
+            relationships: 'id, performerId, targetId, type, updatedAt',
+            secrets: 'id, performerId, type, createdAt',
+            dramaEvents: 'id, timestamp, conversationId',
+            coordinationPlans: 'id, initiatorId, status, updatedAt',
+            privateConversations: 'id, [participant1Id+participant2Id], participant1Id, participant2Id, updatedAt',
+            playerProgress: 'id, rankId, updatedAt',
+            experienceEvents: 'id, branch, type, timestamp',
+            followUps: 'id, sourceRecordId, status, category, dueAt, createdAt',
+            escortPipelines: 'id, recipeId, status, createdAt, updatedAt',
+            escortRecipes: 'id, name, updatedAt',
+            intelligenceLog: 'id, source, category, timestamp, [source+timestamp], [category+timestamp]',
+            embeddings: 'id, sourceType, sourceId, providerId, updatedAt',
+            archivedMemories: 'id, timestamp, archivedAt, archiveReason, consolidatedInto',
+            memoryConsolidationRuns: 'id, status, createdAt',
+            knowledgeEdges: 'id, source, target, predicate, confidence, lastSeenAt',
+            roundTables: 'id, status, createdAt, updatedAt',
+            customLenses: 'id, label, updatedAt',
+            calendarEvents: 'id, uid, start, end, origin, updatedAt',
+            missions: 'id, branch, updatedAt',
+            xpLedger: 'id, kind, status, timestamp, parentId, experienceEventId',
+            watcherRules: 'id, subject, updatedAt',
+            watcherObservations: 'id, subject, status, timestamp',
+            followUpRules: 'id, category, updatedAt'
+        }).upgrade(async transaction => {
+            // Default rules are seeded once; a user who deletes them all has opted out.
+            await transaction.table('followUpRules').bulkPut(builtInFollowUpRules());
+        });
+
+        (this as Dexie).version(25).stores({
+            memories: '++id, timestamp, relevance',
+            journal: 'date',
+            knowledge: 'name, updatedAt, createdAt',
+            threads: 'id, updatedAt, createdAt',
+            hrmr: 'id, messageId, grade, updatedAt',
+            performers: 'id, name',
+            performerMemories: '++id, performerId, timestamp',
+            performerInteractions: 'id, conversationId, speakerId, timestamp, context, type',
+            tagScores: 'tag',
+            brandIntelligence: '++id',
+            clientProfiles: 'id, name, updatedAt',
+            relationships: 'id, performerId, targetId, type, updatedAt',
+            secrets: 'id, performerId, type, createdAt',
+            dramaEvents: 'id, timestamp, conversationId',
+            coordinationPlans: 'id, initiatorId, status, updatedAt',
+            privateConversations: 'id, [participant1Id+participant2Id], participant1Id, participant2Id, updatedAt',
+            playerProgress: 'id, rankId, updatedAt',
+            experienceEvents: 'id, branch, type, timestamp',
+            followUps: 'id, sourceRecordId, status, category, dueAt, createdAt',
+            escortPipelines: 'id, recipeId, status, createdAt, updatedAt',
+            escortRecipes: 'id, name, updatedAt',
+            intelligenceLog: 'id, source, category, timestamp, [source+timestamp], [category+timestamp]',
+            embeddings: 'id, sourceType, sourceId, providerId, updatedAt',
+            archivedMemories: 'id, timestamp, archivedAt, archiveReason, consolidatedInto',
+            memoryConsolidationRuns: 'id, status, createdAt',
+            knowledgeEdges: 'id, source, target, predicate, confidence, lastSeenAt',
+            roundTables: 'id, status, createdAt, updatedAt',
+            customLenses: 'id, label, updatedAt',
+            calendarEvents: 'id, uid, start, end, origin, updatedAt',
+            missions: 'id, branch, updatedAt',
+            xpLedger: 'id, kind, status, timestamp, parentId, experienceEventId',
+            watcherRules: 'id, subject, updatedAt',
+            watcherObservations: 'id, subject, status, timestamp',
+            followUpRules: 'id, category, updatedAt',
+            interactionSummaries: 'pairKey, lastInteraction',
+            interactionRollups: 'id, pairKey, granularity, bucketStart, [granularity+bucketStart]'
+        }).upgrade(async transaction => {
+            // Materialize the summaries that used to be rebuilt from every interaction on read.
+            const events = await transaction.table('performerInteractions').toArray();
+            const { summaries, rollups } = aggregateInteractions(events);
+            await transaction.table('interactionSummaries').bulkPut(Array.from(summaries.values()));
+            await transaction.table('interactionRollups').bulkPut(Array.from(rollups.values()));
+        });
+
+        (this as Dexie).version(26).stores({
+            memories: '++id, timestamp, relevance',
+            journal: 'date',
+            knowledge: 'name, updatedAt, createdAt',
+            threads: 'id, updatedAt, createdAt',
+            hrmr: 'id, messageId, grade, updatedAt',
+            performers: 'id, name',
+            performerMemories: '++id, performerId, timestamp',
+            performerInteractions: 'id, conversationId, speakerId, timestamp, context, type',
+            tagScores: 'tag',
+            brandIntelligence: '++id',
+            clientProfiles: 'id, name, updatedAt',
+            relationships: 'id, performerId, targetId, type, updatedAt',
+            secrets: 'id, performerId, type, createdAt',
+            dramaEvents: 'id, timestamp, conversationId',
+            coordinationPlans: 'id, initiatorId, status, updatedAt',
+            privateConversations: 'id, kind, *memberIds, updatedAt',
+            playerProgress: 'id, rankId, updatedAt',
+            experienceEvents: 'id, branch, type, timestamp',
+            followUps: 'id, sourceRecordId, status, category, dueAt, createdAt',
+            escortPipelines: 'id, recipeId, status, createdAt, updatedAt',
+            escortRecipes: 'id, name, updatedAt',
+            intelligenceLog: 'id, source, category, timestamp, [source+timestamp], [category+timestamp]',
+            embeddings: 'id, sourceType, sourceId, providerId, updatedAt',
+            archivedMemories: 'id, timestamp, archivedAt, archiveReason, consolidatedInto',
+            memoryConsolidationRuns: 'id, status, createdAt',
+            knowledgeEdges: 'id, source, target, predicate, confidence, lastSeenAt',
+            roundTables: 'id, status, createdAt, updatedAt',
+            customLenses: 'id, label, updatedAt',
+            calendarEvents: 'id, uid, start, end, origin, updatedAt',
+            missions: 'id, branch, updatedAt',
+            xpLedger: 'id, kind, status, timestamp, parentId, experienceEventId',
+            watcherRules: 'id, subject, updatedAt',
+            watcherObservations: 'id, subject, status, timestamp',
+            followUpRules: 'id, category, updatedAt',
+            interactionSummaries: 'pairKey, lastInteraction',
+            interactionRollups: 'id, pairKey, granularity, bucketStart, [granularity+bucketStart]'
+        }).upgrade(async transaction => {
+            // Pair threads become direct conversations with a membership list.
+            await transaction.table('privateConversations').toCollection().modify((conversation: any, ref: any) => {
+                ref.value = upgradeLegacyConversation(conversation);
+            });
+        });
+
+        (this as Dexie).version(27).stores({
+            memories: '++id, timestamp, relevance',
+            journal: 'date',
+            knowledge: 'name, updatedAt, createdAt',
+            threads: 'id, updatedAt, createdAt',
+            hrmr: 'id, messageId, grade, updatedAt',
+            performers: 'id, name',
+            performerMemories: '++id, performerId, timestamp',
+            performerInteractions: 'id, conversationId, speakerId, timestamp, context, type',
+            tagScores: 'tag',
+            brandIntelligence: '++id',
+            clientProfiles: 'id, name, updatedAt',
+            relationships: 'id, performerId, targetId, type, updatedAt',
+            secrets: 'id, performerId, type, createdAt',
+            dramaEvents: 'id, timestamp, conversationId',
+            coordinationPlans: 'id, initiatorId, status, updatedAt',
+            privateConversations: 'id, kind, *memberIds, updatedAt',
+            playerProgress: 'id, rankId, updatedAt',
+            experienceEvents: 'id, branch, type, timestamp',
+            followUps: 'id, sourceRecordId, status, category, dueAt, createdAt',
+            escortPipelines: 'id, recipeId, status, createdAt, updatedAt',
+            escortRecipes: 'id, name, updatedAt',
+            intelligenceLog: 'id, source, category, timestamp, [source+timestamp], [category+timestamp]',
+            embeddings: 'id, sourceType, sourceId, providerId, updatedAt',
+            archivedMemories: 'id, timestamp, archivedAt, archiveReason, consolidatedInto',
+            memoryConsolidationRuns: 'id, status, createdAt',
+            knowledgeEdges: 'id, source, target, predicate, confidence, lastSeenAt',
+            roundTables: 'id, status, createdAt, updatedAt',
+            customLenses: 'id, label, updatedAt',
+            calendarEvents: 'id, uid, start, end, origin, updatedAt',
+            missions: 'id, branch, updatedAt',
+            xpLedger: 'id, kind, status, timestamp, parentId, experienceEventId',
+            watcherRules: 'id, subject, updatedAt',
+            watcherObservations: 'id, subject, status, timestamp',
+            followUpRules: 'id, category, updatedAt',
+            interactionSummaries: 'pairKey, lastInteraction',
+            interactionRollups: 'id, pairKey, granularity, bucketStart, [granularity+bucketStart]'
+        }).upgrade(async transaction => {
+            // Policies seeded before the backchannel simulation lack its budget rules.
+            const rules = transaction.table('watcherRules');
+            if (await rules.count() === 0) return;
+            await rules.bulkPut(missingAutonomousDmRules((await rules.toCollection().primaryKeys()) as string[]));
+        });
+
+        (this as Dexie).version(28).stores({
+            memories: '++id, timestamp, relevance',
+            journal: 'date',
+            knowledge: 'name, updatedAt, createdAt',
+            threads: 'id, updatedAt, createdAt',
+            hrmr: 'id, messageId, grade, updatedAt',
+            performers: 'id, name',
+            performerMemories: '++id, performerId, timestamp',
+            performerInteractions: 'id, conversationId, speakerId, timestamp, context, type',
+            tagScores: 'tag',
+            brandIntelligence: '++id',
+            clientProfiles: 'id, name, updatedAt',
+            relationships: 'id, performerId, targetId, type, updatedAt',
+            secrets: 'id, performerId, type, createdAt',
+            dramaEvents: 'id, timestamp, conversationId',
+            coordinationPlans: 'id, initiatorId, status, updatedAt',
+            privateConversations: 'id, kind, *memberIds, updatedAt',
+            playerProgress: 'id, rankId, updatedAt',
+            experienceEvents: 'id, branch, type, timestamp',
+            followUps: 'id, sourceRecordId, status, category, dueAt, createdAt',
+            escortPipelines: 'id, recipeId, status, createdAt, updatedAt',
+            escortRecipes: 'id, name, updatedAt',
+            intelligenceLog: 'id, source, category, timestamp, [source+timestamp], [category+timestamp]',
+            embeddings: 'id, sourceType, sourceId, providerId, updatedAt',
+            archivedMemories: 'id, timestamp, archivedAt, archiveReason, consolidatedInto',
+            memoryConsolidationRuns: 'id, status, createdAt',
+            knowledgeEdges: 'id, source, target, predicate, confidence, lastSeenAt',
+            roundTables: 'id, status, createdAt, updatedAt',
+            customLenses: 'id, label, updatedAt',
+            calendarEvents: 'id, uid, start, end, origin, updatedAt',
+            missions: 'id, branch, updatedAt',
+            xpLedger: 'id, kind, status, timestamp, parentId, experienceEventId',
+            watcherRules: 'id, subject, updatedAt',
+            watcherObservations: 'id, subject, status, timestamp',
+            followUpRules: 'id, category, updatedAt',
+            interactionSummaries: 'pairKey, lastInteraction',
+            interactionRollups: 'id, pairKey, granularity, bucketStart, [granularity+bucketStart]',
+            credentials: 'id, provider, updatedAt'
+        });
+
+        // Upgrades do not run for a database created at the latest version.
+        (this as Dexie).on('populate', async transaction => {
+            await transaction.table('missions').bulkPut(builtInMissionDefinitions());
+            await transaction.table('watcherRules').bulkPut(builtInWatcherRules());
+            await transaction.table('followUpRules').bulkPut(builtInFollowUpRules());
         });
     }
 }
@@ -335,6 +943,170 @@ export const clearMemories = async (): Promise<void> => {
     dispatchMemoriesUpdated(null);
 };
 
+export const recordMemoryRecall = async (ids: number[], boost: number): Promise<void> => {
+    if (ids.length === 0) return;
+    const now = Date.now();
+    await db.memories.where('id').anyOf(ids).modify(memory => {
+        memory.recallCount = (memory.recallCount ?? 0) + 1;
+        memory.lastRecalledAt = now;
+        memory.relevance = Math.min(10, memory.relevance + boost);
+    });
+    dispatchMemoriesUpdated(null);
+};
+
+// Memory cold tier
+export const getArchivedMemories = async (): Promise<ArchivedMemory[]> =>
+    db.archivedMemories.orderBy('archivedAt').reverse().toArray();
+
+export const countArchivedMemories = (): Promise<number> => db.archivedMemories.count();
+
+export const restoreArchivedMemory = async (id: number): Promise<void> => {
+    await db.transaction('rw', db.memories, db.archivedMemories, async () => {
+        const archived = await db.archivedMemories.get(id);
+        if (!archived) return;
+        const { archivedAt: _archivedAt, archiveReason: _reason, consolidatedInto: _into, ...memory } = archived;
+        await db.memories.put(memory);
+        await db.archivedMemories.delete(id);
+    });
+    dispatchMemoriesUpdated(id);
+};
+
+// Memory consolidation
+export const getMemoryConsolidationRuns = async (limit?: number): Promise<MemoryConsolidationRun[]> => {
+    const query = db.memoryConsolidationRuns.orderBy('createdAt').reverse();
+    return limit ? query.limit(limit).toArray() : query.toArray();
+};
+
+export const getMemoryConsolidationRun = (id: string): Promise<MemoryConsolidationRun | undefined> =>
+    db.memoryConsolidationRuns.get(id);
+
+export const saveMemoryConsolidationRun = async (run: MemoryConsolidationRun): Promise<string> => {
+    const id = await db.memoryConsolidationRuns.put(run);
+    dispatchMemoryConsolidationUpdated(run.id);
+    return id;
+};
+
+export interface MemoryConsolidationCommit {
+    relevanceUpdates: Array<{ id: number; relevance: number; basis?: MemoryChangeBasis }>;
+    merges: Array<{ memory: Memory; sourceIds: number[] }>;
+    archives: Array<{ id: number; reason: MemoryArchiveReason; basis?: MemoryChangeBasis }>;
+    run: MemoryConsolidationRun;
+}
+
+export interface MemoryConsolidationResult {
+    updated: number;
+    merged: number;
+    archived: number;
+    // Decay and archive changes left alone because their memory was recalled or edited after planning.
+    stale: number;
+}
+
+const matchesChangeBasis = (memory: Memory, basis?: MemoryChangeBasis): boolean =>
+    !basis || (
+        memory.relevance === basis.relevance
+        && (memory.recallCount ?? 0) === basis.recallCount
+        && memory.lastRecalledAt === basis.lastRecalledAt
+    );
+
+/**
+ * Applies an approved consolidation atomically. Memories that disappeared since
+ * the run was planned are skipped rather than failing the whole commit, and so
+ * are decay and archive changes whose memory no longer matches the planned basis.
+ */
+export const commitMemoryConsolidation = async (commit: MemoryConsolidationCommit): Promise<MemoryConsolidationResult> => {
+    const now = Date.now();
+    const counts = { updated: 0, merged: 0, archived: 0, stale: 0 };
+
+    await db.transaction('rw', db.memories, db.archivedMemories, db.memoryConsolidationRuns, async () => {
+        const moveToColdTier = async (id: number, reason: MemoryArchiveReason, consolidatedInto?: number) => {
+            const memory = await db.memories.get(id);
+            if (!memory) return false;
+            await db.archivedMemories.put({ ...memory, id, archivedAt: now, archiveReason: reason, consolidatedInto });
+            await db.memories.delete(id);
+            return true;
+        };
+
+        for (const update of commit.relevanceUpdates) {
+            const memory = await db.memories.get(update.id);
+            if (!memory) continue;
+            if (!matchesChangeBasis(memory, update.basis)) {
+                counts.stale += 1;
+                continue;
+            }
+            counts.updated += await db.memories.update(update.id, { relevance: update.relevance, lastDecayedAt: now });
+        }
+
+        for (const merge of commit.merges) {
+            const present = (await db.memories.bulkGet(merge.sourceIds)).filter((memory): memory is Memory => Boolean(memory));
+            if (present.length < 2) continue;
+            const mergedId = await db.memories.add(normalizeMemory({ ...merge.memory, lastDecayedAt: now }));
+            for (const memory of present) {
+                await moveToColdTier(memory.id!, 'consolidated', mergedId);
+            }
+            counts.merged += 1;
+        }
+
+        for (const archive of commit.archives) {
+            const memory = await db.memories.get(archive.id);
+            if (!memory) continue;
+            if (!matchesChangeBasis(memory, archive.basis)) {
+                counts.stale += 1;
+                continue;
+            }
+            if (await moveToColdTier(archive.id, archive.reason)) counts.archived += 1;
+        }
+
+        await db.memoryConsolidationRuns.put(commit.run);
+    });
+
+    dispatchMemoriesUpdated(null);
+    dispatchMemoryConsolidationUpdated(commit.run.id);
+    return counts;
+};
+
+// Custom lenses
+export const getCustomLenses = (): Promise<CustomLens[]> => db.customLenses.orderBy('label').toArray();
+
+export const saveCustomLens = async (lens: CustomLens): Promise<string> => {
+    const id = await db.customLenses.put(lens);
+    dispatchCustomLensesUpdated();
+    return id;
+};
+
+export const deleteCustomLens = async (id: string): Promise<void> => {
+    await db.customLenses.delete(id);
+    dispatchCustomLensesUpdated();
+};
+
+// Calendar events
+export const getCalendarEvents = (): Promise<CalendarEvent[]> => db.calendarEvents.orderBy('start').toArray();
+
+export const getCalendarEventByUid = (uid: string): Promise<CalendarEvent | undefined> =>
+    db.calendarEvents.where('uid').equals(uid).first();
+
+export const saveCalendarEvents = async (events: CalendarEvent[]): Promise<void> => {
+    if (events.length === 0) return;
+    await db.calendarEvents.bulkPut(events);
+    dispatchCalendarEventsUpdated();
+};
+
+export const deleteCalendarEvent = async (id: string): Promise<void> => {
+    await db.calendarEvents.delete(id);
+    dispatchCalendarEventsUpdated();
+};
+
+/** Swaps a message's calendar-lens events for a freshly extracted set in one transaction. */
+export const replaceMessageCalendarEvents = async (messageId: string, events: CalendarEvent[]): Promise<void> => {
+    await (db as Dexie).transaction('rw', db.calendarEvents, async () => {
+        await db.calendarEvents
+            .where('origin').equals('calendar_lens')
+            .filter(event => event.sourceMessageId === messageId)
+            .delete();
+        await db.calendarEvents.bulkPut(events);
+    });
+    dispatchCalendarEventsUpdated();
+};
+
 // Journal Functions
 export const getAllJournalEntries = (): Promise<JournalEntry[]> => db.journal.toArray();
 export const getJournalEntry = (date: string): Promise<JournalEntry | undefined> => db.journal.get(date);
@@ -351,7 +1123,66 @@ export const saveKnowledgeEntity = async (entity: KnowledgeEntity): Promise<stri
     return result;
 };
 export const deleteKnowledgeEntity = (name: string): Promise<void> => db.knowledge.delete(name).then(() => {});
-export const clearKnowledge = (): Promise<void> => db.knowledge.clear();
+export const clearKnowledge = async (): Promise<void> => {
+    await db.transaction('rw', db.knowledge, db.knowledgeEdges, async () => {
+        await db.knowledge.clear();
+        await db.knowledgeEdges.clear();
+    });
+    dispatchKnowledgeUpdated();
+};
+
+// Knowledge edges
+export const buildKnowledgeEdgeId = (source: string, predicate: string, target: string): string =>
+    [source, predicate, target].map(part => part.trim().toLowerCase()).join('::');
+
+/** Seeds edges from the legacy adjacency lists; without provenance they start at neutral confidence. */
+export const edgesFromLegacyRelationships = (entities: KnowledgeEntity[]): KnowledgeEdge[] => {
+    const edges = new Map<string, KnowledgeEdge>();
+    entities.forEach(entity => {
+        const seenAt = entity.updatedAt ?? entity.createdAt ?? Date.now();
+        Object.entries(entity.relationships || {}).forEach(([predicate, targets]) => {
+            (Array.isArray(targets) ? targets : []).forEach(target => {
+                const id = buildKnowledgeEdgeId(entity.name, predicate, target);
+                if (edges.has(id)) return;
+                edges.set(id, {
+                    id,
+                    source: entity.name,
+                    target,
+                    predicate,
+                    directed: true,
+                    confidence: 0.5,
+                    supportCount: 1,
+                    retractCount: 0,
+                    firstSeenAt: entity.createdAt ?? seenAt,
+                    lastSeenAt: seenAt,
+                    evidence: []
+                });
+            });
+        });
+    });
+    return Array.from(edges.values());
+};
+
+export const getAllKnowledgeEdges = (): Promise<KnowledgeEdge[]> => db.knowledgeEdges.toArray();
+
+export const getKnowledgeEdgesForEntity = async (name: string): Promise<KnowledgeEdge[]> => {
+    const [outgoing, incoming] = await Promise.all([
+        db.knowledgeEdges.where('source').equals(name).toArray(),
+        db.knowledgeEdges.where('target').equals(name).toArray()
+    ]);
+    return [...outgoing, ...incoming.filter(edge => edge.source !== name)];
+};
+
+export const saveKnowledgeEdges = async (edges: KnowledgeEdge[]): Promise<void> => {
+    if (edges.length === 0) return;
+    await db.knowledgeEdges.bulkPut(edges);
+    dispatchKnowledgeUpdated();
+};
+
+export const deleteKnowledgeEdge = async (id: string): Promise<void> => {
+    await db.knowledgeEdges.delete(id);
+    dispatchKnowledgeUpdated();
+};
 
 export const upsertEntity = async (entity: KnowledgeEntity): Promise<string | number | void> => {
     const existing = await db.knowledge.get(entity.name);
@@ -450,7 +1281,20 @@ export const addPerformerInteractionEvents = async (events: PerformerInteraction
         ...event,
         context: event.context || 'public'
     }));
-    await db.performerInteractions.bulkAdd(normalized);
+    const { pairKeys, rollupIds } = affectedAggregateKeys(normalized);
+    await db.transaction('rw', db.performerInteractions, db.interactionSummaries, db.interactionRollups, async () => {
+        await db.performerInteractions.bulkAdd(normalized);
+        const [summaries, rollups] = await Promise.all([
+            db.interactionSummaries.bulkGet(pairKeys),
+            db.interactionRollups.bulkGet(rollupIds)
+        ]);
+        const updated = aggregateInteractions(normalized, {
+            summaries: new Map(summaries.filter((row): row is PerformerInteractionSummary => Boolean(row)).map(row => [row.pairKey, row])),
+            rollups: new Map(rollups.filter((row): row is PerformerInteractionRollup => Boolean(row)).map(row => [row.id, row]))
+        });
+        await db.interactionSummaries.bulkPut(Array.from(updated.summaries.values()));
+        await db.interactionRollups.bulkPut(Array.from(updated.rollups.values()));
+    });
     const uniqueIds = Array.from(new Set(normalized.map(event => event.speakerId)));
     dispatchInteractionsUpdated(uniqueIds);
 };
@@ -465,53 +1309,42 @@ export const getInteractionsForParticipant = async (participantId: string): Prom
     return [...direct, ...asTarget].sort((a, b) => a.timestamp - b.timestamp);
 };
 
-export const getInteractionSummaries = async (): Promise<PerformerInteractionSummary[]> => {
-    const events = await db.performerInteractions.toArray();
-    const map = new Map<string, PerformerInteractionSummary>();
-
-    events.forEach(event => {
-        const participants = [event.speakerId, ...event.targetIds].sort();
-        const key = participants.join('|');
-        if (!map.has(key)) {
-            map.set(key, {
-                pairKey: key,
-                participants,
-                lastInteraction: event.timestamp,
-                totalInteractions: 0,
-                sentimentSum: 0,
-                intrigueCount: 0,
-                tags: [],
-                publicCount: 0,
-                privateCount: 0,
-                pressureScore: 0
-            });
-        }
-        const summary = map.get(key)!;
-        summary.totalInteractions += 1;
-        summary.lastInteraction = Math.max(summary.lastInteraction, event.timestamp);
-        if (event.context === 'public') {
-            summary.publicCount = (summary.publicCount ?? 0) + 1;
-        } else if (event.context === 'private') {
-            summary.privateCount = (summary.privateCount ?? 0) + 1;
-        }
-        if (typeof event.sentiment === 'number') {
-            summary.sentimentSum += event.sentiment;
-            if (event.context === 'public' && event.sentiment < 0) {
-                summary.pressureScore = (summary.pressureScore ?? 0) + Math.abs(event.sentiment);
-            }
-        }
-        if (event.intrigueTags?.length) {
-            summary.intrigueCount += 1;
-            summary.tags = Array.from(new Set([...summary.tags, ...event.intrigueTags]));
-        }
-        if (event.narrativeTags?.length) {
-            summary.tags = Array.from(new Set([...summary.tags, ...event.narrativeTags]));
-        }
+export const getInteractionSummaries = async (): Promise<PerformerInteractionSummary[]> =>
+    db.interactionSummaries.orderBy('lastInteraction').reverse().toArray();
+
+export const getInteractionRollups = async (
+    granularity: InteractionRollupGranularity,
+    options: { since?: number; pairKey?: string } = {}
+): Promise<PerformerInteractionRollup[]> => {
+    const rollups = await db.interactionRollups
+        .where('[granularity+bucketStart]')
+        .between([granularity, options.since ?? 0], [granularity, Dexie.maxKey])
+        .toArray();
+    return options.pairKey ? rollups.filter(rollup => rollup.pairKey === options.pairKey) : rollups;
+};
+
+/** Recomputes every summary and rollup from the raw interactions. */
+export const rebuildInteractionSummaries = async (): Promise<{ pairs: number; rollups: number }> => {
+    const result = await db.transaction('rw', db.performerInteractions, db.interactionSummaries, db.interactionRollups, async () => {
+        const { summaries, rollups } = aggregateInteractions(await db.performerInteractions.toArray());
+        await db.interactionSummaries.clear();
+        await db.interactionRollups.clear();
+        await db.interactionSummaries.bulkPut(Array.from(summaries.values()));
+        await db.interactionRollups.bulkPut(Array.from(rollups.values()));
+        return { pairs: summaries.size, rollups: rollups.size };
     });
-
-    return Array.from(map.values()).sort((a, b) => b.lastInteraction - a.lastInteraction);
+    dispatchInteractionsUpdated([]);
+    return result;
 };
 
+/** Reports where the stored aggregates disagree with a fresh rebuild, without writing anything. */
+export const verifyInteractionSummaries = async (): Promise<InteractionSummaryDrift> =>
+    db.transaction('r', db.performerInteractions, db.interactionSummaries, db.interactionRollups, async () => {
+        const expected = aggregateInteractions(await db.performerInteractions.toArray());
+        const [summaries, rollups] = await Promise.all([db.interactionSummaries.toArray(), db.interactionRollups.toArray()]);
+        return diffInteractionAggregates(expected, { summaries, rollups });
+    });
+
 const dispatchPerformerMemoriesUpdated = (performerId: string | null) => {
     if (typeof window !== 'undefined') {
         window.dispatchEvent(new CustomEvent('performer-memories-updated', { detail: { performerId } }));
@@ -524,12 +1357,102 @@ const dispatchInteractionsUpdated = (participantIds: string[]) => {
     }
 };
 
+const dispatchPrivateConversationsUpdated = (conversationId: string) => {
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new CustomEvent('private-conversations-updated', { detail: { conversationId } }));
+    }
+};
+
 const dispatchProgressUpdated = () => {
     if (typeof window !== 'undefined') {
         window.dispatchEvent(new Event('player-progress-updated'));
     }
 };
 
+const dispatchEscortPipelinesUpdated = (runId: string) => {
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new CustomEvent('escort-pipelines-updated', { detail: { runId } }));
+    }
+};
+
+const dispatchCustomLensesUpdated = () => {
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new Event('custom-lenses-updated'));
+    }
+};
+
+const dispatchCalendarEventsUpdated = () => {
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new Event('calendar-events-updated'));
+    }
+};
+
+const dispatchMissionsUpdated = () => {
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new Event('missions-updated'));
+    }
+};
+
+const dispatchXpLedgerUpdated = () => {
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new Event('xp-ledger-updated'));
+    }
+};
+
+const dispatchFollowUpRulesUpdated = () => {
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new Event('follow-up-rules-updated'));
+    }
+};
+
+const dispatchCredentialsUpdated = () => {
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new Event('credentials-updated'));
+    }
+};
+
+const dispatchWatcherRulesUpdated = () => {
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new Event('watcher-rules-updated'));
+    }
+};
+
+const dispatchRelationshipsUpdated = () => {
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new Event('relationships-updated'));
+    }
+};
+
+const dispatchRoundTablesUpdated = (sessionId: string) => {
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new CustomEvent('round-tables-updated', { detail: { sessionId } }));
+    }
+};
+
+const dispatchKnowledgeUpdated = () => {
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new Event('knowledge-updated'));
+    }
+};
+
+const dispatchMemoryConsolidationUpdated = (runId: string) => {
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new CustomEvent('memory-consolidation-updated', { detail: { runId } }));
+    }
+};
+
+const dispatchEscortRecipesUpdated = () => {
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new Event('escort-recipes-updated'));
+    }
+};
+
+const dispatchIntelligenceLogUpdated = (recordId: string | null) => {
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new CustomEvent('intelligence-log-updated', { detail: { recordId } }));
+    }
+};
+
 const dispatchFollowUpsUpdated = () => {
     if (typeof window !== 'undefined') {
         window.dispatchEvent(new Event('follow-ups-updated'));
@@ -588,6 +1511,85 @@ export const getRecentExperienceEvents = async (limit = 50): Promise<ExperienceE
     return events;
 };
 
+// XP ledger
+export const getXpTransactions = (): Promise<XpTransaction[]> => db.xpLedger.orderBy('timestamp').toArray();
+
+export const getRecentXpTransactions = (limit = 100): Promise<XpTransaction[]> =>
+    db.xpLedger.orderBy('timestamp').reverse().limit(limit).toArray();
+
+export const addXpTransactions = async (transactions: XpTransaction[]): Promise<void> => {
+    if (!transactions.length) return;
+    await db.xpLedger.bulkAdd(transactions);
+    dispatchXpLedgerUpdated();
+};
+
+/** Writes voided originals, their reversals and the re-derived progress together. */
+export const commitXpLedgerChange = async (change: { transactions: XpTransaction[]; progress: PlayerProgress }): Promise<void> => {
+    const progress = normalizePlayerProgress(change.progress);
+    progress.updatedAt = Date.now();
+    await db.transaction('rw', db.xpLedger, db.playerProgress, async () => {
+        await db.xpLedger.bulkPut(change.transactions);
+        await db.playerProgress.put(progress);
+    });
+    dispatchXpLedgerUpdated();
+    dispatchProgressUpdated();
+};
+
+// Watcher policy; the defaults are seeded with the table, so an empty table means no rules are wanted.
+export const getWatcherRules = (): Promise<WatcherRule[]> => db.watcherRules.toArray();
+
+/** Replaces the whole policy so edits made together land together. */
+export const saveWatcherRules = async (rules: WatcherRule[]): Promise<void> => {
+    const now = Date.now();
+    await db.transaction('rw', db.watcherRules, async () => {
+        await db.watcherRules.clear();
+        await db.watcherRules.bulkPut(rules.map(rule => ({ ...rule, updatedAt: rule.updatedAt ?? now })));
+    });
+    dispatchWatcherRulesUpdated();
+};
+
+export const resetWatcherRules = async (): Promise<WatcherRule[]> => {
+    const seeded = builtInWatcherRules();
+    await saveWatcherRules(seeded);
+    return seeded;
+};
+
+export const getWatcherObservations = async (options: { subject?: WatcherSubject; since?: number } = {}): Promise<WatcherObservation[]> => {
+    const observations = await db.watcherObservations.where('timestamp').aboveOrEqual(options.since ?? 0).sortBy('timestamp');
+    return options.subject ? observations.filter(observation => observation.subject === options.subject) : observations;
+};
+
+export const addWatcherObservation = async (observation: WatcherObservation): Promise<string> => db.watcherObservations.put(observation);
+
+export const markWatcherObservationCommitted = async (id: string): Promise<void> => {
+    await db.watcherObservations.update(id, { committed: true });
+};
+
+export const pruneWatcherObservations = async (before: number): Promise<number> =>
+    db.watcherObservations.where('timestamp').below(before).delete();
+
+// Missions; the built-in definitions are seeded with the table, so an empty catalog means none are wanted.
+export const getMissionDefinitions = (): Promise<MissionDefinition[]> => db.missions.toArray();
+
+export const saveMissionDefinition = async (mission: MissionDefinition): Promise<string> => {
+    const id = await db.missions.put({ ...mission, updatedAt: Date.now() });
+    dispatchMissionsUpdated();
+    return id;
+};
+
+export const deleteMissionDefinition = async (id: string): Promise<void> => {
+    await db.transaction('rw', db.missions, async () => {
+        await db.missions.delete(id);
+        // Drop the deleted mission from any campaign chains that depended on it.
+        await db.missions
+            .filter(mission => Boolean(mission.prerequisiteIds?.includes(id)))
+            .modify(mission => {
+                mission.prerequisiteIds = (mission.prerequisiteIds ?? []).filter(prerequisiteId => prerequisiteId !== id);
+            });
+    });
+    dispatchMissionsUpdated();
+};
+
 export const getFollowUps = async (): Promise<IntelligenceFollowUp[]> => {
     const tasks = await db.followUps.orderBy('createdAt').reverse().toArray();
     return tasks;
@@ -634,6 +1636,194 @@ export const deleteFollowUp = async (id: string): Promise<void> => {
     dispatchFollowUpsUpdated();
 };
 
+// Follow-up rules; the defaults are seeded with the table, so an empty table means none are wanted.
+export const getFollowUpRules = (): Promise<FollowUpRule[]> => db.followUpRules.toArray();
+
+export const saveFollowUpRule = async (rule: FollowUpRule): Promise<string> => {
+    const id = await db.followUpRules.put({ ...rule, updatedAt: Date.now() });
+    dispatchFollowUpRulesUpdated();
+    return id;
+};
+
+export const deleteFollowUpRule = async (id: string): Promise<void> => {
+    await db.followUpRules.delete(id);
+    dispatchFollowUpRulesUpdated();
+};
+
+// Credential vault; rows are ciphertext, encryption lives in credentialVault.
+export const getAllCredentials = async (): Promise<StoredCredential[]> => db.credentials.orderBy('updatedAt').toArray();
+
+export const saveCredentials = async (credentials: StoredCredential[]): Promise<void> => {
+    await db.credentials.bulkPut(credentials);
+    dispatchCredentialsUpdated();
+};
+
+export const deleteCredential = async (id: string): Promise<void> => {
+    await db.credentials.delete(id);
+    dispatchCredentialsUpdated();
+};
+
+// Escort Pipelines
+export const getEscortPipelineRuns = async (limit?: number): Promise<EscortPipelineRun[]> => {
+    const query = db.escortPipelines.orderBy('createdAt').reverse();
+    return limit ? query.limit(limit).toArray() : query.toArray();
+};
+
+export const getEscortPipelineRun = (id: string): Promise<EscortPipelineRun | undefined> => db.escortPipelines.get(id);
+
+export const saveEscortPipelineRun = async (run: EscortPipelineRun): Promise<string> => {
+    const id = await db.escortPipelines.put(run);
+    dispatchEscortPipelinesUpdated(run.id);
+    return id;
+};
+
+export const deleteEscortPipelineRun = async (id: string): Promise<void> => {
+    await db.escortPipelines.delete(id);
+    dispatchEscortPipelinesUpdated(id);
+};
+
+export const getEscortRecipes = async (): Promise<EscortRecipe[]> => {
+    const recipes = await db.escortRecipes.orderBy('updatedAt').reverse().toArray();
+    return recipes;
+};
+
+export const saveEscortRecipe = async (
+    input: Omit<EscortRecipe, 'id' | 'createdAt' | 'updatedAt'> & { id?: string }
+): Promise<EscortRecipe> => {
+    const now = Date.now();
+    const existing = input.id ? await db.escortRecipes.get(input.id) : undefined;
+    const record: EscortRecipe = {
+        ...input,
+        id: existing?.id ?? `recipe-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now
+    };
+    await db.escortRecipes.put(record);
+    dispatchEscortRecipesUpdated();
+    return record;
+};
+
+export const deleteEscortRecipe = async (id: string): Promise<void> => {
+    await db.escortRecipes.delete(id);
+    dispatchEscortRecipesUpdated();
+};
+
+// Intelligence Log
+export const addIntelligenceRecord = async (record: IntelligenceRecord): Promise<void> => {
+    await db.intelligenceLog.put(record);
+    dispatchIntelligenceLogUpdated(record.id);
+};
+
+export const updateIntelligenceRecord = async (
+    id: string,
+    updates: Partial<Omit<IntelligenceRecord, 'id' | 'timestamp' | 'source'>>
+): Promise<void> => {
+    await db.intelligenceLog.update(id, updates);
+    dispatchIntelligenceLogUpdated(id);
+};
+
+export const getIntelligenceRecord = (id: string): Promise<IntelligenceRecord | undefined> => db.intelligenceLog.get(id);
+
+const buildIntelligenceCollection = (query: IntelligenceLogQuery) => {
+    const lower = query.since ?? 0;
+    const upper = query.until ?? Number.MAX_SAFE_INTEGER;
+    const sources = query.sources?.length ? new Set(query.sources) : null;
+    const categories = query.categories?.length ? new Set(query.categories) : null;
+    const search = query.search?.trim().toLowerCase();
+
+    // Use the narrowest compound index available; remaining criteria become filters.
+    let collection;
+    if (categories && categories.size === 1) {
+        const [category] = Array.from(categories);
+        collection = db.intelligenceLog.where('[category+timestamp]').between([category, lower], [category, upper], true, true);
+    } else if (sources && sources.size === 1) {
+        const [source] = Array.from(sources);
+        collection = db.intelligenceLog.where('[source+timestamp]').between([source, lower], [source, upper], true, true);
+    } else {
+        collection = db.intelligenceLog.where('timestamp').between(lower, upper, true, true);
+    }
+
+    if (sources || categories || search) {
+        collection = collection.filter(record => {
+            if (sources && !sources.has(record.source)) return false;
+            if (categories && (!record.category || !categories.has(record.category))) return false;
+            if (search) {
+                const haystack = `${record.summary ?? ''} ${record.source} ${record.category ?? ''}`.toLowerCase();
+                if (!haystack.includes(search)) return false;
+            }
+            return true;
+        });
+    }
+    return collection;
+};
+
+export const queryIntelligenceRecords = async (query: IntelligenceLogQuery = {}): Promise<IntelligenceLogPage> => {
+    const offset = Math.max(0, query.offset ?? 0);
+    const limit = Math.max(1, query.limit ?? 50);
+    const total = await buildIntelligenceCollection(query).count();
+
+    let collection = buildIntelligenceCollection(query);
+    if ((query.order ?? 'desc') === 'desc') {
+        collection = collection.reverse();
+    }
+    const records = await collection.offset(offset).limit(limit).toArray();
+
+    return {
+        records,
+        total,
+        offset,
+        hasMore: offset + records.length < total
+    };
+};
+
+export const countIntelligenceRecords = (query: IntelligenceLogQuery = {}): Promise<number> =>
+    buildIntelligenceCollection(query).count();
+
+export const pruneIntelligenceRecords = async (options: { olderThan?: number; maxEntries?: number }): Promise<number> => {
+    let removed = 0;
+    if (typeof options.olderThan === 'number') {
+        removed += await db.intelligenceLog.where('timestamp').below(options.olderThan).delete();
+    }
+    if (typeof options.maxEntries === 'number' && options.maxEntries > 0) {
+        const overflow = (await db.intelligenceLog.count()) - options.maxEntries;
+        if (overflow > 0) {
+            const staleKeys = await db.intelligenceLog.orderBy('timestamp').limit(overflow).primaryKeys();
+            await db.intelligenceLog.bulkDelete(staleKeys);
+            removed += staleKeys.length;
+        }
+    }
+    if (removed > 0) {
+        dispatchIntelligenceLogUpdated(null);
+    }
+    return removed;
+};
+
+// Embeddings
+export const getAllPerformerMemories = (): Promise<PerformerMemory[]> => db.performerMemories.toArray();
+
+export const getEmbeddings = (providerId: string, sourceType?: EmbeddingSourceType): Promise<EmbeddingRecord[]> => {
+    const query = db.embeddings.where('providerId').equals(providerId);
+    return sourceType ? query.and(record => record.sourceType === sourceType).toArray() : query.toArray();
+};
+
+export const saveEmbeddings = async (records: EmbeddingRecord[]): Promise<void> => {
+    if (records.length === 0) return;
+    await db.embeddings.bulkPut(records);
+};
+
+export const deleteEmbeddings = async (ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    await db.embeddings.bulkDelete(ids);
+};
+
+export const clearEmbeddings = async (providerId?: string): Promise<void> => {
+    if (providerId) {
+        await db.embeddings.where('providerId').equals(providerId).delete();
+    } else {
+        await db.embeddings.clear();
+    }
+};
+
 async function updateTagUsage(
     tags: string[] | undefined,
     options: { source: 'memory' | 'knowledge'; relevance?: number } = { source: 'memory' }
@@ -859,6 +2049,33 @@ export const revealSecret = async (secretId: string, revealedTo: string): Promis
     }
 };
 
+export interface RelationshipSimulationCommit {
+    // When the tick read the rows it changed
+    now: number;
+    relationships: PerformerRelationship[];
+    secrets: PerformerSecret[];
+    dramaEvents: DramaEvent[];
+}
+
+/**
+ * Saves a simulation tick. A relationship written after the tick read it keeps
+ * that write (the next tick decays from it), and secrets only take the new pressure.
+ */
+export const commitRelationshipSimulation = async (commit: RelationshipSimulationCommit): Promise<void> => {
+    await db.transaction('rw', db.relationships, db.secrets, db.dramaEvents, async () => {
+        for (const relationship of commit.relationships) {
+            const current = await db.relationships.get(relationship.id);
+            if (!current || current.updatedAt >= commit.now) continue;
+            await db.relationships.put(relationship);
+        }
+        for (const secret of commit.secrets) {
+            await db.secrets.update(secret.id, { pressure: secret.pressure, pressureUpdatedAt: secret.pressureUpdatedAt });
+        }
+        if (commit.dramaEvents.length) await db.dramaEvents.bulkPut(commit.dramaEvents);
+    });
+    dispatchRelationshipsUpdated();
+};
+
 // Drama Events
 export const getDramaEvents = async (limit?: number): Promise<DramaEvent[]> => {
     const events = await db.dramaEvents.orderBy('timestamp').reverse().toArray();
@@ -878,11 +2095,28 @@ export const saveCoordinationPlan = async (plan: CoordinationPlan): Promise<void
     await db.coordinationPlans.put(plan);
 };
 
+// Round tables
+export const getRoundTableSessions = (): Promise<RoundTableSession[]> =>
+    db.roundTables.orderBy('createdAt').reverse().toArray();
+
+export const saveRoundTableSession = async (session: RoundTableSession): Promise<string> => {
+    const id = await db.roundTables.put(session);
+    dispatchRoundTablesUpdated(session.id);
+    return id;
+};
+
+export const deleteRoundTableSession = async (id: string): Promise<void> => {
+    await db.roundTables.delete(id);
+    dispatchRoundTablesUpdated(id);
+};
+
 // Private Conversations
+/** The direct (two-member) thread between a pair, if one exists. */
 export const getPrivateConversation = async (participant1Id: string, participant2Id: string): Promise<PrivateConversation | undefined> => {
-    const conv1 = await db.privateConversations.where('[participant1Id+participant2Id]').equals([participant1Id, participant2Id]).first();
-    if (conv1) return conv1;
-    return await db.privateConversations.where('[participant1Id+participant2Id]').equals([participant2Id, participant1Id]).first();
+    return await db.privateConversations
+        .where('memberIds').equals(participant1Id)
+        .filter(conversation => conversation.kind === 'direct' && conversation.memberIds.includes(participant2Id))
+        .first();
 };
 
 export const getAllPrivateConversations = async (): Promise<PrivateConversation[]> => {
@@ -890,11 +2124,10 @@ export const getAllPrivateConversations = async (): Promise<PrivateConversation[
 };
 
 export const getPrivateConversationsForPerformer = async (performerId: string): Promise<PrivateConversation[]> => {
-    const as1 = await db.privateConversations.where('participant1Id').equals(performerId).toArray();
-    const as2 = await db.privateConversations.where('participant2Id').equals(performerId).toArray();
-    return [...as1, ...as2];
+    return await db.privateConversations.where('memberIds').equals(performerId).toArray();
 };
 
 export const savePrivateConversation = async (conversation: PrivateConversation): Promise<void> => {
     await db.privateConversations.put(conversation);
+    dispatchPrivateConversationsUpdated(conversation.id);
 };
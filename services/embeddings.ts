@@ -0,0 +1,258 @@
+import { EmbeddingRecord, EmbeddingSourceType, Memory, PerformerMemory, ConversationThread } from '../types';
+import {
+  getAllMemories,
+  getAllPerformerMemories,
+  getAllThreads,
+  getEmbeddings,
+  saveEmbeddings,
+  deleteEmbeddings
+} from './db';
+import {
+  loadAiSettings,
+  embedTextsWithOpenAI,
+  EmbeddingProviderId,
+  OPENAI_EMBEDDING_DIMENSIONS
+} from './aiService';
+
+export interface EmbeddingProvider {
+  id: string;
+  dimensions: number;
+  // Maximum texts per embed() call
+  batchSize: number;
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+export interface EmbeddingSource {
+  sourceType: EmbeddingSourceType;
+  sourceId: string;
+  text: string;
+}
+
+export interface SimilarityHit {
+  sourceType: EmbeddingSourceType;
+  sourceId: string;
+  similarity: number;
+}
+
+const MAX_EMBED_TEXT_LENGTH = 4000;
+
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/i)
+    .filter(token => token.length > 1);
+
+// 32-bit FNV-1a; stable across sessions and machines.
+const fnv1a = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((acc, value) => acc + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+};
+
+/**
+ * Deterministic feature-hashing embedder. Words, adjacent word pairs and
+ * character trigrams are hashed into signed buckets, so near-duplicate and
+ * morphologically similar text lands close together without any network call.
+ */
+export const createHashingEmbedder = (dimensions = 384): EmbeddingProvider => {
+  const embedOne = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      const index = hash % dimensions;
+      vector[index] += (hash & 0x80000000 ? -1 : 1) * weight;
+    };
+
+    const tokens = tokenize(text);
+    tokens.forEach((token, index) => {
+      add(`w:${token}`, 1);
+      if (index > 0) add(`b:${tokens[index - 1]}_${token}`, 0.5);
+      const padded = `#${token}#`;
+      for (let i = 0; i <= padded.length - 3; i++) {
+        add(`c:${padded.slice(i, i + 3)}`, 0.25);
+      }
+    });
+    return normalize(vector);
+  };
+
+  return {
+    id: `local-hash-${dimensions}`,
+    dimensions,
+    batchSize: 256,
+    embed: async texts => texts.map(embedOne)
+  };
+};
+
+const createOpenAIEmbedder = (): EmbeddingProvider => ({
+  id: 'openai-text-embedding-3-small',
+  dimensions: OPENAI_EMBEDDING_DIMENSIONS,
+  batchSize: 64,
+  embed: embedTextsWithOpenAI
+});
+
+const providerFactories = new Map<string, () => EmbeddingProvider>([
+  ['local-hash', () => createHashingEmbedder()],
+  ['openai', createOpenAIEmbedder]
+]);
+
+export const registerEmbeddingProvider = (id: string, factory: () => EmbeddingProvider): void => {
+  providerFactories.set(id, factory);
+};
+
+export const getEmbeddingProvider = (id?: EmbeddingProviderId | string): EmbeddingProvider => {
+  const key = id ?? loadAiSettings().embeddingProvider;
+  const factory = providerFactories.get(key) ?? providerFactories.get('local-hash')!;
+  return factory();
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+const memoryText = (memory: Memory) => `${memory.summary}\n${memory.tags.join(' ')}\n${memory.conversation}`;
+const performerMemoryText = (memory: PerformerMemory) => `${memory.summary}\n${memory.tags.join(' ')}\n${memory.transcriptSnippet}`;
+const threadText = (thread: ConversationThread) => `${thread.title}\n${thread.summary}\n${thread.tags.join(' ')}`;
+
+const collectSources = async (sourceTypes: EmbeddingSourceType[]): Promise<EmbeddingSource[]> => {
+  const sources: EmbeddingSource[] = [];
+  if (sourceTypes.includes('memory')) {
+    (await getAllMemories()).forEach(memory => {
+      if (memory.id === undefined) return;
+      sources.push({ sourceType: 'memory', sourceId: String(memory.id), text: memoryText(memory) });
+    });
+  }
+  if (sourceTypes.includes('performer_memory')) {
+    (await getAllPerformerMemories()).forEach(memory => {
+      if (memory.id === undefined) return;
+      sources.push({ sourceType: 'performer_memory', sourceId: String(memory.id), text: performerMemoryText(memory) });
+    });
+  }
+  if (sourceTypes.includes('thread')) {
+    (await getAllThreads()).forEach(thread => {
+      sources.push({ sourceType: 'thread', sourceId: thread.id, text: threadText(thread) });
+    });
+  }
+  return sources;
+};
+
+const embeddingId = (providerId: string, source: Pick<EmbeddingSource, 'sourceType' | 'sourceId'>) =>
+  `${providerId}:${source.sourceType}:${source.sourceId}`;
+
+const ALL_SOURCE_TYPES: EmbeddingSourceType[] = ['memory', 'performer_memory', 'thread'];
+
+/**
+ * Brings the index up to date for the given source types: embeds new or edited
+ * records (detected by content hash) and drops vectors whose source is gone.
+ */
+export const syncEmbeddingIndex = async (
+  sourceTypes: EmbeddingSourceType[] = ALL_SOURCE_TYPES,
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<EmbeddingRecord[]> => {
+  const [sources, existing] = await Promise.all([
+    collectSources(sourceTypes),
+    getEmbeddings(provider.id)
+  ]);
+  const relevantExisting = existing.filter(record => sourceTypes.includes(record.sourceType));
+  const existingById = new Map(relevantExisting.map(record => [record.id, record]));
+
+  const stale = sources
+    .map(source => ({ ...source, text: source.text.slice(0, MAX_EMBED_TEXT_LENGTH) }))
+    .map(source => ({ source, hash: fnv1a(source.text).toString(36) }))
+    .filter(({ source, hash }) => existingById.get(embeddingId(provider.id, source))?.contentHash !== hash);
+
+  const now = Date.now();
+  for (let offset = 0; offset < stale.length; offset += provider.batchSize) {
+    const batch = stale.slice(offset, offset + provider.batchSize);
+    const vectors = await provider.embed(batch.map(item => item.source.text));
+    const records: EmbeddingRecord[] = batch.map((item, index) => ({
+      id: embeddingId(provider.id, item.source),
+      sourceType: item.source.sourceType,
+      sourceId: item.source.sourceId,
+      providerId: provider.id,
+      dimensions: provider.dimensions,
+      vector: vectors[index],
+      contentHash: item.hash,
+      updatedAt: now
+    }));
+    await saveEmbeddings(records);
+    records.forEach(record => existingById.set(record.id, record));
+  }
+
+  const liveIds = new Set(sources.map(source => embeddingId(provider.id, source)));
+  const orphaned = relevantExisting.filter(record => !liveIds.has(record.id)).map(record => record.id);
+  await deleteEmbeddings(orphaned);
+  orphaned.forEach(id => existingById.delete(id));
+
+  return Array.from(existingById.values());
+};
+
+export const findSimilar = async (
+  query: string,
+  options: { sourceTypes?: EmbeddingSourceType[]; limit?: number; minSimilarity?: number; provider?: EmbeddingProvider } = {}
+): Promise<SimilarityHit[]> => {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+  const provider = options.provider ?? getEmbeddingProvider();
+  const sourceTypes = options.sourceTypes ?? ALL_SOURCE_TYPES;
+
+  const [index, [queryVector]] = await Promise.all([
+    syncEmbeddingIndex(sourceTypes, provider),
+    provider.embed([trimmed.slice(0, MAX_EMBED_TEXT_LENGTH)])
+  ]);
+
+  return index
+    .map(record => ({
+      sourceType: record.sourceType,
+      sourceId: record.sourceId,
+      similarity: cosineSimilarity(queryVector, record.vector)
+    }))
+    .filter(hit => hit.similarity >= (options.minSimilarity ?? 0))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, options.limit ?? 50);
+};
+
+export const HYBRID_VECTOR_WEIGHT = 0.5;
+
+/**
+ * Blends a lexical score (any scale) with cosine similarity. Lexical scores are
+ * normalized against the best candidate so neither signal dominates by range.
+ */
+export const hybridRank = <T>(
+  candidates: Array<{ item: T; key: string; lexicalScore: number }>,
+  similarities: Map<string, number>,
+  vectorWeight = HYBRID_VECTOR_WEIGHT
+): Array<{ item: T; key: string; score: number; lexicalScore: number; similarity: number }> => {
+  const maxLexical = Math.max(0, ...candidates.map(candidate => candidate.lexicalScore));
+  return candidates
+    .map(candidate => {
+      const similarity = Math.max(0, similarities.get(candidate.key) ?? 0);
+      const lexicalNormalized = maxLexical > 0 ? candidate.lexicalScore / maxLexical : 0;
+      return {
+        ...candidate,
+        similarity,
+        score: (1 - vectorWeight) * lexicalNormalized + vectorWeight * similarity
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+export const similarityMap = (hits: SimilarityHit[], sourceType: EmbeddingSourceType): Map<string, number> =>
+  new Map(hits.filter(hit => hit.sourceType === sourceType).map(hit => [hit.sourceId, hit.similarity]));
@@ -0,0 +1,223 @@
+import { ChatMessage, EscortPipelineRun, EscortPipelineStage, EscortRecipe } from '../types';
+import { getEscortPipelineRun, saveEscortPipelineRun, saveEscortRecipe } from './db';
+import { generateJsonCompletion } from './aiService';
+import {
+  EscortId,
+  EscortResult,
+  executeEscort,
+  getEscortDefinition,
+  getAllEscortDefinitions,
+  canRunInPipeline
+} from './escorts';
+
+export const MAX_PIPELINE_STAGES = 6;
+
+export interface RunPipelineOptions {
+  escortIds: EscortId[];
+  input: string;
+  name?: string;
+  messages?: ChatMessage[];
+  recipeId?: string | null;
+  plannedBy?: EscortPipelineRun['plannedBy'];
+  rationale?: string;
+  conversationId?: string | null;
+  onUpdate?: (run: EscortPipelineRun) => void;
+}
+
+export interface PipelinePlan {
+  name: string;
+  escortIds: EscortId[];
+  rationale: string;
+}
+
+const createRunId = () => `pipeline-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const describePipeline = (escortIds: string[]): string =>
+  escortIds.map(id => getEscortDefinition(id as EscortId)?.name ?? id).join(' → ');
+
+const validateStages = (escortIds: EscortId[]) => {
+  if (escortIds.length === 0) {
+    throw new Error('A pipeline needs at least one escort.');
+  }
+  if (escortIds.length > MAX_PIPELINE_STAGES) {
+    throw new Error(`Pipelines are limited to ${MAX_PIPELINE_STAGES} stages.`);
+  }
+  const unsupported = escortIds.filter(id => !canRunInPipeline(id));
+  if (unsupported.length > 0) {
+    throw new Error(`These escorts cannot run in a pipeline: ${describePipeline(unsupported)}`);
+  }
+};
+
+export const toEscortResult = (stage: EscortPipelineStage): EscortResult | null => {
+  if (stage.status !== 'completed' || typeof stage.result !== 'string') return null;
+  return {
+    escortId: stage.escortId as EscortId,
+    result: stage.result,
+    metadata: stage.metadata,
+    timestamp: stage.completedAt ?? Date.now()
+  };
+};
+
+const executeStages = async (
+  run: EscortPipelineRun,
+  fromStage: number,
+  messages: ChatMessage[] | undefined,
+  onUpdate?: (run: EscortPipelineRun) => void
+): Promise<EscortPipelineRun> => {
+  let current: EscortPipelineRun = { ...run, status: 'running', updatedAt: Date.now() };
+
+  const commit = async (next: EscortPipelineRun) => {
+    current = next;
+    await saveEscortPipelineRun(current);
+    onUpdate?.(current);
+  };
+
+  await commit(current);
+
+  for (let index = fromStage; index < current.stages.length; index++) {
+    const stage = current.stages[index];
+    const upstream = current.stages
+      .slice(0, index)
+      .map(toEscortResult)
+      .filter((result): result is EscortResult => Boolean(result));
+
+    await commit({
+      ...current,
+      stages: current.stages.map((s, i) => (i === index ? { ...s, status: 'running', input: current.input, startedAt: Date.now() } : s)),
+      updatedAt: Date.now()
+    });
+
+    try {
+      const result = await executeEscort(stage.escortId as EscortId, current.input, { messages, upstream });
+      await commit({
+        ...current,
+        stages: current.stages.map((s, i) =>
+          i === index
+            ? { ...s, status: 'completed', result: result.result, metadata: result.metadata, error: undefined, completedAt: result.timestamp }
+            : s
+        ),
+        updatedAt: Date.now()
+      });
+    } catch (error) {
+      console.error(`Pipeline stage ${stage.escortId} failed:`, error);
+      await commit({
+        ...current,
+        status: 'failed',
+        stages: current.stages.map((s, i) =>
+          i === index
+            ? { ...s, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error', completedAt: Date.now() }
+            : s
+        ),
+        updatedAt: Date.now()
+      });
+      return current;
+    }
+  }
+
+  await commit({ ...current, status: 'completed', updatedAt: Date.now() });
+  return current;
+};
+
+export const runEscortPipeline = async (options: RunPipelineOptions): Promise<EscortPipelineRun> => {
+  validateStages(options.escortIds);
+  const now = Date.now();
+  const run: EscortPipelineRun = {
+    id: createRunId(),
+    name: options.name?.trim() || describePipeline(options.escortIds),
+    input: options.input,
+    stages: options.escortIds.map(escortId => ({ escortId, status: 'pending' })),
+    status: 'pending',
+    plannedBy: options.plannedBy ?? 'user',
+    recipeId: options.recipeId ?? null,
+    rationale: options.rationale,
+    conversationId: options.conversationId ?? null,
+    createdAt: now,
+    updatedAt: now
+  };
+  return executeStages(run, 0, options.messages, options.onUpdate);
+};
+
+/**
+ * Re-runs a stored pipeline as a new run. Stages before `fromStage` keep their
+ * recorded output so a single late stage can be retried without paying for the
+ * whole chain again.
+ */
+export const replayEscortPipeline = async (
+  runId: string,
+  options: { fromStage?: number; messages?: ChatMessage[]; onUpdate?: (run: EscortPipelineRun) => void } = {}
+): Promise<EscortPipelineRun> => {
+  const original = await getEscortPipelineRun(runId);
+  if (!original) {
+    throw new Error('Pipeline run not found.');
+  }
+
+  const fromStage = Math.max(0, Math.min(options.fromStage ?? 0, original.stages.length - 1));
+  const reusable = original.stages.slice(0, fromStage).every(stage => stage.status === 'completed');
+  if (!reusable) {
+    throw new Error('Earlier stages did not complete, so the pipeline must be replayed from the start.');
+  }
+
+  const now = Date.now();
+  const replay: EscortPipelineRun = {
+    ...original,
+    id: createRunId(),
+    replayOf: original.id,
+    status: 'pending',
+    stages: original.stages.map((stage, index) =>
+      index < fromStage ? { ...stage } : { escortId: stage.escortId, status: 'pending' }
+    ),
+    createdAt: now,
+    updatedAt: now
+  };
+  return executeStages(replay, fromStage, options.messages, options.onUpdate);
+};
+
+const PLANNER_SYSTEM_PROMPT = `You are The Orchestrator. Given a goal and a roster of escorts (specialist analysts), assemble the shortest pipeline that achieves the goal. Each stage receives the previous stages' findings, so order matters: diagnose or gather context before planning, plan before evaluating, evaluate before fixing.
+
+Respond with JSON only:
+{
+  "name": "short pipeline name",
+  "escortIds": ["escort_id", "..."],
+  "rationale": "one or two sentences explaining the order"
+}`;
+
+export const planEscortPipeline = async (goal: string, availableIds: EscortId[]): Promise<PipelinePlan> => {
+  const roster = getAllEscortDefinitions()
+    .filter(escort => availableIds.includes(escort.id) && canRunInPipeline(escort.id));
+  if (roster.length === 0) {
+    throw new Error('No unlocked escorts can run in a pipeline yet.');
+  }
+
+  const prompt = `**Goal**: ${goal || 'Review the current conversation and recommend next steps.'}
+
+**Available Escorts**:
+${roster.map(escort => `- ${escort.id}: ${escort.name} — ${escort.description}`).join('\n')}
+
+Use between 2 and ${Math.min(MAX_PIPELINE_STAGES, roster.length)} stages. Only use the ids listed above.`;
+
+  const raw = await generateJsonCompletion<{ name?: string; escortIds?: unknown; rationale?: string }>(prompt, {
+    systemInstruction: PLANNER_SYSTEM_PROMPT,
+    temperature: 0.2
+  });
+
+  const allowed = new Set(roster.map(escort => escort.id));
+  const escortIds = (Array.isArray(raw.escortIds) ? raw.escortIds : [])
+    .filter((id): id is EscortId => typeof id === 'string' && allowed.has(id as EscortId))
+    .slice(0, MAX_PIPELINE_STAGES);
+  if (escortIds.length === 0) {
+    throw new Error('The planner did not return any usable escorts.');
+  }
+
+  return {
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : describePipeline(escortIds),
+    escortIds,
+    rationale: typeof raw.rationale === 'string' ? raw.rationale : ''
+  };
+};
+
+export const saveRunAsRecipe = (run: EscortPipelineRun, name?: string): Promise<EscortRecipe> =>
+  saveEscortRecipe({
+    name: name?.trim() || run.name,
+    description: run.rationale,
+    escortIds: run.stages.map(stage => stage.escortId)
+  });
@@ -1,6 +1,15 @@
-import { loadAiSettings } from './aiService';
-import { getAllMemories, getAllClientProfiles, getBrandIntelligence, getAllThreads } from './db';
-import { Memory, ChatMessage } from '../types';
+import { loadAiSettings, generateTextCompletion } from './aiService';
+import {
+  getAllMemories,
+  getAllClientProfiles,
+  getBrandIntelligence,
+  getAllThreads,
+  getAllHrmrRatings,
+  getFollowUps,
+  getPerformerInteractions
+} from './db';
+import { queryIntelligenceLog } from './intelligenceLog';
+import { Memory, ChatMessage, ClientProfile, HRMR_GRADE_SCALE, HrmrRating } from '../types';
 
 export type EscortId = 
   | 'strategist'
@@ -36,6 +45,12 @@ export interface EscortResult {
   timestamp: number;
 }
 
+export interface EscortContext {
+  messages?: ChatMessage[];
+  // Results from earlier pipeline stages, oldest first
+  upstream?: EscortResult[];
+}
+
 const ESCORT_DEFINITIONS: EscortDefinition[] = [
   {
     id: 'strategist',
@@ -182,15 +197,44 @@ export const getAllEscortDefinitions = (): EscortDefinition[] => {
   return ESCORT_DEFINITIONS;
 };
 
+const truncate = (value: string, maxLength = 240): string => {
+  if (!value) return '';
+  return value.length <= maxLength ? value : `${value.slice(0, maxLength - 3)}...`;
+};
+
+const UPSTREAM_FULL_LENGTH = 4000;
+const UPSTREAM_SUMMARY_LENGTH = 800;
+
+// The immediately preceding stage is passed nearly in full; earlier stages are clipped so long pipelines stay within budget.
+const formatUpstreamFindings = (upstream?: EscortResult[]): string | null => {
+  if (!upstream || upstream.length === 0) return null;
+  const sections = upstream.map((stage, index) => {
+    const name = getEscortDefinition(stage.escortId)?.name ?? stage.escortId;
+    const limit = index === upstream.length - 1 ? UPSTREAM_FULL_LENGTH : UPSTREAM_SUMMARY_LENGTH;
+    return `### Stage ${index + 1}: ${name}\n${truncate(stage.result, limit)}`;
+  });
+  return `**Upstream Escort Findings** (build on these rather than repeating them):\n\n${sections.join('\n\n')}`;
+};
+
 // Core Escort execution functions
-export const executeStrategist = async (prompt: string, context?: { messages?: ChatMessage[] }): Promise<EscortResult> => {
+const requestEscortCompletion = (
+  escortId: EscortId,
+  systemPrompt: string,
+  userPrompt: string,
+  temperature: number,
+  options: { json?: boolean; upstream?: EscortResult[] } = {}
+): Promise<string> => {
   const settings = loadAiSettings();
-  const apiKey = settings.openaiApiKey;
-  
-  if (!apiKey) {
-    throw new Error('OpenAI API key not configured.');
-  }
+  const upstream = formatUpstreamFindings(options.upstream);
+  return generateTextCompletion(upstream ? `${userPrompt}\n\n${upstream}` : userPrompt, {
+    systemInstruction: systemPrompt,
+    temperature,
+    json: options.json,
+    override: settings.escortModels[escortId] ?? null
+  });
+};
 
+export const executeStrategist = async (prompt: string, context?: EscortContext): Promise<EscortResult> => {
   const memories = await getAllMemories();
   const recentMemories = memories.slice(-10).map(m => `- ${m.summary} (tags: ${m.tags.join(', ')})`).join('\n');
 
@@ -212,42 +256,16 @@ ${recentMemories || 'No recent memories'}
 
 Generate strategic options with explicit trade-offs.`;
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: settings.openaiModel,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      temperature: 0.7
-    })
-  });
-
-  const data = await response.json();
-  if (!response.ok || !data.choices?.[0]?.message?.content) {
-    throw new Error(`API Error: ${data.error?.message || 'Invalid response'}`);
-  }
+  const result = await requestEscortCompletion('strategist', systemPrompt, userPrompt, 0.7, { upstream: context?.upstream });
 
   return {
     escortId: 'strategist',
-    result: data.choices[0].message.content,
+    result,
     timestamp: Date.now()
   };
 };
 
-export const executeAnalyst = async (context?: { messages?: ChatMessage[] }): Promise<EscortResult> => {
-  const settings = loadAiSettings();
-  const apiKey = settings.openaiApiKey;
-  
-  if (!apiKey) {
-    throw new Error('OpenAI API key not configured.');
-  }
-
+export const executeAnalyst = async (context?: EscortContext): Promise<EscortResult> => {
   const [memories, clients, brand, threads] = await Promise.all([
     getAllMemories(),
     getAllClientProfiles(),
@@ -280,42 +298,16 @@ ${memorySummaries || 'No memories yet'}
 
 Analyze this data and provide insights.`;
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: settings.openaiModel,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      temperature: 0.5
-    })
-  });
-
-  const data = await response.json();
-  if (!response.ok || !data.choices?.[0]?.message?.content) {
-    throw new Error(`API Error: ${data.error?.message || 'Invalid response'}`);
-  }
+  const result = await requestEscortCompletion('analyst', systemPrompt, userPrompt, 0.5, { upstream: context?.upstream });
 
   return {
     escortId: 'analyst',
-    result: data.choices[0].message.content,
+    result,
     timestamp: Date.now()
   };
 };
 
-export const executeHistorian = async (query?: string): Promise<EscortResult> => {
-  const settings = loadAiSettings();
-  const apiKey = settings.openaiApiKey;
-  
-  if (!apiKey) {
-    throw new Error('OpenAI API key not configured.');
-  }
-
+export const executeHistorian = async (query?: string, context?: EscortContext): Promise<EscortResult> => {
   const memories = await getAllMemories();
   const sortedMemories = memories.sort((a, b) => b.timestamp - a.timestamp).slice(0, 30);
   
@@ -338,42 +330,16 @@ Provide analysis in markdown with:
     ? `**Query**: ${query}\n\n**Historical Data**:\n${JSON.stringify(memoryData, null, 2)}`
     : `**Historical Data**:\n${JSON.stringify(memoryData, null, 2)}\n\nAnalyze this history and provide insights.`;
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: settings.openaiModel,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      temperature: 0.6
-    })
-  });
-
-  const data = await response.json();
-  if (!response.ok || !data.choices?.[0]?.message?.content) {
-    throw new Error(`API Error: ${data.error?.message || 'Invalid response'}`);
-  }
+  const result = await requestEscortCompletion('historian', systemPrompt, userPrompt, 0.6, { upstream: context?.upstream });
 
   return {
     escortId: 'historian',
-    result: data.choices[0].message.content,
+    result,
     timestamp: Date.now()
   };
 };
 
-export const executeDiagnostician = async (problem: string, context?: { messages?: ChatMessage[] }): Promise<EscortResult> => {
-  const settings = loadAiSettings();
-  const apiKey = settings.openaiApiKey;
-  
-  if (!apiKey) {
-    throw new Error('OpenAI API key not configured.');
-  }
-
+export const executeDiagnostician = async (problem: string, context?: EscortContext): Promise<EscortResult> => {
   const systemPrompt = `You are The Diagnostician, a root cause analysis specialist. When a problem is reported, perform deep analysis to pinpoint the exact root cause.
 
 Provide diagnosis in markdown with:
@@ -389,40 +355,17 @@ ${context?.messages ? `**Recent Context**:\n${context.messages.slice(-5).map(m =
 
 Perform root cause analysis.`;
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: settings.openaiModel,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      temperature: 0.5
-    })
-  });
-
-  const data = await response.json();
-  if (!response.ok || !data.choices?.[0]?.message?.content) {
-    throw new Error(`API Error: ${data.error?.message || 'Invalid response'}`);
-  }
+  const result = await requestEscortCompletion('diagnostician', systemPrompt, userPrompt, 0.5, { upstream: context?.upstream });
 
   return {
     escortId: 'diagnostician',
-    result: data.choices[0].message.content,
+    result,
     timestamp: Date.now()
   };
 };
 
 // Placeholder implementations for remaining escorts
-const executeForecaster = async (context?: { messages?: ChatMessage[] }): Promise<EscortResult> => {
-  const settings = loadAiSettings();
-  const apiKey = settings.openaiApiKey;
-  if (!apiKey) throw new Error('OpenAI API key not configured.');
-
+const executeForecaster = async (context?: EscortContext): Promise<EscortResult> => {
   const memories = await getAllMemories();
   const recentTrends = memories.slice(-30).map(m => m.summary).join('\n');
 
@@ -434,39 +377,16 @@ Provide forecast in markdown with:
 3. **Timeline**: When might issues emerge?
 4. **Recommendations**: Preventative actions`;
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: settings.openaiModel,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: `Analyze recent trends:\n${recentTrends || 'No data yet'}` }
-      ],
-      temperature: 0.6
-    })
-  });
-
-  const data = await response.json();
-  if (!response.ok || !data.choices?.[0]?.message?.content) {
-    throw new Error(`API Error: ${data.error?.message || 'Invalid response'}`);
-  }
+  const result = await requestEscortCompletion('forecaster', systemPrompt, `Analyze recent trends:\n${recentTrends || 'No data yet'}`, 0.6, { upstream: context?.upstream });
 
   return {
     escortId: 'forecaster',
-    result: data.choices[0].message.content,
+    result,
     timestamp: Date.now()
   };
 };
 
-const executeFixer = async (problem: string, context?: { messages?: ChatMessage[] }): Promise<EscortResult> => {
-  const settings = loadAiSettings();
-  const apiKey = settings.openaiApiKey;
-  if (!apiKey) throw new Error('OpenAI API key not configured.');
-
+const executeFixer = async (problem: string, context?: EscortContext): Promise<EscortResult> => {
   const systemPrompt = `You are The Fixer, a constructive problem-solver. Take a broken plan or strategy and propose concrete, actionable solutions.
 
 Provide solution in markdown with:
@@ -476,38 +396,432 @@ Provide solution in markdown with:
 4. **Implementation Steps**: How to execute the fix
 5. **Prevention**: How to avoid this in future`;
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
+  const result = await requestEscortCompletion('fixer', systemPrompt, `**Problem**: ${problem}\n\nPropose a concrete fix.`, 0.7, { upstream: context?.upstream });
+
+  return {
+    escortId: 'fixer',
+    result,
+    timestamp: Date.now()
+  };
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const executePreventer = async (problem: string, context?: EscortContext): Promise<EscortResult> => {
+  const now = Date.now();
+  const [followUps, ratings, memories, operationsLog] = await Promise.all([
+    getFollowUps(),
+    getAllHrmrRatings(),
+    getAllMemories(),
+    queryIntelligenceLog({ categories: ['operations'], since: now - 72 * HOUR_MS, limit: 15 })
+  ]);
+
+  const overdue = followUps.filter(task => task.status !== 'completed' && typeof task.dueAt === 'number' && task.dueAt < now);
+  const operationsSignals = operationsLog.records
+    .reverse()
+    .map(record => `- ${new Date(record.timestamp).toISOString()} • ${record.summary ?? record.source}`);
+
+  const weakGradeFloor = HRMR_GRADE_SCALE.indexOf('C');
+  const weakResponses = ratings
+    .filter(rating => HRMR_GRADE_SCALE.indexOf(rating.grade) >= weakGradeFloor)
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, 8)
+    .map(rating => `- [${rating.grade}] ${truncate(rating.agentResponse, 160)}${rating.modulesUsed?.length ? ` (modules: ${rating.modulesUsed.join(', ')})` : ''}`);
+
+  const tagCounts = new Map<string, number>();
+  memories
+    .filter(memory => now - memory.timestamp <= 30 * 24 * HOUR_MS)
+    .forEach(memory => memory.tags.forEach(tag => tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1)));
+  const recurringTags = Array.from(tagCounts.entries())
+    .filter(([, count]) => count >= 3)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10)
+    .map(([tag, count]) => `#${tag} ×${count}`);
+
+  const systemPrompt = `You are The Preventer, a systems architect. Do not patch individual incidents. Identify the class of problem behind the reported issue and recurring signals, then propose structural changes that make the whole class impossible or unlikely.
+
+Provide your plan in markdown with:
+1. **Problem Class**: The general pattern this issue belongs to
+2. **Evidence**: Which signals below point to it
+3. **Systemic Fixes**: Architectural, process, or policy changes (not one-off fixes)
+4. **Guardrails**: Checks or automation that catch regressions early
+5. **Cost of Inaction**: What keeps recurring if nothing changes`;
+
+  const userPrompt = `**Reported Issue**: ${problem}
+
+${context?.messages ? `**Recent Conversation**:\n${context.messages.slice(-5).map(m => `${m.role}: ${truncate(m.content, 400)}`).join('\n\n')}\n\n` : ''}**Overdue Follow-Ups** (${overdue.length}):
+${overdue.slice(0, 10).map(task => `- ${task.title} (${task.category}, ${task.priority ?? 'medium'} priority)`).join('\n') || 'None'}
+
+**Operational Signals (72h)**:
+${operationsSignals.join('\n') || 'None'}
+
+**Low-Graded Responses**:
+${weakResponses.join('\n') || 'None'}
+
+**Recurring Memory Themes (30d)**:
+${recurringTags.join(', ') || 'None'}
+
+Propose systemic fixes.`;
+
+  const result = await requestEscortCompletion('preventer', systemPrompt, userPrompt, 0.5, { upstream: context?.upstream });
+  return {
+    escortId: 'preventer',
+    result,
+    metadata: {
+      overdueFollowUps: overdue.length,
+      operationsSignals: operationsSignals.length,
+      weakResponses: weakResponses.length
     },
-    body: JSON.stringify({
-      model: settings.openaiModel,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: `**Problem**: ${problem}\n\nPropose a concrete fix.` }
-      ],
-      temperature: 0.7
-    })
+    timestamp: Date.now()
+  };
+};
+
+const CODIFIER_GRADE_CEILING = HRMR_GRADE_SCALE.indexOf('B+');
+
+const isHighGrade = (rating: HrmrRating): boolean => {
+  const index = HRMR_GRADE_SCALE.indexOf(rating.grade);
+  return index >= 0 && index <= CODIFIER_GRADE_CEILING;
+};
+
+export const executeCodifier = async (focus?: string, context?: EscortContext): Promise<EscortResult> => {
+  const [ratings, threads] = await Promise.all([getAllHrmrRatings(), getAllThreads()]);
+  const highGrade = ratings
+    .filter(isHighGrade)
+    .sort((a, b) => HRMR_GRADE_SCALE.indexOf(a.grade) - HRMR_GRADE_SCALE.indexOf(b.grade) || b.updatedAt - a.updatedAt)
+    .slice(0, 12);
+
+  if (highGrade.length === 0) {
+    return {
+      escortId: 'codifier',
+      result: 'No responses graded B+ or higher yet. Grade a few strong replies on the HRMR page and run The Codifier again.',
+      metadata: { ratingsUsed: 0, threadsUsed: 0 },
+      timestamp: Date.now()
+    };
+  }
+
+  const ratedIds = new Set(highGrade.map(rating => rating.messageId));
+  const successfulThreads = threads
+    .filter(thread => thread.messages?.some(message => ratedIds.has(message.id)))
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, 6);
+
+  const records = highGrade.map(rating => {
+    const thread = successfulThreads.find(t => t.messages.some(message => message.id === rating.messageId));
+    const index = thread ? thread.messages.findIndex(message => message.id === rating.messageId) : -1;
+    const trigger = thread && index > 0
+      ? [...thread.messages.slice(0, index)].reverse().find(message => message.role === 'user')
+      : undefined;
+    return [
+      `### [${rating.grade}] ${thread?.title ?? 'Unarchived exchange'}`,
+      trigger ? `- **Request**: ${truncate(trigger.content, 280)}` : null,
+      `- **Response**: ${truncate(rating.agentResponse, 600)}`,
+      rating.preflection ? `- **Reasoning**: ${truncate(rating.preflection, 280)}` : null,
+      rating.tasks?.length ? `- **Tasks**: ${rating.tasks.map(task => task.description).join('; ')}` : null,
+      rating.modulesUsed?.length ? `- **Modules**: ${rating.modulesUsed.join(', ')}` : null
+    ].filter(Boolean).join('\n');
   });
 
-  const data = await response.json();
-  if (!response.ok || !data.choices?.[0]?.message?.content) {
-    throw new Error(`API Error: ${data.error?.message || 'Invalid response'}`);
+  const threadDigest = successfulThreads
+    .map(thread => `- **${thread.title}** (${thread.tags.join(', ') || 'untagged'}): ${truncate(thread.summary, 200)}`)
+    .join('\n');
+
+  const systemPrompt = `You are The Codifier, an institutional-memory engineer. Study execution records that were graded highly and generalize what made them work into abstract, reusable templates. Strip away client- or topic-specific details so each template applies to a whole family of future requests.
+
+For each template (2-4 total), provide in markdown:
+1. **Template Name**: Short and memorable
+2. **When to Use**: The triggering situation
+3. **Structure**: Ordered steps or sections, with placeholders like {{client}} or {{deadline}}
+4. **Why It Works**: The principle behind the high grades
+5. **Source Records**: Which graded records it was derived from`;
+
+  const userPrompt = `${focus ? `**Focus**: ${focus}\n\n` : ''}**Successful Threads**:
+${threadDigest || 'No archived threads contain graded messages yet.'}
+
+**High-Graded Execution Records**:
+${records.join('\n\n')}
+
+Codify reusable templates.`;
+
+  const result = await requestEscortCompletion('codifier', systemPrompt, userPrompt, 0.4, { upstream: context?.upstream });
+  return {
+    escortId: 'codifier',
+    result,
+    metadata: {
+      ratingsUsed: highGrade.length,
+      threadsUsed: successfulThreads.length,
+      sourceMessageIds: highGrade.map(rating => rating.messageId)
+    },
+    timestamp: Date.now()
+  };
+};
+
+const selectClientsForProfile = (clients: ClientProfile[], input: string): ClientProfile[] => {
+  const lowered = input.toLowerCase();
+  const mentioned = clients.filter(client =>
+    (client.name && lowered.includes(client.name.toLowerCase())) ||
+    (client.company && lowered.includes(client.company.toLowerCase()))
+  );
+  return mentioned.length > 0 ? mentioned : clients.slice(0, 3);
+};
+
+const formatClientProfile = (client: ClientProfile): string => {
+  const fields: Array<[string, string | undefined]> = [
+    ['Company', client.company],
+    ['Industry', client.industry],
+    ['Role', client.role],
+    ['Goals', client.goals],
+    ['Pain Points', client.painPoints],
+    ['Budget', client.budget],
+    ['Decision Process', client.decisionProcess],
+    ['Personality', client.personality],
+    ['Communication Style', client.communicationStyle],
+    ['Objections', client.objections],
+    ['Opportunities', client.opportunities],
+    ['History', client.history],
+    ['Notes', client.notes]
+  ];
+  const lines = fields
+    .filter(([, value]) => value && value.trim().length > 0)
+    .map(([label, value]) => `- **${label}**: ${truncate(value!.trim(), 300)}`);
+  return `### ${client.name}\n${lines.join('\n') || '- No profile details captured yet.'}`;
+};
+
+export const executeProfiler = async (input: string, context?: EscortContext): Promise<EscortResult> => {
+  const [clients, memories, interactions] = await Promise.all([
+    getAllClientProfiles(),
+    getAllMemories(),
+    getPerformerInteractions()
+  ]);
+
+  const focusClients = selectClientsForProfile(clients, input);
+  const clientTerms = focusClients
+    .flatMap(client => [client.name, client.company])
+    .filter((term): term is string => Boolean(term && term.trim()))
+    .map(term => term.toLowerCase());
+
+  const mentionsClient = (memory: Memory) => {
+    const haystack = `${memory.summary} ${memory.tags.join(' ')} ${memory.conversation}`.toLowerCase();
+    return clientTerms.some(term => haystack.includes(term));
+  };
+  const relevantMemories = (clientTerms.length ? memories.filter(mentionsClient) : memories)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, 15)
+    .map(memory => `- ${new Date(memory.timestamp).toISOString().split('T')[0]} • ${memory.summary} (tags: ${memory.tags.join(', ')})`);
+
+  const userInteractions = interactions
+    .filter(event => event.speakerId === 'user' || event.targetIds.includes('user'))
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, 40);
+  const sentimentValues = userInteractions
+    .filter(event => event.speakerId === 'user' && typeof event.sentiment === 'number')
+    .map(event => event.sentiment as number);
+  const averageSentiment = sentimentValues.length
+    ? sentimentValues.reduce((acc, value) => acc + value, 0) / sentimentValues.length
+    : null;
+  const narrativeCounts = new Map<string, number>();
+  userInteractions.forEach(event => {
+    [...(event.narrativeTags ?? []), ...(event.intrigueTags ?? [])].forEach(tag => {
+      narrativeCounts.set(tag, (narrativeCounts.get(tag) ?? 0) + 1);
+    });
+  });
+  const frequentCounterparts = new Map<string, number>();
+  userInteractions.forEach(event => {
+    const names = event.speakerId === 'user' ? event.targetNames : [event.speakerName];
+    names.forEach(name => frequentCounterparts.set(name, (frequentCounterparts.get(name) ?? 0) + 1));
+  });
+
+  const recentRequests = (context?.messages ?? [])
+    .filter(message => message.role === 'user')
+    .slice(-6)
+    .map(message => `- ${truncate(message.content, 240)}`);
+
+  const systemPrompt = `You are The Profiler, a contextual-intelligence analyst. Combine client dossiers, stored memories, and the user's interaction history to infer what the user (and the clients they are discussing) actually want — including intent that is implied rather than stated.
+
+Deliver an intent dossier in markdown with:
+1. **Stated Intent**: What is being asked on the surface
+2. **Inferred Intent**: Underlying goals, with the evidence behind each inference
+3. **Client Lens**: How each relevant client's goals, objections, and style shape the request
+4. **Behavioral Patterns**: Recurring tendencies in tone, timing, or topics
+5. **Blind Spots**: What the user may be overlooking
+6. **Recommended Framing**: How to respond so it lands
+
+Flag every inference with a confidence level (high / medium / low).`;
+
+  const userPrompt = `**Current Request**: ${input || 'No explicit request — profile the current context.'}
+
+**Recent User Messages**:
+${recentRequests.join('\n') || 'None'}
+
+**Client Dossiers**:
+${focusClients.map(formatClientProfile).join('\n\n') || 'No client profiles captured yet.'}
+
+**Related Memories**:
+${relevantMemories.join('\n') || 'None'}
+
+**Interaction History** (${userInteractions.length} recent events):
+- Average user sentiment: ${averageSentiment === null ? 'unknown' : averageSentiment.toFixed(2)}
+- Frequent counterparts: ${Array.from(frequentCounterparts.entries()).sort((a, b) => b[1] - a[1]).slice(0, 5).map(([name, count]) => `${name} (${count})`).join(', ') || 'none'}
+- Narrative signals: ${Array.from(narrativeCounts.entries()).sort((a, b) => b[1] - a[1]).slice(0, 8).map(([tag, count]) => `${tag} (${count})`).join(', ') || 'none'}
+
+Build the intent dossier.`;
+
+  const result = await requestEscortCompletion('profiler', systemPrompt, userPrompt, 0.5, { upstream: context?.upstream });
+  return {
+    escortId: 'profiler',
+    result,
+    metadata: {
+      clientIds: focusClients.map(client => client.id),
+      memoriesUsed: relevantMemories.length,
+      interactionsUsed: userInteractions.length
+    },
+    timestamp: Date.now()
+  };
+};
+
+export interface ClarifierTurn {
+  role: 'clarifier' | 'user';
+  content: string;
+}
+
+export interface ClarifierSession {
+  status: 'awaiting_input' | 'resolved';
+  originalPrompt: string;
+  turns: ClarifierTurn[];
+  clarifiedPrompt?: string;
+}
+
+const CLARIFIER_MAX_ROUNDS = 4;
+
+const CLARIFIER_SYSTEM_PROMPT = `You are The Clarifier, an interactive partner that removes ambiguity before work begins. Review the original prompt and the clarification dialogue so far.
+
+If important ambiguity remains, ask at most 3 targeted questions and, for each, propose a specific default the user can simply accept. If the request is now clear, stop asking and produce a single rewritten prompt that resolves every ambiguity.
+
+Respond with a JSON object only:
+{
+  "status": "needs_clarification" | "clarified",
+  "ambiguities": ["short description of each open ambiguity"],
+  "questions": [{"question": "text", "proposedFix": "specific default answer"}],
+  "clarifiedPrompt": "rewritten prompt when status is clarified, otherwise empty string"
+}`;
+
+const formatClarifierTurn = (session: ClarifierSession, parsed: any, forcedResolve: boolean): string => {
+  const questions: Array<{ question: string; proposedFix?: string }> = Array.isArray(parsed?.questions)
+    ? parsed.questions.filter((q: any) => typeof q?.question === 'string')
+    : [];
+  const ambiguities: string[] = Array.isArray(parsed?.ambiguities)
+    ? parsed.ambiguities.filter((a: any) => typeof a === 'string')
+    : [];
+
+  if (session.status === 'resolved') {
+    return [
+      forcedResolve ? '_Clarification limit reached — using the best interpretation so far._\n' : null,
+      '**Clarified Prompt**',
+      '',
+      `> ${(session.clarifiedPrompt ?? session.originalPrompt).split('\n').join('\n> ')}`
+    ].filter(line => line !== null).join('\n');
+  }
+
+  return [
+    ambiguities.length ? `**Open Ambiguities**\n${ambiguities.map(a => `- ${a}`).join('\n')}\n` : null,
+    '**Questions**',
+    questions.map((q, index) => `${index + 1}. ${q.question}${q.proposedFix ? `\n   - _Proposed fix_: ${q.proposedFix}` : ''}`).join('\n'),
+    '',
+    '_Reply in chat to answer, or say "accept" to take the proposed fixes._'
+  ].filter(line => line !== null).join('\n');
+};
+
+const runClarifierRound = async (session: ClarifierSession): Promise<EscortResult> => {
+  const userRounds = session.turns.filter(turn => turn.role === 'user').length;
+  const forceResolve = userRounds >= CLARIFIER_MAX_ROUNDS;
+  const dialogue = session.turns
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Clarifier'}: ${turn.content}`)
+    .join('\n\n');
+
+  const userPrompt = `**Original Prompt**: ${session.originalPrompt}
+
+**Clarification Dialogue**:
+${dialogue || 'None yet — this is the first pass.'}
+${forceResolve ? '\nThe clarification budget is exhausted. You must return status "clarified" using the best interpretation available.' : ''}`;
+
+  const raw = await requestEscortCompletion('clarifier', CLARIFIER_SYSTEM_PROMPT, userPrompt, 0.3, { json: true });
+  let parsed: any = null;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    console.warn('Clarifier returned non-JSON content, treating it as a question.', error);
+    parsed = { status: 'needs_clarification', questions: [{ question: raw }] };
   }
 
+  const clarified = parsed?.status === 'clarified' || forceResolve;
+  const clarifiedPrompt = typeof parsed?.clarifiedPrompt === 'string' && parsed.clarifiedPrompt.trim()
+    ? parsed.clarifiedPrompt.trim()
+    : undefined;
+  const next: ClarifierSession = {
+    ...session,
+    status: clarified ? 'resolved' : 'awaiting_input',
+    clarifiedPrompt: clarified ? clarifiedPrompt ?? session.originalPrompt : undefined,
+    turns: session.turns
+  };
+  const result = formatClarifierTurn(next, parsed, forceResolve && parsed?.status !== 'clarified');
+  next.turns = [...session.turns, { role: 'clarifier', content: result }];
+
   return {
-    escortId: 'fixer',
-    result: data.choices[0].message.content,
+    escortId: 'clarifier',
+    result,
+    metadata: { clarifier: next },
     timestamp: Date.now()
   };
 };
 
+export const executeClarifier = async (prompt: string): Promise<EscortResult> => {
+  return runClarifierRound({
+    status: 'awaiting_input',
+    originalPrompt: prompt,
+    turns: []
+  });
+};
+
+export const continueClarifier = async (session: ClarifierSession, answer: string): Promise<EscortResult> => {
+  if (session.status === 'resolved') {
+    throw new Error('This clarification session is already resolved.');
+  }
+  return runClarifierRound({
+    ...session,
+    turns: [...session.turns, { role: 'user', content: answer }]
+  });
+};
+
+export const getClarifierSession = (result: EscortResult | undefined | null): ClarifierSession | null => {
+  if (!result || result.escortId !== 'clarifier') return null;
+  const session = result.metadata?.clarifier as ClarifierSession | undefined;
+  return session && Array.isArray(session.turns) ? session : null;
+};
+
+const IMPLEMENTED_ESCORTS: EscortId[] = [
+  'strategist',
+  'analyst',
+  'historian',
+  'diagnostician',
+  'forecaster',
+  'fixer',
+  'preventer',
+  'clarifier',
+  'codifier',
+  'profiler'
+];
+
+// The Clarifier waits on user answers, so it cannot run unattended inside a pipeline.
+const INTERACTIVE_ESCORTS: EscortId[] = ['clarifier'];
+
+export const isEscortImplemented = (id: EscortId): boolean => IMPLEMENTED_ESCORTS.includes(id);
+
+export const canRunInPipeline = (id: EscortId): boolean =>
+  isEscortImplemented(id) && !INTERACTIVE_ESCORTS.includes(id);
+
 export const executeEscort = async (
   escortId: EscortId,
   input: string | undefined,
-  context?: { messages?: ChatMessage[] }
+  context?: EscortContext
 ): Promise<EscortResult> => {
   switch (escortId) {
     case 'strategist':
@@ -515,13 +829,21 @@ export const executeEscort = async (
     case 'analyst':
       return executeAnalyst(context);
     case 'historian':
-      return executeHistorian(input);
+      return executeHistorian(input, context);
     case 'diagnostician':
       return executeDiagnostician(input || 'No problem specified', context);
     case 'forecaster':
       return executeForecaster(context);
     case 'fixer':
       return executeFixer(input || 'No problem specified', context);
+    case 'preventer':
+      return executePreventer(input || 'No problem specified', context);
+    case 'clarifier':
+      return executeClarifier(input || '');
+    case 'codifier':
+      return executeCodifier(input, context);
+    case 'profiler':
+      return executeProfiler(input || '', context);
     default:
       throw new Error(`Escort ${escortId} not yet implemented. Coming soon!`);
   }
@@ -0,0 +1,99 @@
+import { FollowUpPriority, FollowUpRule, FollowUpTemplatePreset } from '../types';
+import type { IntelligenceRecord } from './intelligenceLog';
+import { matchesPredicate, readPath } from './missionEngine';
+
+export const FOLLOW_UP_PRIORITIES: FollowUpPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+export const FOLLOW_UP_PRESETS: Array<{ value: FollowUpTemplatePreset; label: string; description: string }> = [
+  { value: 'brand_review', label: 'Brand review', description: 'Lists the brand fields that changed.' },
+  { value: 'client_review', label: 'Client follow-up', description: 'Names the client and the dossier fields that changed.' },
+  { value: 'mission_broadcast', label: 'Mission broadcast', description: 'One task per completed mission to announce the win.' },
+  { value: 'mission_debrief', label: 'Mission debrief', description: 'One task per completed mission to capture learnings.' },
+  { value: 'operations_review', label: 'Operations review', description: 'Review an operational signal.' },
+  { value: 'social_review', label: 'Social review', description: 'Assess a conversational insight.' }
+];
+
+/** The rules a fresh workspace starts with; these reproduce the original hardcoded windows. */
+export const DEFAULT_FOLLOW_UP_RULES: FollowUpRule[] = [
+  {
+    id: 'followup-brand',
+    label: 'Brand intelligence updates',
+    enabled: true,
+    category: 'brand',
+    conditions: [],
+    match: 'all',
+    template: { preset: 'brand_review', priority: 'medium', dueInHours: 4 }
+  },
+  {
+    id: 'followup-client',
+    label: 'Client dossier updates',
+    enabled: true,
+    category: 'client',
+    conditions: [],
+    match: 'all',
+    template: { preset: 'client_review', priority: 'medium', dueInHours: 12 }
+  },
+  {
+    id: 'followup-mission-broadcast',
+    label: 'Broadcast mission wins',
+    enabled: true,
+    category: 'mission',
+    conditions: [],
+    match: 'all',
+    template: { preset: 'mission_broadcast', priority: 'high', dueInHours: 2 }
+  },
+  {
+    id: 'followup-mission-debrief',
+    label: 'Mission debriefs',
+    enabled: true,
+    category: 'mission',
+    conditions: [],
+    match: 'all',
+    template: { preset: 'mission_debrief', priority: 'medium', dueInHours: 6 }
+  },
+  {
+    id: 'followup-operations',
+    label: 'Operational signals',
+    enabled: true,
+    category: 'operations',
+    conditions: [],
+    match: 'all',
+    template: { preset: 'operations_review', priority: 'low', dueInHours: 24 }
+  },
+  {
+    id: 'followup-social',
+    label: 'Social insights',
+    enabled: true,
+    category: 'social',
+    conditions: [{ field: 'summary', operator: 'exists' }],
+    match: 'all',
+    template: { preset: 'social_review', priority: 'low', dueInHours: 12 }
+  }
+];
+
+export const builtInFollowUpRules = (): FollowUpRule[] => DEFAULT_FOLLOW_UP_RULES.map(rule => ({ ...rule, builtIn: true }));
+
+/** Records without a category are treated as social, as the router does. */
+export const followUpRuleMatches = (rule: FollowUpRule, record: IntelligenceRecord): boolean => {
+  if (!rule.enabled) return false;
+  if (rule.category !== 'any' && rule.category !== (record.category ?? 'social')) return false;
+  if (rule.conditions.length === 0) return true;
+  return rule.match === 'any'
+    ? rule.conditions.some(condition => matchesPredicate(record, condition))
+    : rule.conditions.every(condition => matchesPredicate(record, condition));
+};
+
+export const fillFollowUpTemplate = (template: string, record: IntelligenceRecord, extra: Record<string, unknown> = {}): string =>
+  template.replace(/\{([\w.]+)\}/g, (match, path: string) => {
+    const value = path in extra ? extra[path] : readPath(record, path);
+    return value === undefined || value === null ? '' : String(value);
+  });
+
+export const validateFollowUpRule = (rule: FollowUpRule): string | null => {
+  if (!rule.label.trim()) return 'Rule needs a label.';
+  if (!rule.template.preset && !rule.template.title?.trim()) return 'Pick a preset or give the follow-up a title.';
+  if (!(rule.template.dueInHours > 0)) return 'Due window must be longer than zero hours.';
+  if (rule.template.recurrence && !(rule.template.recurrence.intervalHours > 0)) return 'Recurrence interval must be longer than zero hours.';
+  if (rule.conditions.some(condition => !condition.field.trim())) return 'Every condition needs a field.';
+  return null;
+};
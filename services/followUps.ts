@@ -1,16 +1,34 @@
-import type { IntelligenceRecord } from './intelligenceLog';
-import { IntelligenceFollowUp } from '../types';
-import { addFollowUp, getFollowUpBySourceRecord, getClientProfile } from './db';
+import { annotateIntelligenceRecord, type IntelligenceRecord } from './intelligenceLog';
+import { FollowUpPriority, FollowUpRule, FollowUpStatus, FollowUpTemplatePreset, IntelligenceCategory, IntelligenceFollowUp } from '../types';
+import { addFollowUp, getFollowUpBySourceRecord, getClientProfile, getFollowUpRules, getFollowUps, updateFollowUp } from './db';
+import { FOLLOW_UP_PRIORITIES, fillFollowUpTemplate, followUpRuleMatches } from './followUpRules';
 
 const hours = (count: number) => count * 60 * 60 * 1000;
 
-const buildBrandFollowUp = async (record: IntelligenceRecord): Promise<Omit<IntelligenceFollowUp, 'id' | 'createdAt' | 'updatedAt'>> => {
-  const changedFields = Array.isArray(record.requestPayload?.changedFields)
-    ? (record.requestPayload?.changedFields as Array<{ field?: string; value?: unknown }>)
+const SCHEDULER_POLL_MS = 5 * 60 * 1000;
+
+type FollowUpInput = Omit<IntelligenceFollowUp, 'id' | 'createdAt' | 'updatedAt'>;
+
+// What a preset contributes; the rule supplies priority, timing and assignment.
+interface FollowUpContent {
+  title: string;
+  description?: string;
+  category: IntelligenceCategory;
+  actionHint?: IntelligenceFollowUp['actionHint'];
+  metadata?: Record<string, unknown>;
+  placeholders?: Record<string, unknown>;
+}
+
+const readChangedFields = (record: IntelligenceRecord): string[] =>
+  Array.isArray(record.requestPayload?.changedFields)
+    ? (record.requestPayload.changedFields as Array<{ field?: string; value?: unknown }>)
         .map(entry => (typeof entry.field === 'string' ? entry.field : null))
         .filter((field): field is string => Boolean(field))
     : [];
 
+const buildBrandFollowUp = async (record: IntelligenceRecord): Promise<FollowUpContent[]> => {
+  const changedFields = readChangedFields(record);
+
   const descriptionParts: string[] = [];
   if (changedFields.length > 0) {
     descriptionParts.push(`Updated fields: ${changedFields.join(', ')}`);
@@ -19,16 +37,10 @@ const buildBrandFollowUp = async (record: IntelligenceRecord): Promise<Omit<Inte
     descriptionParts.push(record.summary);
   }
 
-  return {
+  return [{
     title: 'Review brand intelligence update',
     description: descriptionParts.join('\n'),
     category: 'brand',
-    status: 'pending',
-    sourceRecordId: record.id,
-    sourceSummary: record.summary,
-    priority: 'medium',
-    dueAt: Date.now() + hours(4),
-    autoGenerated: true,
     actionHint: {
       label: 'Open Brand Intelligence',
       path: '/brand',
@@ -37,10 +49,10 @@ const buildBrandFollowUp = async (record: IntelligenceRecord): Promise<Omit<Inte
     metadata: {
       changedFields
     }
-  };
+  }];
 };
 
-const buildClientFollowUp = async (record: IntelligenceRecord): Promise<Omit<IntelligenceFollowUp, 'id' | 'createdAt' | 'updatedAt'>> => {
+const buildClientFollowUp = async (record: IntelligenceRecord): Promise<FollowUpContent[]> => {
   const clientId = typeof record.requestPayload?.clientId === 'string' ? (record.requestPayload.clientId as string) : null;
   let clientName: string | null = null;
 
@@ -49,11 +61,7 @@ const buildClientFollowUp = async (record: IntelligenceRecord): Promise<Omit<Int
     clientName = profile?.name ?? null;
   }
 
-  const changedFields = Array.isArray(record.requestPayload?.changedFields)
-    ? (record.requestPayload.changedFields as Array<{ field?: string; value?: unknown }>)
-        .map(entry => (typeof entry.field === 'string' ? entry.field : null))
-        .filter((field): field is string => Boolean(field))
-    : [];
+  const changedFields = readChangedFields(record);
 
   const descriptionParts: string[] = [];
   if (clientName) {
@@ -66,16 +74,10 @@ const buildClientFollowUp = async (record: IntelligenceRecord): Promise<Omit<Int
     descriptionParts.push(record.summary);
   }
 
-  return {
+  return [{
     title: clientName ? `Follow up with ${clientName}` : 'Review client dossier update',
     description: descriptionParts.join('\n'),
     category: 'client',
-    status: 'pending',
-    sourceRecordId: record.id,
-    sourceSummary: record.summary,
-    priority: 'medium',
-    dueAt: Date.now() + hours(12),
-    autoGenerated: true,
     actionHint: {
       label: 'Open Client Profiles',
       path: clientId ? `/clients?focus=${clientId}` : '/clients',
@@ -84,28 +86,21 @@ const buildClientFollowUp = async (record: IntelligenceRecord): Promise<Omit<Int
     metadata: {
       clientId,
       changedFields
-    }
-  };
+    },
+    placeholders: { client: clientName ?? '' }
+  }];
 };
 
-const buildMissionFollowUps = async (
-  record: IntelligenceRecord
-): Promise<Array<Omit<IntelligenceFollowUp, 'id' | 'createdAt' | 'updatedAt'>>> => {
-  const completed = record.derivedMissionProgress?.filter(update => update.completed) ?? [];
-  if (completed.length === 0) return [];
+const completedMissions = (record: IntelligenceRecord) =>
+  record.derivedMissionProgress?.filter(update => update.completed) ?? [];
 
-  const celebrationTasks = completed.map(update => {
+const buildMissionBroadcasts = async (record: IntelligenceRecord): Promise<FollowUpContent[]> =>
+  completedMissions(record).map(update => {
     const missionLabel = update.title || update.missionId;
     return {
       title: `Broadcast mission win: ${missionLabel}`,
       description: `Mission ${missionLabel} wrapped with +${update.rewardXp ?? 0} XP. Announce the win and hype the team.`,
-      category: 'mission' as const,
-      status: 'pending' as const,
-      sourceRecordId: record.id,
-      sourceSummary: record.summary,
-      priority: 'high' as const,
-      dueAt: Date.now() + hours(2),
-      autoGenerated: true,
+      category: 'mission',
       actionHint: {
         label: 'Share the Win',
         path: '/progress',
@@ -114,22 +109,18 @@ const buildMissionFollowUps = async (
       metadata: {
         missionId: update.missionId,
         rewardXp: update.rewardXp
-      }
+      },
+      placeholders: { mission: missionLabel }
     };
   });
 
-  const debriefTasks = completed.map(update => {
+const buildMissionDebriefs = async (record: IntelligenceRecord): Promise<FollowUpContent[]> =>
+  completedMissions(record).map(update => {
     const missionLabel = update.title || update.missionId;
     return {
       title: `Capture learnings: ${missionLabel}`,
       description: `Log a quick debrief for ${missionLabel}. Collect highlights, blockers, and next mission ideas.`,
-      category: 'mission' as const,
-      status: 'pending' as const,
-      sourceRecordId: record.id,
-      sourceSummary: record.summary,
-      priority: 'medium' as const,
-      dueAt: Date.now() + hours(6),
-      autoGenerated: true,
+      category: 'mission',
       actionHint: {
         label: 'Log Debrief Notes',
         path: '/progress',
@@ -137,75 +128,79 @@ const buildMissionFollowUps = async (
       },
       metadata: {
         missionId: update.missionId
-      }
+      },
+      placeholders: { mission: missionLabel }
     };
   });
 
-  return [...celebrationTasks, ...debriefTasks];
-};
-
-const buildOperationsFollowUp = async (record: IntelligenceRecord): Promise<Omit<IntelligenceFollowUp, 'id' | 'createdAt' | 'updatedAt'>> => ({
+const buildOperationsFollowUp = async (record: IntelligenceRecord): Promise<FollowUpContent[]> => [{
   title: 'Review operational signal',
   description: record.summary ?? 'New operational intelligence needs review.',
   category: 'operations',
-  status: 'pending',
-  sourceRecordId: record.id,
-  sourceSummary: record.summary,
-  priority: 'low',
-  dueAt: Date.now() + hours(24),
-  autoGenerated: true,
   actionHint: {
     label: 'Open Team Board',
     path: '/team',
     description: 'Evaluate the operational insight and adapt plans if needed.'
   }
-});
+}];
 
-const buildSocialFollowUp = async (record: IntelligenceRecord): Promise<Omit<IntelligenceFollowUp, 'id' | 'createdAt' | 'updatedAt'>> => ({
+const buildSocialFollowUp = async (record: IntelligenceRecord): Promise<FollowUpContent[]> => [{
   title: 'Assess social intelligence insight',
   description: record.summary ?? 'Evaluate latest conversational analysis.',
   category: 'social',
-  status: 'pending',
-  sourceRecordId: record.id,
-  sourceSummary: record.summary,
-  priority: 'low',
-  dueAt: Date.now() + hours(12),
-  autoGenerated: true,
   actionHint: {
     label: 'Jump to Chat',
     path: '/chat',
     description: 'Check the conversation thread that triggered this insight.'
   }
-});
+}];
+
+const PRESET_BUILDERS: Record<FollowUpTemplatePreset, (record: IntelligenceRecord) => Promise<FollowUpContent[]>> = {
+  brand_review: buildBrandFollowUp,
+  client_review: buildClientFollowUp,
+  mission_broadcast: buildMissionBroadcasts,
+  mission_debrief: buildMissionDebriefs,
+  operations_review: buildOperationsFollowUp,
+  social_review: buildSocialFollowUp
+};
+
+const buildFromRule = async (rule: FollowUpRule, record: IntelligenceRecord, now: number): Promise<FollowUpInput[]> => {
+  const { template } = rule;
+  const contents = template.preset
+    ? await PRESET_BUILDERS[template.preset](record)
+    : [{ title: '', category: record.category ?? 'social' } as FollowUpContent];
+
+  return contents.map(content => {
+    const extra = { category: content.category, ...content.placeholders };
+    return {
+      title: template.title?.trim() ? fillFollowUpTemplate(template.title, record, extra) : content.title,
+      description: template.description?.trim() ? fillFollowUpTemplate(template.description, record, extra) : content.description,
+      category: content.category,
+      status: 'pending',
+      sourceRecordId: record.id,
+      sourceSummary: record.summary,
+      priority: template.priority,
+      basePriority: template.priority,
+      slaHours: template.dueInHours,
+      dueAt: now + hours(template.dueInHours),
+      assigneeId: template.assigneeId,
+      recurrence: template.recurrence,
+      ruleId: rule.id,
+      autoGenerated: true,
+      actionHint: template.actionHint ?? content.actionHint,
+      metadata: content.metadata
+    };
+  });
+};
 
 export const processIntelligenceFollowUps = async (record: IntelligenceRecord): Promise<void> => {
   try {
-    const followUpsToCreate: Array<Omit<IntelligenceFollowUp, 'id' | 'createdAt' | 'updatedAt'>> = [];
-
-    switch (record.category) {
-      case 'brand': {
-        followUpsToCreate.push(await buildBrandFollowUp(record));
-        break;
-      }
-      case 'client': {
-        followUpsToCreate.push(await buildClientFollowUp(record));
-        break;
-      }
-      case 'mission': {
-        followUpsToCreate.push(...(await buildMissionFollowUps(record)));
-        break;
-      }
-      case 'operations': {
-        followUpsToCreate.push(await buildOperationsFollowUp(record));
-        break;
-      }
-      case 'social':
-      default: {
-        if (record.summary) {
-          followUpsToCreate.push(await buildSocialFollowUp(record));
-        }
-        break;
-      }
+    const now = Date.now();
+    const rules = await getFollowUpRules();
+    const followUpsToCreate: FollowUpInput[] = [];
+    for (const rule of rules) {
+      if (!followUpRuleMatches(rule, record)) continue;
+      followUpsToCreate.push(...(await buildFromRule(rule, record, now)));
     }
 
     if (followUpsToCreate.length === 0) {
@@ -222,8 +217,199 @@ export const processIntelligenceFollowUps = async (record: IntelligenceRecord):
 
     if (createdIds.length > 0) {
       record.triggeredFollowUpIds = [...(record.triggeredFollowUpIds ?? []), ...createdIds];
+      await annotateIntelligenceRecord(record.id, { triggeredFollowUpIds: record.triggeredFollowUpIds });
     }
   } catch (error) {
     console.error('Failed to generate follow-up from intelligence record:', error);
   }
 };
+
+const DEFAULT_SLA_HOURS = 24;
+
+export const isFollowUpSnoozed = (task: IntelligenceFollowUp, now = Date.now()): boolean =>
+  Boolean(task.snoozedUntil && task.snoozedUntil > now);
+
+/**
+ * Escalation for an overdue follow-up: one priority step as soon as it is
+ * overdue, and another for every further SLA window it stays open.
+ * Returns null when nothing should change.
+ */
+export const computeFollowUpEscalation = (
+  task: IntelligenceFollowUp,
+  now: number
+): Pick<IntelligenceFollowUp, 'priority' | 'basePriority' | 'escalationLevel' | 'escalatedAt'> | null => {
+  if (task.status === 'completed' || !task.dueAt || now < task.dueAt || isFollowUpSnoozed(task, now)) return null;
+  const window = hours(task.slaHours && task.slaHours > 0 ? task.slaHours : DEFAULT_SLA_HOURS);
+  const level = 1 + Math.floor((now - task.dueAt) / window);
+  if (level <= (task.escalationLevel ?? 0)) return null;
+  const basePriority = task.basePriority ?? task.priority ?? 'medium';
+  const index = Math.min(FOLLOW_UP_PRIORITIES.indexOf(basePriority) + level, FOLLOW_UP_PRIORITIES.length - 1);
+  return { priority: FOLLOW_UP_PRIORITIES[index], basePriority, escalationLevel: level, escalatedAt: now };
+};
+
+const spawnNextOccurrence = async (task: IntelligenceFollowUp, completedAt: number): Promise<IntelligenceFollowUp | null> => {
+  if (!task.recurrence || task.nextOccurrenceId) return null;
+  const interval = hours(task.recurrence.intervalHours);
+  // Stay on the original cadence unless the task was finished so late that the next slot has passed.
+  const scheduled = (task.dueAt ?? completedAt) + interval;
+  const dueAt = scheduled > completedAt ? scheduled : completedAt + interval;
+  if (task.recurrence.until && dueAt > task.recurrence.until) return null;
+  const next = await addFollowUp({
+    title: task.title,
+    description: task.description,
+    category: task.category,
+    status: 'pending',
+    sourceRecordId: task.sourceRecordId,
+    sourceSummary: task.sourceSummary,
+    priority: task.basePriority ?? task.priority,
+    basePriority: task.basePriority ?? task.priority,
+    slaHours: task.slaHours,
+    dueAt,
+    assigneeId: task.assigneeId,
+    recurrence: task.recurrence,
+    ruleId: task.ruleId,
+    autoGenerated: task.autoGenerated,
+    actionHint: task.actionHint,
+    metadata: { ...task.metadata, recurrenceOf: task.id }
+  });
+  await updateFollowUp(task.id, { nextOccurrenceId: next.id });
+  return next;
+};
+
+/** Status changes go through here so completing a recurring follow-up schedules the next one. */
+export const setFollowUpStatus = async (task: IntelligenceFollowUp, status: FollowUpStatus): Promise<void> => {
+  const now = Date.now();
+  await updateFollowUp(task.id, {
+    status,
+    completedAt: status === 'completed' ? now : undefined,
+    snoozedUntil: status === 'completed' ? undefined : task.snoozedUntil
+  });
+  if (status === 'completed') {
+    await spawnNextOccurrence(task, now);
+  }
+};
+
+/** Hides the follow-up until `until` and pushes its due date there so it does not escalate meanwhile. */
+export const snoozeFollowUp = async (task: IntelligenceFollowUp, until: number): Promise<void> => {
+  await updateFollowUp(task.id, {
+    snoozedUntil: until,
+    dueAt: Math.max(task.dueAt ?? 0, until)
+  });
+};
+
+export const assignFollowUp = async (id: string, assigneeId: string | null): Promise<void> => {
+  await updateFollowUp(id, { assigneeId: assigneeId ?? undefined });
+};
+
+/** One SLA pass: escalates overdue work, clears lapsed snoozes and catches up missed recurrences. */
+export const runFollowUpSla = async (now = Date.now()): Promise<{ escalated: number; recurred: number }> => {
+  const tasks = await getFollowUps();
+  let escalated = 0;
+  let recurred = 0;
+  for (const task of tasks) {
+    if (task.status === 'completed') {
+      if (await spawnNextOccurrence(task, task.completedAt ?? task.updatedAt)) recurred += 1;
+      continue;
+    }
+    if (task.snoozedUntil && task.snoozedUntil <= now) {
+      await updateFollowUp(task.id, { snoozedUntil: undefined });
+    }
+    const escalation = computeFollowUpEscalation(task, now);
+    if (escalation) {
+      await updateFollowUp(task.id, escalation);
+      escalated += 1;
+    }
+  }
+  return { escalated, recurred };
+};
+
+/** Runs the SLA pass every few minutes while the app is open. Returns a stop function. */
+export const startFollowUpSlaScheduler = (): (() => void) => {
+  let running = false;
+  const tick = () => {
+    if (running) return;
+    running = true;
+    runFollowUpSla()
+      .catch(error => console.error('Follow-up SLA pass failed:', error))
+      .finally(() => {
+        running = false;
+      });
+  };
+  tick();
+  const handle = window.setInterval(tick, SCHEDULER_POLL_MS);
+  return () => window.clearInterval(handle);
+};
+
+export interface FollowUpAgingBucket {
+  label: string;
+  count: number;
+  overdue: number;
+}
+
+export interface FollowUpAgingReport {
+  open: number;
+  overdue: number;
+  escalated: number;
+  snoozed: number;
+  buckets: FollowUpAgingBucket[];
+  byCategory: Array<{ category: IntelligenceCategory; open: number; overdue: number }>;
+  byAssignee: Array<{ assigneeId: string | null; open: number; overdue: number }>;
+  byPriority: Record<FollowUpPriority, number>;
+  oldest: IntelligenceFollowUp | null;
+}
+
+const AGING_BUCKETS: Array<{ label: string; maxHours: number }> = [
+  { label: '< 1 day', maxHours: 24 },
+  { label: '1–3 days', maxHours: 72 },
+  { label: '3–7 days', maxHours: 168 },
+  { label: '> 7 days', maxHours: Infinity }
+];
+
+/** Open follow-ups grouped by age since creation, category and assignee. */
+export const buildFollowUpAgingReport = (followUps: IntelligenceFollowUp[], now = Date.now()): FollowUpAgingReport => {
+  const open = followUps.filter(task => task.status !== 'completed');
+  const isOverdue = (task: IntelligenceFollowUp) => Boolean(task.dueAt && task.dueAt < now && !isFollowUpSnoozed(task, now));
+
+  const buckets = AGING_BUCKETS.map(bucket => ({ label: bucket.label, count: 0, overdue: 0 }));
+  const categories = new Map<IntelligenceCategory, { open: number; overdue: number }>();
+  const assignees = new Map<string | null, { open: number; overdue: number }>();
+  const byPriority: Record<FollowUpPriority, number> = { low: 0, medium: 0, high: 0, urgent: 0 };
+
+  open.forEach(task => {
+    const ageHours = (now - task.createdAt) / hours(1);
+    const bucketIndex = AGING_BUCKETS.findIndex(bucket => ageHours < bucket.maxHours);
+    const overdue = isOverdue(task);
+    const bucket = buckets[bucketIndex === -1 ? buckets.length - 1 : bucketIndex];
+    bucket.count += 1;
+    if (overdue) bucket.overdue += 1;
+
+    const category = categories.get(task.category) ?? { open: 0, overdue: 0 };
+    category.open += 1;
+    if (overdue) category.overdue += 1;
+    categories.set(task.category, category);
+
+    const assigneeKey = task.assigneeId ?? null;
+    const assignee = assignees.get(assigneeKey) ?? { open: 0, overdue: 0 };
+    assignee.open += 1;
+    if (overdue) assignee.overdue += 1;
+    assignees.set(assigneeKey, assignee);
+
+    byPriority[task.priority ?? 'medium'] += 1;
+  });
+
+  return {
+    open: open.length,
+    overdue: open.filter(isOverdue).length,
+    escalated: open.filter(task => (task.escalationLevel ?? 0) > 0).length,
+    snoozed: open.filter(task => isFollowUpSnoozed(task, now)).length,
+    buckets,
+    byCategory: Array.from(categories.entries())
+      .map(([category, counts]) => ({ category, ...counts }))
+      .sort((a, b) => b.overdue - a.overdue || b.open - a.open),
+    byAssignee: Array.from(assignees.entries())
+      .map(([assigneeId, counts]) => ({ assigneeId, ...counts }))
+      .sort((a, b) => b.overdue - a.overdue || b.open - a.open),
+    byPriority,
+    oldest: open.reduce<IntelligenceFollowUp | null>((oldest, task) => (!oldest || task.createdAt < oldest.createdAt ? task : oldest), null)
+  };
+};
@@ -0,0 +1,278 @@
+import { ExperienceEvent, PerformerProfile, PerformerRelationship, PerformerSecret, PrivateConversation } from '../types';
+import { getAllPerformers, getAllPrivateConversations, getAllRelationships, getAllSecrets, revealSecret } from './db';
+import { awardExperience } from './progressionEngine';
+import { createSeededRandom } from './relationshipSimulation';
+import { getPerformerTraits } from './socialModel';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DM_WINDOW_DAYS = 30;
+// Recent DM messages at which a pair counts as fully "in contact".
+const DM_SATURATION = 12;
+const DEFAULT_TRUST = 40;
+
+// Leaks at or above this probability count as predicted.
+export const PREDICTED_LEAK_THRESHOLD = 0.4;
+const MIN_BLAST_PROBABILITY = 0.05;
+const MAX_HOPS = 3;
+
+const LEAK_XP_BASE = 35;
+
+const STOPWORDS = new Set([
+  'about', 'after', 'again', 'their', 'there', 'these', 'those', 'which', 'while', 'would', 'could', 'should',
+  'because', 'before', 'being', 'other', 'where', 'what', 'when', 'with', 'from', 'into', 'that', 'this',
+  'they', 'them', 'have', 'been', 'were', 'will', 'just', 'than', 'then', 'also', 'only', 'over', 'very'
+]);
+
+export interface GossipNetwork {
+  performers: Map<string, PerformerProfile>;
+  relationships: Map<string, PerformerRelationship>;
+  // Recent private-DM volume per unordered performer pair.
+  dmCounts: Map<string, number>;
+}
+
+export interface LeakPrediction {
+  tellerId: string;
+  listenerId: string;
+  probability: number;
+}
+
+export interface BlastRadiusEntry {
+  performerId: string;
+  probability: number;
+  hops: number;
+  // Most likely source of the leak to this performer.
+  viaId: string;
+}
+
+export interface SecretLeak {
+  secret: PerformerSecret;
+  tellerId: string;
+  listenerId: string;
+  probability: number;
+  predicted: boolean;
+}
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+const sigmoid = (value: number) => 1 / (1 + Math.exp(-value));
+
+export const buildGossipNetwork = (
+  performers: PerformerProfile[],
+  relationships: PerformerRelationship[],
+  privateConversations: PrivateConversation[],
+  now = Date.now()
+): GossipNetwork => {
+  const since = now - DM_WINDOW_DAYS * DAY_MS;
+  const dmCounts = new Map<string, number>();
+  // Each recent message links its sender to everyone else in the thread.
+  privateConversations.forEach(conversation => {
+    conversation.messages
+      .filter(message => message.timestamp >= since && message.kind !== 'join' && message.kind !== 'leave')
+      .forEach(message => {
+        conversation.memberIds
+          .filter(id => id !== message.senderId)
+          .forEach(id => {
+            const key = pairKey(message.senderId, id);
+            dmCounts.set(key, (dmCounts.get(key) ?? 0) + 1);
+          });
+      });
+  });
+  return {
+    performers: new Map(performers.map(performer => [performer.id, performer])),
+    relationships: new Map(relationships.map(relationship => [`${relationship.performerId}:${relationship.targetId}`, relationship])),
+    dmCounts
+  };
+};
+
+export const loadGossipNetwork = async (): Promise<GossipNetwork> => {
+  const [performers, relationships, privateConversations] = await Promise.all([
+    getAllPerformers(),
+    getAllRelationships(),
+    getAllPrivateConversations()
+  ]);
+  return buildGossipNetwork(performers, relationships, privateConversations);
+};
+
+const knowsSecret = (secret: PerformerSecret, performerId: string) =>
+  secret.performerId === performerId || secret.knownBy.includes(performerId);
+
+/**
+ * Chance that `tellerId` passes the secret to `listenerId` in a given exchange.
+ * Trust in the listener, transparency and DM contact push it up; loyalty to
+ * the holder holds it back. Cunning performers guard their own secrets but
+ * trade other people's.
+ */
+export const leakProbability = (secret: PerformerSecret, tellerId: string, listenerId: string, network: GossipNetwork): number => {
+  if (tellerId === listenerId || knowsSecret(secret, listenerId)) return 0;
+  const traits = getPerformerTraits(network.performers.get(tellerId));
+  const isHolder = secret.performerId === tellerId;
+  const trust = (network.relationships.get(`${tellerId}:${listenerId}`)?.trust ?? DEFAULT_TRUST) / 100;
+  const loyaltyToHolder = isHolder ? 0 : (network.relationships.get(`${tellerId}:${secret.performerId}`)?.trust ?? DEFAULT_TRUST) / 100;
+  const contact = 1 - Math.exp(-(network.dmCounts.get(pairKey(tellerId, listenerId)) ?? 0) / DM_SATURATION);
+  const cunning = traits.cunning / 100;
+
+  const logit = -2.4
+    + 2.2 * trust
+    + 1.6 * (traits.transparency / 100)
+    + 1.2 * contact
+    + 0.8 * (secret.impact / 100)
+    - 1.5 * loyaltyToHolder
+    + (isHolder ? -1.2 * cunning : 0.6 * cunning);
+  return Math.round(sigmoid(logit) * 1000) / 1000;
+};
+
+/** Most likely next leaks from everyone who currently knows the secret. */
+export const predictLeaks = (secret: PerformerSecret, network: GossipNetwork, limit = 5): LeakPrediction[] => {
+  const tellers = [secret.performerId, ...secret.knownBy].filter(id => network.performers.has(id));
+  const predictions: LeakPrediction[] = [];
+  tellers.forEach(tellerId => {
+    network.performers.forEach((_, listenerId) => {
+      const probability = leakProbability(secret, tellerId, listenerId, network);
+      if (probability > 0) predictions.push({ tellerId, listenerId, probability });
+    });
+  });
+  return predictions.sort((a, b) => b.probability - a.probability).slice(0, limit);
+};
+
+/**
+ * Probability that each performer who does not yet know the secret learns it
+ * within a few hops, treating each teller-listener exchange as independent.
+ */
+export const computeBlastRadius = (secret: PerformerSecret, network: GossipNetwork, maxHops = MAX_HOPS): BlastRadiusEntry[] => {
+  const ids = Array.from(network.performers.keys());
+  let reach = new Map(ids.map(id => [id, knowsSecret(secret, id) ? 1 : 0]));
+  const firstHop = new Map<string, number>();
+  const via = new Map<string, { id: string; weight: number }>();
+
+  for (let hop = 1; hop <= maxHops; hop++) {
+    const next = new Map(reach);
+    ids.forEach(listenerId => {
+      if (knowsSecret(secret, listenerId)) return;
+      let missed = 1 - (reach.get(listenerId) ?? 0);
+      ids.forEach(tellerId => {
+        const known = reach.get(tellerId) ?? 0;
+        if (tellerId === listenerId || known === 0) return;
+        const weight = known * leakProbability(secret, tellerId, listenerId, network);
+        missed *= 1 - weight;
+        if (weight > (via.get(listenerId)?.weight ?? 0)) via.set(listenerId, { id: tellerId, weight });
+      });
+      next.set(listenerId, 1 - missed);
+      if (!firstHop.has(listenerId) && 1 - missed >= MIN_BLAST_PROBABILITY) firstHop.set(listenerId, hop);
+    });
+    reach = next;
+  }
+
+  return ids
+    .filter(id => !knowsSecret(secret, id) && (reach.get(id) ?? 0) >= MIN_BLAST_PROBABILITY)
+    .map(id => ({
+      performerId: id,
+      probability: Math.round((reach.get(id) ?? 0) * 1000) / 1000,
+      hops: firstHop.get(id) ?? maxHops,
+      viaId: via.get(id)?.id ?? secret.performerId
+    }))
+    .sort((a, b) => b.probability - a.probability);
+};
+
+/** One seeded run of the spread, hop by hop; the same seed replays the same leaks. */
+export const simulateSecretSpread = (
+  secret: PerformerSecret,
+  network: GossipNetwork,
+  seed: string,
+  maxHops = MAX_HOPS
+): Array<LeakPrediction & { hop: number }> => {
+  const random = createSeededRandom(seed);
+  const ids = Array.from(network.performers.keys()).sort();
+  let current: PerformerSecret = { ...secret, knownBy: [...secret.knownBy] };
+  const leaks: Array<LeakPrediction & { hop: number }> = [];
+
+  for (let hop = 1; hop <= maxHops; hop++) {
+    const tellers = ids.filter(id => knowsSecret(current, id));
+    const learned = new Set<string>();
+    tellers.forEach(tellerId => {
+      ids.forEach(listenerId => {
+        if (learned.has(listenerId)) return;
+        const probability = leakProbability(current, tellerId, listenerId, network);
+        if (probability > 0 && random() < probability) {
+          learned.add(listenerId);
+          leaks.push({ tellerId, listenerId, probability, hop });
+        }
+      });
+    });
+    if (learned.size === 0) break;
+    current = { ...current, knownBy: [...current.knownBy, ...learned] };
+  }
+  return leaks;
+};
+
+const keywords = (text: string) =>
+  new Set((text.toLowerCase().match(/[a-z0-9']+/g) ?? []).filter((word: string) => word.length >= 4 && !STOPWORDS.has(word)));
+
+/** Whether a message carries enough of the secret's distinctive wording to count as telling it. */
+const mentionsSecret = (secret: PerformerSecret, messageWords: Set<string>) => {
+  const secretWords = keywords(secret.content);
+  if (secretWords.size === 0) return false;
+  let shared = 0;
+  secretWords.forEach(word => {
+    if (messageWords.has(word)) shared += 1;
+  });
+  return shared >= Math.max(2, Math.ceil(secretWords.size * 0.3));
+};
+
+export const detectSecretLeaks = (
+  secrets: PerformerSecret[],
+  speakerId: string,
+  listenerIds: string[],
+  content: string,
+  network: GossipNetwork
+): SecretLeak[] => {
+  const messageWords = keywords(content);
+  const leaks: SecretLeak[] = [];
+  secrets.forEach(secret => {
+    if (!knowsSecret(secret, speakerId) || !mentionsSecret(secret, messageWords)) return;
+    listenerIds
+      .filter(id => network.performers.has(id) && !knowsSecret(secret, id))
+      .forEach(listenerId => {
+        const probability = leakProbability(secret, speakerId, listenerId, network);
+        leaks.push({ secret, tellerId: speakerId, listenerId, probability, predicted: probability >= PREDICTED_LEAK_THRESHOLD });
+      });
+  });
+  return leaks;
+};
+
+/**
+ * Checks a chat message for secrets the speaker passed on, marks the listeners
+ * as knowing them, and awards `secret_uncovered` XP for leaks the model predicted.
+ */
+export const recordSecretLeaksFromMessage = async (message: {
+  speakerId: string;
+  listenerIds: string[];
+  content: string;
+  messageId: string;
+  context?: 'public' | 'private' | 'system';
+}): Promise<{ leaks: SecretLeak[]; awards: ExperienceEvent[] }> => {
+  const [secrets, network] = await Promise.all([getAllSecrets(), loadGossipNetwork()]);
+  const leaks = detectSecretLeaks(secrets, message.speakerId, message.listenerIds, message.content, network);
+  const awards: ExperienceEvent[] = [];
+
+  for (const leak of leaks) {
+    await revealSecret(leak.secret.id, leak.listenerId);
+    if (!leak.predicted) continue;
+    try {
+      const { event } = await awardExperience({
+        branch: 'social_engineering',
+        type: 'secret_uncovered',
+        baseXp: Math.round(LEAK_XP_BASE + leak.secret.impact / 4),
+        actorIds: [leak.tellerId, leak.listenerId],
+        context: message.context ?? 'public',
+        metadata: {
+          messageId: message.messageId,
+          secretId: leak.secret.id,
+          leakProbability: leak.probability
+        }
+      });
+      awards.push(event);
+    } catch (error) {
+      console.error('Failed to award predicted leak experience:', error);
+    }
+  }
+  return { leaks, awards };
+};
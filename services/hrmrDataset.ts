@@ -0,0 +1,227 @@
+import { ChatMessage, HrmrGrade, HrmrRating } from '../types';
+import { getAllHrmrRatings, getAllThreads } from './db';
+
+const CHAT_HISTORY_STORAGE_KEY = 'chatHistory';
+
+export const HRMR_GRADE_SCORES: Record<HrmrGrade, number> = {
+  'A+': 10,
+  'A': 9,
+  'A-': 8,
+  'B+': 7,
+  'B': 6,
+  'B-': 5,
+  'C+': 4.5,
+  'C': 4,
+  'C-': 3.5,
+  'D+': 3,
+  'D': 2,
+  'D-': 1.5,
+  'F': 0
+};
+
+// Minimum score gap for two same-prompt replies to count as a preference pair.
+export const DPO_MIN_SCORE_MARGIN = 2;
+export const SFT_DEFAULT_MIN_SCORE = HRMR_GRADE_SCORES['B+'];
+
+export type HrmrDatasetFormat = 'sft-jsonl' | 'dpo-jsonl' | 'csv';
+
+export interface HrmrExample {
+  ratingId: string;
+  messageId: string;
+  grade: HrmrGrade;
+  score: number;
+  // The user turn the graded reply answered; missing when the source message is gone.
+  prompt: string | null;
+  promptMessageId: string | null;
+  response: string;
+  performerId: string | null;
+  performerName: string | null;
+  modulesUsed: string[];
+  timestamp: number;
+}
+
+export interface HrmrPreferencePair {
+  prompt: string;
+  chosen: HrmrExample;
+  rejected: HrmrExample;
+}
+
+const loadChatHistory = (): ChatMessage[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(CHAT_HISTORY_STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Maps each agent message id to the user message it answered. Threads and the
+ * live chat are scanned separately so a prompt never crosses conversations.
+ */
+const indexSourceMessages = (conversations: ChatMessage[][]) => {
+  const byId = new Map<string, { message: ChatMessage; prompt: ChatMessage | null }>();
+  conversations.forEach(messages => {
+    let lastUser: ChatMessage | null = null;
+    messages.forEach(message => {
+      if (message.role === 'user') {
+        lastUser = message;
+        return;
+      }
+      if (!byId.has(message.id)) byId.set(message.id, { message, prompt: lastUser });
+    });
+  });
+  return byId;
+};
+
+const promptText = (message: ChatMessage): string => (message.rewrittenContent || message.content || '').trim();
+
+export const buildHrmrExamples = async (): Promise<HrmrExample[]> => {
+  const [ratings, threads] = await Promise.all([getAllHrmrRatings(), getAllThreads()]);
+  const sources = indexSourceMessages([loadChatHistory(), ...threads.map(thread => thread.messages ?? [])]);
+
+  return ratings
+    .filter((rating): rating is HrmrRating => Boolean(rating.grade && rating.agentResponse?.trim()))
+    .map(rating => {
+      const source = sources.get(rating.messageId);
+      return {
+        ratingId: rating.id,
+        messageId: rating.messageId,
+        grade: rating.grade,
+        score: HRMR_GRADE_SCORES[rating.grade] ?? 0,
+        prompt: source?.prompt ? promptText(source.prompt) : null,
+        promptMessageId: source?.prompt?.id ?? null,
+        response: rating.agentResponse,
+        performerId: source?.message.performerId ?? null,
+        performerName: source?.message.performerName ?? null,
+        modulesUsed: rating.modulesUsed ?? [],
+        timestamp: rating.updatedAt
+      };
+    })
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Pairs replies to the same user turn (performers answering together, or a
+ * regenerated reply) whose grades differ by at least the margin. Replies with
+ * no recoverable user turn fall back to grouping on identical prompt text.
+ */
+export const buildPreferencePairs = (examples: HrmrExample[], minMargin = DPO_MIN_SCORE_MARGIN): HrmrPreferencePair[] => {
+  const groups = new Map<string, HrmrExample[]>();
+  examples.forEach(example => {
+    if (!example.prompt) return;
+    const key = example.promptMessageId ?? `text:${example.prompt.toLowerCase().replace(/\s+/g, ' ')}`;
+    groups.set(key, [...(groups.get(key) ?? []), example]);
+  });
+
+  const pairs: HrmrPreferencePair[] = [];
+  groups.forEach(group => {
+    const sorted = [...group].sort((a, b) => b.score - a.score);
+    sorted.forEach((chosen, index) => {
+      sorted.slice(index + 1).forEach(rejected => {
+        if (chosen.score - rejected.score < minMargin) return;
+        pairs.push({ prompt: chosen.prompt!, chosen, rejected });
+      });
+    });
+  });
+  return pairs;
+};
+
+const toJsonl = (rows: unknown[]): string => rows.map(row => JSON.stringify(row)).join('\n') + (rows.length ? '\n' : '');
+
+export const toSftJsonl = (examples: HrmrExample[], minScore = SFT_DEFAULT_MIN_SCORE): string =>
+  toJsonl(
+    examples
+      .filter(example => example.prompt && example.score >= minScore)
+      .map(example => ({
+        messages: [
+          { role: 'user', content: example.prompt },
+          { role: 'assistant', content: example.response }
+        ],
+        metadata: {
+          grade: example.grade,
+          performer: example.performerName,
+          modules: example.modulesUsed
+        }
+      }))
+  );
+
+export const toDpoJsonl = (pairs: HrmrPreferencePair[]): string =>
+  toJsonl(
+    pairs.map(pair => ({
+      prompt: pair.prompt,
+      chosen: pair.chosen.response,
+      rejected: pair.rejected.response,
+      metadata: {
+        chosen_grade: pair.chosen.grade,
+        rejected_grade: pair.rejected.grade,
+        chosen_performer: pair.chosen.performerName,
+        rejected_performer: pair.rejected.performerName
+      }
+    }))
+  );
+
+const csvCell = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (examples: HrmrExample[]): string => {
+  const header = ['rating_id', 'message_id', 'grade', 'score', 'performer', 'modules', 'prompt', 'response', 'graded_at'];
+  const rows = examples.map(example => [
+    example.ratingId,
+    example.messageId,
+    example.grade,
+    example.score,
+    example.performerName ?? 'core',
+    example.modulesUsed.join('|'),
+    example.prompt ?? '',
+    example.response,
+    new Date(example.timestamp).toISOString()
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+const FORMAT_FILES: Record<HrmrDatasetFormat, { extension: string; mime: string }> = {
+  'sft-jsonl': { extension: 'sft.jsonl', mime: 'application/jsonl' },
+  'dpo-jsonl': { extension: 'dpo.jsonl', mime: 'application/jsonl' },
+  csv: { extension: 'csv', mime: 'text/csv' }
+};
+
+/** Builds the requested dataset and triggers a browser download. Returns the row count. */
+export const downloadHrmrDataset = async (
+  format: HrmrDatasetFormat,
+  options: { minScore?: number; minMargin?: number } = {}
+): Promise<number> => {
+  const examples = await buildHrmrExamples();
+  let content: string;
+  let count: number;
+  switch (format) {
+    case 'sft-jsonl':
+      content = toSftJsonl(examples, options.minScore);
+      count = content ? content.trimEnd().split('\n').length : 0;
+      break;
+    case 'dpo-jsonl': {
+      const pairs = buildPreferencePairs(examples, options.minMargin);
+      content = toDpoJsonl(pairs);
+      count = pairs.length;
+      break;
+    }
+    case 'csv':
+    default:
+      content = toCsv(examples);
+      count = examples.length;
+  }
+  if (count === 0) return 0;
+
+  const { extension, mime } = FORMAT_FILES[format];
+  const blob = new Blob([content], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = `hrmr-${new Date().toISOString().slice(0, 10)}.${extension}`;
+  anchor.click();
+  URL.revokeObjectURL(url);
+  return count;
+};
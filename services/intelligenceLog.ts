@@ -1,41 +1,108 @@
-import { IntelligenceCategory } from '../types';
+import { IntelligenceRecord, IntelligenceLogQuery, IntelligenceLogPage } from '../types';
 import { classifyIntelligence } from './intelligenceRouter';
+import {
+  addIntelligenceRecord,
+  updateIntelligenceRecord,
+  queryIntelligenceRecords,
+  countIntelligenceRecords,
+  pruneIntelligenceRecords
+} from './db';
 
-export type IntelligenceSource = 'chat_generate' | 'performer_response' | 'post_processing' | 'brand_update' | 'client_update' | 'dm_response';
-
-export interface IntelligenceRecord {
-  id: string;
-  source: IntelligenceSource;
-  timestamp: number;
-  requestPayload?: Record<string, unknown>;
-  responsePayload?: Record<string, unknown>;
-  summary?: string;
-  category?: IntelligenceCategory;
-  derivedMissionProgress?: Array<{ missionId: string; progress: number; completed: boolean; rewardXp?: number; title?: string }>;
-  triggeredFollowUpIds?: string[];
+export type { IntelligenceSource, IntelligenceRecord } from '../types';
+
+export interface IntelligenceLogSettings {
+  retentionDays: number;
+  maxEntries: number;
+  maxPayloadChars: number;
 }
 
-const MAX_ENTRIES = 200;
-const STORAGE_KEY = 'intelligence-log';
+const DEFAULT_LOG_SETTINGS: IntelligenceLogSettings = {
+  retentionDays: 90,
+  maxEntries: 5000,
+  maxPayloadChars: 8000
+};
+
+const SETTINGS_STORAGE_KEY = 'intelligence-log-settings';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Pruning scans the timestamp index, so only do it every few writes.
+const PRUNE_EVERY_WRITES = 25;
 
-const readLog = (): IntelligenceRecord[] => {
-    if (typeof window === 'undefined') return [];
-    try {
-        const raw = window.localStorage.getItem(STORAGE_KEY);
-        if (!raw) return [];
-        const parsed = JSON.parse(raw);
-    if (Array.isArray(parsed)) return parsed;
+let writesSincePrune = PRUNE_EVERY_WRITES;
+const pendingWrites = new Map<string, Promise<void>>();
+
+const positiveNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+
+export const loadIntelligenceLogSettings = (): IntelligenceLogSettings => {
+  if (typeof window === 'undefined') return DEFAULT_LOG_SETTINGS;
+  try {
+    const raw = window.localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_LOG_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<IntelligenceLogSettings>;
+    return {
+      retentionDays: positiveNumber(parsed.retentionDays, DEFAULT_LOG_SETTINGS.retentionDays),
+      maxEntries: positiveNumber(parsed.maxEntries, DEFAULT_LOG_SETTINGS.maxEntries),
+      maxPayloadChars: positiveNumber(parsed.maxPayloadChars, DEFAULT_LOG_SETTINGS.maxPayloadChars)
+    };
   } catch (error) {
-    console.error('Failed to read intelligence log:', error);
+    console.warn('Failed to load intelligence log settings, falling back to defaults.', error);
+    return DEFAULT_LOG_SETTINGS;
   }
-  return [];
 };
 
-const writeLog = (records: IntelligenceRecord[]): void => {
+export const saveIntelligenceLogSettings = (settings: IntelligenceLogSettings): void => {
   if (typeof window === 'undefined') return;
+  window.localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  writesSincePrune = PRUNE_EVERY_WRITES;
+};
+
+/**
+ * Oversized payloads keep their top-level shape: long strings are clipped and
+ * nested values that still do not fit are replaced by a truncated preview.
+ */
+const capPayload = (payload: Record<string, unknown> | undefined, maxChars: number): Record<string, unknown> | undefined => {
+  if (!payload) return payload;
+  let serialized: string;
+  try {
+    serialized = JSON.stringify(payload);
+  } catch {
+    return { truncated: true, reason: 'unserializable' };
+  }
+  if (serialized.length <= maxChars) return payload;
+
+  const entries = Object.entries(payload);
+  const perField = Math.max(200, Math.floor(maxChars / Math.max(1, entries.length)));
+  const capped: Record<string, unknown> = { truncated: true, originalSize: serialized.length };
+  entries.forEach(([key, value]) => {
+    if (typeof value === 'string') {
+      capped[key] = value.length > perField ? `${value.slice(0, perField)}…` : value;
+      return;
+    }
+    const json = JSON.stringify(value) ?? '';
+    capped[key] = json.length > perField ? { preview: `${json.slice(0, perField)}…` } : value;
+  });
+  return capped;
+};
+
+const maybePrune = async (settings: IntelligenceLogSettings): Promise<void> => {
+  writesSincePrune += 1;
+  if (writesSincePrune < PRUNE_EVERY_WRITES) return;
+  writesSincePrune = 0;
+  await pruneIntelligenceRecords({
+    olderThan: Date.now() - settings.retentionDays * DAY_MS,
+    maxEntries: settings.maxEntries
+  });
+};
+
+const persistRecord = async (entry: IntelligenceRecord): Promise<void> => {
+  const settings = loadIntelligenceLogSettings();
   try {
-    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(records.slice(-MAX_ENTRIES)));
-    window.dispatchEvent(new CustomEvent('intelligence-log-updated'));
+    await addIntelligenceRecord({
+      ...entry,
+      requestPayload: capPayload(entry.requestPayload, settings.maxPayloadChars),
+      responsePayload: capPayload(entry.responsePayload, settings.maxPayloadChars)
+    });
+    await maybePrune(settings);
   } catch (error) {
     console.error('Failed to persist intelligence log:', error);
   }
@@ -47,11 +114,42 @@ export const logIntelligence = (record: Omit<IntelligenceRecord, 'id' | 'timesta
     id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
     timestamp: Date.now()
   };
+  // Handlers see the full payload; only the stored copy is capped.
   classifyIntelligence(entry);
-  const current = readLog();
-  current.push(entry);
-  writeLog(current);
+  const write = persistRecord(entry).finally(() => pendingWrites.delete(entry.id));
+  pendingWrites.set(entry.id, write);
   return entry;
 };
 
-export const getIntelligenceLog = (): IntelligenceRecord[] => readLog();
+/** Updates a stored record, waiting for its initial write if that is still in flight. */
+export const annotateIntelligenceRecord = async (
+  id: string,
+  updates: Partial<Pick<IntelligenceRecord, 'summary' | 'triggeredFollowUpIds' | 'derivedMissionProgress'>>
+): Promise<void> => {
+  await pendingWrites.get(id);
+  await updateIntelligenceRecord(id, updates);
+};
+
+export const queryIntelligenceLog = (query: IntelligenceLogQuery = {}): Promise<IntelligenceLogPage> =>
+  queryIntelligenceRecords(query);
+
+export const countIntelligenceLog = (query: IntelligenceLogQuery = {}): Promise<number> =>
+  countIntelligenceRecords(query);
+
+/** Most recent records matching the query, oldest first. */
+export const getRecentIntelligence = async (
+  limit = 50,
+  query: Omit<IntelligenceLogQuery, 'limit' | 'offset' | 'order'> = {}
+): Promise<IntelligenceRecord[]> => {
+  const page = await queryIntelligenceRecords({ ...query, limit, order: 'desc' });
+  return page.records.reverse();
+};
+
+export const pruneIntelligenceLog = (): Promise<number> => {
+  const settings = loadIntelligenceLogSettings();
+  writesSincePrune = 0;
+  return pruneIntelligenceRecords({
+    olderThan: Date.now() - settings.retentionDays * DAY_MS,
+    maxEntries: settings.maxEntries
+  });
+};
@@ -1,12 +1,14 @@
 import { IntelligenceRecord } from './intelligenceLog';
 import { IntelligenceCategory } from '../types';
 import { processIntelligenceFollowUps } from './followUps';
+import { advanceMissionsFromIntelligence } from './progressionEngine';
 
 type IntelligenceHandler = (record: IntelligenceRecord) => void;
 
 const dispatchProcessedEvent = (record: IntelligenceRecord): void => {
   if (typeof window === 'undefined') return;
   void processIntelligenceFollowUps(record);
+  advanceMissionsFromIntelligence(record).catch(error => console.error('Failed to advance missions from intelligence:', error));
   window.dispatchEvent(new CustomEvent('intelligence-record-processed', { detail: record }));
 };
 
@@ -93,6 +95,8 @@ const inferCategory = (record: IntelligenceRecord): IntelligenceCategory => {
     case 'dm_response':
       return 'mission';
     case 'post_processing':
+    case 'calendar_entry':
+    case 'knowledge_connection':
       return 'operations';
     case 'chat_generate':
     case 'performer_response':
@@ -0,0 +1,199 @@
+import { startOfDay, startOfWeek } from 'date-fns';
+import {
+  InteractionRollupGranularity,
+  PerformerInteractionEvent,
+  PerformerInteractionRollup,
+  PerformerInteractionSummary
+} from '../types';
+
+export const ROLLUP_GRANULARITIES: InteractionRollupGranularity[] = ['day', 'week'];
+
+export const pairKeyForEvent = (event: PerformerInteractionEvent): { pairKey: string; participants: string[] } => {
+  const participants = [event.speakerId, ...event.targetIds].sort();
+  return { pairKey: participants.join('|'), participants };
+};
+
+// Buckets use local time, matching the calendar views.
+export const rollupBucketStart = (timestamp: number, granularity: InteractionRollupGranularity): number =>
+  (granularity === 'day' ? startOfDay(timestamp) : startOfWeek(timestamp)).getTime();
+
+export const rollupId = (pairKey: string, granularity: InteractionRollupGranularity, bucketStart: number) =>
+  `${pairKey}#${granularity}#${bucketStart}`;
+
+const pressureOf = (event: PerformerInteractionEvent): number =>
+  event.context === 'public' && typeof event.sentiment === 'number' && event.sentiment < 0 ? Math.abs(event.sentiment) : 0;
+
+/** Folds one event into a pair summary, creating it when `summary` is undefined. */
+export const applyEventToSummary = (
+  summary: PerformerInteractionSummary | undefined,
+  event: PerformerInteractionEvent
+): PerformerInteractionSummary => {
+  const { pairKey, participants } = pairKeyForEvent(event);
+  const next: PerformerInteractionSummary = summary
+    ? { ...summary, tags: [...summary.tags] }
+    : {
+      pairKey,
+      participants,
+      lastInteraction: event.timestamp,
+      totalInteractions: 0,
+      sentimentSum: 0,
+      intrigueCount: 0,
+      tags: [],
+      publicCount: 0,
+      privateCount: 0,
+      pressureScore: 0
+    };
+
+  next.totalInteractions += 1;
+  next.lastInteraction = Math.max(next.lastInteraction, event.timestamp);
+  if (event.context === 'public') {
+    next.publicCount = (next.publicCount ?? 0) + 1;
+  } else if (event.context === 'private') {
+    next.privateCount = (next.privateCount ?? 0) + 1;
+  }
+  if (typeof event.sentiment === 'number') {
+    next.sentimentSum += event.sentiment;
+    next.pressureScore = (next.pressureScore ?? 0) + pressureOf(event);
+  }
+  if (event.intrigueTags?.length) {
+    next.intrigueCount += 1;
+    next.tags = Array.from(new Set([...next.tags, ...event.intrigueTags]));
+  }
+  if (event.narrativeTags?.length) {
+    next.tags = Array.from(new Set([...next.tags, ...event.narrativeTags]));
+  }
+  return next;
+};
+
+export const applyEventToRollup = (
+  rollup: PerformerInteractionRollup | undefined,
+  event: PerformerInteractionEvent,
+  granularity: InteractionRollupGranularity
+): PerformerInteractionRollup => {
+  const { pairKey, participants } = pairKeyForEvent(event);
+  const bucketStart = rollupBucketStart(event.timestamp, granularity);
+  const next: PerformerInteractionRollup = rollup
+    ? { ...rollup }
+    : {
+      id: rollupId(pairKey, granularity, bucketStart),
+      pairKey,
+      participants,
+      granularity,
+      bucketStart,
+      interactions: 0,
+      sentimentSum: 0,
+      sentimentCount: 0,
+      pressureScore: 0,
+      intrigueCount: 0,
+      publicCount: 0,
+      privateCount: 0
+    };
+
+  next.interactions += 1;
+  if (typeof event.sentiment === 'number') {
+    next.sentimentSum += event.sentiment;
+    next.sentimentCount += 1;
+  }
+  next.pressureScore += pressureOf(event);
+  if (event.intrigueTags?.length) next.intrigueCount += 1;
+  if (event.context === 'public') next.publicCount += 1;
+  else if (event.context === 'private') next.privateCount += 1;
+  return next;
+};
+
+export interface InteractionAggregates {
+  summaries: Map<string, PerformerInteractionSummary>;
+  rollups: Map<string, PerformerInteractionRollup>;
+}
+
+/**
+ * Folds events into existing aggregates (or empty ones). Used both for
+ * incremental writes, seeded with the affected rows, and for full rebuilds.
+ */
+export const aggregateInteractions = (
+  events: PerformerInteractionEvent[],
+  existing: Partial<InteractionAggregates> = {}
+): InteractionAggregates => {
+  const summaries = new Map(existing.summaries ?? []);
+  const rollups = new Map(existing.rollups ?? []);
+  events.forEach(event => {
+    const { pairKey } = pairKeyForEvent(event);
+    summaries.set(pairKey, applyEventToSummary(summaries.get(pairKey), event));
+    ROLLUP_GRANULARITIES.forEach(granularity => {
+      const id = rollupId(pairKey, granularity, rollupBucketStart(event.timestamp, granularity));
+      rollups.set(id, applyEventToRollup(rollups.get(id), event, granularity));
+    });
+  });
+  return { summaries, rollups };
+};
+
+/** Keys of the summary and rollup rows a batch of events will touch. */
+export const affectedAggregateKeys = (events: PerformerInteractionEvent[]): { pairKeys: string[]; rollupIds: string[] } => {
+  const pairKeys = new Set<string>();
+  const rollupIds = new Set<string>();
+  events.forEach(event => {
+    const { pairKey } = pairKeyForEvent(event);
+    pairKeys.add(pairKey);
+    ROLLUP_GRANULARITIES.forEach(granularity => rollupIds.add(rollupId(pairKey, granularity, rollupBucketStart(event.timestamp, granularity))));
+  });
+  return { pairKeys: Array.from(pairKeys), rollupIds: Array.from(rollupIds) };
+};
+
+export interface InteractionSummaryDrift {
+  pairsChecked: number;
+  rollupsChecked: number;
+  missing: string[];
+  stale: string[];
+  mismatched: Array<{ key: string; field: string; expected: unknown; actual: unknown }>;
+}
+
+const SUMMARY_FIELDS = ['totalInteractions', 'lastInteraction', 'sentimentSum', 'intrigueCount', 'publicCount', 'privateCount', 'pressureScore'] as const;
+const ROLLUP_FIELDS = ['interactions', 'sentimentSum', 'sentimentCount', 'pressureScore', 'intrigueCount', 'publicCount', 'privateCount'] as const;
+
+// Sentiment sums are floats accumulated in different orders.
+const sameValue = (expected: unknown, actual: unknown) =>
+  typeof expected === 'number' && typeof actual === 'number' ? Math.abs(expected - actual) < 1e-6 : expected === actual;
+
+/** Compares stored aggregates with ones rebuilt from the raw events. */
+export const diffInteractionAggregates = (
+  expected: InteractionAggregates,
+  stored: { summaries: PerformerInteractionSummary[]; rollups: PerformerInteractionRollup[] }
+): InteractionSummaryDrift => {
+  const drift: InteractionSummaryDrift = {
+    pairsChecked: expected.summaries.size,
+    rollupsChecked: expected.rollups.size,
+    missing: [],
+    stale: [],
+    mismatched: []
+  };
+
+  const compareRows = <T extends object>(
+    expectedRows: Map<string, T>,
+    storedRows: T[],
+    keyOf: (row: T) => string,
+    fields: readonly string[]
+  ) => {
+    const storedByKey = new Map(storedRows.map(row => [keyOf(row), row]));
+    expectedRows.forEach((row, key) => {
+      const actual = storedByKey.get(key);
+      if (!actual) {
+        drift.missing.push(key);
+        return;
+      }
+      fields.forEach(field => {
+        const expectedValue = (row as Record<string, unknown>)[field] ?? 0;
+        const actualValue = (actual as Record<string, unknown>)[field] ?? 0;
+        if (!sameValue(expectedValue, actualValue)) {
+          drift.mismatched.push({ key, field, expected: expectedValue, actual: actualValue });
+        }
+      });
+    });
+    storedByKey.forEach((_, key) => {
+      if (!expectedRows.has(key)) drift.stale.push(key);
+    });
+  };
+
+  compareRows(expected.summaries, stored.summaries, summary => summary.pairKey, SUMMARY_FIELDS);
+  compareRows(expected.rollups, stored.rollups, rollup => rollup.id, ROLLUP_FIELDS);
+  return drift;
+};
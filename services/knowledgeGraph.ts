@@ -0,0 +1,231 @@
+import { KnowledgeEdge, KnowledgeEdgeEvidence, KnowledgeEntity, KnowledgeObservation } from '../types';
+import { buildKnowledgeEdgeId, db, getEntity, saveKnowledgeEdges, saveKnowledgeEntity } from './db';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_OBSERVATION_CONFIDENCE = 0.7;
+// A first sighting lands between these; repeated sightings approach 1.
+const INITIAL_CONFIDENCE_BASE = 0.35;
+const INITIAL_CONFIDENCE_SPAN = 0.3;
+const REINFORCE_RATE = 0.35;
+const RETRACT_RATE = 0.6;
+// Penalty applied to the other targets of a single-valued predicate when a new one is asserted.
+const EXCLUSIVE_CONFLICT_PENALTY = 0.6;
+const RETRACTED_BELOW = 0.2;
+const MAX_EVIDENCE = 12;
+const RECENCY_HALF_LIFE_DAYS = 90;
+
+export const MIN_SUPPORTED_CONFIDENCE = 0.5;
+
+export const normalizePredicate = (predicate: string): string =>
+  predicate.trim().replace(/\s+/g, '_').toLowerCase() || 'related_to';
+
+const clampConfidence = (value: number | undefined): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(0.05, Math.min(1, value)) : DEFAULT_OBSERVATION_CONFIDENCE;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/** An edge that has not been retracted and has enough confidence to be stated as fact. */
+export const isWellSupported = (edge: KnowledgeEdge, minConfidence = MIN_SUPPORTED_CONFIDENCE): boolean =>
+  !edge.retracted && edge.confidence >= minConfidence;
+
+/**
+ * Ranking score: confidence, boosted logarithmically by independent sightings
+ * and discounted by age and open contradictions.
+ */
+export const edgeSupportScore = (edge: KnowledgeEdge, now = Date.now()): number => {
+  const ageDays = Math.max(0, now - edge.lastSeenAt) / DAY_MS;
+  const recency = 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS);
+  const support = 1 + Math.log2(Math.max(1, edge.supportCount));
+  return edge.confidence * support * (0.5 + 0.5 * recency) * (edge.contradicted ? 0.5 : 1);
+};
+
+const withEvidence = (edge: KnowledgeEdge, evidence: KnowledgeEdgeEvidence): KnowledgeEdge => ({
+  ...edge,
+  evidence: [
+    evidence,
+    ...edge.evidence.filter(item => !(item.sourceType === evidence.sourceType && item.sourceId === evidence.sourceId))
+  ].slice(0, MAX_EVIDENCE)
+});
+
+const applyObservation = (existing: KnowledgeEdge | undefined, observation: KnowledgeObservation): KnowledgeEdge | null => {
+  const observedAt = observation.evidence.observedAt ?? Date.now();
+  const confidence = clampConfidence(observation.confidence);
+  const predicate = normalizePredicate(observation.predicate);
+  const evidence: KnowledgeEdgeEvidence = {
+    sourceType: observation.evidence.sourceType,
+    sourceId: observation.evidence.sourceId,
+    observedAt,
+    polarity: observation.negated ? 'retract' : 'assert',
+    confidence
+  };
+
+  if (!existing) {
+    // Denying a fact we never recorded carries no information.
+    if (observation.negated) return null;
+    return withEvidence({
+      id: buildKnowledgeEdgeId(observation.source, predicate, observation.target),
+      source: observation.source.trim(),
+      target: observation.target.trim(),
+      predicate,
+      directed: observation.directed ?? true,
+      confidence: round(INITIAL_CONFIDENCE_BASE + INITIAL_CONFIDENCE_SPAN * confidence),
+      supportCount: 1,
+      retractCount: 0,
+      firstSeenAt: observedAt,
+      lastSeenAt: observedAt,
+      evidence: []
+    }, evidence);
+  }
+
+  if (observation.negated) {
+    const next = round(existing.confidence * (1 - RETRACT_RATE * confidence));
+    // A person retracting from the graph UI means it; only extracted negations fade gradually.
+    const manual = observation.evidence.sourceType === 'manual';
+    return withEvidence({
+      ...existing,
+      confidence: next,
+      retractCount: existing.retractCount + 1,
+      lastSeenAt: Math.max(existing.lastSeenAt, observedAt),
+      contradicted: true,
+      retracted: manual || next < RETRACTED_BELOW
+    }, evidence);
+  }
+
+  // The same source asserting again (a lens re-run, a reprocessed message) is not an independent sighting.
+  const alreadyAsserted = existing.evidence.some(item =>
+    item.polarity === 'assert' && item.sourceType === evidence.sourceType && item.sourceId === evidence.sourceId
+  );
+  if (alreadyAsserted) return null;
+
+  const next = round(existing.confidence + (1 - existing.confidence) * REINFORCE_RATE * confidence);
+  return withEvidence({
+    ...existing,
+    confidence: next,
+    supportCount: existing.supportCount + 1,
+    lastSeenAt: Math.max(existing.lastSeenAt, observedAt),
+    retracted: next < RETRACTED_BELOW
+  }, evidence);
+};
+
+const relationshipsFromEdges = (edges: KnowledgeEdge[]): Record<string, string[]> =>
+  edges.reduce<Record<string, string[]>>((acc, edge) => {
+    if (edge.retracted) return acc;
+    acc[edge.predicate] = Array.from(new Set([...(acc[edge.predicate] ?? []), edge.target]));
+    return acc;
+  }, {});
+
+/**
+ * Rebuilds the `relationships` map of the given entities from their live
+ * edges, so existing readers of KnowledgeEntity see corrections and retractions.
+ */
+const syncEntityRelationships = async (names: string[], tagsByEntity: Map<string, string[]>): Promise<void> => {
+  for (const name of names) {
+    const [existing, edges] = await Promise.all([
+      getEntity(name),
+      db.knowledgeEdges.where('source').equals(name).toArray()
+    ]);
+    const entity: KnowledgeEntity = {
+      ...existing,
+      name,
+      relationships: relationshipsFromEdges(edges),
+      sourceTags: Array.from(new Set([...(existing?.sourceTags ?? []), ...(tagsByEntity.get(name) ?? [])]))
+    };
+    await saveKnowledgeEntity(entity);
+  }
+};
+
+/**
+ * Folds extracted facts into the edge table. Assertions reinforce confidence
+ * once per source, negations weaken it (retracting below a floor), and
+ * asserting a new target for an exclusive predicate flags the competing edges
+ * as contradicted.
+ */
+export const recordKnowledgeObservations = async (
+  observations: KnowledgeObservation[],
+  context: { tags?: string[]; lastSeenConversationId?: string | null } = {}
+): Promise<KnowledgeEdge[]> => {
+  const valid = observations.filter(observation => observation.source.trim() && observation.target.trim());
+  if (valid.length === 0) return [];
+
+  const touched = new Map<string, KnowledgeEdge>();
+  const load = async (id: string) => touched.get(id) ?? (await db.knowledgeEdges.get(id));
+
+  for (const observation of valid) {
+    const predicate = normalizePredicate(observation.predicate);
+    const id = buildKnowledgeEdgeId(observation.source, predicate, observation.target);
+    const updated = applyObservation(await load(id), observation);
+    if (!updated) continue;
+
+    if (observation.exclusive && !observation.negated) {
+      // Edges asserted earlier in this batch are not in the table yet.
+      const stored = await db.knowledgeEdges.where('source').equals(updated.source).toArray();
+      const siblings = new Map(stored.map(edge => [edge.id, edge]));
+      touched.forEach(edge => {
+        if (edge.source === updated.source) siblings.set(edge.id, edge);
+      });
+      const competing = Array.from(siblings.values())
+        .filter(edge => edge.predicate === predicate && edge.id !== id && !edge.retracted);
+      competing.forEach(edge => {
+        const confidence = round(edge.confidence * EXCLUSIVE_CONFLICT_PENALTY);
+        touched.set(edge.id, {
+          ...edge,
+          confidence,
+          contradicted: true,
+          contradictedBy: Array.from(new Set([...(edge.contradictedBy ?? []), id])),
+          retracted: confidence < RETRACTED_BELOW
+        });
+      });
+      const stillStrong = competing.filter(edge => (touched.get(edge.id)?.confidence ?? 0) >= MIN_SUPPORTED_CONFIDENCE);
+      if (stillStrong.length > 0) {
+        updated.contradicted = true;
+        updated.contradictedBy = Array.from(new Set([...(updated.contradictedBy ?? []), ...stillStrong.map(edge => edge.id)]));
+      }
+    }
+    touched.set(id, updated);
+  }
+
+  const edges = Array.from(touched.values());
+  await saveKnowledgeEdges(edges);
+
+  const tags = context.tags ?? [];
+  const tagsByEntity = new Map<string, string[]>();
+  edges.forEach(edge => {
+    tagsByEntity.set(edge.source, [...(tagsByEntity.get(edge.source) ?? []), ...tags, `relation:${edge.predicate}`]);
+    tagsByEntity.set(edge.target, [...(tagsByEntity.get(edge.target) ?? []), ...tags, `relationship:${edge.predicate}`]);
+  });
+  await syncEntityRelationships(Array.from(tagsByEntity.keys()), tagsByEntity);
+  if (context.lastSeenConversationId) {
+    await db.knowledge.where('name').anyOf(Array.from(tagsByEntity.keys())).modify({
+      lastSeenConversationId: context.lastSeenConversationId
+    });
+  }
+  return edges;
+};
+
+/** Manual retraction from the graph UI: records a full-confidence negation and retracts the edge outright. */
+export const retractKnowledgeEdge = async (edge: KnowledgeEdge): Promise<void> => {
+  await recordKnowledgeObservations([{
+    source: edge.source,
+    target: edge.target,
+    predicate: edge.predicate,
+    negated: true,
+    confidence: 1,
+    evidence: { sourceType: 'manual', sourceId: 'knowledge-graph' }
+  }]);
+};
+
+/** Well-supported edges touching any of the given names or predicates, best first. */
+export const rankSupportedEdges = (
+  edges: KnowledgeEdge[],
+  matches: (edge: KnowledgeEdge) => boolean,
+  limit = 20
+): KnowledgeEdge[] => {
+  const now = Date.now();
+  return edges
+    .filter(edge => isWellSupported(edge) && matches(edge))
+    .map(edge => ({ edge, score: edgeSupportScore(edge, now) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ edge }) => edge);
+};
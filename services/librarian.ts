@@ -1,8 +1,9 @@
-import { getAllMemories, getFollowUps } from './db';
-import { getIntelligenceLog } from './intelligenceLog';
-import { IntelligenceFollowUp, Memory } from '../types';
+import { getAllMemories, getAllThreads, getFollowUps } from './db';
+import { getRecentIntelligence } from './intelligenceLog';
+import { findSimilar, similarityMap, SimilarityHit } from './embeddings';
+import { ConversationThread, IntelligenceFollowUp, IntelligenceRecord, Memory } from '../types';
 
-export type LibrarianResultType = 'memory' | 'intelligence' | 'followup';
+export type LibrarianResultType = 'memory' | 'thread' | 'intelligence' | 'followup';
 
 export interface LibrarianResult {
   id: string;
@@ -14,6 +15,13 @@ export interface LibrarianResult {
   score: number;
 }
 
+// Cosine similarity is 0-1 while a single exact token match is worth 3, so scale vectors up to compete.
+const VECTOR_SCORE_WEIGHT = 12;
+const MIN_VECTOR_SIMILARITY = 0.35;
+
+// Payload matching is token-based, so search the most recent slice of the log rather than all of it.
+const LIBRARIAN_INTEL_WINDOW = 500;
+
 const tokenize = (text: string): string[] =>
   text
     .toLowerCase()
@@ -35,10 +43,16 @@ const scoreMatch = (queryTokens: string[], targetTokens: string[]): number => {
   return score;
 };
 
-const buildMemoryResult = (memory: Memory, queryTokens: string[]): LibrarianResult | null => {
+const blendScore = (lexical: number, similarity: number | undefined): number => {
+  const vector = similarity !== undefined && similarity >= MIN_VECTOR_SIMILARITY ? similarity * VECTOR_SCORE_WEIGHT : 0;
+  return lexical > 0 || vector > 0 ? lexical + vector : 0;
+};
+
+const buildMemoryResult = (memory: Memory, queryTokens: string[], similarity?: number): LibrarianResult | null => {
   const text = `${memory.summary} ${memory.tags.join(' ')} ${memory.conversation}`;
   const tokens = tokenize(text);
-  const score = scoreMatch(queryTokens, tokens) + (memory.relevance ?? 0) * 0.05;
+  const lexical = scoreMatch(queryTokens, tokens);
+  const score = blendScore(lexical, similarity);
   if (score <= 0) return null;
   const snippet = memory.summary || memory.conversation.slice(0, 160);
   return {
@@ -48,11 +62,26 @@ const buildMemoryResult = (memory: Memory, queryTokens: string[]): LibrarianResu
     snippet,
     link: '/memory',
     timestamp: memory.timestamp,
+    score: score + (memory.relevance ?? 0) * 0.05
+  };
+};
+
+const buildThreadResult = (thread: ConversationThread, queryTokens: string[], similarity?: number): LibrarianResult | null => {
+  const tokens = tokenize(`${thread.title} ${thread.summary} ${thread.tags.join(' ')}`);
+  const score = blendScore(scoreMatch(queryTokens, tokens), similarity);
+  if (score <= 0) return null;
+  return {
+    id: `thread-${thread.id}`,
+    type: 'thread',
+    title: thread.title,
+    snippet: thread.summary,
+    link: '/threads',
+    timestamp: thread.updatedAt,
     score
   };
 };
 
-const buildIntelResult = (record: ReturnType<typeof getIntelligenceLog>[number], queryTokens: string[]): LibrarianResult | null => {
+const buildIntelResult = (record: IntelligenceRecord, queryTokens: string[]): LibrarianResult | null => {
   const text = `${record.summary ?? ''} ${JSON.stringify(record.requestPayload ?? {})} ${JSON.stringify(record.responsePayload ?? {})}`;
   const tokens = tokenize(text);
   const score = scoreMatch(queryTokens, tokens);
@@ -71,7 +100,7 @@ const buildIntelResult = (record: ReturnType<typeof getIntelligenceLog>[number],
 const buildFollowUpResult = (followUp: IntelligenceFollowUp, queryTokens: string[]): LibrarianResult | null => {
   const text = `${followUp.title} ${followUp.description ?? ''} ${followUp.category} ${followUp.actionHint?.description ?? ''}`;
   const tokens = tokenize(text);
-  const score = scoreMatch(queryTokens, tokens) + (followUp.priority === 'high' ? 3 : followUp.priority === 'medium' ? 1 : 0);
+  const score = scoreMatch(queryTokens, tokens) + (followUp.priority === 'urgent' || followUp.priority === 'high' ? 3 : followUp.priority === 'medium' ? 1 : 0);
   if (score <= 0) return null;
   return {
     id: followUp.id,
@@ -90,15 +119,26 @@ export const searchKnowledge = async (query: string): Promise<LibrarianResult[]>
   const queryTokens = tokenize(trimmed);
   if (queryTokens.length === 0) return [];
 
-  const [memories, followUps, intelligence] = await Promise.all([
+  const [memories, threads, followUps, intelligence, similar] = await Promise.all([
     getAllMemories(),
+    getAllThreads(),
     getFollowUps(),
-    Promise.resolve(getIntelligenceLog())
+    getRecentIntelligence(LIBRARIAN_INTEL_WINDOW),
+    findSimilar(trimmed, { sourceTypes: ['memory', 'thread'], limit: 200 }).catch((error): SimilarityHit[] => {
+      console.warn('Librarian vector search unavailable, using lexical matching only:', error);
+      return [];
+    })
   ]);
+  const memorySimilarity = similarityMap(similar, 'memory');
+  const threadSimilarity = similarityMap(similar, 'thread');
 
   const results: LibrarianResult[] = [];
   memories.forEach(memory => {
-    const result = buildMemoryResult(memory, queryTokens);
+    const result = buildMemoryResult(memory, queryTokens, memorySimilarity.get(String(memory.id)));
+    if (result) results.push(result);
+  });
+  threads.forEach(thread => {
+    const result = buildThreadResult(thread, queryTokens, threadSimilarity.get(thread.id));
     if (result) results.push(result);
   });
   followUps.forEach(followUp => {
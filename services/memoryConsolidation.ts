@@ -0,0 +1,330 @@
+import {
+  Memory,
+  MemoryArchiveChange,
+  MemoryChangeBasis,
+  MemoryConsolidationRun,
+  MemoryDecayChange,
+  MemoryMergeChange
+} from '../types';
+import {
+  MemoryConsolidationResult,
+  commitMemoryConsolidation,
+  getAllMemories,
+  getMemoryConsolidationRun,
+  getMemoryConsolidationRuns,
+  recordMemoryRecall,
+  saveMemoryConsolidationRun
+} from './db';
+import { generateJsonCompletion } from './aiService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A memory with no recalls loses half its relevance above the floor every 30 days;
+// each recall doubles the half-life (capped), so frequently used memories fade slowly.
+const BASE_HALF_LIFE_DAYS = 30;
+const MAX_HALF_LIFE_DOUBLINGS = 5;
+const RELEVANCE_FLOOR = 1;
+const MIN_DECAY_DELTA = 0.1;
+
+export const RECALL_RELEVANCE_BOOST = 0.25;
+
+const MERGE_SIMILARITY_THRESHOLD = 0.6;
+const MAX_MERGES_PER_RUN = 10;
+const MAX_CLUSTER_SIZE = 6;
+
+const ARCHIVE_RELEVANCE_THRESHOLD = 1.5;
+const ARCHIVE_IDLE_DAYS = 30;
+
+const SCHEDULE_INTERVAL_MS = DAY_MS;
+const SCHEDULER_POLL_MS = 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const halfLifeDays = (memory: Memory) =>
+  BASE_HALF_LIFE_DAYS * 2 ** Math.min(memory.recallCount ?? 0, MAX_HALF_LIFE_DOUBLINGS);
+
+/** Relevance after exponential decay toward the floor since the last decay, recall or creation. */
+export const decayedRelevance = (memory: Memory, now = Date.now()): number => {
+  const anchor = Math.max(memory.lastDecayedAt ?? 0, memory.lastRecalledAt ?? 0, memory.timestamp);
+  const elapsedDays = Math.max(0, now - anchor) / DAY_MS;
+  if (memory.relevance <= RELEVANCE_FLOOR) return memory.relevance;
+  const excess = memory.relevance - RELEVANCE_FLOOR;
+  return round(RELEVANCE_FLOOR + excess * 0.5 ** (elapsedDays / halfLifeDays(memory)));
+};
+
+/** Bumps recall counters for memories that were pulled into a context primer. */
+export const reinforceRecalledMemories = async (memories: Memory[]): Promise<void> => {
+  const ids = memories.map(memory => memory.id).filter((id): id is number => typeof id === 'number');
+  await recordMemoryRecall(Array.from(new Set(ids)), RECALL_RELEVANCE_BOOST);
+};
+
+const signature = (memory: Memory): Set<string> =>
+  new Set([
+    ...memory.tags.map(tag => `t:${tag.toLowerCase()}`),
+    ...(memory.knowledgeRefs ?? []).map(ref => `k:${ref.toLowerCase()}`)
+  ]);
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(value => {
+    if (b.has(value)) shared += 1;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+interface MemoryCluster {
+  members: Memory[];
+  similarity: number;
+}
+
+/**
+ * Groups near-duplicate memories by tag and knowledge-ref overlap. Candidate
+ * pairs come from an inverted index so the scan stays cheap on large stores;
+ * pairs above the threshold are joined with union-find.
+ */
+const clusterMemories = (memories: Memory[]): MemoryCluster[] => {
+  const signatures = memories.map(signature);
+  const index = new Map<string, number[]>();
+  signatures.forEach((features, position) => {
+    features.forEach(feature => {
+      const bucket = index.get(feature) ?? [];
+      bucket.push(position);
+      index.set(feature, bucket);
+    });
+  });
+
+  const parent = memories.map((_, position) => position);
+  const find = (position: number): number => {
+    while (parent[position] !== position) {
+      parent[position] = parent[parent[position]];
+      position = parent[position];
+    }
+    return position;
+  };
+  const pairs: Array<{ position: number; similarity: number }> = [];
+
+  signatures.forEach((features, position) => {
+    const candidates = new Set<number>();
+    features.forEach(feature => index.get(feature)?.forEach(other => {
+      if (other > position) candidates.add(other);
+    }));
+    candidates.forEach(other => {
+      const similarity = jaccard(features, signatures[other]);
+      if (similarity < MERGE_SIMILARITY_THRESHOLD) return;
+      const rootA = find(position);
+      const rootB = find(other);
+      if (rootA !== rootB) parent[rootB] = rootA;
+      pairs.push({ position, similarity });
+    });
+  });
+
+  const pairScores = new Map<number, number[]>();
+  pairs.forEach(({ position, similarity }) => {
+    const root = find(position);
+    pairScores.set(root, [...(pairScores.get(root) ?? []), similarity]);
+  });
+
+  const groups = new Map<number, Memory[]>();
+  memories.forEach((memory, position) => {
+    const root = find(position);
+    groups.set(root, [...(groups.get(root) ?? []), memory]);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => {
+      const scores = pairScores.get(root) ?? [];
+      return {
+        members: members.sort((a, b) => b.relevance - a.relevance).slice(0, MAX_CLUSTER_SIZE),
+        similarity: round(scores.length ? scores.reduce((sum, score) => sum + score, 0) / scores.length : MERGE_SIMILARITY_THRESHOLD)
+      };
+    })
+    .sort((a, b) => b.members.length - a.members.length || b.similarity - a.similarity);
+};
+
+const fallbackMergedSummary = (members: Memory[]): string => {
+  const [primary, ...rest] = members;
+  return rest.length ? `${primary.summary} (consolidated with ${rest.length} related ${rest.length === 1 ? 'memory' : 'memories'})` : primary.summary;
+};
+
+const summarizeCluster = async (members: Memory[]): Promise<string> => {
+  const prompt = `Merge these overlapping memories into one concise summary (1-3 sentences) that keeps every distinct fact, name and decision. Do not invent details.
+
+${members.map((memory, index) => `${index + 1}. [${new Date(memory.timestamp).toISOString().split('T')[0]}] ${memory.summary}`).join('\n')}
+
+Respond in JSON: {"summary": "text"}`;
+  try {
+    const json = await generateJsonCompletion<{ summary?: string }>(prompt, { temperature: 0.2 });
+    return typeof json.summary === 'string' && json.summary.trim() ? json.summary.trim() : fallbackMergedSummary(members);
+  } catch (error) {
+    console.warn('Falling back to a deterministic merged summary.', error);
+    return fallbackMergedSummary(members);
+  }
+};
+
+const changeBasis = (memory: Memory): MemoryChangeBasis => ({
+  relevance: memory.relevance,
+  recallCount: memory.recallCount ?? 0,
+  lastRecalledAt: memory.lastRecalledAt
+});
+
+const planDecay = (memories: Memory[], now: number): MemoryDecayChange[] =>
+  memories.flatMap(memory => {
+    const after = decayedRelevance(memory, now);
+    if (memory.id === undefined || memory.relevance - after < MIN_DECAY_DELTA) return [];
+    return [{
+      key: `decay:${memory.id}`,
+      memoryId: memory.id,
+      summary: memory.summary,
+      before: memory.relevance,
+      after,
+      halfLifeDays: halfLifeDays(memory),
+      basis: changeBasis(memory)
+    }];
+  });
+
+const planMerges = async (memories: Memory[]): Promise<MemoryMergeChange[]> => {
+  const clusters = clusterMemories(memories.filter(memory => memory.id !== undefined)).slice(0, MAX_MERGES_PER_RUN);
+  const merges: MemoryMergeChange[] = [];
+  for (const cluster of clusters) {
+    const sourceIds = cluster.members.map(memory => memory.id!);
+    merges.push({
+      key: `merge:${sourceIds.join('-')}`,
+      sourceIds,
+      sourceSummaries: cluster.members.map(memory => memory.summary),
+      summary: await summarizeCluster(cluster.members),
+      tags: Array.from(new Set(cluster.members.flatMap(memory => memory.tags))),
+      knowledgeRefs: Array.from(new Set(cluster.members.flatMap(memory => memory.knowledgeRefs ?? []))),
+      relevance: Math.max(...cluster.members.map(memory => memory.relevance)),
+      similarity: cluster.similarity
+    });
+  }
+  return merges;
+};
+
+const planArchives = (memories: Memory[], merged: Set<number>, now: number): MemoryArchiveChange[] =>
+  memories.flatMap(memory => {
+    if (memory.id === undefined || merged.has(memory.id)) return [];
+    const relevance = decayedRelevance(memory, now);
+    const lastTouched = Math.max(memory.lastRecalledAt ?? 0, memory.timestamp);
+    if (relevance >= ARCHIVE_RELEVANCE_THRESHOLD || now - lastTouched < ARCHIVE_IDLE_DAYS * DAY_MS) return [];
+    return [{
+      key: `archive:${memory.id}`,
+      memoryId: memory.id,
+      summary: memory.summary,
+      relevance,
+      reason: `Relevance ${relevance.toFixed(1)} and not recalled in ${ARCHIVE_IDLE_DAYS}+ days`,
+      basis: changeBasis(memory)
+    }];
+  });
+
+export const getPendingConsolidationRun = async (): Promise<MemoryConsolidationRun | undefined> =>
+  (await getMemoryConsolidationRuns()).find(run => run.status === 'pending');
+
+/**
+ * Plans a consolidation run and stores it as pending. Nothing touches the
+ * memories table until the run is reviewed and applied; an earlier pending
+ * run is superseded.
+ */
+export const buildConsolidationPlan = async (trigger: MemoryConsolidationRun['trigger']): Promise<MemoryConsolidationRun> => {
+  const now = Date.now();
+  const memories = await getAllMemories();
+  const merges = await planMerges(memories);
+  const mergedIds = new Set(merges.flatMap(merge => merge.sourceIds));
+
+  const previous = await getPendingConsolidationRun();
+  if (previous) {
+    await saveMemoryConsolidationRun({ ...previous, status: 'discarded', resolvedAt: now });
+  }
+
+  const run: MemoryConsolidationRun = {
+    id: `consolidation-${now}`,
+    status: 'pending',
+    trigger,
+    decay: planDecay(memories.filter(memory => !mergedIds.has(memory.id!)), now),
+    merges,
+    archives: planArchives(memories, mergedIds, now),
+    createdAt: now
+  };
+  await saveMemoryConsolidationRun(run);
+  return run;
+};
+
+export const applyConsolidationRun = async (
+  runId: string,
+  skippedKeys: string[] = []
+): Promise<MemoryConsolidationResult> => {
+  const run = await getMemoryConsolidationRun(runId);
+  if (!run || run.status !== 'pending') {
+    throw new Error('This consolidation run is no longer pending.');
+  }
+  const skipped = new Set(skippedKeys);
+  const now = Date.now();
+  const merges = run.merges.filter(merge => !skipped.has(merge.key));
+  const mergedIds = new Set(merges.flatMap(merge => merge.sourceIds));
+  const memories = new Map((await getAllMemories()).map(memory => [memory.id, memory]));
+
+  return commitMemoryConsolidation({
+    relevanceUpdates: run.decay
+      .filter(change => !skipped.has(change.key) && !mergedIds.has(change.memoryId))
+      .map(change => ({ id: change.memoryId, relevance: change.after, basis: change.basis })),
+    merges: merges.map(merge => ({
+      sourceIds: merge.sourceIds,
+      memory: {
+        timestamp: now,
+        summary: merge.summary,
+        tags: merge.tags,
+        knowledgeRefs: merge.knowledgeRefs,
+        relevance: merge.relevance,
+        conversation: merge.sourceIds
+          .map(id => memories.get(id)?.conversation)
+          .filter((conversation): conversation is string => Boolean(conversation))
+          .join('\n\n---\n\n'),
+        recallCount: Math.max(0, ...merge.sourceIds.map(id => memories.get(id)?.recallCount ?? 0)),
+        mergedFrom: merge.sourceIds.flatMap(id => {
+          const source = memories.get(id);
+          return source ? [{ memoryId: id, timestamp: source.timestamp, summary: source.summary, relevance: source.relevance }] : [];
+        })
+      }
+    })),
+    archives: run.archives
+      .filter(change => !skipped.has(change.key) && !mergedIds.has(change.memoryId))
+      .map(change => ({ id: change.memoryId, reason: 'low_value' as const, basis: change.basis })),
+    run: { ...run, status: 'applied', skippedKeys, resolvedAt: now }
+  });
+};
+
+export const discardConsolidationRun = async (runId: string): Promise<void> => {
+  const run = await getMemoryConsolidationRun(runId);
+  if (!run || run.status !== 'pending') return;
+  await saveMemoryConsolidationRun({ ...run, status: 'discarded', resolvedAt: Date.now() });
+};
+
+const runScheduledConsolidation = async (): Promise<void> => {
+  const [latest] = await getMemoryConsolidationRuns(1);
+  if (latest?.status === 'pending') return;
+  if (latest && Date.now() - latest.createdAt < SCHEDULE_INTERVAL_MS) return;
+  if ((await getAllMemories()).length === 0) return;
+  await buildConsolidationPlan('scheduled');
+};
+
+/**
+ * Plans a run at most once a day in the background. Returns a stop function.
+ * Scheduled runs only ever produce a pending diff for review.
+ */
+export const startMemoryConsolidationScheduler = (): (() => void) => {
+  let running = false;
+  const tick = () => {
+    if (running) return;
+    running = true;
+    runScheduledConsolidation()
+      .catch(error => console.error('Scheduled memory consolidation failed:', error))
+      .finally(() => {
+        running = false;
+      });
+  };
+  tick();
+  const handle = window.setInterval(tick, SCHEDULER_POLL_MS);
+  return () => window.clearInterval(handle);
+};
@@ -1,4 +1,4 @@
-import { Memory, ClientProfile, BrandIntelligence, PerformerProfile, JournalEntry, KnowledgeEntity, PerformerInteractionEvent } from '../types';
+import { Memory, ClientProfile, BrandIntelligence, PerformerProfile, KnowledgeEntity, PerformerInteractionEvent, CalendarEvent } from '../types';
 import { 
   getAllClientProfiles, 
   getClientProfile, 
@@ -8,36 +8,28 @@ import {
   getAllPerformers,
   getPerformerById,
   savePerformer,
-  getJournalEntry,
-  upsertJournalEntry,
-  getEntity,
   getAllEntities,
-  saveKnowledgeEntity,
+  saveCalendarEvents,
   addPerformerInteractionEvents,
   updateMemory
 } from './db';
-import { loadAiSettings } from './aiService';
+import { generateJsonCompletion } from './aiService';
 import { logIntelligence } from './intelligenceLog';
+import { recordKnowledgeObservations } from './knowledgeGraph';
+import { EXTRACTED_EVENT_FORMAT, ExtractedCalendarEvent, normalizeExtractedEvent } from './calendarEvents';
 
 interface ProcessingResult {
   clientUpdates: Array<{ id: string; updates: Partial<ClientProfile> }>;
   brandUpdates: Partial<BrandIntelligence> | null;
   performerUpdates: Array<{ id: string; updates: Partial<PerformerProfile> }>;
-  calendarEntries: Array<{ date: string; content: string }>;
-  knowledgeConnections: Array<{ entity: string; relationships: Record<string, string[]> }>;
+  calendarEntries: Array<ExtractedCalendarEvent & { content?: string }>;
+  knowledgeConnections: Array<{ entity: string; relatedTo: string[]; relationshipType: string }>;
   interactionEvents: PerformerInteractionEvent[];
   rerankedRelevance: number;
   reasoning: string;
 }
 
 export async function processMemory(memory: Memory): Promise<ProcessingResult> {
-  const settings = loadAiSettings();
-  const apiKey = settings.openaiApiKey;
-  
-  if (!apiKey) {
-    throw new Error('OpenAI API key not configured. Please add it in Settings.');
-  }
-
   // Gather context
   const [clients, brand, performers, knowledge] = await Promise.all([
     getAllClientProfiles(),
@@ -63,7 +55,7 @@ TASK: Extract and route information to:
 1. CLIENT UPDATES - Any insights about existing or new clients (pain points, goals, personality, opportunities, history, notes, company, industry, role, budget, decisionProcess, communicationStyle, objections)
 2. BRAND UPDATES - Insights about our mission, vision, values, positioning, strategy, tone, or constraints. Available fields: mission, vision, values, targetAudience, uniqueValue, goals, tone, keyMessages, competitiveEdge, constraints
 3. PERFORMER UPDATES - Biographical details, personality traits, or role descriptions for performers
-4. CALENDAR ENTRIES - Time-sensitive commitments, deadlines, or scheduled events
+4. CALENDAR ENTRIES - Time-sensitive commitments, deadlines, or scheduled events, with times and attendees when stated
 5. KNOWLEDGE CONNECTIONS - Conceptual relationships between entities
 6. INTERACTION EVENTS - Notable interactions between performers or with user
 7. RELEVANCE RERANK - Reassess memory importance (1-10 scale)
@@ -84,33 +76,14 @@ Respond in JSON:
   "clientUpdates": [{"clientName": "name", "field": "painPoints|goals|personality|opportunities|history|notes|company|industry|role|budget|decisionProcess|communicationStyle|objections", "content": "text"}],
   "brandUpdates": {"field": "mission|vision|values|targetAudience|uniqueValue|goals|tone|keyMessages|competitiveEdge|constraints", "content": "text"} or null,
   "performerUpdates": [{"performerName": "name", "field": "description|roleDescription", "content": "text"}],
-  "calendarEntries": [{"date": "YYYY-MM-DD", "content": "text"}],
+  "calendarEntries": [${EXTRACTED_EVENT_FORMAT}],
   "knowledgeConnections": [{"entity": "name", "relatedTo": ["entity1", "entity2"], "relationshipType": "type"}],
   "interactionEvents": [{"participants": ["name1", "name2"], "intrigueTags": ["tag"], "sentiment": -1 to 1}],
   "rerankedRelevance": 1-10,
   "reasoning": "brief explanation"
 }`;
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: 'gpt-5-mini-2025-08-07',
-      messages: [{ role: 'user', content: prompt }],
-      response_format: { type: 'json_object' }
-    })
-  });
-
-  const data = await response.json();
-  
-  if (!response.ok || !data.choices?.[0]?.message?.content) {
-    throw new Error(`API Error: ${data.error?.message || 'Invalid response'}`);
-  }
-  
-  const json = JSON.parse(data.choices[0].message.content);
+  const json = await generateJsonCompletion(prompt, { temperature: 0.3 });
 
   // Map to actual IDs and structure
   const clientUpdates = json.clientUpdates?.map((u: any) => {
@@ -210,45 +183,45 @@ export async function applyProcessingResult(memoryId: number, result: Processing
     }
   }
 
-  // Add calendar entries
-  for (const entry of result.calendarEntries) {
+  // Schedule calendar entries as events; ids derive from the memory so re-processing replaces them
+  if (result.calendarEntries.length > 0) {
     try {
-      const existing = await getJournalEntry(entry.date);
-      const content = existing ? `${existing.content}\n\n${entry.content}` : entry.content;
-      await upsertJournalEntry({ date: entry.date, content });
-      logIntelligence({
-        source: 'calendar_entry',
-        category: 'operations',
-        summary: `Calendar entry added for ${entry.date}`,
-        requestPayload: {
-          date: entry.date,
-          content: entry.content
-        }
+      const [performers, clients] = await Promise.all([getAllPerformers(), getAllClientProfiles()]);
+      const events = result.calendarEntries
+        .map((entry, index) => normalizeExtractedEvent(
+          { ...entry, description: entry.description ?? entry.content },
+          { id: `evt-memory-${memoryId}-${index}`, origin: 'memory', performers, clients, fallbackTitle: entry.content }
+        ))
+        .filter((event): event is CalendarEvent => event !== null);
+      await saveCalendarEvents(events);
+      events.forEach(event => {
+        logIntelligence({
+          source: 'calendar_entry',
+          category: 'operations',
+          summary: `Calendar event scheduled: ${event.title} (${new Date(event.start).toISOString().split('T')[0]})`,
+          requestPayload: {
+            eventId: event.id,
+            title: event.title,
+            start: event.start,
+            end: event.end,
+            attendees: event.attendees.map(attendee => attendee.name)
+          }
+        });
       });
     } catch (error) {
-      console.error(`Failed to save calendar entry for ${entry.date}:`, error);
+      console.error('Failed to schedule calendar entries:', error);
     }
   }
 
   // Add knowledge connections
   for (const conn of result.knowledgeConnections) {
     try {
-      const entity = await getEntity(conn.entity);
-      const relationships = entity?.relationships || {};
-      for (const related of conn.relatedTo) {
-        if (!relationships[conn.relationshipType]) {
-          relationships[conn.relationshipType] = [];
-        }
-        if (!relationships[conn.relationshipType].includes(related)) {
-          relationships[conn.relationshipType].push(related);
-        }
-      }
-      await saveKnowledgeEntity({
-        name: conn.entity,
-        relationships,
-        updatedAt: Date.now(),
-        createdAt: entity?.createdAt || Date.now()
-      });
+      await recordKnowledgeObservations(conn.relatedTo.map(related => ({
+        source: conn.entity,
+        target: related,
+        predicate: conn.relationshipType,
+        evidence: { sourceType: 'memory', sourceId: String(memoryId) }
+      })));
       logIntelligence({
         source: 'knowledge_connection',
         category: 'operations',
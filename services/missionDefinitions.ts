@@ -1,5 +1,6 @@
 import { MissionDefinition } from '../types';
 
+// Seed missions; the live catalog is stored in Dexie and edited on the Progression page.
 export const MISSION_DEFINITIONS: MissionDefinition[] = [
   {
     id: 'mission_pressure_diffuse_1',
@@ -63,5 +64,69 @@ export const MISSION_DEFINITIONS: MissionDefinition[] = [
   }
 ];
 
+export const builtInMissionDefinitions = (): MissionDefinition[] =>
+  MISSION_DEFINITIONS.map(mission => ({ ...mission, builtIn: true, enabled: true, weight: 1, repeatable: true }));
+
 export const DAILY_MISSION_COUNT = 4;
 
+export interface MissionRotationSettings {
+  dailyMissionCount: number;
+}
+
+const ROTATION_SETTINGS_KEY = 'mission-rotation-settings';
+const MAX_DAILY_MISSIONS = 12;
+
+export const loadMissionRotationSettings = (): MissionRotationSettings => {
+  if (typeof window === 'undefined') return { dailyMissionCount: DAILY_MISSION_COUNT };
+  try {
+    const raw = window.localStorage.getItem(ROTATION_SETTINGS_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Partial<MissionRotationSettings>) : {};
+    const count = typeof parsed.dailyMissionCount === 'number' && Number.isFinite(parsed.dailyMissionCount)
+      ? Math.round(parsed.dailyMissionCount)
+      : DAILY_MISSION_COUNT;
+    return { dailyMissionCount: Math.max(1, Math.min(MAX_DAILY_MISSIONS, count)) };
+  } catch (error) {
+    console.warn('Failed to load mission rotation settings, falling back to defaults.', error);
+    return { dailyMissionCount: DAILY_MISSION_COUNT };
+  }
+};
+
+export const saveMissionRotationSettings = (settings: MissionRotationSettings): void => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(ROTATION_SETTINGS_KEY, JSON.stringify(settings));
+  window.dispatchEvent(new Event('missions-updated'));
+};
+
+/**
+ * Checks a definition against the rest of the catalog before it is saved.
+ * Throws with a user-facing message on unknown prerequisites or a cycle.
+ */
+export const validateMissionDefinition = (definition: MissionDefinition, catalog: MissionDefinition[]): void => {
+  if (!definition.title.trim()) throw new Error('Missions need a title.');
+  if (definition.target < 1) throw new Error('Target must be at least 1.');
+  if (definition.metric === 'custom') {
+    const metric = definition.customMetric;
+    if (!metric) throw new Error('Custom missions need a metric.');
+    if (metric.predicates.some(predicate => !predicate.field.trim())) {
+      throw new Error('Every predicate needs a field.');
+    }
+  }
+
+  const byId = new Map(catalog.map(mission => [mission.id, mission]));
+  byId.set(definition.id, definition);
+  const missing = (definition.prerequisiteIds ?? []).filter(id => !byId.has(id));
+  if (missing.length) throw new Error(`Unknown prerequisite: ${missing.join(', ')}`);
+
+  // Depth-first walk up the prerequisite chain; reaching the mission again is a cycle.
+  const visit = (id: string, trail: string[]): void => {
+    (byId.get(id)?.prerequisiteIds ?? []).forEach(prerequisiteId => {
+      if (prerequisiteId === definition.id) {
+        const names = [...trail, prerequisiteId].map(step => byId.get(step)?.title ?? step);
+        throw new Error(`Prerequisites form a loop: ${names.join(' → ')}`);
+      }
+      if (!trail.includes(prerequisiteId)) visit(prerequisiteId, [...trail, prerequisiteId]);
+    });
+  };
+  visit(definition.id, [definition.id]);
+};
+
@@ -1,10 +1,35 @@
-import { ExperienceEvent, ExperienceEventType, MissionDefinition, MissionProgress, MissionMetric, MissionUpdate, PlayerProgress, SkillBranchId } from '../types';
-import { DAILY_MISSION_COUNT, MISSION_DEFINITIONS } from './missionDefinitions';
+import {
+  CustomMissionMetric,
+  ExperienceEvent,
+  ExperienceEventType,
+  IntelligenceRecord,
+  MissionDefinition,
+  MissionMetricPredicate,
+  MissionProgress,
+  MissionMetric,
+  MissionUpdate,
+  PlayerProgress,
+  SkillBranchId
+} from '../types';
+import { DAILY_MISSION_COUNT } from './missionDefinitions';
 
 const milliseconds = {
   hour: 60 * 60 * 1000
 };
 
+const DEFAULT_WEIGHT = 1;
+
+/** Something that can advance missions: an XP award or a logged intelligence record. */
+export type MissionSignal =
+  | { kind: 'experience'; event: ExperienceEvent }
+  | { kind: 'intelligence'; record: IntelligenceRecord };
+
+export interface MissionEngineOptions {
+  dailyMissionCount?: number;
+  // Injected for deterministic rotation; defaults to Math.random.
+  random?: () => number;
+}
+
 const mapExperienceTypeToMetric = (type: ExperienceEventType): MissionMetric | null => {
   switch (type) {
     case 'pressure_diffused':
@@ -26,18 +51,100 @@ const mapExperienceTypeToMetric = (type: ExperienceEventType): MissionMetric | n
   }
 };
 
-const getMissionDefinition = (missionId: string): MissionDefinition | undefined =>
-  MISSION_DEFINITIONS.find(def => def.id === missionId);
+export const readPath = (source: unknown, path: string): unknown =>
+  path
+    .split('.')
+    .filter(Boolean)
+    .reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined), source);
 
-const getAvailableDefinitions = (excludeIds: Set<string>): MissionDefinition[] =>
-  MISSION_DEFINITIONS.filter(def => !excludeIds.has(def.id));
+export const matchesPredicate = (source: unknown, predicate: MissionMetricPredicate): boolean => {
+  const actual = readPath(source, predicate.field);
+  const expected = predicate.value;
+  switch (predicate.operator) {
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'equals':
+      return String(actual) === String(expected);
+    case 'not_equals':
+      return String(actual) !== String(expected);
+    case 'contains':
+      if (Array.isArray(actual)) return actual.some(item => String(item) === String(expected));
+      return typeof actual === 'string' && actual.toLowerCase().includes(String(expected ?? '').toLowerCase());
+    case 'gte':
+      return Number(actual) >= Number(expected);
+    case 'lte':
+      return Number(actual) <= Number(expected);
+    default:
+      return false;
+  }
+};
 
-const ensureActiveMissions = (progress: PlayerProgress, now: number): PlayerProgress => {
+const matchesCustomMetric = (metric: CustomMissionMetric, signal: MissionSignal): boolean => {
+  let subject: unknown;
+  if (metric.source === 'experience') {
+    if (signal.kind !== 'experience') return false;
+    if (metric.eventTypes?.length && !metric.eventTypes.includes(signal.event.type)) return false;
+    // Mission rewards never count towards missions, or completing one could complete another.
+    if (signal.event.type === 'mission_reward') return false;
+    subject = signal.event.metadata ?? {};
+  } else {
+    if (signal.kind !== 'intelligence') return false;
+    if (metric.categories?.length && (!signal.record.category || !metric.categories.includes(signal.record.category))) return false;
+    subject = signal.record;
+  }
+  if (metric.predicates.length === 0) return true;
+  return metric.match === 'any'
+    ? metric.predicates.some(predicate => matchesPredicate(subject, predicate))
+    : metric.predicates.every(predicate => matchesPredicate(subject, predicate));
+};
+
+export const missionMatchesSignal = (definition: MissionDefinition, signal: MissionSignal): boolean => {
+  if (definition.metric === 'custom') {
+    return definition.customMetric ? matchesCustomMetric(definition.customMetric, signal) : false;
+  }
+  return signal.kind === 'experience' && mapExperienceTypeToMetric(signal.event.type) === definition.metric;
+};
+
+const pickWeighted = <T>(items: T[], weightOf: (item: T) => number, random: () => number): T | undefined => {
+  const total = items.reduce((sum, item) => sum + weightOf(item), 0);
+  if (total <= 0) return undefined;
+  let roll = random() * total;
+  for (const item of items) {
+    roll -= weightOf(item);
+    if (roll < 0) return item;
+  }
+  return items[items.length - 1];
+};
+
+/**
+ * Missions that may rotate in: enabled, weighted above zero, not already
+ * active, prerequisites completed, and not a finished one-off campaign step.
+ */
+export const getEligibleMissions = (
+  definitions: MissionDefinition[],
+  activeIds: Set<string>,
+  completedIds: Set<string>
+): MissionDefinition[] =>
+  definitions.filter(def =>
+    def.enabled !== false &&
+    (def.weight ?? DEFAULT_WEIGHT) > 0 &&
+    !activeIds.has(def.id) &&
+    (def.prerequisiteIds ?? []).every(id => completedIds.has(id)) &&
+    !(def.repeatable === false && completedIds.has(def.id))
+  );
+
+const ensureActiveMissions = (
+  progress: PlayerProgress,
+  now: number,
+  definitions: MissionDefinition[],
+  options: MissionEngineOptions
+): PlayerProgress => {
+  const definitionMap = new Map(definitions.map(def => [def.id, def]));
   const active: MissionProgress[] = [];
   const completed = [...progress.completedMissions];
 
   for (const mission of progress.activeMissions) {
-    const def = getMissionDefinition(mission.missionId);
+    const def = definitionMap.get(mission.missionId);
     if (!def) continue;
     if (mission.status !== 'active') {
       completed.push({ ...mission, status: mission.status !== 'completed' ? 'expired' : mission.status });
@@ -53,11 +160,24 @@ const ensureActiveMissions = (progress: PlayerProgress, now: number): PlayerProg
     active.push(mission);
   }
 
-  const activeIds = new Set<string>(active.map(m => m.missionId));
-  const available = getAvailableDefinitions(activeIds);
-  let index = 0;
-  while (active.length < DAILY_MISSION_COUNT && index < available.length) {
-    const definition = available[index];
+  const completedIds = new Set([
+    ...(progress.completedMissionIds ?? []),
+    ...completed.filter(mission => mission.status === 'completed').map(mission => mission.missionId)
+  ]);
+  const random = options.random ?? Math.random;
+  const slots = options.dailyMissionCount ?? DAILY_MISSION_COUNT;
+  let available = getEligibleMissions(definitions, new Set(active.map(m => m.missionId)), completedIds);
+
+  // Fill slots branch by branch, favouring the branch with the fewest active missions,
+  // then pick within that branch by weight.
+  while (active.length < slots && available.length > 0) {
+    const branchLoad = new Map<SkillBranchId, number>();
+    available.forEach(def => branchLoad.set(def.branch, active.filter(m => m.branch === def.branch).length));
+    const lightest = Math.min(...branchLoad.values());
+    const branches = Array.from(branchLoad.entries()).filter(([, load]) => load === lightest).map(([branch]) => branch);
+    const branch = branches[Math.floor(random() * branches.length)] ?? branches[0];
+    const definition = pickWeighted(available.filter(def => def.branch === branch), def => def.weight ?? DEFAULT_WEIGHT, random);
+    if (!definition) break;
     active.push({
       id: `${definition.id}-${now}`,
       missionId: definition.id,
@@ -68,13 +188,14 @@ const ensureActiveMissions = (progress: PlayerProgress, now: number): PlayerProg
       branch: definition.branch,
       rewardXp: definition.rewardXp
     });
-    index += 1;
+    available = available.filter(def => def.id !== definition.id);
   }
 
   return {
     ...progress,
     activeMissions: active,
     completedMissions: completed.slice(-30),
+    completedMissionIds: Array.from(completedIds),
     missionRefreshAt: now
   };
 };
@@ -85,22 +206,26 @@ export interface MissionProcessingResult {
   missionUpdates: MissionUpdate[];
 }
 
-export const processMissions = (progress: PlayerProgress, experienceEvent: ExperienceEvent): MissionProcessingResult => {
+export const processMissionSignal = (
+  progress: PlayerProgress,
+  signal: MissionSignal,
+  definitions: MissionDefinition[],
+  options: MissionEngineOptions = {}
+): MissionProcessingResult => {
   const now = Date.now();
-  let updated = ensureActiveMissions(progress, now);
-  const metric = mapExperienceTypeToMetric(experienceEvent.type);
-  if (!metric) {
-    return { progress: updated, rewardEvents: [], missionUpdates: [] };
-  }
+  const definitionMap = new Map(definitions.map(def => [def.id, def]));
+  let updated = ensureActiveMissions(progress, now, definitions, options);
 
   const rewardEvents: ExperienceEvent[] = [];
   const missionUpdates: MissionUpdate[] = [];
   const active: MissionProgress[] = [];
   const completed = [...updated.completedMissions];
+  const completedIds = new Set(updated.completedMissionIds ?? []);
+  const actorIds = signal.kind === 'experience' ? signal.event.actorIds : [];
   let totalRewardXp = 0;
 
   for (const mission of updated.activeMissions) {
-    const def = getMissionDefinition(mission.missionId);
+    const def = definitionMap.get(mission.missionId);
     if (!def) continue;
 
     if (mission.status !== 'active') {
@@ -108,7 +233,7 @@ export const processMissions = (progress: PlayerProgress, experienceEvent: Exper
       continue;
     }
 
-    if (def.metric !== metric) {
+    if (!missionMatchesSignal(def, signal)) {
       active.push(mission);
       continue;
     }
@@ -122,7 +247,7 @@ export const processMissions = (progress: PlayerProgress, experienceEvent: Exper
         branch: def.branch,
         type: 'mission_reward',
         xp: rewardXp,
-        actorIds: experienceEvent.actorIds,
+        actorIds,
         context: 'system',
         metadata: { missionId: mission.missionId, title: def.title },
         timestamp: now
@@ -142,6 +267,7 @@ export const processMissions = (progress: PlayerProgress, experienceEvent: Exper
         status: 'completed',
         completedAt: now
       });
+      completedIds.add(mission.missionId);
     } else {
       missionUpdates.push({
         missionId: mission.missionId,
@@ -162,7 +288,8 @@ export const processMissions = (progress: PlayerProgress, experienceEvent: Exper
   updated = {
     ...updated,
     activeMissions: active,
-    completedMissions: completed.slice(-30)
+    completedMissions: completed.slice(-30),
+    completedMissionIds: Array.from(completedIds)
   };
 
   if (totalRewardXp > 0) {
@@ -179,7 +306,16 @@ export const processMissions = (progress: PlayerProgress, experienceEvent: Exper
     });
   }
 
-  updated = ensureActiveMissions(updated, now);
+  // Completions may have unlocked the next step of a campaign.
+  updated = ensureActiveMissions(updated, now, definitions, options);
 
   return { progress: updated, rewardEvents, missionUpdates };
 };
+
+export const processMissions = (
+  progress: PlayerProgress,
+  experienceEvent: ExperienceEvent,
+  definitions: MissionDefinition[],
+  options: MissionEngineOptions = {}
+): MissionProcessingResult =>
+  processMissionSignal(progress, { kind: 'experience', event: experienceEvent }, definitions, options);
@@ -0,0 +1,134 @@
+/**
+ * Incremental scanner for a streamed JSON object. It consumes text chunks as
+ * they arrive and exposes the string values of selected top-level keys,
+ * including a value that is still mid-string, so the UI can render fields
+ * before the closing brace shows up. Nested objects and arrays are skipped.
+ */
+
+type Container = '{' | '[';
+type StringRole = 'key' | 'tracked' | 'ignored';
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t'
+};
+
+export interface PartialJsonFieldParser<K extends string> {
+  /** Feeds the next chunk and returns the current value of every field seen so far. */
+  push: (chunk: string) => Partial<Record<K, string>>;
+  snapshot: () => Partial<Record<K, string>>;
+  /** Raw text received so far. */
+  text: () => string;
+}
+
+export const createPartialJsonFieldParser = <K extends string>(fields: readonly K[]): PartialJsonFieldParser<K> => {
+  const tracked = new Set<string>(fields);
+  const values: Partial<Record<K, string>> = {};
+  const stack: Container[] = [];
+  let raw = '';
+
+  let inString = false;
+  let role: StringRole = 'ignored';
+  let escaping = false;
+  let unicodeDigits: string | null = null;
+  let buffer = '';
+  let expectingKey = false;
+  let currentKey: string | null = null;
+
+  const atTopLevelObject = () => stack.length === 1 && stack[0] === '{';
+
+  const appendToString = (value: string) => {
+    if (role === 'ignored') return;
+    buffer += value;
+    if (role === 'tracked' && currentKey) {
+      values[currentKey as K] = buffer;
+    }
+  };
+
+  const consume = (char: string) => {
+    if (inString) {
+      if (unicodeDigits !== null) {
+        unicodeDigits += char;
+        if (unicodeDigits.length === 4) {
+          const code = parseInt(unicodeDigits, 16);
+          unicodeDigits = null;
+          if (!Number.isNaN(code)) appendToString(String.fromCharCode(code));
+        }
+        return;
+      }
+      if (escaping) {
+        escaping = false;
+        if (char === 'u') {
+          unicodeDigits = '';
+          return;
+        }
+        appendToString(SIMPLE_ESCAPES[char] ?? char);
+        return;
+      }
+      if (char === '\\') {
+        escaping = true;
+        return;
+      }
+      if (char === '"') {
+        inString = false;
+        if (role === 'key') {
+          currentKey = buffer;
+        }
+        return;
+      }
+      appendToString(char);
+      return;
+    }
+
+    switch (char) {
+      case '"':
+        inString = true;
+        buffer = '';
+        if (atTopLevelObject() && expectingKey) {
+          role = 'key';
+        } else if (atTopLevelObject() && currentKey !== null && tracked.has(currentKey)) {
+          role = 'tracked';
+          values[currentKey as K] = '';
+        } else {
+          role = 'ignored';
+        }
+        return;
+      case '{':
+      case '[':
+        stack.push(char);
+        if (atTopLevelObject()) expectingKey = true;
+        return;
+      case '}':
+      case ']':
+        stack.pop();
+        return;
+      case ':':
+        if (atTopLevelObject()) expectingKey = false;
+        return;
+      case ',':
+        if (atTopLevelObject()) {
+          expectingKey = true;
+          currentKey = null;
+        }
+        return;
+      default:
+        return;
+    }
+  };
+
+  return {
+    push: chunk => {
+      raw += chunk;
+      for (const char of chunk) consume(char);
+      return { ...values };
+    },
+    snapshot: () => ({ ...values }),
+    text: () => raw
+  };
+};
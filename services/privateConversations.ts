@@ -0,0 +1,224 @@
+import {
+  PerformerInteractionEvent,
+  PerformerProfile,
+  PerformerSecret,
+  PrivateConversation,
+  PrivateConversationMember,
+  PrivateMessage
+} from '../types';
+
+const createMessageId = (timestamp: number) => `msg_${timestamp}_${Math.random().toString(36).slice(2, 7)}`;
+
+const syncMemberIds = (conversation: PrivateConversation): PrivateConversation => ({
+  ...conversation,
+  memberIds: conversation.members.filter(member => member.leftAt === undefined).map(member => member.performerId)
+});
+
+export const activeMembers = (conversation: PrivateConversation): PrivateConversationMember[] =>
+  conversation.members.filter(member => member.leftAt === undefined);
+
+export const isActiveMember = (conversation: PrivateConversation, performerId: string): boolean =>
+  conversation.memberIds.includes(performerId);
+
+export const createPrivateConversation = (
+  creatorId: string,
+  memberIds: string[],
+  options: { title?: string; timestamp?: number } = {}
+): PrivateConversation => {
+  const timestamp = options.timestamp ?? Date.now();
+  const ids = Array.from(new Set([creatorId, ...memberIds]));
+  return {
+    id: `dm_${ids.join('_')}_${timestamp}`,
+    kind: ids.length > 2 ? 'group' : 'direct',
+    title: options.title?.trim() || undefined,
+    members: ids.map(performerId => ({ performerId, joinedAt: timestamp, lastReadAt: timestamp })),
+    memberIds: ids,
+    messages: [],
+    createdAt: timestamp,
+    updatedAt: timestamp
+  };
+};
+
+/**
+ * Adds a member and records the join in the timeline. Adding someone to a
+ * direct thread turns it into a group; rejoining reopens the old membership.
+ * History from before the join is visible but never counts as unread.
+ */
+export const addConversationMember = (
+  conversation: PrivateConversation,
+  performerId: string,
+  performerName: string,
+  timestamp = Date.now()
+): PrivateConversation => {
+  if (isActiveMember(conversation, performerId)) return conversation;
+  const existing = conversation.members.find(member => member.performerId === performerId);
+  const members = existing
+    ? conversation.members.map(member => (member.performerId === performerId ? { ...member, joinedAt: timestamp, leftAt: undefined, lastReadAt: timestamp } : member))
+    : [...conversation.members, { performerId, joinedAt: timestamp, lastReadAt: timestamp }];
+  const joinMessage: PrivateMessage = {
+    id: createMessageId(timestamp),
+    senderId: performerId,
+    content: `${performerName} joined the thread.`,
+    timestamp,
+    kind: 'join'
+  };
+  return syncMemberIds({
+    ...conversation,
+    kind: 'group',
+    members,
+    messages: [...conversation.messages, joinMessage],
+    updatedAt: timestamp
+  });
+};
+
+export const removeConversationMember = (
+  conversation: PrivateConversation,
+  performerId: string,
+  performerName: string,
+  timestamp = Date.now()
+): PrivateConversation => {
+  if (!isActiveMember(conversation, performerId)) return conversation;
+  const leaveMessage: PrivateMessage = {
+    id: createMessageId(timestamp),
+    senderId: performerId,
+    content: `${performerName} left the thread.`,
+    timestamp,
+    kind: 'leave'
+  };
+  return syncMemberIds({
+    ...conversation,
+    members: conversation.members.map(member => (member.performerId === performerId ? { ...member, leftAt: timestamp } : member)),
+    messages: [...conversation.messages, leaveMessage],
+    updatedAt: timestamp
+  });
+};
+
+/** Moves a member's read cursor up to the newest message. Returns the same object when nothing changed. */
+export const markConversationRead = (conversation: PrivateConversation, performerId: string): PrivateConversation => {
+  const latest = conversation.messages[conversation.messages.length - 1]?.timestamp ?? 0;
+  const member = conversation.members.find(entry => entry.performerId === performerId);
+  if (!member || member.lastReadAt >= latest) return conversation;
+  return {
+    ...conversation,
+    members: conversation.members.map(entry => (entry.performerId === performerId ? { ...entry, lastReadAt: latest } : entry))
+  };
+};
+
+export const unreadCount = (conversation: PrivateConversation, performerId: string): number => {
+  const member = conversation.members.find(entry => entry.performerId === performerId);
+  if (!member || member.leftAt !== undefined) return 0;
+  return conversation.messages.filter(message =>
+    message.timestamp > member.lastReadAt
+    && message.senderId !== performerId
+    && message.kind !== 'join'
+    && message.kind !== 'leave'
+  ).length;
+};
+
+export const isSecretVisibleTo = (secret: PerformerSecret, performerId: string): boolean =>
+  secret.performerId === performerId || secret.knownBy.includes(performerId);
+
+/** Secret messages only show their content to members who know the secret. */
+export const isMessageVisibleTo = (
+  message: PrivateMessage,
+  performerId: string,
+  secrets: Map<string, PerformerSecret>
+): boolean => {
+  if (message.kind !== 'secret' || !message.secretId) return true;
+  const secret = secrets.get(message.secretId);
+  return secret ? isSecretVisibleTo(secret, performerId) : false;
+};
+
+/** Everyone present learns a secret shared in the thread; later joiners do not. */
+export const shareSecretInConversation = (
+  conversation: PrivateConversation,
+  secret: PerformerSecret,
+  senderId: string,
+  timestamp = Date.now()
+): { conversation: PrivateConversation; secret: PerformerSecret } => {
+  const learners = conversation.memberIds.filter(id => id !== secret.performerId && !secret.knownBy.includes(id));
+  const message: PrivateMessage = {
+    id: createMessageId(timestamp),
+    senderId,
+    content: secret.content,
+    timestamp,
+    kind: 'secret',
+    secretId: secret.id
+  };
+  return {
+    conversation: { ...conversation, messages: [...conversation.messages, message], updatedAt: timestamp },
+    secret: { ...secret, knownBy: [...secret.knownBy, ...learners] }
+  };
+};
+
+export const conversationLabel = (conversation: PrivateConversation, lookup: Map<string, PerformerProfile>): string => {
+  if (conversation.title) return conversation.title;
+  const names = conversation.memberIds.map(id => lookup.get(id)?.name ?? 'Unknown');
+  return conversation.kind === 'direct' ? names.join(' ↔ ') : names.join(', ');
+};
+
+/**
+ * Picks who answers a message: an active member named in the text, otherwise
+ * whoever has been quiet the longest so a group reply rotates.
+ */
+export const pickResponderId = (
+  conversation: PrivateConversation,
+  speakerId: string,
+  text: string,
+  lookup: Map<string, PerformerProfile>
+): string | null => {
+  const candidates = conversation.memberIds.filter(id => id !== speakerId);
+  if (!candidates.length) return null;
+  const lower = text.toLowerCase();
+  const mentioned = candidates.find(id => {
+    const name = lookup.get(id)?.name;
+    return name ? lower.includes(name.toLowerCase()) : false;
+  });
+  if (mentioned) return mentioned;
+  const lastSpoke = (id: string) => {
+    for (let index = conversation.messages.length - 1; index >= 0; index--) {
+      const message = conversation.messages[index];
+      if (message.senderId === id && (message.kind ?? 'message') === 'message') return message.timestamp;
+    }
+    return 0;
+  };
+  return candidates.reduce((quietest, id) => (lastSpoke(id) < lastSpoke(quietest) ? id : quietest), candidates[0]);
+};
+
+/** One private interaction per speaker–member pair so pair summaries stay two-party. */
+export const buildDmInteractionEvents = (
+  conversation: PrivateConversation,
+  message: PrivateMessage,
+  targetIds: string[],
+  nameOf: (performerId: string) => string,
+  details: Pick<PerformerInteractionEvent, 'sentiment' | 'narrativeTags' | 'intrigueTags'>
+): PerformerInteractionEvent[] =>
+  targetIds.map(targetId => ({
+    id: `dm-${conversation.id}-${message.id}${conversation.kind === 'group' ? `-${targetId}` : ''}`,
+    conversationId: conversation.id,
+    speakerId: message.senderId,
+    speakerName: nameOf(message.senderId),
+    speakerType: 'performer',
+    targetIds: [targetId],
+    targetNames: [nameOf(targetId)],
+    timestamp: message.timestamp,
+    messageId: message.id,
+    ...details,
+    context: 'private',
+    origin: 'dm'
+  }));
+
+/** Converts a pre-group `participant1Id`/`participant2Id` record; already-migrated rows pass through. */
+export const upgradeLegacyConversation = (record: any): PrivateConversation => {
+  if (Array.isArray(record.members)) return record as PrivateConversation;
+  const { participant1Id, participant2Id, ...rest } = record;
+  const ids = [participant1Id, participant2Id].filter((id): id is string => typeof id === 'string' && id.length > 0);
+  const readAt = record.updatedAt ?? record.createdAt ?? 0;
+  return {
+    ...rest,
+    kind: 'direct',
+    members: ids.map(performerId => ({ performerId, joinedAt: record.createdAt ?? 0, lastReadAt: readAt })),
+    memberIds: ids,
+    messages: Array.isArray(record.messages) ? record.messages : []
+  };
+};
@@ -1,14 +1,26 @@
 import {
   addExperienceEvents,
+  addXpTransactions,
+  commitXpLedgerChange,
+  getMissionDefinitions,
   getPlayerProgress,
+  getXpTransactions,
   savePlayerProgress
 } from './db';
-import { ExperienceEvent, ExperienceEventType, MissionDefinition, MissionProgress, MissionSummary, PlayerProgress, SkillReward, SkillBranchId } from '../types';
+import { ExperienceEvent, ExperienceEventType, IntelligenceRecord, MissionDefinition, MissionProgress, MissionSummary, MissionUpdate, PlayerProgress, SkillReward, SkillBranchId, XpTransaction } from '../types';
 import { SKILLS, getRankForXp, getSkillDefinition } from './skills';
-import { processMissions } from './missionEngine';
+import { processMissionSignal, processMissions } from './missionEngine';
 import { logIntelligence } from './intelligenceLog';
-import { MISSION_DEFINITIONS } from './missionDefinitions';
-import { auditExperienceAward, noteExperienceAward } from './watcher';
+import { loadMissionRotationSettings } from './missionDefinitions';
+import { auditExperienceAward, noteWatcherVerdict } from './watcher';
+import {
+  SKILL_BRANCH_IDS,
+  applyXpTransactions,
+  collectVoidCascade,
+  computeLedgerBalances,
+  createReversal,
+  createXpTransaction
+} from './xpLedger';
 
 const createId = () => {
   if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
@@ -24,9 +36,13 @@ interface AwardExperienceOptions {
   actorIds: string[];
   context?: 'public' | 'private' | 'system';
   metadata?: Record<string, unknown>;
+  // Recorded on the ledger transaction; defaults to the event type.
+  reason?: string;
 }
 
 const XP_MULTIPLIER_REWARD = 'xp_multiplier';
+// Branch XP the test-mode grant tops every branch up to.
+const TEST_MODE_BRANCH_XP = 2500;
 
 const getXpMultiplier = (rewards: SkillReward[]): number => {
   return rewards
@@ -46,19 +62,46 @@ const mergeRewards = (current: SkillReward[], fresh: SkillReward[]): SkillReward
   return current;
 };
 
+const missionRewardTransactions = (rewardEvents: ExperienceEvent[], parentId?: string): XpTransaction[] =>
+  rewardEvents.map(reward => createXpTransaction({
+    kind: 'mission_reward',
+    amounts: { [reward.branch]: reward.xp },
+    reason: `Mission complete: ${String(reward.metadata?.title ?? reward.metadata?.missionId ?? 'mission')}`,
+    actorIds: reward.actorIds,
+    experienceEventId: reward.id,
+    missionId: typeof reward.metadata?.missionId === 'string' ? reward.metadata.missionId : undefined,
+    parentId,
+    timestamp: reward.timestamp
+  }));
+
 export const awardExperience = async (options: AwardExperienceOptions): Promise<{ progress: PlayerProgress; event: ExperienceEvent; gainedXp: number; missionRewards: ExperienceEvent[]; missionUpdates: MissionUpdate[] }> => {
-  const progress = await getPlayerProgress();
+  const [progress, missionDefinitions] = await Promise.all([getPlayerProgress(), getMissionDefinitions()]);
   const multiplier = getXpMultiplier(progress.earnedRewards);
   const xp = Math.round(options.baseXp * multiplier);
   const timestamp = Date.now();
 
-  const auditVerdict = auditExperienceAward({
+  const auditVerdict = await auditExperienceAward({
     ...options,
     progress,
     timestamp
   });
 
+  const watcherVerdict = { status: auditVerdict.status, reasons: auditVerdict.reasons };
+  const reason = options.reason ?? options.type.replace(/_/g, ' ');
+
   if (auditVerdict.status === 'block') {
+    await addXpTransactions([
+      createXpTransaction({
+        kind: 'award',
+        status: 'blocked',
+        amounts: { [options.branch]: xp },
+        reason,
+        actorIds: options.actorIds,
+        watcherVerdict,
+        metadata: options.metadata,
+        timestamp
+      })
+    ]);
     logIntelligence({
       source: 'post_processing',
       category: 'operations',
@@ -90,27 +133,28 @@ export const awardExperience = async (options: AwardExperienceOptions): Promise<
     timestamp
   };
 
-  let newProgress: PlayerProgress = {
-    ...progress,
-    totalXp: progress.totalXp + xp,
-    branchXp: {
-      ...progress.branchXp,
-      [options.branch]: (progress.branchXp[options.branch] ?? 0) + xp
-    }
-  };
+  const transaction = createXpTransaction({
+    kind: 'award',
+    amounts: { [options.branch]: xp },
+    reason,
+    actorIds: options.actorIds,
+    experienceEventId: event.id,
+    watcherVerdict,
+    metadata: options.metadata,
+    timestamp
+  });
+  let newProgress = applyXpTransactions(progress, [transaction]);
   newProgress.rankId = getRankForXp(newProgress.totalXp).id;
 
-  const missionResult = processMissions(newProgress, event);
+  // The mission engine credits rewards itself; the ledger records them against this award.
+  const missionResult = processMissions(newProgress, event, missionDefinitions, loadMissionRotationSettings());
   newProgress = missionResult.progress;
   newProgress.rankId = getRankForXp(newProgress.totalXp).id;
 
   await addExperienceEvents([event, ...missionResult.rewardEvents]);
+  await addXpTransactions([transaction, ...missionRewardTransactions(missionResult.rewardEvents, transaction.id)]);
   await savePlayerProgress(newProgress);
-  noteExperienceAward({
-    ...options,
-    progress: newProgress,
-    timestamp
-  });
+  noteWatcherVerdict(auditVerdict).catch(error => console.error('Failed to note XP award with the Watcher:', error));
 
   logIntelligence({
     source: options.context === 'private' ? 'dm_response' : 'chat_generate',
@@ -132,6 +176,28 @@ export const awardExperience = async (options: AwardExperienceOptions): Promise<
   return { progress: newProgress, event, gainedXp: xp, missionRewards: missionResult.rewardEvents, missionUpdates: missionResult.missionUpdates };
 };
 
+/**
+ * Advances custom missions that count intelligence records. Nothing is logged
+ * back to the intelligence log, so a mission-category metric cannot feed itself.
+ */
+export const advanceMissionsFromIntelligence = async (record: IntelligenceRecord): Promise<MissionUpdate[]> => {
+  const missionDefinitions = await getMissionDefinitions();
+  if (!missionDefinitions.some(def => def.metric === 'custom' && def.customMetric?.source === 'intelligence')) return [];
+
+  const progress = await getPlayerProgress();
+  const result = processMissionSignal(progress, { kind: 'intelligence', record }, missionDefinitions, loadMissionRotationSettings());
+  if (result.missionUpdates.length === 0) return [];
+
+  const updated = { ...result.progress, rankId: getRankForXp(result.progress.totalXp).id };
+  await addExperienceEvents(result.rewardEvents);
+  await addXpTransactions(missionRewardTransactions(result.rewardEvents).map(transaction => ({
+    ...transaction,
+    metadata: { ...transaction.metadata, intelligenceRecordId: record.id }
+  })));
+  await savePlayerProgress(updated);
+  return result.missionUpdates;
+};
+
 export const unlockSkill = async (skillId: string): Promise<{ progress: PlayerProgress; unlocked: boolean; reason?: string }> => {
   const definition = getSkillDefinition(skillId);
   if (!definition) {
@@ -185,26 +251,98 @@ export const computeSkillAvailability = async () => {
   }));
 };
 
+/**
+ * Re-derives rank, unlocked skills and their rewards from branch XP. Skills
+ * whose cost or prerequisites are no longer met are relocked, lowest tier first.
+ */
+const reconcileProgress = (progress: PlayerProgress): PlayerProgress => {
+  const kept = new Set<string>();
+  [...SKILLS]
+    .sort((a, b) => a.tier - b.tier)
+    .forEach(skill => {
+      if (!progress.unlockedSkillIds.includes(skill.id)) return;
+      if (skill.prerequisites && !skill.prerequisites.every(req => kept.has(req))) return;
+      if ((progress.branchXp[skill.branch] ?? 0) < skill.cost) return;
+      kept.add(skill.id);
+    });
+  const unlockedSkillIds = progress.unlockedSkillIds.filter(id => kept.has(id));
+  return {
+    ...progress,
+    rankId: getRankForXp(progress.totalXp).id,
+    unlockedSkillIds,
+    earnedRewards: mergeRewards([], unlockedSkillIds.flatMap(id => getSkillDefinition(id)?.rewards ?? []))
+  };
+};
+
+const deriveFromLedger = (progress: PlayerProgress, transactions: XpTransaction[]): PlayerProgress => {
+  const branchXp = computeLedgerBalances(transactions);
+  const totalXp = SKILL_BRANCH_IDS.reduce((sum, branch) => sum + branchXp[branch], 0);
+  return reconcileProgress({ ...progress, branchXp, totalXp });
+};
+
+/** Replays the whole ledger onto the stored progress and saves the result. */
+export const rederivePlayerProgress = async (): Promise<PlayerProgress> => {
+  const [progress, transactions] = await Promise.all([getPlayerProgress(), getXpTransactions()]);
+  const derived = deriveFromLedger(progress, transactions);
+  await commitXpLedgerChange({ transactions: [], progress: derived });
+  return derived;
+};
+
+/**
+ * Voids a posted transaction and the mission rewards it triggered by posting
+ * reversals, then re-derives progress. Mission progress itself is not rewound.
+ */
+export const voidXpTransaction = async (id: string, reason: string): Promise<{ progress: PlayerProgress; voided: XpTransaction[] }> => {
+  const [progress, transactions] = await Promise.all([getPlayerProgress(), getXpTransactions()]);
+  const target = transactions.find(transaction => transaction.id === id);
+  if (!target) throw new Error('Transaction not found.');
+  if (target.status !== 'posted' || target.kind === 'reversal') {
+    throw new Error(target.kind === 'reversal' ? 'Reversals cannot be voided.' : `Transaction is already ${target.status}.`);
+  }
+
+  const now = Date.now();
+  const cascade = collectVoidCascade(target, transactions);
+  const changes: XpTransaction[] = [];
+  cascade.forEach(original => {
+    const reversal = createReversal(original, original.id === id ? reason : `Voided with ${target.id}: ${reason}`, now);
+    changes.push({ ...original, status: 'voided', voidedById: reversal.id, voidReason: reason }, reversal);
+  });
+
+  const ledger = [...transactions.filter(transaction => !cascade.includes(transaction)), ...changes];
+  const derived = deriveFromLedger(progress, ledger);
+  await commitXpLedgerChange({ transactions: changes, progress: derived });
+  logIntelligence({
+    source: 'post_processing',
+    category: 'operations',
+    summary: `Voided XP transaction (${target.xp} XP): ${reason}`,
+    requestPayload: { transactionId: id, reason, cascade: cascade.map(transaction => transaction.id) },
+    responsePayload: { totalXp: derived.totalXp, relockedSkills: progress.unlockedSkillIds.filter(skillId => !derived.unlockedSkillIds.includes(skillId)) }
+  });
+  return { progress: derived, voided: cascade };
+};
+
+/** Posts an administrative grant; it bypasses the Watcher but is voidable like any award. */
+export const grantXp = async (amounts: Partial<Record<SkillBranchId, number>>, reason: string): Promise<PlayerProgress> => {
+  const progress = await getPlayerProgress();
+  const transaction = createXpTransaction({ kind: 'grant', amounts, reason });
+  if (transaction.xp === 0 && transaction.postings.length <= 1) return progress;
+  const updated = reconcileProgress(applyXpTransactions(progress, [transaction]));
+  await commitXpLedgerChange({ transactions: [transaction], progress: updated });
+  return updated;
+};
+
 export const unlockAllSkillsForTesting = async (): Promise<PlayerProgress> => {
   const progress = await getPlayerProgress();
-  const allSkillIds = SKILLS.map(skill => skill.id);
-  const mergedRewards = mergeRewards([...progress.earnedRewards], SKILLS.flatMap(skill => skill.rewards));
-  const branchXp = { ...progress.branchXp } as PlayerProgress['branchXp'];
-  Object.keys(branchXp).forEach(key => {
-    branchXp[key as keyof PlayerProgress['branchXp']] = Math.max(
-      branchXp[key as keyof PlayerProgress['branchXp']] ?? 0,
-      2500
-    );
-  });
+  const topUp = Object.fromEntries(
+    SKILL_BRANCH_IDS.map(branch => [branch, Math.max(0, TEST_MODE_BRANCH_XP - (progress.branchXp[branch] ?? 0))])
+  ) as Partial<Record<SkillBranchId, number>>;
+  const granted = await grantXp(topUp, 'Test mode: unlock everything');
 
-  const newTotalXp = Math.max(progress.totalXp, 7500);
+  const allSkillIds = SKILLS.map(skill => skill.id);
   const updated: PlayerProgress = {
-    ...progress,
-    totalXp: newTotalXp,
-    branchXp,
-    unlockedSkillIds: Array.from(new Set([...progress.unlockedSkillIds, ...allSkillIds])),
-    earnedRewards: mergedRewards,
-    rankId: getRankForXp(newTotalXp).id,
+    ...granted,
+    unlockedSkillIds: Array.from(new Set([...granted.unlockedSkillIds, ...allSkillIds])),
+    earnedRewards: mergeRewards([...granted.earnedRewards], SKILLS.flatMap(skill => skill.rewards)),
     updatedAt: Date.now()
   };
 
@@ -213,8 +351,8 @@ export const unlockAllSkillsForTesting = async (): Promise<PlayerProgress> => {
 };
 
 export const getMissionSummary = async (): Promise<MissionSummary> => {
-  const progress = await getPlayerProgress();
-  const definitionMap = new Map(MISSION_DEFINITIONS.map(def => [def.id, def]));
+  const [progress, missionDefinitions] = await Promise.all([getPlayerProgress(), getMissionDefinitions()]);
+  const definitionMap = new Map(missionDefinitions.map(def => [def.id, def]));
   const active = (progress.activeMissions || [])
     .map(mission => {
       const definition = definitionMap.get(mission.missionId);
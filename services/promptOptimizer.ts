@@ -0,0 +1,192 @@
+import { getAllPerformers, getPerformerById, savePerformer } from './db';
+import { generateJsonCompletion, getStoredSystemInstruction, saveSystemInstruction } from './aiService';
+import { HrmrExample } from './hrmrDataset';
+
+// Grades at or above / at or below these scores are the positive / negative evidence.
+const HIGH_SCORE = 7;
+const LOW_SCORE = 4;
+const MAX_SAMPLES_PER_SIDE = 5;
+const MAX_SAMPLE_CHARS = 900;
+
+export type PromptTargetKind = 'system' | 'performer';
+
+export interface ModuleGradeStat {
+  module: string;
+  count: number;
+  averageScore: number;
+}
+
+export interface PromptOptimizerSegment {
+  key: string;
+  kind: PromptTargetKind;
+  // Performer id for performer segments.
+  targetId: string | null;
+  label: string;
+  currentPrompt: string;
+  high: HrmrExample[];
+  low: HrmrExample[];
+  total: number;
+  moduleStats: ModuleGradeStat[];
+}
+
+export interface PromptRevisionProposal {
+  segmentKey: string;
+  kind: PromptTargetKind;
+  targetId: string | null;
+  label: string;
+  before: string;
+  after: string;
+  rationale: string;
+  changes: string[];
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+const computeModuleStats = (examples: HrmrExample[]): ModuleGradeStat[] => {
+  const totals = new Map<string, { count: number; sum: number }>();
+  examples.forEach(example => {
+    example.modulesUsed.forEach(module => {
+      const entry = totals.get(module) ?? { count: 0, sum: 0 };
+      totals.set(module, { count: entry.count + 1, sum: entry.sum + example.score });
+    });
+  });
+  return Array.from(totals.entries())
+    .map(([module, { count, sum }]) => ({ module, count, averageScore: Math.round((sum / count) * 10) / 10 }))
+    .sort((a, b) => a.averageScore - b.averageScore);
+};
+
+/**
+ * Splits graded replies by who produced them — the core agent (steered by
+ * the custom system instruction) or each performer (steered by its prompt).
+ * Only segments with both praised and criticized replies are returned.
+ */
+export const buildOptimizerSegments = async (examples: HrmrExample[]): Promise<PromptOptimizerSegment[]> => {
+  const performers = new Map((await getAllPerformers()).map(performer => [performer.id, performer]));
+  const groups = new Map<string, HrmrExample[]>();
+  examples.forEach(example => {
+    // Replies from deleted performers have no prompt left to tune.
+    if (example.performerId && !performers.has(example.performerId)) return;
+    const key = example.performerId ? `performer:${example.performerId}` : 'system';
+    groups.set(key, [...(groups.get(key) ?? []), example]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => {
+      const performerId = key === 'system' ? null : key.slice('performer:'.length);
+      const performer = performerId ? performers.get(performerId) : undefined;
+      const byScore = [...group].sort((a, b) => b.score - a.score);
+      return {
+        key,
+        kind: performer ? 'performer' as const : 'system' as const,
+        targetId: performerId,
+        label: performer ? performer.name : 'Core agent (system instruction)',
+        currentPrompt: performer ? performer.prompt : (getStoredSystemInstruction() ?? ''),
+        high: byScore.filter(example => example.score >= HIGH_SCORE),
+        low: byScore.filter(example => example.score <= LOW_SCORE).reverse(),
+        total: group.length,
+        moduleStats: computeModuleStats(group)
+      };
+    })
+    .filter(segment => segment.high.length > 0 && segment.low.length > 0)
+    .sort((a, b) => b.total - a.total);
+};
+
+const formatSamples = (examples: HrmrExample[]) =>
+  examples
+    .slice(0, MAX_SAMPLES_PER_SIDE)
+    .map((example, index) => {
+      const prompt = example.prompt ? `User: ${example.prompt.slice(0, 300)}\n` : '';
+      return `#${index + 1} [${example.grade}; modules: ${example.modulesUsed.join(', ') || 'none'}]\n${prompt}Reply: ${example.response.slice(0, MAX_SAMPLE_CHARS)}`;
+    })
+    .join('\n\n');
+
+export const proposePromptRevision = async (segment: PromptOptimizerSegment): Promise<PromptRevisionProposal> => {
+  const moduleLines = segment.moduleStats
+    .map(stat => `- ${stat.module}: avg ${stat.averageScore}/10 over ${stat.count} replies`)
+    .join('\n');
+
+  const prompt = `You tune the instructions that steer an AI ${segment.kind === 'performer' ? 'persona' : 'assistant'}. A human graded its replies from A+ (best) to F.
+
+CURRENT INSTRUCTIONS:
+"""
+${segment.currentPrompt || '(empty)'}
+"""
+
+MODULE AVERAGES (lowest first):
+${moduleLines || '- none recorded'}
+
+HIGHLY GRADED REPLIES:
+${formatSamples(segment.high)}
+
+POORLY GRADED REPLIES:
+${formatSamples(segment.low)}
+
+Identify what distinguishes the high-graded replies from the low-graded ones and revise the instructions to produce more of the former. Keep everything that still applies, keep the author's voice, and make the smallest edits that address the pattern. Do not mention grades or this review.
+
+Respond in JSON:
+{"revisedPrompt": "full revised instructions", "rationale": "2-3 sentences", "changes": ["short description of each edit"]}`;
+
+  const json = await generateJsonCompletion<{ revisedPrompt?: string; rationale?: string; changes?: unknown }>(prompt, {
+    temperature: 0.4
+  });
+  const after = typeof json.revisedPrompt === 'string' ? json.revisedPrompt.trim() : '';
+  if (!after) {
+    throw new Error('The optimizer did not return a revised prompt.');
+  }
+
+  return {
+    segmentKey: segment.key,
+    kind: segment.kind,
+    targetId: segment.targetId,
+    label: segment.label,
+    before: segment.currentPrompt,
+    after,
+    rationale: typeof json.rationale === 'string' ? json.rationale.trim() : '',
+    changes: Array.isArray(json.changes) ? json.changes.filter((change): change is string => typeof change === 'string') : []
+  };
+};
+
+export const applyPromptRevision = async (proposal: PromptRevisionProposal): Promise<void> => {
+  if (proposal.kind === 'system') {
+    saveSystemInstruction(proposal.after);
+    return;
+  }
+  const performer = proposal.targetId ? await getPerformerById(proposal.targetId) : undefined;
+  if (!performer) {
+    throw new Error('Performer no longer exists.');
+  }
+  await savePerformer({ ...performer, prompt: proposal.after });
+};
+
+/** Line-level LCS diff, enough for side-by-side prompt review. */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i += 1;
+      j += 1;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+};
@@ -10,7 +10,7 @@ import {
   getPerformerById,
   savePerformer
 } from './db';
-import { loadAiSettings } from './aiService';
+import { generateJsonCompletion } from './aiService';
 
 interface RelationshipAnalysis {
   relationships: Array<{
@@ -57,11 +57,6 @@ export async function analyzeRelationshipDynamics(
   conversationId: string,
   messageId: string
 ): Promise<RelationshipAnalysis | null> {
-  const settings = loadAiSettings();
-  const apiKey = settings.openaiApiKey;
-  
-  if (!apiKey) return null;
-
   const performers = await Promise.all([speakerId, ...targetIds].map(id => getPerformerById(id)));
   const performerNames = performers.filter(Boolean).map(p => p!.name).join(', ');
 
@@ -88,23 +83,12 @@ Return JSON:
   "performerUpdates": [{"performerId": "id", "personalityUpdate": "text", "relationshipNote": "text"}]
 }`;
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: 'gpt-5-mini-2025-08-07',
-      messages: [{ role: 'user', content: prompt }],
-      response_format: { type: 'json_object' }
-    })
-  });
-
-  const data = await response.json();
-  if (!response.ok || !data.choices?.[0]?.message?.content) return null;
-
-  return JSON.parse(data.choices[0].message.content);
+  try {
+    return await generateJsonCompletion<RelationshipAnalysis>(prompt, { temperature: 0.4 });
+  } catch (error) {
+    console.warn('Relationship analysis unavailable:', error);
+    return null;
+  }
 }
 
 export async function applyRelationshipAnalysis(
@@ -0,0 +1,200 @@
+import { DramaEvent, PerformerProfile, PerformerRelationship, PerformerSecret } from '../types';
+import { commitRelationshipSimulation, getAllPerformers, getAllRelationships, getAllSecrets } from './db';
+import { getPerformerTraits } from './socialModel';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Relationships touched more recently than this are left for the next tick.
+const MIN_TICK_DAYS = 1 / 24;
+
+// A performer with average volatility sheds half their tension in this many days.
+const TENSION_HALF_LIFE_DAYS = 5;
+const TENSION_NOISE = 4;
+const SECRET_TENSION_PER_DAY = 3;
+
+const NEGLECT_GRACE_DAYS = 3;
+const TRUST_EROSION_PER_DAY = 1.2;
+
+const HIGH_IMPACT_SECRET = 60;
+const SECRET_PRESSURE_PER_DAY = 6;
+
+export const TENSION_CONFLICT_THRESHOLD = 70;
+export const TRUST_BREAK_THRESHOLD = 30;
+export const SECRET_PRESSURE_THRESHOLD = 75;
+
+const SIMULATION_CONVERSATION_ID = 'relationship-simulation';
+const SCHEDULER_POLL_MS = 60 * 60 * 1000;
+
+export interface RelationshipSimulationInput {
+  relationships: PerformerRelationship[];
+  secrets: PerformerSecret[];
+  performers: PerformerProfile[];
+  now: number;
+  seed: string;
+}
+
+export interface RelationshipSimulationResult {
+  seed: string;
+  now: number;
+  // Only records the tick changed.
+  relationships: PerformerRelationship[];
+  secrets: PerformerSecret[];
+  dramaEvents: DramaEvent[];
+}
+
+/** mulberry32 over an FNV-1a hash of the seed: the same seed always yields the same sequence. */
+export const createSeededRandom = (seed: string): (() => number) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  let state = hash >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const clamp = (value: number) => Math.max(0, Math.min(100, value));
+const round = (value: number) => Math.round(value * 10) / 10;
+const byId = <T extends { id: string }>(a: T, b: T) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+/**
+ * Advances relationships and secrets from their last simulated time to `now`.
+ * Pure: records are processed in id order and all randomness comes from the
+ * seed, so the same input and seed always produce the same result.
+ */
+export const simulateRelationshipTick = (input: RelationshipSimulationInput): RelationshipSimulationResult => {
+  const { now, seed } = input;
+  const random = createSeededRandom(seed);
+  const performers = new Map(input.performers.map(performer => [performer.id, performer]));
+  const nameOf = (id: string) => performers.get(id)?.name ?? id;
+  const traitsOf = (id: string) => getPerformerTraits(performers.get(id));
+
+  const dramaEvents: DramaEvent[] = [];
+  const emit = (type: DramaEvent['type'], participants: string[], description: string, intensity: number) => {
+    dramaEvents.push({
+      id: `drama_sim_${seed}_${dramaEvents.length}`,
+      type,
+      participants,
+      description,
+      intensity: Math.round(intensity),
+      timestamp: now,
+      conversationId: SIMULATION_CONVERSATION_ID,
+      messageId: seed
+    });
+  };
+
+  // Secrets first: the pressure they reach this tick feeds the holder's tension below.
+  const secrets: PerformerSecret[] = [];
+  const hiddenPressure = new Map<string, PerformerSecret[]>();
+  [...input.secrets].sort(byId).forEach(secret => {
+    if (secret.revealedAt || secret.impact < HIGH_IMPACT_SECRET) return;
+    const elapsedDays = Math.max(0, now - (secret.pressureUpdatedAt ?? secret.createdAt)) / DAY_MS;
+    const before = secret.pressure ?? 0;
+    let pressure = before;
+    if (elapsedDays >= MIN_TICK_DAYS) {
+      const { volatility } = traitsOf(secret.performerId);
+      pressure = round(clamp(before + elapsedDays * SECRET_PRESSURE_PER_DAY * (secret.impact / 100) * (0.5 + volatility / 100)));
+      secrets.push({ ...secret, pressure, pressureUpdatedAt: now });
+      if (before < SECRET_PRESSURE_THRESHOLD && pressure >= SECRET_PRESSURE_THRESHOLD) {
+        emit(
+          'revelation',
+          [secret.performerId, ...secret.knownBy],
+          `${nameOf(secret.performerId)} is struggling to keep a ${secret.type} secret contained.`,
+          pressure
+        );
+      }
+    }
+    hiddenPressure.set(secret.performerId, [...(hiddenPressure.get(secret.performerId) ?? []), { ...secret, pressure }]);
+  });
+
+  const relationships: PerformerRelationship[] = [];
+  [...input.relationships].sort(byId).forEach(relationship => {
+    // A write after the last tick (say, analysed tension) restarts the decay from its value.
+    const lastSimulatedAt = Math.max(relationship.lastSimulatedAt ?? 0, relationship.updatedAt);
+    const elapsedDays = Math.max(0, now - lastSimulatedAt) / DAY_MS;
+    if (elapsedDays < MIN_TICK_DAYS) return;
+    const { volatility, loyalty } = traitsOf(relationship.performerId);
+
+    // Volatile performers hold on to tension longer and swing more.
+    const halfLife = TENSION_HALF_LIFE_DAYS * (0.5 + volatility / 100);
+    const noise = (random() * 2 - 1) * (volatility / 100) * TENSION_NOISE * Math.min(1, elapsedDays);
+    // Keeping a secret from the other side of the relationship wears on it.
+    const secretPressure = Math.max(0, ...(hiddenPressure.get(relationship.performerId) ?? [])
+      .filter(secret => !secret.knownBy.includes(relationship.targetId))
+      .map(secret => secret.pressure ?? 0));
+    const tension = round(clamp(
+      relationship.tension * 0.5 ** (elapsedDays / halfLife) + noise + elapsedDays * SECRET_TENSION_PER_DAY * (secretPressure / 100)
+    ));
+
+    // Only the part of this tick past the grace period counts as neglect; loyalty slows the erosion.
+    const neglectedDays = Math.max(0, (now - relationship.lastInteraction) / DAY_MS - NEGLECT_GRACE_DAYS);
+    const erodingDays = Math.min(elapsedDays, neglectedDays);
+    const trust = round(clamp(relationship.trust - erodingDays * TRUST_EROSION_PER_DAY * (1.5 - loyalty / 100)));
+
+    const notes: string[] = [];
+    const pair = [relationship.performerId, relationship.targetId];
+    if (relationship.tension < TENSION_CONFLICT_THRESHOLD && tension >= TENSION_CONFLICT_THRESHOLD) {
+      const description = `Tension between ${nameOf(relationship.performerId)} and ${nameOf(relationship.targetId)} has boiled over.`;
+      emit('conflict', pair, description, tension);
+      notes.push(description);
+    }
+    if (relationship.trust >= TRUST_BREAK_THRESHOLD && trust < TRUST_BREAK_THRESHOLD) {
+      const description = `${nameOf(relationship.performerId)} feels let down by ${nameOf(relationship.targetId)} after days without contact.`;
+      emit('betrayal', pair, description, 100 - trust);
+      notes.push(description);
+    }
+
+    relationships.push({
+      ...relationship,
+      tension,
+      trust,
+      lastSimulatedAt: now,
+      history: notes.length ? [...relationship.history, ...notes] : relationship.history,
+      updatedAt: now
+    });
+  });
+
+  return { seed, now, relationships, secrets, dramaEvents };
+};
+
+/** Loads the current social state, runs one tick and persists the result. */
+export const runRelationshipSimulationTick = async (
+  options: { seed?: string; now?: number } = {}
+): Promise<RelationshipSimulationResult> => {
+  const now = options.now ?? Date.now();
+  const [relationships, secrets, performers] = await Promise.all([getAllRelationships(), getAllSecrets(), getAllPerformers()]);
+  const result = simulateRelationshipTick({
+    relationships,
+    secrets,
+    performers,
+    now,
+    seed: options.seed ?? `tick-${now}`
+  });
+  if (result.relationships.length || result.secrets.length || result.dramaEvents.length) {
+    await commitRelationshipSimulation(result);
+  }
+  return result;
+};
+
+/** Ticks hourly in the background. Returns a stop function. */
+export const startRelationshipSimulationScheduler = (): (() => void) => {
+  let running = false;
+  const tick = () => {
+    if (running) return;
+    running = true;
+    runRelationshipSimulationTick()
+      .catch(error => console.error('Relationship simulation tick failed:', error))
+      .finally(() => {
+        running = false;
+      });
+  };
+  tick();
+  const handle = window.setInterval(tick, SCHEDULER_POLL_MS);
+  return () => window.clearInterval(handle);
+};
@@ -0,0 +1,329 @@
+import {
+  ChatMessage,
+  PerformerInteractionEvent,
+  PerformerProfile,
+  PerformerRelationship,
+  RoundTableSession,
+  RoundTableStance,
+  RoundTableStopCondition,
+  RoundTableSummary,
+  RoundTableTurn
+} from '../types';
+import { ActiveFeatures } from '../components/ChatInput';
+import { addPerformerInteractionEvents, getAllRelationships, saveRoundTableSession } from './db';
+import { generateJsonCompletion, generatePerformerResponse } from './aiService';
+import { getPerformerTraits } from './socialModel';
+import { collectIntrigueTags, detectNarrativeTags } from './socialSignals';
+import { analyzeText } from './textAnalysis';
+
+export const ROUND_TABLE_MAX_ROUNDS = 6;
+const MAX_TRANSCRIPT_TURNS = 12;
+// Below this moderator score a performer passes, once at least two have spoken in the round.
+const PASS_THRESHOLD = 0.35;
+const MIN_SPEAKERS_PER_ROUND = 2;
+
+// Turns are short spoken contributions; the heavier reasoning modules stay off.
+const ROUND_TABLE_FEATURES: ActiveFeatures = {
+  usePreflection: false,
+  useMemory: false,
+  useTaskList: false,
+  useAudit: false,
+  useStageDirections: false,
+  useMonologue: false,
+  usePromptRewrite: false
+};
+
+export interface RoundTableConfig {
+  topic: string;
+  performers: PerformerProfile[];
+  maxRounds: number;
+  stopCondition: RoundTableStopCondition;
+}
+
+export interface RoundTableRunOptions {
+  signal?: AbortSignal;
+  // Called with a fresh snapshot whenever a turn lands or the status changes.
+  onUpdate?: (session: RoundTableSession) => void;
+}
+
+export interface SpeakerCandidateScore {
+  performerId: string;
+  score: number;
+}
+
+const createId = (prefix: string) =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? `${prefix}-${crypto.randomUUID()}`
+    : `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const relationshipKey = (performerId: string, targetId: string) => `${performerId}:${targetId}`;
+
+/**
+ * Moderator scoring: bold, charismatic performers claim the floor, tension
+ * toward the last speaker pushes a rebuttal, and being named in the last turn
+ * invites a reply. Volatile performers get a wider random swing.
+ */
+export const scoreSpeakerCandidates = (
+  candidates: PerformerProfile[],
+  lastTurn: RoundTableTurn | null,
+  relationships: Map<string, PerformerRelationship>
+): SpeakerCandidateScore[] =>
+  candidates
+    .map(performer => {
+      const traits = getPerformerTraits(performer);
+      const presence = (traits.boldness * 0.55 + traits.charisma * 0.45) / 100;
+      const tension = lastTurn
+        ? (relationships.get(relationshipKey(performer.id, lastTurn.speakerId))?.tension ?? 0) / 100
+        : 0;
+      const addressed = lastTurn?.addressedIds.includes(performer.id) ? 0.25 : 0;
+      const jitter = (Math.random() - 0.5) * (traits.volatility / 100) * 0.3;
+      return {
+        performerId: performer.id,
+        score: Math.round((presence * 0.6 + tension * 0.4 + addressed + jitter) * 1000) / 1000
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+
+const parseStance = (content: string): { text: string; stance: RoundTableStance } => {
+  const match = content.match(/^\s*stance\s*:\s*(agree|disagree|undecided)\b.*$/im);
+  if (!match) return { text: content.trim(), stance: 'undecided' };
+  return {
+    text: content.replace(match[0], '').trim(),
+    stance: match[1].toLowerCase() as RoundTableStance
+  };
+};
+
+const findAddressedIds = (text: string, speaker: PerformerProfile, roster: PerformerProfile[], lastTurn: RoundTableTurn | null) => {
+  const lower = text.toLowerCase();
+  const named = roster
+    .filter(performer => performer.id !== speaker.id && lower.includes(performer.name.toLowerCase()))
+    .map(performer => performer.id);
+  const previous = lastTurn && lastTurn.speakerId !== speaker.id ? [lastTurn.speakerId] : [];
+  return Array.from(new Set([...previous, ...named]));
+};
+
+const formatTranscript = (turns: RoundTableTurn[]) =>
+  turns
+    .slice(-MAX_TRANSCRIPT_TURNS)
+    .map(turn => `[Round ${turn.round}] ${turn.speakerName} (${turn.stance}): ${turn.content}`)
+    .join('\n\n');
+
+const buildTurnPrompt = (topic: string, speaker: PerformerProfile, roster: PerformerProfile[], turns: RoundTableTurn[], round: number) => {
+  const others = roster.filter(performer => performer.id !== speaker.id).map(performer => performer.name).join(', ');
+  const transcript = formatTranscript(turns);
+  return `You are seated at a moderated round table with ${others}. Round ${round}.
+
+TOPIC: ${topic}
+
+${transcript ? `DISCUSSION SO FAR:\n${transcript}` : 'You have been asked to open the discussion.'}
+
+The moderator gives you the floor. Respond in character to what has been said, addressing others by name when you agree or push back. Keep it under 120 words.
+Finish with a final line "Stance: agree", "Stance: disagree" or "Stance: undecided" for where you stand on the emerging position.`;
+};
+
+const toChatHistory = (turns: RoundTableTurn[]): ChatMessage[] =>
+  turns.slice(-MAX_TRANSCRIPT_TURNS).map(turn => ({
+    id: turn.id,
+    role: 'agent',
+    content: turn.content,
+    performerId: turn.speakerId,
+    performerName: turn.speakerName,
+    timestamp: turn.timestamp
+  }));
+
+const logTurn = async (
+  session: RoundTableSession,
+  turn: RoundTableTurn,
+  speaker: PerformerProfile,
+  performerMap: Map<string, PerformerProfile>
+) => {
+  const event: PerformerInteractionEvent = {
+    id: `${session.id}-${turn.id}`,
+    conversationId: session.id,
+    speakerId: speaker.id,
+    speakerName: speaker.name,
+    speakerType: 'performer',
+    targetIds: turn.addressedIds,
+    targetNames: turn.addressedIds.map(id => performerMap.get(id)?.name ?? id),
+    timestamp: turn.timestamp,
+    messageId: turn.id,
+    sentiment: turn.sentiment,
+    narrativeTags: Array.from(new Set(['round-table', `stance:${turn.stance}`, ...detectNarrativeTags(turn.content)])),
+    intrigueTags: collectIntrigueTags(speaker, turn.addressedIds, performerMap),
+    context: 'public',
+    origin: 'round_table'
+  };
+  await addPerformerInteractionEvents([event]);
+};
+
+const roundStances = (turns: RoundTableTurn[], round: number) =>
+  turns.filter(turn => turn.round === round).map(turn => turn.stance);
+
+/** Why the session should end after the given round, or null to keep going. */
+const evaluateStopCondition = (
+  stopCondition: RoundTableStopCondition,
+  turns: RoundTableTurn[],
+  round: number,
+  maxRounds: number
+): string | null => {
+  const current = roundStances(turns, round);
+  if (stopCondition === 'consensus' && current.length >= MIN_SPEAKERS_PER_ROUND && current.every(stance => stance === 'agree')) {
+    return `Consensus reached in round ${round}.`;
+  }
+  if (stopCondition === 'stalemate' && round > 1) {
+    const previous = turns.filter(turn => turn.round === round - 1);
+    const unchanged = turns
+      .filter(turn => turn.round === round)
+      .every(turn => previous.find(prior => prior.speakerId === turn.speakerId)?.stance === turn.stance);
+    if (unchanged && current.includes('disagree')) {
+      return `Positions stopped moving in round ${round}.`;
+    }
+  }
+  if (round >= maxRounds) {
+    return `Reached the ${maxRounds}-round limit.`;
+  }
+  return null;
+};
+
+const summarizeRoundTable = async (session: RoundTableSession, roster: PerformerProfile[]): Promise<RoundTableSummary> => {
+  const prompt = `You moderated a round-table discussion.
+
+TOPIC: ${session.topic}
+PARTICIPANTS: ${roster.map(performer => performer.name).join(', ')}
+
+TRANSCRIPT:
+${session.turns.map(turn => `[Round ${turn.round}] ${turn.speakerName} (${turn.stance}): ${turn.content}`).join('\n\n')}
+
+Synthesize the outcome. List the points most participants converged on, each participant who still dissents with their position, and questions left open.
+
+Respond in JSON:
+{"summary": "2-4 sentences", "consensus": ["point"], "dissent": [{"performerName": "name", "position": "their remaining objection"}], "openQuestions": ["question"]}`;
+
+  const json = await generateJsonCompletion<{
+    summary?: string;
+    consensus?: unknown;
+    dissent?: Array<{ performerName?: string; position?: string }>;
+    openQuestions?: unknown;
+  }>(prompt, { temperature: 0.3 });
+
+  const strings = (value: unknown) => (Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []);
+  const byName = new Map(roster.map(performer => [performer.name.toLowerCase(), performer.id]));
+  return {
+    summary: typeof json.summary === 'string' ? json.summary.trim() : '',
+    consensus: strings(json.consensus),
+    dissent: (Array.isArray(json.dissent) ? json.dissent : [])
+      .filter(entry => entry && typeof entry.performerName === 'string' && typeof entry.position === 'string')
+      .map(entry => ({
+        performerId: byName.get(entry.performerName!.trim().toLowerCase()) ?? null,
+        performerName: entry.performerName!.trim(),
+        position: entry.position!.trim()
+      })),
+    openQuestions: strings(json.openQuestions)
+  };
+};
+
+/**
+ * Runs a moderated discussion: each round the moderator repeatedly hands the
+ * floor to the highest-scoring performer who has not yet spoken, until the
+ * round is exhausted or the rest pass. The session is persisted after every
+ * turn so an interrupted run still leaves its transcript behind.
+ */
+export const runRoundTable = async (config: RoundTableConfig, options: RoundTableRunOptions = {}): Promise<RoundTableSession> => {
+  const roster = config.performers;
+  if (roster.length < 2) {
+    throw new Error('A round table needs at least two performers.');
+  }
+  const topic = config.topic.trim();
+  if (!topic) {
+    throw new Error('Give the round table a topic.');
+  }
+
+  const now = Date.now();
+  let session: RoundTableSession = {
+    id: createId('round-table'),
+    topic,
+    performerIds: roster.map(performer => performer.id),
+    maxRounds: Math.max(1, Math.min(ROUND_TABLE_MAX_ROUNDS, Math.round(config.maxRounds))),
+    stopCondition: config.stopCondition,
+    status: 'running',
+    turns: [],
+    createdAt: now,
+    updatedAt: now
+  };
+
+  const publish = async (patch: Partial<RoundTableSession>) => {
+    session = { ...session, ...patch, updatedAt: Date.now() };
+    await saveRoundTableSession(session);
+    options.onUpdate?.(session);
+  };
+
+  const performerMap = new Map(roster.map(performer => [performer.id, performer]));
+  const relationships = new Map(
+    (await getAllRelationships()).map(relationship => [relationshipKey(relationship.performerId, relationship.targetId), relationship])
+  );
+  await publish({});
+
+  try {
+    let stopReason: string | null = null;
+    for (let round = 1; round <= session.maxRounds && !stopReason; round++) {
+      const spoken = new Set<string>();
+      while (spoken.size < roster.length) {
+        if (options.signal?.aborted) {
+          await publish({ status: 'stopped', stopReason: 'Stopped by moderator.' });
+          return session;
+        }
+        const lastTurn = session.turns[session.turns.length - 1] ?? null;
+        const [best] = scoreSpeakerCandidates(
+          roster.filter(performer => !spoken.has(performer.id)),
+          lastTurn,
+          relationships
+        );
+        if (spoken.size >= MIN_SPEAKERS_PER_ROUND && best.score < PASS_THRESHOLD) break;
+
+        const speaker = performerMap.get(best.performerId)!;
+        spoken.add(speaker.id);
+        const parts = await generatePerformerResponse(
+          speaker,
+          buildTurnPrompt(topic, speaker, roster, session.turns, round),
+          toChatHistory(session.turns),
+          ROUND_TABLE_FEATURES,
+          null,
+          { signal: options.signal }
+        );
+        const { text, stance } = parseStance(parts.response ?? '');
+        if (!text) continue;
+
+        const turn: RoundTableTurn = {
+          id: createId('turn'),
+          round,
+          speakerId: speaker.id,
+          speakerName: speaker.name,
+          addressedIds: findAddressedIds(text, speaker, roster, lastTurn),
+          content: text,
+          stance,
+          sentiment: (await analyzeText(text)).sentiment,
+          selectionScore: best.score,
+          timestamp: Date.now()
+        };
+        await publish({ turns: [...session.turns, turn] });
+        await logTurn(session, turn, speaker, performerMap);
+        if (parts.interrupted) break;
+      }
+      stopReason = evaluateStopCondition(session.stopCondition, session.turns, round, session.maxRounds);
+    }
+
+    if (options.signal?.aborted) {
+      await publish({ status: 'stopped', stopReason: 'Stopped by moderator.' });
+      return session;
+    }
+    const summary = session.turns.length > 0 ? await summarizeRoundTable(session, roster) : undefined;
+    await publish({ status: 'completed', stopReason: stopReason ?? undefined, summary });
+  } catch (error) {
+    if (options.signal?.aborted) {
+      await publish({ status: 'stopped', stopReason: 'Stopped by moderator.' });
+    } else {
+      await publish({ status: 'error', error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return session;
+};
@@ -1,15 +1,6 @@
 import { ChatMessage, PerformerInteractionEvent, PerformerProfile } from '../types';
 import { getPerformerTraits } from './socialModel';
-
-const POSITIVE_LEXICON = new Set([
-    'great', 'good', 'excellent', 'amazing', 'positive', 'love', 'like', 'success', 'win', 'progress', 'awesome', 'helpful', 'confident', 'proud'
-]);
-
-const NEGATIVE_LEXICON = new Set([
-    'bad', 'terrible', 'awful', 'negative', 'hate', 'dislike', 'fail', 'problem', 'issue', 'worry', 'anxious', 'concern', 'angry', 'frustrated', 'annoyed'
-]);
-
-const BIAS_KEYWORDS = new Set(['always', 'never', 'must', 'everyone', 'noone', 'obviously', 'clearly']);
+import { analyzeTextSync } from './textAnalysis';
 
 export const HIGH_INTRIGUE_THRESHOLD = 70;
 
@@ -45,37 +36,10 @@ export const buildKeywordSet = (prompt: string, history: ChatMessage[]): Set<str
     return keywords;
 };
 
-export const calculateSentimentScore = (text: string): number => {
-    if (!text) return 0;
-    const words = sanitizeText(text).toLowerCase().match(/[a-z]+/g) || [];
-    if (!words.length) return 0;
-    let positive = 0;
-    let negative = 0;
-    words.forEach(word => {
-        if (POSITIVE_LEXICON.has(word)) positive += 1;
-        if (NEGATIVE_LEXICON.has(word)) negative += 1;
-    });
-    const total = positive + negative;
-    if (!total) return 0;
-    return (positive - negative) / total;
-};
+/** Sentiment from the configured offline analyzer; use `analyzeText` where an async path allows the LLM analyzer. */
+export const calculateSentimentScore = (text: string): number => analyzeTextSync(text).sentiment;
 
-export const detectNarrativeTags = (text: string): string[] => {
-    const tags: string[] = [];
-    const lower = sanitizeText(text).toLowerCase();
-    BIAS_KEYWORDS.forEach(keyword => {
-        if (lower.includes(keyword)) {
-            tags.push('bias');
-        }
-    });
-    if (lower.includes('secret') || lower.includes('confidential')) {
-        tags.push('secret');
-    }
-    if (lower.includes('mission') || lower.includes('objective')) {
-        tags.push('mission');
-    }
-    return Array.from(new Set(tags));
-};
+export const detectNarrativeTags = (text: string): string[] => [...analyzeTextSync(text).narrativeTags];
 
 export const collectIntrigueTags = (
     speaker: PerformerProfile | null,
@@ -0,0 +1,350 @@
+import { generateJsonCompletion, loadAiSettings, SentimentAnalyzerId } from './aiService';
+
+export type TextAnalysisDomain = 'social' | 'business' | 'mission';
+
+export const TEXT_ANALYSIS_DOMAINS: TextAnalysisDomain[] = ['social', 'business', 'mission'];
+
+export const NARRATIVE_TAGS = ['bias', 'secret', 'mission', 'conflict', 'alliance', 'deal'] as const;
+export type NarrativeTag = typeof NARRATIVE_TAGS[number];
+
+export interface TextEvidenceSpan {
+  start: number;
+  end: number;
+  text: string;
+  kind: 'positive' | 'negative' | 'negation' | 'intensifier' | 'tag';
+  // Signed contribution to the raw score for sentiment spans
+  weight?: number;
+  tag?: string;
+}
+
+export interface TextAnalysis {
+  analyzerId: string;
+  // -1 (hostile) .. 1 (warm); 0 when there is no evidence either way
+  sentiment: number;
+  // 0..1, how much the analyzer trusts its own score
+  confidence: number;
+  narrativeTags: string[];
+  evidence: TextEvidenceSpan[];
+}
+
+export interface TextAnalysisOptions {
+  domains?: TextAnalysisDomain[];
+}
+
+export interface TextAnalyzer {
+  id: string;
+  label: string;
+  // Offline analyzers can run synchronously; remote ones cannot
+  offline: boolean;
+  analyze: (text: string, options?: TextAnalysisOptions) => Promise<TextAnalysis>;
+}
+
+const sanitize = (value: string): string => value?.replace(/[`*_#>\[\]]/g, ' ') ?? '';
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// With no evidence either way a neutral reading is a coin flip, not a certainty.
+const NO_EVIDENCE_CONFIDENCE = 0.5;
+
+const EMPTY_ANALYSIS = (analyzerId: string): TextAnalysis => ({
+  analyzerId,
+  sentiment: 0,
+  confidence: NO_EVIDENCE_CONFIDENCE,
+  narrativeTags: [],
+  evidence: []
+});
+
+// --- Lexicon analyzer: the original word-count heuristic, kept as a baseline ---
+
+const POSITIVE_LEXICON = new Set([
+  'great', 'good', 'excellent', 'amazing', 'positive', 'love', 'like', 'success', 'win', 'progress', 'awesome', 'helpful', 'confident', 'proud'
+]);
+
+const NEGATIVE_LEXICON = new Set([
+  'bad', 'terrible', 'awful', 'negative', 'hate', 'dislike', 'fail', 'problem', 'issue', 'worry', 'anxious', 'concern', 'angry', 'frustrated', 'annoyed'
+]);
+
+const BIAS_KEYWORDS = ['always', 'never', 'must', 'everyone', 'noone', 'obviously', 'clearly'];
+
+const LEXICON_TAG_KEYWORDS: Array<{ tag: NarrativeTag; keywords: string[] }> = [
+  { tag: 'bias', keywords: BIAS_KEYWORDS },
+  { tag: 'secret', keywords: ['secret', 'confidential'] },
+  { tag: 'mission', keywords: ['mission', 'objective'] }
+];
+
+export const analyzeWithLexicon = (text: string): TextAnalysis => {
+  if (!text) return EMPTY_ANALYSIS('lexicon');
+  const clean = sanitize(text);
+  const lower = clean.toLowerCase();
+  const evidence: TextEvidenceSpan[] = [];
+  let positive = 0;
+  let negative = 0;
+
+  for (const match of lower.matchAll(/[a-z]+/g)) {
+    const word = match[0];
+    const start = match.index ?? 0;
+    if (POSITIVE_LEXICON.has(word)) {
+      positive += 1;
+      evidence.push({ start, end: start + word.length, text: clean.slice(start, start + word.length), kind: 'positive', weight: 1 });
+    }
+    if (NEGATIVE_LEXICON.has(word)) {
+      negative += 1;
+      evidence.push({ start, end: start + word.length, text: clean.slice(start, start + word.length), kind: 'negative', weight: -1 });
+    }
+  }
+
+  // Substring matches, as before: "clearly" also fires inside "unclearly".
+  const tags = new Set<string>();
+  LEXICON_TAG_KEYWORDS.forEach(({ tag, keywords }) => {
+    keywords.forEach(keyword => {
+      const start = lower.indexOf(keyword);
+      if (start === -1) return;
+      tags.add(tag);
+      evidence.push({ start, end: start + keyword.length, text: clean.slice(start, start + keyword.length), kind: 'tag', tag });
+    });
+  });
+
+  const total = positive + negative;
+  return {
+    analyzerId: 'lexicon',
+    sentiment: total ? (positive - negative) / total : 0,
+    confidence: total ? Math.min(1, 0.25 + total * 0.15) * (Math.abs(positive - negative) / total) : NO_EVIDENCE_CONFIDENCE,
+    narrativeTags: Array.from(tags),
+    evidence
+  };
+};
+
+// --- Local analyzer: weighted lexicons with negation, intensifiers and emoji ---
+
+const GENERAL_WEIGHTS: Record<string, number> = {
+  great: 0.8, good: 0.6, excellent: 0.9, amazing: 0.9, awesome: 0.9, fantastic: 0.9, brilliant: 0.8, wonderful: 0.9,
+  positive: 0.5, love: 0.9, loved: 0.9, like: 0.4, liked: 0.4, enjoy: 0.6, glad: 0.6, happy: 0.7, thrilled: 0.9,
+  success: 0.7, successful: 0.7, win: 0.7, won: 0.7, progress: 0.5, helpful: 0.6, confident: 0.5, proud: 0.7,
+  thanks: 0.4, thank: 0.4, appreciate: 0.6, impressive: 0.7, perfect: 0.8, nice: 0.5, smooth: 0.4, calm: 0.3,
+  bad: -0.6, terrible: -0.9, awful: -0.9, horrible: -0.9, negative: -0.5, hate: -0.9, hated: -0.9, dislike: -0.6,
+  fail: -0.7, failed: -0.7, failure: -0.7, problem: -0.5, issue: -0.4, worry: -0.5, worried: -0.5, anxious: -0.6,
+  concern: -0.4, concerned: -0.4, angry: -0.8, furious: -0.9, frustrated: -0.7, annoyed: -0.6, upset: -0.6,
+  disappointed: -0.7, disappointing: -0.7, sad: -0.6, useless: -0.8, mess: -0.6, stupid: -0.8, sorry: -0.2, wrong: -0.5
+};
+
+const DOMAIN_WEIGHTS: Record<TextAnalysisDomain, Record<string, number>> = {
+  social: {
+    trust: 0.6, trusted: 0.6, loyal: 0.7, ally: 0.6, allies: 0.6, support: 0.5, supported: 0.5, welcome: 0.5, friend: 0.5,
+    betray: -0.9, betrayed: -0.9, backstab: -0.9, backstabbed: -0.9, snub: -0.6, snubbed: -0.6, humiliate: -0.8,
+    humiliated: -0.8, gossip: -0.3, liar: -0.8, lied: -0.7, rival: -0.3, threat: -0.6, threatened: -0.7, jealous: -0.5
+  },
+  business: {
+    deal: 0.4, signed: 0.5, profit: 0.6, profitable: 0.6, revenue: 0.3, growth: 0.5, renewed: 0.5, booked: 0.4, closed: 0.3,
+    churn: -0.6, churned: -0.6, lawsuit: -0.8, breach: -0.8, overdue: -0.5, refund: -0.4, complaint: -0.6, cancelled: -0.6,
+    canceled: -0.6, lost: -0.5, loss: -0.6, delay: -0.4, delayed: -0.4
+  },
+  mission: {
+    accomplished: 0.7, completed: 0.6, complete: 0.4, achieved: 0.7, cleared: 0.5, secured: 0.5,
+    blocked: -0.5, compromised: -0.8, aborted: -0.7, stalled: -0.5, missed: -0.5, exposed: -0.6
+  }
+};
+
+const EMOJI_WEIGHTS: Record<string, number> = {
+  '😀': 0.6, '😃': 0.6, '😄': 0.7, '😁': 0.6, '😊': 0.6, '🙂': 0.3, '😍': 0.8, '🥰': 0.8, '😂': 0.5, '🎉': 0.7,
+  '👏': 0.6, '👍': 0.5, '💪': 0.5, '❤': 0.8, '💖': 0.8, '✨': 0.3, '🙌': 0.6,
+  '😡': -0.8, '😠': -0.7, '😢': -0.6, '😭': -0.6, '😞': -0.6, '😒': -0.5, '🙄': -0.5, '💔': -0.7, '👎': -0.6, '😤': -0.5,
+  ':)': 0.5, ':-)': 0.5, ':d': 0.6, ':-d': 0.6, ';)': 0.3, ':(': -0.5, ':-(': -0.5, ':p': 0.2
+};
+
+const NEGATORS = new Set(['not', 'no', 'never', 'without', 'hardly', 'nobody', 'nothing', 'neither', 'nor', 'cannot']);
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.5, really: 1.4, extremely: 1.8, incredibly: 1.8, so: 1.3, super: 1.5, totally: 1.4, absolutely: 1.6, truly: 1.3,
+  slightly: 0.5, somewhat: 0.7, kinda: 0.7, barely: 0.4, mildly: 0.6
+};
+const CONTRAST_WORDS = new Set(['but', 'however', 'though', 'yet']);
+
+// Words after a negator that the negation still reaches, unless a clause break intervenes.
+const NEGATION_SCOPE = 3;
+// "not good" reads as mildly negative rather than as strongly as "bad".
+const NEGATION_FACTOR = -0.6;
+// What comes before "but" counts for less than what comes after.
+const CONTRAST_DISCOUNT = 0.5;
+const CAPS_BOOST = 1.3;
+// Squashes the raw weight sum into -1..1; one mild word lands around ±0.5.
+const NORMALIZATION_ALPHA = 1;
+
+const LOCAL_TAG_PATTERNS: Array<{ tag: NarrativeTag; pattern: RegExp }> = [
+  { tag: 'bias', pattern: /\b(always|never|must|everyone|no ?one|obviously|clearly)\b/gi },
+  { tag: 'secret', pattern: /\b(secrets?|secretly|confidential|hush|off the record|between us|don'?t tell|keep (?:it|this) quiet)\b/gi },
+  { tag: 'mission', pattern: /\b(missions?|objectives?|operation|assignment|target)\b/gi },
+  { tag: 'conflict', pattern: /\b(betray\w*|backstab\w*|rival\w*|threat\w*|argu\w*|fight\w*|feud\w*|confront\w*)\b/gi },
+  { tag: 'alliance', pattern: /\b(ally|allies|alliance|team up|partner(?:ship)?|loyal\w*|(?:have|got) your back|on your side)\b/gi },
+  { tag: 'deal', pattern: /\b(deal|contract|client|offer|negotiat\w*|pricing|invoice)\b/gi }
+];
+
+const TOKEN_PATTERN = /[a-z]+(?:'[a-z]+)?|[:;]-?[()dp]|\p{Extended_Pictographic}/giu;
+
+const isShouting = (token: string) => token.length > 1 && /^[A-Z]+$/.test(token);
+
+export const analyzeLocally = (text: string, options: TextAnalysisOptions = {}): TextAnalysis => {
+  if (!text) return EMPTY_ANALYSIS('local');
+  const clean = sanitize(text);
+  const weights: Record<string, number> = { ...GENERAL_WEIGHTS };
+  (options.domains ?? TEXT_ANALYSIS_DOMAINS).forEach(domain => Object.assign(weights, DOMAIN_WEIGHTS[domain]));
+
+  const evidence: TextEvidenceSpan[] = [];
+  const contributions: TextEvidenceSpan[] = [];
+  let negatedUntil = -1;
+  let boost = 1;
+  let boostUntil = -1;
+  let previousEnd = 0;
+
+  const tokens = Array.from(clean.matchAll(TOKEN_PATTERN));
+  tokens.forEach((match, index) => {
+    const raw = match[0];
+    const lower = raw.toLowerCase();
+    const start = match.index ?? 0;
+    const end = start + raw.length;
+
+    if (/[.;!?]/.test(clean.slice(previousEnd, start))) {
+      negatedUntil = -1;
+      boostUntil = -1;
+    }
+    previousEnd = end;
+
+    if (CONTRAST_WORDS.has(lower)) {
+      contributions.forEach(span => { span.weight = (span.weight ?? 0) * CONTRAST_DISCOUNT; });
+      negatedUntil = -1;
+      return;
+    }
+    if (NEGATORS.has(lower) || lower.endsWith("n't")) {
+      negatedUntil = index + NEGATION_SCOPE;
+      evidence.push({ start, end, text: raw, kind: 'negation' });
+      return;
+    }
+    if (INTENSIFIERS[lower] !== undefined) {
+      boost = INTENSIFIERS[lower];
+      boostUntil = index + 2;
+      evidence.push({ start, end, text: raw, kind: 'intensifier', weight: boost });
+      return;
+    }
+
+    const emojiWeight = EMOJI_WEIGHTS[lower] ?? EMOJI_WEIGHTS[raw];
+    const wordWeight = weights[lower];
+    if (emojiWeight === undefined && wordWeight === undefined) return;
+
+    let weight = emojiWeight ?? wordWeight;
+    if (index <= boostUntil) weight *= boost;
+    if (emojiWeight === undefined) {
+      if (isShouting(raw)) weight *= CAPS_BOOST;
+      if (index <= negatedUntil) weight *= NEGATION_FACTOR;
+    }
+    boostUntil = -1;
+    const span: TextEvidenceSpan = { start, end, text: raw, kind: weight >= 0 ? 'positive' : 'negative', weight };
+    contributions.push(span);
+    evidence.push(span);
+  });
+
+  let score = contributions.reduce((acc, span) => acc + (span.weight ?? 0), 0);
+  const exclamations = Math.min(3, (clean.match(/!/g) ?? []).length);
+  score *= 1 + exclamations * 0.1;
+
+  const positive = contributions.reduce((acc, span) => acc + Math.max(0, span.weight ?? 0), 0);
+  const negative = contributions.reduce((acc, span) => acc + Math.max(0, -(span.weight ?? 0)), 0);
+  const mass = positive + negative;
+  const agreement = mass ? Math.abs(positive - negative) / mass : 0;
+
+  const tags = new Set<string>();
+  LOCAL_TAG_PATTERNS.forEach(({ tag, pattern }) => {
+    for (const match of clean.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      tags.add(tag);
+      evidence.push({ start, end: start + match[0].length, text: match[0], kind: 'tag', tag });
+    }
+  });
+
+  return {
+    analyzerId: 'local',
+    sentiment: clamp(score / Math.sqrt(score * score + NORMALIZATION_ALPHA), -1, 1),
+    confidence: mass ? (1 - Math.exp(-mass * 3)) * (0.5 + 0.5 * agreement) : NO_EVIDENCE_CONFIDENCE,
+    narrativeTags: Array.from(tags),
+    evidence: evidence.sort((a, b) => a.start - b.start)
+  };
+};
+
+// --- LLM analyzer: asks the configured provider, falling back to the local analyzer ---
+
+interface LlmAnalysisPayload {
+  sentiment?: number;
+  confidence?: number;
+  tags?: string[];
+  evidence?: Array<{ quote?: string; polarity?: string; tag?: string }>;
+}
+
+const buildLlmPrompt = (text: string, domains: TextAnalysisDomain[]) => `Score the sentiment of the message below and tag its narrative themes.
+Context domains: ${domains.join(', ')}.
+Allowed tags: ${NARRATIVE_TAGS.join(', ')}.
+
+Return JSON only:
+{"sentiment": number from -1 (hostile) to 1 (warm), "confidence": number from 0 to 1, "tags": string[], "evidence": [{"quote": exact substring of the message, "polarity": "positive" | "negative" | "tag", "tag"?: string}]}
+
+Message:
+"""${text}"""`;
+
+const locateQuote = (text: string, quote: string, from: number): number => {
+  const exact = text.indexOf(quote, from);
+  if (exact !== -1) return exact;
+  return text.toLowerCase().indexOf(quote.toLowerCase());
+};
+
+export const analyzeWithLlm = async (text: string, options: TextAnalysisOptions = {}): Promise<TextAnalysis> => {
+  if (!text.trim()) return EMPTY_ANALYSIS('llm');
+  const domains = options.domains ?? TEXT_ANALYSIS_DOMAINS;
+  try {
+    const payload = await generateJsonCompletion<LlmAnalysisPayload>(buildLlmPrompt(text, domains), { temperature: 0 });
+    const evidence: TextEvidenceSpan[] = [];
+    (payload.evidence ?? []).forEach(item => {
+      const quote = item.quote?.trim();
+      if (!quote) return;
+      const start = locateQuote(text, quote, 0);
+      if (start === -1) return;
+      const kind = item.polarity === 'positive' || item.polarity === 'negative' ? item.polarity : 'tag';
+      evidence.push({ start, end: start + quote.length, text: text.slice(start, start + quote.length), kind, tag: kind === 'tag' ? item.tag : undefined });
+    });
+    const allowed = new Set<string>(NARRATIVE_TAGS);
+    return {
+      analyzerId: 'llm',
+      sentiment: clamp(Number(payload.sentiment) || 0, -1, 1),
+      confidence: clamp(Number(payload.confidence) || 0, 0, 1),
+      narrativeTags: Array.from(new Set((payload.tags ?? []).map(tag => String(tag).toLowerCase()).filter(tag => allowed.has(tag)))),
+      evidence: evidence.sort((a, b) => a.start - b.start)
+    };
+  } catch (error) {
+    console.warn('LLM sentiment analysis failed, using the local analyzer instead.', error);
+    return analyzeLocally(text, options);
+  }
+};
+
+const analyzerFactories = new Map<string, () => TextAnalyzer>([
+  ['lexicon', () => ({ id: 'lexicon', label: 'Lexicon (legacy word count)', offline: true, analyze: async text => analyzeWithLexicon(text) })],
+  ['local', () => ({ id: 'local', label: 'Local classifier', offline: true, analyze: async (text, options) => analyzeLocally(text, options) })],
+  ['llm', () => ({ id: 'llm', label: 'LLM (configured provider)', offline: false, analyze: analyzeWithLlm })]
+]);
+
+export const registerTextAnalyzer = (id: string, factory: () => TextAnalyzer): void => {
+  analyzerFactories.set(id, factory);
+};
+
+export const listTextAnalyzers = (): TextAnalyzer[] => Array.from(analyzerFactories.values()).map(factory => factory());
+
+export const getTextAnalyzer = (id?: SentimentAnalyzerId | string): TextAnalyzer => {
+  const key = id ?? loadAiSettings().sentimentAnalyzer;
+  const factory = analyzerFactories.get(key) ?? analyzerFactories.get('local')!;
+  return factory();
+};
+
+/** Analyzes text with the analyzer chosen in settings. */
+export const analyzeText = (text: string, options?: TextAnalysisOptions): Promise<TextAnalysis> =>
+  getTextAnalyzer().analyze(text, options);
+
+/**
+ * Synchronous variant for hot paths. Uses the configured analyzer when it is
+ * one of the built-in offline ones, and the local classifier otherwise.
+ */
+export const analyzeTextSync = (text: string, options?: TextAnalysisOptions): TextAnalysis =>
+  loadAiSettings().sentimentAnalyzer === 'lexicon' ? analyzeWithLexicon(text) : analyzeLocally(text, options);
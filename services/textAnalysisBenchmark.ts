@@ -0,0 +1,141 @@
+import { TextAnalysisDomain, TextAnalyzer } from './textAnalysis';
+
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+export interface LabeledTextFixture {
+  id: string;
+  text: string;
+  label: SentimentLabel;
+  // Hand-scored target on the analyzers' -1..1 scale
+  sentiment: number;
+  tags: string[];
+  domain?: TextAnalysisDomain;
+}
+
+// Scores inside ±band count as neutral when turning a score into a label.
+export const NEUTRAL_BAND = 0.2;
+
+export const LABELED_TEXT_FIXTURES: LabeledTextFixture[] = [
+  { id: 'pos-plain', text: 'Great work tonight, the crowd loved it.', label: 'positive', sentiment: 0.8, tags: [] },
+  { id: 'pos-intensified', text: 'That was really impressive, I am so proud of you!', label: 'positive', sentiment: 0.9, tags: [] },
+  { id: 'pos-emoji', text: 'Nailed the opener 🎉👏', label: 'positive', sentiment: 0.7, tags: [] },
+  { id: 'pos-negated-negative', text: "Honestly it wasn't bad at all.", label: 'positive', sentiment: 0.3, tags: [] },
+  { id: 'pos-contrast', text: 'The start was rough, but the finale was fantastic.', label: 'positive', sentiment: 0.5, tags: [] },
+  { id: 'pos-alliance', text: "I've got your back, we should team up on this.", label: 'positive', sentiment: 0.4, tags: ['alliance'], domain: 'social' },
+  { id: 'pos-deal', text: 'The client signed the contract and renewed for a year.', label: 'positive', sentiment: 0.6, tags: ['deal'], domain: 'business' },
+  { id: 'pos-mission', text: 'Mission accomplished, objective secured.', label: 'positive', sentiment: 0.7, tags: ['mission'], domain: 'mission' },
+  { id: 'pos-thanks', text: 'Thanks for the help earlier, I appreciate it :)', label: 'positive', sentiment: 0.6, tags: [] },
+  { id: 'pos-loyal', text: 'You have always been loyal to me.', label: 'positive', sentiment: 0.5, tags: ['alliance', 'bias'], domain: 'social' },
+  { id: 'neg-plain', text: 'That was a terrible call and everyone noticed.', label: 'negative', sentiment: -0.8, tags: ['bias'] },
+  { id: 'neg-negated-positive', text: 'I do not like where this is going.', label: 'negative', sentiment: -0.4, tags: [] },
+  { id: 'neg-emoji', text: 'Seriously? 🙄😒', label: 'negative', sentiment: -0.5, tags: [] },
+  { id: 'neg-caps', text: 'This is USELESS and I am FURIOUS.', label: 'negative', sentiment: -0.9, tags: [] },
+  { id: 'neg-betrayal', text: 'She betrayed us the moment the rival crew made an offer.', label: 'negative', sentiment: -0.8, tags: ['conflict', 'deal'], domain: 'social' },
+  { id: 'neg-business', text: 'The invoice is overdue and the client filed a complaint.', label: 'negative', sentiment: -0.6, tags: ['deal'], domain: 'business' },
+  { id: 'neg-mission', text: 'The operation was compromised and we aborted.', label: 'negative', sentiment: -0.8, tags: ['mission'], domain: 'mission' },
+  { id: 'neg-contrast', text: 'Nice try, but it failed again.', label: 'negative', sentiment: -0.4, tags: [] },
+  { id: 'neg-threat', text: "Cross me again and you'll regret it, that's a threat.", label: 'negative', sentiment: -0.7, tags: ['conflict'], domain: 'social' },
+  { id: 'neg-worry', text: 'I am worried the delay will cost us the booking.', label: 'negative', sentiment: -0.5, tags: [], domain: 'business' },
+  { id: 'neu-logistics', text: 'Doors open at eight, soundcheck is at six.', label: 'neutral', sentiment: 0, tags: [] },
+  { id: 'neu-question', text: 'Who is covering the late set on Friday?', label: 'neutral', sentiment: 0, tags: [] },
+  { id: 'neu-secret', text: 'Keep this between us until the announcement.', label: 'neutral', sentiment: 0, tags: ['secret'] },
+  { id: 'neu-confidential', text: 'The guest list is confidential.', label: 'neutral', sentiment: 0, tags: ['secret'] },
+  { id: 'neu-mission', text: 'New mission: map the VIP seating by tonight.', label: 'neutral', sentiment: 0, tags: ['mission'], domain: 'mission' },
+  { id: 'neu-mixed', text: 'Good crowd, bad sound.', label: 'neutral', sentiment: 0, tags: [] },
+  { id: 'neu-pricing', text: 'Send me the pricing sheet before the negotiation.', label: 'neutral', sentiment: 0, tags: ['deal'], domain: 'business' },
+  { id: 'neu-whenever', text: 'Come by whenever you are free.', label: 'neutral', sentiment: 0, tags: [] }
+];
+
+export const labelForScore = (score: number): SentimentLabel =>
+  score > NEUTRAL_BAND ? 'positive' : score < -NEUTRAL_BAND ? 'negative' : 'neutral';
+
+export interface FixtureResult {
+  fixtureId: string;
+  expected: SentimentLabel;
+  predicted: SentimentLabel;
+  sentiment: number;
+  confidence: number;
+  missingTags: string[];
+  extraTags: string[];
+}
+
+export interface AnalyzerEvaluation {
+  analyzerId: string;
+  fixtures: number;
+  accuracy: number;
+  meanAbsoluteError: number;
+  // Gap between stated confidence and observed accuracy, averaged over confidence bins
+  calibrationError: number;
+  tagPrecision: number;
+  tagRecall: number;
+  results: FixtureResult[];
+}
+
+const CALIBRATION_BINS = 5;
+
+const expectedCalibrationError = (results: FixtureResult[]): number => {
+  if (!results.length) return 0;
+  const bins = Array.from({ length: CALIBRATION_BINS }, () => ({ count: 0, confidence: 0, correct: 0 }));
+  results.forEach(result => {
+    const bin = bins[Math.min(CALIBRATION_BINS - 1, Math.floor(result.confidence * CALIBRATION_BINS))];
+    bin.count += 1;
+    bin.confidence += result.confidence;
+    bin.correct += result.expected === result.predicted ? 1 : 0;
+  });
+  return bins.reduce((acc, bin) => (bin.count ? acc + (bin.count / results.length) * Math.abs(bin.correct / bin.count - bin.confidence / bin.count) : acc), 0);
+};
+
+/** Runs an analyzer over labeled fixtures and scores labels, magnitudes, calibration and tags. */
+export const evaluateTextAnalyzer = async (
+  analyzer: TextAnalyzer,
+  fixtures: LabeledTextFixture[] = LABELED_TEXT_FIXTURES
+): Promise<AnalyzerEvaluation> => {
+  const results: FixtureResult[] = [];
+  let absoluteError = 0;
+  let truePositiveTags = 0;
+  let predictedTags = 0;
+  let expectedTags = 0;
+
+  for (const fixture of fixtures) {
+    const analysis = await analyzer.analyze(fixture.text, fixture.domain ? { domains: [fixture.domain] } : undefined);
+    const predicted = new Set(analysis.narrativeTags);
+    const expected = new Set(fixture.tags);
+    const hits = fixture.tags.filter(tag => predicted.has(tag)).length;
+    truePositiveTags += hits;
+    predictedTags += predicted.size;
+    expectedTags += expected.size;
+    absoluteError += Math.abs(analysis.sentiment - fixture.sentiment);
+    results.push({
+      fixtureId: fixture.id,
+      expected: fixture.label,
+      predicted: labelForScore(analysis.sentiment),
+      sentiment: analysis.sentiment,
+      confidence: analysis.confidence,
+      missingTags: fixture.tags.filter(tag => !predicted.has(tag)),
+      extraTags: analysis.narrativeTags.filter(tag => !expected.has(tag))
+    });
+  }
+
+  const correct = results.filter(result => result.expected === result.predicted).length;
+  return {
+    analyzerId: analyzer.id,
+    fixtures: fixtures.length,
+    accuracy: fixtures.length ? correct / fixtures.length : 0,
+    meanAbsoluteError: fixtures.length ? absoluteError / fixtures.length : 0,
+    calibrationError: expectedCalibrationError(results),
+    tagPrecision: predictedTags ? truePositiveTags / predictedTags : 1,
+    tagRecall: expectedTags ? truePositiveTags / expectedTags : 1,
+    results
+  };
+};
+
+export const compareTextAnalyzers = async (
+  analyzers: TextAnalyzer[],
+  fixtures: LabeledTextFixture[] = LABELED_TEXT_FIXTURES
+): Promise<AnalyzerEvaluation[]> => {
+  const evaluations: AnalyzerEvaluation[] = [];
+  for (const analyzer of analyzers) {
+    evaluations.push(await evaluateTextAnalyzer(analyzer, fixtures));
+  }
+  return evaluations;
+};
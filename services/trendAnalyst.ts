@@ -1,4 +1,4 @@
-import { getIntelligenceLog } from './intelligenceLog';
+import { queryIntelligenceLog } from './intelligenceLog';
 import { getFollowUps } from './db';
 import { IntelligenceFollowUp } from '../types';
 
@@ -20,7 +20,7 @@ const createId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Mat
 
 const summarizeFollowUps = (followUps: IntelligenceFollowUp[]) => {
   const pending = followUps.filter(task => task.status === 'pending');
-  const highPriorityPending = pending.filter(task => task.priority === 'high');
+  const highPriorityPending = pending.filter(task => task.priority === 'high' || task.priority === 'urgent');
   const inProgress = followUps.filter(task => task.status === 'in_progress');
   return {
     pendingCount: pending.length,
@@ -29,21 +29,37 @@ const summarizeFollowUps = (followUps: IntelligenceFollowUp[]) => {
   };
 };
 
-const extractMissionCompletions = (now: number) => {
-  const logs = getIntelligenceLog();
-  const recent = logs.filter(entry => entry.category === 'mission' && now - entry.timestamp <= SIX_HOURS_MS);
+// Windows are short, so a single generous page covers them.
+const TREND_QUERY_LIMIT = 1000;
+
+const extractMissionCompletions = async (now: number) => {
+  const { records: recent } = await queryIntelligenceLog({
+    categories: ['mission'],
+    since: now - SIX_HOURS_MS,
+    limit: TREND_QUERY_LIMIT
+  });
   let completions = 0;
   recent.forEach(entry => {
-    entry.responsePayload?.missionUpdates?.forEach((update: any) => {
-      if (update?.completed) completions += 1;
-    });
+    if (entry.derivedMissionProgress?.length) {
+      completions += entry.derivedMissionProgress.filter(update => update.completed).length;
+      return;
+    }
+    const updates = entry.responsePayload?.missionUpdates;
+    if (Array.isArray(updates)) {
+      updates.forEach((update: any) => {
+        if (update?.completed) completions += 1;
+      });
+    }
   });
   return completions;
 };
 
-const extractWatcherSignals = (now: number) => {
-  const logs = getIntelligenceLog();
-  const recent = logs.filter(entry => entry.category === 'operations' && now - entry.timestamp <= HOUR_MS);
+const extractWatcherSignals = async (now: number) => {
+  const { records: recent } = await queryIntelligenceLog({
+    categories: ['operations'],
+    since: now - HOUR_MS,
+    limit: TREND_QUERY_LIMIT
+  });
   let blocks = 0;
   let warnings = 0;
   recent.forEach(entry => {
@@ -57,10 +73,12 @@ const extractWatcherSignals = (now: number) => {
 export const analyzeTrends = async (): Promise<TrendAlert[]> => {
   const alerts: TrendAlert[] = [];
   const now = Date.now();
-  const followUps = await getFollowUps();
+  const [followUps, watcherSignals, missionCompletions] = await Promise.all([
+    getFollowUps(),
+    extractWatcherSignals(now),
+    extractMissionCompletions(now)
+  ]);
   const backlog = summarizeFollowUps(followUps);
-  const watcherSignals = extractWatcherSignals(now);
-  const missionCompletions = extractMissionCompletions(now);
 
   if (watcherSignals.blocks > 0) {
     alerts.push({
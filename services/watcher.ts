@@ -1,12 +1,21 @@
-import { ExperienceEventType, PlayerProgress, SkillBranchId } from '../types';
-
-type WatcherStatus = 'ok' | 'warn' | 'block';
+import { ExperienceEventType, PlayerProgress, PrivateMessageOrigin, SkillBranchId, WatcherRule, WatcherStatus, WatcherSubject } from '../types';
+import {
+  addWatcherObservation,
+  getWatcherObservations,
+  getWatcherRules,
+  markWatcherObservationCommitted,
+  pruneWatcherObservations
+} from './db';
+import { evaluateWatcherRules, getWatcherLookback } from './watcherRules';
 
 export interface WatcherVerdict {
   status: WatcherStatus;
   reasons: string[];
   suggestions?: string[];
   metadata?: Record<string, unknown>;
+  ruleIds?: string[];
+  // The recorded observation; pass the verdict to noteWatcherVerdict once the action goes through.
+  observationId?: string;
 }
 
 export interface ExperienceAuditInput {
@@ -20,169 +29,172 @@ export interface ExperienceAuditInput {
   timestamp: number;
 }
 
-const XP_WARN_THRESHOLD = 200;
-const XP_BLOCK_THRESHOLD = 500;
-const XP_WINDOW_MS = 60 * 1000;
-const XP_WINDOW_LIMIT = 800; // base XP per minute per branch trigger warning
-
-interface XpHistoryEntry {
+export interface DirectMessageAuditInput {
+  senderId: string;
+  // First recipient; group messages list everyone in `recipientIds`
+  recipientId: string;
+  recipientIds?: string[];
+  conversationId: string;
+  // Simulated backchannel messages are budgeted separately from user sends
+  origin?: PrivateMessageOrigin;
+  message: string;
   timestamp: number;
-  branch: SkillBranchId;
-  baseXp: number;
 }
 
-const xpHistory: XpHistoryEntry[] = [];
-
-const pruneXpHistory = (now: number) => {
-  while (xpHistory.length && now - xpHistory[0].timestamp > XP_WINDOW_MS) {
-    xpHistory.shift();
-  }
-};
-
-export const auditExperienceAward = (input: ExperienceAuditInput): WatcherVerdict => {
-  const reasons: string[] = [];
-  const suggestions: string[] = [];
-
-  if (input.baseXp <= 0) {
-    reasons.push('Experience award must be positive.');
-    suggestions.push('Adjust base XP to a positive value.');
-    return { status: 'block', reasons, suggestions };
-  }
+export interface PerformerResponseAuditInput {
+  performerId: string;
+  conversationId?: string;
+  origin: 'chat' | 'dm';
+  text: string;
+  timestamp: number;
+}
 
-  if (input.baseXp > XP_BLOCK_THRESHOLD) {
-    reasons.push(`Base XP ${input.baseXp} exceeds the hard limit of ${XP_BLOCK_THRESHOLD}.`);
-    suggestions.push('Reduce the XP reward or break it into smaller chunks.');
-    return { status: 'block', reasons, suggestions };
-  }
+export interface MemoryWriteAuditInput {
+  scope: 'agent' | 'performer';
+  performerId?: string;
+  summary: string;
+  content: string;
+  tags: string[];
+  timestamp: number;
+}
 
-  if (!input.actorIds || input.actorIds.length === 0) {
-    reasons.push('No actor IDs supplied for XP award.');
-    suggestions.push('Include at least one actor to attribute the reward.');
-    return { status: 'block', reasons, suggestions };
-  }
+// Text is stored truncated; rules see the full text when the audit runs.
+const OBSERVED_TEXT_LIMIT = 1000;
+const OBSERVATION_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
 
-  const uniqueActors = new Set(input.actorIds);
-  if (uniqueActors.size !== input.actorIds.length) {
-    reasons.push('Duplicate actor IDs detected in XP award payload.');
-    suggestions.push('Ensure each actor ID only appears once per award.');
-  }
+let lastPrunedAt = 0;
 
-  const multiplier = Math.max(1, input.progress.earnedRewards.length);
-  if (multiplier > 10) {
-    reasons.push('Large number of earned rewards detected; multiplier stack may be excessive.');
-    suggestions.push('Review unlocked rewards for runaway multipliers.');
-  }
+const createObservationId = () => `watch_${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
 
-  pruneXpHistory(input.timestamp);
-  const recentBranchTotal = xpHistory
-    .filter(entry => entry.branch === input.branch)
-    .reduce((acc, entry) => acc + entry.baseXp, 0);
+const clip = (text: string) => text.slice(0, OBSERVED_TEXT_LIMIT);
 
-  if (recentBranchTotal + input.baseXp > XP_WINDOW_LIMIT) {
-    reasons.push(`Branch ${input.branch} received ${recentBranchTotal} XP in the last minute.`);
-    suggestions.push('Throttle XP awards or confirm this burst is intentional.');
-  }
+const loadCommittedHistory = async (rules: WatcherRule[], subject: WatcherSubject, timestamp: number) => {
+  const lookback = getWatcherLookback(rules, subject);
+  return lookback > 0
+    ? (await getWatcherObservations({ subject, since: timestamp - lookback })).filter(observation => observation.committed)
+    : [];
+};
 
-  if (input.baseXp > XP_WARN_THRESHOLD) {
-    reasons.push(`Base XP ${input.baseXp} exceeds soft threshold ${XP_WARN_THRESHOLD}.`);
-    suggestions.push('Consider lowering the reward or splitting it across events.');
-  }
+const audit = async (
+  subject: WatcherSubject,
+  payload: Record<string, unknown>,
+  storedPayload: Record<string, unknown>,
+  timestamp: number,
+  commitUnlessBlocked = false
+): Promise<WatcherVerdict> => {
+  const rules = await getWatcherRules();
+  const history = await loadCommittedHistory(rules, subject, timestamp);
+  const evaluation = evaluateWatcherRules(rules, subject, payload, history, timestamp);
+
+  const observationId = createObservationId();
+  await addWatcherObservation({
+    id: observationId,
+    subject,
+    payload: storedPayload,
+    status: evaluation.status,
+    ruleIds: evaluation.ruleIds,
+    reasons: evaluation.reasons,
+    committed: commitUnlessBlocked && evaluation.status !== 'block',
+    timestamp
+  });
 
-  if (reasons.length === 0) {
-    return { status: 'ok', reasons: [] };
+  if (timestamp - lastPrunedAt > PRUNE_INTERVAL_MS) {
+    lastPrunedAt = timestamp;
+    pruneWatcherObservations(timestamp - OBSERVATION_RETENTION_MS).catch(error => {
+      console.error('Failed to prune watcher observations:', error);
+    });
   }
 
-  const status: WatcherStatus = reasons.some(reason => reason.includes('exceeds the hard limit') || reason.includes('must be positive') || reason.includes('No actor IDs'))
-    ? 'block'
-    : 'warn';
+  return {
+    status: evaluation.status,
+    reasons: evaluation.reasons,
+    suggestions: evaluation.suggestions.length ? evaluation.suggestions : undefined,
+    ruleIds: evaluation.ruleIds,
+    observationId
+  };
+};
 
-  return { status, reasons, suggestions };
+/** Marks an audited action as carried out so it counts towards rate and duplicate rules. */
+export const noteWatcherVerdict = async (verdict: WatcherVerdict): Promise<void> => {
+  if (!verdict.observationId || verdict.status === 'block') return;
+  await markWatcherObservationCommitted(verdict.observationId);
 };
 
-export const noteExperienceAward = (input: ExperienceAuditInput): void => {
-  pruneXpHistory(input.timestamp);
-  xpHistory.push({
-    timestamp: input.timestamp,
+export const auditExperienceAward = (input: ExperienceAuditInput): Promise<WatcherVerdict> => {
+  const payload = {
     branch: input.branch,
-    baseXp: input.baseXp
-  });
+    type: input.type,
+    baseXp: input.baseXp,
+    actorIds: input.actorIds ?? [],
+    context: input.context,
+    earnedRewardCount: input.progress.earnedRewards.length,
+    metadata: input.metadata
+  };
+  return audit('experience_award', payload, payload, input.timestamp);
 };
 
-export interface DirectMessageAuditInput {
-  senderId: string;
-  recipientId: string;
-  conversationId: string;
-  message: string;
-  timestamp: number;
-}
-
-interface DmHistoryEntry {
-  senderId: string;
-  timestamp: number;
-  messageHash: string;
-}
-
-const DM_WINDOW_MS = 30 * 1000;
-const DM_RATE_LIMIT = 6;
-const DM_MAX_LENGTH = 1500;
-const dmHistory: DmHistoryEntry[] = [];
-
-const hashMessage = (text: string): string => {
-  return text.slice(0, 128).toLowerCase();
+export const auditDirectMessage = (input: DirectMessageAuditInput): Promise<WatcherVerdict> => {
+  const trimmed = input.message.trim();
+  const payload = {
+    senderId: input.senderId,
+    recipientId: input.recipientId,
+    recipientIds: input.recipientIds ?? [input.recipientId],
+    conversationId: input.conversationId,
+    origin: input.origin ?? 'manual',
+    message: trimmed,
+    length: trimmed.length
+  };
+  return audit('direct_message', payload, { ...payload, message: clip(trimmed) }, input.timestamp);
 };
 
-const pruneDmHistory = (now: number) => {
-  while (dmHistory.length && now - dmHistory[0].timestamp > DM_WINDOW_MS) {
-    dmHistory.shift();
-  }
+/**
+ * Runs only the count-based rate and budget rules for a direct message that
+ * has not been written yet, and records nothing. Lets a caller skip paying
+ * for a generation the full audit would block anyway.
+ */
+export const precheckDirectMessage = async (input: Omit<DirectMessageAuditInput, 'message'>): Promise<WatcherVerdict> => {
+  const rules = (await getWatcherRules()).filter(rule => rule.condition.type === 'window_count');
+  const payload = {
+    senderId: input.senderId,
+    recipientId: input.recipientId,
+    recipientIds: input.recipientIds ?? [input.recipientId],
+    conversationId: input.conversationId,
+    origin: input.origin ?? 'manual',
+    message: '',
+    length: 0
+  };
+  const history = await loadCommittedHistory(rules, 'direct_message', input.timestamp);
+  const evaluation = evaluateWatcherRules(rules, 'direct_message', payload, history, input.timestamp);
+  return {
+    status: evaluation.status,
+    reasons: evaluation.reasons,
+    suggestions: evaluation.suggestions.length ? evaluation.suggestions : undefined,
+    ruleIds: evaluation.ruleIds
+  };
 };
 
-export const auditDirectMessage = (input: DirectMessageAuditInput): WatcherVerdict => {
-  const reasons: string[] = [];
-  const suggestions: string[] = [];
-
-  const trimmed = input.message.trim();
-  if (!trimmed) {
-    reasons.push('Empty message cannot be sent.');
-    suggestions.push('Provide content before sending.');
-    return { status: 'block', reasons, suggestions };
-  }
-
-  if (trimmed.length > DM_MAX_LENGTH) {
-    reasons.push(`Message length ${trimmed.length} exceeds limit of ${DM_MAX_LENGTH}.`);
-    suggestions.push('Shorten the message or split it across multiple sends.');
-    return { status: 'block', reasons, suggestions };
-  }
-
-  if (input.senderId === input.recipientId) {
-    reasons.push('Sender and recipient are identical.');
-    suggestions.push('Pick a different recipient.');
-    return { status: 'block', reasons, suggestions };
-  }
-
-  pruneDmHistory(input.timestamp);
-  const recentMessages = dmHistory.filter(entry => entry.senderId === input.senderId);
-  if (recentMessages.length >= DM_RATE_LIMIT) {
-    reasons.push(`Sender has sent ${recentMessages.length} messages in the last ${DM_WINDOW_MS / 1000} seconds.`);
-    suggestions.push('Wait a moment before sending more messages.');
-  }
-
-  const messageHash = hashMessage(trimmed);
-  const isDuplicate = recentMessages.some(entry => entry.messageHash === messageHash);
-  if (isDuplicate) {
-    reasons.push('Message appears to be a near duplicate of a recent send.');
-    suggestions.push('Consider rephrasing or consolidating repeated DMs.');
-  }
-
-  const status: WatcherStatus = reasons.length === 0 ? 'ok' : 'warn';
-  return { status, reasons, suggestions };
+/** Responses are already generated, so anything short of a block is committed straight away. */
+export const auditPerformerResponse = (input: PerformerResponseAuditInput): Promise<WatcherVerdict> => {
+  const trimmed = input.text.trim();
+  const payload = {
+    performerId: input.performerId,
+    conversationId: input.conversationId,
+    origin: input.origin,
+    text: trimmed,
+    length: trimmed.length
+  };
+  return audit('performer_response', payload, { ...payload, text: clip(trimmed) }, input.timestamp, true);
 };
 
-export const noteDirectMessage = (input: DirectMessageAuditInput): void => {
-  pruneDmHistory(input.timestamp);
-  dmHistory.push({
-    senderId: input.senderId,
-    timestamp: input.timestamp,
-    messageHash: hashMessage(input.message)
-  });
+export const auditMemoryWrite = (input: MemoryWriteAuditInput): Promise<WatcherVerdict> => {
+  const payload = {
+    scope: input.scope,
+    performerId: input.performerId,
+    summary: input.summary.trim(),
+    content: input.content,
+    length: input.content.length,
+    tagCount: input.tags.length
+  };
+  return audit('memory_write', payload, { ...payload, content: clip(input.content) }, input.timestamp);
 };
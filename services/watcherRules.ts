@@ -0,0 +1,507 @@
+import { WatcherCondition, WatcherObservation, WatcherRule, WatcherStatus, WatcherSubject } from '../types';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const WATCHER_SUBJECTS: Array<{ value: WatcherSubject; label: string; fields: string[] }> = [
+  {
+    value: 'experience_award',
+    label: 'XP awards',
+    fields: ['branch', 'type', 'baseXp', 'actorIds', 'context', 'earnedRewardCount', 'metadata.*']
+  },
+  {
+    value: 'direct_message',
+    label: 'Direct messages',
+    fields: ['senderId', 'recipientId', 'recipientIds', 'conversationId', 'origin', 'message', 'length']
+  },
+  {
+    value: 'performer_response',
+    label: 'Performer responses',
+    fields: ['performerId', 'conversationId', 'origin', 'text', 'length']
+  },
+  {
+    value: 'memory_write',
+    label: 'Memory writes',
+    fields: ['scope', 'performerId', 'summary', 'content', 'length', 'tagCount']
+  }
+];
+
+/** The policy a fresh workspace starts with; mirrors the limits the Watcher used to hardcode. */
+export const DEFAULT_WATCHER_RULES: WatcherRule[] = [
+  {
+    id: 'xp-non-positive',
+    subject: 'experience_award',
+    label: 'Positive awards only',
+    enabled: true,
+    severity: 'block',
+    condition: { type: 'compare', field: 'baseXp', operator: 'lte', value: 0 },
+    message: 'Experience award must be positive.',
+    remediation: 'Adjust base XP to a positive value.'
+  },
+  {
+    id: 'xp-hard-limit',
+    subject: 'experience_award',
+    label: 'Hard XP limit',
+    enabled: true,
+    severity: 'block',
+    condition: { type: 'compare', field: 'baseXp', operator: 'gt', value: 500 },
+    message: 'Base XP {value} exceeds the hard limit of {limit}.',
+    remediation: 'Reduce the XP reward or break it into smaller chunks.'
+  },
+  {
+    id: 'xp-no-actors',
+    subject: 'experience_award',
+    label: 'Attributed awards',
+    enabled: true,
+    severity: 'block',
+    condition: { type: 'empty', field: 'actorIds' },
+    message: 'No actor IDs supplied for XP award.',
+    remediation: 'Include at least one actor to attribute the reward.'
+  },
+  {
+    id: 'xp-duplicate-actors',
+    subject: 'experience_award',
+    label: 'Duplicate actors',
+    enabled: true,
+    severity: 'warn',
+    condition: { type: 'has_duplicates', field: 'actorIds' },
+    message: 'Duplicate actor IDs detected in XP award payload.',
+    remediation: 'Ensure each actor ID only appears once per award.'
+  },
+  {
+    id: 'xp-reward-stack',
+    subject: 'experience_award',
+    label: 'Reward stacking',
+    enabled: true,
+    severity: 'warn',
+    condition: { type: 'compare', field: 'earnedRewardCount', operator: 'gt', value: 10 },
+    message: 'Large number of earned rewards detected; multiplier stack may be excessive.',
+    remediation: 'Review unlocked rewards for runaway multipliers.'
+  },
+  {
+    id: 'xp-branch-burst',
+    subject: 'experience_award',
+    label: 'Branch burst',
+    enabled: true,
+    severity: 'warn',
+    condition: { type: 'window_sum', field: 'baseXp', windowMs: MINUTE, limit: 800, groupBy: 'branch' },
+    message: 'Branch {group} received {previous} XP in the last minute.',
+    remediation: 'Throttle XP awards or confirm this burst is intentional.'
+  },
+  {
+    id: 'xp-soft-threshold',
+    subject: 'experience_award',
+    label: 'Soft XP threshold',
+    enabled: true,
+    severity: 'warn',
+    condition: { type: 'compare', field: 'baseXp', operator: 'gt', value: 200 },
+    message: 'Base XP {value} exceeds soft threshold {limit}.',
+    remediation: 'Consider lowering the reward or splitting it across events.'
+  },
+  {
+    id: 'dm-empty',
+    subject: 'direct_message',
+    label: 'Empty messages',
+    enabled: true,
+    severity: 'block',
+    condition: { type: 'empty', field: 'message' },
+    message: 'Empty message cannot be sent.',
+    remediation: 'Provide content before sending.'
+  },
+  {
+    id: 'dm-length',
+    subject: 'direct_message',
+    label: 'Message length',
+    enabled: true,
+    severity: 'block',
+    condition: { type: 'compare', field: 'length', operator: 'gt', value: 1500 },
+    message: 'Message length {value} exceeds limit of {limit}.',
+    remediation: 'Shorten the message or split it across multiple sends.'
+  },
+  {
+    id: 'dm-self',
+    subject: 'direct_message',
+    label: 'Self-addressed',
+    enabled: true,
+    severity: 'block',
+    condition: { type: 'fields_equal', field: 'senderId', otherField: 'recipientId' },
+    message: 'Sender and recipient are identical.',
+    remediation: 'Pick a different recipient.'
+  },
+  {
+    id: 'dm-rate',
+    subject: 'direct_message',
+    label: 'Send rate',
+    enabled: true,
+    severity: 'warn',
+    condition: { type: 'window_count', windowMs: 30 * SECOND, limit: 6, groupBy: 'senderId' },
+    message: 'Sender has sent {previous} messages in the last {windowSeconds} seconds.',
+    remediation: 'Wait a moment before sending more messages.'
+  },
+  {
+    id: 'dm-duplicate',
+    subject: 'direct_message',
+    label: 'Repeated messages',
+    enabled: true,
+    severity: 'warn',
+    condition: { type: 'recent_duplicate', field: 'message', windowMs: 30 * SECOND, groupBy: 'senderId' },
+    message: 'Message appears to be a near duplicate of a recent send.',
+    remediation: 'Consider rephrasing or consolidating repeated DMs.'
+  },
+  {
+    id: 'dm-autonomous-budget',
+    subject: 'direct_message',
+    label: 'Autonomous DM budget',
+    enabled: true,
+    severity: 'block',
+    condition: { type: 'window_count', windowMs: DAY, limit: 40, where: { field: 'origin', equals: 'autonomous' } },
+    message: 'Performers have used their budget of {limit} simulated DMs for the day.',
+    remediation: 'Raise the limit here or wait for the window to roll over.'
+  },
+  {
+    id: 'dm-autonomous-thread-rate',
+    subject: 'direct_message',
+    label: 'Autonomous thread rate',
+    enabled: true,
+    severity: 'block',
+    condition: { type: 'window_count', windowMs: HOUR, limit: 8, groupBy: 'conversationId', where: { field: 'origin', equals: 'autonomous' } },
+    message: 'Thread {group} already had {previous} simulated DMs this hour.',
+    remediation: 'Let the backchannel cool off before simulating more.'
+  },
+  {
+    id: 'response-empty',
+    subject: 'performer_response',
+    label: 'Empty responses',
+    enabled: true,
+    severity: 'warn',
+    condition: { type: 'empty', field: 'text' },
+    message: 'Performer returned an empty response.',
+    remediation: 'Check the performer prompt and provider settings.'
+  },
+  {
+    id: 'response-length',
+    subject: 'performer_response',
+    label: 'Rambling responses',
+    enabled: true,
+    severity: 'warn',
+    condition: { type: 'compare', field: 'length', operator: 'gt', value: 6000 },
+    message: 'Response length {value} exceeds {limit} characters.',
+    remediation: 'Tighten the performer instructions or lower the token budget.'
+  },
+  {
+    id: 'response-repeat',
+    subject: 'performer_response',
+    label: 'Repeated responses',
+    enabled: true,
+    severity: 'warn',
+    condition: { type: 'recent_duplicate', field: 'text', windowMs: 10 * MINUTE, groupBy: 'performerId' },
+    message: 'Performer repeated a response from the last {windowSeconds} seconds.',
+    remediation: 'Raise temperature or add variety cues to the performer prompt.'
+  },
+  {
+    id: 'response-out-of-character',
+    subject: 'performer_response',
+    label: 'Breaking character',
+    enabled: true,
+    severity: 'warn',
+    condition: { type: 'pattern', field: 'text', pattern: '\\bas an ai( language model)?\\b', flags: 'i' },
+    message: 'Performer broke character with an AI disclaimer.',
+    remediation: 'Reinforce the persona in the performer instructions.'
+  },
+  {
+    id: 'memory-empty',
+    subject: 'memory_write',
+    label: 'Empty memories',
+    enabled: true,
+    severity: 'block',
+    condition: { type: 'empty', field: 'summary' },
+    message: 'Memory has no summary.',
+    remediation: 'Ask the model for a summary before storing the memory.'
+  },
+  {
+    id: 'memory-length',
+    subject: 'memory_write',
+    label: 'Oversized memories',
+    enabled: true,
+    severity: 'warn',
+    condition: { type: 'compare', field: 'length', operator: 'gt', value: 8000 },
+    message: 'Memory content is {value} characters, above {limit}.',
+    remediation: 'Let consolidation trim it, or capture a shorter slice.'
+  },
+  {
+    id: 'memory-duplicate',
+    subject: 'memory_write',
+    label: 'Duplicate memories',
+    enabled: true,
+    severity: 'warn',
+    condition: { type: 'recent_duplicate', field: 'summary', windowMs: DAY, groupBy: 'scope' },
+    message: 'A memory with the same summary was stored in the last day.',
+    remediation: 'Run memory consolidation to merge the duplicates.'
+  },
+  {
+    id: 'memory-burst',
+    subject: 'memory_write',
+    label: 'Memory burst',
+    enabled: true,
+    severity: 'warn',
+    condition: { type: 'window_count', windowMs: MINUTE, limit: 20 },
+    message: '{previous} memories were written in the last minute.',
+    remediation: 'Check for a loop in memory capture.'
+  }
+];
+
+export const builtInWatcherRules = (): WatcherRule[] => DEFAULT_WATCHER_RULES.map(rule => ({ ...rule, builtIn: true }));
+
+/** Budget rules for the backchannel simulation that a policy from before it lacks. */
+export const missingAutonomousDmRules = (existingIds: Iterable<string>): WatcherRule[] => {
+  const existing = new Set(existingIds);
+  return DEFAULT_WATCHER_RULES
+    .filter(rule => rule.id.startsWith('dm-autonomous-') && !existing.has(rule.id))
+    .map(rule => ({ ...rule, builtIn: true }));
+};
+
+export interface WatcherEvaluation {
+  status: WatcherStatus;
+  reasons: string[];
+  suggestions: string[];
+  ruleIds: string[];
+}
+
+const readField = (source: unknown, path: string): unknown =>
+  path
+    .split('.')
+    .filter(Boolean)
+    .reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined), source);
+
+// Near-duplicate detection compares the normalised opening of the text.
+const fingerprint = (value: unknown): string => String(value ?? '').trim().slice(0, 128).toLowerCase();
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim().length === 0) ||
+  (Array.isArray(value) && value.length === 0);
+
+const compare = (actual: unknown, operator: string, expected: unknown): boolean => {
+  const numeric = typeof expected === 'number' && actual !== null && actual !== '' && !Number.isNaN(Number(actual));
+  if (operator === 'eq') return numeric ? Number(actual) === expected : String(actual) === String(expected);
+  if (operator === 'neq') return numeric ? Number(actual) !== expected : String(actual) !== String(expected);
+  if (!numeric) return false;
+  const value = Number(actual);
+  switch (operator) {
+    case 'gt':
+      return value > (expected as number);
+    case 'gte':
+      return value >= (expected as number);
+    case 'lt':
+      return value < (expected as number);
+    case 'lte':
+      return value <= (expected as number);
+    default:
+      return false;
+  }
+};
+
+const fillTemplate = (template: string, values: Record<string, unknown>): string =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => (values[key] === undefined ? match : String(values[key])));
+
+const matchesWindowFilter = (
+  condition: Extract<WatcherCondition, { windowMs: number }>,
+  payload: Record<string, unknown>
+): boolean => !condition.where || readField(payload, condition.where.field) === condition.where.equals;
+
+const windowHistory = (
+  condition: Extract<WatcherCondition, { windowMs: number }>,
+  payload: Record<string, unknown>,
+  history: WatcherObservation[],
+  timestamp: number
+) => {
+  const group = condition.groupBy ? readField(payload, condition.groupBy) : undefined;
+  const entries = history.filter(entry =>
+    entry.timestamp <= timestamp &&
+    timestamp - entry.timestamp <= condition.windowMs &&
+    (!condition.groupBy || String(readField(entry.payload, condition.groupBy)) === String(group)) &&
+    matchesWindowFilter(condition, entry.payload)
+  );
+  return { entries, group };
+};
+
+/** Returns the template values when the condition fires, or null when it does not. */
+const checkCondition = (
+  condition: WatcherCondition,
+  payload: Record<string, unknown>,
+  history: WatcherObservation[],
+  timestamp: number
+): Record<string, unknown> | null => {
+  if ('windowMs' in condition && !matchesWindowFilter(condition, payload)) return null;
+  switch (condition.type) {
+    case 'compare': {
+      const value = readField(payload, condition.field);
+      return compare(value, condition.operator, condition.value) ? { value, limit: condition.value } : null;
+    }
+    case 'empty':
+      return isEmpty(readField(payload, condition.field)) ? {} : null;
+    case 'pattern': {
+      const value = readField(payload, condition.field);
+      try {
+        return new RegExp(condition.pattern, condition.flags).test(String(value ?? '')) ? { value } : null;
+      } catch {
+        return null;
+      }
+    }
+    case 'has_duplicates': {
+      const value = readField(payload, condition.field);
+      if (!Array.isArray(value)) return null;
+      const count = value.length - new Set(value).size;
+      return count > 0 ? { count } : null;
+    }
+    case 'fields_equal': {
+      const value = readField(payload, condition.field);
+      return value !== undefined && String(value) === String(readField(payload, condition.otherField)) ? { value } : null;
+    }
+    case 'window_sum': {
+      const { entries, group } = windowHistory(condition, payload, history, timestamp);
+      const previous = entries.reduce((sum, entry) => sum + (Number(readField(entry.payload, condition.field)) || 0), 0);
+      const value = Number(readField(payload, condition.field)) || 0;
+      const total = previous + value;
+      return total > condition.limit
+        ? { value, previous, total, limit: condition.limit, group, windowSeconds: condition.windowMs / 1000 }
+        : null;
+    }
+    case 'window_count': {
+      const { entries, group } = windowHistory(condition, payload, history, timestamp);
+      const count = entries.length + 1;
+      return count > condition.limit
+        ? { previous: entries.length, count, limit: condition.limit, group, windowSeconds: condition.windowMs / 1000 }
+        : null;
+    }
+    case 'recent_duplicate': {
+      const { entries, group } = windowHistory(condition, payload, history, timestamp);
+      const current = fingerprint(readField(payload, condition.field));
+      if (!current) return null;
+      const count = entries.filter(entry => fingerprint(readField(entry.payload, condition.field)) === current).length;
+      return count > 0 ? { count, group, windowSeconds: condition.windowMs / 1000 } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Runs every enabled rule for the subject. `history` should hold the earlier
+ * committed observations of that subject; window rules filter it themselves.
+ */
+export const evaluateWatcherRules = (
+  rules: WatcherRule[],
+  subject: WatcherSubject,
+  payload: Record<string, unknown>,
+  history: WatcherObservation[],
+  timestamp: number
+): WatcherEvaluation => {
+  const reasons: string[] = [];
+  const suggestions: string[] = [];
+  const ruleIds: string[] = [];
+  let status: WatcherStatus = 'ok';
+
+  rules
+    .filter(rule => rule.enabled && rule.subject === subject)
+    .forEach(rule => {
+      const values = checkCondition(rule.condition, payload, history, timestamp);
+      if (!values) return;
+      ruleIds.push(rule.id);
+      reasons.push(fillTemplate(rule.message, values));
+      if (rule.remediation) suggestions.push(rule.remediation);
+      if (rule.severity === 'block') status = 'block';
+      else if (status === 'ok') status = 'warn';
+    });
+
+  return { status, reasons, suggestions, ruleIds };
+};
+
+/** Longest look-back any enabled rule for the subject needs, so callers know how much history to load. */
+export const getWatcherLookback = (rules: WatcherRule[], subject: WatcherSubject): number =>
+  rules
+    .filter(rule => rule.enabled && rule.subject === subject && 'windowMs' in rule.condition)
+    .reduce((longest, rule) => Math.max(longest, (rule.condition as { windowMs: number }).windowMs), 0);
+
+export const validateWatcherRule = (rule: WatcherRule): string | null => {
+  if (!rule.id.trim()) return 'Rule needs an id.';
+  if (!rule.label.trim()) return 'Rule needs a label.';
+  if (!rule.message.trim()) return 'Rule needs a message.';
+  const condition = rule.condition as WatcherCondition | undefined;
+  if (!condition || typeof condition !== 'object') return 'Rule needs a condition.';
+  if ('field' in condition && !String(condition.field ?? '').trim()) return 'Condition needs a field.';
+  switch (condition.type) {
+    case 'compare':
+      if (!['gt', 'gte', 'lt', 'lte', 'eq', 'neq'].includes(condition.operator)) return `Unknown operator "${condition.operator}".`;
+      if (condition.value === undefined) return 'Comparison needs a value.';
+      return null;
+    case 'pattern':
+      try {
+        new RegExp(condition.pattern, condition.flags);
+        return null;
+      } catch (error) {
+        return `Invalid pattern: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    case 'fields_equal':
+      return condition.otherField?.trim() ? null : 'Condition needs a second field.';
+    case 'window_sum':
+    case 'window_count':
+    case 'recent_duplicate':
+      if (!(condition.windowMs > 0)) return 'Window must be longer than zero.';
+      if (condition.type !== 'recent_duplicate' && !(condition.limit >= 0)) return 'Window limit must be zero or more.';
+      if (condition.where && !String(condition.where.field ?? '').trim()) return 'Window filter needs a field.';
+      return null;
+    case 'empty':
+    case 'has_duplicates':
+      return null;
+    default:
+      return `Unknown condition type "${(condition as { type?: string }).type}".`;
+  }
+};
+
+export interface WatcherDryRunChange {
+  observation: WatcherObservation;
+  before: WatcherStatus;
+  after: WatcherEvaluation;
+}
+
+export interface WatcherDryRunReport {
+  evaluated: number;
+  before: Record<WatcherStatus, number>;
+  after: Record<WatcherStatus, number>;
+  changes: WatcherDryRunChange[];
+}
+
+/**
+ * Replays recorded observations, oldest first, against a candidate policy.
+ * An observation feeds later window rules if it was committed (or only failed
+ * because it was blocked) and the candidate policy would not block it.
+ */
+export const dryRunWatcherPolicy = (rules: WatcherRule[], observations: WatcherObservation[]): WatcherDryRunReport => {
+  const before: Record<WatcherStatus, number> = { ok: 0, warn: 0, block: 0 };
+  const after: Record<WatcherStatus, number> = { ok: 0, warn: 0, block: 0 };
+  const changes: WatcherDryRunChange[] = [];
+  const accepted = new Map<WatcherSubject, WatcherObservation[]>();
+
+  [...observations]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(observation => {
+      const history = accepted.get(observation.subject) ?? [];
+      const evaluation = evaluateWatcherRules(rules, observation.subject, observation.payload, history, observation.timestamp);
+      before[observation.status] += 1;
+      after[evaluation.status] += 1;
+      const sameRules = evaluation.ruleIds.length === observation.ruleIds.length &&
+        evaluation.ruleIds.every(id => observation.ruleIds.includes(id));
+      if (evaluation.status !== observation.status || !sameRules) {
+        changes.push({ observation, before: observation.status, after: evaluation });
+      }
+      if (evaluation.status !== 'block' && (observation.committed || observation.status === 'block')) {
+        accepted.set(observation.subject, [...history, observation]);
+      }
+    });
+
+  return { evaluated: observations.length, before, after, changes };
+};
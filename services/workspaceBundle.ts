@@ -0,0 +1,549 @@
+import { db, edgesFromLegacyRelationships, rebuildInteractionSummaries } from './db';
+import { withDefaultTraits } from './socialModel';
+import { upgradeLegacyConversation } from './privateConversations';
+import { getVaultFingerprint, lockVault } from './credentialVault';
+import { builtInFollowUpRules } from './followUpRules';
+import { createOpeningBalance } from './xpLedger';
+import { builtInMissionDefinitions } from './missionDefinitions';
+import { builtInWatcherRules, missingAutonomousDmRules } from './watcherRules';
+import { rederivePlayerProgress } from './progressionEngine';
+import { ArchivedMemory, KnowledgeEdge, KnowledgeEntity, Memory, MemoryConsolidationRun, PlayerProgress, WatcherRule } from '../types';
+
+export const WORKSPACE_BUNDLE_FORMAT = 'seasuite-workspace';
+export const WORKSPACE_BUNDLE_VERSION = 1;
+
+// localStorage keys that hold workspace state (as opposed to transient UI caches).
+const WORKSPACE_STORAGE_KEYS = [
+  'aiSettings',
+  'systemInstruction',
+  'intelligence-log-settings',
+  'memoryOnboardingSettings',
+  'autonomous-dm-settings',
+  'credential-vault',
+  'chatHistory'
+] as const;
+
+// Derived data that is rebuilt on demand; not worth the bundle size.
+const DERIVED_TABLES = new Set(['embeddings', 'interactionSummaries', 'interactionRollups']);
+
+const LEGACY_INTELLIGENCE_LOG_KEY = 'intelligence-log';
+const AI_SETTINGS_KEY_FIELDS = ['googleApiKey', 'openaiApiKey', 'openRouterApiKey', 'legacyApiKeys'] as const;
+const VAULT_STORAGE_KEY = 'credential-vault';
+
+export type WorkspaceImportMode = 'merge' | 'replace';
+
+export interface WorkspaceBundle {
+  format: typeof WORKSPACE_BUNDLE_FORMAT;
+  bundleVersion: number;
+  schemaVersion: number;
+  exportedAt: number;
+  apiKeysStripped: boolean;
+  tables: Record<string, unknown[]>;
+  storage: Record<string, string>;
+}
+
+export interface WorkspaceExportOptions {
+  stripApiKeys?: boolean;
+}
+
+export interface WorkspaceImportOptions {
+  mode: WorkspaceImportMode;
+}
+
+export interface WorkspaceImportSummary {
+  mode: WorkspaceImportMode;
+  schemaVersion: number;
+  tables: Record<string, number>;
+  storageKeys: string[];
+  skippedTables: string[];
+  warnings: string[];
+}
+
+const stripAiSettingsKeys = (raw: string): string => {
+  try {
+    const parsed = JSON.parse(raw);
+    AI_SETTINGS_KEY_FIELDS.forEach(field => {
+      if (field in parsed) parsed[field] = '';
+    });
+    return JSON.stringify(parsed);
+  } catch {
+    return raw;
+  }
+};
+
+export const exportWorkspace = async (options: WorkspaceExportOptions = {}): Promise<WorkspaceBundle> => {
+  const stripApiKeys = options.stripApiKeys ?? true;
+  const tables: Record<string, unknown[]> = {};
+
+  await db.transaction('r', db.tables, async () => {
+    for (const table of db.tables) {
+      if (DERIVED_TABLES.has(table.name)) continue;
+      tables[table.name] = await table.toArray();
+    }
+  });
+
+  if (stripApiKeys && tables.performers) {
+    tables.performers = tables.performers.map(performer => ({ ...(performer as Record<string, unknown>), apiKey: '' }));
+  }
+  // Vault entries are encrypted, but a stripped bundle carries no keys in any form.
+  if (stripApiKeys) {
+    tables.credentials = [];
+  }
+
+  const storage: Record<string, string> = {};
+  if (typeof window !== 'undefined') {
+    WORKSPACE_STORAGE_KEYS.forEach(key => {
+      if (key === VAULT_STORAGE_KEY && stripApiKeys) return;
+      const value = window.localStorage.getItem(key);
+      if (value !== null) {
+        storage[key] = key === 'aiSettings' && stripApiKeys ? stripAiSettingsKeys(value) : value;
+      }
+    });
+  }
+
+  return {
+    format: WORKSPACE_BUNDLE_FORMAT,
+    bundleVersion: WORKSPACE_BUNDLE_VERSION,
+    schemaVersion: db.verno,
+    exportedAt: Date.now(),
+    apiKeysStripped: stripApiKeys,
+    tables,
+    storage
+  };
+};
+
+export const downloadWorkspaceBundle = async (options: WorkspaceExportOptions = {}): Promise<void> => {
+  const bundle = await exportWorkspace(options);
+  const blob = new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = `seasuite-workspace-${new Date(bundle.exportedAt).toISOString().slice(0, 10)}.json`;
+  anchor.click();
+  URL.revokeObjectURL(url);
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const parseWorkspaceBundle = (raw: string): WorkspaceBundle => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('Bundle is not valid JSON.');
+  }
+  if (!isPlainObject(parsed) || parsed.format !== WORKSPACE_BUNDLE_FORMAT) {
+    throw new Error('File is not a Seasuite workspace bundle.');
+  }
+  if (typeof parsed.bundleVersion !== 'number' || parsed.bundleVersion > WORKSPACE_BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${String(parsed.bundleVersion)}. Update Seasuite and try again.`);
+  }
+  if (typeof parsed.schemaVersion !== 'number' || parsed.schemaVersion > db.verno) {
+    throw new Error(`Bundle was exported from a newer database schema (v${String(parsed.schemaVersion)}).`);
+  }
+  if (!isPlainObject(parsed.tables) || Object.values(parsed.tables).some(rows => !Array.isArray(rows))) {
+    throw new Error('Bundle tables are malformed.');
+  }
+  const storage = isPlainObject(parsed.storage) ? parsed.storage : {};
+  if (Object.values(storage).some(value => typeof value !== 'string')) {
+    throw new Error('Bundle storage entries are malformed.');
+  }
+  return parsed as unknown as WorkspaceBundle;
+};
+
+interface BundleMigration {
+  // Applies to bundles exported before this schema version.
+  toSchema: number;
+  description: string;
+  migrate: (bundle: WorkspaceBundle) => void;
+}
+
+const BUNDLE_MIGRATIONS: BundleMigration[] = [
+  {
+    toSchema: 12,
+    description: 'Backfill performer traits and intrigue level',
+    migrate: bundle => {
+      bundle.tables.performers = (bundle.tables.performers ?? []).map((performer: any) => ({
+        ...performer,
+        traits: withDefaultTraits(performer.traits || null),
+        intrigueLevel: typeof performer.intrigueLevel === 'number' ? performer.intrigueLevel : 50
+      }));
+    }
+  },
+  {
+    toSchema: 14,
+    description: 'Move the localStorage intelligence log into its table',
+    migrate: bundle => {
+      const legacy = bundle.storage[LEGACY_INTELLIGENCE_LOG_KEY];
+      if (!legacy) return;
+      try {
+        const records = JSON.parse(legacy);
+        if (Array.isArray(records)) {
+          bundle.tables.intelligenceLog = [...(bundle.tables.intelligenceLog ?? []), ...records];
+        }
+      } catch (error) {
+        console.warn('Skipping unreadable legacy intelligence log in bundle.', error);
+      }
+      delete bundle.storage[LEGACY_INTELLIGENCE_LOG_KEY];
+    }
+  },
+  {
+    toSchema: 17,
+    description: 'Turn knowledge relationships into knowledge edges',
+    migrate: bundle => {
+      const edges = edgesFromLegacyRelationships((bundle.tables.knowledge ?? []) as KnowledgeEntity[]);
+      const existing = new Set((bundle.tables.knowledgeEdges ?? []).map((edge: any) => edge?.id));
+      bundle.tables.knowledgeEdges = [...(bundle.tables.knowledgeEdges ?? []), ...edges.filter(edge => !existing.has(edge.id))];
+    }
+  },
+  {
+    toSchema: 21,
+    description: 'Add the built-in mission catalog',
+    migrate: bundle => {
+      if (!bundle.tables.missions?.length) bundle.tables.missions = builtInMissionDefinitions();
+    }
+  },
+  {
+    toSchema: 22,
+    description: 'Open the XP ledger with the balance already earned',
+    migrate: bundle => {
+      if (bundle.tables.xpLedger?.length) return;
+      const progress = (bundle.tables.playerProgress ?? []).find((row: any) => row?.id === 'player::main') as PlayerProgress | undefined;
+      const opening = progress ? createOpeningBalance(progress, bundle.exportedAt) : null;
+      if (opening) bundle.tables.xpLedger = [opening];
+    }
+  },
+  {
+    toSchema: 23,
+    description: 'Add the default Watcher policy',
+    migrate: bundle => {
+      if (!bundle.tables.watcherRules?.length) bundle.tables.watcherRules = builtInWatcherRules();
+    }
+  },
+  {
+    toSchema: 24,
+    description: 'Add the default follow-up rules',
+    migrate: bundle => {
+      if (!bundle.tables.followUpRules?.length) bundle.tables.followUpRules = builtInFollowUpRules();
+    }
+  },
+  {
+    toSchema: 26,
+    description: 'Convert pair DM threads into conversations with members',
+    migrate: bundle => {
+      bundle.tables.privateConversations = (bundle.tables.privateConversations ?? []).map(upgradeLegacyConversation);
+    }
+  },
+  {
+    toSchema: 27,
+    description: 'Add the Watcher budget rules for autonomous direct messages',
+    migrate: bundle => {
+      // A policy emptied on purpose stays empty.
+      const rules = (bundle.tables.watcherRules ?? []) as WatcherRule[];
+      if (rules.length === 0) return;
+      bundle.tables.watcherRules = [...rules, ...missingAutonomousDmRules(rules.map(rule => rule.id))];
+    }
+  }
+];
+
+const migrateBundle = (bundle: WorkspaceBundle, warnings: string[]): WorkspaceBundle => {
+  const migrated: WorkspaceBundle = {
+    ...bundle,
+    tables: { ...bundle.tables },
+    storage: { ...(bundle.storage ?? {}) }
+  };
+  BUNDLE_MIGRATIONS
+    .filter(migration => bundle.schemaVersion < migration.toSchema)
+    .forEach(migration => {
+      migration.migrate(migrated);
+      warnings.push(`Migrated: ${migration.description}.`);
+    });
+  migrated.schemaVersion = db.verno;
+  return migrated;
+};
+
+// Rows from auto-increment tables get fresh keys on merge; compare content to avoid duplicating on re-import.
+const signatureWithoutKey = (row: Record<string, unknown>, keyPath: string): string => {
+  const { [keyPath]: _omit, ...rest } = row;
+  return JSON.stringify(rest);
+};
+
+// Old id -> local id for each auto-increment table, filled while merging.
+type MergedIdMaps = Map<string, Map<number, number>>;
+
+/**
+ * Points memory ids held by other rows at the local ids their memories got
+ * during a merge. Returns null for a pending consolidation run that would
+ * touch a memory the bundle did not bring along.
+ */
+const remapMemoryReferences = (
+  tableName: string,
+  row: Record<string, unknown>,
+  idMaps: MergedIdMaps
+): Record<string, unknown> | null => {
+  const memoryIds = idMaps.get('memories') ?? new Map<number, number>();
+  const mapId = (id: number) => memoryIds.get(id) ?? id;
+
+  if (tableName === 'memories' || tableName === 'archivedMemories') {
+    const memory = row as Partial<ArchivedMemory>;
+    return {
+      ...row,
+      ...(memory.mergedFrom ? { mergedFrom: memory.mergedFrom.map(source => ({ ...source, memoryId: mapId(source.memoryId) })) } : {}),
+      ...(memory.consolidatedInto !== undefined ? { consolidatedInto: mapId(memory.consolidatedInto) } : {})
+    };
+  }
+
+  if (tableName === 'memoryConsolidationRuns') {
+    const run = row as unknown as MemoryConsolidationRun;
+    // Applied or discarded runs are history; a pending one must only touch memories we can map.
+    const known = (id: number) => run.status !== 'pending' || memoryIds.has(id);
+    const remapped: MemoryConsolidationRun = {
+      ...run,
+      decay: run.decay.filter(change => known(change.memoryId)).map(change => ({ ...change, memoryId: mapId(change.memoryId) })),
+      merges: run.merges
+        .filter(change => change.sourceIds.every(known))
+        .map(change => ({ ...change, sourceIds: change.sourceIds.map(mapId) })),
+      archives: run.archives.filter(change => known(change.memoryId)).map(change => ({ ...change, memoryId: mapId(change.memoryId) }))
+    };
+    if (run.status === 'pending' && !remapped.decay.length && !remapped.merges.length && !remapped.archives.length) return null;
+    return remapped as unknown as Record<string, unknown>;
+  }
+
+  if (tableName === 'knowledgeEdges') {
+    const edge = row as unknown as KnowledgeEdge;
+    return {
+      ...row,
+      evidence: edge.evidence.map(entry => {
+        if (entry.sourceType !== 'memory') return entry;
+        const id = Number(entry.sourceId);
+        return Number.isFinite(id) ? { ...entry, sourceId: String(mapId(id)) } : entry;
+      })
+    };
+  }
+
+  return row;
+};
+
+// Archived rows only carry identity in these fields; the rest is rewritten on merge.
+const archivedSignature = (row: Record<string, unknown>): string => {
+  const { id: _id, consolidatedInto: _into, mergedFrom: _from, ...rest } = row;
+  return JSON.stringify(rest);
+};
+
+/**
+ * Archived memories keep their memory id so a restore can put them back, which
+ * makes those ids foreign in another workspace. Each incoming row takes the id
+ * its memory got in this merge, the id of an identical local row, or an id
+ * reserved from the memories key generator; the choices join the memory id map.
+ */
+const mergeArchivedMemories = async (rows: Record<string, unknown>[], idMaps: MergedIdMaps): Promise<number> => {
+  const memoryIds = idMaps.get('memories') ?? new Map<number, number>();
+  idMaps.set('memories', memoryIds);
+  const local = new Map((await db.archivedMemories.toArray()).map(row => [archivedSignature(row as unknown as Record<string, unknown>), row.id]));
+
+  const unmatched: number[] = [];
+  rows.forEach(row => {
+    const oldId = row.id as number;
+    if (memoryIds.has(oldId)) return;
+    const localId = local.get(archivedSignature(row));
+    if (localId !== undefined) memoryIds.set(oldId, localId);
+    else unmatched.push(oldId);
+  });
+  if (unmatched.length > 0) {
+    // Adding and deleting placeholders advances the generator, so new memories never reuse these ids.
+    const placeholders = unmatched.map(() => ({ timestamp: 0, summary: '', tags: [], conversation: '', relevance: 0 }));
+    const reserved = (await db.memories.bulkAdd(placeholders, { allKeys: true })) as number[];
+    await db.memories.bulkDelete(reserved);
+    unmatched.forEach((oldId, index) => memoryIds.set(oldId, reserved[index]));
+  }
+
+  const localIds = new Set(local.values());
+  const added = rows
+    .filter(row => !localIds.has(memoryIds.get(row.id as number)!))
+    .map(row => ({ ...remapMemoryReferences('archivedMemories', row, idMaps), id: memoryIds.get(row.id as number) }));
+  await db.archivedMemories.bulkPut(added as unknown as ArchivedMemory[]);
+  return added.length;
+};
+
+const mergeStorageValue = (key: string, incoming: string): string => {
+  if (key !== 'aiSettings' || typeof window === 'undefined') return incoming;
+  const existingRaw = window.localStorage.getItem(key);
+  if (!existingRaw) return incoming;
+  try {
+    const existing = JSON.parse(existingRaw);
+    const next = { ...existing, ...JSON.parse(incoming) };
+    // A stripped bundle must not wipe keys already configured on this machine.
+    AI_SETTINGS_KEY_FIELDS.forEach(field => {
+      if (!next[field] && existing[field]) next[field] = existing[field];
+    });
+    return JSON.stringify(next);
+  } catch {
+    return incoming;
+  }
+};
+
+const WORKSPACE_EVENTS = [
+  'memories-updated',
+  'memory-consolidation-updated',
+  'knowledge-updated',
+  'performers-updated',
+  'performer-interactions-updated',
+  'relationships-updated',
+  'private-conversations-updated',
+  'credentials-updated',
+  'autonomous-dms-updated',
+  'round-tables-updated',
+  'player-progress-updated',
+  'missions-updated',
+  'xp-ledger-updated',
+  'watcher-rules-updated',
+  'follow-ups-updated',
+  'follow-up-rules-updated',
+  'intelligence-log-updated',
+  'escort-pipelines-updated',
+  'escort-recipes-updated',
+  'ai-settings-updated',
+  'custom-lenses-updated',
+  'calendar-events-updated',
+  'client-data-updated',
+  'brand-data-updated'
+];
+
+export const importWorkspace = async (
+  bundle: WorkspaceBundle,
+  options: WorkspaceImportOptions
+): Promise<WorkspaceImportSummary> => {
+  const warnings: string[] = [];
+  const migrated = migrateBundle(bundle, warnings);
+  const knownTables = new Map(db.tables.map(table => [table.name, table]));
+  const skippedTables = Object.keys(migrated.tables).filter(name => !knownTables.has(name));
+  const counts: Record<string, number> = {};
+
+  if (migrated.apiKeysStripped) {
+    warnings.push('Bundle was exported without API keys; add them to the credential vault in Settings if needed.');
+  }
+
+  // Credentials only decrypt under the vault they were written with, so merging across vaults keeps ours.
+  const incomingVault = migrated.storage[VAULT_STORAGE_KEY];
+  const localVault = getVaultFingerprint();
+  if (options.mode === 'merge' && incomingVault && localVault) {
+    let incomingFingerprint: string | null = null;
+    try {
+      incomingFingerprint = JSON.parse(incomingVault).salt ?? null;
+    } catch {
+      incomingFingerprint = null;
+    }
+    if (incomingFingerprint !== localVault) {
+      delete migrated.tables.credentials;
+      delete migrated.storage[VAULT_STORAGE_KEY];
+      warnings.push('Skipped credentials encrypted with a different vault passphrase.');
+    }
+  }
+
+  await db.transaction('rw', db.tables, async () => {
+    const idMaps: MergedIdMaps = new Map();
+    let addedMemoryIds: number[] = [];
+    // Merging re-keys auto-increment rows and archived memories, so write those first and rewrite references to them afterwards.
+    const mergeOrder = (table: (typeof db.tables)[number]) => (table.schema.primKey.auto ? 0 : table.name === 'archivedMemories' ? 1 : 2);
+    const tables = [...db.tables].sort((a, b) => mergeOrder(a) - mergeOrder(b));
+    for (const table of tables) {
+      const rows = (migrated.tables[table.name] ?? []) as Record<string, unknown>[];
+      const keyPath = typeof table.schema.primKey.keyPath === 'string' ? table.schema.primKey.keyPath : null;
+      const autoIncrement = table.schema.primKey.auto;
+
+      if (options.mode === 'replace') {
+        await table.clear();
+        if (rows.length > 0) await table.bulkPut(rows);
+        counts[table.name] = rows.length;
+        continue;
+      }
+
+      if (rows.length === 0) continue;
+      if (autoIncrement && keyPath) {
+        const existing = new Map(
+          (await table.toArray()).map(row => [signatureWithoutKey(row as Record<string, unknown>, keyPath), (row as Record<string, unknown>)[keyPath]])
+        );
+        const idMap = new Map<number, number>();
+        const fresh: Record<string, unknown>[] = [];
+        const freshIds: number[] = [];
+        rows.forEach(row => {
+          const localId = existing.get(signatureWithoutKey(row, keyPath));
+          if (localId !== undefined) {
+            if (typeof row[keyPath] === 'number') idMap.set(row[keyPath] as number, localId as number);
+            return;
+          }
+          const { [keyPath]: oldId, ...rest } = row;
+          fresh.push(rest);
+          freshIds.push(oldId as number);
+        });
+        if (fresh.length > 0) {
+          const newIds = await table.bulkAdd(fresh, { allKeys: true });
+          newIds.forEach((newId, index) => {
+            if (typeof freshIds[index] === 'number') idMap.set(freshIds[index], newId as number);
+          });
+          if (table.name === 'memories') addedMemoryIds = newIds as number[];
+        }
+        idMaps.set(table.name, idMap);
+        counts[table.name] = fresh.length;
+      } else if (table.name === 'archivedMemories') {
+        counts[table.name] = await mergeArchivedMemories(rows, idMaps);
+      } else {
+        const remapped = rows
+          .map(row => remapMemoryReferences(table.name, row, idMaps))
+          .filter((row): row is Record<string, unknown> => row !== null);
+        const dropped = rows.length - remapped.length;
+        if (dropped > 0) {
+          warnings.push(`Skipped ${dropped} pending consolidation run${dropped === 1 ? '' : 's'} for memories not in the bundle.`);
+        }
+        await table.bulkPut(remapped);
+        counts[table.name] = remapped.length;
+      }
+    }
+
+    // Imported memories produced by consolidation cite their sources by id.
+    if (addedMemoryIds.length > 0) {
+      const added = await db.memories.bulkGet(addedMemoryIds);
+      const rewritten = added
+        .filter((memory): memory is Memory => !!memory?.mergedFrom?.length)
+        .map(memory => remapMemoryReferences('memories', memory as unknown as Record<string, unknown>, idMaps) as unknown as Memory);
+      if (rewritten.length > 0) await db.memories.bulkPut(rewritten);
+    }
+  });
+
+  // Interaction aggregates are never exported, so rebuild them from whatever interactions landed.
+  await rebuildInteractionSummaries();
+  // XP totals follow the ledger; an imported progress row may disagree with the ledger it now sits beside.
+  if (migrated.tables.playerProgress || migrated.tables.xpLedger) {
+    await rederivePlayerProgress();
+  }
+
+  const storageKeys: string[] = [];
+  if (typeof window !== 'undefined') {
+    if (options.mode === 'replace') {
+      WORKSPACE_STORAGE_KEYS.forEach(key => window.localStorage.removeItem(key));
+    }
+    Object.entries(migrated.storage).forEach(([key, value]) => {
+      if (!(WORKSPACE_STORAGE_KEYS as readonly string[]).includes(key)) return;
+      const next = options.mode === 'merge' ? mergeStorageValue(key, value) : value;
+      window.localStorage.setItem(key, next);
+      storageKeys.push(key);
+    });
+    WORKSPACE_EVENTS.forEach(name => window.dispatchEvent(new Event(name)));
+  }
+  // Decrypted keys in memory may no longer match the imported vault.
+  lockVault();
+
+  if (skippedTables.length > 0) {
+    warnings.push(`Ignored unknown tables: ${skippedTables.join(', ')}.`);
+  }
+
+  return {
+    mode: options.mode,
+    schemaVersion: migrated.schemaVersion,
+    tables: counts,
+    storageKeys,
+    skippedTables,
+    warnings
+  };
+};
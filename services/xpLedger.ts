@@ -0,0 +1,131 @@
+import { PlayerProgress, SkillBranchId, XpTransaction, XpTransactionKind } from '../types';
+
+export const SKILL_BRANCH_IDS: SkillBranchId[] = [
+  'social_engineering',
+  'brand_authority',
+  'operations',
+  'creative_lab',
+  'intelligence',
+  'diplomacy'
+];
+
+const PLAYER_ACCOUNT_PREFIX = 'player:';
+
+export const playerAccount = (branch: SkillBranchId) => `${PLAYER_ACCOUNT_PREFIX}${branch}`;
+const sourceAccount = (kind: XpTransactionKind) => `source:${kind}`;
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export type XpBalances = Record<SkillBranchId, number>;
+
+export const emptyBalances = (): XpBalances =>
+  Object.fromEntries(SKILL_BRANCH_IDS.map(branch => [branch, 0])) as XpBalances;
+
+export interface XpTransactionInput {
+  kind: Exclude<XpTransactionKind, 'reversal'>;
+  amounts: Partial<Record<SkillBranchId, number>>;
+  reason: string;
+  actorIds?: string[];
+  status?: 'posted' | 'blocked';
+  experienceEventId?: string;
+  missionId?: string;
+  parentId?: string;
+  watcherVerdict?: XpTransaction['watcherVerdict'];
+  metadata?: Record<string, unknown>;
+  timestamp?: number;
+}
+
+/**
+ * Builds a balanced transaction: each branch amount is credited to the
+ * player's branch account and debited from the source account for its kind.
+ * Blocked transactions keep the attempted amount in `xp` but post nothing.
+ */
+export const createXpTransaction = (input: XpTransactionInput): XpTransaction => {
+  const entries = (Object.entries(input.amounts) as Array<[SkillBranchId, number]>).filter(([, amount]) => amount !== 0);
+  const xp = entries.reduce((sum, [, amount]) => sum + amount, 0);
+  const blocked = input.status === 'blocked';
+  const postings = blocked
+    ? []
+    : [
+      ...entries.map(([branch, amount]) => ({ account: playerAccount(branch), amount })),
+      { account: sourceAccount(input.kind), amount: -xp }
+    ];
+  return {
+    id: `xptx_${createId()}`,
+    kind: input.kind,
+    status: blocked ? 'blocked' : 'posted',
+    xp,
+    postings,
+    branch: entries.length === 1 ? entries[0][0] : undefined,
+    reason: input.reason,
+    actorIds: input.actorIds ?? [],
+    experienceEventId: input.experienceEventId,
+    missionId: input.missionId,
+    parentId: input.parentId,
+    watcherVerdict: input.watcherVerdict,
+    metadata: input.metadata,
+    timestamp: input.timestamp ?? Date.now()
+  };
+};
+
+/** The mirror-image transaction that cancels `original`; the original is kept and marked voided. */
+export const createReversal = (original: XpTransaction, reason: string, timestamp = Date.now()): XpTransaction => ({
+  id: `xptx_${createId()}`,
+  kind: 'reversal',
+  status: 'posted',
+  xp: -original.xp,
+  postings: original.postings.map(posting => ({ account: posting.account, amount: -posting.amount })),
+  branch: original.branch,
+  reason,
+  actorIds: original.actorIds,
+  reversesId: original.id,
+  missionId: original.missionId,
+  timestamp
+});
+
+/** Player balances from replaying transactions. Voided ones still count: their reversals cancel them. */
+export const computeLedgerBalances = (transactions: XpTransaction[]): XpBalances => {
+  const balances = emptyBalances();
+  transactions.forEach(transaction => {
+    if (transaction.status === 'blocked') return;
+    transaction.postings.forEach(posting => {
+      if (!posting.account.startsWith(PLAYER_ACCOUNT_PREFIX)) return;
+      const branch = posting.account.slice(PLAYER_ACCOUNT_PREFIX.length) as SkillBranchId;
+      if (branch in balances) balances[branch] += posting.amount;
+    });
+  });
+  return balances;
+};
+
+/** Adds freshly posted transactions to progress without a full replay. */
+export const applyXpTransactions = (progress: PlayerProgress, transactions: XpTransaction[]): PlayerProgress => {
+  const delta = computeLedgerBalances(transactions);
+  const branchXp = { ...progress.branchXp };
+  let totalXp = progress.totalXp;
+  SKILL_BRANCH_IDS.forEach(branch => {
+    branchXp[branch] = (branchXp[branch] ?? 0) + delta[branch];
+    totalXp += delta[branch];
+  });
+  return { ...progress, branchXp, totalXp };
+};
+
+/** Opening balances so a ledger started on existing progress replays to the same totals. */
+export const createOpeningBalance = (progress: PlayerProgress, timestamp = Date.now()): XpTransaction | null => {
+  const amounts = Object.fromEntries(
+    SKILL_BRANCH_IDS.map(branch => [branch, progress.branchXp?.[branch] ?? 0]).filter(([, amount]) => amount !== 0)
+  ) as Partial<Record<SkillBranchId, number>>;
+  if (Object.keys(amounts).length === 0) return null;
+  return createXpTransaction({ kind: 'opening_balance', amounts, reason: 'Balance carried over from before the XP ledger', timestamp });
+};
+
+/** Every transaction voiding `root` should take with it: the root and the mission rewards it triggered. */
+export const collectVoidCascade = (root: XpTransaction, transactions: XpTransaction[]): XpTransaction[] => {
+  const cascade = [root];
+  for (let index = 0; index < cascade.length; index++) {
+    const parentId = cascade[index].id;
+    transactions
+      .filter(transaction => transaction.parentId === parentId && transaction.status === 'posted' && !cascade.includes(transaction))
+      .forEach(transaction => cascade.push(transaction));
+  }
+  return cascade;
+};
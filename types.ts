@@ -8,6 +8,28 @@ export interface Memory {
     relevance: number;
     knowledgeRefs?: string[];
     metaTags?: string[];
+    // Spaced-repetition state: recalls lengthen the decay half-life.
+    recallCount?: number;
+    lastRecalledAt?: number;
+    lastDecayedAt?: number;
+    // Set on memories produced by consolidation.
+    mergedFrom?: MemoryProvenance[];
+}
+
+export interface MemoryProvenance {
+    memoryId: number;
+    timestamp: number;
+    summary: string;
+    relevance: number;
+}
+
+export type MemoryArchiveReason = 'low_value' | 'consolidated';
+
+export interface ArchivedMemory extends Memory {
+    id: number;
+    archivedAt: number;
+    archiveReason: MemoryArchiveReason;
+    consolidatedInto?: number;
 }
 
 export interface JournalEntry {
@@ -24,6 +46,46 @@ export interface KnowledgeEntity {
     lastSeenConversationId?: string | null;
 }
 
+export type KnowledgeEvidenceSourceType = 'memory' | 'message' | 'conversation' | 'manual';
+
+export interface KnowledgeEdgeEvidence {
+    sourceType: KnowledgeEvidenceSourceType;
+    sourceId: string;
+    observedAt: number;
+    polarity: 'assert' | 'retract';
+    confidence: number;
+}
+
+export interface KnowledgeEdge {
+    id: string; // source::predicate::target, lowercased
+    source: string;
+    target: string;
+    predicate: string;
+    directed: boolean;
+    confidence: number; // 0-1
+    supportCount: number;
+    retractCount: number;
+    firstSeenAt: number;
+    lastSeenAt: number;
+    evidence: KnowledgeEdgeEvidence[]; // most recent first, capped
+    // Set when a negation or a conflicting single-valued fact was observed.
+    contradicted?: boolean;
+    contradictedBy?: string[];
+    retracted?: boolean;
+}
+
+export interface KnowledgeObservation {
+    source: string;
+    target: string;
+    predicate: string;
+    directed?: boolean;
+    // The source can hold only one target for this predicate (e.g. works_at).
+    exclusive?: boolean;
+    negated?: boolean;
+    confidence?: number;
+    evidence: { sourceType: KnowledgeEvidenceSourceType; sourceId: string; observedAt?: number };
+}
+
 export interface Task {
     id: string;
     description: string;
@@ -46,6 +108,20 @@ export interface AgentResponseParts {
         tags: string[];
     };
     audit?: AuditResult;
+    toolCalls?: AgentToolCallTrace[];
+    // Set when generation was stopped before the model finished its JSON.
+    interrupted?: boolean;
+}
+
+export interface AgentToolCallTrace {
+    id: string;
+    name: string;
+    arguments: Record<string, unknown>;
+    iteration: number;
+    // Serialized tool output as it was fed back to the model (may be truncated).
+    result?: string;
+    error?: string;
+    durationMs: number;
 }
 
 export interface ChatMessage {
@@ -56,6 +132,8 @@ export interface ChatMessage {
     rewrittenContent?: string;
     rewriteStatus?: 'rewritten' | 'unchanged';
     agentResponseParts?: AgentResponseParts;
+    // True while parts are still arriving from a streamed response.
+    streaming?: boolean;
     performerId?: string | null;
     performerName?: string;
     performerIcon?: string;
@@ -68,6 +146,7 @@ export interface ChatMessage {
         mission?: MissionUpdate;
         escortResult?: unknown; // EscortResult from services/escorts
         escortName?: string;
+        escortPipeline?: EscortPipelineRun;
     };
 }
 
@@ -136,14 +215,51 @@ export const HRMR_GRADE_SCALE: HrmrGrade[] = [
     'F'
 ];
 
+export type ModelProvider = 'google' | 'openai' | 'openrouter';
+
+export type CredentialHealthStatus = 'unknown' | 'healthy' | 'failing';
+
+export interface CredentialHealth {
+    status: CredentialHealthStatus;
+    lastCheckedAt?: number;
+    lastError?: string;
+    consecutiveFailures: number;
+}
+
+export interface StoredCredential {
+    id: string;
+    label: string;
+    provider: ModelProvider;
+    // AES-GCM ciphertext and IV, base64; only readable with the vault passphrase
+    cipherText: string;
+    iv: string;
+    // Last characters of the key so entries can be told apart while locked
+    hint: string;
+    health: CredentialHealth;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface ModelRoute {
+    provider: ModelProvider;
+    // Empty uses the provider's model from Settings
+    model: string;
+    // Vault entry; falls back to the provider's credential from Settings
+    credentialId?: string;
+}
+
 export interface PerformerProfile {
     id: string;
     name: string;
     description?: string;
     icon?: string;
-    provider: 'google' | 'openai' | 'openrouter';
+    provider: ModelProvider;
     model: string;
-    apiKey: string;
+    credentialId?: string;
+    // Tried in order when the primary route fails
+    fallbackRoutes?: ModelRoute[];
+    // Plaintext key from before the credential vault; moved into it when the vault is created
+    apiKey?: string;
     prompt: string;
     createdAt: number;
     updatedAt: number;
@@ -231,6 +347,8 @@ export interface PlayerProgress {
     rankId: string;
     activeMissions: MissionProgress[];
     completedMissions: MissionProgress[];
+    // Every mission ever completed; completedMissions is only a recent window.
+    completedMissionIds?: string[];
     missionRefreshAt?: number;
     createdAt: number;
     updatedAt: number;
@@ -265,17 +383,164 @@ export type ExperienceEventType =
     | 'dramatic_event'
     | 'mission_reward';
 
+export type XpTransactionKind = 'award' | 'mission_reward' | 'grant' | 'opening_balance' | 'reversal';
+
+// Blocked transactions are kept for the audit trail but never post.
+export type XpTransactionStatus = 'posted' | 'blocked' | 'voided';
+
+export interface XpPosting {
+    // `player:<branch>` accounts hold the player's XP; `source:<kind>` accounts are where it came from.
+    account: string;
+    amount: number;
+}
+
+export interface XpTransaction {
+    id: string;
+    kind: XpTransactionKind;
+    status: XpTransactionStatus;
+    // Net XP credited to the player; postings always sum to zero.
+    xp: number;
+    postings: XpPosting[];
+    // Absent on grants that span several branches.
+    branch?: SkillBranchId;
+    reason: string;
+    actorIds: string[];
+    experienceEventId?: string;
+    missionId?: string;
+    // The award whose mission progress produced this reward.
+    parentId?: string;
+    reversesId?: string;
+    voidedById?: string;
+    voidReason?: string;
+    watcherVerdict?: { status: 'ok' | 'warn' | 'block'; reasons: string[] };
+    metadata?: Record<string, unknown>;
+    timestamp: number;
+}
+
+export type WatcherSubject = 'experience_award' | 'direct_message' | 'performer_response' | 'memory_write';
+
+export type WatcherStatus = 'ok' | 'warn' | 'block';
+
+export type WatcherComparisonOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq';
+
+// Restricts a window condition to payloads (current and past) whose field equals the value.
+export interface WatcherWindowFilter {
+    field: string;
+    equals: string | number | boolean;
+}
+
+// Window conditions look back over earlier accepted observations of the same subject,
+// optionally only those whose `groupBy` field matches the current payload.
+export type WatcherCondition =
+    | { type: 'compare'; field: string; operator: WatcherComparisonOperator; value: number | string | boolean }
+    | { type: 'empty'; field: string }
+    | { type: 'pattern'; field: string; pattern: string; flags?: string }
+    | { type: 'has_duplicates'; field: string }
+    | { type: 'fields_equal'; field: string; otherField: string }
+    | { type: 'window_sum'; field: string; windowMs: number; limit: number; groupBy?: string; where?: WatcherWindowFilter }
+    | { type: 'window_count'; windowMs: number; limit: number; groupBy?: string; where?: WatcherWindowFilter }
+    | { type: 'recent_duplicate'; field: string; windowMs: number; groupBy?: string; where?: WatcherWindowFilter };
+
+export interface WatcherRule {
+    id: string;
+    subject: WatcherSubject;
+    label: string;
+    description?: string;
+    enabled: boolean;
+    severity: Exclude<WatcherStatus, 'ok'>;
+    condition: WatcherCondition;
+    // Supports {value}, {limit}, {previous}, {total}, {count}, {group} and {windowSeconds}.
+    message: string;
+    remediation: string;
+    builtIn?: boolean;
+    updatedAt?: number;
+}
+
+export interface WatcherObservation {
+    id: string;
+    subject: WatcherSubject;
+    payload: Record<string, unknown>;
+    status: WatcherStatus;
+    ruleIds: string[];
+    reasons: string[];
+    // Set once the audited action actually went through; only committed observations feed window rules.
+    committed: boolean;
+    timestamp: number;
+}
+
 export type IntelligenceCategory = 'brand' | 'client' | 'social' | 'operations' | 'mission';
 
+export type IntelligenceSource = 'chat_generate' | 'performer_response' | 'post_processing' | 'brand_update' | 'client_update' | 'dm_response' | 'calendar_entry' | 'knowledge_connection';
+
+export interface IntelligenceRecord {
+    id: string;
+    source: IntelligenceSource;
+    timestamp: number;
+    requestPayload?: Record<string, unknown>;
+    responsePayload?: Record<string, unknown>;
+    summary?: string;
+    category?: IntelligenceCategory;
+    derivedMissionProgress?: Array<{ missionId: string; progress: number; completed: boolean; rewardXp?: number; title?: string }>;
+    triggeredFollowUpIds?: string[];
+    toolCalls?: AgentToolCallTrace[];
+}
+
+export interface IntelligenceLogQuery {
+    sources?: IntelligenceSource[];
+    categories?: IntelligenceCategory[];
+    since?: number;
+    until?: number;
+    search?: string;
+    order?: 'asc' | 'desc';
+    offset?: number;
+    limit?: number;
+}
+
+export interface IntelligenceLogPage {
+    records: IntelligenceRecord[];
+    total: number;
+    offset: number;
+    hasMore: boolean;
+}
+
 export interface MissionDefinition {
     id: string;
     branch: SkillBranchId;
     title: string;
     description: string;
     target: number;
-    metric: MissionMetric;
+    // 'custom' missions count signals matching `customMetric` instead.
+    metric: MissionMetric | 'custom';
+    customMetric?: CustomMissionMetric;
     rewardXp: number;
     expiresInHours?: number;
+    // Relative chance of rotating in against other missions of the same branch; 0 keeps it out.
+    weight?: number;
+    // Missions that must be completed before this one can rotate in; chains form campaigns.
+    prerequisiteIds?: string[];
+    // Non-repeatable missions rotate in once and never again after completion.
+    repeatable?: boolean;
+    enabled?: boolean;
+    builtIn?: boolean;
+    updatedAt?: number;
+}
+
+export type MissionPredicateOperator = 'equals' | 'not_equals' | 'contains' | 'gte' | 'lte' | 'exists';
+
+export interface MissionMetricPredicate {
+    // Dot path into ExperienceEvent.metadata, or into the intelligence record (e.g. `requestPayload.type`).
+    field: string;
+    operator: MissionPredicateOperator;
+    value?: string | number | boolean;
+}
+
+export interface CustomMissionMetric {
+    source: 'experience' | 'intelligence';
+    // Empty lists match every event type or category.
+    eventTypes?: ExperienceEventType[];
+    categories?: IntelligenceCategory[];
+    predicates: MissionMetricPredicate[];
+    match: 'all' | 'any';
 }
 
 export type MissionMetric =
@@ -318,6 +583,13 @@ export interface FollowUpActionHint {
     description?: string;
 }
 
+export type FollowUpPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export interface FollowUpRecurrence {
+    intervalHours: number;
+    until?: number;
+}
+
 export interface IntelligenceFollowUp {
     id: string;
     title: string;
@@ -326,8 +598,21 @@ export interface IntelligenceFollowUp {
     status: FollowUpStatus;
     sourceRecordId: string;
     sourceSummary?: string;
-    priority?: 'low' | 'medium' | 'high';
+    priority?: FollowUpPriority;
+    // Priority before SLA escalation; each escalation level climbs one step from here.
+    basePriority?: FollowUpPriority;
+    escalationLevel?: number;
+    escalatedAt?: number;
+    // Hours an overdue follow-up may sit before escalating again; defaults to the original due window.
+    slaHours?: number;
+    snoozedUntil?: number;
+    assigneeId?: string;
+    recurrence?: FollowUpRecurrence;
+    // Set on a completed recurring follow-up once its next occurrence exists.
+    nextOccurrenceId?: string;
+    ruleId?: string;
     dueAt?: number;
+    completedAt?: number;
     autoGenerated: boolean;
     createdAt: number;
     updatedAt: number;
@@ -335,6 +620,40 @@ export interface IntelligenceFollowUp {
     metadata?: Record<string, unknown>;
 }
 
+// Built-in builders that read the record: changed fields, client names, completed missions.
+export type FollowUpTemplatePreset =
+    | 'brand_review'
+    | 'client_review'
+    | 'mission_broadcast'
+    | 'mission_debrief'
+    | 'operations_review'
+    | 'social_review';
+
+export interface FollowUpTemplate {
+    preset?: FollowUpTemplatePreset;
+    // Override the preset; {summary}, {category}, {source}, {mission} and record paths such as {requestPayload.clientId} are filled in.
+    title?: string;
+    description?: string;
+    priority: FollowUpPriority;
+    dueInHours: number;
+    actionHint?: FollowUpActionHint;
+    assigneeId?: string;
+    recurrence?: FollowUpRecurrence;
+}
+
+export interface FollowUpRule {
+    id: string;
+    label: string;
+    enabled: boolean;
+    category: IntelligenceCategory | 'any';
+    // Read from the intelligence record, as with intelligence-driven missions.
+    conditions: MissionMetricPredicate[];
+    match: 'all' | 'any';
+    template: FollowUpTemplate;
+    builtIn?: boolean;
+    updatedAt?: number;
+}
+
 export type InteractionParticipantType = 'user' | 'sylvia' | 'performer';
 
 export interface PerformerInteractionEvent {
@@ -351,7 +670,7 @@ export interface PerformerInteractionEvent {
     sentiment?: number;
     narrativeTags?: string[];
     context?: 'public' | 'private' | 'system';
-    origin?: 'chat' | 'dm' | 'other';
+    origin?: 'chat' | 'dm' | 'round_table' | 'other';
 }
 
 export interface PerformerInteractionSummary {
@@ -367,6 +686,24 @@ export interface PerformerInteractionSummary {
     pressureScore?: number;
 }
 
+export type InteractionRollupGranularity = 'day' | 'week';
+
+// One time bucket of a pair's interactions; kept up to date alongside the summary.
+export interface PerformerInteractionRollup {
+    id: string;
+    pairKey: string;
+    participants: string[];
+    granularity: InteractionRollupGranularity;
+    bucketStart: number;
+    interactions: number;
+    sentimentSum: number;
+    sentimentCount: number;
+    pressureScore: number;
+    intrigueCount: number;
+    publicCount: number;
+    privateCount: number;
+}
+
 export interface TagScore {
     tag: string;
     memoryCount: number;
@@ -405,6 +742,8 @@ export interface PerformerRelationship {
     tension: number; // 0-100
     attraction?: number; // 0-100, optional for romantic
     lastInteraction: number;
+    // Last time the drift simulation advanced this relationship.
+    lastSimulatedAt?: number;
     history: string[];
     createdAt: number;
     updatedAt: number;
@@ -418,6 +757,8 @@ export interface PerformerSecret {
     knownBy: string[]; // performer IDs who know
     revealedAt?: number;
     impact: number; // 0-100
+    pressure?: number; // 0-100, builds while a high-impact secret stays hidden
+    pressureUpdatedAt?: number;
     createdAt: number;
 }
 
@@ -443,20 +784,45 @@ export interface CoordinationPlan {
     updatedAt: number;
 }
 
+export type PrivateConversationKind = 'direct' | 'group';
+
+export interface PrivateConversationMember {
+    performerId: string;
+    joinedAt: number;
+    // Set when the member leaves; a rejoin clears it and starts a new window
+    leftAt?: number;
+    // Timestamp of the newest message this member has read
+    lastReadAt: number;
+}
+
 export interface PrivateConversation {
     id: string;
-    participant1Id: string;
-    participant2Id: string;
+    kind: PrivateConversationKind;
+    title?: string;
+    // Everyone who has ever been in the thread, including those who left
+    members: PrivateConversationMember[];
+    // Current members only; mirrors `members` for the multi-entry index
+    memberIds: string[];
     messages: PrivateMessage[];
     createdAt: number;
     updatedAt: number;
 }
 
+export type PrivateMessageKind = 'message' | 'join' | 'leave' | 'secret';
+
+export type PrivateMessageOrigin = 'manual' | 'autonomous';
+
 export interface PrivateMessage {
     id: string;
     senderId: string;
     content: string;
     timestamp: number;
+    // Defaults to 'message'; join/leave record membership changes in the timeline
+    kind?: PrivateMessageKind;
+    // Shared secret; only members present when it was shared can see it
+    secretId?: string;
+    // Defaults to 'manual'; 'autonomous' messages come from the backchannel simulation
+    origin?: PrivateMessageOrigin;
 }
 
 export interface BrandIntelligence {
@@ -492,3 +858,207 @@ export interface ClientProfile {
     createdAt: number;
     updatedAt: number;
 }
+
+export type EscortPipelineStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface EscortPipelineStage {
+    escortId: string;
+    status: EscortPipelineStatus;
+    input?: string;
+    result?: string;
+    metadata?: Record<string, unknown>;
+    error?: string;
+    startedAt?: number;
+    completedAt?: number;
+}
+
+export interface EscortPipelineRun {
+    id: string;
+    name: string;
+    input: string;
+    stages: EscortPipelineStage[];
+    status: EscortPipelineStatus;
+    plannedBy: 'user' | 'planner';
+    recipeId?: string | null;
+    replayOf?: string | null;
+    rationale?: string;
+    conversationId?: string | null;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface EscortRecipe {
+    id: string;
+    name: string;
+    description?: string;
+    escortIds: string[];
+    createdAt: number;
+    updatedAt: number;
+}
+
+export type EmbeddingSourceType = 'memory' | 'performer_memory' | 'thread';
+
+export interface EmbeddingRecord {
+    id: string; // `${providerId}:${sourceType}:${sourceId}`
+    sourceType: EmbeddingSourceType;
+    sourceId: string;
+    providerId: string;
+    dimensions: number;
+    vector: number[];
+    contentHash: string;
+    updatedAt: number;
+}
+
+export type MemoryConsolidationStatus = 'pending' | 'applied' | 'discarded';
+
+// Memory state a planned change was computed from; a change whose memory moved on is not applied.
+export interface MemoryChangeBasis {
+    relevance: number;
+    recallCount: number;
+    lastRecalledAt?: number;
+}
+
+export interface MemoryDecayChange {
+    key: string;
+    memoryId: number;
+    summary: string;
+    before: number;
+    after: number;
+    halfLifeDays: number;
+    basis?: MemoryChangeBasis;
+}
+
+export interface MemoryMergeChange {
+    key: string;
+    sourceIds: number[];
+    sourceSummaries: string[];
+    summary: string;
+    tags: string[];
+    knowledgeRefs: string[];
+    relevance: number;
+    similarity: number;
+}
+
+export interface MemoryArchiveChange {
+    key: string;
+    memoryId: number;
+    summary: string;
+    relevance: number;
+    reason: string;
+    basis?: MemoryChangeBasis;
+}
+
+export interface MemoryConsolidationRun {
+    id: string;
+    status: MemoryConsolidationStatus;
+    trigger: 'manual' | 'scheduled';
+    decay: MemoryDecayChange[];
+    merges: MemoryMergeChange[];
+    archives: MemoryArchiveChange[];
+    // Change keys the reviewer unticked; skipped when the run is applied.
+    skippedKeys?: string[];
+    createdAt: number;
+    resolvedAt?: number;
+}
+
+export type RoundTableStopCondition = 'max_rounds' | 'consensus' | 'stalemate';
+
+export type RoundTableStance = 'agree' | 'disagree' | 'undecided';
+
+export type RoundTableStatus = 'running' | 'completed' | 'stopped' | 'error';
+
+export interface RoundTableTurn {
+    id: string;
+    round: number;
+    speakerId: string;
+    speakerName: string;
+    addressedIds: string[];
+    content: string;
+    stance: RoundTableStance;
+    sentiment: number;
+    // Moderator score that won this speaker the floor.
+    selectionScore: number;
+    timestamp: number;
+}
+
+export interface RoundTableSummary {
+    summary: string;
+    consensus: string[];
+    dissent: Array<{ performerId: string | null; performerName: string; position: string }>;
+    openQuestions: string[];
+}
+
+export interface RoundTableSession {
+    id: string;
+    topic: string;
+    performerIds: string[];
+    maxRounds: number;
+    stopCondition: RoundTableStopCondition;
+    status: RoundTableStatus;
+    stopReason?: string;
+    turns: RoundTableTurn[];
+    summary?: RoundTableSummary;
+    error?: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Where a structured lens result is written after it runs.
+export type LensOutputTarget = 'none' | 'journal' | 'follow_ups' | 'knowledge';
+
+export interface CustomLens {
+    id: string;
+    label: string;
+    tagline: string;
+    instructions: string;
+    formatHint: string;
+    // JSON Schema for structured output; null keeps the lens free-form Markdown.
+    outputSchema: Record<string, unknown> | null;
+    outputTarget: LensOutputTarget;
+    relatedModules: string[];
+    createdAt: number;
+    updatedAt: number;
+}
+
+export type CalendarRecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface CalendarRecurrence {
+    frequency: CalendarRecurrenceFrequency;
+    interval: number;
+    // Stop after this many occurrences, or at `until` (epoch ms), whichever comes first.
+    count?: number;
+    until?: number;
+}
+
+export interface CalendarAttendee {
+    name: string;
+    kind: 'performer' | 'client' | 'external';
+    // Performer or client id when the attendee resolved to a known profile.
+    refId?: string;
+    email?: string;
+}
+
+export type CalendarEventOrigin = 'calendar_lens' | 'memory' | 'ics_import' | 'manual';
+
+export interface CalendarEvent {
+    id: string;
+    // iCalendar UID; kept stable across export and re-import.
+    uid: string;
+    title: string;
+    description?: string;
+    location?: string;
+    start: number;
+    end: number;
+    allDay: boolean;
+    attendees: CalendarAttendee[];
+    recurrence: CalendarRecurrence | null;
+    // Starts of recurring occurrences that were cancelled (EXDATE)
+    exdates?: number[];
+    // Set on a changed single occurrence: the start it replaces in the series with the same uid (RECURRENCE-ID)
+    recurrenceId?: number;
+    origin: CalendarEventOrigin;
+    sourceMessageId?: string;
+    sourceConversationId?: string;
+    createdAt: number;
+    updatedAt: number;
+}